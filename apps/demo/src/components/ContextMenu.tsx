@@ -13,6 +13,25 @@ export default function ContextMenu() {
 
   const contextMenuRef = useRef<HoopsContextMenuElement | null>(null);
 
+  useEffect(() => {
+    const items = contextMenuRef.current?.items;
+    if (!items) {
+      return;
+    }
+
+    items.register({
+      id: 'copy-node-id',
+      label: 'Copy Node Id',
+      group: 'clipboard',
+      order: 900,
+      isEnabled: (context) => context.nodeIds.length > 0,
+      execute: (context) => navigator.clipboard.writeText(context.nodeIds.join(', ')),
+    });
+    return () => {
+      items.unregister('copy-node-id');
+    };
+  }, []);
+
   useEffect(() => {
     if (!viewerState.viewerReady || !contextMenuRef.current) {
       return;
@@ -4,7 +4,12 @@ import { HoopsModelTree } from '@ts3d-hoops/web-viewer-components-react';
 import { useSelector } from '@xstate/react';
 import { uiActor } from '../statemachines/uiMachine';
 import { viewerActor } from '../statemachines/viewerMachine';
-import { HoopsModelTreeElement, ModelTreeNodeClickEvent } from '@ts3d-hoops/web-viewer-components';
+import {
+  HoopsModelTreeElement,
+  ModelTreeNodeClickEvent,
+  ModelTreeSearchSelectEvent,
+  ModelTreeSelectionChangeEvent,
+} from '@ts3d-hoops/web-viewer-components';
 import { ModelTreeNodeVisibilityClickEvent } from '@ts3d-hoops/web-viewer-components/hoops-model-tree/hoops-model-tree';
 import { Event, NodeId, NodeSource, SelectionMode, WebViewer } from '@ts3d-hoops/web-viewer';
 import { getRegisteredViewer } from '../utils/registerViewer';
@@ -63,19 +68,8 @@ export default function ModelTreePanel() {
         tree.expandPath(path);
       }
 
-      // Scroll to the first selected node
-      requestAnimationFrame(() => {
-        const firstSelectedNodeId = selectedNodeIds[0];
-        const nodeElement = tree.shadowRoot?.querySelector(
-          `hoops-tree-node[key="${firstSelectedNodeId}"]`,
-        );
-        if (nodeElement) {
-          nodeElement.scrollIntoView({
-            behavior: 'smooth',
-            block: 'center',
-          });
-        }
-      });
+      // Scroll to the first selected node, the tree is virtualized so it may not be rendered yet
+      tree.scrollToNode(selectedNodeIds[0], { behavior: 'smooth', block: 'center' });
     };
 
     const hwvVisibilityChanged = (e: Event) => {
@@ -182,14 +176,41 @@ export default function ModelTreePanel() {
     });
   };
 
+  const modelTreeSearchSelect = (e: Event) => {
+    const event = e as ModelTreeSearchSelectEvent;
+    event.stopPropagation();
+
+    viewerActor.send({
+      type: 'selectNodes',
+      clear: true,
+      nodeIds: event.detail.nodeIds,
+      mode: SelectionMode.Add,
+    });
+  };
+
+  const modelTreeSelectionChange = (e: Event) => {
+    const event = e as ModelTreeSelectionChangeEvent;
+    event.stopPropagation();
+
+    viewerActor.send({
+      type: 'selectNodes',
+      clear: true,
+      nodeIds: event.detail.nodeIds,
+      mode: SelectionMode.Add,
+    });
+  };
+
   return (
     <div hidden={!uiState.modelTreeShown}>
       <HoopsModelTree
         data-testid="modeltree"
         className="tree"
         ref={modelTreeRef}
+        searchBox
         modelTreeNodeClick={modelTreeNodeClick}
         modelTreeNodeVisibilityChange={modelTreeNodeVisibilityChange}
+        modelTreeSearchSelect={modelTreeSearchSelect}
+        modelTreeSelectionChange={modelTreeSelectionChange}
         onContextMenu={(e) => {
           e.preventDefault();
         }}
@@ -10,6 +10,7 @@ import {
   HoopsCadConfigurationButton,
   HoopsPropertiesButton,
   HoopsSnapshotButton,
+  HoopsUndoButton,
   HoopsViewsButton,
   HoopsTypesButton,
   HoopsExplodeButton,
@@ -131,7 +132,8 @@ export default function Toolbar({ children }: Props) {
         <HoopsSeparator direction="horizontal" />
         <HoopsHomeButton />
         <HoopsCameraButton />
-        <HoopsSnapshotButton onClick={() => viewerActor.send({ type: 'takeSnapshot' })} />
+        <HoopsSnapshotButton />
+        <HoopsUndoButton />
         <HoopsSeparator direction="horizontal" />
         <HoopsDrawmodeButton />
         <HoopsCameraOperatorButton />
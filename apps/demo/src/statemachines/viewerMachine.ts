@@ -1,7 +1,6 @@
 import { setup, assign, createActor } from 'xstate';
 
 import { Selection, SelectionMode, WebViewer } from '@ts3d-hoops/web-viewer';
-import { takeSnapshot } from '../utils/takeSnapshot';
 import WebViewerComponent from '@ts3d-hoops/web-viewer-components/hoops-web-viewer';
 import { getRegisteredViewer, registerViewer } from '../utils/registerViewer';
 import { IViewService } from '@ts3d-hoops/web-viewer-components/services/view/types';
@@ -23,7 +22,6 @@ type SceneReadyEvent = { type: 'sceneReady' };
 type NodeSelectedEvent = { type: 'nodeSelected'; nodeId: number };
 
 // Actions Events
-type TakeSnapShotEvent = { type: 'takeSnapshot' };
 type OpenEmptyViewerEvent = { type: 'openEmptyViewer' };
 type OpenModelEvent = { type: 'openModel'; modelName: string };
 type ImportModelEvent = { type: 'importModel'; modelName: string };
@@ -70,7 +68,6 @@ export const viewerMachine = setup({
       | ModelReadyEvent
       | AssemblyTreeReadyEvent
       | SceneReadyEvent
-      | TakeSnapShotEvent
       | OpenEmptyViewerEvent
       | NodeSelectedEvent
       | OpenModelEvent
@@ -118,7 +115,6 @@ export const viewerMachine = setup({
     assignSelectedNodeId: assign({
       selectedNodeId: ({ event }) => (event as NodeSelectedEvent).nodeId,
     }),
-    takeSnapshot: () => takeSnapshot(getRegisteredViewer('')!.hwv),
     openEmptyViewer: () => (window.location.href = '.'),
     openModel: ({ event }) => {
       const modelPath = import.meta.env.VITE_MODEL_URL
@@ -229,9 +225,6 @@ export const viewerMachine = setup({
         nodeSelected: {
           actions: 'assignSelectedNodeId',
         },
-        takeSnapshot: {
-          actions: 'takeSnapshot',
-        },
         openEmptyViewer: {
           actions: 'openEmptyViewer',
         },
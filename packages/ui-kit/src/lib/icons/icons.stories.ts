@@ -27,6 +27,10 @@ import {
   measureDistance,
   measureEdge,
   measurePoint,
+  measureRadius,
+  measurePlane,
+  measureClearance,
+  measureArea,
   note,
   orbit,
   orthoView,
@@ -195,6 +199,10 @@ export const Base: Story = {
       ['download icon', downloadIcon],
       ['tools icon', toolsIcon],
       ['cad configuration', cadConfiguration],
+      ['measureRadius', measureRadius],
+      ['measurePlane', measurePlane],
+      ['measureClearance', measureClearance],
+      ['measureArea', measureArea],
     ];
 
     return html`
@@ -149,3 +149,13 @@ export const typesIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0
 export const relationshipIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 -960 960 960" fill="var(--hoops-svg-stroke-color, #303030)"><path d="M200-80q-50 0-85-35t-35-85q0-39 22.5-70t57.5-43v-87q0-50 35-85t85-35h160v-127q-35-12-57.5-43T360-760q0-50 35-85t85-35q50 0 85 35t35 85q0 39-22.5 70T520-647v127h160q50 0 85 35t35 85v87q35 12 57.5 43t22.5 70q0 50-35 85t-85 35q-50 0-85-35t-35-85q0-39 22.5-70t57.5-43v-87q0-17-11.5-28.5T680-440H520v127q35 12 57.5 43t22.5 70q0 50-35 85t-85 35q-50 0-85-35t-35-85q0-39 22.5-70t57.5-43v-127H280q-17 0-28.5 11.5T240-400v87q35 12 57.5 43t22.5 70q0 50-35 85t-85 35Zm0-80q17 0 28.5-11.5T240-200q0-17-11.5-28.5T200-240q-17 0-28.5 11.5T160-200q0 17 11.5 28.5T200-160Zm280 0q17 0 28.5-11.5T520-200q0-17-11.5-28.5T480-240q-17 0-28.5 11.5T440-200q0 17 11.5 28.5T480-160Zm280 0q17 0 28.5-11.5T800-200q0-17-11.5-28.5T760-240q-17 0-28.5 11.5T720-200q0 17 11.5 28.5T760-160ZM480-720q17 0 28.5-11.5T520-760q0-17-11.5-28.5T480-800q-17 0-28.5 11.5T440-760q0 17 11.5 28.5T480-720Z"/></svg>`;
 export const codeIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 -960 960 960" width="24px" fill="var(--hoops-svg-stroke-color)"><path d="m384-336 56-57-87-87 87-87-56-57-144 144 144 144Zm192 0 144-144-144-144-56 57 87 87-87 87 56 57ZM200-120q-33 0-56.5-23.5T120-200v-560q0-33 23.5-56.5T200-840h560q33 0 56.5 23.5T840-760v560q0 33-23.5 56.5T760-120H200Zm0-80h560v-560H200v560Zm0-560v560-560Z"/></svg>`;
 export const sheetsIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 -960 960 960" fill="var(--hoops-svg-stroke-color, #303030)"><path d="M320-240h320v-80H320v80Zm0-160h320v-80H320v80ZM240-80q-33 0-56.5-23.5T160-160v-640q0-33 23.5-56.5T240-880h320l240 240v480q0 33-23.5 56.5T720-80H240Zm280-520v-200H240v640h480v-440H520ZM240-800v200-200 640-640Z"/></svg>`;
+export const arrowUpIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 -960 960 960" width="24px" fill="var(--hoops-svg-stroke-color, #303030)"><path d="M440-160v-487L216-423l-56-57 320-320 320 320-56 57-224-224v487h-80Z"/></svg>`;
+export const arrowDownIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 -960 960 960" width="24px" fill="var(--hoops-svg-stroke-color, #303030)"><path d="M440-800v487L216-537l-56 57 320 320 320-320-56-57-224 224v-487h-80Z"/></svg>`;
+export const filterIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 -960 960 960" width="24px" fill="var(--hoops-svg-stroke-color, #303030)"><path d="M440-160q-17 0-28.5-11.5T400-200v-240L168-736q-15-20-4.5-42t36.5-22h560q26 0 36.5 22t-4.5 42L560-440v240q0 17-11.5 28.5T520-160h-80Zm40-308 198-252H282l198 252Zm0 0Z"/></svg>`;
+export const selectAllIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 -960 960 960" width="24px" fill="var(--hoops-svg-stroke-color, #303030)"><path d="M280-280v-400h400v400H280Zm80-80h240v-240H360v240ZM200-200v80q-33 0-56.5-23.5T120-200h80Zm-80-80v-80h80v80h-80Zm0-160v-80h80v80h-80Zm0-160v-80h80v80h-80Zm80-160h-80q0-33 23.5-56.5T200-840v80Zm80 640v-80h80v80h-80Zm0-640v-80h80v80h-80Zm160 640v-80h80v80h-80Zm0-640v-80h80v80h-80Zm160 640v-80h80v80h-80Zm0-640v-80h80v80h-80Zm160 640v-80h80q0 33-23.5 56.5T760-120Zm0-160v-80h80v80h-80Zm0-160v-80h80v80h-80Zm0-160v-80h80v80h-80Zm0-160v-80q33 0 56.5 23.5T840-760h-80Z"/></svg>`;
+export const undoIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 -960 960 960" width="24px" fill="var(--hoops-svg-stroke-color, #303030)"><path d="M280-200v-80h284q63 0 109.5-40T720-420q0-60-46.5-100T564-560H312l104 104-56 56-200-200 200-200 56 56-104 104h252q97 0 166.5 63T800-420q0 94-69.5 157T564-200H280Z"/></svg>`;
+export const redoIcon = svg`<svg xmlns="http://www.w3.org/2000/svg" height="24px" viewBox="0 -960 960 960" width="24px" fill="var(--hoops-svg-stroke-color, #303030)"><path d="M396-200q-97 0-166.5-63T160-420q0-94 69.5-157T396-640h252L544-744l56-56 200 200-200 200-56-56 104-104H396q-63 0-109.5 40T240-420q0 60 46.5 100T396-280h284v80H396Z"/></svg>`;
+export const measureRadius = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="var(--hoops-svg-stroke-color, #303030)" stroke-width="1.5" stroke-linecap="round"><circle cx="12" cy="12" r="9" fill="var(--hoops-svg-fill-color, #f0f0f0)"/><path d="M12 12l6.4-6.4M15.2 5.6h3.2v3.2"/><circle cx="12" cy="12" r="1" fill="var(--hoops-svg-stroke-color, #303030)"/></svg>`;
+export const measurePlane = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="var(--hoops-svg-stroke-color, #303030)" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"><path d="M2 20l5-5h15l-5 5z" fill="var(--hoops-svg-fill-color, #f0f0f0)"/><path d="M12 17.5V6.5M10 15.5l2 2 2-2M10 8.5l2-2 2 2"/><circle cx="12" cy="4" r="1.5" fill="var(--hoops-svg-stroke-color, #303030)"/></svg>`;
+export const measureClearance = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="var(--hoops-svg-stroke-color, #303030)" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"><rect x="2" y="5" width="6" height="14" rx="1" fill="var(--hoops-svg-fill-color, #f0f0f0)"/><rect x="16" y="5" width="6" height="14" rx="1" fill="var(--hoops-svg-fill-color, #f0f0f0)"/><path d="M10 12h4M11.5 10.5L10 12l1.5 1.5M12.5 10.5L14 12l-1.5 1.5"/></svg>`;
+export const measureArea = svg`<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="var(--hoops-svg-stroke-color, #303030)" stroke-width="1.5" stroke-linejoin="round"><path d="M12 3l8 4.5v9L12 21l-8-4.5v-9z" fill="var(--hoops-svg-fill-color, #f0f0f0)"/><path d="M4 7.5l8 4.5 8-4.5L12 3z" fill="var(--hoops-svg-stroke-color, #303030)" fill-opacity="0.2"/><path d="M12 12v9"/></svg>`;
@@ -1,16 +1,18 @@
 /*
-The events emitted by the tree nodes.
+The events emitted by the tree and its nodes.
 */
 export type TreeNodeClickEvent = CustomEvent<{ key: number; source: HTMLElement } & BaseMouseEvent>;
 export type TreeNodeExpandEvent = CustomEvent<
   { key: number; expanded: boolean; source: HTMLElement } & BaseMouseEvent
 >;
+export type TreeSelectionChangeEvent = CustomEvent<{ key: number; selected: number[] }>;
 
 declare global {
   interface CustomEventMap {
     'hoops-tree-node-click': TreeNodeClickEvent;
     'hoops-tree-node-aux-click': TreeNodeClickEvent;
     'hoops-tree-node-expand': TreeNodeExpandEvent;
+    'hoops-tree-selection-change': TreeSelectionChangeEvent;
   }
 }
 
@@ -1,4 +1,4 @@
-import { LitElement, html, css, nothing, HTMLTemplateResult } from 'lit';
+import { LitElement, html, css, nothing, HTMLTemplateResult, PropertyValues } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import { consume } from '@lit/context';
 import type { ContextWrapper } from './context';
@@ -11,6 +11,10 @@ export type * from './custom-events.d.ts';
 /**
  * This class represent a node in a `hoops-tree`.
  *
+ * The node has the `treeitem` role and reflects its state in the
+ * `aria-expanded`, `aria-selected` and `aria-level` attributes. Its tabindex is
+ * managed by the tree.
+ *
  * @class TreeNode
  * @typedef {TreeNode}
  * @extends {LitElement}
@@ -24,6 +28,15 @@ export default class TreeNode extends LitElement {
         display: block;
       }
 
+      :host(:focus) {
+        outline: none;
+      }
+
+      :host(:focus-visible) .header {
+        outline: 2px solid var(--hoops-accent-foreground-active, var(--blue, #0078d4));
+        outline-offset: -2px;
+      }
+
       .header {
         width: 100%;
         display: flex;
@@ -118,6 +131,24 @@ export default class TreeNode extends LitElement {
   @property({ type: Boolean })
   public selected = false;
 
+  /**
+   * The depth of the node, used to indent the rows of a virtual tree whose
+   * nodes are not nested.
+   *
+   * @type {number}
+   */
+  @property({ type: Number })
+  public depth = 0;
+
+  /**
+   * The level of the node in the tree, starting at 1 for the root, exposed as
+   * `aria-level`. It is not set if 0.
+   *
+   * @type {number}
+   */
+  @property({ type: Number })
+  public level = 0;
+
   /**
    * Wheteher or not a node is a leaaf.
    *
@@ -126,6 +157,31 @@ export default class TreeNode extends LitElement {
   @property({ type: Boolean })
   public leaf = false;
 
+  /** @internal */
+  override connectedCallback(): void {
+    super.connectedCallback();
+    this.setAttribute('role', 'treeitem');
+  }
+
+  /** @internal */
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+
+    if (this.leaf) {
+      this.removeAttribute('aria-expanded');
+    } else {
+      this.setAttribute('aria-expanded', String(this.expanded));
+    }
+
+    this.setAttribute('aria-selected', String(this.selected));
+
+    if (this.level > 0) {
+      this.setAttribute('aria-level', String(this.level));
+    } else {
+      this.removeAttribute('aria-level');
+    }
+  }
+
   /** @internal */
   protected override render(): unknown {
     if (Number.isNaN(this.key) || !this.tree) {
@@ -142,7 +198,7 @@ export default class TreeNode extends LitElement {
       @click=${this.handleNodeClick}
       @auxclick=${this.handleNodeAuxClick}
     >
-      <div class="header">
+      <div class="header" style=${this.depth ? `padding-left: ${this.depth * 0.5}rem` : nothing}>
         ${this.getExpandIcon()}
         <div class="header-caption">
           ${this.tree.context.getContent(
@@ -153,7 +209,7 @@ export default class TreeNode extends LitElement {
           )}
         </div>
       </div>
-      <div class=${`children ${this.expanded ? 'expanded' : ''}`}>
+      <div class=${`children ${this.expanded ? 'expanded' : ''}`} role="group">
         <slot></slot>
       </div>
     </div>`;
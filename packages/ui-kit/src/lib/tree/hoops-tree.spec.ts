@@ -1,4 +1,4 @@
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { html } from 'lit';
 
 import { renderTemplate, tick } from '../testing/utils';
@@ -175,4 +175,196 @@ describe('hoops-tree', () => {
     expect(tree.entries[2]).toBeUndefined();
     expect(tree.entries[4]).toBeUndefined();
   });
+
+  it('should list the displayed nodes in display order', async () => {
+    const tree = document.querySelector('hoops-tree') as Tree;
+    tree.expandPath([0, 1]);
+    await tick();
+
+    expect(tree.flattenEntries()).toEqual([
+      { key: 0, depth: 0 },
+      { key: 1, depth: 1 },
+      { key: 2, depth: 2 },
+      { key: 3, depth: 2 },
+    ]);
+  });
+
+  describe('virtual', () => {
+    const childCount = 1000;
+
+    beforeEach(async () => {
+      const tree = document.querySelector('hoops-tree') as Tree;
+      tree.virtual = true;
+      tree.rowHeight = 20;
+      tree.tree = {
+        context: {
+          ...tree.tree.context,
+          getChildren: (key: number) =>
+            key === 0 ? Array.from({ length: childCount }, (_, index) => index + 1) : [],
+        },
+      };
+      tree.resetTree();
+      tree.expandPath([0]);
+      await tick();
+    });
+
+    const getRenderedKeys = (tree: Tree) =>
+      Array.from(tree.shadowRoot!.querySelectorAll('hoops-tree-node')).map((node) =>
+        Number(node.getAttribute('key')),
+      );
+
+    it('should only render the rows in the viewport', () => {
+      const tree = document.querySelector('hoops-tree') as Tree;
+      const keys = getRenderedKeys(tree);
+
+      expect(keys[0]).toBe(0);
+      expect(keys.length).toBeGreaterThan(1);
+      expect(keys.length).toBeLessThan(childCount / 2);
+    });
+
+    it('should render flat rows indented by their depth', () => {
+      const tree = document.querySelector('hoops-tree') as Tree;
+      const nodes = tree.shadowRoot!.querySelectorAll('hoops-tree-node');
+
+      expect(nodes[0].getAttribute('depth')).toBe('0');
+      expect(nodes[1].getAttribute('depth')).toBe('1');
+      expect(nodes[1].parentElement).toBe(nodes[0].parentElement);
+    });
+
+    it('should render the node scrolled to', async () => {
+      const tree = document.querySelector('hoops-tree') as Tree;
+
+      await tree.scrollToNode(childCount, { block: 'center' });
+      await tick();
+
+      const keys = getRenderedKeys(tree);
+      expect(keys).toContain(childCount);
+      expect(keys).not.toContain(0);
+    });
+
+    it('should render the selected rows as selected', async () => {
+      const tree = document.querySelector('hoops-tree') as Tree;
+      tree.selected = [2];
+      await tick();
+
+      const node = tree.shadowRoot!.querySelector('hoops-tree-node[key="2"]')!;
+      expect(node.hasAttribute('selected')).toBe(true);
+    });
+  });
+
+  describe('keyboard', () => {
+    const labels: Record<number, string> = {
+      0: 'Root',
+      1: 'Assembly',
+      2: 'Bolt',
+      3: 'Nut',
+      4: 'Thread',
+    };
+
+    let tree: Tree;
+
+    const getNode = (key: number) =>
+      tree.shadowRoot!.querySelector<HTMLElement>(`hoops-tree-node[key="${key}"]`)!;
+
+    const press = async (key: string, options: KeyboardEventInit = {}) => {
+      const target = (tree.shadowRoot!.activeElement as HTMLElement) ?? getNode(0);
+      target.dispatchEvent(
+        new KeyboardEvent('keydown', { key, bubbles: true, composed: true, ...options }),
+      );
+      await tick();
+      await tick();
+    };
+
+    const getFocusedKey = () =>
+      Number((tree.shadowRoot!.activeElement as HTMLElement | null)?.getAttribute('key'));
+
+    beforeEach(async () => {
+      tree = document.querySelector('hoops-tree') as Tree;
+      tree.tree = {
+        context: { ...tree.tree.context, getLabel: (key: number) => labels[key] },
+      };
+      tree.expandPath([0, 1]);
+      await tick();
+    });
+
+    it('should expose the WAI-ARIA tree semantics', () => {
+      expect(tree.shadowRoot!.querySelector('.tree')!.getAttribute('role')).toBe('tree');
+
+      const node = getNode(1);
+      expect(node.getAttribute('role')).toBe('treeitem');
+      expect(node.getAttribute('aria-level')).toBe('2');
+      expect(node.getAttribute('aria-expanded')).toBe('true');
+      expect(node.getAttribute('aria-selected')).toBe('false');
+      expect(getNode(3).hasAttribute('aria-expanded')).toBe(false);
+    });
+
+    it('should only put one node in the tab sequence', () => {
+      const tabbable = tree.shadowRoot!.querySelectorAll('hoops-tree-node[tabindex="0"]');
+
+      expect(tabbable.length).toBe(1);
+      expect(tabbable[0].getAttribute('key')).toBe('0');
+    });
+
+    it('should move the focus with the arrow, Home and End keys', async () => {
+      getNode(0).focus();
+
+      await press('ArrowDown');
+      expect(getFocusedKey()).toBe(1);
+      await press('ArrowDown');
+      expect(getFocusedKey()).toBe(2);
+      await press('End');
+      expect(getFocusedKey()).toBe(3);
+      await press('ArrowLeft');
+      expect(getFocusedKey()).toBe(1);
+      await press('Home');
+      expect(getFocusedKey()).toBe(0);
+      expect(getNode(0).getAttribute('tabindex')).toBe('0');
+      expect(getNode(3).getAttribute('tabindex')).toBe('-1');
+    });
+
+    it('should expand and collapse the nodes with the arrow keys', async () => {
+      getNode(2).focus();
+
+      await press('ArrowRight');
+      expect(tree.entries[2].expanded).toBe(true);
+      await press('ArrowRight');
+      expect(getFocusedKey()).toBe(4);
+      await press('ArrowLeft');
+      expect(getFocusedKey()).toBe(2);
+      await press('ArrowLeft');
+      expect(tree.entries[2].expanded).toBe(false);
+    });
+
+    it('should move the focus to the node starting with the typed characters', async () => {
+      getNode(0).focus();
+
+      await press('n');
+      expect(getFocusedKey()).toBe(3);
+      await press('b');
+      expect(getFocusedKey()).toBe(3);
+    });
+
+    it('should select the nodes with Space, Enter, Ctrl and Shift', async () => {
+      const listener = vi.fn();
+      tree.addEventListener('hoops-tree-selection-change', listener);
+      getNode(1).focus();
+
+      await press(' ');
+      expect(tree.selected).toEqual([1]);
+      expect(listener).toHaveBeenLastCalledWith(
+        expect.objectContaining({ detail: { key: 1, selected: [1] } }),
+      );
+
+      await press('ArrowDown', { shiftKey: true });
+      await press('ArrowDown', { shiftKey: true });
+      expect(tree.selected).toEqual([1, 2, 3]);
+
+      await press('Enter', { ctrlKey: true });
+      expect(tree.selected).toEqual([1, 2]);
+      expect(getNode(3).getAttribute('aria-selected')).toBe('false');
+
+      await press('a', { ctrlKey: true });
+      expect(tree.selected).toEqual([0, 1, 2, 3]);
+    });
+  });
 });
@@ -1,19 +1,49 @@
 import { provide } from '@lit/context';
-import { HTMLTemplateResult, LitElement, css, html, nothing } from 'lit';
+import { HTMLTemplateResult, LitElement, PropertyValues, css, html, nothing } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
+import { repeat } from 'lit/directives/repeat.js';
+import { styleMap } from 'lit/directives/style-map.js';
 import { downIcon, rightIcon } from '../icons';
 import type { ContextWrapper } from './context';
 import { treeContext } from './context';
 
-import './hoops-tree-node';
+import TreeNode from './hoops-tree-node';
 import type { TreeNodeExpandEvent } from './custom-events.d.ts';
-import { TreeEntryData } from './types';
+import { TreeEntryData, TreeRow } from './types';
+
+/**
+ * The row height used in virtual mode until a row has been measured.
+ */
+const DefaultRowHeight = 24;
+
+/**
+ * The delay in milliseconds after which the type-ahead characters are forgotten.
+ */
+const TypeAheadDelay = 500;
 
 /**
  * Provides a tree view component for displaying hierarchical data structures.
  *
+ * By default every loaded node is rendered, nested in its parent. Set the `virtual` attribute to
+ * render the expanded nodes as a flat list of rows where only the rows in the viewport are in the
+ * DOM, which keeps trees with tens of thousands of nodes responsive. In virtual mode the tree must
+ * have a bounded height since it scrolls by itself.
+ *
+ * The tree follows the WAI-ARIA tree pattern. Only one node is in the tab sequence and the keyboard
+ * moves the focus between the displayed nodes:
+ * - Up/Down move to the previous/next node, Home/End to the first/last one
+ * - Right expands a node or moves to its first child, Left collapses it or moves to its parent
+ * - Typing characters moves to the next node whose label starts with them, see `TreeContext.getLabel`
+ * - Space/Enter select the focused node, with Ctrl to toggle it and with Shift to select the range
+ *   from the last selected node. Shift+Up/Down extend the selection and Ctrl+A selects all the nodes
+ *
  * @element hoops-tree
  *
+ * @attribute {boolean} virtual - Renders only the rows visible in the viewport
+ * @attribute {number} row-height - The height of a row in pixels in virtual mode, measured if not set
+ *
+ * @fires hoops-tree-selection-change - Emitted when the selection is changed with the keyboard
+ *
  * @example
  * ```html
  * <hoops-tree></hoops-tree>
@@ -49,6 +79,14 @@ export default class Tree extends LitElement {
         width: 100%;
         height: 100%;
       }
+
+      .tree.virtual {
+        overflow: auto;
+      }
+
+      .viewport {
+        position: relative;
+      }
     `,
   ];
 
@@ -69,6 +107,81 @@ export default class Tree extends LitElement {
   @property({ attribute: false })
   public selected: number[] = [];
 
+  /**
+   * Renders only the rows visible in the viewport instead of every loaded node.
+   *
+   * @default false
+   */
+  @property({ type: Boolean })
+  public virtual = false;
+
+  /**
+   * The height of a row in pixels in virtual mode. Rows are clipped to this height.
+   * When not set, the height of the first rendered row is measured.
+   */
+  @property({ type: Number, attribute: 'row-height' })
+  public rowHeight?: number;
+
+  /**
+   * The number of rows rendered above and below the viewport in virtual mode.
+   *
+   * @default 10
+   */
+  @property({ type: Number })
+  public overscan = 10;
+
+  /**
+   * The scroll position of the rows in virtual mode.
+   * @internal
+   */
+  @state()
+  private scrollOffset = 0;
+
+  /**
+   * The height of the element in virtual mode.
+   * @internal
+   */
+  @state()
+  private viewportHeight = 0;
+
+  /**
+   * The measured row height used when `rowHeight` is not set.
+   * @internal
+   */
+  @state()
+  private measuredRowHeight = DefaultRowHeight;
+
+  /**
+   * The expanded entries in display order, computed before each update in virtual mode.
+   * @internal
+   */
+  private rows: TreeRow[] = [];
+
+  /** @internal */
+  private resizeObserver?: ResizeObserver;
+
+  /**
+   * The key of the node that is in the tab sequence.
+   * @internal
+   */
+  @state()
+  private focusedKey?: number;
+
+  /**
+   * The node from which Shift extends the selection.
+   * @internal
+   */
+  private selectionAnchor?: number;
+
+  /**
+   * The characters typed for the type-ahead.
+   * @internal
+   */
+  private typeAheadBuffer = '';
+
+  /** @internal */
+  private typeAheadTimeout?: ReturnType<typeof setTimeout>;
+
   /**
    * Context wrapper providing tree data access methods. Reassign to trigger updates.
    */
@@ -236,8 +349,144 @@ export default class Tree extends LitElement {
   public resetTree(): void {
     this.entries = {};
     this.selected = [];
+    this.focusedKey = undefined;
+    this.selectionAnchor = undefined;
+  }
+
+  /**
+   * Lists the loaded nodes that are displayed, i.e. whose ancestors are all expanded,
+   * in display order along with their depth in the tree.
+   *
+   * @returns The displayed rows, the root node first
+   */
+  public flattenEntries(): TreeRow[] {
+    const rootKey = this.tree?.context.getRoot() ?? Number.NaN;
+    if (Number.isNaN(rootKey)) {
+      return [];
+    }
+
+    const rows: TreeRow[] = [];
+    const pending: TreeRow[] = [{ key: this.getRootNodeData(rootKey).key, depth: 0 }];
+    while (pending.length > 0) {
+      const row = pending.pop()!;
+      rows.push(row);
+
+      const entry = this.entries[row.key];
+      if (!entry.expanded) {
+        continue;
+      }
+
+      // Push the children in reverse order so that they are popped in display order
+      for (let index = entry.children.length - 1; index >= 0; --index) {
+        const child = entry.children[index];
+        if (this.entries[child]) {
+          pending.push({ key: child, depth: row.depth + 1 });
+        }
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Scrolls the tree so that a node is visible. The node must be displayed, use `expandPath` to
+   * expand its ancestors first. This works in virtual mode even if the node is not rendered.
+   *
+   * @param nodeKey - The key of the node to scroll to
+   * @param options - How to align the node, `block` defaults to `'nearest'`
+   * @returns A promise that resolves once the tree is scrolled
+   */
+  public async scrollToNode(nodeKey: number, options: ScrollIntoViewOptions = {}): Promise<void> {
+    await this.updateComplete;
+    const block = options.block ?? 'nearest';
+
+    if (!this.virtual) {
+      const nodeElement = this.renderRoot.querySelector(`hoops-tree-node[key="${nodeKey}"]`);
+      nodeElement?.scrollIntoView?.({ ...options, block });
+      return;
+    }
+
+    const container = this.renderRoot.querySelector<HTMLElement>('.tree');
+    const index = this.rows.findIndex((row) => row.key === nodeKey);
+    if (!container || index < 0) {
+      return;
+    }
+
+    const rowHeight = this.getRowHeight();
+    const viewportHeight = this.getViewportHeight();
+    const rowTop = index * rowHeight;
+
+    let top = rowTop;
+    if (block === 'center') {
+      top = rowTop - (viewportHeight - rowHeight) / 2;
+    } else if (block === 'end') {
+      top = rowTop - viewportHeight + rowHeight;
+    } else if (block === 'nearest') {
+      if (rowTop >= this.scrollOffset && rowTop + rowHeight <= this.scrollOffset + viewportHeight) {
+        return;
+      }
+      top = rowTop < this.scrollOffset ? rowTop : rowTop - viewportHeight + rowHeight;
+    }
+
+    top = Math.max(0, top);
+    if (typeof container.scrollTo === 'function') {
+      container.scrollTo({ top, behavior: options.behavior });
+    } else {
+      container.scrollTop = top;
+    }
+    this.scrollOffset = top;
   }
-  
+
+  /** @internal */
+  override connectedCallback(): void {
+    super.connectedCallback();
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => {
+        this.viewportHeight = this.clientHeight;
+      });
+      this.resizeObserver.observe(this);
+    }
+  }
+
+  /** @internal */
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = undefined;
+    clearTimeout(this.typeAheadTimeout);
+  }
+
+  /** @internal */
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    if (
+      this.virtual &&
+      (changedProperties.has('entries') ||
+        changedProperties.has('tree') ||
+        changedProperties.has('virtual'))
+    ) {
+      this.rows = this.flattenEntries();
+    }
+  }
+
+  /** @internal */
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+
+    if (!this.virtual || this.rowHeight) {
+      return;
+    }
+
+    const firstRow = this.renderRoot.querySelector<HTMLElement>('hoops-tree-node');
+    const height = firstRow?.getBoundingClientRect().height ?? 0;
+    if (height > 0 && height !== this.measuredRowHeight) {
+      this.measuredRowHeight = height;
+    }
+  }
+
   /** @internal */
   protected override render(): unknown {
     const rootKey = this.tree?.context.getRoot() ?? Number.NaN;
@@ -248,10 +497,22 @@ export default class Tree extends LitElement {
       return html`<div class="tree"></div>`;
     }
 
-    const rootData = this.getRootNodeData(rootKey);
+    if (this.virtual) {
+      return this.renderRows();
+    }
 
-    return html`<div class="tree" @hoops-tree-node-expand=${this.handleNodeExpanded}>
-      ${this.getNode(rootData)}
+    const rootData = this.getRootNodeData(rootKey);
+    const tabbableKey = this.getTabbableKey(rootKey);
+
+    return html`<div
+      class="tree"
+      role="tree"
+      aria-multiselectable="true"
+      @hoops-tree-node-expand=${this.handleNodeExpanded}
+      @keydown=${this.handleKeyDown}
+      @focusin=${this.handleFocusIn}
+    >
+      ${this.getNode(rootData, 1, tabbableKey)}
     </div>`;
   }
 
@@ -262,22 +523,353 @@ export default class Tree extends LitElement {
    * @param event - The tree node expand event
    */
   private handleNodeExpanded(event: TreeNodeExpandEvent): void {
-    this.entries[event.detail.key].expanded = event.detail.expanded;
-    if (event.detail.expanded) {
-      this.loadChildrenData(this.entries[event.detail.key]);
+    this.setNodeExpanded(event.detail.key, event.detail.expanded);
+  }
+
+  /**
+   * Expands or collapses a node, loading its children on demand.
+   * If the focused node gets hidden, the focus moves to the collapsed node.
+   *
+   * @internal
+   * @param key - The key of the node
+   * @param expanded - Whether the node is expanded
+   */
+  private setNodeExpanded(key: number, expanded: boolean): void {
+    this.entries[key].expanded = expanded;
+    if (expanded) {
+      this.loadChildrenData(this.entries[key]);
+      return;
+    }
+
+    if (this.focusedKey !== undefined && !this.isDisplayed(this.focusedKey)) {
+      this.focusedKey = key;
+    }
+    this.updateEntries();
+  }
+
+  /**
+   * Whether a node is loaded and all its ancestors are expanded.
+   *
+   * @internal
+   * @param key - The key of the node
+   * @returns True if the node is displayed
+   */
+  private isDisplayed(key: number): boolean {
+    let entry = this.entries[key];
+    while (entry?.parentKey !== undefined) {
+      entry = this.entries[entry.parentKey];
+      if (!entry?.expanded) {
+        return false;
+      }
+    }
+
+    return !!entry;
+  }
+
+  /**
+   * Gets the node in the tab sequence: the focused node, or the first selected node, or the root.
+   *
+   * @internal
+   * @param rootKey - The key of the root node
+   * @returns The key of the node with a tabindex of 0
+   */
+  private getTabbableKey(rootKey: number): number {
+    if (this.focusedKey !== undefined && this.isDisplayed(this.focusedKey)) {
+      return this.focusedKey;
+    }
+
+    return this.selected.find((key) => this.isDisplayed(key)) ?? rootKey;
+  }
+
+  /**
+   * Keeps track of the focused node when a node is focused with the mouse.
+   *
+   * @internal
+   * @param event - The focus event
+   */
+  private handleFocusIn(event: FocusEvent): void {
+    const node = event.composedPath().find((target) => target instanceof TreeNode) as
+      | TreeNode
+      | undefined;
+    if (node && node.key !== this.focusedKey) {
+      this.focusedKey = node.key;
+    }
+  }
+
+  /**
+   * Implements the keyboard interactions of the WAI-ARIA tree pattern.
+   *
+   * @internal
+   * @param event - The keyboard event
+   */
+  private handleKeyDown(event: KeyboardEvent): void {
+    const rows = this.flattenEntries();
+    if (rows.length === 0) {
+      return;
+    }
+
+    const currentKey = this.getTabbableKey(rows[0].key);
+    const index = Math.max(
+      0,
+      rows.findIndex((row) => row.key === currentKey),
+    );
+    const entry = this.entries[rows[index].key];
+    const toggle = event.ctrlKey || event.metaKey;
+    if (event.shiftKey) {
+      this.selectionAnchor ??= entry.key;
+    }
+
+    switch (event.key) {
+      case 'ArrowDown':
+        this.moveFocus(rows[Math.min(index + 1, rows.length - 1)].key, event.shiftKey);
+        break;
+      case 'ArrowUp':
+        this.moveFocus(rows[Math.max(index - 1, 0)].key, event.shiftKey);
+        break;
+      case 'Home':
+        this.moveFocus(rows[0].key, event.shiftKey);
+        break;
+      case 'End':
+        this.moveFocus(rows[rows.length - 1].key, event.shiftKey);
+        break;
+      case 'ArrowRight':
+        if (!entry.expanded && entry.children.length > 0) {
+          this.setNodeExpanded(entry.key, true);
+        } else if (entry.expanded && rows[index + 1]?.depth > rows[index].depth) {
+          this.moveFocus(rows[index + 1].key);
+        }
+        break;
+      case 'ArrowLeft':
+        if (entry.expanded && entry.children.length > 0) {
+          this.setNodeExpanded(entry.key, false);
+        } else if (entry.parentKey !== undefined) {
+          this.moveFocus(entry.parentKey);
+        }
+        break;
+      case 'Enter':
+      case ' ':
+        this.selectFromKeyboard(entry.key, event.shiftKey, toggle);
+        break;
+      default:
+        if (toggle && event.key.toLowerCase() === 'a') {
+          this.changeSelection(
+            entry.key,
+            rows.map((row) => row.key),
+          );
+        } else if (event.key.length === 1 && !toggle && !event.altKey) {
+          this.typeAhead(event.key, rows, index);
+        } else {
+          return;
+        }
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  /**
+   * Moves the focus to a node, scrolling to it in virtual mode.
+   *
+   * @internal
+   * @param key - The key of the node to focus
+   * @param extendSelection - Whether the selection is extended to the node
+   * @returns A promise that resolves once the node is focused
+   */
+  private async moveFocus(key: number, extendSelection = false): Promise<void> {
+    if (extendSelection) {
+      this.selectFromKeyboard(key, true, false);
+    }
+
+    this.focusedKey = key;
+    await this.scrollToNode(key);
+    await this.updateComplete;
+    this.renderRoot.querySelector<HTMLElement>(`hoops-tree-node[key="${key}"]`)?.focus();
+  }
+
+  /**
+   * Selects a node with the keyboard.
+   *
+   * @internal
+   * @param key - The key of the node
+   * @param range - Whether the nodes from the selection anchor to the node are selected
+   * @param toggle - Whether the node is toggled, or the range added, instead of replacing the selection
+   */
+  private selectFromKeyboard(key: number, range: boolean, toggle: boolean): void {
+    const keys = this.flattenEntries().map((row) => row.key);
+    const anchorIndex =
+      this.selectionAnchor === undefined ? -1 : keys.indexOf(this.selectionAnchor);
+
+    if (range && anchorIndex >= 0) {
+      const keyIndex = keys.indexOf(key);
+      const rangeKeys = keys.slice(
+        Math.min(anchorIndex, keyIndex),
+        Math.max(anchorIndex, keyIndex) + 1,
+      );
+      const selected = toggle
+        ? [...this.selected, ...rangeKeys.filter((current) => !this.selected.includes(current))]
+        : rangeKeys;
+      this.changeSelection(key, selected);
+      return;
+    }
+
+    this.selectionAnchor = key;
+    if (toggle) {
+      this.changeSelection(
+        key,
+        this.selected.includes(key)
+          ? this.selected.filter((current) => current !== key)
+          : [...this.selected, key],
+      );
     } else {
-      this.updateEntries();
+      this.changeSelection(key, [key]);
+    }
+  }
+
+  /**
+   * Replaces the selection and dispatches the hoops-tree-selection-change event.
+   *
+   * @internal
+   * @fires hoops-tree-selection-change
+   * @param key - The key of the node the selection was changed from
+   * @param selected - The new selected keys
+   */
+  private changeSelection(key: number, selected: number[]): void {
+    this.selected = selected;
+    this.dispatchEvent(
+      new CustomEvent('hoops-tree-selection-change', {
+        bubbles: true,
+        composed: true,
+        detail: { key, selected: [...selected] },
+      }),
+    );
+  }
+
+  /**
+   * Moves the focus to the next node whose label starts with the typed characters.
+   *
+   * @internal
+   * @param character - The typed character
+   * @param rows - The displayed rows
+   * @param index - The index of the focused row
+   */
+  private typeAhead(character: string, rows: TreeRow[], index: number): void {
+    const getLabel = this.tree.context.getLabel?.bind(this.tree.context);
+    if (!getLabel) {
+      return;
+    }
+
+    clearTimeout(this.typeAheadTimeout);
+    this.typeAheadTimeout = setTimeout(() => {
+      this.typeAheadBuffer = '';
+    }, TypeAheadDelay);
+    this.typeAheadBuffer += character.toLowerCase();
+
+    // Keep the focused node while it matches the characters typed so far
+    const start = this.typeAheadBuffer.length > 1 ? index : index + 1;
+    for (let offset = 0; offset < rows.length; ++offset) {
+      const row = rows[(start + offset) % rows.length];
+      const label = getLabel(row.key)?.toLowerCase() ?? '';
+      if (label.startsWith(this.typeAheadBuffer)) {
+        this.moveFocus(row.key);
+        return;
+      }
     }
   }
 
+  /**
+   * Renders the rows in the viewport, positioned in a container as high as all the rows.
+   *
+   * @internal
+   * @returns HTML template for the visible rows
+   */
+  private renderRows(): HTMLTemplateResult {
+    const rowHeight = this.getRowHeight();
+    const first = Math.max(0, Math.floor(this.scrollOffset / rowHeight) - this.overscan);
+    const last = Math.min(
+      this.rows.length,
+      Math.ceil((this.scrollOffset + this.getViewportHeight()) / rowHeight) + this.overscan,
+    );
+    const rowStyle = this.rowHeight ? { height: `${this.rowHeight}px`, overflow: 'hidden' } : {};
+    const tabbableKey = this.getTabbableKey(this.rows[0]?.key ?? Number.NaN);
+
+    return html`<div
+      class="tree virtual"
+      role="tree"
+      aria-multiselectable="true"
+      @scroll=${this.handleScroll}
+      @hoops-tree-node-expand=${this.handleNodeExpanded}
+      @keydown=${this.handleKeyDown}
+      @focusin=${this.handleFocusIn}
+    >
+      <div class="viewport" style=${styleMap({ height: `${this.rows.length * rowHeight}px` })}>
+        <div style=${styleMap({ transform: `translateY(${first * rowHeight}px)` })}>
+          ${repeat(
+            this.rows.slice(first, last),
+            (row) => row.key,
+            (row) => {
+              const nodeData = this.entries[row.key];
+              return html`<hoops-tree-node
+                class="node"
+                key=${row.key}
+                depth=${row.depth}
+                level=${row.depth + 1}
+                tabindex=${row.key === tabbableKey ? 0 : -1}
+                style=${styleMap(rowStyle)}
+                ?expanded=${nodeData.expanded}
+                ?selected=${this.selected.includes(row.key)}
+                ?leaf=${!nodeData.children.length}
+              ></hoops-tree-node>`;
+            },
+          )}
+        </div>
+      </div>
+    </div>`;
+  }
+
+  /**
+   * Keeps track of the scroll position to render the rows in the viewport.
+   *
+   * @internal
+   * @param event - The scroll event of the tree container
+   */
+  private handleScroll(event: Event): void {
+    this.scrollOffset = (event.target as HTMLElement).scrollTop;
+  }
+
+  /**
+   * Gets the height of a row in virtual mode.
+   *
+   * @internal
+   * @returns The configured row height, or the measured one
+   */
+  private getRowHeight(): number {
+    return this.rowHeight || this.measuredRowHeight;
+  }
+
+  /**
+   * Gets the height of the viewport, falling back to the window height until it is measured.
+   *
+   * @internal
+   * @returns The viewport height in pixels
+   */
+  private getViewportHeight(): number {
+    return this.viewportHeight || this.clientHeight || window.innerHeight;
+  }
+
   /**
    * Recursively generates HTML template for a node and its loaded children.
    *
    * @internal
    * @param nodeData - Optional node entry data
+   * @param level - The level of the node, 1 for the root
+   * @param tabbableKey - The key of the node in the tab sequence
    * @returns HTML template for the node or nothing if node is not loaded
    */
-  private getNode(nodeData?: TreeEntryData): HTMLTemplateResult | typeof nothing {
+  private getNode(
+    nodeData: TreeEntryData | undefined,
+    level: number,
+    tabbableKey: number,
+  ): HTMLTemplateResult | typeof nothing {
     if (!nodeData) {
       /*
         If the entry is not in the map (node has not been loaded) then we return
@@ -289,11 +881,13 @@ export default class Tree extends LitElement {
     return html`<hoops-tree-node
       class="node"
       key=${nodeData.key}
+      level=${level}
+      tabindex=${nodeData.key === tabbableKey ? 0 : -1}
       ?expanded=${nodeData.expanded}
       ?selected=${this.selected.includes(nodeData.key)}
       ?leaf=${!nodeData.children.length}
     >
-      ${nodeData.children.map((child) => this.getNode(this.entries[child]))}
+      ${nodeData.children.map((child) => this.getNode(this.entries[child], level + 1, tabbableKey))}
     </hoops-tree-node>`;
   }
 
@@ -37,6 +37,15 @@ export type TreeEntryData = {
   children: number[];
 };
 
+/**
+ * A loaded node of the tree in display order, as rendered by the tree in
+ * virtual mode.
+ */
+export type TreeRow = {
+  key: number;
+  depth: number;
+};
+
 /**
  * This interface represent the context of the tree. It contains all the
  * necessary data for the tree to display.
@@ -58,4 +67,9 @@ export interface TreeContext {
     selected?: boolean,
     nodeData?: unknown,
   ): HTMLTemplateResult | typeof nothing;
+  /**
+   * Returns the text of a node, used by the keyboard type-ahead to jump to the
+   * nodes starting with the typed characters.
+   */
+  getLabel?(key: number): string | null | undefined;
 }
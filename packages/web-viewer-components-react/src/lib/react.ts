@@ -15,6 +15,7 @@ import {
   HoopsSettingsButtonElement,
   HoopsHomeButtonElement,
   HoopsSnapshotButtonElement,
+  HoopsUndoButtonElement,
   HoopsDrawmodeButtonElement,
   HoopsRedlinesButtonElement,
   HoopsCameraOperatorButtonElement,
@@ -40,6 +41,7 @@ import {
   HoopsCuttingPlanePanelElement,
   HoopsCuttingSectionElement,
   HoopsCuttingSectionToolbarElement,
+  HoopsBcfTopicListElement,
 } from '@ts3d-hoops/web-viewer-components';
 
 // Base component that wrap LitWebViewerComponent
@@ -259,6 +261,15 @@ export const HoopsSnapshotButton = createComponent({
   tagName: 'hoops-toolbar-snapshot',
   elementClass: HoopsSnapshotButtonElement,
   react: React,
+  events: {
+    snapshotTaken: 'hoops-snapshot-taken',
+  },
+});
+
+export const HoopsUndoButton = createComponent({
+  tagName: 'hoops-toolbar-undo',
+  elementClass: HoopsUndoButtonElement,
+  react: React,
 });
 
 export const HoopsDrawmodeButton = createComponent({
@@ -316,6 +327,9 @@ export const HoopsModelTree = createComponent({
   events: {
     modelTreeNodeVisibilityChange: 'hoops-model-tree-node-visibility-change',
     modelTreeNodeClick: 'hoops-model-tree-node-click',
+    modelTreeSearchChange: 'hoops-model-tree-search-change',
+    modelTreeSearchSelect: 'hoops-model-tree-search-select',
+    modelTreeSelectionChange: 'hoops-model-tree-selection-change',
   },
 });
 
@@ -354,6 +368,15 @@ export const HoopsSheetList = createComponent({
   },
 });
 
+export const HoopsBcfTopicList = createComponent({
+  tagName: 'hoops-bcf-topic-list',
+  elementClass: HoopsBcfTopicListElement,
+  react: React,
+  events: {
+    bcfTopicClick: 'hoops-bcf-topic-click',
+  },
+});
+
 export const HoopsTypesTree = createComponent({
   tagName: 'hoops-types-tree',
   elementClass: HoopsTypesTreeElement,
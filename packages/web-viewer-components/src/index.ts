@@ -1,5 +1,6 @@
 import './lib/context-manager';
 import './lib/hoops-service-registry';
+import './lib/hoops-bcf-topic-list';
 import './lib/hoops-cad-configuration-list/hoops-cad-configuration-list';
 import './lib/hoops-context-menu/hoops-context-menu';
 import './lib/hoops-cutting-plane-editor';
@@ -8,6 +9,7 @@ import './lib/hoops-cutting-plane';
 import './lib/hoops-cutting-plane-panel';
 import './lib/hoops-cutting-section';
 import './lib/hoops-cutting-section-toolbar';
+import './lib/hoops-cutting-section-box';
 import './lib/hoops-info-button';
 import './lib/hoops-layer-tree/hoops-layer-tree';
 import './lib/hoops-model-tree/hoops-model-tree';
@@ -41,5 +43,7 @@ export * from './lib/hoops-cutting-plane';
 export * from './lib/hoops-cutting-plane-panel';
 export * from './lib/hoops-cutting-section';
 export * from './lib/hoops-cutting-section-toolbar';
+export * from './lib/hoops-cutting-section-box';
+export * from './lib/hoops-bcf-topic-list';
 
 export * from './lib/services';
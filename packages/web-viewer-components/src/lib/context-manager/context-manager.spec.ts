@@ -13,11 +13,22 @@ import {
   OperatorId,
 } from '@ts3d-hoops/web-viewer';
 
+const mockService = vi.hoisted(() => ({
+  reset: vi.fn(),
+  clear: vi.fn(),
+  addEventListener: vi.fn(),
+  registerAction: vi.fn(),
+  undo: vi.fn(),
+  redo: vi.fn(),
+  record: vi.fn(),
+  connect: vi.fn(),
+  disconnect: vi.fn(),
+}));
+
 // Mock getService from ../services
 vi.mock('../services', () => ({
-  getService: vi.fn(() => ({
-    reset: vi.fn(),
-  })),
+  getService: vi.fn(() => mockService),
+  tryGetService: vi.fn(() => mockService),
 }));
 
 describe('hoops-web-viewer-context-manager', () => {
@@ -67,6 +78,7 @@ describe('hoops-web-viewer-context-manager', () => {
     markupManager: mockMarkupManager,
     noteTextManager: mockNoteTextManager,
     getSceneReady: vi.fn(() => true),
+    getViewElement: vi.fn(() => document.body),
   } as unknown as WebViewer;
 
   beforeAll(() => {
@@ -109,11 +121,69 @@ describe('hoops-web-viewer-context-manager', () => {
 
     expect(instance._webViewer).toBe(mockWebViewer);
     expect(instance.webViewer).toBe(mockWebViewer);
+    expect(mockService.connect).toHaveBeenCalledOnce();
 
     instance.webViewer = undefined;
 
     expect(instance._webViewer).toBeUndefined();
     expect(instance.webViewer).toBeUndefined();
+    expect(mockService.disconnect).toHaveBeenCalledOnce();
+  });
+
+  it('should register the undo and redo shortcut actions', async () => {
+    const contextManager: HTMLElement = document.querySelector('hoops-web-viewer-context-manager')!;
+    const instance = contextManager as any;
+
+    instance.webViewer = mockWebViewer;
+    const actions = new Map<string, () => Promise<void>>(
+      mockService.registerAction.mock.calls as [string, () => Promise<void>][],
+    );
+    await actions.get('undo')!();
+    await actions.get('redo')!();
+    instance.webViewer = undefined;
+
+    expect(mockService.undo).toHaveBeenCalledOnce();
+    expect(mockService.redo).toHaveBeenCalledOnce();
+  });
+
+  it('should record the isolate and show all shortcut actions in the UndoService', async () => {
+    const contextManager: HTMLElement = document.querySelector('hoops-web-viewer-context-manager')!;
+    const instance = contextManager as any;
+    const camera = { position: 'start' };
+    const view = {
+      ...mockView,
+      getCamera: vi.fn(() => camera),
+      setCamera: vi.fn(),
+      isolateNodes: vi.fn().mockResolvedValue(undefined),
+    };
+    const model = {
+      getAbsoluteRootNode: vi.fn(() => 0),
+      getVisibilityState: vi.fn().mockResolvedValue({
+        defaultVisibility: true,
+        visibilityExceptions: new Set([5]),
+      }),
+      resetNodesVisibility: vi.fn().mockResolvedValue(undefined),
+      setNodesVisibility: vi.fn().mockResolvedValue(undefined),
+    };
+    const selectionManager = { getResults: vi.fn(() => [{ getNodeId: () => 3 }]) };
+
+    instance.webViewer = { ...mockWebViewer, view, model, selectionManager };
+    const actions = new Map<string, () => Promise<void>>(
+      mockService.registerAction.mock.calls as [string, () => Promise<void>][],
+    );
+    await actions.get('isolateSelection')!();
+    await actions.get('showAll')!();
+    instance.webViewer = undefined;
+
+    expect(view.isolateNodes).toHaveBeenCalledWith([3]);
+    expect(model.resetNodesVisibility).toHaveBeenCalledOnce();
+    const [isolate, showAll] = mockService.record.mock.calls.map(([command]) => command);
+    expect(isolate.label).toBe('Isolate');
+    expect(showAll.label).toBe('Show all');
+
+    await isolate.undo();
+    expect(model.setNodesVisibility).toHaveBeenCalledWith([5], false);
+    expect(view.setCamera).toHaveBeenCalledWith(camera);
   });
 
   it('should call getDrawModeName from the view', async () => {
@@ -25,6 +25,7 @@ import {
   CuttingService,
   CameraService,
   getService,
+  tryGetService,
   RedlineService,
   RenderOptionsService,
   IFCRelationshipsService,
@@ -40,6 +41,13 @@ import MeasurementService from '../services/measurement/MeasurementService';
 import ViewService from '../services/view/ViewService';
 import FloorplanService from '../services/floorplan';
 import MaterialService from '../services/material';
+import SnapshotService from '../services/snapshot';
+import SessionStateService from '../services/session-state';
+import UndoService from '../services/undo';
+import ShortcutService from '../services/shortcut';
+import BcfService from '../services/bcf';
+import MarkupService from '../services/markup';
+import { captureVisibility } from '../hoops-context-menu/node-state';
 
 /**
  * Provides centralized context management for the Hoops Web Viewer ecosystem.
@@ -76,6 +84,12 @@ export default class WebViewerContextManager extends LitElement {
   @provide({ context: webViewerContext })
   private _webViewer?: WebViewer;
 
+  /**
+   * The shortcut service listening to the keyboard events for this context manager.
+   * @internal
+   */
+  private shortcutService?: ShortcutService;
+
   /**
    * Gets the current WebViewer instance.
    *
@@ -96,6 +110,7 @@ export default class WebViewerContextManager extends LitElement {
     this._webViewer = value;
 
     if (!this._webViewer) {
+      this.disconnectShortcuts();
       return;
     }
 
@@ -132,8 +147,177 @@ export default class WebViewerContextManager extends LitElement {
       ) as Operators.SpaceMouseOperator;
 
     getService<MaterialService>('MaterialService').viewer = this._webViewer;
+    getService<SnapshotService>('SnapshotService').webViewer = this._webViewer;
+
+    const sessionStateService = getService<SessionStateService>('SessionStateService');
+    sessionStateService.webViewer = this._webViewer;
+    sessionStateService.addEventListener('hoops-session-state-applied', this.handleStateApplied);
+
+    getService<UndoService>('UndoService').webViewer = this._webViewer;
+
+    const shortcutService = getService<ShortcutService>('ShortcutService');
+    shortcutService.viewerElement = this._webViewer.getViewElement();
+    this.registerShortcutActions(shortcutService);
+    if (this.isConnected) {
+      this.connectShortcuts(shortcutService);
+    }
+
+    getService<BcfService>('BcfService').webViewer = this._webViewer;
+    getService<MarkupService>('MarkupService').webViewer = this._webViewer;
+  }
+
+  /** @internal */
+  override connectedCallback(): void {
+    super.connectedCallback();
+
+    const shortcutService = tryGetService<ShortcutService>('ShortcutService');
+    if (this._webViewer && shortcutService) {
+      this.connectShortcuts(shortcutService);
+    }
+  }
+
+  /** @internal */
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.disconnectShortcuts();
   }
 
+  /**
+   * Listens to the shortcuts of the page with a shortcut service, instead of the one previously
+   * connected if any.
+   *
+   * @internal
+   * @param shortcutService - The service to connect
+   * @returns {void}
+   */
+  private connectShortcuts(shortcutService: ShortcutService) {
+    if (this.shortcutService !== shortcutService) {
+      this.disconnectShortcuts();
+    }
+
+    shortcutService.connect();
+    this.shortcutService = shortcutService;
+  }
+
+  /**
+   * Stops listening to the shortcuts of the page, so that the shortcut service of a removed
+   * context manager does not execute actions anymore.
+   *
+   * @internal
+   * @returns {void}
+   */
+  private disconnectShortcuts() {
+    if (this.shortcutService) {
+      this.shortcutService.disconnect();
+      this.shortcutService.viewerElement = undefined;
+      this.shortcutService = undefined;
+    }
+  }
+
+  /**
+   * Registers the handlers of the built-in shortcut actions.
+   *
+   * @internal
+   * @param shortcutService - The service to register the actions in
+   * @returns {void}
+   */
+  private registerShortcutActions(shortcutService: ShortcutService) {
+    shortcutService.registerAction('setDrawMode', (drawMode) =>
+      this.setDrawMode(drawMode as DrawModeName),
+    );
+    shortcutService.registerAction('undo', async () => {
+      await getService<UndoService>('UndoService').undo();
+    });
+    shortcutService.registerAction('redo', async () => {
+      await getService<UndoService>('UndoService').redo();
+    });
+    shortcutService.registerAction('home', () => this.reset());
+    shortcutService.registerAction('fitWorld', () => this._webViewer?.view.fitWorld());
+    shortcutService.registerAction('isolateSelection', () => this.isolateSelection());
+    shortcutService.registerAction('showAll', () => this.showAll());
+    shortcutService.registerAction('toggleExplode', () => {
+      const explodeService = getService<ExplodeService>('ExplodeService');
+      return explodeService.getActive() ? explodeService.stop() : explodeService.start();
+    });
+    shortcutService.registerAction('toggleCuttingSection', async (index) => {
+      const cuttingService = getService<CuttingService>('CuttingService');
+      const sectionIndex = Number(index);
+      const section = cuttingService.getCuttingSection(sectionIndex);
+      if (section) {
+        await cuttingService.setCuttingSectionState(sectionIndex, !section.active);
+      }
+    });
+    shortcutService.registerAction('activateTool', (operatorName) => {
+      const operatorId = OperatorId[operatorName as keyof typeof OperatorId];
+      if (operatorId === undefined) {
+        throw new Error(`Unknown operator: ${operatorName}`);
+      }
+      this.activeToolOperator = operatorId === OperatorId.None ? undefined : operatorId;
+    });
+  }
+
+  /**
+   * Isolates the selected nodes, recorded in the UndoService as the context menu does: undoing
+   * it restores the visibility of the nodes and the camera.
+   *
+   * @internal
+   * @returns {Promise<void>}
+   */
+  private async isolateSelection() {
+    const webViewer = this._webViewer;
+    const nodeIds = webViewer?.selectionManager.getResults().map((item) => item.getNodeId());
+    if (!webViewer || !nodeIds?.length) {
+      return;
+    }
+
+    const camera = webViewer.view.getCamera();
+    const restoreVisibility = await captureVisibility(webViewer.model);
+    // isolateNodes filters the ids in place, give it a copy so that it can be redone
+    const isolate = () => webViewer.view.isolateNodes([...nodeIds]);
+    await isolate();
+    tryGetService<UndoService>('UndoService')?.record({
+      label: 'Isolate',
+      undo: async () => {
+        await restoreVisibility();
+        webViewer.view.setCamera(camera);
+      },
+      redo: isolate,
+    });
+  }
+
+  /**
+   * Shows all the nodes, recorded in the UndoService as the context menu does: undoing it
+   * restores the visibility of the nodes.
+   *
+   * @internal
+   * @returns {Promise<void>}
+   */
+  private async showAll() {
+    const model = this._webViewer?.model;
+    if (!model) {
+      return;
+    }
+
+    const restoreVisibility = await captureVisibility(model);
+    const showAll = () => model.resetNodesVisibility();
+    await showAll();
+    tryGetService<UndoService>('UndoService')?.record({
+      label: 'Show all',
+      undo: restoreVisibility,
+      redo: showAll,
+    });
+  }
+
+  /**
+   * Synchronizes the context state with the draw mode of a restored session.
+   *
+   * @internal
+   * @returns {void}
+   */
+  private readonly handleStateApplied = () => {
+    this.refreshDrawMode();
+  };
+
   /**
    * Updates the web viewer state with the specified draw mode.
    * Dispatches state change to all consuming components via context.
@@ -191,6 +375,7 @@ export default class WebViewerContextManager extends LitElement {
     getService<CameraService>('CameraService').reset();
     getService<WalkOperatorService>('WalkOperatorService').reset();
     getService<ExplodeService>('ExplodeService').reset();
+    getService<UndoService>('UndoService').clear();
   }
 
   /**
@@ -223,6 +408,18 @@ export default class WebViewerContextManager extends LitElement {
     };
   }
 
+  /**
+   * Refreshes the draw mode state from the web viewer and updates the context.
+   * Synchronizes the context state with the current draw mode.
+   *
+   * @returns {void}
+   */
+  refreshDrawMode() {
+    if (this._webViewer) {
+      this.dispatchDrawMode(this._webViewer.view.getDrawModeName());
+    }
+  }
+
   /**
    * Refreshes the camera operator state from the web viewer and updates the context.
    * Synchronizes the context state with the current camera operator.
@@ -0,0 +1,12 @@
+export type BcfTopicClickEvent = CustomEvent<{
+  topicGuid: string;
+  viewpointGuid?: string;
+}>;
+
+declare global {
+  interface CustomEventMap {
+    'hoops-bcf-topic-click': BcfTopicClickEvent;
+  }
+}
+
+export {};
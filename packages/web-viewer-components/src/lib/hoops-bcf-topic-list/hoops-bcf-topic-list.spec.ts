@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { html, render } from 'lit';
+
+import { BcfTopic } from '../services';
+import { renderTemplate } from '../testing/utils';
+import './hoops-bcf-topic-list';
+import { HoopsBcfTopicListElement } from './hoops-bcf-topic-list';
+
+const topics: BcfTopic[] = [
+  {
+    guid: 'topic-1',
+    title: 'Duct clash',
+    type: 'Clash',
+    status: 'Open',
+    assignedTo: 'john@example.com',
+    creationDate: '2026-01-05T10:00:00.000Z',
+    creationAuthor: 'jane@example.com',
+    comments: [
+      {
+        guid: 'comment-1',
+        date: '2026-01-05T11:00:00.000Z',
+        author: 'john@example.com',
+        comment: 'Moved the duct',
+        viewpointGuid: 'viewpoint-2',
+      },
+    ],
+    viewpoints: [
+      { guid: 'viewpoint-1', selection: [] },
+      { guid: 'viewpoint-2', selection: [] },
+    ],
+  },
+  {
+    guid: 'topic-2',
+    title: 'Missing beam',
+    type: 'Issue',
+    status: 'Closed',
+    creationDate: '2026-01-06T10:00:00.000Z',
+    creationAuthor: 'jane@example.com',
+    comments: [],
+    viewpoints: [],
+  },
+];
+
+function createBcfService(initialTopics: BcfTopic[]) {
+  const service = new EventTarget() as any;
+  service.serviceName = 'BcfService';
+  service.getTopics = vi.fn(() => initialTopics);
+  service.activateViewpoint = vi.fn(async () => undefined);
+  return service;
+}
+
+describe('hoops-bcf-topic-list', () => {
+  const getList = async (service: any) => {
+    await renderTemplate(
+      html`<hoops-bcf-topic-list .bcfService=${service}></hoops-bcf-topic-list>`,
+    );
+    const list: HoopsBcfTopicListElement = document.querySelector('hoops-bcf-topic-list')!;
+    await list.updateComplete;
+    return list;
+  };
+
+  const getText = (list: HoopsBcfTopicListElement, selector: string) =>
+    Array.from(list.shadowRoot!.querySelectorAll(selector)).map((element) =>
+      element.textContent!.replace(/\s+/g, ' ').trim(),
+    );
+
+  afterEach(() => {
+    render(html``, document.body);
+  });
+
+  it('should render the title, status, assignee and comment count of the topics', async () => {
+    const list = await getList(createBcfService(topics));
+
+    expect(getText(list, '.topic-title')).toEqual(['Duct clash', 'Missing beam']);
+    expect(getText(list, '.topic-status')).toEqual(['Open', 'Closed']);
+    expect(getText(list, '.topic-assignee')).toEqual(['john@example.com', 'Unassigned']);
+    expect(getText(list, '.topic-comment-count')).toEqual(['1 comment', '0 comments']);
+    expect(list.shadowRoot!.querySelector('.comments')).toBeNull();
+  });
+
+  it('should show the comments and activate the viewpoints of the clicked topic', async () => {
+    const service = createBcfService(topics);
+    const list = await getList(service);
+    const clicked = vi.fn();
+    list.addEventListener('hoops-bcf-topic-click', clicked);
+
+    list
+      .shadowRoot!.querySelector<HTMLElement>('[data-topic-guid="topic-1"] .topic-header')!
+      .click();
+    await list.updateComplete;
+
+    expect(service.activateViewpoint).toHaveBeenCalledWith('topic-1', undefined);
+    expect(clicked.mock.calls[0][0].detail).toEqual({ topicGuid: 'topic-1' });
+    expect(getText(list, '.comment-text')).toEqual(['Moved the duct']);
+
+    list.shadowRoot!.querySelector<HTMLElement>('.comment')!.click();
+    expect(service.activateViewpoint).toHaveBeenLastCalledWith('topic-1', 'viewpoint-2');
+
+    list
+      .shadowRoot!.querySelector<HTMLElement>('[data-topic-guid="topic-2"] .topic-header')!
+      .click();
+    await list.updateComplete;
+    expect(service.activateViewpoint).toHaveBeenCalledTimes(2);
+    expect(list.selectedTopicGuid).toBe('topic-2');
+  });
+
+  it('should update when the topics change', async () => {
+    const service = createBcfService([]);
+    const list = await getList(service);
+
+    expect(getText(list, '.placeholder')).toEqual(['No BCF topics']);
+
+    service.getTopics.mockReturnValue(topics);
+    service.dispatchEvent(new CustomEvent('hoops-bcf-topics-changed'));
+    await list.updateComplete;
+
+    expect(getText(list, '.topic-title')).toEqual(['Duct clash', 'Missing beam']);
+  });
+});
@@ -0,0 +1,232 @@
+import { LitElement, css, html, nothing } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+
+import { BcfComment, BcfTopic, IBcfService, tryGetService } from '../services';
+
+export type * from './custom-events.d.ts';
+
+/**
+ * Displays the BCF topics of the BCF service with their title, status, assignee and comments.
+ *
+ * Clicking a topic selects it, shows its comments and activates its first viewpoint. Clicking a
+ * comment referencing a viewpoint activates that viewpoint.
+ *
+ * @element hoops-bcf-topic-list
+ *
+ * @fires hoops-bcf-topic-click - Emitted when a topic or a comment is clicked
+ *
+ * @cssprop --hoops-separator-color - Color for borders and separators
+ * @cssprop --hoops-foreground - Text color
+ * @cssprop --hoops-neutral-background-20 - Background color for hover states
+ * @cssprop --hoops-accent-foreground - Color of the selected topic marker
+ *
+ * @service {IBcfService} BcfService - Service used to list the topics and activate the viewpoints
+ *
+ * @example
+ * ```html
+ * <hoops-bcf-topic-list></hoops-bcf-topic-list>
+ * ```
+ *
+ * @since 2026.4.0
+ */
+@customElement('hoops-bcf-topic-list')
+export class HoopsBcfTopicListElement extends LitElement {
+  /** @internal */
+  static styles = [
+    css`
+      :host {
+        display: block;
+        overflow-y: auto;
+        color: var(--hoops-foreground, #303030);
+        font-size: 0.875rem;
+      }
+      ul {
+        list-style: none;
+        padding: 0;
+        margin: 0;
+      }
+      .topic {
+        border-bottom: 1px solid var(--hoops-separator-color, #f0f0f0);
+        border-left: 2px solid transparent;
+      }
+      .topic.selected {
+        border-left-color: var(--hoops-accent-foreground, #0078d4);
+      }
+      .topic-header {
+        display: grid;
+        grid-template-columns: 1fr auto;
+        gap: 0.2rem 0.5rem;
+        padding: 0.4rem;
+        cursor: pointer;
+        user-select: none;
+      }
+      .topic-header:hover,
+      .comment.has-viewpoint:hover {
+        background-color: color-mix(
+          in srgb,
+          var(--hoops-neutral-background-20, #fafafa),
+          var(--hoops-foreground, #303030) 5%
+        );
+      }
+      .topic-title {
+        font-weight: 500;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      .topic-status {
+        font-size: 0.75rem;
+        padding: 0 0.4rem;
+        border-radius: 0.5rem;
+        border: 1px solid var(--hoops-separator-color, #f0f0f0);
+      }
+      .topic-assignee,
+      .topic-comment-count,
+      .comment-header {
+        opacity: 0.7;
+        font-size: 0.75rem;
+      }
+      .comments {
+        padding: 0 0.4rem 0.4rem 1rem;
+      }
+      .comment {
+        padding: 0.2rem 0;
+      }
+      .comment.has-viewpoint {
+        cursor: pointer;
+      }
+      .placeholder {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        padding: 1rem;
+        opacity: 0.5;
+        font-weight: 500;
+      }
+    `,
+  ];
+
+  private _bcfService?: IBcfService;
+
+  /**
+   * The guid of the selected topic, whose comments are displayed.
+   */
+  @state()
+  selectedTopicGuid?: string;
+
+  /**
+   * The service the topics are listed from, the registered BcfService by default.
+   *
+   * @returns {IBcfService | undefined} The BCF service
+   */
+  get bcfService(): IBcfService | undefined {
+    return this._bcfService;
+  }
+
+  set bcfService(service: IBcfService | undefined) {
+    this._bcfService?.removeEventListener('hoops-bcf-topics-changed', this.onTopicsChanged);
+    this._bcfService = service;
+    if (this.isConnected) {
+      this._bcfService?.addEventListener('hoops-bcf-topics-changed', this.onTopicsChanged);
+    }
+    this.requestUpdate();
+  }
+
+  private onTopicsChanged = () => this.requestUpdate();
+
+  /**
+   * @internal
+   */
+  connectedCallback(): void {
+    super.connectedCallback();
+    if (this._bcfService) {
+      this._bcfService.addEventListener('hoops-bcf-topics-changed', this.onTopicsChanged);
+    } else {
+      this.bcfService = tryGetService<IBcfService>('BcfService');
+    }
+  }
+
+  /**
+   * @internal
+   */
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._bcfService?.removeEventListener('hoops-bcf-topics-changed', this.onTopicsChanged);
+  }
+
+  /**
+   * Selects a topic and activates one of its viewpoints.
+   *
+   * @internal
+   * @param topic - The clicked topic
+   * @param viewpointGuid - The viewpoint to activate, the first one of the topic by default
+   */
+  private selectTopic(topic: BcfTopic, viewpointGuid?: string): void {
+    this.selectedTopicGuid = topic.guid;
+    this.dispatchEvent(
+      new CustomEvent('hoops-bcf-topic-click', {
+        bubbles: true,
+        composed: true,
+        detail: { topicGuid: topic.guid, viewpointGuid },
+      }),
+    );
+
+    if (topic.viewpoints.length > 0) {
+      this._bcfService
+        ?.activateViewpoint(topic.guid, viewpointGuid)
+        .catch((error) =>
+          console.error(`Failed to activate the viewpoint of ${topic.title}:`, error),
+        );
+    }
+  }
+
+  /** @internal */
+  private renderComment(topic: BcfTopic, comment: BcfComment): unknown {
+    const viewpointGuid = comment.viewpointGuid;
+    return html`<li
+      class="comment ${viewpointGuid ? 'has-viewpoint' : ''}"
+      @click=${viewpointGuid ? () => this.selectTopic(topic, viewpointGuid) : nothing}
+    >
+      <div class="comment-header">
+        ${comment.author} · ${new Date(comment.date).toLocaleString()}
+      </div>
+      <div class="comment-text">${comment.comment}</div>
+    </li>`;
+  }
+
+  /** @internal */
+  private renderTopic(topic: BcfTopic): unknown {
+    const selected = topic.guid === this.selectedTopicGuid;
+    const commentCount = topic.comments.length;
+
+    return html`<li class="topic ${selected ? 'selected' : ''}" data-topic-guid=${topic.guid}>
+      <div class="topic-header" @click=${() => this.selectTopic(topic)}>
+        <span class="topic-title" title=${topic.title}>${topic.title}</span>
+        <span class="topic-status">${topic.status}</span>
+        <span class="topic-assignee">${topic.assignedTo || 'Unassigned'}</span>
+        <span class="topic-comment-count">
+          ${commentCount} ${commentCount === 1 ? 'comment' : 'comments'}
+        </span>
+      </div>
+      ${selected && commentCount > 0
+        ? html`<ul class="comments">
+            ${topic.comments.map((comment) => this.renderComment(topic, comment))}
+          </ul>`
+        : nothing}
+    </li>`;
+  }
+
+  /** @internal */
+  protected override render(): unknown {
+    const topics = this._bcfService?.getTopics() ?? [];
+    if (topics.length === 0) {
+      return html`<div class="placeholder">No BCF topics</div>`;
+    }
+
+    return html`<ul class="topics">
+      ${topics.map((topic) => this.renderTopic(topic))}
+    </ul>`;
+  }
+}
+
+export default HoopsBcfTopicListElement;
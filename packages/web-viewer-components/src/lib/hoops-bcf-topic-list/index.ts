@@ -0,0 +1,3 @@
+export * from './hoops-bcf-topic-list';
+
+import './hoops-bcf-topic-list';
@@ -0,0 +1,141 @@
+import { ContextMenuItem } from './types';
+
+/**
+ * Keeps the items displayed by a context menu.
+ *
+ * The items are displayed sorted by group then by order, the groups themselves being sorted by the
+ * lowest order of their items. Items registered with an id that is already in use replace the
+ * previous item, which allows overriding the built-in items.
+ *
+ * @fires hoops-context-menu-items-changed - When an item is registered, updated or unregistered
+ *
+ * @example
+ * ```typescript
+ * const menu = document.querySelector('hoops-context-menu');
+ *
+ * menu.items.unregister('reset');
+ * menu.items.update('show-all', { order: 0 });
+ * menu.items.register({
+ *   id: 'copy-node-id',
+ *   label: 'Copy Node Id',
+ *   group: 'clipboard',
+ *   order: 900,
+ *   isEnabled: (context) => context.nodeIds.length > 0,
+ *   execute: (context) => navigator.clipboard.writeText(context.nodeIds.join(', ')),
+ * });
+ * ```
+ */
+export class ContextMenuItemRegistry extends EventTarget {
+  private readonly items = new Map<string, ContextMenuItem>();
+
+  /**
+   * Creates a registry holding the given items.
+   *
+   * @param items - The items to register
+   */
+  constructor(items: ContextMenuItem[] = []) {
+    super();
+    for (const item of items) {
+      this.items.set(item.id, item);
+    }
+  }
+
+  /**
+   * Registers an item, replacing the item with the same id if any.
+   *
+   * @param item - The item to register
+   * @returns {void}
+   */
+  register(item: ContextMenuItem): void {
+    this.items.set(item.id, item);
+    this.dispatchItemsChanged();
+  }
+
+  /**
+   * Unregisters an item.
+   *
+   * @param id - The id of the item to unregister
+   * @returns {boolean} True if the item was registered
+   */
+  unregister(id: string): boolean {
+    const removed = this.items.delete(id);
+    if (removed) {
+      this.dispatchItemsChanged();
+    }
+    return removed;
+  }
+
+  /**
+   * Updates some properties of an item, e.g. its order or group to move it.
+   *
+   * @param id - The id of the item to update
+   * @param changes - The properties to change
+   * @returns {void}
+   * @throws {Error} If no item is registered with the given id
+   */
+  update(id: string, changes: Partial<Omit<ContextMenuItem, 'id'>>): void {
+    const item = this.items.get(id);
+    if (!item) {
+      throw new Error(`Context menu item ${id} is not registered.`);
+    }
+
+    this.items.set(id, { ...item, ...changes });
+    this.dispatchItemsChanged();
+  }
+
+  /**
+   * Gets an item by its id.
+   *
+   * @param id - The id of the item
+   * @returns {ContextMenuItem | undefined} The item or undefined if it is not registered
+   */
+  get(id: string): ContextMenuItem | undefined {
+    return this.items.get(id);
+  }
+
+  /**
+   * Checks whether an item is registered.
+   *
+   * @param id - The id of the item
+   * @returns {boolean} True if the item is registered
+   */
+  has(id: string): boolean {
+    return this.items.has(id);
+  }
+
+  /**
+   * Lists the registered items in display order.
+   *
+   * @returns {ContextMenuItem[]} The items sorted by group then by order
+   */
+  getItems(): ContextMenuItem[] {
+    const groupOrders = new Map<string | undefined, number>();
+    for (const item of this.items.values()) {
+      const order = item.order ?? 0;
+      groupOrders.set(item.group, Math.min(groupOrders.get(item.group) ?? order, order));
+    }
+
+    return [...this.items.values()].sort(
+      (a, b) =>
+        groupOrders.get(a.group)! - groupOrders.get(b.group)! ||
+        (a.group ?? '').localeCompare(b.group ?? '') ||
+        (a.order ?? 0) - (b.order ?? 0),
+    );
+  }
+
+  /**
+   * Unregisters all the items, including the built-in ones.
+   *
+   * @returns {void}
+   */
+  clear(): void {
+    this.items.clear();
+    this.dispatchItemsChanged();
+  }
+
+  private dispatchItemsChanged(): void {
+    this.dispatchEvent(
+      new CustomEvent('hoops-context-menu-items-changed', { bubbles: true, composed: true }),
+    );
+  }
+}
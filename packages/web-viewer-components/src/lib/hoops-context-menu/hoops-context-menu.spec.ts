@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { html, render } from 'lit';
+
+import { registerService, unregisterService } from '../services';
+import { renderTemplate } from '../testing/utils';
+import { ContextMenuItemRegistry } from './ContextMenuItemRegistry';
+import './hoops-context-menu';
+import { HoopsContextMenuElement } from './hoops-context-menu';
+
+function mockExplodeService() {
+  return {
+    serviceName: 'ExplodeService',
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+    getActive: vi.fn(() => false),
+  } as any;
+}
+
+describe('ContextMenuItemRegistry', () => {
+  it('should list the items by group then by order', () => {
+    const registry = new ContextMenuItemRegistry([
+      { id: 'c', label: 'C', group: 'second', order: 20 },
+      { id: 'a', label: 'A', group: 'first', order: 30 },
+      { id: 'b', label: 'B', group: 'second', order: 10 },
+      { id: 'd', label: 'D', group: 'first', order: 40 },
+    ]);
+
+    expect(registry.getItems().map((item) => item.id)).toEqual(['b', 'c', 'a', 'd']);
+
+    registry.update('d', { group: 'second', order: 0 });
+    expect(registry.getItems().map((item) => item.id)).toEqual(['d', 'b', 'c', 'a']);
+  });
+
+  it('should register, replace and unregister the items', () => {
+    const registry = new ContextMenuItemRegistry([{ id: 'a', label: 'A' }]);
+    const listener = vi.fn();
+    registry.addEventListener('hoops-context-menu-items-changed', listener);
+
+    registry.register({ id: 'a', label: 'Replaced' });
+    expect(registry.get('a')?.label).toBe('Replaced');
+
+    expect(registry.unregister('a')).toBe(true);
+    expect(registry.unregister('a')).toBe(false);
+    expect(registry.has('a')).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(() => registry.update('a', { order: 1 })).toThrow(
+      'Context menu item a is not registered.',
+    );
+  });
+});
+
+describe('hoops-context-menu', () => {
+  const getMenu = async () => {
+    await renderTemplate(html`<hoops-context-menu></hoops-context-menu>`);
+    const menu: HoopsContextMenuElement = document.querySelector('hoops-context-menu')!;
+    await menu.updateComplete;
+    return menu;
+  };
+
+  const getLabels = (menu: HoopsContextMenuElement) =>
+    Array.from(
+      menu.shadowRoot!.querySelectorAll<HTMLElement>('.context-menu > .context-menu-row'),
+    ).map((row) => row.querySelector('.context-menu-item')!.textContent!.trim());
+
+  beforeEach(() => {
+    registerService(mockExplodeService());
+  });
+
+  afterEach(() => {
+    render(html``, document.body);
+    unregisterService('ExplodeService');
+  });
+
+  it('should render the built-in items', async () => {
+    const menu = await getMenu();
+
+    expect(getLabels(menu)).toEqual([
+      'Isolate',
+      'Zoom',
+      'Show',
+      'Transparent',
+      'Set Color',
+      'Show Handles',
+      'Reset Model',
+      'Show All',
+    ]);
+    expect(menu.shadowRoot!.querySelectorAll('hr')).toHaveLength(4);
+    expect(menu.shadowRoot!.querySelector('input[type="color"]')).not.toBeNull();
+  });
+
+  it('should render the items registered by the host', async () => {
+    const menu = await getMenu();
+
+    menu.items.unregister('reset');
+    menu.items.update('show-all', { group: 'view', order: 0 });
+    menu.items.register({
+      id: 'copy-node-id',
+      label: (context) => `Copy ${context.activeItemId}`,
+      order: 900,
+      isVisible: (context) => context.activeItemId !== null,
+    });
+    menu.activeItemId = 42;
+    await menu.updateComplete;
+
+    expect(getLabels(menu)).toEqual([
+      'Show All',
+      'Isolate',
+      'Zoom',
+      'Show',
+      'Transparent',
+      'Set Color',
+      'Show Handles',
+      'Copy 42',
+    ]);
+  });
+
+  it('should execute the enabled items with the context and notify the click', async () => {
+    const menu = await getMenu();
+    const execute = vi.fn();
+    const clicked = vi.fn();
+    menu.addEventListener('context-menu-item-clicked', clicked);
+    menu.items = new ContextMenuItemRegistry([
+      { id: 'disabled', label: 'Disabled', isEnabled: () => false, execute },
+      {
+        id: 'parent',
+        label: 'Parent',
+        children: [{ id: 'child', label: 'Child', execute }],
+      },
+    ]);
+    menu.activeItemId = 7;
+    await menu.updateComplete;
+
+    const item = (id: string) =>
+      menu.shadowRoot!.querySelector<HTMLElement>(`[data-item-id="${id}"]`)!;
+    expect(item('disabled').classList.contains('disabled')).toBe(true);
+    item('disabled').click();
+    item('parent').click();
+    expect(execute).not.toHaveBeenCalled();
+
+    item('child').click();
+    await vi.waitFor(() => expect(execute).toHaveBeenCalledOnce());
+    expect(execute.mock.calls[0][0]).toMatchObject({ activeItemId: 7, nodeIds: [7] });
+    expect(clicked).toHaveBeenCalledOnce();
+  });
+});
@@ -1,6 +1,13 @@
-import { LitElement, html, css } from 'lit';
+import { LitElement, html, css, nothing } from 'lit';
 import { property, customElement } from 'lit/decorators.js';
-import { IContextMenuModel, IContextMenuWebViewer } from './types';
+import '@ts3d-hoops/ui-kit/icons';
+import {
+  ContextMenuContext,
+  ContextMenuItem,
+  IContextMenuModel,
+  IContextMenuWebViewer,
+} from './types';
+import { ContextMenuItemRegistry } from './ContextMenuItemRegistry';
 import {
   Color,
   ElementType,
@@ -12,7 +19,8 @@ import {
 } from '@ts3d-hoops/web-viewer';
 import { IsolateZoomHelper } from './IsolateZoomHelper';
 import { Selection } from '@ts3d-hoops/web-viewer';
-import { getService, IExplodeService } from '../services';
+import { getService, IExplodeService, IUndoService, tryGetService, UndoCommand } from '../services';
+import { captureFaceColors, captureOpacity, captureVisibility } from './node-state';
 
 /**
  * Provides a context menu component for 3D model interactions and operations.
@@ -20,10 +28,18 @@ import { getService, IExplodeService } from '../services';
  * This component displays a contextual menu with actions like isolate, zoom, visibility toggles,
  * transparency controls, color setting, and model operations. It integrates with the web viewer
  * and model to provide interactive functionality for selected nodes, layers, or types.
+ * The isolate, visibility, transparency and color operations are recorded in the UndoService
+ * when it is registered.
  *
  * The menu dynamically positions itself to stay within viewport bounds and updates its state
  * based on current selections and model properties.
  *
+ * The items are kept in the `items` registry, which hosts can use to remove or move the built-in
+ * items and to add their own, e.g. to copy the id of the clicked node. The built-in items are
+ * `isolate`, `zoom` and `visibility` in the `view` group, `transparent` in the `transparency`
+ * group, `color` in the `color` group, `handles` and `reset` in the `model` group and `show-all`
+ * in the `show-all` group, ordered from 100 to 800 by steps of 100.
+ *
  * @element hoops-context-menu
  *
  * @fires context-menu-item-clicked - Emitted when any context menu item is clicked
@@ -45,9 +61,20 @@ import { getService, IExplodeService } from '../services';
  * <hoops-context-menu x="100" y="150" activeitemid="node123"></hoops-context-menu>
  *
  * <script>
- *   document.getElementsByTagName('hoops-context-menu')[0].addEventListener('context-menu-item-clicked', (event) => {
+ *   const menu = document.getElementsByTagName('hoops-context-menu')[0];
+ *   menu.addEventListener('context-menu-item-clicked', (event) => {
  *     console.log('Menu item clicked:', event.detail);
  *   });
+ *
+ *   menu.items.unregister('reset');
+ *   menu.items.register({
+ *     id: 'copy-node-id',
+ *     label: 'Copy Node Id',
+ *     group: 'clipboard',
+ *     order: 900,
+ *     isEnabled: (context) => context.activeItemId !== null,
+ *     execute: (context) => navigator.clipboard.writeText(`${context.activeItemId}`),
+ *   });
  * </script>
  * ```
  *
@@ -74,6 +101,8 @@ class HoopsContextMenuElement extends LitElement {
 
   private explodeService!: IExplodeService;
 
+  private _items = new ContextMenuItemRegistry(this.createBuiltInItems());
+
   /** @internal */
   static styles = css`
     :host {
@@ -84,12 +113,34 @@ class HoopsContextMenuElement extends LitElement {
       padding: 0.3rem;
     }
 
+    .context-menu-row {
+      position: relative;
+      display: flex;
+      align-items: center;
+      width: 100%;
+    }
+
     .context-menu-item {
-      display: block;
+      display: flex;
+      flex: 1;
+      align-items: center;
+      gap: 0.3rem;
+      padding-right: 0.3rem;
       white-space: nowrap;
       user-select: none;
     }
 
+    .context-menu-item hoops-icon {
+      width: 1rem;
+      height: 1rem;
+    }
+
+    .context-menu-item.has-children::after {
+      content: '\25B8';
+      margin-left: auto;
+      padding-left: 0.6rem;
+    }
+
     .context-menu-item:not(.disabled) {
       cursor: pointer;
     }
@@ -106,17 +157,18 @@ class HoopsContextMenuElement extends LitElement {
       cursor: default;
     }
 
-    .color-picker-container {
-      display: flex;
-      align-items: center;
-      width: 100%;
+    .context-menu-submenu {
+      display: none;
+      position: absolute;
+      top: -0.3rem;
+      left: 100%;
+      background-color: var(--hoops-neutral-background-20, #fafafa);
+      box-shadow: 0 3px 10px rgba(0, 0, 0, 0.3);
+      padding: 0.3rem;
     }
 
-    .color-picker-container > .context-menu-item {
-      display: inline-flex;
-      justify-content: space-between;
-      vertical-align: middle;
-      padding-right: 0.3rem;
+    .context-menu-row:hover > .context-menu-submenu {
+      display: block;
     }
 
     input[type='color'] {
@@ -141,40 +193,213 @@ class HoopsContextMenuElement extends LitElement {
 
   /** @internal */
   protected override render(): unknown {
-    const contextualItemClass = this.isMenuItemExecutable()
-      ? 'context-menu-item'
-      : 'context-menu-item disabled';
-    const handleClasses = this.isHandleExecutable()
-      ? 'context-menu-item'
-      : 'context-menu-item disabled';
-    const visibilityContent = this.isMenuItemVisible() ? 'Hide' : 'Show';
-    const colorItemContent = this.isUnsettingColor ? 'Unset Color' : 'Set Color';
+    const context = this.createContext();
     return html`
       <div class="context-menu">
-        <div class="${contextualItemClass}" @click=${this.isolateFunc}>Isolate</div>
-        <div class="${contextualItemClass}" @click=${this.zoomFunc}>Zoom</div>
-        <div class="${contextualItemClass}" @click=${this.visibilityFunc}>${visibilityContent}</div>
-        <hr />
-        <div class="${contextualItemClass}" @click=${this.transparentFunc}>Transparent</div>
-        <hr />
-        <div class="color-picker-container">
-          <div class="${contextualItemClass}" @click=${this.setColorFunc}>${colorItemContent}</div>
-          <input
+        ${this.renderItems(this._items.getItems(), context)}
+        <slot></slot>
+      </div>
+    `;
+  }
+
+  /**
+   * Renders the visible items, separating the groups.
+   *
+   * @internal
+   * @param items - The items to render, in display order
+   * @param context - The context the menu is displayed in
+   * @returns {unknown[]} The rendered items
+   */
+  private renderItems(items: ContextMenuItem[], context: ContextMenuContext): unknown[] {
+    const visibleItems = items.filter((item) => item.isVisible?.(context) ?? true);
+    return visibleItems.map(
+      (item, index) =>
+        html`${index > 0 && item.group !== visibleItems[index - 1].group ? html`<hr />` : nothing}
+        ${this.renderItem(item, context)}`,
+    );
+  }
+
+  /**
+   * Renders an item with its icon, suffix and submenu.
+   *
+   * @internal
+   * @param item - The item to render
+   * @param context - The context the menu is displayed in
+   * @returns {unknown} The rendered item
+   */
+  private renderItem(item: ContextMenuItem, context: ContextMenuContext): unknown {
+    const enabled = item.isEnabled?.(context) ?? true;
+    const hasChildren = enabled && !!item.children?.length;
+    const classes = [
+      'context-menu-item',
+      enabled ? '' : 'disabled',
+      hasChildren ? 'has-children' : '',
+    ].join(' ');
+    const label = typeof item.label === 'function' ? item.label(context) : item.label;
+    const icon =
+      typeof item.icon === 'string' ? html`<hoops-icon icon=${item.icon}></hoops-icon>` : item.icon;
+
+    return html`
+      <div class="context-menu-row">
+        <div class="${classes}" data-item-id=${item.id} @click=${() => this.executeItem(item)}>
+          ${icon ?? nothing}<span>${label}</span>
+        </div>
+        ${item.suffix?.(context) ?? nothing}
+        ${hasChildren
+          ? html`<div class="context-menu-submenu">
+              ${this.renderItems(item.children!, context)}
+            </div>`
+          : nothing}
+      </div>
+    `;
+  }
+
+  /**
+   * Executes an item if it is enabled and notifies the parent components.
+   *
+   * @internal
+   * @param item - The item to execute
+   * @returns {Promise<void>}
+   */
+  private async executeItem(item: ContextMenuItem) {
+    const context = this.createContext();
+    if (!item.execute || !(item.isEnabled?.(context) ?? true)) {
+      return;
+    }
+
+    this.notifyItemClicked();
+    try {
+      await item.execute(context);
+    } catch (error) {
+      console.error(`Failed to execute the context menu item ${item.id}:`, error);
+    }
+  }
+
+  /**
+   * Creates the context the items are displayed and executed in.
+   *
+   * @returns {ContextMenuContext} The current context of the menu
+   */
+  createContext(): ContextMenuContext {
+    return {
+      nodeIds: this.getContextItemIds(true, true),
+      activeItemId: this.activeItemId,
+      activeLayerName: this.activeLayerName,
+      activeType: this.activeType,
+      position: this.position,
+      webViewer: this.webViewer,
+      model: this.model,
+    };
+  }
+
+  /**
+   * Creates the built-in items of the menu.
+   *
+   * @internal
+   * @returns {ContextMenuItem[]} The built-in items
+   */
+  private createBuiltInItems(): ContextMenuItem[] {
+    const isExecutable = () => this.isMenuItemExecutable();
+    return [
+      {
+        id: 'isolate',
+        label: 'Isolate',
+        group: 'view',
+        order: 100,
+        isEnabled: isExecutable,
+        execute: () => this.isolateFunc(),
+      },
+      {
+        id: 'zoom',
+        label: 'Zoom',
+        group: 'view',
+        order: 200,
+        isEnabled: isExecutable,
+        execute: () => this.zoomFunc(),
+      },
+      {
+        id: 'visibility',
+        label: () => (this.isMenuItemVisible() ? 'Hide' : 'Show'),
+        group: 'view',
+        order: 300,
+        isEnabled: isExecutable,
+        execute: () => this.visibilityFunc(),
+      },
+      {
+        id: 'transparent',
+        label: 'Transparent',
+        group: 'transparency',
+        order: 400,
+        isEnabled: isExecutable,
+        execute: () => this.transparentFunc(),
+      },
+      {
+        id: 'color',
+        label: () => (this.isUnsettingColor ? 'Unset Color' : 'Set Color'),
+        group: 'color',
+        order: 500,
+        isEnabled: isExecutable,
+        execute: () => this.setColorFunc(),
+        suffix: () =>
+          html`<input
             type="color"
             id="favcolor"
             name="favcolor"
             value="${this.color}"
             @input="${this.handleColorChange}"
-          />
-        </div>
-        <hr />
-        <div class="${handleClasses}" @click=${this.handlesFunc}>Show Handles</div>
-        <div class="context-menu-item" @click=${this.resetFunc}>Reset Model</div>
-        <hr />
-        <div class="context-menu-item" @click=${this.showAllFunc}>Show All</div>
-        <slot></slot>
-      </div>
-    `;
+          />`,
+      },
+      {
+        id: 'handles',
+        label: 'Show Handles',
+        group: 'model',
+        order: 600,
+        isEnabled: () => this.isHandleExecutable(),
+        execute: () => this.handlesFunc(),
+      },
+      {
+        id: 'reset',
+        label: 'Reset Model',
+        group: 'model',
+        order: 700,
+        execute: () => this.resetFunc(),
+      },
+      {
+        id: 'show-all',
+        label: 'Show All',
+        group: 'show-all',
+        order: 800,
+        execute: () => this.showAllFunc(),
+      },
+    ];
+  }
+
+  /**
+   * Gets or sets the registry of the items displayed by the menu.
+   *
+   * The registry initially holds the built-in items. Setting a registry allows sharing the same
+   * items between several menus.
+   *
+   * @returns {ContextMenuItemRegistry} The registry of the items
+   */
+  get items(): ContextMenuItemRegistry {
+    return this._items;
+  }
+
+  /**
+   * Sets the registry of the items displayed by the menu.
+   *
+   * @param items - The registry of the items to display
+   * @returns {void}
+   */
+  set items(items: ContextMenuItemRegistry) {
+    const oldValue = this._items;
+    if (this.isConnected) {
+      oldValue.removeEventListener('hoops-context-menu-items-changed', this.handleServiceUpdate);
+      items.addEventListener('hoops-context-menu-items-changed', this.handleServiceUpdate);
+    }
+    this._items = items;
+    this.requestUpdate('items', oldValue);
   }
 
   /**
@@ -359,13 +584,14 @@ class HoopsContextMenuElement extends LitElement {
   /**
    * Lifecycle callback when component is added to the DOM.
    *
-   * Sets up event listeners for context menu prevention and explode service events.
+   * Sets up event listeners for context menu prevention, item registry and explode service events.
    *
    * @returns {void}
    */
   connectedCallback() {
     super.connectedCallback();
     this.addEventListener('contextmenu', this._handleContextMenu);
+    this._items.addEventListener('hoops-context-menu-items-changed', this.handleServiceUpdate);
 
     this.explodeService = getService<IExplodeService>('ExplodeService');
     this.explodeService.addEventListener('hoops-explode-service-reset', this.handleServiceUpdate);
@@ -376,13 +602,14 @@ class HoopsContextMenuElement extends LitElement {
   /**
    * Lifecycle callback when component is removed from the DOM.
    *
-   * Cleans up event listeners for context menu prevention and explode service events.
+   * Cleans up event listeners for context menu prevention, item registry and explode service events.
    *
    * @returns {void}
    */
   disconnectedCallback() {
     super.disconnectedCallback();
     this.removeEventListener('contextmenu', this._handleContextMenu);
+    this._items.removeEventListener('hoops-context-menu-items-changed', this.handleServiceUpdate);
 
     if (this.explodeService) {
       this.explodeService.removeEventListener(
@@ -468,13 +695,28 @@ class HoopsContextMenuElement extends LitElement {
    * @returns {Promise<void>}
    */
   private async isolateFunc() {
-    if (this.isMenuItemExecutable()) {
-      this.notifyItemClicked();
+    if (this.model) {
       const nodeIds = this.getContextItemIds(true, true);
-      await this.isolateZoomHelper?.isolateNodes(
-        nodeIds,
-        this.isAllIfcSpace(nodeIds) ? false : null,
-      );
+      const initiallyHiddenStayHidden = this.isAllIfcSpace(nodeIds) ? false : null;
+      const isolateZoomHelper = this.isolateZoomHelper;
+      const view = this.webViewer?.view;
+      const camera = view?.getCamera();
+      const restoreVisibility = await captureVisibility(this.model);
+
+      // isolateNodes filters the ids in place, give it a copy so that it can be redone
+      const isolate = () =>
+        isolateZoomHelper?.isolateNodes([...nodeIds], initiallyHiddenStayHidden);
+      await isolate();
+      this.recordUndo({
+        label: 'Isolate',
+        undo: async () => {
+          await restoreVisibility();
+          if (camera) {
+            view?.setCamera(camera);
+          }
+        },
+        redo: isolate,
+      });
     }
   }
 
@@ -488,10 +730,7 @@ class HoopsContextMenuElement extends LitElement {
    * @returns {Promise<void>}
    */
   private async zoomFunc() {
-    if (this.isMenuItemExecutable()) {
-      this.notifyItemClicked();
-      await this.isolateZoomHelper?.fitNodes(this.getContextItemIds(true, true));
-    }
+    await this.isolateZoomHelper?.fitNodes(this.getContextItemIds(true, true));
   }
 
   /**
@@ -522,16 +761,22 @@ class HoopsContextMenuElement extends LitElement {
    * @returns {Promise<void>}
    */
   private async visibilityFunc() {
-    if (this.isMenuItemExecutable()) {
+    if (this.model) {
       const hidden = !this.isMenuItemVisible();
       const nodeIds = this.getContextItemIds(true, true);
-      this.notifyItemClicked();
-      await this.model?.setNodesVisibility(
-        nodeIds,
-        hidden,
-        this.isAllIfcSpace(nodeIds) ? false : null,
-      );
+      const initiallyHiddenStayHidden = this.isAllIfcSpace(nodeIds) ? false : null;
+      const model = this.model;
+      const restoreVisibility = await captureVisibility(model);
+
+      const setVisibility = () =>
+        model.setNodesVisibility(nodeIds, hidden, initiallyHiddenStayHidden);
+      await setVisibility();
       this.requestUpdate();
+      this.recordUndo({
+        label: hidden ? 'Show' : 'Hide',
+        undo: restoreVisibility,
+        redo: setVisibility,
+      });
     }
   }
 
@@ -545,19 +790,21 @@ class HoopsContextMenuElement extends LitElement {
    * @returns {Promise<void>}
    */
   private async transparentFunc() {
-    if (this.isMenuItemExecutable()) {
+    if (this.model) {
       const contextItemIds = this.getContextItemIds(true, true);
+      const model = this.model;
       const leaf = this.drillNodes(contextItemIds[0]);
       const opacityOfFirstItem = (
-        await this.model!.getNodesEffectiveOpacity([leaf], ElementType.Faces)
+        await model.getNodesEffectiveOpacity([leaf], ElementType.Faces)
       )[0];
-
-      if (opacityOfFirstItem === null || opacityOfFirstItem === 1) {
-        this.model?.setNodesOpacity(contextItemIds, 0.5);
-      } else {
-        this.model?.resetNodesOpacity(contextItemIds);
-      }
-      this.notifyItemClicked();
+      const restoreOpacity = await captureOpacity(model, contextItemIds);
+
+      const setOpacity =
+        opacityOfFirstItem === null || opacityOfFirstItem === 1
+          ? () => model.setNodesOpacity(contextItemIds, 0.5)
+          : () => model.resetNodesOpacity(contextItemIds);
+      setOpacity();
+      this.recordUndo({ label: 'Transparent', undo: restoreOpacity, redo: setOpacity });
     }
   }
 
@@ -572,13 +819,10 @@ class HoopsContextMenuElement extends LitElement {
    * @returns {Promise<void>}
    */
   private async handlesFunc() {
-    if (this.isHandleExecutable()) {
-      const handleOperator = this.webViewer?.view.operatorManager.getOperator(OperatorId.Handle);
-      const contextItemIds = this.getContextItemIds(true, true, false);
-      if (contextItemIds.length > 0) {
-        this.notifyItemClicked();
-        await handleOperator?.addHandles(contextItemIds, this.position);
-      }
+    const handleOperator = this.webViewer?.view.operatorManager.getOperator(OperatorId.Handle);
+    const contextItemIds = this.getContextItemIds(true, true, false);
+    if (contextItemIds.length > 0) {
+      await handleOperator?.addHandles(contextItemIds, this.position);
     }
   }
 
@@ -595,7 +839,6 @@ class HoopsContextMenuElement extends LitElement {
    * @returns {Promise<void>}
    */
   private async resetFunc() {
-    this.notifyItemClicked();
     const handleOperator = this.webViewer?.view.operatorManager.getOperator(OperatorId.Handle);
     await handleOperator?.removeHandles();
     await this.model?.reset();
@@ -628,7 +871,6 @@ class HoopsContextMenuElement extends LitElement {
    * @returns {Promise<void>}
    */
   private async showAllFunc() {
-    this.notifyItemClicked();
     await this.isolateZoomHelper?.showAll();
   }
 
@@ -643,17 +885,36 @@ class HoopsContextMenuElement extends LitElement {
    * @returns {Promise<void>}
    */
   private async setColorFunc() {
-    if (this.isMenuItemExecutable()) {
+    if (this.model) {
       const contextItemIds = this.getContextItemIds(true, true, false);
-      if (this.isUnsettingColor) {
-        this.model?.unsetNodesFaceColor(contextItemIds);
-      } else {
-        this.model?.setNodesFaceColor(contextItemIds, Color.fromHexString(this.color));
-      }
-      this.notifyItemClicked();
+      const model = this.model;
+      const color = Color.fromHexString(this.color);
+      const isUnsettingColor = this.isUnsettingColor;
+      const restoreFaceColors = await captureFaceColors(model, contextItemIds);
+
+      const setColor = isUnsettingColor
+        ? () => model.unsetNodesFaceColor(contextItemIds)
+        : () => model.setNodesFaceColor(contextItemIds, color);
+      setColor();
+      this.recordUndo({
+        label: isUnsettingColor ? 'Unset color' : 'Set color',
+        undo: restoreFaceColors,
+        redo: setColor,
+      });
     }
   }
 
+  /**
+   * Records an operation in the UndoService, if it is registered.
+   *
+   * @internal
+   * @param command - The operation to record
+   * @returns {void}
+   */
+  private recordUndo(command: UndoCommand) {
+    tryGetService<IUndoService>('UndoService')?.record(command);
+  }
+
   /**
    * Checks if the current color is already set on the provided context items.
    *
@@ -847,3 +1108,5 @@ class HoopsContextMenuElement extends LitElement {
 }
 
 export { HoopsContextMenuElement };
+export { ContextMenuItemRegistry } from './ContextMenuItemRegistry';
+export type { ContextMenuContext, ContextMenuItem } from './types';
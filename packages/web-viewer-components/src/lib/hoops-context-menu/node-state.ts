@@ -0,0 +1,92 @@
+import { ElementType, NodeId } from '@ts3d-hoops/web-viewer';
+import { IContextMenuModel } from './types';
+
+/**
+ * Lists the ids of the given nodes and of their descendants.
+ *
+ * @param model - The model the nodes belong to
+ * @param nodeIds - The ids of the nodes
+ * @returns {NodeId[]} The ids of the nodes and of their descendants
+ */
+function getNodeIdsWithDescendants(model: IContextMenuModel, nodeIds: NodeId[]): NodeId[] {
+  const result: NodeId[] = [];
+  const pending = [...nodeIds];
+
+  while (pending.length > 0) {
+    const nodeId = pending.pop()!;
+    result.push(nodeId);
+    pending.push(...model.getNodeChildren(nodeId));
+  }
+
+  return result;
+}
+
+/**
+ * Captures the visibility of all the nodes of the model.
+ *
+ * @param model - The model to capture the visibility of
+ * @returns {Promise<() => Promise<void>>} A function restoring the captured visibility
+ */
+export async function captureVisibility(model: IContextMenuModel): Promise<() => Promise<void>> {
+  const rootId = model.getAbsoluteRootNode();
+  const { defaultVisibility, visibilityExceptions } = await model.getVisibilityState(rootId);
+  const exceptions = [...visibilityExceptions];
+
+  return async () => {
+    await model.resetNodesVisibility();
+    await model.setNodesVisibility([rootId], defaultVisibility);
+    if (exceptions.length > 0) {
+      await model.setNodesVisibility(exceptions, !defaultVisibility);
+    }
+  };
+}
+
+/**
+ * Captures the opacity of the given nodes and of their descendants.
+ *
+ * @param model - The model the nodes belong to
+ * @param nodeIds - The ids of the nodes
+ * @returns {Promise<() => void>} A function restoring the captured opacity
+ */
+export async function captureOpacity(
+  model: IContextMenuModel,
+  nodeIds: NodeId[],
+): Promise<() => void> {
+  const allNodeIds = getNodeIdsWithDescendants(model, nodeIds);
+  const opacities = await model.getNodesOpacity(allNodeIds);
+
+  return () => {
+    model.resetNodesOpacity(nodeIds);
+    allNodeIds.forEach((nodeId, index) => {
+      const opacity = opacities[index];
+      if (opacity !== null && opacity !== undefined) {
+        model.setNodesOpacity([nodeId], opacity);
+      }
+    });
+  };
+}
+
+/**
+ * Captures the face color of the given nodes and of their descendants.
+ *
+ * @param model - The model the nodes belong to
+ * @param nodeIds - The ids of the nodes
+ * @returns {Promise<() => void>} A function restoring the captured face colors
+ */
+export async function captureFaceColors(
+  model: IContextMenuModel,
+  nodeIds: NodeId[],
+): Promise<() => void> {
+  const colorMaps = await Promise.all(
+    nodeIds.map((nodeId) => model.getNodeColorMap(nodeId, ElementType.Faces)),
+  );
+
+  return () => {
+    model.unsetNodesFaceColor(nodeIds);
+    for (const colorMap of colorMaps) {
+      for (const [nodeId, color] of colorMap) {
+        model.setNodesFaceColor([nodeId], color);
+      }
+    }
+  };
+}
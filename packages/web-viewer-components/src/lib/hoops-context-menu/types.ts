@@ -1,3 +1,4 @@
+import { SVGTemplateResult } from 'lit';
 import {
   CallbackMap,
   Color,
@@ -6,6 +7,7 @@ import {
   LayerId,
   LayerName,
   NodeId,
+  Point3,
   SheetManager,
   Operators,
   core,
@@ -59,6 +61,59 @@ export interface IContextMenuModel {
   getLayerIdsFromName(name: LayerName): LayerId[] | null;
   getNodesFromLayer(layerId: LayerId, onlyTreeNodes?: boolean): NodeId[] | null;
   getNodeVisibility(nodeId: NodeId): boolean;
+  getVisibilityState(
+    startNodeId: NodeId,
+  ): Promise<{ defaultVisibility: boolean; visibilityExceptions: Set<NodeId> }>;
   getNodesByGenericType(genericType: GenericType): Set<NodeId> | null;
   resetNodesVisibility: () => Promise<void>;
 }
+
+/**
+ * The context a context menu item is displayed and executed in.
+ *
+ * @interface ContextMenuContext
+ * @typedef {ContextMenuContext}
+ */
+export interface ContextMenuContext {
+  /** The ids of the nodes the menu acts on, selected, clicked or in the active layer or type */
+  nodeIds: NodeId[];
+  /** The id of the clicked node */
+  activeItemId: NodeId | null;
+  /** The name of the layer the menu was opened on */
+  activeLayerName: LayerName | null;
+  /** The generic type the menu was opened on */
+  activeType: GenericType | null;
+  /** The position of the click in the scene */
+  position: Point3 | null;
+  webViewer?: IContextMenuWebViewer;
+  model?: IContextMenuModel;
+}
+
+/**
+ * An item of the context menu.
+ *
+ * @interface ContextMenuItem
+ * @typedef {ContextMenuItem}
+ */
+export interface ContextMenuItem {
+  /** The unique id of the item */
+  id: string;
+  /** The text of the item, may depend on the context, e.g. Hide or Show */
+  label: string | ((context: ContextMenuContext) => string);
+  /** The name of a ui-kit icon or an SVG template displayed before the label */
+  icon?: string | SVGTemplateResult;
+  /** Items of different groups are separated */
+  group?: string;
+  /** The position of the item in its group, lower first */
+  order?: number;
+  /** Whether the item is displayed, defaults to true */
+  isVisible?(context: ContextMenuContext): boolean;
+  /** Whether the item can be executed, defaults to true */
+  isEnabled?(context: ContextMenuContext): boolean;
+  /** Runs the item, the menu is notified to close beforehand */
+  execute?(context: ContextMenuContext): void | Promise<void>;
+  /** Content displayed after the label, e.g. an input, clicking it does not execute the item */
+  suffix?(context: ContextMenuContext): unknown;
+  /** The items of the submenu opened when hovering the item */
+  children?: ContextMenuItem[];
+}
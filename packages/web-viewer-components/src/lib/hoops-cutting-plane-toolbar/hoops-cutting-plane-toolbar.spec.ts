@@ -5,6 +5,11 @@ import './hoops-cutting-plane-toolbar';
 import { type ICuttingService } from '../services';
 import { HoopsCuttingPlaneToolbarElement } from './hoops-cutting-plane-toolbar';
 import { CuttingServiceMock } from '../../mocks/CuttingServiceMock';
+import { downloadBlob } from '../services/snapshot';
+
+vi.mock('../services/snapshot', () => ({
+  downloadBlob: vi.fn(),
+}));
 
 describe('HoopsCuttingPlaneToolbarElement', () => {
   let element: HoopsCuttingPlaneToolbarElement;
@@ -58,7 +63,7 @@ describe('HoopsCuttingPlaneToolbarElement', () => {
       const buttons = element.shadowRoot?.querySelectorAll('hoops-button, hoops-icon-button');
 
       expect(container).not.toBeNull();
-      expect(buttons?.length).toBe(4);
+      expect(buttons?.length).toBe(9);
     });
 
     it('should render buttons with correct titles', async () => {
@@ -68,6 +73,11 @@ describe('HoopsCuttingPlaneToolbarElement', () => {
         'Invert Cutting Plane',
         'Toggle Reference Geometry Visibility',
         'Remove Cutting Plane',
+        'Export Section Profile',
+        'Export SVG',
+        'Export DXF',
+        'Export JSON',
+        'Play Cutting Plane Sweep',
       ];
 
       buttons?.forEach((button, index) => {
@@ -366,4 +376,77 @@ describe('HoopsCuttingPlaneToolbarElement', () => {
       expect(container).toBeNull();
     });
   });
+
+  describe('plane sweep', () => {
+    const getSweepButton = (name: string) =>
+      element.shadowRoot?.querySelector(`.${name}-sweep`) as HTMLElement | null;
+
+    it('should render a slider over the range of the plane', () => {
+      const slider = element.shadowRoot?.querySelector('.sweep-slider') as HTMLInputElement;
+      const range = service.getPlaneSweepRange(0, 0)!;
+
+      expect(slider.min).toBe(String(range.min));
+      expect(slider.max).toBe(String(range.max));
+      expect(Number(slider.value)).toBe(service.getCuttingPlane(0, 0)?.plane.d);
+    });
+
+    it('should play, pause, resume and stop the sweep', async () => {
+      getSweepButton('play')?.click();
+      await element.updateComplete;
+      expect(service.animatePlane).toHaveBeenCalledWith(0, 0, { loop: true });
+      expect(getSweepButton('play')?.getAttribute('title')).toBe('Pause Cutting Plane Sweep');
+
+      getSweepButton('play')?.click();
+      await element.updateComplete;
+      expect(service.pausePlaneAnimation).toHaveBeenCalled();
+      expect(getSweepButton('play')?.getAttribute('title')).toBe('Play Cutting Plane Sweep');
+
+      getSweepButton('play')?.click();
+      expect(service.resumePlaneAnimation).toHaveBeenCalled();
+
+      getSweepButton('stop')?.click();
+      await element.updateComplete;
+      expect(service.stopPlaneAnimation).toHaveBeenCalled();
+      expect(getSweepButton('stop')).toBeNull();
+    });
+
+    it('should stop the sweep and move the plane when the slider moves', async () => {
+      service.animatePlane(0, 0);
+      await element.updateComplete;
+
+      const slider = element.shadowRoot?.querySelector('.sweep-slider') as HTMLInputElement;
+      slider.value = slider.min;
+      slider.dispatchEvent(new Event('input'));
+
+      expect(service.stopPlaneAnimation).toHaveBeenCalled();
+      expect(service.updateCuttingPlane).toHaveBeenCalledWith(0, 0, {
+        plane: expect.objectContaining({ d: Number(slider.min) }),
+      });
+    });
+  });
+
+  describe('section profile export', () => {
+    it('should download the section profile in each format', async () => {
+      const buttons = element.shadowRoot?.querySelectorAll(
+        '.export-profile hoops-button',
+      ) as NodeListOf<HTMLElement>;
+
+      buttons[0].click();
+      await vi.waitFor(() =>
+        expect(downloadBlob).toHaveBeenLastCalledWith(expect.any(Blob), 'section-profile.svg'),
+      );
+      expect(service.exportSectionProfile).toHaveBeenCalledWith(0, 0, 'svg');
+
+      buttons[1].click();
+      await vi.waitFor(() =>
+        expect(downloadBlob).toHaveBeenLastCalledWith(expect.any(Blob), 'section-profile.dxf'),
+      );
+
+      buttons[2].click();
+      await vi.waitFor(() =>
+        expect(downloadBlob).toHaveBeenLastCalledWith(expect.any(Blob), 'section-profile.json'),
+      );
+      expect(service.exportSectionProfile).toHaveBeenCalledWith(0, 0, 'json');
+    });
+  });
 });
@@ -1,13 +1,32 @@
 import { LitElement, html, css, PropertyValues, nothing } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
-import { type ICuttingService } from '../services';
+import { customElement, property, query } from 'lit/decorators.js';
+import { dropdown } from '@ts3d-hoops/ui-kit';
+import {
+  type ICuttingService,
+  type SectionProfileFormat,
+  SectionProfileFormats,
+} from '../services';
+import { downloadBlob } from '../services/snapshot';
+
+type HoopsDropDownMenuElement = dropdown.DropdownMenu;
+
+/**
+ * The MIME type of each section profile export format.
+ */
+const sectionProfileTypes: Record<SectionProfileFormat, string> = {
+  svg: 'image/svg+xml',
+  dxf: 'application/dxf',
+  json: 'application/json',
+};
 
 /**
  * A toolbar component for managing individual cutting plane operations.
  *
  * This component provides a set of action buttons for manipulating a specific
  * cutting plane within a cutting section. It offers functionality to customize,
- * invert, toggle visibility, and remove cutting planes.
+ * invert, toggle visibility, and remove cutting planes, to export the section profile
+ * of the plane as SVG, DXF or JSON, and a slider with play controls sweeping the plane through
+ * the model.
  *
  * The toolbar automatically updates when the associated cutting plane changes
  * and only renders if a valid cutting plane exists at the specified indices.
@@ -45,6 +64,19 @@ export class HoopsCuttingPlaneToolbarElement extends LitElement {
 
       .container {
         display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+      }
+
+      .sweep {
+        display: flex;
+        flex-basis: 100%;
+        align-items: center;
+      }
+
+      .sweep-slider {
+        flex: 1;
+        min-width: 0;
       }
 
       .visibility-icon {
@@ -81,6 +113,14 @@ export class HoopsCuttingPlaneToolbarElement extends LitElement {
    */
   @property({ type: Object }) service: ICuttingService | null;
 
+  /**
+   * Query selector for the dropdown menu element used for the section profile export.
+   *
+   * @internal
+   */
+  @query('hoops-dropdown.export-profile')
+  private _exportDropdown?: HoopsDropDownMenuElement;
+
   /**
    * Constructs a new HoopsCuttingPlaneToolbarElement.
    *
@@ -134,6 +174,10 @@ export class HoopsCuttingPlaneToolbarElement extends LitElement {
       'hoops-cutting-plane-change',
       this.invalidateToolbar as EventListener,
     );
+    this.service.addEventListener(
+      'hoops-cutting-plane-animation-change',
+      this.invalidateToolbar as EventListener,
+    );
   }
 
   /**
@@ -152,6 +196,10 @@ export class HoopsCuttingPlaneToolbarElement extends LitElement {
         'hoops-cutting-plane-change',
         this.invalidateToolbar as EventListener,
       );
+      this.service.removeEventListener(
+        'hoops-cutting-plane-animation-change',
+        this.invalidateToolbar as EventListener,
+      );
     }
   }
 
@@ -163,6 +211,9 @@ export class HoopsCuttingPlaneToolbarElement extends LitElement {
     }
 
     const visible = !!cuttingPlane.referenceGeometry;
+    const sweepRange = this.service?.getPlaneSweepRange(this.sectionIndex, this.planeIndex);
+    const sweepState =
+      this.service?.getPlaneAnimationState(this.sectionIndex, this.planeIndex) ?? 'stopped';
 
     return html`<div class="container">
       <hoops-button
@@ -195,6 +246,63 @@ export class HoopsCuttingPlaneToolbarElement extends LitElement {
       <hoops-icon-button title="Remove Cutting Plane" size="sm" @click=${this.onRemoveCuttingPlane}>
         <hoops-icon icon="removeIcon" class="remove-icon"></hoops-icon>
       </hoops-icon-button>
+      <hoops-dropdown class="export-profile">
+        <hoops-icon-button title="Export Section Profile" size="sm">
+          <hoops-icon icon="downloadIcon" class="remove-icon"></hoops-icon>
+        </hoops-icon-button>
+        <div slot="dropdown-popup">
+          ${SectionProfileFormats.map(
+            (format) =>
+              html`<hoops-button
+                title="Export ${format.toUpperCase()}"
+                @click=${(event: Event) => {
+                  event.stopPropagation();
+                  this.exportSectionProfile(format);
+                }}
+              >
+                ${format.toUpperCase()}
+              </hoops-button>`,
+          )}
+        </div>
+      </hoops-dropdown>
+      ${sweepRange
+        ? html`<div class="sweep">
+            <hoops-icon-button
+              class="play-sweep"
+              title=${sweepState === 'playing'
+                ? 'Pause Cutting Plane Sweep'
+                : 'Play Cutting Plane Sweep'}
+              size="sm"
+              @click=${this.onToggleSweep}
+            >
+              <hoops-icon
+                icon=${sweepState === 'playing' ? 'pauseIcon' : 'playIcon'}
+                class="remove-icon"
+              ></hoops-icon>
+            </hoops-icon-button>
+            ${sweepState !== 'stopped'
+              ? html`<hoops-icon-button
+                  class="stop-sweep"
+                  title="Stop Cutting Plane Sweep"
+                  size="sm"
+                  @click=${this.onStopSweep}
+                >
+                  <hoops-icon icon="stopIcon" class="remove-icon"></hoops-icon>
+                </hoops-icon-button>`
+              : nothing}
+            <input
+              class="sweep-slider"
+              type="range"
+              aria-label="Cutting plane position"
+              min=${sweepRange.min}
+              max=${sweepRange.max}
+              step=${(sweepRange.max - sweepRange.min) / 100 || 1}
+              .value=${String(cuttingPlane.plane.d)}
+              @click=${(event: Event) => event.stopPropagation()}
+              @input=${this.onSweepInput}
+            />
+          </div>`
+        : nothing}
     </div>`;
   }
 
@@ -222,6 +330,7 @@ export class HoopsCuttingPlaneToolbarElement extends LitElement {
     cuttingPlane.plane.d = -cuttingPlane.plane.d;
     this.service.updateCuttingPlane(this.sectionIndex, this.planeIndex, {
       plane: cuttingPlane.plane,
+      referenceGeometry: cuttingPlane.referenceGeometry,
     });
   }
 
@@ -253,6 +362,101 @@ export class HoopsCuttingPlaneToolbarElement extends LitElement {
     );
   }
 
+  /**
+   * Exports the section profile of the plane and downloads it as `section-profile.<format>`.
+   *
+   * @param format - The format of the file
+   * @internal
+   */
+  private async exportSectionProfile(format: SectionProfileFormat) {
+    if (!this.service) {
+      return;
+    }
+
+    if (this._exportDropdown?.menuShown) {
+      this._exportDropdown.menuShown = false;
+    }
+
+    const content = await this.service.exportSectionProfile(
+      this.sectionIndex,
+      this.planeIndex,
+      format,
+    );
+    downloadBlob(
+      new Blob([content], { type: sectionProfileTypes[format] }),
+      `section-profile.${format}`,
+    );
+  }
+
+  /**
+   * Handles the play button click event.
+   *
+   * Pauses the sweep of the plane when it is playing, resumes it when it is paused, and
+   * starts a looping sweep through the model otherwise.
+   *
+   * @param event - The click event from the play button
+   * @internal
+   */
+  private onToggleSweep(event: Event) {
+    event.stopPropagation();
+    if (!this.service) {
+      return;
+    }
+
+    switch (this.service.getPlaneAnimationState(this.sectionIndex, this.planeIndex)) {
+      case 'playing':
+        this.service.pausePlaneAnimation();
+        break;
+      case 'paused':
+        this.service.resumePlaneAnimation();
+        break;
+      default:
+        this.service
+          .animatePlane(this.sectionIndex, this.planeIndex, { loop: true })
+          .catch((error) => console.error('Failed to sweep the cutting plane:', error));
+    }
+  }
+
+  /**
+   * Handles the stop button click event, the plane stays where the sweep stopped.
+   *
+   * @param event - The click event from the stop button
+   * @internal
+   */
+  private onStopSweep(event: Event) {
+    event.stopPropagation();
+    this.service?.stopPlaneAnimation();
+  }
+
+  /**
+   * Handles the slider input event.
+   *
+   * Moves the plane to the position of the slider, stopping its sweep so that the user
+   * can scrub the plane through the model.
+   *
+   * @param event - The input event from the slider
+   * @internal
+   */
+  private onSweepInput(event: Event) {
+    if (!this.service) {
+      return;
+    }
+
+    const cuttingPlane = this.service.getCuttingPlane(this.sectionIndex, this.planeIndex);
+    if (!cuttingPlane) {
+      return;
+    }
+
+    if (this.service.getPlaneAnimationState(this.sectionIndex, this.planeIndex) !== 'stopped') {
+      this.service.stopPlaneAnimation();
+    }
+
+    cuttingPlane.plane.d = Number((event.target as HTMLInputElement).value);
+    this.service.updateCuttingPlane(this.sectionIndex, this.planeIndex, {
+      plane: cuttingPlane.plane,
+    });
+  }
+
   /**
    * Handles the remove cutting plane button click event.
    *
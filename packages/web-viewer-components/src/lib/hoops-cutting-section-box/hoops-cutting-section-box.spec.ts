@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import './hoops-cutting-section-box';
+import { Box, Point3 } from '@ts3d-hoops/web-viewer';
+import { HoopsCuttingSectionBoxElement } from './hoops-cutting-section-box';
+import { CuttingServiceMock } from '../../mocks/CuttingServiceMock';
+
+describe('hoops-cutting-section-box component', () => {
+  let element: HoopsCuttingSectionBoxElement;
+  let service: CuttingServiceMock;
+
+  beforeEach(async () => {
+    service = new CuttingServiceMock(vi.fn);
+    await service.createSectionBox(0, new Box(new Point3(0, 0, 0), new Point3(10, 20, 30)));
+
+    document.body.innerHTML = '';
+    element = document.createElement('hoops-cutting-section-box') as HoopsCuttingSectionBoxElement;
+    element.sectionIndex = 0;
+    element.service = service;
+    document.body.appendChild(element);
+    await element.updateComplete;
+  });
+
+  afterEach(() => {
+    element.remove();
+    document.body.innerHTML = '';
+    vi.useRealTimers();
+  });
+
+  const getInput = (face: string) =>
+    element.shadowRoot?.querySelector(`hoops-coordinate-input[data-face="${face}"]`) as
+      | (HTMLElement & { value: number })
+      | null;
+
+  it('renders an input for each face of the box', () => {
+    const inputs = element.shadowRoot?.querySelectorAll('hoops-coordinate-input') ?? [];
+    expect(inputs.length).toBe(6);
+    expect(getInput('x-min')?.value).toBe(0);
+    expect(getInput('y-max')?.value).toBe(20);
+    expect(getInput('z-max')?.getAttribute('label')).toBe('+z');
+  });
+
+  it('renders nothing when the section is not a section box', async () => {
+    element.sectionIndex = 1;
+    await element.updateComplete;
+    expect(element.shadowRoot?.querySelector('.container')).toBeNull();
+  });
+
+  it('moves the faces with a single debounced setSectionBox call', async () => {
+    vi.useFakeTimers();
+
+    getInput('x-max')?.dispatchEvent(
+      new CustomEvent('hoops-coordinate-changed', { detail: { value: 5 } }),
+    );
+    getInput('z-min')?.dispatchEvent(
+      new CustomEvent('hoops-coordinate-changed', { detail: { value: 2 } }),
+    );
+    await element.updateComplete;
+    expect(getInput('x-max')?.value).toBe(5);
+    expect(service.setSectionBox).not.toHaveBeenCalled();
+
+    await vi.runAllTimersAsync();
+
+    expect(service.setSectionBox).toHaveBeenCalledTimes(1);
+    expect(service.getSectionBox(0)).toEqual(new Box(new Point3(0, 0, 2), new Point3(5, 20, 30)));
+  });
+
+  it('toggles the viewport handle of a face', async () => {
+    const getButton = (face: string) =>
+      element.shadowRoot?.querySelector(
+        `hoops-icon-button[data-face="${face}"]`,
+      ) as HTMLElement | null;
+
+    getButton('y-max')?.click();
+    await element.updateComplete;
+    expect(service.showSectionBoxHandle).toHaveBeenCalledWith(0, 'y-max');
+    expect(getButton('y-max')?.getAttribute('color')).toBe('accent');
+    expect(getButton('y-max')?.title).toBe('Hide Face Handle');
+    expect(getButton('x-min')?.getAttribute('color')).toBe('default');
+
+    getButton('y-max')?.click();
+    await element.updateComplete;
+    expect(service.hideSectionBoxHandle).toHaveBeenCalledOnce();
+    expect(service.getSectionBoxHandle()).toBeUndefined();
+    expect(getButton('y-max')?.getAttribute('color')).toBe('default');
+  });
+
+  it('updates when the cutting sections change', async () => {
+    const spy = vi.spyOn(element, 'requestUpdate');
+    service.dispatchEvent(new CustomEvent('hoops-cutting-sections-change'));
+    expect(spy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,37 @@
+import type { Meta, StoryObj } from '@storybook/web-components';
+
+import { html } from 'lit';
+
+import './hoops-cutting-section-box';
+import { getService, ICuttingService } from '../services';
+
+const meta: Meta = {
+  component: 'HoopsCuttingSectionBoxElement',
+  tags: ['autodocs', 'CuttingService'],
+  decorators: [
+    (story) => {
+      return html`<div style="width: 300px;">${story()}</div>`;
+    },
+  ],
+  argTypes: {
+    sectionIndex: { control: 'number' },
+  },
+
+  render: (args) => {
+    const service = getService<ICuttingService>('CuttingService');
+
+    return html`<hoops-cutting-section-box
+      sectionIndex=${args.sectionIndex}
+      .service=${service}
+    ></hoops-cutting-section-box>`;
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+export const Base: Story = {
+  args: {
+    sectionIndex: 0,
+  },
+};
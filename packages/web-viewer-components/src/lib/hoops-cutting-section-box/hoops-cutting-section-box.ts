@@ -0,0 +1,223 @@
+import { CoordinateInputChangeEvent } from '@ts3d-hoops/ui-kit/common';
+import { LitElement, html, css, nothing, PropertyValues } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { Box } from '@ts3d-hoops/common';
+import { Debouncer } from '@ts3d-hoops/ui-kit';
+import { SectionBoxFace, SectionBoxFaces, type ICuttingService } from '../services';
+
+/**
+ * The label of the input of each face of a section box.
+ */
+const faceLabels: Record<SectionBoxFace, string> = {
+  'x-min': '-x',
+  'x-max': '+x',
+  'y-min': '-y',
+  'y-max': '+y',
+  'z-min': '-z',
+  'z-max': '+z',
+};
+
+/**
+ * An editor moving the faces of a section box, a cutting section keeping the inside of an
+ * axis-aligned box.
+ *
+ * Each face of the box has an input moving it along its axis, within the model bounding box
+ * extended by its size on each side. The changes are applied to the service after a short delay.
+ * Each face also has a button showing its translation handle in the viewport, see
+ * `ICuttingService.showSectionBoxHandle`.
+ *
+ * @element hoops-cutting-section-box
+ *
+ * @attribute {number} sectionIndex - The index of the section box to edit
+ *
+ * @example
+ * ```html
+ * <hoops-cutting-section-box sectionIndex="0" .service=${cuttingService}></hoops-cutting-section-box>
+ * ```
+ */
+@customElement('hoops-cutting-section-box')
+export class HoopsCuttingSectionBoxElement extends LitElement {
+  /** @internal */
+  static styles = [
+    css`
+      :host {
+        display: block;
+      }
+
+      .container {
+        padding: 0.5rem;
+      }
+
+      .face {
+        display: flex;
+        align-items: center;
+        gap: 0.25rem;
+      }
+
+      .face hoops-coordinate-input {
+        flex: 1;
+      }
+    `,
+  ];
+
+  /**
+   * The index of the section box to edit.
+   *
+   * @default 0
+   */
+  @property({ type: Number })
+  sectionIndex = 0;
+
+  /**
+   * The cutting service instance that provides the section box.
+   * When undefined, or when the section is not a section box, the component renders nothing.
+   *
+   * @default undefined
+   */
+  @property({ type: Object })
+  service?: ICuttingService;
+
+  /**
+   * The box with the changes not applied yet, so that several faces can be moved meanwhile.
+   *
+   * @internal
+   */
+  private pendingBox?: Box;
+
+  private debouncer: Debouncer<[Box], Promise<void>>;
+
+  constructor() {
+    super();
+
+    this.invalidateSectionBox = this.invalidateSectionBox.bind(this);
+    this.debouncer = new Debouncer(async (box: Box) => {
+      this.pendingBox = undefined;
+      await this.service?.setSectionBox(this.sectionIndex, box);
+    });
+  }
+
+  /** @internal */
+  protected firstUpdated(_changedProperties: PropertyValues): void {
+    super.firstUpdated(_changedProperties);
+    if (!this.service) {
+      return;
+    }
+
+    this.service.addEventListener('hoops-cutting-sections-change', this.invalidateSectionBox);
+    this.service.addEventListener('hoops-cutting-service-reset', this.invalidateSectionBox);
+    this.service.addEventListener(
+      'hoops-cutting-section-box-handle-change',
+      this.invalidateSectionBox,
+    );
+  }
+
+  /** @internal */
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    if (this.service) {
+      this.service.removeEventListener('hoops-cutting-sections-change', this.invalidateSectionBox);
+      this.service.removeEventListener('hoops-cutting-service-reset', this.invalidateSectionBox);
+      this.service.removeEventListener(
+        'hoops-cutting-section-box-handle-change',
+        this.invalidateSectionBox,
+      );
+    }
+
+    this.debouncer.clear();
+  }
+
+  /** @internal */
+  protected override render(): unknown {
+    if (!this.service) {
+      return nothing;
+    }
+
+    const box = this.pendingBox ?? this.service.getSectionBox(this.sectionIndex);
+    if (!box) {
+      return nothing;
+    }
+
+    const bounding = this.service.getModelBounding().copy().addBox(box);
+    const extents = bounding.extents();
+    const handle = this.service.getSectionBoxHandle();
+
+    return html`<div class="container">
+      ${SectionBoxFaces.map((face) => {
+        const axis = face[0] as 'x' | 'y' | 'z';
+        const value = (face.endsWith('min') ? box.min : box.max)[axis];
+        const hasHandle = handle?.sectionIndex === this.sectionIndex && handle.face === face;
+        return html`<div class="face">
+          <hoops-coordinate-input
+            data-face=${face}
+            label=${faceLabels[face]}
+            .value=${value}
+            min=${bounding.min[axis] - extents[axis]}
+            max=${bounding.max[axis] + extents[axis]}
+            @hoops-coordinate-changed=${(event: Event) =>
+              this.moveFace(face, (event as CoordinateInputChangeEvent).detail.value)}
+          ></hoops-coordinate-input>
+          <hoops-icon-button
+            data-face=${face}
+            title=${hasHandle ? 'Hide Face Handle' : 'Show Face Handle'}
+            size="sm"
+            color=${hasHandle ? 'accent' : 'default'}
+            @click=${() => this.toggleFaceHandle(face, hasHandle)}
+          >
+            <hoops-icon icon="select"></hoops-icon>
+          </hoops-icon-button>
+        </div>`;
+      })}
+    </div>`;
+  }
+
+  /**
+   * Moves a face of the box, the change is applied to the service after a short delay.
+   *
+   * @param face - The face to move
+   * @param value - The new coordinate of the face along its axis
+   * @internal
+   */
+  private moveFace(face: SectionBoxFace, value: number) {
+    const box = (this.pendingBox ?? this.service?.getSectionBox(this.sectionIndex))?.copy();
+    if (!box) {
+      return;
+    }
+
+    const axis = face[0] as 'x' | 'y' | 'z';
+    (face.endsWith('min') ? box.min : box.max)[axis] = value;
+    this.pendingBox = box;
+    this.requestUpdate();
+
+    // Catch and ignore promise rejections from cancelled debounce calls
+    this.debouncer.debounce(500, box).catch((e?: Error) => {
+      if (e) {
+        throw e;
+      }
+    });
+  }
+
+  /**
+   * Shows the translation handle of a face in the viewport, or removes it.
+   *
+   * @param face - The face of the handle
+   * @param hasHandle - Whether the face has the handle already
+   * @internal
+   */
+  private toggleFaceHandle(face: SectionBoxFace, hasHandle: boolean) {
+    const request = hasHandle
+      ? this.service?.hideSectionBoxHandle()
+      : this.service?.showSectionBoxHandle(this.sectionIndex, face);
+    request?.catch((error) => console.error('Failed to toggle the section box handle:', error));
+  }
+
+  /**
+   * Event handler that invalidates the editor when the cutting sections change.
+   *
+   * @internal
+   */
+  private invalidateSectionBox() {
+    this.requestUpdate();
+  }
+}
+
+export default HoopsCuttingSectionBoxElement;
@@ -0,0 +1,3 @@
+export * from './hoops-cutting-section-box';
+
+import './hoops-cutting-section-box';
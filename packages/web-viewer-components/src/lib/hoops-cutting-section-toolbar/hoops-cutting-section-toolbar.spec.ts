@@ -315,4 +315,42 @@ describe('hoops-cutting-section-toolbar', () => {
     ).mock.calls.at(-1);
     expect(last?.[1]).toBe(false);
   });
+
+  it('creates a section box around the model, or the selected nodes', async () => {
+    const boxBtn = el.shadowRoot?.querySelector('.section-box') as HTMLElement;
+    expect(boxBtn.title).toBe('Create Section Box Around Model');
+    boxBtn.click();
+    expect(service.createSectionBox).toHaveBeenLastCalledWith(0, service.getModelBounding());
+
+    service.simulateNodeSelection([5, 6]);
+    await el.updateComplete;
+    expect(boxBtn.title).toBe('Create Section Box Around Selection');
+    boxBtn.click();
+    expect(service.createSectionBox).toHaveBeenLastCalledWith(0, [5, 6]);
+  });
+
+  it('saves, applies and deletes section presets', async () => {
+    const input = el.shadowRoot?.querySelector('.preset-name') as HTMLInputElement;
+    input.value = 'Front half';
+    (el.shadowRoot?.querySelector('.save-preset') as HTMLElement).click();
+    await el.updateComplete;
+
+    expect(service.saveSectionPreset).toHaveBeenCalledWith('Front half', 0);
+    expect(input.value).toBe('');
+
+    const applyBtn = el.shadowRoot?.querySelector('.apply-preset') as HTMLElement;
+    expect(applyBtn.textContent?.trim()).toBe('Front half');
+    applyBtn.click();
+    expect(service.applySectionPreset).toHaveBeenCalledWith('Front half', 0);
+
+    (el.shadowRoot?.querySelector('.delete-preset') as HTMLElement).click();
+    await el.updateComplete;
+    expect(service.deleteSectionPreset).toHaveBeenCalledWith('Front half');
+    expect(el.shadowRoot?.querySelector('.apply-preset')).toBeNull();
+  });
+
+  it('does not save a preset without name', async () => {
+    (el.shadowRoot?.querySelector('.save-preset') as HTMLElement).click();
+    expect(service.saveSectionPreset).not.toHaveBeenCalled();
+  });
 });
@@ -20,6 +20,8 @@ type HoopsDropDownMenuElement = dropdown.DropdownMenu;
  * - Support for axis-aligned planes (X, Y, Z axes)
  * - Face-based plane creation using selected geometry
  * - Custom plane creation with arbitrary orientation
+ * - Section box creation around the selected nodes or the whole model
+ * - Dropdown menu saving, applying and deleting named section presets
  * - Section-wide operations (visibility toggle, clear, activate/deactivate)
  * - Visual feedback for section state and capacity limits
  *
@@ -73,6 +75,23 @@ export class HoopsCuttingSectionToolbarElement extends LitElement {
       .cutting-plane-icon {
         width: 80%;
       }
+
+      .presets-popup {
+        display: flex;
+        flex-direction: column;
+        gap: 0.25rem;
+        padding: 0.25rem;
+        min-width: 12rem;
+      }
+
+      .preset {
+        display: flex;
+        align-items: center;
+      }
+
+      .preset hoops-button {
+        flex: 1;
+      }
     `,
   ];
 
@@ -104,6 +123,22 @@ export class HoopsCuttingSectionToolbarElement extends LitElement {
   @query('hoops-dropdown')
   private _dropdown?: HoopsDropDownMenuElement;
 
+  /**
+   * Query selector for the dropdown menu element used for the section presets.
+   *
+   * @internal
+   */
+  @query('hoops-dropdown.presets')
+  private _presetsDropdown?: HoopsDropDownMenuElement;
+
+  /**
+   * Query selector for the input naming the preset to save.
+   *
+   * @internal
+   */
+  @query('.preset-name')
+  private _presetNameInput?: HTMLInputElement;
+
   /**
    * Constructs a new HoopsCuttingSectionToolbarElement.
    *
@@ -142,6 +177,11 @@ export class HoopsCuttingSectionToolbarElement extends LitElement {
       'hoops-cutting-face-selection-change',
       this.invalidateToolbar as EventListener,
     );
+
+    this.service.addEventListener(
+      'hoops-cutting-presets-change',
+      this.invalidateToolbar as EventListener,
+    );
   }
 
   /**
@@ -164,6 +204,11 @@ export class HoopsCuttingSectionToolbarElement extends LitElement {
         'hoops-cutting-face-selection-change',
         this.invalidateToolbar as EventListener,
       );
+
+      this.service.removeEventListener(
+        'hoops-cutting-presets-change',
+        this.invalidateToolbar as EventListener,
+      );
     }
   }
 
@@ -197,6 +242,23 @@ export class HoopsCuttingSectionToolbarElement extends LitElement {
     }
   }
 
+  /**
+   * Saves the section as a preset named after the preset name input, then clears the input.
+   *
+   * @internal
+   */
+  private saveSectionPreset() {
+    const name = this._presetNameInput?.value.trim();
+    if (!this.service || !name) {
+      return;
+    }
+
+    this.service.saveSectionPreset(name, this.sectionIndex);
+    if (this._presetNameInput) {
+      this._presetNameInput.value = '';
+    }
+  }
+
   /** @internal */
   protected override render(): unknown {
     if (!this.service) {
@@ -206,6 +268,8 @@ export class HoopsCuttingSectionToolbarElement extends LitElement {
     const selectedFace = this.service.getSelectedFace();
     const cuttingPlaneCount = this.service.getCuttingPlaneCount(this.sectionIndex) ?? 0;
     const sectionFull = cuttingPlaneCount >= 3;
+    const selectedNodeIds = this.service.getSelectedNodeIds();
+    const presets = this.service.listSectionPresets();
 
     return html`<div class="container" @click=${(event: Event) => event.stopPropagation()}>
       <hoops-dropdown ?disabled=${sectionFull}>
@@ -332,6 +396,87 @@ export class HoopsCuttingSectionToolbarElement extends LitElement {
           </hoops-icon-button>
         </div>
       </hoops-dropdown>
+      <hoops-icon-button
+        class="section-box"
+        title=${selectedNodeIds.length > 0
+          ? 'Create Section Box Around Selection'
+          : 'Create Section Box Around Model'}
+        @click=${(event: MouseEvent) => {
+          event.stopPropagation();
+          if (!this.service) {
+            return;
+          }
+
+          const nodeIds = this.service.getSelectedNodeIds();
+          this.service.createSectionBox(
+            this.sectionIndex,
+            nodeIds.length > 0 ? nodeIds : this.service.getModelBounding(),
+          );
+        }}
+      >
+        <hoops-icon icon="cubeWireframe" class="cutting-plane-icon"></hoops-icon>
+      </hoops-icon-button>
+      <hoops-dropdown class="presets" preventCloseOnClickInside>
+        <hoops-icon-button title="Section Presets">
+          <hoops-icon icon="layers" class="cutting-plane-icon"></hoops-icon>
+        </hoops-icon-button>
+        <div slot="dropdown-popup" class="presets-popup">
+          <div class="preset">
+            <input
+              class="preset-name"
+              aria-label="Preset name"
+              placeholder="Preset name"
+              @keydown=${(event: KeyboardEvent) => {
+                if (event.key === 'Enter') {
+                  this.saveSectionPreset();
+                }
+              }}
+            />
+            <hoops-icon-button
+              class="save-preset"
+              title="Save Section Preset"
+              @click=${(event: MouseEvent) => {
+                event.stopPropagation();
+                this.saveSectionPreset();
+              }}
+            >
+              <hoops-icon icon="addIcon" class="cutting-plane-icon"></hoops-icon>
+            </hoops-icon-button>
+          </div>
+          ${presets.map(
+            (name) =>
+              html`<div class="preset">
+                <hoops-button
+                  class="apply-preset"
+                  title="Apply Section Preset"
+                  @click=${(event: MouseEvent) => {
+                    event.stopPropagation();
+                    if (!this.service) {
+                      return;
+                    }
+
+                    this.service.applySectionPreset(name, this.sectionIndex);
+                    if (this._presetsDropdown) {
+                      this._presetsDropdown.menuShown = false;
+                    }
+                  }}
+                >
+                  ${name}
+                </hoops-button>
+                <hoops-icon-button
+                  class="delete-preset"
+                  title="Delete Section Preset"
+                  @click=${(event: MouseEvent) => {
+                    event.stopPropagation();
+                    this.service?.deleteSectionPreset(name);
+                  }}
+                >
+                  <hoops-icon icon="removeIcon" class="cutting-plane-icon"></hoops-icon>
+                </hoops-icon-button>
+              </div>`,
+          )}
+        </div>
+      </hoops-dropdown>
       <hoops-icon-button ?disabled=${!section?.active} title="Toggle Cutting Plane Visibility">
         <hoops-icon
           title="Toggle Cutting Planes Visibility"
@@ -143,4 +143,11 @@ describe('hoops-cutting-section', () => {
     await el.updateComplete;
     expect(el.expanded).toBe(true);
   });
+
+  it('renders the section box editor instead of the planes of a section box', async () => {
+    await service.createSectionBox(0, service.getModelBounding());
+    await el.updateComplete;
+    expect(el.shadowRoot?.querySelector('hoops-cutting-section-box')).toBeTruthy();
+    expect(el.shadowRoot?.querySelectorAll('hoops-cutting-plane').length).toBe(0);
+  });
 });
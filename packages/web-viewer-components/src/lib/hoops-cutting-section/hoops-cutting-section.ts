@@ -3,6 +3,7 @@ import { customElement, property, state } from 'lit/decorators.js';
 import { type ICuttingService } from '../services';
 
 import '../hoops-cutting-section-toolbar';
+import '../hoops-cutting-section-box';
 
 /**
  * A comprehensive cutting section component that manages multiple cutting planes as a group.
@@ -11,7 +12,8 @@ import '../hoops-cutting-section-toolbar';
  * of cutting planes that work together. It includes:
  * - Collapsible accordion display with section labeling
  * - Integrated toolbar for section-wide operations (add planes, visibility, clear, activate)
- * - Dynamic list of cutting plane components within the section
+ * - Dynamic list of cutting plane components within the section, or the face editor of the
+ *   section when it is a section box
  * - Automatic expansion when new planes are added
  * - Real-time synchronization with cutting service events
  *
@@ -256,14 +258,19 @@ export class HoopsCuttingSectionElement extends LitElement {
         </div>
         <div slot="content">
           <div class="content">
-            ${section.cuttingPlanes.map(
-              (_, i) =>
-                html`<hoops-cutting-plane
+            ${this.service.getSectionBox(this.sectionIndex)
+              ? html`<hoops-cutting-section-box
                   sectionIndex=${this.sectionIndex}
-                  planeIndex=${i}
                   .service=${this.service}
-                ></hoops-cutting-plane>`,
-            )}
+                ></hoops-cutting-section-box>`
+              : section.cuttingPlanes.map(
+                  (_, i) =>
+                    html`<hoops-cutting-plane
+                      sectionIndex=${this.sectionIndex}
+                      planeIndex=${i}
+                      .service=${this.service}
+                    ></hoops-cutting-plane>`,
+                )}
           </div>
         </div>
       </hoops-accordion>
@@ -0,0 +1,56 @@
+import { html } from 'lit';
+import { describe, expect, it } from 'vitest';
+
+import { renderTemplate } from '../testing/utils';
+import './hoops-layer-tree-element';
+import { LayerTreeElement } from './hoops-layer-tree-element';
+
+const createLayerNodes = (count: number) =>
+  new Map(Array.from({ length: count }, (_, index): [number, string] => [index, `Node ${index}`]));
+
+describe('hoops-layer-tree-element', () => {
+  it('should not render the nodes of a collapsed layer', async () => {
+    await renderTemplate(
+      html`<hoops-layer-tree-element
+        layerId="1"
+        layerName="Layer 1"
+        .layerNodes=${createLayerNodes(10)}
+      ></hoops-layer-tree-element>`,
+    );
+    const element = document.querySelector('hoops-layer-tree-element') as LayerTreeElement;
+    await element.updateComplete;
+
+    expect(element.shadowRoot!.querySelectorAll('.layer-node-element')).toHaveLength(0);
+  });
+
+  it('should only render the rows of an expanded layer around the viewport', async () => {
+    await renderTemplate(
+      html`<hoops-layer-tree-element
+        layerId="1"
+        layerName="Layer 1"
+        row-height="20"
+        overscan="5"
+        expanded
+        .layerNodes=${createLayerNodes(10000)}
+      ></hoops-layer-tree-element>`,
+    );
+    const element = document.querySelector('hoops-layer-tree-element') as LayerTreeElement;
+    await element.updateComplete;
+
+    const shadow = element.shadowRoot!;
+    const rowCount = shadow.querySelectorAll('.layer-node-element').length;
+    expect(rowCount).toBeGreaterThan(0);
+    expect(rowCount).toBeLessThan(10000);
+    expect(shadow.querySelector<HTMLElement>('.layer-node-viewport')?.style.height).toBe(
+      '200000px',
+    );
+
+    const nodeList = shadow.querySelector<HTMLElement>('.layer-node-list')!;
+    nodeList.scrollTop = 100000;
+    nodeList.dispatchEvent(new Event('scroll'));
+    await element.updateComplete;
+
+    const firstRow = shadow.querySelector('.layer-node-element');
+    expect(firstRow?.getAttribute('nodeId')).toBe('4995');
+  });
+});
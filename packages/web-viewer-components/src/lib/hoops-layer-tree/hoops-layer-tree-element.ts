@@ -1,5 +1,6 @@
-import { LitElement, css, html, nothing, HTMLTemplateResult } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { LitElement, PropertyValues, css, html, nothing, HTMLTemplateResult } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { styleMap } from 'lit/directives/style-map.js';
 import { componentBaseStyle } from '@ts3d-hoops/ui-kit';
 import { formatLayersIcon, formatNodeIcon, rightArrowIcon, downArrowIcon } from './utils';
 import type { BaseMouseEvent } from '@ts3d-hoops/ui-kit/tree';
@@ -18,6 +19,10 @@ import { halfVisibleIcon, hiddenIcon, visibleIcon } from '@ts3d-hoops/ui-kit/ico
  * @attribute {number} layerId - The id of the layer in the model
  * @attribute {string} layerName - The name of the layer
  * @attribute {boolean} hidden - The visibility state of the layer
+ * @attribute {number} row-height - The height in pixels of the rows of the nodes of the layer
+ *
+ * @cssprop --hoops-layer-node-list-max-height - The height the node list scrolls past, `20rem` by
+ * default
  *
  * @example
  * ```html
@@ -78,6 +83,12 @@ export class LayerTreeElement extends LitElement {
 
       .layer-node-list {
         margin-left: 1rem;
+        max-height: var(--hoops-layer-node-list-max-height, 20rem);
+        overflow-y: auto;
+      }
+
+      .layer-node-viewport {
+        position: relative;
       }
 
       .layer-node-list.collapsed {
@@ -87,6 +98,7 @@ export class LayerTreeElement extends LitElement {
       .layer-node-element {
         display: flex;
         align-items: center;
+        overflow: hidden;
       }
 
       .layer-tree-element.selected,
@@ -177,6 +189,30 @@ export class LayerTreeElement extends LitElement {
   @property({ type: Map<number, number[]> })
   nodesChildren: Map<number, number[]> = new Map<number, number[]>();
 
+  /**
+   * The height in pixels of the rows of the nodes. Only the rows scrolled into the node list are
+   * rendered, the rows are clipped to this height.
+   *
+   * @type {number}
+   */
+  @property({ type: Number, attribute: 'row-height' })
+  rowHeight = 24;
+
+  /**
+   * The number of rows rendered above and below the visible rows of the node list.
+   *
+   * @type {number}
+   */
+  @property({ type: Number })
+  overscan = 10;
+
+  /**
+   * The scroll position of the node list.
+   * @internal
+   */
+  @state()
+  private scrollOffset = 0;
+
   /** @internal */
   protected override render(): unknown {
     /**
@@ -192,19 +228,6 @@ export class LayerTreeElement extends LitElement {
       classNames.push('selected');
     }
 
-    const nodesHtml: HTMLTemplateResult[] = [];
-    // Collect all node IDs that are children of another node in this layer.
-    // These are filtered out from the top-level list when nodesChildren is populated.
-    const childNodeIds = new Set<number>();
-    this.nodesChildren.forEach((children) => {
-      children.forEach((childId) => childNodeIds.add(childId));
-    });
-    this.layerNodes.forEach((v: string, k: number) => {
-      if (!childNodeIds.has(k)) {
-        nodesHtml.push(this.getNodeHtml(k, v));
-      }
-    });
-
     const nodeListClassNames = ['layer-node-list'];
     if (!this.expanded) {
       nodeListClassNames.push('collapsed');
@@ -221,10 +244,63 @@ export class LayerTreeElement extends LitElement {
           ${this.formatLayerVisibilityIcon()}
         </div>
       </div>
-      <div class=${nodeListClassNames.join(' ')}>${nodesHtml}</div>
+      <div class=${nodeListClassNames.join(' ')} @scroll=${this.onNodeListScroll}>
+        ${this.expanded ? this.getNodeRowsHtml() : nothing}
+      </div>
     </div>`;
   }
 
+  /** @internal */
+  protected override willUpdate(changedProperties: PropertyValues<this>): void {
+    super.willUpdate(changedProperties);
+
+    if (changedProperties.has('expanded') && !this.expanded) {
+      this.scrollOffset = 0;
+    }
+  }
+
+  /**
+   * Renders the rows of the nodes scrolled into the node list, positioned in a container as high
+   * as all the rows. The nodes of a layer can be numerous on BIM models.
+   *
+   * @returns {HTMLTemplateResult} The HTML fragment of the rows
+   */
+  private getNodeRowsHtml(): HTMLTemplateResult {
+    // Collect all node IDs that are children of another node in this layer.
+    // These are filtered out from the top-level list when nodesChildren is populated.
+    const childNodeIds = new Set<number>();
+    this.nodesChildren.forEach((children) => {
+      children.forEach((childId) => childNodeIds.add(childId));
+    });
+    const nodes = [...this.layerNodes].filter(([nodeId]) => !childNodeIds.has(nodeId));
+
+    const nodeList = this.renderRoot.querySelector<HTMLElement>('.layer-node-list');
+    const viewportHeight = nodeList?.clientHeight || window.innerHeight;
+    const first = Math.max(0, Math.floor(this.scrollOffset / this.rowHeight) - this.overscan);
+    const last = Math.min(
+      nodes.length,
+      Math.ceil((this.scrollOffset + viewportHeight) / this.rowHeight) + this.overscan,
+    );
+
+    return html`<div
+      class="layer-node-viewport"
+      style=${styleMap({ height: `${nodes.length * this.rowHeight}px` })}
+    >
+      <div style=${styleMap({ transform: `translateY(${first * this.rowHeight}px)` })}>
+        ${nodes.slice(first, last).map(([nodeId, nodeName]) => this.getNodeHtml(nodeId, nodeName))}
+      </div>
+    </div>`;
+  }
+
+  /**
+   * Keeps track of the scroll position to render the rows in the node list.
+   *
+   * @param {Event} event The scroll event of the node list
+   */
+  private onNodeListScroll(event: Event) {
+    this.scrollOffset = (event.target as HTMLElement).scrollTop;
+  }
+
   private formatLayerVisibilityIcon(): HTMLTemplateResult | typeof nothing {
     if (this.hiddenNodes.length <= 0) {
       return html`${visibleIcon}`;
@@ -322,6 +398,7 @@ export class LayerTreeElement extends LitElement {
 
     return html`<div
       class="${classNames.join(' ')}"
+      style=${styleMap({ height: `${this.rowHeight}px` })}
       nodeId=${nodeId}
       @click=${(event: MouseEvent) => this.onLayerNodeClicked(event, nodeId)}
       @auxclick=${(event: MouseEvent) => this.onLayerNodeClicked(event, nodeId)}
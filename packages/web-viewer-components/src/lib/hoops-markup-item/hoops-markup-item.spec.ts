@@ -66,6 +66,20 @@ describe('hoops-markup-item', () => {
     expect(markupDiv.classList.contains('selected')).toBeTruthy();
   });
 
+  it('should render the review status as a badge', async () => {
+    renderTemplate(html`<hoops-markup-item status="resolved">Note</hoops-markup-item>`);
+    const markupItem = document.querySelector('hoops-markup-item') as HoopsMarkupItemElement;
+
+    await markupItem!.updateComplete;
+    const badge = markupItem.shadowRoot?.querySelector('.status') as HTMLSpanElement;
+    expect(badge.classList.contains('status-resolved')).toBeTruthy();
+    expect(badge.textContent).toBe('resolved');
+
+    markupItem.status = '';
+    await markupItem.updateComplete;
+    expect(markupItem.shadowRoot?.querySelector('.status')).toBeNull();
+  });
+
   it('should emit hoops-select-markup event on click', async () => {
     const clickHandler = vi.fn();
     document.addEventListener('hoops-select-markup', clickHandler);
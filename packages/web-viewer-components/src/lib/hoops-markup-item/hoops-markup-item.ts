@@ -1,4 +1,4 @@
-import { css, html, LitElement } from 'lit';
+import { css, html, LitElement, nothing } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 
 /**
@@ -14,6 +14,7 @@ import { customElement, property } from 'lit/decorators.js';
  *
  * @attribute {string} markupId - Unique markup identifier
  * @attribute {boolean} selected - Indicates whether the item is selected
+ * @attribute {string} status - Review status rendered as a badge, as `open`, `resolved` or `closed`
  *
  * @cssprop --hoops-foreground - Foreground color for row and separators
  * @cssprop --hoops-accent-foreground - Accent color used on hover and selected states
@@ -80,6 +81,28 @@ export class HoopsMarkupItemElement extends LitElement {
       );
     }
 
+    .status {
+      padding: 0 0.375rem;
+      border: 1px solid currentColor;
+      border-radius: 0.5rem;
+      font-size: 0.75rem;
+      white-space: nowrap;
+      text-transform: capitalize;
+    }
+
+    .status-open {
+      color: var(--hoops-accent-foreground, var(--blue, #0078d4));
+    }
+
+    .status-resolved {
+      color: var(--green, #107c10);
+    }
+
+    .status-closed {
+      color: var(--hoops-foreground, #303030);
+      opacity: 0.6;
+    }
+
     .markup.selected,
     .markup.selected .icon,
     .markup.selected .toolbar {
@@ -95,6 +118,9 @@ export class HoopsMarkupItemElement extends LitElement {
   @property({ type: Boolean })
   selected = false;
 
+  @property({ type: String })
+  status = '';
+
   /** @internal */
   protected override render(): unknown {
     return html`<div
@@ -112,6 +138,9 @@ export class HoopsMarkupItemElement extends LitElement {
         <slot name="icon"></slot>
       </div>
       <div class="label"><slot></slot></div>
+      ${this.status
+        ? html`<span class=${`status status-${this.status}`}>${this.status}</span>`
+        : nothing}
       <div class="toolbar">
         <slot name="toolbar"></slot>
       </div>
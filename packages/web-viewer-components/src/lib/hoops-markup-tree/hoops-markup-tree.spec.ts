@@ -3,6 +3,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { HoopsMarkupTreeElement } from './hoops-markup-tree';
 import { RedlineServiceMock } from '../../mocks/RedlineServiceMock';
+import { registerService, unregisterService, UndoService } from '../services';
 
 import './hoops-markup-tree';
 import { renderTemplate } from '../testing/utils';
@@ -136,4 +137,167 @@ describe('hoops-markup-tree', () => {
     await hoopsMarkupView.updateComplete;
     expect(hoopsMarkupView.shadowRoot!.querySelectorAll('hoops-markup-item').length).toEqual(4);
   });
+
+  it('filters the redline items by kind', async () => {
+    await renderTemplate(
+      html`<hoops-markup-tree .redlineService=${redlineService}></hoops-markup-tree>`,
+    );
+    const elm = document.querySelector('hoops-markup-tree') as HoopsMarkupTreeElement;
+    await elm.updateComplete;
+
+    const filters = elm.shadowRoot!.querySelectorAll<HTMLElement>('.kind-filter');
+    // The note filter is only rendered with a note text service
+    expect(filters.length).toEqual(4);
+    filters[0].click();
+    await elm.updateComplete;
+
+    const views = elm.shadowRoot!.querySelectorAll<HoopsMarkupViewElement>('hoops-markup-view');
+    await views[0].updateComplete;
+    expect(views[0].shadowRoot!.querySelectorAll('hoops-markup-item').length).toEqual(1);
+  });
+
+  it('only renders the active view when requested', async () => {
+    redlineService.fireRedlineViewActivatedEvent('7890-1234-5678-9012');
+    await renderTemplate(
+      html`<hoops-markup-tree .redlineService=${redlineService}></hoops-markup-tree>`,
+    );
+    const elm = document.querySelector('hoops-markup-tree') as HoopsMarkupTreeElement;
+    await elm.updateComplete;
+
+    elm.shadowRoot!.querySelector('hoops-switch')!.dispatchEvent(new Event('change'));
+    await elm.updateComplete;
+
+    const views = elm.shadowRoot!.querySelectorAll('hoops-markup-view');
+    expect(views.length).toEqual(1);
+    expect(views[0].getAttribute('uuid')).toEqual('7890-1234-5678-9012');
+  });
+
+  it('hides and deletes the selected redline items', async () => {
+    await renderTemplate(
+      html`<hoops-markup-tree .redlineService=${redlineService}></hoops-markup-tree>`,
+    );
+    const elm = document.querySelector('hoops-markup-tree') as HoopsMarkupTreeElement;
+    await elm.updateComplete;
+    expect(elm.shadowRoot!.querySelector('.selection')).toBeNull();
+
+    const view = elm.shadowRoot!.querySelector('hoops-markup-view') as HoopsMarkupViewElement;
+    for (const markupId of ['markup1', 'markup2']) {
+      view.dispatchEvent(
+        new CustomEvent('hoops-select-markup', { detail: markupId, bubbles: true, composed: true }),
+      );
+    }
+    await elm.updateComplete;
+    expect(elm.shadowRoot!.querySelector('.selection-count')).toHaveTextContent('2 selected');
+
+    elm.shadowRoot!.querySelector<HTMLElement>('.hide-selection')!.click();
+    expect([...redlineService.hiddenItemIds]).toEqual(['markup1', 'markup2']);
+
+    elm.shadowRoot!.querySelector<HTMLElement>('.delete-selection')!.click();
+    await elm.updateComplete;
+    expect(redlineService.removeRedlineItem).toHaveBeenCalledTimes(2);
+    expect(redlineService.getRedlineView('1234-5678-9012-3456')!.items.length).toEqual(2);
+    expect(elm.shadowRoot!.querySelector('.selection')).toBeNull();
+  });
+
+  it('hides and deletes the selected redlines and notes as single undo operations', async () => {
+    const undoService = new UndoService();
+    registerService(undoService);
+    const recordCommand = (label: string) => {
+      const command = { label, undo: vi.fn(), redo: vi.fn() };
+      undoService.record(command);
+      return command;
+    };
+    const note = { id: 'note1', type: 'Communicator.Markup.Note.NoteText', text: 'Check' };
+    const noteTextService = Object.assign(new EventTarget(), {
+      findNoteTexts: vi.fn(() => [note]),
+      getNoteTextVisibility: vi.fn(() => true),
+      groupNoteTextsByNode: vi.fn(() => [{ nodeId: 4, name: 'Flange', items: [note] }]),
+      setNoteTextsVisibility: vi.fn(() => recordCommand('Hide notes')),
+      removeNoteTexts: vi.fn(async () => {
+        recordCommand('Remove notes');
+      }),
+    });
+    const setRedlineItemsVisibility = vi
+      .spyOn(redlineService, 'setRedlineItemsVisibility')
+      .mockImplementation(() => recordCommand('Hide redlines'));
+    await renderTemplate(
+      html`<hoops-markup-tree
+        .redlineService=${redlineService}
+        .noteTextService=${noteTextService}
+      ></hoops-markup-tree>`,
+    );
+    const elm = document.querySelector('hoops-markup-tree') as HoopsMarkupTreeElement;
+    await elm.updateComplete;
+
+    for (const markupId of ['markup1', 'note1']) {
+      elm
+        .shadowRoot!.querySelector('hoops-markup-view')!
+        .dispatchEvent(
+          new CustomEvent('hoops-select-markup', {
+            detail: markupId,
+            bubbles: true,
+            composed: true,
+          }),
+        );
+    }
+    await elm.updateComplete;
+
+    elm.shadowRoot!.querySelector<HTMLElement>('.hide-selection')!.click();
+    await vi.waitFor(() => expect(undoService.getUndoLabel()).toBe('Hide markups'));
+    expect(setRedlineItemsVisibility).toHaveBeenCalledOnce();
+    expect(noteTextService.setNoteTextsVisibility).toHaveBeenCalledWith(['note1'], false);
+
+    await undoService.undo();
+    expect(undoService.canUndo()).toBe(false);
+    expect(setRedlineItemsVisibility.mock.results[0].value.undo).toHaveBeenCalled();
+    expect(noteTextService.setNoteTextsVisibility.mock.results[0].value.undo).toHaveBeenCalled();
+
+    elm.shadowRoot!.querySelector<HTMLElement>('.delete-selection')!.click();
+    await vi.waitFor(() => expect(undoService.getUndoLabel()).toBe('Remove markups'));
+    expect(noteTextService.removeNoteTexts).toHaveBeenCalledWith([note]);
+
+    setRedlineItemsVisibility.mockRestore();
+    unregisterService('UndoService');
+  });
+
+  it('groups the note texts by node', async () => {
+    const noteTextService = Object.assign(new EventTarget(), {
+      findNoteTexts: vi.fn(() => []),
+      getNoteTextVisibility: vi.fn(() => true),
+      groupNoteTextsByNode: vi.fn(() => [
+        {
+          nodeId: 4,
+          name: 'Flange',
+          items: [
+            {
+              id: 'note1',
+              type: 'Communicator.Markup.Note.NoteText',
+              text: 'Check',
+              status: 'resolved',
+            },
+            { id: 'note2', type: 'Communicator.Markup.Note.NoteText', text: 'Weld' },
+          ],
+        },
+      ]),
+    });
+    await renderTemplate(
+      html`<hoops-markup-tree
+        .redlineService=${redlineService}
+        .noteTextService=${noteTextService}
+      ></hoops-markup-tree>`,
+    );
+    const elm = document.querySelector('hoops-markup-tree') as HoopsMarkupTreeElement;
+    await elm.updateComplete;
+
+    expect(elm.shadowRoot!.querySelectorAll('.kind-filter').length).toEqual(5);
+    const group = elm.shadowRoot!.querySelector('.note-group')!;
+    expect(group).toHaveTextContent('Flange');
+    const items = group.querySelectorAll('hoops-markup-item');
+    expect(items.length).toEqual(2);
+    expect(items[0].getAttribute('status')).toEqual('resolved');
+    expect(noteTextService.groupNoteTextsByNode).toHaveBeenCalledWith({
+      kinds: undefined,
+      text: '',
+    });
+  });
 });
@@ -1,16 +1,49 @@
-import { LitElement, PropertyValues, css, html } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { LitElement, PropertyValues, css, html, nothing } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
 
-import { type IRedlineService } from '../services';
+import '@ts3d-hoops/ui-kit';
+import { Uuid } from '@ts3d-hoops/web-viewer';
+import {
+  type IRedlineService,
+  type IUndoService,
+  type MarkupItemKind,
+  type MarkupItemQuery,
+  MarkupItemKinds,
+  RedlineItemReference,
+  tryGetService,
+} from '../services';
+import { formatNoteTextIcon, type INoteTextService, NoteTextItemData } from '../services/notetext';
 import '../hoops-markup-view';
 import { DeleteRedlineItemEvent } from './custom-events';
 
+const MarkupItemKindLabels: Record<MarkupItemKind, string> = {
+  circle: 'Circles',
+  rectangle: 'Rectangles',
+  polyline: 'Polylines',
+  text: 'Texts',
+  note: 'Notes',
+};
+
+const MarkupItemKindIcons: Record<MarkupItemKind, string> = {
+  circle: 'redlineCircle',
+  rectangle: 'redlineRectangle',
+  polyline: 'redlineFreehand',
+  text: 'redlineNote',
+  note: 'note',
+};
+
 /**
- * Displays a tree of markup views from the redline service.
+ * Displays a tree of markup views from the redline service, and of the note texts from the note
+ * text service grouped by the node they are attached to.
+ *
+ * The items can be filtered by kind and searched by text, and the tree can be restricted to the
+ * active view. Clicking items toggles their selection, the selected items can be hidden, shown or
+ * deleted at once.
  *
  * @element hoops-markup-tree
  *
  * @service {IRedlineService} RedlineService - Service used to list and update markup views
+ * @service {INoteTextService} NoteTextService - Service used to list and update the note texts
  *
  * @example
  * ```html
@@ -27,12 +60,71 @@ export class HoopsMarkupTreeElement extends LitElement {
       :host {
         display: block;
       }
+
+      .filters,
+      .selection {
+        display: flex;
+        align-items: center;
+        gap: 0.2rem;
+        padding: 0.2rem;
+      }
+
+      .search {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .active-view,
+      .selection-count {
+        flex: 1;
+        font-size: 0.8rem;
+        white-space: nowrap;
+      }
+
+      hoops-markup-item {
+        display: block;
+        width: 100%;
+      }
+
+      hoops-markup-item.hidden {
+        opacity: 0.5;
+      }
     `,
   ];
 
   @property({ type: Object, attribute: false })
   public redlineService?: IRedlineService;
 
+  /**
+   * The service of the note texts, they are not listed when it is not set.
+   */
+  @property({ type: Object, attribute: false })
+  public noteTextService?: INoteTextService;
+
+  /**
+   * The kinds of the items listed, all the kinds when empty.
+   */
+  @state()
+  private kinds: MarkupItemKind[] = [];
+
+  /**
+   * The text searched in the items.
+   */
+  @state()
+  private search = '';
+
+  /**
+   * Whether only the active redline view is listed.
+   */
+  @state()
+  private activeViewOnly = false;
+
+  /**
+   * The ids of the selected redline items and note texts.
+   */
+  @state()
+  private selectedItems: Uuid[] = [];
+
   private onUpdate = () => this.requestUpdate();
 
   /**
@@ -40,10 +132,19 @@ export class HoopsMarkupTreeElement extends LitElement {
    */
   protected firstUpdated(_changedProperties: PropertyValues): void {
     super.firstUpdated(_changedProperties);
+    this.redlineService?.addEventListener('hoops-redline-view-created', this.onUpdate);
     this.redlineService?.addEventListener('hoops-redline-created', this.onUpdate);
+    this.redlineService?.addEventListener('hoops-redline-updated', this.onUpdate);
     this.redlineService?.addEventListener('hoops-redline-deleted', this.onUpdate);
     this.redlineService?.addEventListener('hoops-redline-view-deleted', this.onUpdate);
     this.redlineService?.addEventListener('hoops-redline-service-reset', this.onUpdate);
+    this.redlineService?.addEventListener('hoops-markup-view-activated', this.onUpdate);
+    this.noteTextService?.addEventListener('hoops-note-text-created', this.onUpdate);
+    this.noteTextService?.addEventListener('hoops-note-text-deleted', this.onUpdate);
+    this.noteTextService?.addEventListener('hoops-note-text-updated', this.onUpdate);
+    this.noteTextService?.addEventListener('hoops-note-text-hidden', this.onUpdate);
+    this.noteTextService?.addEventListener('hoops-note-text-shown', this.onUpdate);
+    this.noteTextService?.addEventListener('hoops-note-text-manager-reset', this.onUpdate);
   }
 
   /**
@@ -51,24 +152,244 @@ export class HoopsMarkupTreeElement extends LitElement {
    */
   disconnectedCallback(): void {
     super.disconnectedCallback();
+    this.redlineService?.removeEventListener('hoops-redline-view-created', this.onUpdate);
     this.redlineService?.removeEventListener('hoops-redline-created', this.onUpdate);
+    this.redlineService?.removeEventListener('hoops-redline-updated', this.onUpdate);
     this.redlineService?.removeEventListener('hoops-redline-deleted', this.onUpdate);
     this.redlineService?.removeEventListener('hoops-redline-view-deleted', this.onUpdate);
     this.redlineService?.removeEventListener('hoops-redline-service-reset', this.onUpdate);
+    this.redlineService?.removeEventListener('hoops-markup-view-activated', this.onUpdate);
+    this.noteTextService?.removeEventListener('hoops-note-text-created', this.onUpdate);
+    this.noteTextService?.removeEventListener('hoops-note-text-deleted', this.onUpdate);
+    this.noteTextService?.removeEventListener('hoops-note-text-updated', this.onUpdate);
+    this.noteTextService?.removeEventListener('hoops-note-text-hidden', this.onUpdate);
+    this.noteTextService?.removeEventListener('hoops-note-text-shown', this.onUpdate);
+    this.noteTextService?.removeEventListener('hoops-note-text-manager-reset', this.onUpdate);
+  }
+
+  private get query(): MarkupItemQuery {
+    return { kinds: this.kinds.length ? this.kinds : undefined, text: this.search };
+  }
+
+  private toggleKind(kind: MarkupItemKind): void {
+    this.kinds = this.kinds.includes(kind)
+      ? this.kinds.filter((other) => other !== kind)
+      : [...this.kinds, kind];
+  }
+
+  private toggleSelection(id: Uuid): void {
+    this.selectedItems = this.selectedItems.includes(id)
+      ? this.selectedItems.filter((other) => other !== id)
+      : [...this.selectedItems, id];
+  }
+
+  /**
+   * The selected redline items among the listed ones.
+   */
+  private getSelectedRedlines(): RedlineItemReference[] {
+    const views =
+      this.redlineService?.findRedlineViews({
+        ...this.query,
+        activeViewOnly: this.activeViewOnly,
+      }) ?? [];
+    return views.flatMap((view) =>
+      view.items
+        .filter((item) => this.selectedItems.includes(item.id))
+        .map((markupItem) => ({ markupViewId: view.id, markupItem })),
+    );
+  }
+
+  /**
+   * The selected note texts among the listed ones.
+   */
+  private getSelectedNoteTexts(): NoteTextItemData[] {
+    return (
+      this.noteTextService
+        ?.findNoteTexts(this.query)
+        .filter((item) => this.selectedItems.includes(item.id)) ?? []
+    );
+  }
+
+  /**
+   * Runs an action on the selected markups as a single operation of the undo history.
+   */
+  private async runSelectionAction(label: string, action: () => void | Promise<void>) {
+    const undoService = tryGetService<IUndoService>('UndoService');
+    await (undoService ? undoService.transaction(label, action) : action());
+  }
+
+  private async setSelectionVisibility(visible: boolean): Promise<void> {
+    const redlines = this.getSelectedRedlines();
+    const noteTextIds = this.getSelectedNoteTexts().map((item) => item.id);
+    try {
+      await this.runSelectionAction(visible ? 'Show markups' : 'Hide markups', () => {
+        this.redlineService?.setRedlineItemsVisibility(redlines, visible);
+        this.noteTextService?.setNoteTextsVisibility(noteTextIds, visible);
+      });
+    } catch (error) {
+      console.error('Failed to change the visibility of the selected markups:', error);
+    }
+  }
+
+  private async deleteSelection(): Promise<void> {
+    const redlines = this.getSelectedRedlines();
+    const noteTexts = this.getSelectedNoteTexts();
+    this.selectedItems = [];
+    try {
+      await this.runSelectionAction('Remove markups', async () => {
+        await this.redlineService?.removeRedlineItems(redlines);
+        await this.noteTextService?.removeNoteTexts(noteTexts);
+      });
+    } catch (error) {
+      console.error('Failed to delete the selected markups:', error);
+    }
+  }
+
+  private renderFilters(): unknown {
+    const kinds = this.noteTextService
+      ? MarkupItemKinds
+      : MarkupItemKinds.filter((kind) => kind !== 'note');
+
+    return html`<div class="filters">
+        <input
+          class="search"
+          type="search"
+          placeholder="Search"
+          aria-label="Search the markups"
+          .value=${this.search}
+          @input=${(event: InputEvent) => {
+            this.search = (event.target as HTMLInputElement).value;
+          }}
+        />
+        ${kinds.map(
+          (kind) =>
+            html`<hoops-icon-button
+              class="kind-filter"
+              title=${MarkupItemKindLabels[kind]}
+              size="sm"
+              color=${this.kinds.includes(kind) ? 'accent' : 'default'}
+              @click=${() => this.toggleKind(kind)}
+            >
+              <hoops-icon icon=${MarkupItemKindIcons[kind]}></hoops-icon>
+            </hoops-icon-button>`,
+        )}
+      </div>
+      <div class="filters">
+        <span class="active-view">Active View Only</span>
+        <hoops-switch
+          label="Active View Only"
+          ?checked=${this.activeViewOnly}
+          @change=${(event: Event) => {
+            event.stopPropagation();
+            this.activeViewOnly = !this.activeViewOnly;
+          }}
+        ></hoops-switch>
+      </div>`;
+  }
+
+  private renderSelectionActions(): unknown {
+    // The actions apply to the selected items that are listed
+    const count = this.getSelectedRedlines().length + this.getSelectedNoteTexts().length;
+    if (!count) {
+      return nothing;
+    }
+
+    return html`<div class="selection">
+      <span class="selection-count">${count} selected</span>
+      <hoops-icon-button
+        class="show-selection"
+        title="Show Selected Markups"
+        size="sm"
+        @click=${() => this.setSelectionVisibility(true)}
+      >
+        <hoops-icon icon="visibleIcon"></hoops-icon>
+      </hoops-icon-button>
+      <hoops-icon-button
+        class="hide-selection"
+        title="Hide Selected Markups"
+        size="sm"
+        @click=${() => this.setSelectionVisibility(false)}
+      >
+        <hoops-icon icon="hiddenIcon"></hoops-icon>
+      </hoops-icon-button>
+      <hoops-icon-button
+        class="delete-selection"
+        title="Delete Selected Markups"
+        size="sm"
+        @click=${() => this.deleteSelection()}
+      >
+        <hoops-icon icon="removeIcon"></hoops-icon>
+      </hoops-icon-button>
+    </div>`;
+  }
+
+  private renderNoteTexts(): unknown {
+    const groups = this.noteTextService?.groupNoteTextsByNode(this.query) ?? [];
+
+    return groups.map(
+      (group) =>
+        html`<hoops-tree-item class="note-group" expanded>
+          ${group.name}
+          <div slot="children">
+            ${group.items.map(
+              (item) =>
+                html`<hoops-tree-item leaf>
+                  <hoops-markup-item
+                    markupId=${item.id}
+                    class=${this.noteTextService?.getNoteTextVisibility(item.id) === false
+                      ? 'hidden'
+                      : ''}
+                    ?selected=${this.selectedItems.includes(item.id)}
+                    status=${item.status}
+                    @hoops-select-markup=${() => this.toggleSelection(item.id)}
+                  >
+                    <hoops-icon
+                      icon=${formatNoteTextIcon(item.type)}
+                      slot="icon"
+                      style="width: 1rem"
+                    ></hoops-icon>
+                    <span>${item.text || item.id}</span>
+                    <div slot="toolbar">
+                      <hoops-icon-button
+                        @click=${(event: MouseEvent) => {
+                          event.stopPropagation();
+                          this.noteTextService?.removeNoteText(item);
+                        }}
+                      >
+                        <hoops-icon icon="removeIcon"></hoops-icon>
+                      </hoops-icon-button>
+                    </div>
+                  </hoops-markup-item>
+                </hoops-tree-item>`,
+            )}
+          </div>
+        </hoops-tree-item>`,
+    );
   }
 
   /** @internal */
   protected override render(): unknown {
-    return html`${this.redlineService?.getRedlineViewKeys().map(
-      (key) =>
-        html`<hoops-markup-view
-          .redlineService=${this.redlineService as any}
-          uuid=${key}
-          @hoops-delete-redline=${(e: DeleteRedlineItemEvent) => {
-            this.redlineService?.removeRedlineItem(e.detail.markupViewId, e.detail.markupItem);
-          }}
-        ></hoops-markup-view>`,
-    )}`;
+    const views =
+      this.redlineService?.findRedlineViews({
+        ...this.query,
+        activeViewOnly: this.activeViewOnly,
+      }) ?? [];
+
+    return html`${this.renderFilters()}${this.renderSelectionActions()}
+    ${views.map((view) => {
+      const itemIds = view.items.map((item) => item.id);
+      return html`<hoops-markup-view
+        .redlineService=${this.redlineService as any}
+        .itemFilter=${(item: { id: string }) => itemIds.includes(item.id)}
+        .selectedItems=${this.selectedItems}
+        uuid=${view.id}
+        @hoops-select-markup=${(e: CustomEvent<string>) => this.toggleSelection(e.detail)}
+        @hoops-delete-redline=${(e: DeleteRedlineItemEvent) => {
+          this.redlineService?.removeRedlineItem(e.detail.markupViewId, e.detail.markupItem);
+        }}
+      ></hoops-markup-view>`;
+    })}
+    ${this.renderNoteTexts()}`;
   }
 }
 
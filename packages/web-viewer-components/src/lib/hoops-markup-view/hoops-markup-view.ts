@@ -37,6 +37,10 @@ export class HoopsMarkupViewElement extends LitElement {
         display: block;
         width: 100%;
       }
+
+      hoops-markup-item.hidden {
+        opacity: 0.5;
+      }
     `,
   ];
 
@@ -46,6 +50,12 @@ export class HoopsMarkupViewElement extends LitElement {
   @property({ type: Object, attribute: false })
   public itemFilter: (item: { id: string; type: string }) => boolean = () => true;
 
+  /**
+   * The ids of the items rendered as selected.
+   */
+  @property({ type: Array, attribute: false })
+  public selectedItems: Uuid[] = [];
+
   @property({ type: Object, attribute: false })
   public redlineService?: IRedlineService;
 
@@ -71,6 +81,10 @@ export class HoopsMarkupViewElement extends LitElement {
     this.requestUpdate();
   };
 
+  private onRedlineVisibilityChanged = () => {
+    this.requestUpdate();
+  };
+
   /**
    * @internal
    */
@@ -85,6 +99,10 @@ export class HoopsMarkupViewElement extends LitElement {
       'hoops-markup-view-activated',
       this.onMarkupViewActivated,
     );
+    this.redlineService?.addEventListener(
+      'hoops-redline-visibility-changed',
+      this.onRedlineVisibilityChanged,
+    );
   }
 
   /**
@@ -107,6 +125,10 @@ export class HoopsMarkupViewElement extends LitElement {
       'hoops-markup-view-activated',
       this.onMarkupViewActivated,
     );
+    this.redlineService?.removeEventListener(
+      'hoops-redline-visibility-changed',
+      this.onRedlineVisibilityChanged,
+    );
   }
 
   /** @internal */
@@ -132,7 +154,13 @@ export class HoopsMarkupViewElement extends LitElement {
         ${view.items.filter(this.itemFilter).map(
           (item) =>
             html`<hoops-tree-item leaf>
-              <hoops-markup-item markupId=${item.id}>
+              <hoops-markup-item
+                markupId=${item.id}
+                class=${this.redlineService?.getRedlineItemVisibility(view.id, item.id) === false
+                  ? 'hidden'
+                  : ''}
+                ?selected=${this.selectedItems.includes(item.id)}
+              >
                 <hoops-icon
                   icon=${formatRedlineIcon(item.type)}
                   slot="icon"
@@ -41,6 +41,8 @@ export function defaultNodeFactory(
     ?isRoot=${model.getAbsoluteRootNode() === nodeId}
     visibility=${data.visibility}
     ?selected=${selected}
+    ?matched=${modelAdapter.matches.has(nodeId)}
+    ?currentMatch=${modelAdapter.currentMatch === nodeId}
   >
   </hoops-model-tree-node>`;
 }
@@ -81,6 +83,28 @@ export default class ModelAdapter implements TreeContext {
    */
   nodesData: Record<number, unknown> = {};
 
+  /**
+   * The ids of the nodes matching the current search.
+   *
+   * @type {Set<number>}
+   */
+  matches = new Set<number>();
+
+  /**
+   * The id of the match the search navigation is on.
+   *
+   * @type {?number}
+   */
+  currentMatch?: number;
+
+  /**
+   * When set, only these nodes and the descendants of the matches are listed
+   * as children. It holds the matches and their ancestors.
+   *
+   * @type {?Set<number>}
+   */
+  filteredNodes?: Set<number>;
+
   /**
    * The icon drawn when a node is expanded.
    *
@@ -110,7 +134,23 @@ export default class ModelAdapter implements TreeContext {
    * @returns {number[]} An array containing the children's ids.
    */
   getChildren(nodeId: number): number[] {
-    return this.model?.getNodeChildren(nodeId) ?? [];
+    const children = this.model?.getNodeChildren(nodeId) ?? [];
+    // Nodes outside of the filter can only be reached through a match, show all their children
+    if (!this.filteredNodes || this.matches.has(nodeId) || !this.filteredNodes.has(nodeId)) {
+      return children;
+    }
+
+    return children.filter((child) => this.filteredNodes!.has(child));
+  }
+
+  /**
+   * This function will be used by the tree to jump to a node with the keyboard.
+   *
+   * @param {number} nodeId The id of the node.
+   * @returns {string | null} The name of the node.
+   */
+  getLabel(nodeId: number): string | null {
+    return this.model?.getNodeName(nodeId) ?? null;
   }
 
   /**
@@ -15,6 +15,30 @@ export type ModelTreeNodeClickEvent = CustomEvent<
   { nodeId: number; source: HTMLElement } & BaseMouseEvent
 >;
 
+/**
+ * The event emitted by the hoops-model-tree when the matches of the search
+ * change.
+ *
+ * @typedef {ModelTreeSearchChangeEvent}
+ */
+export type ModelTreeSearchChangeEvent = CustomEvent<{ query: string; nodeIds: number[] }>;
+
+/**
+ * The event emitted by the hoops-model-tree when the matches of the search are
+ * selected.
+ *
+ * @typedef {ModelTreeSearchSelectEvent}
+ */
+export type ModelTreeSearchSelectEvent = CustomEvent<{ nodeIds: number[] }>;
+
+/**
+ * The event emitted by the hoops-model-tree when the selection is changed with
+ * the keyboard.
+ *
+ * @typedef {ModelTreeSelectionChangeEvent}
+ */
+export type ModelTreeSelectionChangeEvent = CustomEvent<{ nodeId: number; nodeIds: number[] }>;
+
 declare global {
   /**
    * This will extend the DOM in order to allow users to use our events with
@@ -23,6 +47,9 @@ declare global {
   interface CustomEventMap {
     'hoops-model-tree-node-visibility-change': ModelTreeNodeVisibilityClickEvent;
     'hoops-model-tree-node-click': ModelTreeNodeClickEvent;
+    'hoops-model-tree-search-change': ModelTreeSearchChangeEvent;
+    'hoops-model-tree-search-select': ModelTreeSearchSelectEvent;
+    'hoops-model-tree-selection-change': ModelTreeSelectionChangeEvent;
   }
 }
 
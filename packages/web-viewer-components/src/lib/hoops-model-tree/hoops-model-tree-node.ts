@@ -21,6 +21,11 @@ import type { BranchVisibility } from './types';
  * @attribute {number} nodeType - The type of the node (casted into a NodeType)
  * @attribute {boolean} isRoot - Whether the node is a root node
  * @attribute {boolean} hidden - The visibility state of the node
+ * @attribute {boolean} matched - Whether the node matches the model tree search
+ * @attribute {boolean} currentMatch - Whether the node is the match the search navigation is on
+ *
+ * @cssprop --hoops-search-match-background - Background of the title of a matching node
+ * @cssprop --hoops-search-current-match-background - Background of the title of the current match
  *
  * @example
  * ```html
@@ -88,6 +93,14 @@ export class ModelTreeNode extends LitElement {
         padding-left: calc(0.4rem);
         cursor: pointer;
       }
+
+      .model-tree-node.matched .title {
+        background-color: var(--hoops-search-match-background, #fff3a8);
+      }
+
+      .model-tree-node.current-match .title {
+        background-color: var(--hoops-search-current-match-background, #ffc94d);
+      }
     `,
   ];
 
@@ -144,6 +157,22 @@ export class ModelTreeNode extends LitElement {
   @property({ type: Boolean })
   selected = false;
 
+  /**
+   * Whether the node matches the model tree search.
+   *
+   * @type {boolean}
+   */
+  @property({ type: Boolean })
+  matched = false;
+
+  /**
+   * Whether the node is the match the search navigation is on.
+   *
+   * @type {boolean}
+   */
+  @property({ type: Boolean })
+  currentMatch = false;
+
   /** @internal */
   protected override render(): unknown {
     /**
@@ -158,6 +187,12 @@ export class ModelTreeNode extends LitElement {
     if (this.selected) {
       classNames.push('selected');
     }
+    if (this.matched) {
+      classNames.push('matched');
+    }
+    if (this.currentMatch) {
+      classNames.push('current-match');
+    }
 
     return html`<div class=${classNames.join(' ')}>
       <div class="content">
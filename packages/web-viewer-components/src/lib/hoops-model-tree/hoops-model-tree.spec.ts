@@ -1,10 +1,12 @@
 import { html } from 'lit';
-import { describe, expect, it } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { renderTemplate, tick } from '../testing/utils';
 import './hoops-model-tree';
 import ModelTree from './hoops-model-tree';
 import { BranchVisibility, NodeType } from '@ts3d-hoops/web-viewer';
+import type { ModelTreeNode } from './hoops-model-tree-node';
+import { IModel } from './types';
 
 describe('model-tree @UI.1', () => {
   it('Renders', async () => {
@@ -129,3 +131,114 @@ describe('model-tree @UI.1', () => {
     }
   });
 });
+
+describe('model-tree search', () => {
+  const names: Record<number, string> = {
+    0: 'Root',
+    1: 'Bolt A',
+    2: 'Assembly',
+    3: 'bolt B',
+    4: 'Nut',
+  };
+  const children: Record<number, number[]> = { 0: [1, 2], 2: [3, 4] };
+  const model: IModel = {
+    getAbsoluteRootNode: () => 0,
+    getNodeChildren: (nodeId: number) => children[nodeId] ?? [],
+    getNodeName: (nodeId: number) => names[nodeId],
+    getNodeType: () => NodeType.PartInstance,
+    getBranchVisibility: () => BranchVisibility.Shown,
+    getNodeProperties: (nodeId: number) =>
+      Promise.resolve(nodeId === 4 ? { Material: 'Steel' } : null),
+  };
+
+  let modelTree: ModelTree;
+
+  const getRenderedNodes = () => {
+    const hoopsTree = modelTree.shadowRoot!.querySelector('hoops-tree')!;
+    return Array.from(hoopsTree.shadowRoot!.querySelectorAll('hoops-tree-node')).map(
+      (treeNode) => treeNode.shadowRoot!.querySelector<ModelTreeNode>('hoops-model-tree-node')!,
+    );
+  };
+
+  beforeEach(async () => {
+    await renderTemplate(html`<hoops-model-tree></hoops-model-tree>`);
+    modelTree = document.querySelector('hoops-model-tree')!;
+    await modelTree.updateComplete;
+    modelTree.model = model;
+    await tick();
+  });
+
+  it('finds the matching nodes, highlights them and expands their ancestors', async () => {
+    expect(getRenderedNodes().length).toBe(3);
+
+    const matches = await modelTree.search('bolt');
+    await tick();
+
+    expect(matches).toEqual([1, 3]);
+    expect(modelTree.matchedNodeIds).toEqual([1, 3]);
+
+    const nodes = getRenderedNodes();
+    expect(nodes.map((node) => node.nodeId)).toEqual([0, 1, 2, 3, 4]);
+    expect(nodes.filter((node) => node.matched).map((node) => node.nodeId)).toEqual([1, 3]);
+  });
+
+  it('supports case sensitive, regular expression and property searches', async () => {
+    expect(await modelTree.search('bolt', { caseSensitive: true })).toEqual([3]);
+    expect(await modelTree.search('^(root|nut)$', { regex: true })).toEqual([0, 4]);
+    expect(await modelTree.search('steel')).toEqual([]);
+    expect(await modelTree.search('steel', { searchProperties: true })).toEqual([4]);
+    await expect(modelTree.search('(', { regex: true })).rejects.toThrow(SyntaxError);
+  });
+
+  it('navigates through the matches', async () => {
+    await modelTree.search('bolt');
+
+    expect(await modelTree.nextMatch()).toBe(1);
+    expect(await modelTree.nextMatch()).toBe(3);
+    expect(await modelTree.nextMatch()).toBe(1);
+    expect(await modelTree.previousMatch()).toBe(3);
+    await tick();
+
+    const currentNodes = getRenderedNodes().filter((node) => node.currentMatch);
+    expect(currentNodes.map((node) => node.nodeId)).toEqual([3]);
+  });
+
+  it('filters the tree to the matching branches', async () => {
+    await modelTree.search('nut');
+    modelTree.filter = true;
+    await tick();
+
+    expect(getRenderedNodes().map((node) => node.nodeId)).toEqual([0, 2, 4]);
+
+    modelTree.clearSearch();
+    await tick();
+
+    expect(modelTree.matchedNodeIds).toEqual([]);
+    expect(getRenderedNodes().map((node) => node.nodeId)).toEqual([0, 1, 2]);
+  });
+
+  it('selects the matches and dispatches hoops-model-tree-search-select', async () => {
+    const listener = vi.fn();
+    modelTree.addEventListener('hoops-model-tree-search-select', listener);
+    await modelTree.search('bolt');
+
+    modelTree.selectMatches();
+
+    expect(modelTree.selected).toEqual([1, 3]);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ detail: { nodeIds: [1, 3] } }));
+  });
+
+  it('renders a search box with the search-box attribute', async () => {
+    expect(modelTree.shadowRoot!.querySelector('.search')).toBeNull();
+
+    modelTree.searchBox = true;
+    await modelTree.updateComplete;
+    await modelTree.search('bolt');
+    await modelTree.updateComplete;
+
+    const searchBox = modelTree.shadowRoot!.querySelector('.search')!;
+    expect(searchBox.querySelector('input')).toBeTruthy();
+    expect(searchBox.querySelectorAll('hoops-icon-button').length).toBe(4);
+    expect(searchBox.querySelector('.search-count')!.textContent).toBe('2');
+  });
+});
@@ -1,11 +1,15 @@
-import { LitElement, css, html } from 'lit';
-import { customElement } from 'lit/decorators.js';
+import { LitElement, PropertyValues, css, html, nothing } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
 import { createRef, ref } from 'lit/directives/ref.js';
 import { Tree, ContextWrapper } from '@ts3d-hoops/ui-kit/tree';
+import '@ts3d-hoops/ui-kit/icon-button';
+import '@ts3d-hoops/ui-kit/icons';
 
 import ModelAdapter from './ModelAdapter';
+import { createSearchMatcher, searchModel } from './search';
 import { IModel } from './types';
-import { componentBaseStyle } from '@ts3d-hoops/ui-kit';
+import type { ModelTreeSearchOptions } from './types';
+import { componentBaseStyle, Debouncer } from '@ts3d-hoops/ui-kit';
 
 export type * from './custom-events.d.ts';
 
@@ -13,11 +17,24 @@ export type * from './custom-events.d.ts';
  * Provides a tree view for displaying and navigating the model structure.
  *
  * This component renders a lazy-loaded tree of model nodes using the model adapter.
+ * The tree is virtualized, only the nodes scrolled into view are rendered so that large assemblies
+ * stay responsive. It must therefore have a bounded height.
  * It supports selection, contextual data storage, and emits events when nodes are interacted with.
  *
+ * Nodes can be searched by name, or by properties, with `search`. The matches are highlighted and
+ * their ancestors expanded, `nextMatch` and `previousMatch` scroll from one match to the other and
+ * the `filter` attribute only shows the branches leading to a match. Set the `search-box` attribute
+ * to render a search box driving this API above the tree.
+ *
  * @element hoops-model-tree
  *
+ * @attribute {boolean} search-box - Renders a search box above the tree
+ * @attribute {boolean} filter - Only shows the matches of the search, their ancestors and descendants
+ *
  * @fires hoops-model-tree-node-click - Emitted when a model node is clicked (primary or auxiliary button)
+ * @fires hoops-model-tree-search-change - Emitted when the matches of the search change
+ * @fires hoops-model-tree-search-select - Emitted when the matches are selected with `selectMatches`
+ * @fires hoops-model-tree-selection-change - Emitted when the selection is changed with the keyboard
  *
  * @example
  * ```html
@@ -44,15 +61,112 @@ export class HoopsModelTreeElement extends LitElement {
         height: 100%;
         overflow: auto;
       }
+
+      :host([search-box]) {
+        display: flex;
+        flex-direction: column;
+      }
+
+      :host([search-box]) .modeltree {
+        flex: 1;
+        min-height: 0;
+      }
+
+      .search {
+        display: flex;
+        align-items: center;
+        gap: 0.2rem;
+        padding: 0.2rem;
+      }
+
+      .search input {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .search-count {
+        font-size: 0.8rem;
+        white-space: nowrap;
+      }
     `,
   ];
 
+  /**
+   * Whether a search box is rendered above the tree.
+   *
+   * @default false
+   */
+  @property({ type: Boolean, attribute: 'search-box', reflect: true })
+  searchBox = false;
+
+  /**
+   * Whether only the matches of the search, their ancestors and their descendants are shown.
+   * It has no effect while there is no search.
+   *
+   * @default false
+   */
+  @property({ type: Boolean })
+  filter = false;
+
+  /**
+   * The options used by the search box.
+   */
+  @property({ attribute: false })
+  searchOptions: ModelTreeSearchOptions = {};
+
+  /**
+   * The query of the current search.
+   * @internal
+   */
+  @state()
+  private searchQuery = '';
+
+  /**
+   * The ids of the nodes matching the current search, in tree order.
+   * @internal
+   */
+  @state()
+  private searchMatches: number[] = [];
+
+  /**
+   * The index of the match the search navigation is on, -1 before navigating.
+   * @internal
+   */
+  @state()
+  private currentMatchIndex = -1;
+
+  /**
+   * The parent of each node visited by the current search.
+   * @internal
+   */
+  private searchParents = new Map<number, number>();
+
+  /**
+   * Incremented for each search to ignore the results of the outdated ones.
+   * @internal
+   */
+  private searchId = 0;
+
+  /**
+   * Delays the search while the user types in the search box.
+   * @internal
+   */
+  private searchDebouncer = new Debouncer((query: string) =>
+    this.search(query, this.searchOptions),
+  );
+
   /**
    * Reference to the internal tree component element.
    * @internal
    */
   private treeRef = createRef<Tree>();
 
+  /**
+   * The context the tree is created with, kept so that re-rendering does not replace the adapter.
+   * @internal
+   */
+  private initialTreeContext: ContextWrapper = { context: new ModelAdapter() };
+
   /**
    * Gets the internal tree component instance.
    * Provides access to the underlying tree API when needed.
@@ -106,10 +220,27 @@ export class HoopsModelTreeElement extends LitElement {
     }
 
     modelAdapter.model = model;
+    this.resetSearch();
     this.modelAdapter = modelAdapter;
     this.resetTree();
   }
 
+  /**
+   * Gets the ids of the nodes matching the current search, in tree order.
+   * @returns {number[]} The matching node IDs
+   */
+  get matchedNodeIds(): number[] {
+    return [...this.searchMatches];
+  }
+
+  /**
+   * Gets the id of the match the search navigation is on.
+   * @returns {number | undefined} The current match or undefined before navigating
+   */
+  get currentMatch(): number | undefined {
+    return this.searchMatches[this.currentMatchIndex];
+  }
+
   /**
    * Gets the model adapter that supplies data to the tree.
    * @returns {ModelAdapter | undefined} The current model adapter or undefined
@@ -268,6 +399,371 @@ export class HoopsModelTreeElement extends LitElement {
     this.treeRef.value?.removeNode(nodeId);
   }
 
+  /**
+   * Expands the ancestors of a node and scrolls the tree to it.
+   * The ancestors are only expanded if the model implements `getNodeParent`.
+   *
+   * @param nodeId - The ID of the node to reveal
+   * @param options - How to align the node, see `Element.scrollIntoView`
+   * @returns {Promise<void>} A promise that resolves once the tree is scrolled
+   */
+  public async scrollToNode(nodeId: number, options?: ScrollIntoViewOptions): Promise<void> {
+    const model = this.model;
+    const tree = this.treeElement;
+    if (!model || !tree) {
+      return;
+    }
+
+    if (model.getNodeParent) {
+      const path: number[] = [];
+      let parent = model.getNodeParent(nodeId);
+      while (parent !== null) {
+        path.unshift(parent);
+        parent = model.getNodeParent(parent);
+      }
+
+      tree.expandPath(path);
+    }
+
+    await tree.scrollToNode(nodeId, options);
+  }
+
+  /**
+   * Searches the model for the nodes whose name, or properties, match a query.
+   *
+   * The matches are highlighted and their ancestors are expanded. An empty query clears the search.
+   *
+   * @param query - The text or regular expression to search
+   * @param options - How to interpret the query and which node data to search
+   * @returns {Promise<number[]>} A promise that resolves with the matching node IDs, in tree order
+   * @throws {SyntaxError} When `options.regex` is set and the query is not a valid regular expression
+   */
+  public async search(query: string, options: ModelTreeSearchOptions = {}): Promise<number[]> {
+    const model = this.model;
+    if (!query || !model) {
+      this.clearSearch();
+      return [];
+    }
+
+    const matcher = createSearchMatcher(query, options);
+    const searchId = ++this.searchId;
+    const { matches, parents } = await searchModel(model, matcher, options.searchProperties);
+
+    // A newer search started while this one was waiting for the node properties
+    if (searchId !== this.searchId || model !== this.model) {
+      return matches;
+    }
+
+    this.searchQuery = query;
+    this.searchMatches = matches;
+    this.searchParents = parents;
+    this.currentMatchIndex = -1;
+
+    const modelAdapter = this.modelAdapter!;
+    modelAdapter.matches = new Set(matches);
+    modelAdapter.currentMatch = undefined;
+    this.updateSearchView();
+    this.dispatchSearchChange();
+
+    return matches;
+  }
+
+  /**
+   * Clears the search, its highlights and its filter.
+   * @returns {void}
+   */
+  public clearSearch(): void {
+    const hadSearch = !!this.searchQuery;
+    ++this.searchId;
+    this.resetSearch();
+    this.updateSearchView();
+
+    if (hadSearch) {
+      this.dispatchSearchChange();
+    }
+  }
+
+  /**
+   * Moves to the next match of the search, or to the first one after the last one, and scrolls
+   * the tree to it.
+   *
+   * @returns {Promise<number | undefined>} A promise that resolves with the current match
+   */
+  public nextMatch(): Promise<number | undefined> {
+    return this.goToMatch(this.currentMatchIndex + 1);
+  }
+
+  /**
+   * Moves to the previous match of the search, or to the last one before the first one, and
+   * scrolls the tree to it.
+   *
+   * @returns {Promise<number | undefined>} A promise that resolves with the current match
+   */
+  public previousMatch(): Promise<number | undefined> {
+    return this.goToMatch(this.currentMatchIndex - 1);
+  }
+
+  /**
+   * Selects all the matches of the search in the tree.
+   *
+   * The tree does not know the viewer, listen to `hoops-model-tree-search-select` to apply the
+   * selection to the viewer.
+   *
+   * @returns {number[]} The selected node IDs
+   * @throws {Error} When the tree element is not initialized
+   */
+  public selectMatches(): number[] {
+    if (!this.treeElement) {
+      throw new Error(`ModelTree.selectMatches: Tree element is not set.`);
+    }
+
+    const nodeIds = [...this.searchMatches];
+    this.treeElement.selected = nodeIds;
+    this.dispatchEvent(
+      new CustomEvent('hoops-model-tree-search-select', {
+        bubbles: true,
+        composed: true,
+        detail: { nodeIds },
+      }),
+    );
+
+    return nodeIds;
+  }
+
+  /**
+   * Resets the search state without updating the tree.
+   * @internal
+   * @returns {void}
+   */
+  private resetSearch(): void {
+    this.searchQuery = '';
+    this.searchMatches = [];
+    this.searchParents = new Map();
+    this.currentMatchIndex = -1;
+
+    const modelAdapter = this.modelAdapter;
+    if (modelAdapter) {
+      modelAdapter.matches = new Set();
+      modelAdapter.currentMatch = undefined;
+    }
+  }
+
+  /**
+   * Applies the filter and expands the ancestors of the matches.
+   * @internal
+   * @returns {void}
+   */
+  private updateSearchView(): void {
+    const modelAdapter = this.modelAdapter;
+    const tree = this.treeElement;
+    const model = this.model;
+    if (!modelAdapter || !tree || !model) {
+      return;
+    }
+
+    const ancestors = this.getMatchAncestors();
+    const filteredNodes =
+      this.filter && this.searchQuery
+        ? new Set([model.getAbsoluteRootNode(), ...ancestors, ...this.searchMatches])
+        : undefined;
+
+    // The loaded children depend on the filter, reload the tree when it changes
+    if (filteredNodes || modelAdapter.filteredNodes) {
+      const selected = tree.selected;
+      modelAdapter.filteredNodes = filteredNodes;
+      if (filteredNodes) {
+        tree.resetTree();
+      } else {
+        this.resetTree();
+      }
+      tree.selected = selected;
+    }
+
+    tree.expandPath(ancestors);
+    tree.updateContext();
+  }
+
+  /**
+   * Lists the ancestors of the matches, each one after its own ancestors.
+   * @internal
+   * @returns {number[]} The ancestor node IDs
+   */
+  private getMatchAncestors(): number[] {
+    const ancestors: number[] = [];
+    const visited = new Set<number>();
+    for (const nodeId of this.searchMatches) {
+      for (const ancestor of this.getSearchPath(nodeId)) {
+        if (!visited.has(ancestor)) {
+          visited.add(ancestor);
+          ancestors.push(ancestor);
+        }
+      }
+    }
+
+    return ancestors;
+  }
+
+  /**
+   * Gets the ancestors of a node visited by the search, the root first.
+   * @internal
+   * @param nodeId - The ID of the node
+   * @returns {number[]} The ancestor node IDs
+   */
+  private getSearchPath(nodeId: number): number[] {
+    const path: number[] = [];
+    let parent = this.searchParents.get(nodeId);
+    while (parent !== undefined) {
+      path.unshift(parent);
+      parent = this.searchParents.get(parent);
+    }
+
+    return path;
+  }
+
+  /**
+   * Moves to a match and scrolls the tree to it.
+   * @internal
+   * @param index - The index of the match, wrapped around the matches
+   * @returns {Promise<number | undefined>} A promise that resolves with the current match
+   */
+  private async goToMatch(index: number): Promise<number | undefined> {
+    const modelAdapter = this.modelAdapter;
+    const tree = this.treeElement;
+    const count = this.searchMatches.length;
+    if (!modelAdapter || !tree || count === 0) {
+      return undefined;
+    }
+
+    this.currentMatchIndex = index < 0 ? count - 1 : index % count;
+    const nodeId = this.searchMatches[this.currentMatchIndex];
+    modelAdapter.currentMatch = nodeId;
+
+    // The branch may have been collapsed since the search
+    tree.expandPath(this.getSearchPath(nodeId));
+    tree.updateContext();
+    await tree.scrollToNode(nodeId, { block: 'center' });
+
+    return nodeId;
+  }
+
+  /**
+   * Dispatches the hoops-model-tree-search-change event.
+   * @internal
+   * @returns {void}
+   */
+  private dispatchSearchChange(): void {
+    this.dispatchEvent(
+      new CustomEvent('hoops-model-tree-search-change', {
+        bubbles: true,
+        composed: true,
+        detail: { query: this.searchQuery, nodeIds: [...this.searchMatches] },
+      }),
+    );
+  }
+
+  /**
+   * Searches the text of the search box once the user stops typing.
+   * @internal
+   * @param event - The input event of the search box
+   * @returns {void}
+   */
+  private handleSearchInput(event: InputEvent): void {
+    const query = (event.target as HTMLInputElement).value;
+    this.searchDebouncer.debounce(300, query).catch((error?: Error) => {
+      // The debouncer rejects without error when a newer input cancels the search
+      if (error) {
+        this.clearSearch();
+      }
+    });
+  }
+
+  /**
+   * Navigates the matches with Enter and Shift+Enter and clears the search with Escape.
+   * @internal
+   * @param event - The keyboard event of the search box
+   * @returns {void}
+   */
+  private handleSearchKeyDown(event: KeyboardEvent): void {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      if (event.shiftKey) {
+        this.previousMatch();
+      } else {
+        this.nextMatch();
+      }
+    } else if (event.key === 'Escape') {
+      (event.target as HTMLInputElement).value = '';
+      this.searchDebouncer.clear();
+      this.clearSearch();
+    }
+  }
+
+  /**
+   * Renders the search box.
+   * @internal
+   * @returns The search box template
+   */
+  private renderSearchBox(): unknown {
+    const count = this.searchMatches.length;
+    let countLabel = '';
+    if (this.searchQuery) {
+      countLabel =
+        this.currentMatchIndex < 0 ? `${count}` : `${this.currentMatchIndex + 1}/${count}`;
+    }
+
+    return html`<div class="search">
+      <input
+        type="search"
+        placeholder="Search"
+        aria-label="Search the model tree"
+        @input=${this.handleSearchInput}
+        @keydown=${this.handleSearchKeyDown}
+      />
+      <span class="search-count">${countLabel}</span>
+      <hoops-icon-button
+        title="Previous Match"
+        size="sm"
+        ?disabled=${count === 0}
+        @click=${() => this.previousMatch()}
+      >
+        <hoops-icon icon="arrowUpIcon"></hoops-icon>
+      </hoops-icon-button>
+      <hoops-icon-button
+        title="Next Match"
+        size="sm"
+        ?disabled=${count === 0}
+        @click=${() => this.nextMatch()}
+      >
+        <hoops-icon icon="arrowDownIcon"></hoops-icon>
+      </hoops-icon-button>
+      <hoops-icon-button
+        title="Only Show Matching Branches"
+        size="sm"
+        color=${this.filter ? 'accent' : 'default'}
+        @click=${() => (this.filter = !this.filter)}
+      >
+        <hoops-icon icon="filterIcon"></hoops-icon>
+      </hoops-icon-button>
+      <hoops-icon-button
+        title="Select All Matches"
+        size="sm"
+        ?disabled=${count === 0}
+        @click=${() => this.selectMatches()}
+      >
+        <hoops-icon icon="selectAllIcon"></hoops-icon>
+      </hoops-icon-button>
+    </div>`;
+  }
+
+  /** @internal */
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+
+    if (changedProperties.has('filter') && changedProperties.get('filter') !== undefined) {
+      this.updateSearchView();
+    }
+  }
+
   /**
    * Resets the tree and expands default nodes for user visibility.
    * @internal
@@ -326,20 +822,39 @@ export class HoopsModelTreeElement extends LitElement {
     );
   }
 
+  /**
+   * Handles the selection changes made with the keyboard and re-emits them as model tree events.
+   * @internal
+   * @param event - The tree selection change event
+   * @returns {void}
+   */
+  private handleSelectionChange(event: CustomEventMap['hoops-tree-selection-change']): void {
+    event.stopPropagation();
+    this.dispatchEvent(
+      new CustomEvent('hoops-model-tree-selection-change', {
+        bubbles: true,
+        composed: true,
+        detail: { nodeId: event.detail.key, nodeIds: event.detail.selected },
+      }),
+    );
+  }
+
   /** @internal */
   protected override render(): unknown {
-    return html`<hoops-tree
-      data-html2canvas-ignore
-      class="modeltree"
-      .tree=${{ context: new ModelAdapter() } as ContextWrapper}
-      @hoops-tree-node-click=${(event: CustomEventMap['hoops-tree-node-click']) => {
-        this.handleNodeClick(event);
-      }}
-      @hoops-tree-node-aux-click=${(event: CustomEventMap['hoops-tree-node-aux-click']) => {
-        this.handleNodeClick(event);
-      }}
-      ${ref(this.treeRef)}
-    ></hoops-tree>`;
+    return html`${this.searchBox ? this.renderSearchBox() : nothing}<hoops-tree
+        data-html2canvas-ignore
+        class="modeltree"
+        virtual
+        .tree=${this.initialTreeContext}
+        @hoops-tree-node-click=${(event: CustomEventMap['hoops-tree-node-click']) => {
+          this.handleNodeClick(event);
+        }}
+        @hoops-tree-node-aux-click=${(event: CustomEventMap['hoops-tree-node-aux-click']) => {
+          this.handleNodeClick(event);
+        }}
+        @hoops-tree-selection-change=${this.handleSelectionChange}
+        ${ref(this.treeRef)}
+      ></hoops-tree>`;
   }
 }
 
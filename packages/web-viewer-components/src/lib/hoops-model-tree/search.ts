@@ -0,0 +1,80 @@
+import { IModel, ModelTreeSearchOptions } from './types';
+
+/**
+ * The result of a search in the model.
+ *
+ * @typedef {ModelSearchResult}
+ */
+export type ModelSearchResult = {
+  /** The ids of the matching nodes, in tree order. */
+  matches: number[];
+  /** The parent of each visited node, used to expand the path to the matches. */
+  parents: Map<number, number>;
+};
+
+/**
+ * Create a function testing whether a text matches a search query.
+ *
+ * @param {string} query The text or regular expression to search
+ * @param {ModelTreeSearchOptions} [options] How to interpret the query
+ * @returns {(text: string) => boolean} The matching function
+ * @throws {SyntaxError} When the query is not a valid regular expression
+ */
+export function createSearchMatcher(
+  query: string,
+  options: ModelTreeSearchOptions = {},
+): (text: string) => boolean {
+  if (options.regex) {
+    const regex = new RegExp(query, options.caseSensitive ? '' : 'i');
+    return (text) => regex.test(text);
+  }
+
+  if (options.caseSensitive) {
+    return (text) => text.includes(query);
+  }
+
+  const lowerCaseQuery = query.toLowerCase();
+  return (text) => text.toLowerCase().includes(lowerCaseQuery);
+}
+
+/**
+ * Walk the whole model and list the nodes whose name, or properties if
+ * requested, match.
+ *
+ * @param {IModel} model The model to search
+ * @param {(text: string) => boolean} matcher The function testing the texts
+ * @param {boolean} [searchProperties] Whether the node properties are searched
+ * @returns {Promise<ModelSearchResult>} The matches and the parent of the visited nodes
+ */
+export async function searchModel(
+  model: IModel,
+  matcher: (text: string) => boolean,
+  searchProperties = false,
+): Promise<ModelSearchResult> {
+  const matches: number[] = [];
+  const parents = new Map<number, number>();
+  const pending = [model.getAbsoluteRootNode()];
+
+  while (pending.length > 0) {
+    const nodeId = pending.pop()!;
+
+    let isMatch = matcher(model.getNodeName(nodeId) ?? '');
+    if (!isMatch && searchProperties && model.getNodeProperties) {
+      const properties = (await model.getNodeProperties(nodeId)) ?? {};
+      isMatch = Object.entries(properties).some(([key, value]) => matcher(key) || matcher(value));
+    }
+
+    if (isMatch) {
+      matches.push(nodeId);
+    }
+
+    // Push the children in reverse order so that the matches are in tree order
+    const children = model.getNodeChildren(nodeId);
+    for (let index = children.length - 1; index >= 0; --index) {
+      parents.set(children[index], nodeId);
+      pending.push(children[index]);
+    }
+  }
+
+  return { matches, parents };
+}
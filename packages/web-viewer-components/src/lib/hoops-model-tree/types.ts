@@ -15,8 +15,27 @@ export interface IModel {
   getNodeName: (nodeId: number) => string | null;
   getNodeType: (nodeId: number) => NodeType;
   getBranchVisibility: (nodeId: number) => ComBranchVisibility;
+  getNodeParent?: (nodeId: number) => number | null;
+  getNodeProperties?: (nodeId: number) => Promise<Record<string, string> | null>;
 }
 
+/**
+ * The options of a model tree search.
+ *
+ * @typedef {ModelTreeSearchOptions}
+ */
+export type ModelTreeSearchOptions = {
+  /** Whether the query is a regular expression rather than a plain text. */
+  regex?: boolean;
+  /** Whether the case must match. */
+  caseSensitive?: boolean;
+  /**
+   * Whether the node properties, keys and values, are searched as well as the node name.
+   * The model must implement `getNodeProperties`.
+   */
+  searchProperties?: boolean;
+};
+
 /**
  * The signature of the callback used by ModelAdapter to create node for the
  * `hoops-model-tree`
@@ -4,6 +4,8 @@ import { html } from 'lit';
 import { renderTemplate } from '../testing/utils';
 import {
   IRedlineService,
+  IViewService,
+  MemoryConfigurationStore,
   RedlineService,
   clearServices,
   getService,
@@ -90,6 +92,35 @@ describe('HoopsServiceRegistry', () => {
     expect(service).toBe(customRedlineService);
   });
 
+  it('should restore the persisted configurations when the viewer is ready', async () => {
+    const configuration = { axisTriadVisible: false, navCubeVisible: true };
+    const configurationStore = new MemoryConfigurationStore();
+    await configurationStore.save('test-settings', { ViewService: configuration });
+    const viewService = Object.assign(new EventTarget(), {
+      serviceName: 'ViewService',
+      getConfiguration: vi.fn(() => Promise.resolve(configuration)),
+      resetConfiguration: vi.fn(() => Promise.resolve()),
+    }) as unknown as IViewService;
+
+    await renderTemplate(
+      html`<hoops-service-registry
+        persist-key="test-settings"
+        .configurationStore=${configurationStore}
+        .viewService=${viewService}
+      ></hoops-service-registry>`,
+    );
+    const registry = document.querySelector(
+      'hoops-service-registry[persist-key]',
+    )! as HoopsServiceRegistryElement;
+    await registry.updateComplete;
+    expect(viewService.resetConfiguration).not.toHaveBeenCalled();
+
+    registry.dispatchEvent(new CustomEvent('hwvReady'));
+    await vi.waitFor(() =>
+      expect(viewService.resetConfiguration).toHaveBeenCalledWith(configuration),
+    );
+  });
+
   it.fails('should provide a getService API', async () => {
     /*
      * This test is marked as fails because the getService is considered undefined for a reason that
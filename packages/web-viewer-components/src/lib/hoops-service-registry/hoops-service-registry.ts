@@ -1,4 +1,4 @@
-import { LitElement, html } from 'lit';
+import { LitElement, PropertyValues, html } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import {
   tryGetService,
@@ -27,6 +27,9 @@ import {
   WalkOperatorService,
   ExplodeService,
   SpaceMouseService,
+  ConfigurationPersister,
+  LocalStorageConfigurationStore,
+  type ConfigurationStore,
 } from '../services';
 import NoteTextService, { type INoteTextService } from '../services/notetext';
 import MeasurementService from '../services/measurement/MeasurementService';
@@ -36,6 +39,12 @@ import { type IViewService } from '../services/view/types';
 import ViewService from '../services/view/ViewService';
 import FloorplanService, { type IFloorplanService } from '../services/floorplan';
 import MaterialService, { type IMaterialService } from '../services/material';
+import SnapshotService, { type ISnapshotService } from '../services/snapshot';
+import SessionStateService, { type ISessionStateService } from '../services/session-state';
+import UndoService, { type IUndoService } from '../services/undo';
+import ShortcutService, { type IShortcutService } from '../services/shortcut';
+import BcfService, { type IBcfService } from '../services/bcf';
+import MarkupService, { type IMarkupService } from '../services/markup';
 
 /**
  * HoopsServiceRegistryElement is a LitElement-based web component that provides centralized
@@ -51,12 +60,24 @@ import MaterialService, { type IMaterialService } from '../services/material';
  * - Type-safe service retrieval methods
  * - Zero-configuration setup with sensible defaults
  * - Service locator pattern implementation
+ * - Opt-in persistence of the service configurations
+ *
+ * ## Configuration persistence:
+ * When `persist-key` is set, the configuration of the registered services is restored from
+ * `configurationStore` each time the web viewer is ready, and saved back whenever it changes.
+ * The browser local storage is used by default, assign a custom `ConfigurationStore` to save the
+ * configurations elsewhere. Note that restoring the MeasurementService configuration removes the
+ * existing measurements, as `resetConfiguration` does.
  *
  * @element hoops-service-registry
  *
+ * @attribute {string} persist-key - The key the service configurations are persisted under
+ *
  * @example
  * ```html
- * <hoops-service-registry></hoops-service-registry>
+ * <hoops-service-registry persist-key="my-app-settings">
+ *   <hoops-web-viewer-context-manager>...</hoops-web-viewer-context-manager>
+ * </hoops-service-registry>
  *
  * <script>
  *   const measurementService = document.getElementsByTagName('hoops-service-registry')[0].getService('MeasurementService');
@@ -209,6 +230,85 @@ export class HoopsServiceRegistryElement extends LitElement {
    */
   @property({ type: Object, attribute: false })
   public MaterialService: IMaterialService = new MaterialService();
+
+  /**
+   * Service for capturing images of the viewer.
+   * Handles snapshot size, background, image format and download.
+   * @type {ISnapshotService}
+   * @default new SnapshotService()
+   */
+  @property({ type: Object, attribute: false })
+  public SnapshotService: ISnapshotService = new SnapshotService();
+
+  /**
+   * Service for saving and restoring review sessions.
+   * Aggregates the viewer and service states into a versioned JSON object.
+   * @type {ISessionStateService}
+   * @default new SessionStateService()
+   */
+  @property({ type: Object, attribute: false })
+  public sessionStateService: ISessionStateService = new SessionStateService();
+
+  /**
+   * Service for undoing and redoing the operations done on the viewer.
+   * Keeps the history of the reversible operations of the components and services.
+   * @type {IUndoService}
+   * @default new UndoService()
+   */
+  @property({ type: Object, attribute: false })
+  public undoService: IUndoService = new UndoService();
+
+  /**
+   * Service for binding the viewer actions to keyboard shortcuts.
+   * Owns the rebindable keymap and performs the actions when their chord is pressed.
+   * @type {IShortcutService}
+   * @default new ShortcutService()
+   */
+  @property({ type: Object, attribute: false })
+  public shortcutService: IShortcutService = new ShortcutService();
+
+  /**
+   * Service for exchanging BCF topics with the BIM applications.
+   * Builds the topics from the markups and imports and exports `.bcfzip` archives.
+   * @type {IBcfService}
+   * @default new BcfService()
+   */
+  @property({ type: Object, attribute: false })
+  public bcfService: IBcfService = new BcfService();
+
+  /**
+   * Service for sharing the markups of a model between users.
+   * Exports and imports the redlines, notes and measurements as a versioned JSON document.
+   * @type {IMarkupService}
+   * @default new MarkupService()
+   */
+  @property({ type: Object, attribute: false })
+  public markupService: IMarkupService = new MarkupService();
+
+  /**
+   * The key the service configurations are persisted under.
+   * Persistence is disabled when it is not set.
+   * @type {string | undefined}
+   */
+  @property({ type: String, attribute: 'persist-key' })
+  public persistKey?: string;
+
+  /**
+   * The store the service configurations are persisted in when `persistKey` is set.
+   * @type {ConfigurationStore}
+   * @default new LocalStorageConfigurationStore()
+   */
+  @property({ type: Object, attribute: false })
+  public configurationStore: ConfigurationStore = new LocalStorageConfigurationStore();
+
+  private persister?: ConfigurationPersister;
+  private viewerReady = false;
+
+  constructor() {
+    super();
+    this.handleViewerReady = this.handleViewerReady.bind(this);
+  }
+
   /**
    * Lifecycle callback invoked when the element is connected to the DOM.
    * Automatically registers all configured services in the global service registry,
@@ -239,6 +339,46 @@ export class HoopsServiceRegistryElement extends LitElement {
     registerService(this.explodeService);
     registerService(this.spaceMouseService);
     registerService(this.MaterialService);
+    registerService(this.SnapshotService);
+    registerService(this.sessionStateService);
+    registerService(this.undoService);
+    registerService(this.shortcutService);
+    registerService(this.bcfService);
+    registerService(this.markupService);
+
+    this.addEventListener('hwvReady', this.handleViewerReady);
+    if (this.hasUpdated) {
+      this.setupPersistence();
+    }
+  }
+
+  /**
+   * Lifecycle callback invoked when the element is disconnected from the DOM.
+   * Stops the configuration persistence, saving the pending changes.
+   *
+   * @override
+   * @returns {void}
+   */
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+
+    this.removeEventListener('hwvReady', this.handleViewerReady);
+    this.persister?.stop();
+    this.persister = undefined;
+  }
+
+  /**
+   * Sets up the configuration persistence when `persistKey` or `configurationStore` change.
+   *
+   * @internal
+   * @override
+   */
+  protected override updated(changedProperties: PropertyValues<this>): void {
+    super.updated(changedProperties);
+
+    if (changedProperties.has('persistKey') || changedProperties.has('configurationStore')) {
+      this.setupPersistence();
+    }
   }
 
   /**
@@ -280,6 +420,49 @@ export class HoopsServiceRegistryElement extends LitElement {
     return tryGetService<T>(serviceName);
   }
 
+  /**
+   * Replaces the persister with one matching the current `persistKey` and `configurationStore`.
+   * The stored configurations are restored right away if the web viewer is already ready.
+   */
+  private setupPersistence(): void {
+    this.persister?.stop();
+    this.persister = this.persistKey
+      ? new ConfigurationPersister(this.configurationStore, this.persistKey)
+      : undefined;
+
+    if (this.viewerReady) {
+      this.restoreConfigurations();
+    }
+  }
+
+  /**
+   * Restores the stored configurations once the web viewer is ready, then starts saving the
+   * configuration changes. This is done again when the web viewer is recreated.
+   */
+  private handleViewerReady(): void {
+    this.viewerReady = true;
+    this.restoreConfigurations();
+  }
+
+  private async restoreConfigurations(): Promise<void> {
+    const persister = this.persister;
+    if (!persister) {
+      return;
+    }
+
+    await persister.stop();
+    try {
+      await persister.restore();
+    } catch (error) {
+      console.warn('Failed to restore the service configurations:', error);
+    }
+
+    // The persister may have been replaced while restoring
+    if (persister === this.persister) {
+      persister.start();
+    }
+  }
+
   /**
    * Returns the element itself as the render root instead of creating a shadow DOM.
    * This ensures the component doesn't interfere with the application's styling and DOM structure.
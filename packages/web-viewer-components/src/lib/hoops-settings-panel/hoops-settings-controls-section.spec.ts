@@ -6,7 +6,13 @@ import { HoopsSettingsControlsSectionElement } from './hoops-settings-controls-s
 import { renderTemplate } from '../testing/utils';
 
 import './hoops-settings-controls-section';
-import { getService, ISpaceMouseService, registerService } from '../services';
+import {
+  getService,
+  IShortcutService,
+  ISpaceMouseService,
+  registerService,
+  ShortcutService,
+} from '../services';
 import { WalkOperatorServiceMock } from '../../mocks/WalkOperatorServiceMock';
 import { IWalkOperatorService } from '../services/walk-operator/types';
 
@@ -20,6 +26,7 @@ describe('HoopsSettingsControlsSectionElement', () => {
       removeEventListener: vi.fn(),
       connect: vi.fn(),
     } as ISpaceMouseService);
+    registerService(new ShortcutService());
   });
 
   beforeEach(() => {
@@ -153,4 +160,32 @@ describe('HoopsSettingsControlsSectionElement', () => {
     expect(mouseLook?.classList.contains('disabled')).toBe(false);
     expect(speedDiv?.classList.contains('disabled')).toBe(false);
   });
+
+  it('should render the keyboard shortcuts and rebind them', async () => {
+    const shortcutService = getService<IShortcutService>('ShortcutService');
+    await renderTemplate(html`<hoops-settings-controls-section></hoops-settings-controls-section>`);
+    const elm = document.querySelector(
+      'hoops-settings-controls-section',
+    ) as HoopsSettingsControlsSectionElement;
+    await elm.updateComplete;
+
+    const inputs = elm.shadowRoot!.querySelectorAll<HTMLInputElement>('.shortcut-input');
+    expect(inputs).toHaveLength(shortcutService.getBindings().length);
+
+    const homeInput = elm.shadowRoot!.querySelector<HTMLInputElement>('[data-action="home"]')!;
+    expect(homeInput.value).toBe('H');
+
+    homeInput.dispatchEvent(
+      new KeyboardEvent('keydown', { key: 'k', code: 'KeyK', ctrlKey: true, bubbles: true }),
+    );
+    await elm.updateComplete;
+    expect(shortcutService.getBinding('home')?.chord).toBe('Ctrl+K');
+    expect(homeInput.value).toBe('Ctrl+K');
+
+    homeInput.dispatchEvent(new KeyboardEvent('keydown', { key: 'Backspace', bubbles: true }));
+    expect(shortcutService.getBinding('home')?.chord).toBe('');
+
+    await shortcutService.resetConfiguration();
+    expect(shortcutService.getBinding('home')?.chord).toBe('H');
+  });
 });
@@ -5,7 +5,7 @@ import './hoops-settings-controls-section';
 
 const meta: Meta = {
   component: 'hoops-settings-controls-section',
-  tags: ['WalkOperatorService'],
+  tags: ['WalkOperatorService', 'ShortcutService'],
 };
 
 export default meta;
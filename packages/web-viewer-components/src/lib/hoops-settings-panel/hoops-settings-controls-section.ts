@@ -4,18 +4,29 @@ import { classMap } from 'lit/directives/class-map.js';
 import { ifDefined } from 'lit-html/directives/if-defined.js';
 
 import '@ts3d-hoops/ui-kit';
-import { calculateWalkSpeedUnitFactor, getService, getWalkSpeedUnitName } from '../services';
+import {
+  calculateWalkSpeedUnitFactor,
+  getEventChord,
+  getService,
+  getWalkSpeedUnitName,
+  IShortcutService,
+  ShortcutBinding,
+} from '../services';
 import { IWalkOperatorService, WalkModeName } from '../services/walk-operator/types';
 import { panelStyles } from './panel-styles';
 import { ISpaceMouseService } from '../services';
 
 /**
- * Renders the controls section for walk and space mouse settings.
+ * Renders the controls section for walk, space mouse and keyboard shortcut settings.
+ *
+ * The keyboard shortcuts can be rebound by focusing their field and pressing the new key chord,
+ * Backspace or Delete unbinds them.
  *
  * @element hoops-settings-controls-section
  *
  * @service {IWalkOperatorService} WalkOperatorService - Service used to configure walk controls
  * @service {ISpaceMouseService} SpaceMouseService - Service used to connect and manage space mouse
+ * @service {IShortcutService} ShortcutService - Service owning the keyboard shortcuts
  *
  * @example
  * ```html
@@ -36,11 +47,17 @@ export class HoopsSettingsControlsSectionElement extends LitElement {
       h3 {
         margin-top: 0;
       }
+
+      .shortcut-input {
+        width: 8rem;
+        cursor: pointer;
+      }
     `,
   ];
 
   private walkOperatorService!: IWalkOperatorService;
   private spaceMouseService!: ISpaceMouseService;
+  private shortcutService!: IShortcutService;
 
   private updateCallback = () => this.requestUpdate();
 
@@ -73,6 +90,9 @@ export class HoopsSettingsControlsSectionElement extends LitElement {
     this.updateUnitFactor();
 
     this.spaceMouseService = getService<ISpaceMouseService>('SpaceMouseService');
+
+    this.shortcutService = getService<IShortcutService>('ShortcutService');
+    this.shortcutService.addEventListener('hoops-shortcut-bindings-changed', this.updateCallback);
   }
 
   /**
@@ -96,6 +116,35 @@ export class HoopsSettingsControlsSectionElement extends LitElement {
         this.walkOperatorService.removeEventListener(event, this.updateCallback);
       });
     }
+    this.shortcutService?.removeEventListener(
+      'hoops-shortcut-bindings-changed',
+      this.updateCallback,
+    );
+  }
+
+  /**
+   * Rebinds a shortcut to the chord pressed in its field.
+   *
+   * @internal
+   * @param event - The keyboard event of the field
+   * @param binding - The binding to change
+   * @returns {void}
+   */
+  private handleShortcutKeyDown(event: KeyboardEvent, binding: ShortcutBinding): void {
+    if (event.key === 'Tab') {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+    const hasModifier = event.ctrlKey || event.altKey || event.shiftKey || event.metaKey;
+    const chord =
+      (event.key === 'Backspace' || event.key === 'Delete') && !hasModifier
+        ? ''
+        : getEventChord(event);
+    if (chord || binding.chord) {
+      this.shortcutService.setBinding({ ...binding, chord });
+    }
   }
 
   /** @internal */
@@ -285,6 +334,38 @@ export class HoopsSettingsControlsSectionElement extends LitElement {
           </hoops-button>
         </div>
       </fieldset>
+      <fieldset>
+        <legend>Keyboard Shortcuts</legend>
+        <div class="settings-group">
+          ${this.shortcutService.getBindings().map(
+            (binding) =>
+              html`<div class="setting-row">
+                <div class="setting-label" title=${binding.label ?? binding.action}>
+                  ${binding.label ?? binding.action}:
+                </div>
+                <input
+                  type="text"
+                  class="shortcut-input"
+                  readonly
+                  data-action=${binding.action}
+                  placeholder="None"
+                  title="Press a key chord to bind, Backspace to unbind"
+                  .value=${binding.chord}
+                  @keydown=${(e: KeyboardEvent) => this.handleShortcutKeyDown(e, binding)}
+                />
+              </div>`,
+          )}
+          <div class="setting-row" style="height: 2rem;">
+            <div class="setting-label">Restore default shortcuts:</div>
+            <hoops-button
+              title="Restore default shortcuts"
+              @click=${() => this.shortcutService.resetConfiguration()}
+            >
+              Reset
+            </hoops-button>
+          </div>
+        </div>
+      </fieldset>
     </div>`;
   }
 }
@@ -0,0 +1,9 @@
+export type SnapshotTakenEvent = CustomEvent<{ blob: Blob }>;
+
+declare global {
+  interface CustomEventMap {
+    'hoops-snapshot-taken': SnapshotTakenEvent;
+  }
+}
+
+export {};
@@ -37,6 +37,9 @@ describe('hoops-toolbar-camera', () => {
           addEventListener: vi.fn(),
           removeEventListener: vi.fn(),
           getProjectionMode: vi.fn(() => 'Perspective'),
+          registerAction: vi.fn(),
+          connect: vi.fn(),
+          disconnect: vi.fn(),
         })),
       } as any;
     });
@@ -81,6 +84,7 @@ describe('hoops-toolbar-drawmode', () => {
       },
       setCallbacks: (_) => undefined,
       getSceneReady: () => true,
+      getViewElement: () => document.body,
     } as WebViewer;
 
     const drawModeButton = document.querySelector('hoops-toolbar-drawmode') as HTMLElement;
@@ -121,6 +125,7 @@ describe('hoops-toolbar-camera-operator', () => {
       setCallbacks: (_) => undefined,
       unsetCallbacks: (_) => undefined,
       getSceneReady: () => true,
+      getViewElement: () => document.body,
     } as WebViewer;
 
     const cameraOperatorButton = document.querySelector(
@@ -16,6 +16,7 @@ import './hoops-toolbar-snapshot';
 import './hoops-toolbar-redlines';
 import './hoops-toolbar-cad-configuration';
 import './hoops-toolbar-settings';
+import './hoops-toolbar-undo';
 
 const meta: Meta = {
   component: 'toolbar-buttons',
@@ -24,6 +25,17 @@ const meta: Meta = {
 export default meta;
 type Story = StoryObj;
 
+function mockUndoService() {
+  registerService({
+    serviceName: 'UndoService',
+    addEventListener: () => undefined,
+    canUndo: () => true,
+    canRedo: () => false,
+    getUndoLabel: () => 'Hide',
+    getRedoLabel: () => undefined,
+  } as unknown as IService);
+}
+
 function mockCameraService() {
   registerService({
     serviceName: 'CameraService',
@@ -37,6 +49,7 @@ export const Base: Story = {
   args: {},
   render: () => {
     mockCameraService();
+    mockUndoService();
     return html`<div style="display: flex; flex-direction: column;">
       <hoops-toolbar-model-tree></hoops-toolbar-model-tree>
       <hoops-toolbar-model-tree color="accent"></hoops-toolbar-model-tree>
@@ -52,6 +65,7 @@ export const Base: Story = {
       <hoops-toolbar-drawmode></hoops-toolbar-drawmode>
       <hoops-toolbar-camera-operator></hoops-toolbar-camera-operator>
       <hoops-toolbar-redlines></hoops-toolbar-redlines>
+      <hoops-toolbar-undo></hoops-toolbar-undo>
     </div>`;
   },
 };
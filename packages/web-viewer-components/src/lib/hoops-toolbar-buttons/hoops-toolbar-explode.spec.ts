@@ -40,6 +40,11 @@ function mockExplodeService() {
     setMagnitude: vi.fn(() => Promise.resolve()),
     stop: vi.fn(() => Promise.resolve()),
     getMagnitude: vi.fn(() => 0),
+    getMode: vi.fn(() => 'radial'),
+    getLevelCount: vi.fn(() => 0),
+    playSequence: vi.fn(() => Promise.resolve()),
+    stopSequence: vi.fn(),
+    isSequencePlaying: vi.fn(() => false),
   };
 }
 
@@ -114,4 +119,59 @@ describe('hoops-toolbar-explode', () => {
 
     expect(explodeService.start).toHaveBeenCalledWith(undefined, modelCenter);
   });
+
+  it('restarts the active explosion in the selected mode', async () => {
+    const modelCenter = new Point3(4, 2, 0);
+    toolbarExplodeButton.webViewer = setupMockWebViewer({ modelCenter });
+    explodeService.getActive.mockReturnValue(true);
+    explodeService.getMagnitude.mockReturnValue(0.5);
+
+    const select = toolbarExplodeButton.shadowRoot!.querySelector(
+      '.explode-mode',
+    ) as HTMLSelectElement;
+    select.value = '3';
+    select.dispatchEvent(new Event('change'));
+
+    await vi.waitFor(() => expect(explodeService.setMagnitude).toHaveBeenCalledWith(0.5));
+    expect(explodeService.stop).toHaveBeenCalled();
+    expect(explodeService.start).toHaveBeenCalledWith(undefined, modelCenter, {
+      mode: 'axial',
+      axis: 'z',
+    });
+    explodeService.getActive.mockReturnValue(false);
+  });
+
+  it('plays a hierarchical explosion level by level', async () => {
+    toolbarExplodeButton.webViewer = setupMockWebViewer();
+    explodeService.getMode.mockReturnValue('hierarchical');
+    explodeService.getLevelCount.mockReturnValue(2);
+
+    const select = toolbarExplodeButton.shadowRoot!.querySelector(
+      '.explode-mode',
+    ) as HTMLSelectElement;
+    select.value = '4';
+    select.dispatchEvent(new Event('change'));
+    await toolbarExplodeButton.updateComplete;
+
+    const button = toolbarExplodeButton.shadowRoot!.querySelector(
+      '.explode-sequence',
+    ) as HTMLElement;
+    expect(button.getAttribute('title')).toBe('Play Explosion Sequence');
+    button.click();
+
+    await vi.waitFor(() =>
+      expect(explodeService.playSequence).toHaveBeenCalledWith(
+        [
+          { level: 0, from: 0, to: 1 },
+          { level: 1, from: 0, to: 1 },
+        ],
+        4000,
+      ),
+    );
+    expect(explodeService.start).toHaveBeenCalledWith(undefined, expect.anything(), {
+      mode: 'hierarchical',
+    });
+    explodeService.getMode.mockReturnValue('radial');
+    explodeService.getLevelCount.mockReturnValue(0);
+  });
 });
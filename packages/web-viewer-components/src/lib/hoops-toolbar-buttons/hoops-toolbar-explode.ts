@@ -1,12 +1,30 @@
 import { LitElement, html } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { customElement, property, state } from 'lit/decorators.js';
 
 import { icons } from '@ts3d-hoops/ui-kit';
 import { WebViewer } from '@ts3d-hoops/web-viewer';
-import { getService, IExplodeService } from '../services';
+import { ExplodeOptions, ExplodeStage, getService, IExplodeService } from '../services';
 
 /**
- * Provides a toolbar button with a slider to control model explode magnitude.
+ * The explosion modes of the dropdown, the radial one is computed by the explode manager.
+ */
+const explodeModeOptions: { label: string; options?: ExplodeOptions }[] = [
+  { label: 'Radial' },
+  { label: 'Axial X', options: { mode: 'axial', axis: 'x' } },
+  { label: 'Axial Y', options: { mode: 'axial', axis: 'y' } },
+  { label: 'Axial Z', options: { mode: 'axial', axis: 'z' } },
+  { label: 'Hierarchical', options: { mode: 'hierarchical' } },
+];
+
+/**
+ * The duration of each stage of the explosion sequences, in milliseconds.
+ */
+const sequenceStageDuration = 2000;
+
+/**
+ * Provides a toolbar button with a slider to control model explode magnitude, the mode of the
+ * explosion and a button playing the explosion as a sequence, level by level for the
+ * hierarchical mode.
  * Need to connect to a web viewer instance through the `webViewer` property to query model bounds before starting explode.
  *
  * @element hoops-toolbar-explode
@@ -43,6 +61,12 @@ export class HoopsExplodeButtonElement extends LitElement {
   @property({ type: Object })
   webViewer: WebViewer | null = null;
 
+  /**
+   * The index of the selected mode in the explosion modes of the dropdown.
+   */
+  @state()
+  private modeIndex = 0;
+
   private explodeService!: IExplodeService;
 
   private handleServiceUpdate = (): void => this.requestUpdate();
@@ -56,6 +80,11 @@ export class HoopsExplodeButtonElement extends LitElement {
       'hoops-explode-magnitude-changed',
       this.handleServiceUpdate,
     );
+    this.explodeService.addEventListener(
+      'hoops-explode-sequence-progress',
+      this.handleServiceUpdate,
+    );
+    this.explodeService.addEventListener('hoops-explode-sequence-end', this.handleServiceUpdate);
   }
 
   /** @internal */
@@ -69,6 +98,31 @@ export class HoopsExplodeButtonElement extends LitElement {
         'hoops-explode-magnitude-changed',
         this.handleServiceUpdate,
       );
+      this.explodeService.removeEventListener(
+        'hoops-explode-sequence-progress',
+        this.handleServiceUpdate,
+      );
+      this.explodeService.removeEventListener(
+        'hoops-explode-sequence-end',
+        this.handleServiceUpdate,
+      );
+    }
+  }
+
+  /**
+   * Starts an explosion of the model around its center, in the selected mode.
+   */
+  private async startExplosion(webViewer: WebViewer): Promise<void> {
+    const modelBounding = await webViewer.model.getModelBounding(true, true);
+
+    const explodeCenter = modelBounding.center();
+    const explodeNodes = undefined;
+    const options = explodeModeOptions[this.modeIndex].options;
+
+    if (options) {
+      await this.explodeService.start(explodeNodes, explodeCenter, options);
+    } else {
+      await this.explodeService.start(explodeNodes, explodeCenter);
     }
   }
 
@@ -78,12 +132,7 @@ export class HoopsExplodeButtonElement extends LitElement {
     }
 
     if (!this.explodeService.getActive()) {
-      const modelBounding = await this.webViewer.model.getModelBounding(true, true);
-
-      const explodeCenter = modelBounding.center();
-      const explodeNodes = undefined;
-
-      await this.explodeService.start(explodeNodes, explodeCenter);
+      await this.startExplosion(this.webViewer);
     }
 
     const inputValue = (e.target as HTMLInputElement).value;
@@ -91,8 +140,57 @@ export class HoopsExplodeButtonElement extends LitElement {
     this.explodeService.setMagnitude(magnitude);
   }
 
+  /**
+   * Restarts the active explosion in the selected mode, keeping its magnitude.
+   */
+  private async handleModeChange(e: Event): Promise<void> {
+    this.modeIndex = Number((e.target as HTMLSelectElement).value);
+    if (!this.webViewer || !this.explodeService.getActive()) {
+      return;
+    }
+
+    const magnitude = this.explodeService.getMagnitude();
+    await this.explodeService.stop();
+    await this.startExplosion(this.webViewer);
+    await this.explodeService.setMagnitude(magnitude);
+  }
+
+  /**
+   * Plays the explosion in the selected mode from 0 to 1, level by level for the hierarchical
+   * mode, or stops the sequence playing.
+   */
+  private async handleSequenceClick(): Promise<void> {
+    if (this.explodeService.isSequencePlaying()) {
+      this.explodeService.stopSequence();
+      return;
+    }
+
+    if (!this.webViewer) {
+      return;
+    }
+
+    // The sequences need an explosion computed by the service, started from 0
+    await this.explodeService.stop();
+    await this.explodeService.start(
+      undefined,
+      (await this.webViewer.model.getModelBounding(true, true)).center(),
+      explodeModeOptions[this.modeIndex].options ?? {},
+    );
+
+    const stages: ExplodeStage[] =
+      this.explodeService.getMode() === 'hierarchical'
+        ? [...Array(this.explodeService.getLevelCount()).keys()].map((level) => ({
+            level,
+            from: 0,
+            to: 1,
+          }))
+        : [{ from: 0, to: 1 }];
+    await this.explodeService.playSequence(stages, stages.length * sequenceStageDuration);
+  }
+
   /** @internal */
   protected override render(): unknown {
+    const playing = this.explodeService.isSequencePlaying();
     return html` <hoops-dropdown position=${this.dropDownPosition} preventCloseOnClickInside>
       <hoops-icon-button size="sm" title="Explode">${icons.explode}</hoops-icon-button>
       <div class="dropdown-content" slot="dropdown-popup">
@@ -101,9 +199,28 @@ export class HoopsExplodeButtonElement extends LitElement {
           min="0"
           max="1"
           step="0.01"
-          value="${this.explodeService.getMagnitude()}"
+          .value=${String(this.explodeService.getMagnitude())}
           @input=${this.handleExplodeChange}
         />
+        <select
+          class="explode-mode"
+          aria-label="Explode mode"
+          .value=${String(this.modeIndex)}
+          @change=${this.handleModeChange}
+        >
+          ${explodeModeOptions.map(
+            ({ label }, index) =>
+              html`<option value=${index} ?selected=${index === this.modeIndex}>${label}</option>`,
+          )}
+        </select>
+        <hoops-icon-button
+          class="explode-sequence"
+          size="sm"
+          title=${playing ? 'Stop Explosion Sequence' : 'Play Explosion Sequence'}
+          @click=${this.handleSequenceClick}
+        >
+          <hoops-icon icon=${playing ? 'stopIcon' : 'playIcon'}></hoops-icon>
+        </hoops-icon-button>
       </div>
     </hoops-dropdown>`;
   }
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { html } from 'lit';
+import { waitFor } from '@testing-library/dom';
+
+import { registerService, unregisterService } from '../services';
+import { renderTemplate } from '../testing/utils';
+import './hoops-toolbar-snapshot';
+import HoopsSnapshotButtonElement from './hoops-toolbar-snapshot';
+
+function mockSnapshotService(blob: Blob) {
+  return {
+    serviceName: 'SnapshotService',
+    addEventListener: vi.fn(),
+    removeEventListener: vi.fn(),
+    dispatchEvent: vi.fn(),
+    takeSnapshot: vi.fn(() => Promise.resolve(blob)),
+    downloadSnapshot: vi.fn(() => Promise.resolve(blob)),
+  };
+}
+
+describe('hoops-toolbar-snapshot', () => {
+  const blob = new Blob(['snapshot'], { type: 'image/png' });
+  const snapshotService = mockSnapshotService(blob);
+
+  const clickSnapshotButton = async (template: ReturnType<typeof html>) => {
+    await renderTemplate(template);
+    const snapshotButton: HoopsSnapshotButtonElement =
+      document.querySelector('hoops-toolbar-snapshot')!;
+    const listener = vi.fn();
+    snapshotButton.addEventListener('hoops-snapshot-taken', listener);
+
+    snapshotButton.shadowRoot!.querySelector<HTMLElement>('hoops-icon-button')!.click();
+    await waitFor(() => expect(listener).toHaveBeenCalledOnce());
+
+    return listener;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    registerService(snapshotService);
+  });
+
+  afterEach(() => {
+    unregisterService('SnapshotService');
+  });
+
+  it('Downloads the snapshot and emits hoops-snapshot-taken on click', async () => {
+    const listener = await clickSnapshotButton(
+      html`<hoops-toolbar-snapshot></hoops-toolbar-snapshot>`,
+    );
+
+    expect(snapshotService.downloadSnapshot).toHaveBeenCalledOnce();
+    expect(listener.mock.calls[0][0].detail.blob).toBe(blob);
+  });
+
+  it('Only captures the snapshot when no-download is set', async () => {
+    await clickSnapshotButton(html`<hoops-toolbar-snapshot no-download></hoops-toolbar-snapshot>`);
+
+    expect(snapshotService.takeSnapshot).toHaveBeenCalledOnce();
+    expect(snapshotService.downloadSnapshot).not.toHaveBeenCalled();
+  });
+});
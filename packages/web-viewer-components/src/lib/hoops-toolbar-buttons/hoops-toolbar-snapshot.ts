@@ -1,25 +1,87 @@
 import { LitElement, html } from 'lit';
-import { customElement } from 'lit/decorators.js';
+import { customElement, property, state } from 'lit/decorators.js';
 
 import { icons } from '@ts3d-hoops/ui-kit';
+import { getService, ISnapshotService } from '../services';
+import type { SnapshotOptions } from '../services';
 
 /**
  * Displays the toolbar button used to capture a viewer snapshot.
+ * By default the snapshot is downloaded, set `no-download` to only receive the image through the
+ * `hoops-snapshot-taken` event (e.g. to upload it).
  *
  * @element hoops-toolbar-snapshot
  *
+ * @attribute {boolean} no-download - Disables the download of the captured image
+ *
+ * @service {ISnapshotService} SnapshotService - Service used to capture and download the snapshot
+ *
+ * @fires hoops-snapshot-taken - Emitted when a snapshot has been captured, includes the image Blob
+ *
  * @example
  * ```html
- * <hoops-toolbar-snapshot></hoops-toolbar-snapshot>
+ * <hoops-toolbar-snapshot no-download></hoops-toolbar-snapshot>
+ *
+ * <script>
+ *   const snapshotButton = document.getElementsByTagName('hoops-toolbar-snapshot')[0];
+ *   snapshotButton.snapshotOptions = { width: 1920, height: 1080, format: 'jpeg' };
+ *   snapshotButton.addEventListener('hoops-snapshot-taken', (event) => upload(event.detail.blob));
+ * </script>
  * ```
  *
  * @since 2025.7.0
  */
 @customElement('hoops-toolbar-snapshot')
 export class HoopsSnapshotButtonElement extends LitElement {
+  /**
+   * Disables the download of the captured image.
+   * The `hoops-snapshot-taken` event is emitted in both cases.
+   */
+  @property({ type: Boolean, attribute: 'no-download' })
+  noDownload = false;
+
+  /**
+   * Overrides of the SnapshotService configuration applied to the snapshots taken by this button.
+   */
+  @property({ type: Object, attribute: false })
+  snapshotOptions?: SnapshotOptions;
+
+  @state()
+  private capturing = false;
+
+  private async action(): Promise<void> {
+    if (this.capturing) {
+      return;
+    }
+
+    this.capturing = true;
+    try {
+      const snapshotService = getService<ISnapshotService>('SnapshotService');
+      const blob = this.noDownload
+        ? await snapshotService.takeSnapshot(this.snapshotOptions)
+        : await snapshotService.downloadSnapshot(this.snapshotOptions);
+
+      this.dispatchEvent(
+        new CustomEvent('hoops-snapshot-taken', {
+          bubbles: true,
+          composed: true,
+          detail: { blob },
+        }),
+      );
+    } catch (error) {
+      console.error('Failed to take snapshot:', error);
+    } finally {
+      this.capturing = false;
+    }
+  }
+
   /** @internal */
   protected override render(): unknown {
-    return html`<hoops-icon-button size="sm" title="Take snapshot"
+    return html`<hoops-icon-button
+      size="sm"
+      title="Take snapshot"
+      ?disabled=${this.capturing}
+      @click=${this.action}
       >${icons.snapshot}</hoops-icon-button
     >`;
   }
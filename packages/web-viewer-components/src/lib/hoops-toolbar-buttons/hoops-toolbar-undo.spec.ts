@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { html, render } from 'lit';
+import { waitFor } from '@testing-library/dom';
+
+import { registerService, UndoService, unregisterService } from '../services';
+import { renderTemplate } from '../testing/utils';
+import './hoops-toolbar-undo';
+import HoopsUndoButtonElement from './hoops-toolbar-undo';
+
+describe('hoops-toolbar-undo', () => {
+  let undoService: UndoService;
+  const command = { label: 'Hide', undo: vi.fn(), redo: vi.fn() };
+
+  const getButtons = async (template = html`<hoops-toolbar-undo></hoops-toolbar-undo>`) => {
+    await renderTemplate(template);
+    const element: HoopsUndoButtonElement = document.querySelector('hoops-toolbar-undo')!;
+    await element.updateComplete;
+    const [undoButton, redoButton] = Array.from(
+      element.shadowRoot!.querySelectorAll<HTMLElement>('hoops-icon-button'),
+    );
+    return { element, undoButton, redoButton };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    undoService = new UndoService();
+    registerService(undoService);
+  });
+
+  afterEach(() => {
+    render(html``, document.body);
+    unregisterService('UndoService');
+  });
+
+  it('Disables the buttons when there is nothing to undo or redo', async () => {
+    const { undoButton, redoButton } = await getButtons();
+
+    expect(undoButton.hasAttribute('disabled')).toBe(true);
+    expect(redoButton.hasAttribute('disabled')).toBe(true);
+  });
+
+  it('Undoes and redoes the last command on click', async () => {
+    const { element, undoButton, redoButton } = await getButtons();
+    undoService.record(command);
+    await element.updateComplete;
+
+    expect(undoButton.getAttribute('title')).toBe('Undo Hide');
+    undoButton.click();
+    await waitFor(() => expect(command.undo).toHaveBeenCalledOnce());
+
+    await element.updateComplete;
+    expect(redoButton.getAttribute('title')).toBe('Redo Hide');
+    redoButton.click();
+    await waitFor(() => expect(command.redo).toHaveBeenCalledOnce());
+  });
+});
@@ -0,0 +1,81 @@
+import { LitElement, css, html } from 'lit';
+import { customElement } from 'lit/decorators.js';
+
+import { redoIcon, undoIcon } from '@ts3d-hoops/ui-kit/icons';
+import { getService, IUndoService } from '../services';
+
+/**
+ * Displays the toolbar buttons undoing and redoing the operations recorded in the UndoService.
+ * The buttons are disabled when there is nothing to undo or redo and their title includes the
+ * label of the operation.
+ *
+ * The keyboard shortcuts are the `undo` and `redo` actions of the ShortcutService, bound to
+ * Ctrl+Z and Ctrl+Y by default.
+ *
+ * @element hoops-toolbar-undo
+ *
+ * @service {IUndoService} UndoService - Service keeping the history of the operations
+ *
+ * @example
+ * ```html
+ * <hoops-toolbar-undo></hoops-toolbar-undo>
+ * ```
+ *
+ * @since 2026.2.0
+ */
+@customElement('hoops-toolbar-undo')
+export class HoopsUndoButtonElement extends LitElement {
+  /** @internal */
+  static styles = css`
+    :host {
+      display: contents;
+    }
+  `;
+
+  private undoService!: IUndoService;
+
+  private handleServiceUpdate = (): void => this.requestUpdate();
+
+  /** @internal */
+  connectedCallback(): void {
+    super.connectedCallback();
+    this.undoService = getService<IUndoService>('UndoService');
+    this.undoService.addEventListener('hoops-undo-stack-changed', this.handleServiceUpdate);
+  }
+
+  /** @internal */
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.undoService?.removeEventListener('hoops-undo-stack-changed', this.handleServiceUpdate);
+  }
+
+  private undo(): void {
+    this.undoService.undo().catch((error) => console.error('Failed to undo:', error));
+  }
+
+  private redo(): void {
+    this.undoService.redo().catch((error) => console.error('Failed to redo:', error));
+  }
+
+  /** @internal */
+  protected override render(): unknown {
+    const undoLabel = this.undoService.getUndoLabel();
+    const redoLabel = this.undoService.getRedoLabel();
+
+    return html`<hoops-icon-button
+        size="sm"
+        title=${undoLabel ? `Undo ${undoLabel}` : 'Undo'}
+        ?disabled=${!this.undoService.canUndo()}
+        @click=${this.undo}
+        >${undoIcon}</hoops-icon-button
+      ><hoops-icon-button
+        size="sm"
+        title=${redoLabel ? `Redo ${redoLabel}` : 'Redo'}
+        ?disabled=${!this.undoService.canRedo()}
+        @click=${this.redo}
+        >${redoIcon}</hoops-icon-button
+      >`;
+  }
+}
+
+export default HoopsUndoButtonElement;
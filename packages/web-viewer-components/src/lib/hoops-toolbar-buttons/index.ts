@@ -14,6 +14,7 @@ import './hoops-toolbar-redlines';
 import './hoops-toolbar-tools';
 import './hoops-toolbar-settings';
 import './hoops-toolbar-sheets';
+import './hoops-toolbar-undo';
 
 export * from './hoops-toolbar-cad-configuration';
 export * from './hoops-toolbar-camera';
@@ -31,3 +32,4 @@ export * from './hoops-toolbar-redlines';
 export * from './hoops-toolbar-tools';
 export * from './hoops-toolbar-settings';
 export * from './hoops-toolbar-sheets';
+export * from './hoops-toolbar-undo';
@@ -5,11 +5,25 @@ export type MeasurementToolSelectedEvent = CustomEvent<{ operator: OperatorId }>
 export type MeasurementRemoveCommand = CustomEvent<{
   measurement: Operators.Markup.Measure.MeasureMarkup;
 }>;
+export type MeasurementVisibilityCommand = CustomEvent<{
+  measurement: Operators.Markup.Measure.MeasureMarkup;
+  visible: boolean;
+}>;
+export type MeasurementRenameCommand = CustomEvent<{
+  measurement: Operators.Markup.Measure.MeasureMarkup;
+  name: string;
+}>;
+export type MeasurementFocusCommand = CustomEvent<{
+  measurement: Operators.Markup.Measure.MeasureMarkup;
+}>;
 
 declare global {
   interface CustomEventMap {
     'measurement-tool-selected': MeasurementToolSelectedEvent;
     'hoops-measurement-remove-command': MeasurementRemoveCommand;
+    'hoops-measurement-visibility-command': MeasurementVisibilityCommand;
+    'hoops-measurement-rename-command': MeasurementRenameCommand;
+    'hoops-measurement-focus-command': MeasurementFocusCommand;
   }
 }
 
@@ -117,6 +117,24 @@ describe('HoopsToolsMeasurementActionsElement', () => {
     });
   });
 
+  describe('Measurement Service Tools', () => {
+    it('should render the buttons of the tools with an operator', async () => {
+      component.toolOperators = { radius: 100, 'area-volume': 103 };
+      await component.updateComplete;
+
+      expect(getAllButtons()).toHaveLength(EXPECTED_BUTTON_COUNT + 2);
+      expect(() => findButtonByTitle('Measure Point to Plane')).toThrow();
+
+      const eventSpy = setupEventSpy();
+      findButtonByTitle('Measure Radius and Diameter').click();
+      expectEventToBeDispatchedWith(eventSpy, 100 as OperatorId);
+
+      component.activeToolOperator = 103 as OperatorId;
+      await component.updateComplete;
+      expect(findButtonByTitle('Measure Area and Volume').getAttribute('color')).toBe('accent');
+    });
+  });
+
   describe('Event Dispatching', () => {
     // Test each measurement tool using parameterized approach with it.each
     it.each(MEASUREMENT_TOOLS)(
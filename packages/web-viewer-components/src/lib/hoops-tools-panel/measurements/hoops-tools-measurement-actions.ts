@@ -1,15 +1,28 @@
-import { LitElement, css, html } from 'lit';
+import { LitElement, css, html, nothing } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 
 import '@ts3d-hoops/ui-kit';
 import { componentBaseStyle, icons } from '@ts3d-hoops/ui-kit';
 import { OperatorId } from '@ts3d-hoops/web-viewer';
+import type { MeasurementTool } from '../../services/measurement';
+
+/**
+ * The buttons of the measurement tools of the MeasurementService.
+ */
+const MeasurementToolButtons: { tool: MeasurementTool; title: string; icon: string }[] = [
+  { tool: 'radius', title: 'Measure Radius and Diameter', icon: 'measureRadius' },
+  { tool: 'point-plane-distance', title: 'Measure Point to Plane', icon: 'measurePlane' },
+  { tool: 'body-body-distance', title: 'Measure Minimum Clearance', icon: 'measureClearance' },
+  { tool: 'area-volume', title: 'Measure Area and Volume', icon: 'measureArea' },
+];
 
 /**
  * Provides measurement tool selection buttons for the Hoops Tools Panel.
  *
  * This component displays interactive buttons for different measurement tools including
- * point-to-point distance, face-to-face distance, face angle, and edge length measurements.
+ * point-to-point distance, face-to-face distance, face angle, and edge length measurements, and
+ * the measurement tools of the MeasurementService whose operators are set in `toolOperators`:
+ * radius, point-to-plane distance, minimum clearance and area and volume.
  *
  * It is a dumb component that dispatches operator IDs on selection, with no knowledge of the webviewer.
  * The component highlights the currently active measurement tool based on the activeToolOperator property.
@@ -53,6 +66,13 @@ export class HoopsToolsMeasurementActionsElement extends LitElement {
   @property({ type: Number })
   activeToolOperator?: OperatorId;
 
+  /**
+   * The operators of the measurement tools of the MeasurementService, the tools without an
+   * operator are not displayed.
+   */
+  @property({ attribute: false })
+  toolOperators: Partial<Record<MeasurementTool, OperatorId>> = {};
+
   selectMeasurementTool(operator: OperatorId) {
     this.dispatchEvent(
       new CustomEvent('measurement-tool-selected', {
@@ -96,6 +116,20 @@ export class HoopsToolsMeasurementActionsElement extends LitElement {
       >
         ${icons.measureEdge}
       </hoops-icon-button>
+      ${MeasurementToolButtons.map(({ tool, title, icon }) => {
+        const operator = this.toolOperators[tool];
+        if (operator === undefined) {
+          return nothing;
+        }
+
+        return html`<hoops-icon-button
+          color=${this.activeToolOperator === operator ? 'accent' : 'default'}
+          @click="${this.selectMeasurementTool.bind(this, operator)}"
+          title=${title}
+        >
+          <hoops-icon icon=${icon}></hoops-icon>
+        </hoops-icon-button>`;
+      })}
     `;
   }
 }
@@ -6,6 +6,11 @@ import { HoopsToolsMeasurementGroupElement } from './hoops-tools-measurement-gro
 import { renderTemplate } from '../../testing/utils';
 import { OperatorId } from '@ts3d-hoops/web-viewer';
 import { IService } from '../../services/types';
+import { downloadBlob } from '../../services/snapshot';
+
+vi.mock('../../services/snapshot', () => ({
+  downloadBlob: vi.fn(),
+}));
 
 /**
  * Simple test for HoopsToolsMeasurementGroupElement focused on interface points and responsibilities
@@ -68,6 +73,14 @@ describe('HoopsToolsMeasurementGroupElement', () => {
       dispatchEvent: vi.fn(),
       getMeasurementColor: vi.fn().mockReturnValue('#FF0000'),
       setMeasurementColor: vi.fn(),
+      formatMeasurement: vi.fn((measurement) => measurement.getMeasurementText()),
+      exportMeasurements: vi.fn((format) => (format === 'csv' ? 'type,name' : '{}')),
+      getMeasurementToolOperator: vi.fn((tool) => (tool === 'radius' ? 100 : undefined)),
+      getMeasurementVisibility: vi.fn().mockReturnValue(true),
+      setMeasurementVisibility: vi.fn(),
+      getMeasurementName: vi.fn(),
+      setMeasurementName: vi.fn(),
+      focusMeasurement: vi.fn(async () => undefined),
     };
 
     // Register the mock service
@@ -192,6 +205,33 @@ describe('HoopsToolsMeasurementGroupElement', () => {
       expect(mockMeasurementService.removeMeasurement).toHaveBeenCalledWith(measurement);
     });
 
+    it('should handle the measurement visibility, rename and focus commands', async () => {
+      const measurements = [createMockMeasurement(MOCK_MEASUREMENTS.POINT_POINT)];
+      const { mockMeasurementService } = await setupComponent(measurements);
+      const measurement = measurements[0];
+
+      component.handleMeasurementVisibilityCommand(
+        new CustomEvent('hoops-measurement-visibility-command', {
+          detail: { measurement, visible: false },
+        }),
+      );
+      component.handleMeasurementRenameCommand(
+        new CustomEvent('hoops-measurement-rename-command', {
+          detail: { measurement, name: 'Gap' },
+        }),
+      );
+      component.handleMeasurementFocusCommand(
+        new CustomEvent('hoops-measurement-focus-command', { detail: { measurement } }),
+      );
+
+      expect(mockMeasurementService.setMeasurementVisibility).toHaveBeenCalledWith(
+        measurement,
+        false,
+      );
+      expect(mockMeasurementService.setMeasurementName).toHaveBeenCalledWith(measurement, 'Gap');
+      expect(mockMeasurementService.focusMeasurement).toHaveBeenCalledWith(measurement);
+    });
+
     it('should handle measurement tool selection events', async () => {
       const { mockContextManager } = await setupComponent([]);
 
@@ -229,6 +269,44 @@ describe('HoopsToolsMeasurementGroupElement', () => {
     });
   });
 
+  describe('Measurement tools', () => {
+    it('should pass the operators of the measurement tools to the actions', async () => {
+      await setupComponent([]);
+
+      const actions = getElementBySelector('hoops-tools-measurement-actions') as HTMLElement & {
+        toolOperators: Record<string, number | undefined>;
+      };
+      expect(actions.toolOperators).toMatchObject({ radius: 100, 'area-volume': undefined });
+    });
+  });
+
+  describe('Export', () => {
+    it('should only show the export buttons when measurements exist', async () => {
+      await setupComponent([]);
+      expect(getElementBySelector('.measurement-export')).toBeNull();
+
+      await setupComponent([createMockMeasurement(MOCK_MEASUREMENTS.POINT_POINT)]);
+      expect(getAllElementsBySelector('.measurement-export hoops-button')).toHaveLength(2);
+    });
+
+    it('should download the measurement report', async () => {
+      const { mockMeasurementService } = await setupComponent([
+        createMockMeasurement(MOCK_MEASUREMENTS.POINT_POINT),
+      ]);
+      const buttons = getAllElementsBySelector(
+        '.measurement-export hoops-button',
+      ) as NodeListOf<HTMLElement>;
+
+      buttons[0].click();
+      expect(mockMeasurementService.exportMeasurements).toHaveBeenCalledWith('csv');
+      expect(downloadBlob).toHaveBeenLastCalledWith(expect.any(Blob), 'measurements.csv');
+
+      buttons[1].click();
+      expect(mockMeasurementService.exportMeasurements).toHaveBeenCalledWith('json');
+      expect(downloadBlob).toHaveBeenLastCalledWith(expect.any(Blob), 'measurements.json');
+    });
+  });
+
   describe('Service Event Lifecycle @UI.11.7', () => {
     it('should register and unregister event listeners properly', async () => {
       clearServices();
@@ -241,6 +319,7 @@ describe('HoopsToolsMeasurementGroupElement', () => {
         measurements: [],
         removeMeasurement: vi.fn(),
         dispatchEvent: vi.fn(),
+        getMeasurementToolOperator: vi.fn(),
       };
 
       registerService(mockService as IService);
@@ -1,11 +1,18 @@
 import { consume } from '@lit/context';
-import { css, html, LitElement } from 'lit';
+import { css, html, LitElement, nothing } from 'lit';
 import { customElement } from 'lit/decorators.js';
 
 import '@ts3d-hoops/ui-kit';
 
 import { componentBaseStyle } from '@ts3d-hoops/ui-kit';
-import { IMeasurementService } from '../../services/measurement';
+import { OperatorId } from '@ts3d-hoops/web-viewer';
+import {
+  IMeasurementService,
+  MeasurementExportFormat,
+  MeasurementTool,
+  MeasurementTools,
+} from '../../services/measurement';
+import { downloadBlob } from '../../services/snapshot';
 import WebViewerContextManager, {
   contextManagerContext,
   type WebViewerState,
@@ -21,6 +28,7 @@ import { getService } from '../../services';
  * This component provides:
  * - A measurement tools panel with action buttons
  * - A scrollable list of existing measurements
+ * - Buttons exporting the measurement report as CSV or JSON
  *
  * @element hoops-tools-measurement-group
  *
@@ -53,6 +61,13 @@ export class HoopsToolsMeasurementGroupElement extends LitElement {
         padding: 0.5rem;
       }
 
+      .measurement-export {
+        display: flex;
+        justify-content: flex-end;
+        gap: 0.25rem;
+        margin: 0 0.4rem 0.4rem;
+      }
+
       .empty-state {
         display: flex;
         align-items: center;
@@ -129,6 +144,71 @@ export class HoopsToolsMeasurementGroupElement extends LitElement {
     this.service.removeMeasurement(measurement);
   }
 
+  /**
+   * Handles measurement visibility commands.
+   * Shows or hides the specified measurement with the measurement service.
+   *
+   * @param {MeasurementVisibilityCommand} event - The measurement visibility command event
+   * @returns {void}
+   */
+  handleMeasurementVisibilityCommand(
+    event: CustomEventMap['hoops-measurement-visibility-command'],
+  ): void {
+    const { measurement, visible } = event.detail;
+    this.service.setMeasurementVisibility(measurement, visible);
+  }
+
+  /**
+   * Handles measurement rename commands.
+   * Labels the specified measurement with the measurement service.
+   *
+   * @param {MeasurementRenameCommand} event - The measurement rename command event
+   * @returns {void}
+   */
+  handleMeasurementRenameCommand(event: CustomEventMap['hoops-measurement-rename-command']): void {
+    const { measurement, name } = event.detail;
+    this.service.setMeasurementName(measurement, name);
+  }
+
+  /**
+   * Handles measurement focus commands.
+   * Fits the camera to the specified measurement with the measurement service.
+   *
+   * @param {MeasurementFocusCommand} event - The measurement focus command event
+   * @returns {void}
+   */
+  handleMeasurementFocusCommand(event: CustomEventMap['hoops-measurement-focus-command']): void {
+    const { measurement } = event.detail;
+    this.service
+      .focusMeasurement(measurement)
+      .catch((error) => console.error('Failed to focus the measurement:', error));
+  }
+
+  /**
+   * Gets the operators of the measurement tools of the measurement service.
+   *
+   * @returns {Partial<Record<MeasurementTool, OperatorId>>} The operator of each available tool
+   */
+  getToolOperators(): Partial<Record<MeasurementTool, OperatorId>> {
+    const operators: Partial<Record<MeasurementTool, OperatorId>> = {};
+    for (const tool of MeasurementTools) {
+      operators[tool] = this.service.getMeasurementToolOperator(tool);
+    }
+    return operators;
+  }
+
+  /**
+   * Downloads the report of the measurements.
+   *
+   * @param {MeasurementExportFormat} format - The format of the report
+   * @returns {void}
+   */
+  exportMeasurements(format: MeasurementExportFormat): void {
+    const type = format === 'csv' ? 'text/csv' : 'application/json';
+    const blob = new Blob([this.service.exportMeasurements(format)], { type });
+    downloadBlob(blob, `measurements.${format}`);
+  }
+
   /** @internal */
   protected override render(): unknown {
     const hasMeasurements = this.service.measurements.length > 0;
@@ -136,6 +216,7 @@ export class HoopsToolsMeasurementGroupElement extends LitElement {
       <hoops-tools-group label="Measurement">
         <hoops-tools-measurement-actions
           activeToolOperator=${this.webviewerState?.toolOperator}
+          .toolOperators=${this.getToolOperators()}
           @measurement-tool-selected=${this.handleMeasurementToolSelection}
         ></hoops-tools-measurement-actions>
         <div class="measurement-list">
@@ -144,11 +225,24 @@ export class HoopsToolsMeasurementGroupElement extends LitElement {
                 (m) =>
                   html`<hoops-tools-measurement-item
                     @hoops-measurement-remove-command=${this.handleMeasurementRemoveCommand}
+                    @hoops-measurement-visibility-command=${this.handleMeasurementVisibilityCommand}
+                    @hoops-measurement-rename-command=${this.handleMeasurementRenameCommand}
+                    @hoops-measurement-focus-command=${this.handleMeasurementFocusCommand}
                     .measurement=${m}
                   ></hoops-tools-measurement-item>`,
               )
             : html`<div class="empty-state">No measurements</div>`}
         </div>
+        ${hasMeasurements
+          ? html`<div class="measurement-export">
+              <hoops-button title="Export CSV" @click=${() => this.exportMeasurements('csv')}>
+                Export CSV
+              </hoops-button>
+              <hoops-button title="Export JSON" @click=${() => this.exportMeasurements('json')}>
+                Export JSON
+              </hoops-button>
+            </div>`
+          : nothing}
       </hoops-tools-group>
     `;
   }
@@ -1,10 +1,17 @@
 import { html } from 'lit';
-import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { afterEach, describe, expect, it, vi, beforeEach } from 'vitest';
 
+import { registerService, unregisterService } from '../../services';
 import { renderTemplate } from '../../testing/utils';
 import './hoops-tools-measurement-item';
 import HoopsToolsMeasurementItemElement from './hoops-tools-measurement-item';
 import { Operators } from '@ts3d-hoops/web-viewer';
+import {
+  MeasureAreaVolumeMarkup,
+  MeasureBodyBodyDistanceMarkup,
+  MeasurePointPlaneDistanceMarkup,
+  MeasureRadiusMarkup,
+} from '../../services/measurement';
 
 // Test data constants for different measurement types
 const MEASUREMENT_TYPES = {
@@ -38,6 +45,30 @@ const MEASUREMENT_TYPES = {
     expectedIcon: 'measureEdge',
     expectedTitle: 'Circle Edge Length',
   },
+  RADIUS: {
+    type: 'Radius',
+    prototype: MeasureRadiusMarkup.prototype,
+    expectedIcon: 'measureRadius',
+    expectedTitle: 'Radius',
+  },
+  POINT_PLANE: {
+    type: 'PointPlane',
+    prototype: MeasurePointPlaneDistanceMarkup.prototype,
+    expectedIcon: 'measurePlane',
+    expectedTitle: 'Point to Plane',
+  },
+  BODY_BODY: {
+    type: 'BodyBody',
+    prototype: MeasureBodyBodyDistanceMarkup.prototype,
+    expectedIcon: 'measureClearance',
+    expectedTitle: 'Minimum Clearance',
+  },
+  AREA_VOLUME: {
+    type: 'AreaVolume',
+    prototype: MeasureAreaVolumeMarkup.prototype,
+    expectedIcon: 'measureArea',
+    expectedTitle: 'Area and Volume',
+  },
 } as const;
 
 describe('HoopsToolsMeasurementItemElement', () => {
@@ -51,6 +82,7 @@ describe('HoopsToolsMeasurementItemElement', () => {
     const mock = {} as Operators.Markup.Measure.MeasureMarkup;
     Object.setPrototypeOf(mock, measurementConfig.prototype);
     mock.getMeasurementText = vi.fn().mockReturnValue(value);
+    mock.getVisibility = vi.fn().mockReturnValue(true);
     return mock;
   };
 
@@ -127,6 +159,118 @@ describe('HoopsToolsMeasurementItemElement', () => {
     });
   });
 
+  describe('Units', () => {
+    it('should display the value formatted by the measurement service', async () => {
+      const service = Object.assign(new EventTarget(), {
+        serviceName: 'MeasurementService',
+        formatMeasurement: vi.fn().mockReturnValue('1 in'),
+        getMeasurementVisibility: vi.fn().mockReturnValue(true),
+        getMeasurementName: vi.fn(),
+      });
+      registerService(service);
+
+      await renderComponent(createMockMeasurement(MEASUREMENT_TYPES.POINT_POINT, '25.4 mm'));
+      expect(getElementBySelector('.measure-label')!.textContent).toBe('1 in');
+
+      service.formatMeasurement.mockReturnValue('2.54 cm');
+      service.dispatchEvent(new CustomEvent('hoops-measurement-units-changed'));
+      await component.updateComplete;
+      expect(getElementBySelector('.measure-label')!.textContent).toBe('2.54 cm');
+
+      unregisterService('MeasurementService');
+    });
+  });
+
+  describe('Measurement Actions', () => {
+    let measurement: Operators.Markup.Measure.MeasureMarkup;
+    let service: ReturnType<typeof createService>;
+
+    function createService() {
+      return Object.assign(new EventTarget(), {
+        serviceName: 'MeasurementService',
+        formatMeasurement: vi.fn().mockReturnValue('10.5 mm'),
+        getMeasurementVisibility: vi.fn().mockReturnValue(true),
+        getMeasurementName: vi.fn().mockReturnValue('Gap'),
+      });
+    }
+
+    beforeEach(async () => {
+      service = createService();
+      registerService(service as never);
+      measurement = createMockMeasurement(MEASUREMENT_TYPES.POINT_POINT, '10.5 mm');
+      await renderComponent(measurement);
+    });
+
+    afterEach(() => {
+      unregisterService('MeasurementService');
+    });
+
+    const listen = (eventName: string) => {
+      const listener = vi.fn();
+      component.addEventListener(eventName, listener);
+      return listener;
+    };
+
+    it('should display the label of the measurement', () => {
+      expect(getElementBySelector('.measure-name')!.textContent).toBe('Gap');
+      expect(getElementBySelector('.measure-container')!.getAttribute('title')).toBe(
+        'Gap: 10.5 mm',
+      );
+    });
+
+    it('should dispatch the visibility and focus commands', async () => {
+      const visibilityListener = listen('hoops-measurement-visibility-command');
+      const focusListener = listen('hoops-measurement-focus-command');
+
+      (getElementBySelector('.visibility-button') as HTMLElement).click();
+      (getElementBySelector('.focus-button') as HTMLElement).click();
+
+      expect(visibilityListener.mock.calls[0][0].detail).toEqual({ measurement, visible: false });
+      expect(focusListener.mock.calls[0][0].detail).toEqual({ measurement });
+
+      service.getMeasurementVisibility.mockReturnValue(false);
+      service.dispatchEvent(
+        new CustomEvent('hoops-measurement-visibility-changed', { detail: { measurement } }),
+      );
+      await component.updateComplete;
+      expect(component.classList.contains('hidden')).toBe(true);
+      expect(getElementBySelector('.visibility-button')!.getAttribute('title')).toBe(
+        'Show Measurement',
+      );
+    });
+
+    it('should dispatch the label entered in the rename input', async () => {
+      const listener = listen('hoops-measurement-rename-command');
+
+      (getElementBySelector('.rename-button') as HTMLElement).click();
+      await component.updateComplete;
+      const input = getElementBySelector('.measure-name-input') as HTMLInputElement;
+      expect(input.value).toBe('Gap');
+
+      input.value = 'Flange gap';
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+      await component.updateComplete;
+
+      expect(listener.mock.calls[0][0].detail).toEqual({ measurement, name: 'Flange gap' });
+      expect(getElementBySelector('.measure-name-input')).toBeNull();
+    });
+
+    it('should not dispatch the label when the edition is cancelled', async () => {
+      const listener = listen('hoops-measurement-rename-command');
+
+      (getElementBySelector('.measure-label') as HTMLElement).dispatchEvent(
+        new MouseEvent('dblclick'),
+      );
+      await component.updateComplete;
+      const input = getElementBySelector('.measure-name-input') as HTMLInputElement;
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+      await component.updateComplete;
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(getElementBySelector('.measure-label')).toBeTruthy();
+    });
+  });
+
   describe('Remove Functionality', () => {
     const testValue = '15.2 mm';
     let mockMeasurement: Operators.Markup.Measure.MeasureMarkup;
@@ -190,6 +334,7 @@ describe('HoopsToolsMeasurementItemElement', () => {
       // Create measurement with unknown prototype
       const unknownMeasurement = {} as Operators.Markup.Measure.MeasureMarkup;
       unknownMeasurement.getMeasurementText = vi.fn().mockReturnValue('Unknown: 5.0 mm');
+      unknownMeasurement.getVisibility = vi.fn().mockReturnValue(true);
 
       await renderComponent(unknownMeasurement);
 
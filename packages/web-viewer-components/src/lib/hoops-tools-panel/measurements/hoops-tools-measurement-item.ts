@@ -1,23 +1,40 @@
 import { LitElement, TemplateResult, css, html, nothing } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { customElement, property, state } from 'lit/decorators.js';
 
 import '@ts3d-hoops/ui-kit';
 import { Operators } from '@ts3d-hoops/web-viewer';
 import { componentBaseStyle, icons } from '@ts3d-hoops/ui-kit';
-import type { MeasurementRemoveCommand } from './custom-events.d.ts';
+import { tryGetService } from '../../services';
+import {
+  type IMeasurementService,
+  MeasureAreaVolumeMarkup,
+  MeasureBodyBodyDistanceMarkup,
+  MeasurePointPlaneDistanceMarkup,
+  MeasureRadiusMarkup,
+} from '../../services/measurement';
+import type {
+  MeasurementFocusCommand,
+  MeasurementRemoveCommand,
+  MeasurementRenameCommand,
+  MeasurementVisibilityCommand,
+} from './custom-events.d.ts';
 
 /**
- * Displays a single measurement item with its value, icon, and remove functionality.
+ * Displays a single measurement item with its value, icon, and focus, visibility, rename and
+ * remove actions.
  *
  * This component renders measurement data in a compact, user-friendly format within the measurement list.
  *
  * Features:
  * - Automatic icon selection based on measurement type
- * - Formatted measurement value display
+ * - Measurement value formatted with the units of the MeasurementService
+ * - Custom label of the measurement, edited inline with the rename action or a double click
+ * - Actions to fit the camera to the measurement and to hide or show it
  * - Interactive remove button with confirmation
  * - Tooltip with full measurement details
  * - Error handling for invalid or corrupted measurement data
- * - Support for multiple measurement types (Point-to-Point, Face-to-Face, Angle, Edge Length)
+ * - Support for multiple measurement types (Point-to-Point, Face-to-Face, Angle, Edge Length,
+ *   Radius, Point-to-Plane, Minimum Clearance, Area and Volume)
  *
  * The component uses a configuration map to determine the appropriate icon and labels
  * for each measurement type, making it easy to extend with new measurement types.
@@ -25,9 +42,15 @@ import type { MeasurementRemoveCommand } from './custom-events.d.ts';
  * @element hoops-tools-measurement-item
  *
  * @fires hoops-measurement-remove-command - Dispatched when the remove button is clicked
+ * @fires hoops-measurement-visibility-command - Dispatched when the visibility button is clicked
+ * @fires hoops-measurement-rename-command - Dispatched when a new label is entered
+ * @fires hoops-measurement-focus-command - Dispatched when the focus button is clicked
  *
  * @attribute {MeasureMarkup} measurement - The measurement object to display
  *
+ * @service {IMeasurementService} MeasurementService - Service formatting the measurement value and
+ * providing its label and visibility
+ *
  * @example
  * ```html
  * <hoops-tools-measurement-item></hoops-tools-measurement-item>
@@ -78,7 +101,20 @@ export class HoopsToolsMeasurementItemElement extends LitElement {
         text-overflow: ellipsis;
         flex-grow: 1;
       }
-      .trash-button {
+      :host(.hidden) .measure-container {
+        opacity: 0.5;
+      }
+      .measure-name {
+        font-weight: 500;
+      }
+      .measure-name-input {
+        flex-grow: 1;
+        min-width: 0;
+        font: inherit;
+        font-size: 0.875rem;
+      }
+      .trash-button,
+      .measure-action {
         flex-shrink: 0;
       }
       hoops-icon {
@@ -93,6 +129,62 @@ export class HoopsToolsMeasurementItemElement extends LitElement {
   @property({ attribute: false })
   measurement?: Operators.Markup.Measure.MeasureMarkup;
 
+  /**
+   * Whether the label of the measurement is being edited.
+   */
+  @state()
+  editing = false;
+
+  private measurementService?: IMeasurementService;
+
+  private onUnitsChanged = () => this.requestUpdate();
+
+  private onMeasurementChanged = (event: Event) => {
+    const { measurement } = (event as CustomEvent<{ measurement: unknown }>).detail;
+    if (measurement === this.measurement) {
+      this.requestUpdate();
+    }
+  };
+
+  /**
+   * @internal
+   */
+  connectedCallback(): void {
+    super.connectedCallback();
+    this.measurementService = tryGetService<IMeasurementService>('MeasurementService');
+    this.measurementService?.addEventListener(
+      'hoops-measurement-units-changed',
+      this.onUnitsChanged,
+    );
+    this.measurementService?.addEventListener(
+      'hoops-measurement-visibility-changed',
+      this.onMeasurementChanged,
+    );
+    this.measurementService?.addEventListener(
+      'hoops-measurement-renamed',
+      this.onMeasurementChanged,
+    );
+  }
+
+  /**
+   * @internal
+   */
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.measurementService?.removeEventListener(
+      'hoops-measurement-units-changed',
+      this.onUnitsChanged,
+    );
+    this.measurementService?.removeEventListener(
+      'hoops-measurement-visibility-changed',
+      this.onMeasurementChanged,
+    );
+    this.measurementService?.removeEventListener(
+      'hoops-measurement-renamed',
+      this.onMeasurementChanged,
+    );
+  }
+
   getMeasureMarkupLabel(markup: Operators.Markup.Measure.MeasureMarkup): string {
     if (markup instanceof Operators.Markup.Measure.MeasurePointPointDistanceMarkup) {
       return 'Point to Point';
@@ -104,6 +196,14 @@ export class HoopsToolsMeasurementItemElement extends LitElement {
       return 'Circle Length';
     } else if (markup instanceof Operators.Markup.Measure.MeasureFaceFaceAngleMarkup) {
       return 'Face Angle';
+    } else if (markup instanceof MeasureRadiusMarkup) {
+      return 'Radius';
+    } else if (markup instanceof MeasurePointPlaneDistanceMarkup) {
+      return 'Point to Plane';
+    } else if (markup instanceof MeasureBodyBodyDistanceMarkup) {
+      return 'Minimum Clearance';
+    } else if (markup instanceof MeasureAreaVolumeMarkup) {
+      return 'Area and Volume';
     }
     return 'Measurement';
   }
@@ -119,19 +219,110 @@ export class HoopsToolsMeasurementItemElement extends LitElement {
       return html`<hoops-icon title="Circle Edge Length" icon="measureEdge"></hoops-icon>`;
     } else if (markup instanceof Operators.Markup.Measure.MeasureFaceFaceAngleMarkup) {
       return html`<hoops-icon title="Face to Face Angle" icon="measureAngle"></hoops-icon>`;
+    } else if (markup instanceof MeasureRadiusMarkup) {
+      return html`<hoops-icon title="Radius" icon="measureRadius"></hoops-icon>`;
+    } else if (markup instanceof MeasurePointPlaneDistanceMarkup) {
+      return html`<hoops-icon title="Point to Plane" icon="measurePlane"></hoops-icon>`;
+    } else if (markup instanceof MeasureBodyBodyDistanceMarkup) {
+      return html`<hoops-icon title="Minimum Clearance" icon="measureClearance"></hoops-icon>`;
+    } else if (markup instanceof MeasureAreaVolumeMarkup) {
+      return html`<hoops-icon title="Area and Volume" icon="measureArea"></hoops-icon>`;
     }
     return html``;
   }
 
   getMeasureMarkupValue(markup: Operators.Markup.Measure.MeasureMarkup): string {
     try {
-      return markup.getMeasurementText();
+      return this.measurementService
+        ? this.measurementService.formatMeasurement(markup)
+        : markup.getMeasurementText();
     } catch (error) {
       console.error('Error getting measurement value:', error);
       return 'N/A';
     }
   }
 
+  isMeasurementVisible(markup: Operators.Markup.Measure.MeasureMarkup): boolean {
+    try {
+      return this.measurementService
+        ? this.measurementService.getMeasurementVisibility(markup)
+        : markup.getVisibility();
+    } catch (error) {
+      console.error('Error getting measurement visibility:', error);
+      return true;
+    }
+  }
+
+  dispatchVisibility(measurement: Operators.Markup.Measure.MeasureMarkup, visible: boolean) {
+    this.dispatchEvent(
+      new CustomEvent('hoops-measurement-visibility-command', {
+        detail: { measurement, visible },
+        composed: true,
+        bubbles: true,
+      }) as MeasurementVisibilityCommand,
+    );
+  }
+
+  dispatchRename(measurement: Operators.Markup.Measure.MeasureMarkup, name: string) {
+    this.dispatchEvent(
+      new CustomEvent('hoops-measurement-rename-command', {
+        detail: { measurement, name },
+        composed: true,
+        bubbles: true,
+      }) as MeasurementRenameCommand,
+    );
+  }
+
+  dispatchFocus(measurement: Operators.Markup.Measure.MeasureMarkup) {
+    this.dispatchEvent(
+      new CustomEvent('hoops-measurement-focus-command', {
+        detail: { measurement },
+        composed: true,
+        bubbles: true,
+      }) as MeasurementFocusCommand,
+    );
+  }
+
+  /**
+   * Starts editing the label of the measurement and focuses the input.
+   *
+   * @internal
+   */
+  private async startEditing(): Promise<void> {
+    this.editing = true;
+    await this.updateComplete;
+    const input = this.shadowRoot?.querySelector<HTMLInputElement>('.measure-name-input');
+    input?.focus();
+    input?.select();
+  }
+
+  /**
+   * Ends editing the label, the label is dispatched when it is committed.
+   *
+   * @internal
+   */
+  private stopEditing(commit: boolean): void {
+    if (!this.editing) {
+      return;
+    }
+
+    this.editing = false;
+    const input = this.shadowRoot?.querySelector<HTMLInputElement>('.measure-name-input');
+    if (commit && input && this.measurement) {
+      this.dispatchRename(this.measurement, input.value);
+    }
+  }
+
+  /** @internal */
+  private onNameKeyDown(event: KeyboardEvent): void {
+    event.stopPropagation();
+    if (event.key === 'Enter') {
+      this.stopEditing(true);
+    } else if (event.key === 'Escape') {
+      this.stopEditing(false);
+    }
+  }
+
   dispatchRemoval(measurement: Operators.Markup.Measure.MeasureMarkup) {
     this.dispatchEvent(
       new CustomEvent('hoops-measurement-remove-command', {
@@ -142,21 +333,66 @@ export class HoopsToolsMeasurementItemElement extends LitElement {
     );
   }
 
+  /** @internal */
+  private renderLabel(name: string | undefined, value: string): unknown {
+    const nameTemplate = name ? html`<span class="measure-name">${name}</span>` : nothing;
+    return html`<span class="measure-label" @dblclick=${this.startEditing}
+      >${nameTemplate}${value}</span
+    >`;
+  }
+
   /** @internal */
   protected override render(): unknown {
     if (!this.measurement) {
       return nothing;
     }
 
-    const measurementType = this.getMeasureMarkupLabel(this.measurement);
-    const measurementValue = this.getMeasureMarkupValue(this.measurement);
-    const tooltipText = `${measurementType}: ${measurementValue}`;
+    const measurement = this.measurement;
+    const measurementType = this.getMeasureMarkupLabel(measurement);
+    const measurementValue = this.getMeasureMarkupValue(measurement);
+    const measurementName = this.measurementService?.getMeasurementName(measurement);
+    const tooltipText = `${measurementName ?? measurementType}: ${measurementValue}`;
+    const visible = this.isMeasurementVisible(measurement);
+    this.classList.toggle('hidden', !visible);
 
     return html`
       <div class="measure-container" title="${tooltipText}">
-        ${this.getMeasureMarkupIcon(this.measurement)}
-        <span class="measure-label">${measurementValue}</span>
+        ${this.getMeasureMarkupIcon(measurement)}
+        ${this.editing
+          ? html`<input
+              class="measure-name-input"
+              aria-label="Measurement label"
+              placeholder=${measurementType}
+              .value=${measurementName ?? ''}
+              @keydown=${this.onNameKeyDown}
+              @blur=${() => this.stopEditing(true)}
+            />`
+          : this.renderLabel(measurementName, measurementValue)}
       </div>
+      <hoops-icon-button
+        class="measure-action focus-button"
+        color="default"
+        title="Focus Measurement"
+        @click=${() => this.dispatchFocus(measurement)}
+      >
+        ${icons.search}
+      </hoops-icon-button>
+      <hoops-icon-button
+        class="measure-action visibility-button"
+        color="default"
+        title=${visible ? 'Hide Measurement' : 'Show Measurement'}
+        @click=${() => this.dispatchVisibility(measurement, !visible)}
+      >
+        ${visible ? icons.visibleIcon : icons.hiddenIcon}
+      </hoops-icon-button>
+      <hoops-icon-button
+        class="measure-action rename-button"
+        color="default"
+        title="Rename Measurement"
+        @click=${this.startEditing}
+      >
+        ${icons.editIcon}
+      </hoops-icon-button>
       <hoops-icon-button
         class="trash-button"
         color="default"
@@ -339,6 +339,7 @@ export class HoopsTypesTreeElement extends LitElement {
   protected override render(): unknown {
     return html`<hoops-tree
       class="typestree"
+      virtual
       .tree=${{ context: new TypesTreeAdapter() } as ContextWrapper}
       @hoops-types-tree-node-click=${this.handleNodeClick}
       @hoops-types-tree-type-node-click=${this.handleTypeNodeClick}
@@ -164,6 +164,16 @@ export class ViewAdapter implements TreeContext {
     }
   }
 
+  /**
+   * This function will be used by the tree to jump to a node with the keyboard.
+   *
+   * @param {number} nodeId The id of the node.
+   * @returns The name of the node.
+   */
+  getLabel(nodeId: number) {
+    return this.getNodeName(nodeId);
+  }
+
   /**
    * Returns the name of a node in the view tree
    * @param nodeId The view tree-specific node id
@@ -253,6 +253,7 @@ export class HoopsViewTreeElement extends LitElement {
   protected override render(): unknown {
     return html`<hoops-tree
       class="viewtree"
+      virtual
       .tree=${{ context: new ViewAdapter() } as ContextWrapper}
       @hoops-tree-node-click=${(event: TreeNodeClickEvent) => {
         event.stopPropagation();
@@ -0,0 +1,122 @@
+import { html } from 'lit';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { RendererType, WebViewer } from '@ts3d-hoops/web-viewer';
+import { renderTemplate } from './testing/utils';
+import './hoops-web-viewer';
+import { WebViewerComponent } from './hoops-web-viewer';
+
+vi.mock(import('@ts3d-hoops/web-viewer'), async (importOriginal) => {
+  const actual = await importOriginal();
+  return {
+    ...actual,
+    WebViewer: vi.fn(function (this: Record<string, unknown>) {
+      this.start = vi.fn();
+      this.shutdown = vi.fn();
+      this.setCallbacks = vi.fn();
+      this.resizeCanvas = vi.fn();
+      this.switchToModel = vi.fn(() => Promise.resolve([]));
+      this.model = { clear: vi.fn(() => Promise.resolve()) };
+    }) as unknown as typeof actual.WebViewer,
+  };
+});
+
+type MockWebViewer = {
+  start: ReturnType<typeof vi.fn>;
+  shutdown: ReturnType<typeof vi.fn>;
+  switchToModel: ReturnType<typeof vi.fn>;
+  model: { clear: ReturnType<typeof vi.fn> };
+};
+
+const getViewer = (element: WebViewerComponent) => element.viewer as unknown as MockWebViewer;
+
+describe('hoops-web-viewer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should create and start the viewer once', async () => {
+    await renderTemplate(html`<hoops-web-viewer endpointUri="/models/a.scs"></hoops-web-viewer>`);
+    const element = document.querySelector('hoops-web-viewer') as WebViewerComponent;
+
+    expect(WebViewer).toHaveBeenCalledOnce();
+    expect(WebViewer).toHaveBeenCalledWith(
+      expect.objectContaining({ endpointUri: '/models/a.scs' }),
+    );
+    expect(getViewer(element).start).toHaveBeenCalledOnce();
+    expect(getViewer(element).switchToModel).not.toHaveBeenCalled();
+  });
+
+  it('should switch the model in place when endpointUri changes in a file session', async () => {
+    await renderTemplate(html`<hoops-web-viewer endpointUri="/models/a.scs"></hoops-web-viewer>`);
+    const element = document.querySelector('hoops-web-viewer') as WebViewerComponent;
+    const viewer = getViewer(element);
+
+    element.endpointUri = '/models/b.scs';
+    await element.updateComplete;
+
+    expect(WebViewer).toHaveBeenCalledOnce();
+    expect(viewer.shutdown).not.toHaveBeenCalled();
+    expect(viewer.switchToModel).toHaveBeenCalledWith('/models/b.scs');
+  });
+
+  it('should switch the model in place when model changes in a streaming session', async () => {
+    await renderTemplate(
+      html`<hoops-web-viewer endpointUri="ws://localhost:11000" model="a"></hoops-web-viewer>`,
+    );
+    const element = document.querySelector('hoops-web-viewer') as WebViewerComponent;
+    const viewer = getViewer(element);
+
+    element.model = 'b';
+    await element.updateComplete;
+
+    expect(WebViewer).toHaveBeenCalledOnce();
+    expect(viewer.switchToModel).toHaveBeenCalledWith('b');
+  });
+
+  it('should clear the model when the viewer becomes empty', async () => {
+    await renderTemplate(html`<hoops-web-viewer endpointUri="/models/a.scs"></hoops-web-viewer>`);
+    const element = document.querySelector('hoops-web-viewer') as WebViewerComponent;
+    const viewer = getViewer(element);
+
+    element.empty = true;
+    await element.updateComplete;
+
+    expect(viewer.model.clear).toHaveBeenCalledOnce();
+    expect(viewer.switchToModel).not.toHaveBeenCalled();
+  });
+
+  it('should recreate the viewer when rendererType changes', async () => {
+    await renderTemplate(html`<hoops-web-viewer endpointUri="/models/a.scs"></hoops-web-viewer>`);
+    const element = document.querySelector('hoops-web-viewer') as WebViewerComponent;
+    const previousViewer = getViewer(element);
+    const listener = vi.fn();
+    element.addEventListener('hwvReady', listener);
+
+    element.rendererType = RendererType.Server;
+    await element.updateComplete;
+
+    expect(previousViewer.shutdown).toHaveBeenCalledOnce();
+    expect(WebViewer).toHaveBeenCalledTimes(2);
+    expect(WebViewer).toHaveBeenLastCalledWith(
+      expect.objectContaining({ rendererType: RendererType.Server }),
+    );
+    expect(getViewer(element)).not.toBe(previousViewer);
+    expect(getViewer(element).start).toHaveBeenCalledOnce();
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it('should recreate the viewer when the streaming server changes', async () => {
+    await renderTemplate(
+      html`<hoops-web-viewer endpointUri="ws://localhost:11000" model="a"></hoops-web-viewer>`,
+    );
+    const element = document.querySelector('hoops-web-viewer') as WebViewerComponent;
+    const previousViewer = getViewer(element);
+
+    element.endpointUri = 'ws://localhost:11001';
+    await element.updateComplete;
+
+    expect(previousViewer.shutdown).toHaveBeenCalledOnce();
+    expect(previousViewer.switchToModel).not.toHaveBeenCalled();
+    expect(WebViewer).toHaveBeenCalledTimes(2);
+  });
+});
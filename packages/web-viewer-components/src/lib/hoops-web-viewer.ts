@@ -33,12 +33,24 @@ import WebViewerContextManager, { contextManagerContext } from './context-manage
 
 export type * from './custom-events';
 
+/**
+ * Whether an endpoint connects to a streaming server rather than loading a file.
+ * @internal
+ */
+function isStreamingEndpoint(endpointUri?: string): boolean {
+  return !!endpointUri && /^wss?:\/\//i.test(endpointUri);
+}
+
 /**
  * A simple HTML tag to quickly initialize a complete viewer.
  *
  * This component provides a full-featured 3D model viewer with support for loading models,
  * navigation, selection, markup, and various visualization modes.
  *
+ * Changing `model` or `endpointUri` after initialization switches the loaded model in place.
+ * Changing `rendererType`, `streamingMode`, `sessionToken` or the server of a streaming session
+ * shuts down the viewer and creates a new one, emitting `hwvReady` again.
+ *
  * @element hoops-web-viewer
  *
  * @fires hwvAddCuttingSection - Emitted when a cutting section is added
@@ -259,6 +271,13 @@ export class WebViewerComponent extends LitElement implements WebViewerConfig {
    */
   private hwv: WebViewer | null;
 
+  /**
+   * The configuration the current WebViewer instance was created or last switched with.
+   * Used to detect which properties changed since then.
+   * @internal
+   */
+  private viewerConfig?: WebViewerConfig;
+
   /**
    * The DOM container element that hosts the WebViewer canvas.
    * Automatically assigned during component initialization.
@@ -525,7 +544,37 @@ export class WebViewerComponent extends LitElement implements WebViewerConfig {
   ): void {
     super.firstUpdated(_changedProperties);
     this.container = this.shadowRoot?.querySelector('.web-viewer') as HTMLElement;
-    this.hwv = new WebViewer({
+    this.createViewer();
+  }
+
+  /**
+   * Lifecycle callback invoked after every update.
+   * Switches the loaded model in place when the model source changes and recreates the viewer
+   * when a property that cannot be changed on a running viewer is updated.
+   * @param changedProperties - Map of changed properties
+   * @returns {void}
+   * @internal
+   */
+  override updated(changedProperties: PropertyValueMap<any> | Map<PropertyKey, unknown>): void {
+    super.updated(changedProperties);
+    if (!this.hwv || !this.viewerConfig) {
+      return;
+    }
+
+    if (this.requiresViewerRecreation()) {
+      this.recreateViewer();
+    } else if (this.hasModelSourceChanged()) {
+      this.switchModel();
+    }
+  }
+
+  /**
+   * Creates and starts a WebViewer instance from the current property values.
+   * @returns {void}
+   * @internal
+   */
+  private createViewer() {
+    this.viewerConfig = {
       container: this.container,
       endpointUri: this.endpointUri,
       model: this.model,
@@ -546,11 +595,93 @@ export class WebViewerComponent extends LitElement implements WebViewerConfig {
       enginePath: this.enginePath,
       defaultMetallicFactor: this.defaultMetallicFactor,
       defaultRoughnessFactor: this.defaultRoughnessFactor,
-    });
+    };
+    this.hwv = new WebViewer(this.viewerConfig);
     this.hwv.start();
     this.handleReady();
   }
 
+  /**
+   * Shuts down the current WebViewer instance and creates a new one from the current property values.
+   * @returns {void}
+   * @internal
+   */
+  private recreateViewer() {
+    this.hwv?.shutdown();
+    this.hwv = null;
+    this.container.replaceChildren();
+    this.createViewer();
+  }
+
+  /**
+   * Whether the viewer has to be recreated to apply the current property values.
+   * The renderer, the streaming mode and the session are fixed for the lifetime of a viewer, and
+   * so is the server connection of streaming sessions, which empty viewers never open.
+   * @returns {boolean} true if the viewer must be recreated
+   * @internal
+   */
+  private requiresViewerRecreation(): boolean {
+    const config = this.viewerConfig!;
+    if (
+      config.rendererType !== this.rendererType ||
+      config.streamingMode !== this.streamingMode ||
+      config.sessionToken !== this.sessionToken
+    ) {
+      return true;
+    }
+
+    if (config.empty && !this.empty && isStreamingEndpoint(this.endpointUri)) {
+      return true;
+    }
+
+    return (
+      config.endpointUri !== this.endpointUri &&
+      (isStreamingEndpoint(config.endpointUri) || isStreamingEndpoint(this.endpointUri))
+    );
+  }
+
+  /**
+   * Whether the model to display differs from the one the viewer was last given.
+   * @returns {boolean} true if the model must be switched
+   * @internal
+   */
+  private hasModelSourceChanged(): boolean {
+    const config = this.viewerConfig!;
+    return (
+      config.endpointUri !== this.endpointUri ||
+      config.model !== this.model ||
+      config.empty !== this.empty
+    );
+  }
+
+  /**
+   * Switches the loaded model in place.
+   * Streaming sessions load the `model` instance while file sessions load the `endpointUri` file.
+   * The viewer emits `hwvModelSwitchStart` and `hwvModelSwitched` during the switch.
+   * @returns {Promise<void>}
+   * @internal
+   */
+  private async switchModel() {
+    const hwv = this.hwv!;
+    this.viewerConfig = {
+      ...this.viewerConfig!,
+      endpointUri: this.endpointUri,
+      model: this.model,
+      empty: this.empty,
+    };
+
+    const modelName = isStreamingEndpoint(this.endpointUri) ? this.model : this.endpointUri;
+    try {
+      if (this.empty || !modelName) {
+        await hwv.model.clear();
+      } else {
+        await hwv.switchToModel(modelName);
+      }
+    } catch (error) {
+      console.error('Failed to switch model:', error);
+    }
+  }
+
   /**
    * Lifecycle callback invoked when the component is added to the DOM.
    * Sets up window resize event listeners for responsive canvas sizing.
@@ -0,0 +1,319 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Box, Point3 } from '@ts3d-hoops/common';
+import { Camera, Projection } from '@ts3d-hoops/web-viewer';
+
+import { registerService, unregisterService } from '../serviceRegistry';
+import BcfService, { BcfOriginatingSystem } from './BcfService';
+import { BcfVersion } from './types';
+import { createZip, readZip } from './zip';
+
+const IfcGuid = '2O2Fr$t4X7Zf8NOew3FLOH';
+
+// The model is in millimeters, the camera looks at the origin from 10 meters with a 60° field
+const createCamera = () =>
+  Camera.create(
+    new Point3(0, -10000, 0),
+    new Point3(0, 0, 0),
+    new Point3(0, 0, 1),
+    Projection.Perspective,
+    2 * 10000 * Math.tan(Math.PI / 6),
+    2 * 10000 * Math.tan(Math.PI / 6),
+  );
+
+function createWebViewer() {
+  return {
+    view: {
+      getCamera: vi.fn(createCamera),
+      setCamera: vi.fn(),
+    },
+    model: {
+      getAbsoluteRootNode: () => 0,
+      getNodeUnitMultiplier: () => 1,
+      getVisibilityState: vi.fn(async () => ({
+        defaultVisibility: true,
+        visibilityExceptions: new Set([5]),
+      })),
+      getNodeGenericId: (nodeId: number) => (nodeId === 4 ? IfcGuid : null),
+      getNodesByGenericId: (genericId: string) => (genericId === IfcGuid ? new Set([4]) : null),
+      getModelBounding: async () =>
+        new Box(new Point3(-1000, -1000, -1000), new Point3(1000, 1000, 1000)),
+      resetNodesVisibility: vi.fn(async () => undefined),
+      setNodesVisibility: vi.fn(async () => undefined),
+    },
+    selectionManager: {
+      getResults: () => [{ getNodeId: () => 4 }, { getNodeId: () => 4 }],
+      clear: vi.fn(),
+      add: vi.fn(),
+    },
+    markupManager: {
+      getMarkupView: (id: string) => (id === 'view-1' ? { getName: () => 'Review 1' } : undefined),
+    },
+  };
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new CompressionStream('deflate-raw');
+  const writer = stream.writable.getWriter();
+  const [, deflated] = await Promise.all([
+    writer.write(data).then(() => writer.close()),
+    new Response(stream.readable).arrayBuffer(),
+  ]);
+  return new Uint8Array(deflated);
+}
+
+describe('BcfService', () => {
+  let service: BcfService;
+  let webViewer: ReturnType<typeof createWebViewer>;
+
+  beforeAll(() => {
+    // jsdom does not implement Blob.arrayBuffer
+    if (!Blob.prototype.arrayBuffer) {
+      Blob.prototype.arrayBuffer = function (this: Blob) {
+        return new Promise<ArrayBuffer>((resolve, reject) => {
+          const reader = new FileReader();
+          reader.onload = () => resolve(reader.result as ArrayBuffer);
+          reader.onerror = () => reject(reader.error);
+          reader.readAsArrayBuffer(this);
+        });
+      };
+    }
+  });
+
+  beforeEach(() => {
+    service = new BcfService();
+    webViewer = createWebViewer();
+    service.webViewer = webViewer as any;
+    service.author = 'jane.doe@example.com';
+  });
+
+  it('should create a topic with a viewpoint of the viewer', async () => {
+    const listener = vi.fn();
+    service.addEventListener('hoops-bcf-topics-changed', listener);
+
+    const topic = await service.createTopic({ title: 'Clash', assignedTo: 'john@example.com' });
+
+    expect(service.serviceName).toBe('BcfService');
+    expect(topic).toMatchObject({
+      title: 'Clash',
+      type: 'Issue',
+      status: 'Open',
+      assignedTo: 'john@example.com',
+      creationAuthor: 'jane.doe@example.com',
+      comments: [],
+    });
+    expect(topic.viewpoints).toHaveLength(1);
+
+    const viewpoint = topic.viewpoints[0];
+    expect(viewpoint.selection).toEqual([{ ifcGuid: IfcGuid }]);
+    expect(viewpoint.visibility).toEqual({
+      defaultVisibility: true,
+      exceptions: [{ originatingSystem: BcfOriginatingSystem, authoringToolId: '5' }],
+    });
+    expect(viewpoint.camera).toMatchObject({
+      type: 'perspective',
+      viewPoint: { x: 0, y: -10, z: 0 },
+      direction: { x: 0, y: 1, z: 0 },
+      upVector: { x: 0, y: 0, z: 1 },
+    });
+    expect(viewpoint.camera?.fieldOfView).toBeCloseTo(60);
+    expect(listener).toHaveBeenCalledOnce();
+    expect(service.getTopics()).toEqual([topic]);
+  });
+
+  describe('with markups', () => {
+    const redlineService = {
+      serviceName: 'RedlineService',
+      getRedlineViewKeys: () => ['view-1'],
+      getRedlineView: () => ({ id: 'view-1', items: [] }),
+      setActiveView: vi.fn(async () => true),
+    };
+    const noteTextService = {
+      serviceName: 'NoteTextService',
+      getNoteTextKeys: () => ['note-1'],
+      getNoteText: () => ({
+        id: 'note-1',
+        type: 'Communicator.Markup.Note.NoteText',
+        text: 'Missing beam\nCheck level 2',
+        status: 'resolved',
+        assignee: 'jane@example.com',
+        comments: [
+          {
+            id: 'comment-1',
+            author: 'john@example.com',
+            timestamp: '2024-05-02T10:00:00.000Z',
+            message: 'Fixed in revision B',
+          },
+        ],
+      }),
+      setActiveNoteText: vi.fn(async () => true),
+    };
+
+    beforeEach(() => {
+      registerService(redlineService as any);
+      registerService(noteTextService as any);
+    });
+
+    afterEach(() => {
+      unregisterService('RedlineService');
+      unregisterService('NoteTextService');
+    });
+
+    it('should create a topic for each redline view and note text', async () => {
+      const camera = webViewer.view.getCamera();
+      webViewer.view.getCamera.mockClear();
+      webViewer.view.getCamera.mockReturnValueOnce(camera);
+
+      const topics = await service.createTopicsFromMarkups();
+
+      expect(topics.map((topic) => topic.title)).toEqual(['Review 1', 'Missing beam']);
+      expect(topics[0].viewpoints[0].markupViewId).toBe('view-1');
+      expect(topics[1].description).toBe('Missing beam\nCheck level 2');
+      expect(topics[1]).toMatchObject({
+        status: 'Resolved',
+        assignedTo: 'jane@example.com',
+        comments: [
+          {
+            guid: 'comment-1',
+            date: '2024-05-02T10:00:00.000Z',
+            author: 'john@example.com',
+            comment: 'Fixed in revision B',
+          },
+        ],
+      });
+      expect(redlineService.setActiveView).toHaveBeenCalledWith('view-1');
+      expect(noteTextService.setActiveNoteText).toHaveBeenCalledWith('note-1');
+      expect(webViewer.view.setCamera).toHaveBeenCalledWith(camera);
+    });
+
+    it('should activate the redline view of a viewpoint', async () => {
+      const topic = await service.createTopicFromRedlineView('view-1', { title: 'Markup' });
+      redlineService.setActiveView.mockClear();
+
+      await service.activateViewpoint(topic.guid);
+
+      expect(redlineService.setActiveView).toHaveBeenCalledWith('view-1');
+      await expect(service.createTopicFromRedlineView('view-2')).rejects.toThrow(
+        'Redline view with ID view-2 not found',
+      );
+    });
+  });
+
+  it.each<BcfVersion>(['2.1', '3.0'])(
+    'should export and import the topics in BCF %s',
+    async (version) => {
+      registerService({
+        serviceName: 'SnapshotService',
+        takeSnapshot: vi.fn(async () => new Blob(['snapshot'], { type: 'image/png' })),
+      } as any);
+
+      const created = await service.createTopic({ title: 'Clash', priority: 'High' });
+      const viewpointGuid = created.viewpoints[0].guid;
+      service.updateTopic(created.guid, { status: 'Closed' });
+      service.addComment(created.guid, 'Moved the duct', viewpointGuid);
+      const topic = service.getTopic(created.guid)!;
+
+      const archive = await service.exportBcf(version);
+      unregisterService('SnapshotService');
+
+      const files = await readZip(archive);
+      expect(files.map((file) => file.name)).toEqual([
+        'bcf.version',
+        ...(version === '3.0' ? ['extensions.xml'] : []),
+        `${topic.guid}/markup.bcf`,
+        `${topic.guid}/${viewpointGuid}.bcfv`,
+        `${topic.guid}/${viewpointGuid}.png`,
+      ]);
+      const readFile = (name: string) =>
+        new TextDecoder().decode(files.find((file) => file.name === name)?.data);
+      const markup = readFile(`${topic.guid}/markup.bcf`);
+      expect(markup.includes('<Comments>')).toBe(version === '3.0');
+      if (version === '3.0') {
+        expect(readFile('extensions.xml')).toContain(
+          '<Extensions><TopicTypes><TopicType>Issue</TopicType></TopicTypes>' +
+            '<TopicStatuses><TopicStatus>Closed</TopicStatus></TopicStatuses>' +
+            '<Priorities><Priority>High</Priority></Priorities></Extensions>',
+        );
+      }
+
+      service.clear();
+      const listener = vi.fn();
+      service.addEventListener('hoops-bcf-topics-changed', listener);
+      const imported = await service.importBcf(archive);
+
+      const { snapshot, ...viewpoint } = imported[0].viewpoints[0];
+      expect(snapshot?.type).toBe('image/png');
+      expect(snapshot?.size).toBe(8);
+      expect(viewpoint).toEqual({
+        ...topic.viewpoints[0],
+        snapshot: undefined,
+        camera: {
+          ...topic.viewpoints[0].camera,
+          aspectRatio: version === '3.0' ? 1 : undefined,
+        },
+      });
+      expect({ ...imported[0], viewpoints: [] }).toEqual({ ...topic, viewpoints: [] });
+      expect(service.getTopics()).toHaveLength(1);
+      expect(listener).toHaveBeenCalledOnce();
+    },
+  );
+
+  it('should activate the viewpoints of the imported topics', async () => {
+    const topic = await service.createTopic({ title: 'Clash' });
+    const archive = await service.exportBcf();
+    const [imported] = await service.importBcf(archive, { replace: true });
+    const listener = vi.fn();
+    service.addEventListener('hoops-bcf-viewpoint-activated', listener);
+
+    await service.activateViewpoint(imported.guid);
+
+    expect(webViewer.model.setNodesVisibility.mock.calls).toEqual([
+      [[0], true],
+      [[5], false],
+    ]);
+    expect(webViewer.selectionManager.clear).toHaveBeenCalled();
+    expect(webViewer.selectionManager.add).toHaveBeenCalledOnce();
+
+    const camera = webViewer.view.setCamera.mock.calls[0][0];
+    expect(camera.getPosition().y).toBeCloseTo(-10000);
+    expect(camera.getTarget().y).toBeCloseTo(0);
+    expect(camera.getHeight()).toBeCloseTo(2 * 10000 * Math.tan(Math.PI / 6));
+    expect(listener.mock.calls[0][0].detail).toEqual({
+      topicGuid: topic.guid,
+      viewpointGuid: topic.viewpoints[0].guid,
+    });
+  });
+
+  it('should read the deflated archives', async () => {
+    const data = new TextEncoder().encode('<Version VersionId="2.1" />');
+    const bytes = new Uint8Array(
+      await createZip([{ name: 'bcf.version', data: await deflateRaw(data) }]).arrayBuffer(),
+    );
+    const view = new DataView(bytes.buffer);
+    // Switch the method of the single entry to deflate in its local header and directory record
+    view.setUint16(8, 8, true);
+    view.setUint16(view.getUint32(bytes.length - 6, true) + 10, 8, true);
+
+    const [file] = await readZip(new Blob([bytes]));
+
+    expect(new TextDecoder().decode(file.data)).toBe('<Version VersionId="2.1" />');
+  });
+
+  it('should reject the invalid archives and the unknown topics', async () => {
+    await expect(service.importBcf(new Blob(['not a zip']))).rejects.toThrow(
+      'Invalid ZIP archive: end of central directory not found',
+    );
+    await expect(service.importBcf(createZip([]))).rejects.toThrow(
+      'Invalid BCF archive: bcf.version not found',
+    );
+    expect(() => service.updateTopic('unknown', { status: 'Closed' })).toThrow(
+      'BCF topic unknown not found',
+    );
+
+    const topic = await service.createTopic({ title: 'Clash' });
+    expect(() => service.addComment(topic.guid, 'Comment', 'unknown')).toThrow(
+      `BCF viewpoint unknown not found in topic ${topic.guid}`,
+    );
+    expect(service.removeTopic(topic.guid)).toBe(true);
+    expect(service.removeTopic(topic.guid)).toBe(false);
+  });
+});
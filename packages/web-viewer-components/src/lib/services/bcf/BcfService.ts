@@ -0,0 +1,509 @@
+import { core, createUuid, NodeId, Selection, Uuid } from '@ts3d-hoops/web-viewer';
+import { getService, tryGetService } from '../serviceRegistry';
+import type { INoteTextService, NoteTextStatus } from '../notetext';
+import type { IRedlineService } from '../redline';
+import type { ISnapshotService } from '../snapshot';
+import {
+  BcfCamera,
+  BcfComment,
+  BcfComponent,
+  BcfImportOptions,
+  BcfTopic,
+  BcfTopicInit,
+  BcfVersion,
+  BcfViewpoint,
+  BcfViewpointActivatedDetail,
+  IBcfService,
+} from './types';
+import {
+  fromBcfCamera,
+  getSnapshotFileName,
+  getViewpointFileName,
+  parseMarkup,
+  parseVersion,
+  parseViewpoint,
+  serializeExtensions,
+  serializeMarkup,
+  serializeVersion,
+  serializeViewpoint,
+  toBcfCamera,
+} from './utils';
+import { createZip, readZip, ZipEntry } from './zip';
+
+/**
+ * The originating system of the components referencing the nodes without IFC GUID by node id.
+ */
+export const BcfOriginatingSystem = 'HOOPS Visualize Web';
+
+/**
+ * The topic statuses of the review statuses of the note texts.
+ */
+const NoteTextTopicStatuses: Record<NoteTextStatus, string> = {
+  open: 'Open',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+function cloneTopic(topic: BcfTopic): BcfTopic {
+  return {
+    ...topic,
+    comments: topic.comments.map((comment) => ({ ...comment })),
+    viewpoints: topic.viewpoints.map((viewpoint) => ({ ...viewpoint })),
+  };
+}
+
+/**
+ * Service class managing BCF (BIM Collaboration Format) topics, to exchange issues with the BIM
+ * applications such as Revit or Solibri.
+ *
+ * Topics are created from the redline views, the note texts or the current state of the viewer,
+ * each with a viewpoint holding the camera, the selection, the visibility and a snapshot of the
+ * viewer. The elements are referenced by their IFC GUID, the nodes without one by their node id.
+ * Topics are exported to and imported from `.bcfzip` archives, in BCF 2.1 or 3.0.
+ *
+ * The snapshots are taken with the SnapshotService when it is registered.
+ *
+ * @fires hoops-bcf-topics-changed - When topics are created, updated, removed or imported
+ * @fires hoops-bcf-viewpoint-activated - When a viewpoint has been applied to the viewer
+ * @fires hoops-bcf-service-reset - When the service is reset with a new web viewer
+ *
+ * @example
+ * ```typescript
+ * const bcfService = getService<IBcfService>('BcfService');
+ * bcfService.author = 'jane.doe@example.com';
+ *
+ * await bcfService.createTopicsFromMarkups();
+ * const archive = await bcfService.exportBcf('3.0');
+ *
+ * const [topic] = await bcfService.importBcf(file);
+ * await bcfService.activateViewpoint(topic.guid);
+ * ```
+ */
+export default class BcfService extends EventTarget implements IBcfService {
+  public readonly serviceName = 'BcfService' as const;
+
+  public author = 'anonymous';
+
+  private _webViewer?: core.IWebViewer;
+  private topics = new Map<string, BcfTopic>();
+
+  get webViewer(): core.IWebViewer | undefined {
+    return this._webViewer;
+  }
+
+  set webViewer(webViewer: core.IWebViewer | undefined) {
+    if (this._webViewer === webViewer) {
+      return;
+    }
+
+    this._webViewer = webViewer;
+    this.reset();
+  }
+
+  public getTopics(): BcfTopic[] {
+    return [...this.topics.values()].map(cloneTopic);
+  }
+
+  public getTopic(guid: string): BcfTopic | undefined {
+    const topic = this.topics.get(guid);
+    return topic ? cloneTopic(topic) : undefined;
+  }
+
+  public async createTopic(topic: BcfTopicInit): Promise<BcfTopic> {
+    return this.addTopic(topic, await this.captureViewpoint());
+  }
+
+  public async createTopicFromRedlineView(
+    markupViewId: Uuid,
+    topic: Partial<BcfTopicInit> = {},
+  ): Promise<BcfTopic> {
+    if (!this._webViewer) {
+      throw new Error('WebViewer is not set');
+    }
+
+    const markupView = this._webViewer.markupManager.getMarkupView(markupViewId);
+    if (!markupView) {
+      throw new Error(`Redline view with ID ${markupViewId} not found`);
+    }
+
+    // Activating the view restores its camera and displays its redlines for the snapshot
+    const redlineService = getService<IRedlineService>('RedlineService');
+    if (!(await redlineService.setActiveView(markupViewId))) {
+      throw new Error(`Failed to activate redline view with ID ${markupViewId}`);
+    }
+
+    const viewpoint = await this.captureViewpoint();
+    viewpoint.markupViewId = markupViewId;
+    return this.addTopic({ ...topic, title: topic.title ?? markupView.getName() }, viewpoint);
+  }
+
+  public async createTopicFromNoteText(
+    noteTextId: Uuid,
+    topic: Partial<BcfTopicInit> = {},
+  ): Promise<BcfTopic> {
+    const noteTextService = getService<INoteTextService>('NoteTextService');
+    const noteText = noteTextService.getNoteText(noteTextId);
+    if (!noteText) {
+      throw new Error(`Note text with ID ${noteTextId} not found`);
+    }
+
+    await noteTextService.setActiveNoteText(noteTextId);
+    const viewpoint = await this.captureViewpoint();
+    // The review data of the note becomes the status, the assignee and the comments of the topic
+    return this.addTopic(
+      {
+        ...topic,
+        title: topic.title ?? (noteText.text.split('\n')[0] || 'Note'),
+        description: topic.description ?? noteText.text,
+        status: topic.status ?? NoteTextTopicStatuses[noteText.status],
+        assignedTo: topic.assignedTo ?? noteText.assignee,
+      },
+      viewpoint,
+      noteText.comments.map(
+        (comment): BcfComment => ({
+          guid: comment.id,
+          date: comment.timestamp,
+          author: comment.author,
+          comment: comment.message,
+        }),
+      ),
+    );
+  }
+
+  public async createTopicsFromMarkups(): Promise<BcfTopic[]> {
+    if (!this._webViewer) {
+      throw new Error('WebViewer is not set');
+    }
+
+    const view = this._webViewer.view;
+    const camera = view.getCamera();
+    const topics: BcfTopic[] = [];
+
+    for (const markupViewId of tryGetService<IRedlineService>(
+      'RedlineService',
+    )?.getRedlineViewKeys() ?? []) {
+      topics.push(await this.createTopicFromRedlineView(markupViewId));
+    }
+
+    for (const noteTextId of tryGetService<INoteTextService>(
+      'NoteTextService',
+    )?.getNoteTextKeys() ?? []) {
+      topics.push(await this.createTopicFromNoteText(noteTextId));
+    }
+
+    // Each markup moved the camera, restore the one the user was looking through
+    view.setCamera(camera);
+    return topics;
+  }
+
+  public updateTopic(guid: string, changes: Partial<BcfTopicInit>): BcfTopic {
+    const topic = this.getExistingTopic(guid);
+    Object.assign(topic, changes, { modifiedDate: new Date().toISOString() });
+    this.dispatchTopicsChanged();
+    return cloneTopic(topic);
+  }
+
+  public removeTopic(guid: string): boolean {
+    const removed = this.topics.delete(guid);
+    if (removed) {
+      this.dispatchTopicsChanged();
+    }
+    return removed;
+  }
+
+  public addComment(topicGuid: string, comment: string, viewpointGuid?: string): BcfComment {
+    const topic = this.getExistingTopic(topicGuid);
+    if (viewpointGuid && !topic.viewpoints.some((viewpoint) => viewpoint.guid === viewpointGuid)) {
+      throw new Error(`BCF viewpoint ${viewpointGuid} not found in topic ${topicGuid}`);
+    }
+
+    const bcfComment: BcfComment = {
+      guid: createUuid(),
+      date: new Date().toISOString(),
+      author: this.author,
+      comment,
+      viewpointGuid,
+    };
+    topic.comments.push(bcfComment);
+    this.dispatchTopicsChanged();
+    return { ...bcfComment };
+  }
+
+  public async captureViewpoint(): Promise<BcfViewpoint> {
+    if (!this._webViewer) {
+      throw new Error('WebViewer is not set');
+    }
+
+    const { view, model, selectionManager } = this._webViewer;
+    const visibilityState = await model.getVisibilityState(model.getAbsoluteRootNode());
+    const selectedNodeIds = new Set<NodeId>(
+      selectionManager.getResults().map((item) => item.getNodeId()),
+    );
+
+    return {
+      guid: createUuid(),
+      camera: toBcfCamera(view.getCamera(), this.getMetersPerUnit()),
+      selection: [...selectedNodeIds].map((nodeId) => this.toComponent(nodeId)),
+      visibility: {
+        defaultVisibility: visibilityState.defaultVisibility,
+        exceptions: [...visibilityState.visibilityExceptions].map((nodeId) =>
+          this.toComponent(nodeId),
+        ),
+      },
+      snapshot: await tryGetService<ISnapshotService>('SnapshotService')?.takeSnapshot({
+        format: 'png',
+      }),
+    };
+  }
+
+  public async activateViewpoint(topicGuid: string, viewpointGuid?: string): Promise<void> {
+    if (!this._webViewer) {
+      throw new Error('WebViewer is not set');
+    }
+
+    const topic = this.getExistingTopic(topicGuid);
+    const viewpoint = viewpointGuid
+      ? topic.viewpoints.find((viewpoint) => viewpoint.guid === viewpointGuid)
+      : topic.viewpoints[0];
+    if (!viewpoint) {
+      throw new Error(`BCF viewpoint ${viewpointGuid ?? ''} not found in topic ${topicGuid}`);
+    }
+
+    const { view, model, selectionManager } = this._webViewer;
+
+    const redlineService = tryGetService<IRedlineService>('RedlineService');
+    if (viewpoint.markupViewId && redlineService?.getRedlineView(viewpoint.markupViewId)) {
+      await redlineService.setActiveView(viewpoint.markupViewId);
+    }
+
+    const visibility = viewpoint.visibility;
+    const visibilityExceptions = visibility ? this.toNodeIds(visibility.exceptions) : [];
+    // A viewpoint hiding everything most likely references elements missing from the model
+    if (visibility && (visibility.defaultVisibility || visibilityExceptions.length > 0)) {
+      const rootId = model.getAbsoluteRootNode();
+      await model.resetNodesVisibility();
+      await model.setNodesVisibility([rootId], visibility.defaultVisibility);
+      if (visibilityExceptions.length > 0) {
+        await model.setNodesVisibility(visibilityExceptions, !visibility.defaultVisibility);
+      }
+    }
+
+    selectionManager.clear();
+    const selection = this.toNodeIds(viewpoint.selection);
+    if (selection.length > 0) {
+      selectionManager.add(selection.map((nodeId) => Selection.SelectionItem.create(nodeId)));
+    }
+
+    // The camera is applied last since activating a redline view moves it
+    if (viewpoint.camera) {
+      const metersPerUnit = this.getMetersPerUnit();
+      const targetDistance = await this.getTargetDistance(viewpoint.camera, metersPerUnit);
+      view.setCamera(fromBcfCamera(viewpoint.camera, metersPerUnit, targetDistance));
+    }
+
+    this.dispatchEvent(
+      new CustomEvent<BcfViewpointActivatedDetail>('hoops-bcf-viewpoint-activated', {
+        bubbles: true,
+        composed: true,
+        detail: { topicGuid, viewpointGuid: viewpoint.guid },
+      }),
+    );
+  }
+
+  public async exportBcf(version: BcfVersion = '2.1'): Promise<Blob> {
+    const encoder = new TextEncoder();
+    const entries: ZipEntry[] = [
+      { name: 'bcf.version', data: encoder.encode(serializeVersion(version)) },
+    ];
+    if (version === '3.0') {
+      // BCF 3.0 importers only accept the values declared by the extensions of the archive
+      entries.push({
+        name: 'extensions.xml',
+        data: encoder.encode(serializeExtensions([...this.topics.values()])),
+      });
+    }
+
+    for (const topic of this.topics.values()) {
+      entries.push({
+        name: `${topic.guid}/markup.bcf`,
+        data: encoder.encode(serializeMarkup(topic, version)),
+      });
+
+      for (const viewpoint of topic.viewpoints) {
+        entries.push({
+          name: `${topic.guid}/${getViewpointFileName(viewpoint.guid)}`,
+          data: encoder.encode(serializeViewpoint(viewpoint, version)),
+        });
+
+        if (viewpoint.snapshot) {
+          entries.push({
+            name: `${topic.guid}/${getSnapshotFileName(viewpoint.guid)}`,
+            data: new Uint8Array(await viewpoint.snapshot.arrayBuffer()),
+          });
+        }
+      }
+    }
+
+    return createZip(entries);
+  }
+
+  public async importBcf(file: Blob, options: BcfImportOptions = {}): Promise<BcfTopic[]> {
+    const decoder = new TextDecoder();
+    const files = new Map((await readZip(file)).map((entry) => [entry.name, entry.data]));
+
+    const versionFile = files.get('bcf.version');
+    if (!versionFile) {
+      throw new Error('Invalid BCF archive: bcf.version not found');
+    }
+
+    const version = parseVersion(decoder.decode(versionFile));
+    if (!version || !/^[23]\./.test(version)) {
+      throw new Error(`Unsupported BCF version ${version}`);
+    }
+
+    const topics: BcfTopic[] = [];
+    for (const [name, data] of files) {
+      const folder = /^([^/]+)\/markup\.bcf$/.exec(name)?.[1];
+      if (!folder) {
+        continue;
+      }
+
+      const { topic, viewpointFiles } = parseMarkup(decoder.decode(data), name);
+      for (const viewpointFile of viewpointFiles) {
+        const viewpointData =
+          viewpointFile.viewpoint && files.get(`${folder}/${viewpointFile.viewpoint}`);
+        if (!viewpointData) {
+          continue;
+        }
+
+        const viewpoint = parseViewpoint(
+          decoder.decode(viewpointData),
+          viewpointFile.viewpoint!,
+          viewpointFile.guid,
+        );
+
+        const snapshotData =
+          viewpointFile.snapshot && files.get(`${folder}/${viewpointFile.snapshot}`);
+        if (snapshotData) {
+          viewpoint.snapshot = new Blob([snapshotData], {
+            type: /\.jpe?g$/i.test(viewpointFile.snapshot!) ? 'image/jpeg' : 'image/png',
+          });
+        }
+
+        topic.viewpoints.push(viewpoint);
+      }
+
+      topics.push(topic);
+    }
+
+    if (options.replace) {
+      this.topics.clear();
+    }
+
+    for (const topic of topics) {
+      this.topics.set(topic.guid, topic);
+    }
+
+    this.dispatchTopicsChanged();
+    return topics.map(cloneTopic);
+  }
+
+  public clear(): void {
+    this.topics.clear();
+    this.dispatchTopicsChanged();
+  }
+
+  reset(): void {
+    this.dispatchEvent(
+      new CustomEvent('hoops-bcf-service-reset', { bubbles: true, composed: true }),
+    );
+  }
+
+  private addTopic(
+    init: Partial<BcfTopicInit>,
+    viewpoint: BcfViewpoint,
+    comments: BcfComment[] = [],
+  ): BcfTopic {
+    const topic: BcfTopic = {
+      ...init,
+      guid: createUuid(),
+      title: init.title ?? '',
+      type: init.type ?? 'Issue',
+      status: init.status ?? 'Open',
+      creationDate: new Date().toISOString(),
+      creationAuthor: this.author,
+      comments,
+      viewpoints: [viewpoint],
+    };
+
+    this.topics.set(topic.guid, topic);
+    this.dispatchTopicsChanged();
+    return cloneTopic(topic);
+  }
+
+  private getExistingTopic(guid: string): BcfTopic {
+    const topic = this.topics.get(guid);
+    if (!topic) {
+      throw new Error(`BCF topic ${guid} not found`);
+    }
+    return topic;
+  }
+
+  /**
+   * The size of a model unit in meters, the unit of the BCF coordinates.
+   */
+  private getMetersPerUnit(): number {
+    const model = this._webViewer!.model;
+    return model.getNodeUnitMultiplier(model.getAbsoluteRootNode()) / 1000;
+  }
+
+  /**
+   * Places the target of an imported camera at the depth of the model center, BCF cameras having
+   * no target.
+   */
+  private async getTargetDistance(camera: BcfCamera, metersPerUnit: number): Promise<number> {
+    const bounding = await this._webViewer!.model.getModelBounding(true, false);
+    const center = bounding.center();
+    const extents = bounding.extents();
+    const direction = camera.direction;
+    const length = Math.hypot(direction.x, direction.y, direction.z) || 1;
+
+    const distance =
+      ((center.x - camera.viewPoint.x / metersPerUnit) * direction.x +
+        (center.y - camera.viewPoint.y / metersPerUnit) * direction.y +
+        (center.z - camera.viewPoint.z / metersPerUnit) * direction.z) /
+      length;
+    return distance > 0 ? distance : Math.hypot(extents.x, extents.y, extents.z) || 1;
+  }
+
+  private toComponent(nodeId: NodeId): BcfComponent {
+    const ifcGuid = this._webViewer!.model.getNodeGenericId(nodeId);
+    return ifcGuid
+      ? { ifcGuid }
+      : { originatingSystem: BcfOriginatingSystem, authoringToolId: String(nodeId) };
+  }
+
+  private toNodeIds(components: BcfComponent[]): NodeId[] {
+    const model = this._webViewer!.model;
+    return components.flatMap((component): NodeId[] => {
+      if (component.ifcGuid) {
+        return [...(model.getNodesByGenericId(component.ifcGuid) ?? [])];
+      }
+
+      if (component.originatingSystem === BcfOriginatingSystem && component.authoringToolId) {
+        return [Number(component.authoringToolId)];
+      }
+
+      return [];
+    });
+  }
+
+  private dispatchTopicsChanged(): void {
+    this.dispatchEvent(
+      new CustomEvent('hoops-bcf-topics-changed', {
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+}
@@ -0,0 +1,5 @@
+export { default } from './BcfService';
+export * from './BcfService';
+export * from './types';
+export * from './utils';
+export * from './zip';
@@ -0,0 +1,226 @@
+import { Uuid } from '@ts3d-hoops/web-viewer';
+import { IService } from '../types';
+
+export const BcfVersionValues = ['2.1', '3.0'] as const;
+export type BcfVersion = (typeof BcfVersionValues)[number];
+
+export function isBcfVersion(value: unknown): value is BcfVersion {
+  return BcfVersionValues.includes(value as BcfVersion);
+}
+
+/**
+ * A point or a vector in the BCF coordinate system, in meters.
+ */
+export type BcfPoint3 = {
+  x: number;
+  y: number;
+  z: number;
+};
+
+/**
+ * The camera of a viewpoint.
+ * Perspective cameras have a vertical field of view in degrees, orthogonal cameras have the
+ * vertical extent of the view in meters.
+ */
+export type BcfCamera = {
+  type: 'perspective' | 'orthogonal';
+  viewPoint: BcfPoint3;
+  direction: BcfPoint3;
+  upVector: BcfPoint3;
+  fieldOfView?: number;
+  viewToWorldScale?: number;
+  //! width divided by height, only written by BCF 3.0
+  aspectRatio?: number;
+};
+
+/**
+ * References a model element, by its IFC GUID when it has one or by the id of its authoring tool.
+ * The elements of the viewer without IFC GUID are exported with their node id as authoring tool id.
+ */
+export type BcfComponent = {
+  ifcGuid?: string;
+  authoringToolId?: string;
+  originatingSystem?: string;
+};
+
+export type BcfVisibility = {
+  defaultVisibility: boolean;
+  exceptions: BcfComponent[];
+};
+
+export type BcfViewpoint = {
+  guid: string;
+  camera?: BcfCamera;
+  selection: BcfComponent[];
+  visibility?: BcfVisibility;
+  //! png image of the viewpoint, redlines included when captured from a redline view
+  snapshot?: Blob;
+  //! the redline view the viewpoint was captured from, not exported
+  markupViewId?: Uuid;
+};
+
+export type BcfComment = {
+  guid: string;
+  //! ISO 8601 date
+  date: string;
+  author: string;
+  comment: string;
+  viewpointGuid?: string;
+};
+
+export type BcfTopic = {
+  guid: string;
+  title: string;
+  type: string;
+  status: string;
+  priority?: string;
+  assignedTo?: string;
+  description?: string;
+  //! ISO 8601 date
+  creationDate: string;
+  creationAuthor: string;
+  modifiedDate?: string;
+  comments: BcfComment[];
+  viewpoints: BcfViewpoint[];
+};
+
+/**
+ * The properties of a topic that can be set when creating or updating it.
+ */
+export type BcfTopicInit = Pick<BcfTopic, 'title'> &
+  Partial<Pick<BcfTopic, 'type' | 'status' | 'priority' | 'assignedTo' | 'description'>>;
+
+export type BcfImportOptions = {
+  //! removes the current topics before adding the imported ones, false by default
+  replace?: boolean;
+};
+
+/**
+ * The detail of the `hoops-bcf-viewpoint-activated` event.
+ */
+export type BcfViewpointActivatedDetail = {
+  topicGuid: string;
+  viewpointGuid: string;
+};
+
+/**
+ * Interface for the BCF service, managing the BIM Collaboration Format topics exchanged with
+ * other BIM applications.
+ *
+ * @interface IBcfService
+ * @extends IService
+ */
+export interface IBcfService extends IService {
+  /**
+   * The author of the created topics and comments, usually an email address.
+   */
+  author: string;
+
+  getTopics(): BcfTopic[];
+
+  getTopic(guid: string): BcfTopic | undefined;
+
+  /**
+   * Creates a topic with a viewpoint of the current state of the viewer.
+   *
+   * @param topic - The properties of the topic
+   * @returns A promise that resolves with the created topic
+   */
+  createTopic(topic: BcfTopicInit): Promise<BcfTopic>;
+
+  /**
+   * Creates a topic from a redline view, with a viewpoint captured while the view is active.
+   *
+   * @param markupViewId - The id of the redline view
+   * @param topic - The properties of the topic, the title defaults to the name of the view
+   * @returns A promise that resolves with the created topic
+   */
+  createTopicFromRedlineView(markupViewId: Uuid, topic?: Partial<BcfTopicInit>): Promise<BcfTopic>;
+
+  /**
+   * Creates a topic from a note text, with a viewpoint captured while the note is restored.
+   *
+   * @param noteTextId - The id of the note text
+   * @param topic - The properties of the topic, the title defaults to the text of the note
+   * @returns A promise that resolves with the created topic
+   */
+  createTopicFromNoteText(noteTextId: Uuid, topic?: Partial<BcfTopicInit>): Promise<BcfTopic>;
+
+  /**
+   * Creates a topic for each redline view and each note text of the viewer.
+   *
+   * @returns A promise that resolves with the created topics
+   */
+  createTopicsFromMarkups(): Promise<BcfTopic[]>;
+
+  /**
+   * Updates the properties of a topic.
+   *
+   * @param guid - The guid of the topic
+   * @param changes - The properties to change
+   * @returns The updated topic
+   * @throws {Error} If the topic does not exist
+   */
+  updateTopic(guid: string, changes: Partial<BcfTopicInit>): BcfTopic;
+
+  /**
+   * Removes a topic.
+   *
+   * @param guid - The guid of the topic
+   * @returns True if the topic existed
+   */
+  removeTopic(guid: string): boolean;
+
+  /**
+   * Adds a comment to a topic.
+   *
+   * @param topicGuid - The guid of the topic
+   * @param comment - The text of the comment
+   * @param viewpointGuid - The guid of the viewpoint of the topic the comment refers to
+   * @returns The created comment
+   * @throws {Error} If the topic does not exist
+   */
+  addComment(topicGuid: string, comment: string, viewpointGuid?: string): BcfComment;
+
+  /**
+   * Captures the camera, the selection, the visibility and a snapshot of the viewer.
+   *
+   * @returns A promise that resolves with the viewpoint
+   */
+  captureViewpoint(): Promise<BcfViewpoint>;
+
+  /**
+   * Applies a viewpoint of a topic to the viewer.
+   *
+   * @param topicGuid - The guid of the topic
+   * @param viewpointGuid - The guid of the viewpoint, the first viewpoint of the topic by default
+   * @throws {Error} If the topic or the viewpoint does not exist
+   */
+  activateViewpoint(topicGuid: string, viewpointGuid?: string): Promise<void>;
+
+  /**
+   * Exports the topics as a `.bcfzip` archive.
+   *
+   * @param version - The BCF version to write, 2.1 by default
+   * @returns A promise that resolves with the archive
+   */
+  exportBcf(version?: BcfVersion): Promise<Blob>;
+
+  /**
+   * Imports the topics of a `.bcfzip` archive, BCF 2.1 or 3.0.
+   * The topics replace the existing topics with the same guid.
+   *
+   * @param file - The archive
+   * @param options - The import options
+   * @returns A promise that resolves with the imported topics
+   * @throws {Error} If the archive is not a valid BCF archive
+   */
+  importBcf(file: Blob, options?: BcfImportOptions): Promise<BcfTopic[]>;
+
+  /**
+   * Removes all the topics.
+   */
+  clear(): void;
+
+  reset(): void;
+}
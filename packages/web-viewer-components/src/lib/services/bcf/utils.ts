@@ -0,0 +1,452 @@
+import { Point3 } from '@ts3d-hoops/common';
+import { Camera, Projection } from '@ts3d-hoops/web-viewer';
+import {
+  BcfCamera,
+  BcfComment,
+  BcfComponent,
+  BcfPoint3,
+  BcfTopic,
+  BcfVersion,
+  BcfViewpoint,
+  BcfVisibility,
+} from './types';
+
+/**
+ * The viewpoint and snapshot files of a viewpoint, as referenced by a markup file.
+ */
+export type BcfViewpointFiles = {
+  guid: string;
+  viewpoint?: string;
+  snapshot?: string;
+};
+
+const XmlDeclaration = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+function createXmlDocument(rootName: string): XMLDocument {
+  return document.implementation.createDocument(null, rootName, null);
+}
+
+function appendElement(parent: Element, name: string, text?: string): Element {
+  const element = parent.ownerDocument.createElement(name);
+  if (text !== undefined) {
+    element.textContent = text;
+  }
+  parent.appendChild(element);
+  return element;
+}
+
+function appendOptionalElement(parent: Element, name: string, text: string | undefined): void {
+  if (text !== undefined && text !== '') {
+    appendElement(parent, name, text);
+  }
+}
+
+function serializeXml(xmlDocument: XMLDocument): string {
+  return XmlDeclaration + new XMLSerializer().serializeToString(xmlDocument);
+}
+
+function parseXml(text: string, fileName: string): Element {
+  const xmlDocument = new DOMParser().parseFromString(text, 'application/xml');
+  if (xmlDocument.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Invalid BCF file ${fileName}: malformed XML`);
+  }
+  return xmlDocument.documentElement;
+}
+
+function getChild(parent: Element | undefined, name: string): Element | undefined {
+  return parent ? Array.from(parent.children).find((child) => child.localName === name) : undefined;
+}
+
+function getChildren(parent: Element | undefined, name: string): Element[] {
+  return parent ? Array.from(parent.children).filter((child) => child.localName === name) : [];
+}
+
+function getChildText(parent: Element | undefined, name: string): string | undefined {
+  return getChild(parent, name)?.textContent?.trim() ?? undefined;
+}
+
+export function getViewpointFileName(viewpointGuid: string): string {
+  return `${viewpointGuid}.bcfv`;
+}
+
+export function getSnapshotFileName(viewpointGuid: string): string {
+  return `${viewpointGuid}.png`;
+}
+
+/**
+ * Serializes the `bcf.version` file of an archive.
+ */
+export function serializeVersion(version: BcfVersion): string {
+  const xmlDocument = createXmlDocument('Version');
+  xmlDocument.documentElement.setAttribute('VersionId', version);
+  if (version === '2.1') {
+    appendElement(xmlDocument.documentElement, 'DetailedVersion', version);
+  }
+  return serializeXml(xmlDocument);
+}
+
+/**
+ * Parses the `bcf.version` file of an archive.
+ *
+ * @returns {string | undefined} The version of the archive
+ */
+export function parseVersion(text: string): string | undefined {
+  return parseXml(text, 'bcf.version').getAttribute('VersionId') ?? undefined;
+}
+
+/**
+ * Serializes the `extensions.xml` file of a BCF 3.0 archive, declaring the topic types,
+ * statuses, priorities and assignees used by the topics.
+ */
+export function serializeExtensions(topics: BcfTopic[]): string {
+  const xmlDocument = createXmlDocument('Extensions');
+  const extensions = xmlDocument.documentElement;
+
+  const appendValues = (listName: string, name: string, values: (string | undefined)[]) => {
+    const uniqueValues = [...new Set(values)].filter((value): value is string => !!value);
+    if (uniqueValues.length > 0) {
+      const list = appendElement(extensions, listName);
+      uniqueValues.forEach((value) => appendElement(list, name, value));
+    }
+  };
+
+  // The lists follow the order of the schema
+  appendValues(
+    'TopicTypes',
+    'TopicType',
+    topics.map(({ type }) => type),
+  );
+  appendValues(
+    'TopicStatuses',
+    'TopicStatus',
+    topics.map(({ status }) => status),
+  );
+  appendValues(
+    'Priorities',
+    'Priority',
+    topics.map(({ priority }) => priority),
+  );
+  appendValues(
+    'Users',
+    'User',
+    topics.map(({ assignedTo }) => assignedTo),
+  );
+
+  return serializeXml(xmlDocument);
+}
+
+/**
+ * Serializes the `markup.bcf` file of a topic.
+ * BCF 2.1 lists the comments and the viewpoints after the topic while BCF 3.0 nests them in it.
+ */
+export function serializeMarkup(topic: BcfTopic, version: BcfVersion): string {
+  const xmlDocument = createXmlDocument('Markup');
+  const markup = xmlDocument.documentElement;
+
+  const topicElement = appendElement(markup, 'Topic');
+  topicElement.setAttribute('Guid', topic.guid);
+  topicElement.setAttribute('TopicType', topic.type);
+  topicElement.setAttribute('TopicStatus', topic.status);
+  appendElement(topicElement, 'Title', topic.title);
+  appendOptionalElement(topicElement, 'Priority', topic.priority);
+  appendElement(topicElement, 'CreationDate', topic.creationDate);
+  appendElement(topicElement, 'CreationAuthor', topic.creationAuthor);
+  appendOptionalElement(topicElement, 'ModifiedDate', topic.modifiedDate);
+  appendOptionalElement(topicElement, 'AssignedTo', topic.assignedTo);
+  appendOptionalElement(topicElement, 'Description', topic.description);
+
+  const isVersion3 = version === '3.0';
+  const commentsParent =
+    isVersion3 && topic.comments.length > 0 ? appendElement(topicElement, 'Comments') : markup;
+  for (const comment of topic.comments) {
+    const commentElement = appendElement(commentsParent, 'Comment');
+    commentElement.setAttribute('Guid', comment.guid);
+    appendElement(commentElement, 'Date', comment.date);
+    appendElement(commentElement, 'Author', comment.author);
+    appendElement(commentElement, 'Comment', comment.comment);
+    if (comment.viewpointGuid) {
+      appendElement(commentElement, 'Viewpoint').setAttribute('Guid', comment.viewpointGuid);
+    }
+  }
+
+  const viewpointsParent =
+    isVersion3 && topic.viewpoints.length > 0 ? appendElement(topicElement, 'Viewpoints') : markup;
+  for (const viewpoint of topic.viewpoints) {
+    const viewpointElement = appendElement(
+      viewpointsParent,
+      isVersion3 ? 'ViewPoint' : 'Viewpoints',
+    );
+    viewpointElement.setAttribute('Guid', viewpoint.guid);
+    appendElement(viewpointElement, 'Viewpoint', getViewpointFileName(viewpoint.guid));
+    if (viewpoint.snapshot) {
+      appendElement(viewpointElement, 'Snapshot', getSnapshotFileName(viewpoint.guid));
+    }
+  }
+
+  return serializeXml(xmlDocument);
+}
+
+/**
+ * Parses the `markup.bcf` file of a topic, BCF 2.1 or 3.0.
+ *
+ * @returns The topic without its viewpoints, and the files of the viewpoints
+ * @throws {Error} If the file has no topic
+ */
+export function parseMarkup(
+  text: string,
+  fileName: string,
+): { topic: BcfTopic; viewpointFiles: BcfViewpointFiles[] } {
+  const markup = parseXml(text, fileName);
+  const topicElement = getChild(markup, 'Topic');
+  const guid = topicElement?.getAttribute('Guid');
+  if (!topicElement || !guid) {
+    throw new Error(`Invalid BCF file ${fileName}: topic not found`);
+  }
+
+  const commentElements = [
+    ...getChildren(markup, 'Comment'),
+    ...getChildren(getChild(topicElement, 'Comments'), 'Comment'),
+  ];
+  const viewpointElements = [
+    ...getChildren(markup, 'Viewpoints'),
+    ...getChildren(getChild(topicElement, 'Viewpoints'), 'ViewPoint'),
+  ];
+
+  return {
+    topic: {
+      guid,
+      title: getChildText(topicElement, 'Title') ?? '',
+      type: topicElement.getAttribute('TopicType') ?? '',
+      status: topicElement.getAttribute('TopicStatus') ?? '',
+      priority: getChildText(topicElement, 'Priority'),
+      assignedTo: getChildText(topicElement, 'AssignedTo'),
+      description: getChildText(topicElement, 'Description'),
+      creationDate: getChildText(topicElement, 'CreationDate') ?? '',
+      creationAuthor: getChildText(topicElement, 'CreationAuthor') ?? '',
+      modifiedDate: getChildText(topicElement, 'ModifiedDate'),
+      comments: commentElements.map(
+        (element): BcfComment => ({
+          guid: element.getAttribute('Guid') ?? '',
+          date: getChildText(element, 'Date') ?? '',
+          author: getChildText(element, 'Author') ?? '',
+          comment: getChildText(element, 'Comment') ?? '',
+          viewpointGuid: getChild(element, 'Viewpoint')?.getAttribute('Guid') ?? undefined,
+        }),
+      ),
+      viewpoints: [],
+    },
+    viewpointFiles: viewpointElements.map((element) => ({
+      guid: element.getAttribute('Guid') ?? '',
+      viewpoint: getChildText(element, 'Viewpoint'),
+      snapshot: getChildText(element, 'Snapshot'),
+    })),
+  };
+}
+
+function appendPoint(parent: Element, name: string, point: BcfPoint3): void {
+  const element = appendElement(parent, name);
+  appendElement(element, 'X', String(point.x));
+  appendElement(element, 'Y', String(point.y));
+  appendElement(element, 'Z', String(point.z));
+}
+
+function parsePoint(element: Element | undefined): BcfPoint3 {
+  return {
+    x: Number(getChildText(element, 'X') ?? 0),
+    y: Number(getChildText(element, 'Y') ?? 0),
+    z: Number(getChildText(element, 'Z') ?? 0),
+  };
+}
+
+function appendComponents(parent: Element, components: BcfComponent[]): void {
+  for (const component of components) {
+    const element = appendElement(parent, 'Component');
+    if (component.ifcGuid) {
+      element.setAttribute('IfcGuid', component.ifcGuid);
+    }
+    appendOptionalElement(element, 'OriginatingSystem', component.originatingSystem);
+    appendOptionalElement(element, 'AuthoringToolId', component.authoringToolId);
+  }
+}
+
+function parseComponents(parent: Element | undefined): BcfComponent[] {
+  return getChildren(parent, 'Component').map((element) => ({
+    ifcGuid: element.getAttribute('IfcGuid') ?? undefined,
+    originatingSystem: getChildText(element, 'OriginatingSystem'),
+    authoringToolId: getChildText(element, 'AuthoringToolId'),
+  }));
+}
+
+/**
+ * Serializes the `.bcfv` file of a viewpoint.
+ * The aspect ratio of the camera is only written by BCF 3.0.
+ */
+export function serializeViewpoint(viewpoint: BcfViewpoint, version: BcfVersion): string {
+  const xmlDocument = createXmlDocument('VisualizationInfo');
+  const visualizationInfo = xmlDocument.documentElement;
+  visualizationInfo.setAttribute('Guid', viewpoint.guid);
+
+  if (viewpoint.selection.length > 0 || viewpoint.visibility) {
+    const components = appendElement(visualizationInfo, 'Components');
+    if (viewpoint.selection.length > 0) {
+      appendComponents(appendElement(components, 'Selection'), viewpoint.selection);
+    }
+
+    // The visibility is mandatory in the components, everything is visible by default
+    const visibility: BcfVisibility = viewpoint.visibility ?? {
+      defaultVisibility: true,
+      exceptions: [],
+    };
+    const visibilityElement = appendElement(components, 'Visibility');
+    visibilityElement.setAttribute('DefaultVisibility', String(visibility.defaultVisibility));
+    if (visibility.exceptions.length > 0) {
+      appendComponents(appendElement(visibilityElement, 'Exceptions'), visibility.exceptions);
+    }
+  }
+
+  const camera = viewpoint.camera;
+  if (camera) {
+    const isOrthogonal = camera.type === 'orthogonal';
+    const cameraElement = appendElement(
+      visualizationInfo,
+      isOrthogonal ? 'OrthogonalCamera' : 'PerspectiveCamera',
+    );
+    appendPoint(cameraElement, 'CameraViewPoint', camera.viewPoint);
+    appendPoint(cameraElement, 'CameraDirection', camera.direction);
+    appendPoint(cameraElement, 'CameraUpVector', camera.upVector);
+    if (isOrthogonal) {
+      appendElement(cameraElement, 'ViewToWorldScale', String(camera.viewToWorldScale ?? 1));
+    } else {
+      appendElement(cameraElement, 'FieldOfView', String(camera.fieldOfView ?? 60));
+    }
+    if (version === '3.0') {
+      appendElement(cameraElement, 'AspectRatio', String(camera.aspectRatio ?? 1));
+    }
+  }
+
+  return serializeXml(xmlDocument);
+}
+
+/**
+ * Parses the `.bcfv` file of a viewpoint, BCF 2.1 or 3.0.
+ *
+ * @param guid - The guid of the viewpoint in the markup file
+ * @returns The viewpoint, without snapshot
+ */
+export function parseViewpoint(text: string, fileName: string, guid: string): BcfViewpoint {
+  const visualizationInfo = parseXml(text, fileName);
+  const components = getChild(visualizationInfo, 'Components');
+  const visibilityElement = getChild(components, 'Visibility');
+
+  const orthogonalCamera = getChild(visualizationInfo, 'OrthogonalCamera');
+  const cameraElement = orthogonalCamera ?? getChild(visualizationInfo, 'PerspectiveCamera');
+  const aspectRatio = getChildText(cameraElement, 'AspectRatio');
+  const camera: BcfCamera | undefined = cameraElement && {
+    type: orthogonalCamera ? 'orthogonal' : 'perspective',
+    viewPoint: parsePoint(getChild(cameraElement, 'CameraViewPoint')),
+    direction: parsePoint(getChild(cameraElement, 'CameraDirection')),
+    upVector: parsePoint(getChild(cameraElement, 'CameraUpVector')),
+    ...(orthogonalCamera
+      ? { viewToWorldScale: Number(getChildText(cameraElement, 'ViewToWorldScale') ?? 1) }
+      : { fieldOfView: Number(getChildText(cameraElement, 'FieldOfView') ?? 60) }),
+    ...(aspectRatio !== undefined && { aspectRatio: Number(aspectRatio) }),
+  };
+
+  return {
+    // The comments reference the viewpoints by the guid of the markup file
+    guid: guid || (visualizationInfo.getAttribute('Guid') ?? ''),
+    camera,
+    selection: parseComponents(getChild(components, 'Selection')),
+    visibility: visibilityElement && {
+      // The visibility defaults to false in the BCF schemas
+      defaultVisibility: visibilityElement.getAttribute('DefaultVisibility') === 'true',
+      exceptions: parseComponents(getChild(visibilityElement, 'Exceptions')),
+    },
+  };
+}
+
+function scalePoint(point: BcfPoint3, factor: number): BcfPoint3 {
+  return { x: point.x * factor, y: point.y * factor, z: point.z * factor };
+}
+
+function normalizePoint(point: BcfPoint3): BcfPoint3 {
+  const length = Math.hypot(point.x, point.y, point.z);
+  return length > 0 ? scalePoint(point, 1 / length) : { x: 0, y: 0, z: 1 };
+}
+
+function toPoint3(point: BcfPoint3): Point3 {
+  return new Point3(point.x, point.y, point.z);
+}
+
+/**
+ * Converts a camera of the viewer to a BCF camera.
+ *
+ * @param camera - The camera of the viewer
+ * @param metersPerUnit - The size of a model unit in meters
+ */
+export function toBcfCamera(camera: Camera, metersPerUnit: number): BcfCamera {
+  const position: BcfPoint3 = camera.getPosition();
+  const target: BcfPoint3 = camera.getTarget();
+  const direction = {
+    x: target.x - position.x,
+    y: target.y - position.y,
+    z: target.z - position.z,
+  };
+  const bcfCamera = {
+    viewPoint: scalePoint(position, metersPerUnit),
+    direction: normalizePoint(direction),
+    upVector: normalizePoint(camera.getUp()),
+    aspectRatio: camera.getWidth() / camera.getHeight(),
+  };
+
+  if (camera.getProjection() === Projection.Orthographic) {
+    return {
+      type: 'orthogonal',
+      ...bcfCamera,
+      viewToWorldScale: camera.getHeight() * metersPerUnit,
+    };
+  }
+
+  const distance = Math.hypot(direction.x, direction.y, direction.z);
+  return {
+    type: 'perspective',
+    ...bcfCamera,
+    fieldOfView: (2 * Math.atan(camera.getHeight() / 2 / distance) * 180) / Math.PI,
+  };
+}
+
+/**
+ * Converts a BCF camera to a camera of the viewer.
+ * BCF cameras have no target, it is placed along the direction of the camera.
+ *
+ * @param bcfCamera - The BCF camera
+ * @param metersPerUnit - The size of a model unit in meters
+ * @param targetDistance - The distance of the target from the camera position, in model units
+ */
+export function fromBcfCamera(
+  bcfCamera: BcfCamera,
+  metersPerUnit: number,
+  targetDistance: number,
+): Camera {
+  const position = scalePoint(bcfCamera.viewPoint, 1 / metersPerUnit);
+  const direction = normalizePoint(bcfCamera.direction);
+  const target = {
+    x: position.x + direction.x * targetDistance,
+    y: position.y + direction.y * targetDistance,
+    z: position.z + direction.z * targetDistance,
+  };
+
+  const isOrthogonal = bcfCamera.type === 'orthogonal';
+  const height = isOrthogonal
+    ? (bcfCamera.viewToWorldScale ?? 1) / metersPerUnit
+    : 2 * targetDistance * Math.tan((((bcfCamera.fieldOfView ?? 60) / 2) * Math.PI) / 180);
+
+  return Camera.create(
+    toPoint3(position),
+    toPoint3(target),
+    toPoint3(normalizePoint(bcfCamera.upVector)),
+    isOrthogonal ? Projection.Orthographic : Projection.Perspective,
+    height * (bcfCamera.aspectRatio ?? 1),
+    height,
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * A minimal ZIP archive reader and writer, enough for the BCF archives.
+ * The archives are written without compression, the deflated entries are read with the
+ * `DecompressionStream` of the browser. ZIP64 archives are not supported.
+ */
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array;
+};
+
+const LocalFileHeaderSignature = 0x04034b50;
+const CentralDirectorySignature = 0x02014b50;
+const EndOfCentralDirectorySignature = 0x06054b50;
+const EndOfCentralDirectorySize = 22;
+const Utf8Flag = 0x0800;
+const StoredMethod = 0;
+const DeflatedMethod = 8;
+
+let crcTable: Uint32Array | undefined;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; ++n) {
+      let c = n;
+      for (let k = 0; k < 8; ++k) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = table[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encodes a date in the MS-DOS format of the ZIP headers.
+ */
+function toDosDateTime(date: Date): [number, number] {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day =
+    ((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate();
+  return [time, day];
+}
+
+/**
+ * Creates a ZIP archive storing the entries without compression.
+ *
+ * @param entries - The files of the archive
+ * @param date - The modification date of the files
+ * @returns The archive
+ */
+export function createZip(entries: ZipEntry[], date = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const [time, day] = toDosDateTime(date);
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const header = new Uint8Array(30 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, LocalFileHeaderSignature, true);
+    headerView.setUint16(4, 20, true);
+    headerView.setUint16(6, Utf8Flag, true);
+    headerView.setUint16(8, StoredMethod, true);
+    headerView.setUint16(10, time, true);
+    headerView.setUint16(12, day, true);
+    headerView.setUint32(14, crc, true);
+    headerView.setUint32(18, entry.data.length, true);
+    headerView.setUint32(22, entry.data.length, true);
+    headerView.setUint16(26, name.length, true);
+    header.set(name, 30);
+
+    const record = new Uint8Array(46 + name.length);
+    const recordView = new DataView(record.buffer);
+    recordView.setUint32(0, CentralDirectorySignature, true);
+    recordView.setUint16(4, 20, true);
+    recordView.setUint16(6, 20, true);
+    recordView.setUint16(8, Utf8Flag, true);
+    recordView.setUint16(10, StoredMethod, true);
+    recordView.setUint16(12, time, true);
+    recordView.setUint16(14, day, true);
+    recordView.setUint32(16, crc, true);
+    recordView.setUint32(20, entry.data.length, true);
+    recordView.setUint32(24, entry.data.length, true);
+    recordView.setUint16(28, name.length, true);
+    recordView.setUint32(42, offset, true);
+    record.set(name, 46);
+
+    parts.push(header, entry.data);
+    centralDirectory.push(record);
+    offset += header.length + entry.data.length;
+  }
+
+  const centralDirectorySize = centralDirectory.reduce((size, record) => size + record.length, 0);
+  const end = new Uint8Array(EndOfCentralDirectorySize);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, EndOfCentralDirectorySignature, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralDirectorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new DecompressionStream('deflate-raw');
+  const writer = stream.writable.getWriter();
+  const [, inflated] = await Promise.all([
+    writer.write(data).then(() => writer.close()),
+    new Response(stream.readable).arrayBuffer(),
+  ]);
+  return new Uint8Array(inflated);
+}
+
+/**
+ * Reads the files of a ZIP archive, the directories are skipped.
+ *
+ * @param file - The archive
+ * @returns A promise that resolves with the files of the archive
+ * @throws {Error} If the file is not a ZIP archive or uses an unsupported compression method
+ */
+export async function readZip(file: Blob): Promise<ZipEntry[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record is followed by a comment of at most 64KB
+  let endOffset = bytes.length - EndOfCentralDirectorySize;
+  const minEndOffset = Math.max(0, endOffset - 0xffff);
+  while (
+    endOffset >= minEndOffset &&
+    view.getUint32(endOffset, true) !== EndOfCentralDirectorySignature
+  ) {
+    --endOffset;
+  }
+  if (endOffset < minEndOffset) {
+    throw new Error('Invalid ZIP archive: end of central directory not found');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let recordOffset = view.getUint32(endOffset + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let index = 0; index < entryCount; ++index) {
+    if (view.getUint32(recordOffset, true) !== CentralDirectorySignature) {
+      throw new Error('Invalid ZIP archive: corrupted central directory');
+    }
+
+    const method = view.getUint16(recordOffset + 10, true);
+    const compressedSize = view.getUint32(recordOffset + 20, true);
+    const nameLength = view.getUint16(recordOffset + 28, true);
+    const extraLength = view.getUint16(recordOffset + 30, true);
+    const commentLength = view.getUint16(recordOffset + 32, true);
+    const headerOffset = view.getUint32(recordOffset + 42, true);
+    const name = decoder.decode(bytes.subarray(recordOffset + 46, recordOffset + 46 + nameLength));
+    recordOffset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+
+    // The local header may have a different extra field than the central directory record
+    const dataOffset =
+      headerOffset +
+      30 +
+      view.getUint16(headerOffset + 26, true) +
+      view.getUint16(headerOffset + 28, true);
+    const data = bytes.subarray(dataOffset, dataOffset + compressedSize);
+
+    if (method === StoredMethod) {
+      entries.push({ name, data });
+    } else if (method === DeflatedMethod) {
+      entries.push({ name, data: await inflateRaw(data) });
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+  }
+
+  return entries;
+}
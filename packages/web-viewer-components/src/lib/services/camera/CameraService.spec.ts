@@ -111,6 +111,24 @@ describe('CameraService', () => {
     });
   });
 
+  describe('getConfiguration', () => {
+    it('should return the default configuration if there is no webViewer', async () => {
+      expect(await service.getConfiguration()).toEqual(CameraService.DefaultConfig);
+    });
+
+    it('should return the configuration of the webViewer', async () => {
+      service.webViewer = createMockWebViewer(
+        Projection.Perspective,
+        OrbitFallbackMode.OrbitTarget,
+      ) as any;
+
+      expect(await service.getConfiguration()).toEqual({
+        projectionMode: 'Perspective',
+        orbitFallbackMode: 'Orbit Target',
+      });
+    });
+  });
+
   describe('resetConfiguration', () => {
     it('should throw if there is no webViewer', async () => {
       await expect(service.resetConfiguration()).rejects.toThrowError('WebViewer is not set');
@@ -93,6 +93,17 @@ export default class CameraService extends EventTarget implements ICameraService
     );
   }
 
+  /**
+   * Gets the current camera configuration, the counterpart of `resetConfiguration`.
+   * @returns a promise that resolves with the current configuration.
+   */
+  async getConfiguration(): Promise<CameraServiceConfiguration> {
+    return {
+      projectionMode: this.getProjectionMode(),
+      orbitFallbackMode: this.getOrbitFallbackMode(),
+    };
+  }
+
   async resetConfiguration(obj?: object): Promise<void> {
     if (!this._webViewer) {
       throw new Error('WebViewer is not set');
@@ -1,4 +1,4 @@
-import { IResettableConfigurationService, IService } from '../types';
+import { IConfigurableService, IService } from '../types';
 
 export const ProjectionValues = ['Perspective', 'Orthographic'] as const;
 export type Projection = (typeof ProjectionValues)[number];
@@ -28,11 +28,12 @@ export function isCameraServiceConfiguration(obj: unknown): obj is CameraService
   return isProjection(value.projectionMode) && isOrbitFallbackMode(value.orbitFallbackMode);
 }
 
-export interface ICameraService extends IService, IResettableConfigurationService {
+export interface ICameraService extends IService, IConfigurableService {
   getProjectionMode(): Projection;
   setProjectionMode(projectionMode: Projection): void;
   getOrbitFallbackMode(): OrbitFallbackMode;
   setOrbitFallbackMode(fallbackMode: OrbitFallbackMode): void;
+  getConfiguration(): Promise<CameraServiceConfiguration>;
   resetConfiguration(obj?: object): Promise<void>;
   reset(): void;
 }
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { clearServices, registerService } from '../serviceRegistry';
+import ConfigurationPersister from './ConfigurationPersister';
+import { MemoryConfigurationStore } from './MemoryConfigurationStore';
+
+const createMockService = (serviceName: string, configuration: object) => {
+  const service = new EventTarget() as EventTarget & {
+    serviceName: string;
+    getConfiguration: ReturnType<typeof vi.fn>;
+    resetConfiguration: ReturnType<typeof vi.fn>;
+  };
+  service.serviceName = serviceName;
+  service.getConfiguration = vi.fn(() => Promise.resolve(configuration));
+  service.resetConfiguration = vi.fn(() => Promise.resolve());
+  return service;
+};
+
+describe('ConfigurationPersister', () => {
+  let store: MemoryConfigurationStore;
+  let persister: ConfigurationPersister;
+  let viewService: ReturnType<typeof createMockService>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    clearServices();
+    store = new MemoryConfigurationStore();
+    persister = new ConfigurationPersister(store, 'test-key');
+    viewService = createMockService('ViewService', {
+      axisTriadVisible: true,
+      navCubeVisible: false,
+    });
+    registerService(viewService);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should save the configuration of the registered services', async () => {
+    registerService(Object.assign(new EventTarget(), { serviceName: 'ExplodeService' }));
+
+    await persister.save();
+
+    expect(await store.load('test-key')).toEqual({
+      ViewService: { axisTriadVisible: true, navCubeVisible: false },
+    });
+  });
+
+  it('should keep the stored configurations of the services that are not registered', async () => {
+    await store.save('test-key', { CameraService: { projectionMode: 'Perspective' } });
+
+    await persister.save();
+
+    expect(await store.load('test-key')).toEqual({
+      CameraService: { projectionMode: 'Perspective' },
+      ViewService: { axisTriadVisible: true, navCubeVisible: false },
+    });
+  });
+
+  it('should restore the stored configurations', async () => {
+    const configuration = { axisTriadVisible: false, navCubeVisible: true };
+    await store.save('test-key', { ViewService: configuration });
+
+    await persister.restore();
+
+    expect(viewService.resetConfiguration).toHaveBeenCalledWith(configuration);
+  });
+
+  it('should not reset the services when nothing is stored', async () => {
+    await persister.restore();
+
+    expect(viewService.resetConfiguration).not.toHaveBeenCalled();
+  });
+
+  it('should continue restoring when a service rejects its configuration', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const pmiService = createMockService('PmiService', {});
+    pmiService.resetConfiguration.mockRejectedValue(new Error('Invalid configuration object'));
+    registerService(pmiService);
+    await store.save('test-key', { PmiService: { color: 42 }, ViewService: {} });
+
+    await persister.restore();
+
+    expect(viewService.resetConfiguration).toHaveBeenCalledOnce();
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('should save once after the configuration changes settle', async () => {
+    const save = vi.spyOn(store, 'save');
+    persister.start();
+
+    viewService.dispatchEvent(new CustomEvent('hoops-view-axis-triad-visibility-changed'));
+    await vi.advanceTimersByTimeAsync(ConfigurationPersister.DefaultSaveDelay / 2);
+    viewService.dispatchEvent(new CustomEvent('hoops-view-nav-cube-visibility-changed'));
+    await vi.advanceTimersByTimeAsync(ConfigurationPersister.DefaultSaveDelay / 2);
+    expect(save).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(ConfigurationPersister.DefaultSaveDelay);
+    expect(save).toHaveBeenCalledOnce();
+  });
+
+  it('should not save the changes made while restoring', async () => {
+    await store.save('test-key', { ViewService: {} });
+    viewService.resetConfiguration.mockImplementation(async () => {
+      viewService.dispatchEvent(new CustomEvent('hoops-view-axis-triad-visibility-changed'));
+    });
+    const save = vi.spyOn(store, 'save');
+    persister.start();
+
+    await persister.restore();
+    await vi.advanceTimersByTimeAsync(ConfigurationPersister.DefaultSaveDelay);
+
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('should save the pending changes when stopped', async () => {
+    const save = vi.spyOn(store, 'save');
+    persister.start();
+    viewService.dispatchEvent(new CustomEvent('hoops-view-axis-triad-visibility-changed'));
+
+    await persister.stop();
+    expect(save).toHaveBeenCalledOnce();
+    expect(persister.started).toBe(false);
+
+    viewService.dispatchEvent(new CustomEvent('hoops-view-axis-triad-visibility-changed'));
+    await vi.advanceTimersByTimeAsync(ConfigurationPersister.DefaultSaveDelay);
+    expect(save).toHaveBeenCalledOnce();
+  });
+
+  it('should remove the stored configurations when cleared', async () => {
+    await persister.save();
+
+    await persister.clear();
+
+    expect(await store.load('test-key')).toBeUndefined();
+  });
+});
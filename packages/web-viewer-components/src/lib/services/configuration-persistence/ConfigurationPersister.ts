@@ -0,0 +1,173 @@
+import { Debouncer } from '@ts3d-hoops/ui-kit';
+import { getAllServices } from '../serviceRegistry';
+import { IConfigurableService, isConfigurableService, IService } from '../types';
+import { ConfigurationChangeEvents, ConfigurationStore, PersistedConfigurations } from './types';
+
+type ConfigurableService = IConfigurableService & IService;
+
+/**
+ * Saves the configuration of the registered services in a `ConfigurationStore` and restores it.
+ *
+ * Once started, the persister listens to the configuration change events of the services listed
+ * in `ConfigurationChangeEvents` and saves their configuration after `saveDelay` milliseconds
+ * without changes. The configurations of the services that are not registered are kept in the store.
+ *
+ * @example
+ * ```typescript
+ * const persister = new ConfigurationPersister(new LocalStorageConfigurationStore(), 'my-app');
+ * await persister.restore();
+ * persister.start();
+ * ```
+ */
+export class ConfigurationPersister {
+  /**
+   * The default delay, in milliseconds, between the last change and the save.
+   */
+  static readonly DefaultSaveDelay = 500;
+
+  public readonly store: ConfigurationStore;
+  public readonly key: string;
+  public readonly saveDelay: number;
+
+  private listeners: { service: ConfigurableService; type: string }[] = [];
+  private debouncer = new Debouncer(() => this.save());
+  private restoring = false;
+
+  constructor(
+    store: ConfigurationStore,
+    key: string,
+    saveDelay: number = ConfigurationPersister.DefaultSaveDelay,
+  ) {
+    this.store = store;
+    this.key = key;
+    this.saveDelay = saveDelay;
+    this.handleConfigurationChange = this.handleConfigurationChange.bind(this);
+  }
+
+  /**
+   * Whether the persister listens to the configuration changes.
+   */
+  get started(): boolean {
+    return this.listeners.length > 0;
+  }
+
+  /**
+   * Starts listening to the configuration changes of the registered services.
+   * The services registered after this call are not listened to until the persister is restarted.
+   */
+  start(): void {
+    this.removeListeners();
+
+    for (const service of this.getConfigurableServices()) {
+      for (const type of ConfigurationChangeEvents[service.serviceName] ?? []) {
+        service.addEventListener(type, this.handleConfigurationChange);
+        this.listeners.push({ service, type });
+      }
+    }
+  }
+
+  /**
+   * Stops listening to the configuration changes.
+   * A save that is pending is done immediately.
+   * @returns a promise that resolves when the pending save is done.
+   */
+  async stop(): Promise<void> {
+    this.removeListeners();
+
+    if (!this.debouncer.isPending) {
+      return;
+    }
+
+    this.debouncer.clear();
+    try {
+      await this.save();
+    } catch (error) {
+      console.warn('Failed to save the service configurations:', error);
+    }
+  }
+
+  /**
+   * Applies the stored configurations to the registered services.
+   * The changes made while restoring are not saved back to the store.
+   * @returns a promise that resolves when the configurations are applied.
+   */
+  async restore(): Promise<void> {
+    const configurations = await this.store.load(this.key);
+    if (!configurations) {
+      return;
+    }
+
+    this.restoring = true;
+    try {
+      for (const service of this.getConfigurableServices()) {
+        const configuration = configurations[service.serviceName];
+        if (!configuration) {
+          continue;
+        }
+
+        try {
+          await service.resetConfiguration(configuration);
+        } catch (error) {
+          console.warn(`Failed to restore the configuration of ${service.serviceName}:`, error);
+        }
+      }
+    } finally {
+      this.restoring = false;
+      this.debouncer.clear();
+    }
+  }
+
+  /**
+   * Saves the configuration of the registered services.
+   * @returns a promise that resolves when the configurations are saved.
+   */
+  async save(): Promise<void> {
+    const configurations: PersistedConfigurations = (await this.store.load(this.key)) ?? {};
+
+    for (const service of this.getConfigurableServices()) {
+      try {
+        configurations[service.serviceName] = await service.getConfiguration();
+      } catch (error) {
+        console.warn(`Failed to get the configuration of ${service.serviceName}:`, error);
+      }
+    }
+
+    await this.store.save(this.key, configurations);
+  }
+
+  /**
+   * Removes the stored configurations.
+   * The configuration of the services is left unchanged.
+   * @returns a promise that resolves when the configurations are removed.
+   */
+  async clear(): Promise<void> {
+    this.debouncer.clear();
+    await this.store.remove(this.key);
+  }
+
+  private handleConfigurationChange(): void {
+    if (this.restoring) {
+      return;
+    }
+
+    this.debouncer.debounce(this.saveDelay).catch((error?: Error) => {
+      // The debouncer rejects without error when a newer change cancels the save
+      if (error) {
+        console.warn('Failed to save the service configurations:', error);
+      }
+    });
+  }
+
+  private removeListeners(): void {
+    for (const { service, type } of this.listeners) {
+      service.removeEventListener(type, this.handleConfigurationChange);
+    }
+    this.listeners = [];
+  }
+
+  private getConfigurableServices(): ConfigurableService[] {
+    return Object.values(getAllServices()).filter(isConfigurableService);
+  }
+}
+
+export default ConfigurationPersister;
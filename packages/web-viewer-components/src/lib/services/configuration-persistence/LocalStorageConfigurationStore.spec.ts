@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import LocalStorageConfigurationStore from './LocalStorageConfigurationStore';
+
+describe('LocalStorageConfigurationStore', () => {
+  let store: LocalStorageConfigurationStore;
+
+  beforeEach(() => {
+    localStorage.clear();
+    store = new LocalStorageConfigurationStore();
+  });
+
+  it('should return undefined when nothing is stored', async () => {
+    expect(await store.load('test-key')).toBeUndefined();
+  });
+
+  it('should save the configurations as JSON in the local storage', async () => {
+    const configurations = { ViewService: { axisTriadVisible: true, navCubeVisible: false } };
+
+    await store.save('test-key', configurations);
+
+    expect(JSON.parse(localStorage.getItem('test-key')!)).toEqual(configurations);
+    expect(await store.load('test-key')).toEqual(configurations);
+  });
+
+  it('should ignore stored values that are not configurations', async () => {
+    localStorage.setItem('invalid-json', '{');
+    localStorage.setItem('invalid-configurations', JSON.stringify({ ViewService: 42 }));
+
+    expect(await store.load('invalid-json')).toBeUndefined();
+    expect(await store.load('invalid-configurations')).toBeUndefined();
+  });
+
+  it('should remove the stored configurations', async () => {
+    await store.save('test-key', {});
+
+    await store.remove('test-key');
+
+    expect(localStorage.getItem('test-key')).toBeNull();
+  });
+
+  it('should use the provided storage', async () => {
+    await new LocalStorageConfigurationStore(sessionStorage).save('test-key', {});
+
+    expect(sessionStorage.getItem('test-key')).toBe('{}');
+    expect(localStorage.getItem('test-key')).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import { ConfigurationStore, isPersistedConfigurations, PersistedConfigurations } from './types';
+
+/**
+ * Configuration store saving the configurations as JSON in a Web Storage,
+ * the browser local storage by default.
+ *
+ * Values that cannot be parsed, or that are not valid configurations, are ignored.
+ *
+ * @example
+ * ```typescript
+ * const sessionScopedStore = new LocalStorageConfigurationStore(window.sessionStorage);
+ * ```
+ */
+export class LocalStorageConfigurationStore implements ConfigurationStore {
+  private readonly storage?: Storage;
+
+  /**
+   * @param storage the storage to use, defaults to `window.localStorage` when available.
+   */
+  constructor(storage?: Storage) {
+    this.storage = storage ?? (typeof localStorage !== 'undefined' ? localStorage : undefined);
+  }
+
+  async load(key: string): Promise<PersistedConfigurations | undefined> {
+    const serialized = this.storage?.getItem(key);
+    if (!serialized) {
+      return undefined;
+    }
+
+    try {
+      const configurations: unknown = JSON.parse(serialized);
+      return isPersistedConfigurations(configurations) ? configurations : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async save(key: string, configurations: PersistedConfigurations): Promise<void> {
+    this.storage?.setItem(key, JSON.stringify(configurations));
+  }
+
+  async remove(key: string): Promise<void> {
+    this.storage?.removeItem(key);
+  }
+}
+
+export default LocalStorageConfigurationStore;
@@ -0,0 +1,27 @@
+import { ConfigurationStore, PersistedConfigurations } from './types';
+
+/**
+ * Configuration store keeping the configurations in memory.
+ *
+ * The configurations are lost when the page is reloaded, this store is meant for tests and
+ * for applications that want to keep the configurations for the lifetime of the page only.
+ */
+export class MemoryConfigurationStore implements ConfigurationStore {
+  private readonly entries = new Map<string, string>();
+
+  async load(key: string): Promise<PersistedConfigurations | undefined> {
+    const serialized = this.entries.get(key);
+    return serialized === undefined ? undefined : JSON.parse(serialized);
+  }
+
+  async save(key: string, configurations: PersistedConfigurations): Promise<void> {
+    // Stored serialized so that the caller cannot mutate the saved configurations
+    this.entries.set(key, JSON.stringify(configurations));
+  }
+
+  async remove(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+export default MemoryConfigurationStore;
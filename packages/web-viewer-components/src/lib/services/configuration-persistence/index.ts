@@ -0,0 +1,5 @@
+export { default } from './ConfigurationPersister';
+export * from './ConfigurationPersister';
+export * from './LocalStorageConfigurationStore';
+export * from './MemoryConfigurationStore';
+export * from './types';
@@ -0,0 +1,140 @@
+import { ServiceName } from '../types';
+
+/**
+ * The configurations saved by a `ConfigurationStore`, indexed by service name.
+ * Each configuration is the object returned by the service `getConfiguration` method.
+ */
+export type PersistedConfigurations = Partial<Record<ServiceName, object>>;
+
+export function isPersistedConfigurations(obj: unknown): obj is PersistedConfigurations {
+  if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+    return false;
+  }
+
+  return Object.values(obj).every(
+    (configuration) => typeof configuration === 'object' && configuration !== null,
+  );
+}
+
+/**
+ * Storage backend used to persist the service configurations.
+ *
+ * Implement this interface to save the configurations somewhere else than in the
+ * browser local storage, a user profile on a backend for example.
+ *
+ * @example
+ * ```typescript
+ * class BackendConfigurationStore implements ConfigurationStore {
+ *   async load(key: string) {
+ *     const response = await fetch(`/api/preferences/${key}`);
+ *     return response.ok ? response.json() : undefined;
+ *   }
+ *   async save(key: string, configurations: PersistedConfigurations) {
+ *     await fetch(`/api/preferences/${key}`, { method: 'PUT', body: JSON.stringify(configurations) });
+ *   }
+ *   async remove(key: string) {
+ *     await fetch(`/api/preferences/${key}`, { method: 'DELETE' });
+ *   }
+ * }
+ * ```
+ */
+export interface ConfigurationStore {
+  /**
+   * Loads the configurations saved under a key.
+   *
+   * @param key - The key the configurations were saved under
+   * @returns A promise that resolves with the configurations, or undefined if nothing was saved
+   */
+  load(key: string): Promise<PersistedConfigurations | undefined>;
+
+  /**
+   * Saves the configurations under a key, replacing the previous ones.
+   *
+   * @param key - The key to save the configurations under
+   * @param configurations - The configurations to save
+   * @returns A promise that resolves when the configurations are saved
+   */
+  save(key: string, configurations: PersistedConfigurations): Promise<void>;
+
+  /**
+   * Removes the configurations saved under a key.
+   *
+   * @param key - The key of the configurations to remove
+   * @returns A promise that resolves when the configurations are removed
+   */
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * The events dispatched by each service when its configuration changes.
+ * The `ConfigurationPersister` listens to them to save the configurations automatically.
+ */
+export const ConfigurationChangeEvents: Partial<Record<ServiceName, readonly string[]>> = {
+  CameraService: ['hoops-projection-mode-changed', 'hoops-orbit-fallback-mode-changed'],
+  CuttingService: [
+    'hoops-capping-geometry-visibility-changed',
+    'hoops-capping-face-color-changed',
+    'hoops-capping-line-color-changed',
+  ],
+  RenderOptionsService: [
+    'hoops-minimum-framerate-changed',
+    'hoops-hidden-line-opacity-changed',
+    'hoops-show-backfaces-changed',
+    'hoops-ambient-occlusion-enabled-changed',
+    'hoops-ambient-occlusion-radius-changed',
+    'hoops-anti-aliasing-enabled-changed',
+    'hoops-bloom-enabled-changed',
+    'hoops-bloom-intensity-changed',
+    'hoops-bloom-threshold-changed',
+    'hoops-silhouette-enabled-changed',
+    'hoops-reflection-enabled-changed',
+    'hoops-shadow-enabled-changed',
+    'hoops-shadow-interactive-changed',
+    'hoops-shadow-blur-samples-changed',
+    'hoops-splat-rendering-enabled-changed',
+    'hoops-splat-rendering-size-changed',
+    'hoops-splat-rendering-point-size-unit-changed',
+    'hoops-eye-dome-lighting-enabled-changed',
+    'hoops-background-color-changed',
+  ],
+  FloorplanService: [
+    'hoops-floorplan-activation-changed',
+    'hoops-floorplan-track-camera-changed',
+    'hoops-floorplan-orientation-changed',
+    'hoops-floorplan-auto-activation-changed',
+    'hoops-floorplan-overlay-feet-per-pixel-changed',
+    'hoops-floorplan-overlay-zoom-level-changed',
+    'hoops-floorplan-overlay-background-opacity-changed',
+    'hoops-floorplan-overlay-border-opacity-changed',
+    'hoops-floorplan-overlay-avatar-opacity-changed',
+    'hoops-floorplan-background-color-changed',
+    'hoops-floorplan-border-color-changed',
+    'hoops-floorplan-avatar-color-changed',
+    'hoops-floorplan-avatar-outline-color-changed',
+  ],
+  WalkOperatorService: [
+    'hoops-operators-walk-mode-changed',
+    'hoops-operators-walk-rotation-speed-changed',
+    'hoops-operators-walk-speed-changed',
+    'hoops-operators-elevation-speed-changed',
+    'hoops-operators-field-of-view-changed',
+    'hoops-operators-mouse-look-enabled-changed',
+    'hoops-operators-mouse-look-speed-changed',
+    'hoops-operators-collision-detection-changed',
+  ],
+  SelectionService: [
+    'hoops-enable-face-line-selection-changed',
+    'hoops-honors-scene-visibility-changed',
+    'hoops-body-color-changed',
+    'hoops-face-and-line-color-changed',
+  ],
+  SheetService: ['hoops-sheet-colors-changed', 'hoops-background-sheet-enabled-changed'],
+  PmiService: ['hoops-pmi-color-changed', 'hoops-pmi-color-override-changed'],
+  MeasurementService: ['hoops-measurement-color-changed', 'hoops-measurement-units-changed'],
+  ViewService: [
+    'hoops-view-axis-triad-visibility-changed',
+    'hoops-view-nav-cube-visibility-changed',
+  ],
+  SnapshotService: ['hoops-snapshot-configuration-changed'],
+  ShortcutService: ['hoops-shortcut-bindings-changed'],
+};
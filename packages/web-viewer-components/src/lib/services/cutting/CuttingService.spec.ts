@@ -1,12 +1,14 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { Mock } from 'vitest';
 import CuttingService from './CuttingService';
-import { Color, Plane, Point3 } from '@ts3d-hoops/common';
-import { core } from '@ts3d-hoops/web-viewer';
-import { CuttingServiceConfiguration } from './types';
+import { Box, Color, Plane, Point3 } from '@ts3d-hoops/common';
+import { core, NodeType, OperatorId } from '@ts3d-hoops/web-viewer';
+import { CuttingServiceConfiguration, SectionProfileFormat } from './types';
+import { registerService, unregisterService } from '../serviceRegistry';
+import UndoService from '../undo';
 
 // Mock utils to simplify cutting section/plane conversions
-vi.mock('./utils', () => {
+vi.mock('./utils', async (importOriginal) => {
   // Use real Plane & Point3 from @ts3d-hoops/common within mocks
   interface CuttingPlaneInternal {
     plane: Plane;
@@ -19,6 +21,7 @@ vi.mock('./utils', () => {
     getCuttingPlanes(): CuttingPlaneInternal[];
   }
   return {
+    ...(await importOriginal<object>()),
     convertCuttingSections: vi.fn(
       (
         mgr: {
@@ -144,8 +147,16 @@ function createMockCuttingSection(active = true, planeCount = 1): CuttingSection
 
 function createMockCuttingManager(config?: CuttingServiceConfiguration): core.ICuttingManager {
   const sections = [createMockCuttingSection(true, 2), createMockCuttingSection(false, 1)];
-  const selectionManagerMock = { getLast: vi.fn().mockReturnValue(null) };
+  const selectionManagerMock = {
+    getLast: vi.fn().mockReturnValue(null),
+    getResults: vi.fn().mockReturnValue([]),
+  };
   const callbackStore: { current?: Record<string, Function> } = {};
+  const handleOperatorMock = {
+    addAxisTranslationHandle: vi.fn(),
+    removeHandles: vi.fn().mockResolvedValue(undefined),
+    getPosition: vi.fn().mockReturnValue(null),
+  };
   return {
     getCappingGeometryVisibility: vi
       .fn()
@@ -180,8 +191,14 @@ function createMockCuttingManager(config?: CuttingServiceConfiguration): core.IC
         getModelBounding: vi
           .fn()
           .mockResolvedValue({ min: { x: 0, y: 0, z: 0 }, max: { x: 1, y: 1, z: 1 } }),
+        getNodesBounding: vi
+          .fn()
+          .mockResolvedValue(new Box(new Point3(1, 2, 3), new Point3(4, 5, 6))),
       },
       selectionManager: selectionManagerMock,
+      operatorManager: {
+        getOperator: vi.fn().mockReturnValue(handleOperatorMock),
+      },
       _callbackStore: callbackStore,
     },
   } as unknown as core.ICuttingManager;
@@ -624,6 +641,490 @@ describe('CuttingService', () => {
     });
   });
 
+  describe('section box', () => {
+    const box = new Box(new Point3(0, 0, 0), new Point3(10, 20, 30));
+
+    beforeEach(() => {
+      service.cuttingManager = mockCuttingManager;
+    });
+
+    it('replaces the planes of a section with the faces of a padded box', async () => {
+      const spy = vi.fn();
+      service.addEventListener('hoops-cutting-sections-change', spy);
+
+      await service.createSectionBox(0, box, 1);
+
+      const planes = service.getCuttingPlanes(0);
+      expect(planes).toHaveLength(6);
+      expect(planes[0].plane.normal).toEqual(new Point3(-1, 0, 0));
+      expect(planes[5].plane.normal).toEqual(new Point3(0, 0, 1));
+      expect(planes[5].referenceGeometry).toEqual([
+        new Point3(-1, -1, 31),
+        new Point3(11, -1, 31),
+        new Point3(11, 21, 31),
+        new Point3(-1, 21, 31),
+      ]);
+      expect(service.getSectionBox(0)).toEqual(
+        new Box(new Point3(-1, -1, -1), new Point3(11, 21, 31)),
+      );
+      expect(service.getSectionBox(1)).toBeUndefined();
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('creates a section box around nodes', async () => {
+      await service.createSectionBox(1, [5, 6]);
+
+      expect(mockCuttingManager.viewer.model.getNodesBounding).toHaveBeenCalledWith([5, 6]);
+      expect(service.getSectionBox(1)).toEqual(new Box(new Point3(1, 2, 3), new Point3(4, 5, 6)));
+      await expect(service.createSectionBox(1, [])).rejects.toThrow(
+        'No node to create a section box around',
+      );
+    });
+
+    it('undoes the creation of a section box as a single operation', async () => {
+      const undoService = new UndoService();
+      registerService(undoService);
+
+      await service.createSectionBox(0, box);
+      expect(undoService.getUndoLabel()).toBe('Create section box');
+
+      await undoService.undo();
+      expect(service.getCuttingPlaneCount(0)).toBe(2);
+      unregisterService('UndoService');
+    });
+
+    it('resizes the faces of a section box', async () => {
+      const undoService = new UndoService();
+      await service.createSectionBox(0, box);
+      await service.setCuttingPlaneVisibility(0, 1, false);
+      registerService(undoService);
+      const spy = vi.fn();
+      service.addEventListener('hoops-cutting-sections-change', spy);
+
+      const resized = service.getSectionBox(0)!;
+      resized.max.z = 15;
+      await service.setSectionBox(0, resized);
+
+      expect(service.getSectionBox(0)).toEqual(resized);
+      expect(service.getCuttingPlane(0, 0)?.referenceGeometry?.[2].z).toBe(15);
+      // The hidden faces stay hidden
+      expect(service.getCuttingPlane(0, 1)?.referenceGeometry).toBeNull();
+      expect(spy).toHaveBeenCalledTimes(1);
+
+      await undoService.undo();
+      expect(service.getSectionBox(0)).toEqual(box);
+      unregisterService('UndoService');
+
+      await expect(service.setSectionBox(1, box)).rejects.toThrow(
+        'Cutting section at index 1 is not a section box',
+      );
+    });
+
+    it('resizes the adjacent faces when a face is dragged', async () => {
+      await service.createSectionBox(0, box);
+      const section = mockCuttingManager.getCuttingSection(0)!;
+      section.getCuttingPlanes()[1].plane = createPlane(1, 0, 0, -5);
+      const spy = vi.fn();
+      service.addEventListener('hoops-cutting-sections-change', spy);
+
+      await getRegisteredCallbacks(mockCuttingManager).cuttingPlaneDragEnd(section, 1);
+
+      expect(service.getCuttingPlane(0, 2)?.referenceGeometry?.[1].x).toBe(5);
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('moves a face with the handle of the viewport', async () => {
+      const handleOperator = mockCuttingManager.viewer.operatorManager.getOperator(
+        OperatorId.Handle,
+      ) as unknown as Record<string, Mock>;
+      await service.createSectionBox(0, box);
+      const spy = vi.fn();
+      service.addEventListener('hoops-cutting-section-box-handle-change', spy);
+
+      await service.showSectionBoxHandle(0, 'x-min');
+
+      expect(service.getSectionBoxHandle()).toEqual({ sectionIndex: 0, face: 'x-min' });
+      expect(spy.mock.calls[0][0].detail).toEqual({ handle: { sectionIndex: 0, face: 'x-min' } });
+      expect(handleOperator.addAxisTranslationHandle).toHaveBeenLastCalledWith(
+        new Point3(0, 10, 15),
+        new Point3(-1, 0, 0),
+        expect.anything(),
+      );
+
+      // The handles of the nodes do not move the face
+      handleOperator.getPosition.mockReturnValue(new Point3(4, 10, 15));
+      await getRegisteredCallbacks(mockCuttingManager).handleEventEnd(0, [5], [], []);
+      expect(service.getSectionBox(0)).toEqual(box);
+
+      // The face stops at the opposite face
+      await getRegisteredCallbacks(mockCuttingManager).handleEventEnd(0, [], [], []);
+      expect(service.getSectionBox(0)).toEqual(new Box(new Point3(4, 0, 0), box.max));
+      expect(handleOperator.addAxisTranslationHandle).toHaveBeenLastCalledWith(
+        new Point3(4, 10, 15),
+        new Point3(-1, 0, 0),
+        expect.anything(),
+      );
+      handleOperator.getPosition.mockReturnValue(new Point3(12, 10, 15));
+      await getRegisteredCallbacks(mockCuttingManager).handleEventEnd(0, [], [], []);
+      expect(service.getSectionBox(0)?.min.x).toBe(10);
+
+      await expect(service.showSectionBoxHandle(1, 'x-min')).rejects.toThrow(
+        'Cutting section at index 1 is not a section box',
+      );
+    });
+
+    it('removes the handle of the viewport with the section box', async () => {
+      const handleOperator = mockCuttingManager.viewer.operatorManager.getOperator(
+        OperatorId.Handle,
+      ) as unknown as Record<string, Mock>;
+      await service.createSectionBox(0, box);
+      await service.showSectionBoxHandle(0, 'z-max');
+      const spy = vi.fn();
+      service.addEventListener('hoops-cutting-section-box-handle-change', spy);
+      handleOperator.removeHandles.mockClear();
+
+      await service.clearCuttingSection(0);
+
+      expect(service.getSectionBoxHandle()).toBeUndefined();
+      expect(handleOperator.removeHandles).toHaveBeenCalledOnce();
+      expect(spy.mock.calls[0][0].detail).toEqual({ handle: undefined });
+
+      await service.hideSectionBoxHandle();
+      expect(spy).toHaveBeenCalledOnce();
+    });
+
+    it('keeps the selected nodes', () => {
+      (mockCuttingManager.viewer.selectionManager.getResults as unknown as Mock).mockReturnValue([
+        { getNodeId: () => 5 },
+        { getNodeId: () => 6 },
+      ]);
+
+      getRegisteredCallbacks(mockCuttingManager).selectionArray();
+
+      expect(service.getSelectedNodeIds()).toEqual([5, 6]);
+    });
+  });
+
+  describe('plane sweep', () => {
+    let frames: FrameRequestCallback[];
+
+    /** Runs the requested animation frames, and lets the plane updates settle. */
+    const runFrame = async (time: number) => {
+      frames.splice(0).forEach((callback) => callback(time));
+      await new Promise((resolve) => setTimeout(resolve));
+    };
+
+    beforeEach(() => {
+      frames = [];
+      vi.stubGlobal(
+        'requestAnimationFrame',
+        vi.fn((callback: FrameRequestCallback) => frames.push(callback)),
+      );
+      vi.stubGlobal('cancelAnimationFrame', vi.fn());
+      service.cuttingManager = mockCuttingManager;
+      service.setModelBounding(new Box(new Point3(0, 0, 0), new Point3(10, 10, 10)));
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('computes the range of the plane through the model', () => {
+      expect(service.getPlaneSweepRange(0, 0)).toEqual({ min: -10, max: 0 });
+      expect(service.getPlaneSweepRange(0, 5)).toBeUndefined();
+    });
+
+    it('sweeps the plane within the model bounding over the duration', async () => {
+      const states: string[] = [];
+      service.addEventListener('hoops-cutting-plane-animation-change', (event) =>
+        states.push((event as CustomEvent).detail.state),
+      );
+      const ended = vi.fn();
+
+      service.animatePlane(0, 0, { from: -20, to: -5, durationMs: 1000 }).then(ended);
+      expect(service.getPlaneAnimationState(0, 0)).toBe('playing');
+      expect(service.getPlaneAnimationState(0, 1)).toBe('stopped');
+
+      await runFrame(0);
+      expect(service.getCuttingPlane(0, 0)?.plane.d).toBe(-10);
+      await runFrame(500);
+      expect(service.getCuttingPlane(0, 0)?.plane.d).toBe(-7.5);
+      expect(ended).not.toHaveBeenCalled();
+      await runFrame(1000);
+
+      expect(service.getCuttingPlane(0, 0)?.plane.d).toBe(-5);
+      expect(ended).toHaveBeenCalled();
+      expect(frames).toHaveLength(0);
+      expect(states).toEqual(['playing', 'stopped']);
+    });
+
+    it('regenerates the reference geometry of the plane at each step', async () => {
+      const hwvSection = mockCuttingManager.getCuttingSection(0)!;
+      const staleGeometry = [new Point3(0, 0, 0)];
+      hwvSection.getCuttingPlanes()[0].referenceGeometry = staleGeometry;
+
+      service.animatePlane(0, 0, { durationMs: 1000 });
+      await runFrame(0);
+      await runFrame(500);
+      service.stopPlaneAnimation();
+
+      const [planeIndex, plane, referenceGeometry] = (hwvSection.setPlane as Mock).mock.lastCall!;
+      expect(planeIndex).toBe(0);
+      expect(plane.d).toBe(-5);
+      expect(referenceGeometry).not.toBe(staleGeometry);
+      expect(referenceGeometry).toHaveLength(4);
+      expect(service.getCuttingPlane(0, 0)?.referenceGeometry).toBe(referenceGeometry);
+    });
+
+    it('pauses, resumes and loops the sweep until stopped', async () => {
+      const ended = vi.fn();
+      service.animatePlane(0, 0, { durationMs: 1000, loop: true }).then(ended);
+
+      await runFrame(0);
+      await runFrame(250);
+      expect(service.getCuttingPlane(0, 0)?.plane.d).toBe(-7.5);
+
+      service.pausePlaneAnimation();
+      expect(service.getPlaneAnimationState(0, 0)).toBe('paused');
+      await runFrame(10000);
+      expect(service.getCuttingPlane(0, 0)?.plane.d).toBe(-7.5);
+
+      service.resumePlaneAnimation();
+      await runFrame(20000);
+      expect(service.getCuttingPlane(0, 0)?.plane.d).toBe(-7.5);
+      await runFrame(20875);
+      expect(service.getCuttingPlane(0, 0)?.plane.d).toBeCloseTo(-8.75);
+
+      service.stopPlaneAnimation();
+      await vi.waitFor(() => expect(ended).toHaveBeenCalled());
+      expect(service.getPlaneAnimationState(0, 0)).toBe('stopped');
+    });
+
+    it('stops the sweep when another plane is animated or the manager changes', async () => {
+      const first = vi.fn();
+      const second = vi.fn();
+      service.animatePlane(0, 0).then(first);
+      service.animatePlane(0, 1).then(second);
+      await vi.waitFor(() => expect(first).toHaveBeenCalled());
+      expect(service.getPlaneAnimationState(0, 1)).toBe('playing');
+
+      service.cuttingManager = createMockCuttingManager();
+      await vi.waitFor(() => expect(second).toHaveBeenCalled());
+    });
+
+    it('ends the sweep when its plane is removed and follows it when a plane before it is', async () => {
+      const ended = vi.fn();
+      service.animatePlane(0, 1, { durationMs: 1000, loop: true }).then(ended);
+
+      await service.removeCuttingPlane(0, 0);
+      expect(service.getPlaneAnimationState(0, 0)).toBe('playing');
+      await runFrame(0);
+      await runFrame(250);
+      expect(service.getCuttingPlane(0, 0)?.plane.d).toBe(-7.5);
+      expect(ended).not.toHaveBeenCalled();
+
+      await service.removeCuttingPlane(0, 0);
+      await vi.waitFor(() => expect(ended).toHaveBeenCalled());
+      expect(service.getPlaneAnimationState(0, 0)).toBe('stopped');
+
+      service.animatePlane(1, 0).then(ended);
+      await service.clearCuttingSection(1);
+      await vi.waitFor(() => expect(ended).toHaveBeenCalledTimes(2));
+      expect(service.getPlaneAnimationState(1, 0)).toBe('stopped');
+    });
+
+    it('rejects when the plane cannot be moved anymore', async () => {
+      const sweep = expect(service.animatePlane(1, 0)).rejects.toThrow(
+        'No cutting plane at index 0 in section 1',
+      );
+      // The plane is removed by the viewer, not through the service
+      mockCuttingManager.getCuttingSection(1)!.removePlane(0);
+      await runFrame(0);
+
+      await sweep;
+      await expect(service.animatePlane(1, 0)).rejects.toThrow(
+        'No cutting plane at index 0 in section 1',
+      );
+    });
+  });
+
+  describe('section profile', () => {
+    // Node 1 crosses the plane x = 0, node 2 is hidden and node 3 is away from the plane
+    const triangle = [
+      [-1, 0, 0],
+      [1, 1, 0],
+      [1, -1, 0],
+    ];
+    const boundings: Record<number, Box> = {
+      1: new Box(new Point3(-1, -1, 0), new Point3(1, 1, 0)),
+      2: new Box(new Point3(-1, -1, 0), new Point3(1, 1, 0)),
+      3: new Box(new Point3(5, 5, 5), new Point3(6, 6, 6)),
+    };
+
+    beforeEach(() => {
+      service.cuttingManager = mockCuttingManager;
+      service.setModelBounding(new Box(new Point3(-1, -1, -1), new Point3(1, 1, 1)));
+      Object.assign(mockCuttingManager.viewer.model, {
+        getAbsoluteRootNode: () => 0,
+        getNodeChildren: (nodeId: number) => (nodeId === 0 ? [1, 2, 3] : []),
+        getNodeVisibility: (nodeId: number) => nodeId !== 2,
+        getNodeType: (nodeId: number) =>
+          nodeId === 0 ? NodeType.AssemblyNode : NodeType.BodyInstance,
+        getNodesBounding: vi.fn(async ([nodeId]: number[]) => boundings[nodeId]),
+        getNodeNetMatrix: () => ({ transform: (point: Point3) => point.copy() }),
+        getNodeMeshData: vi.fn(async () => {
+          let index = 0;
+          return {
+            faces: {
+              iterate: () => ({
+                done: () => index >= triangle.length,
+                next: () => ({ position: triangle[index++] }),
+              }),
+            },
+          };
+        }),
+      });
+    });
+
+    it('intersects the visible meshes crossed by the plane', async () => {
+      const profile = JSON.parse(await service.exportSectionProfile(0, 0, 'json'));
+
+      expect(mockCuttingManager.viewer.model.getNodeMeshData).toHaveBeenCalledTimes(1);
+      expect(mockCuttingManager.viewer.model.getNodeMeshData).toHaveBeenCalledWith(1);
+      expect(profile.origin).toEqual({ x: 0, y: 0, z: 0 });
+      expect(profile.layers).toHaveLength(1);
+      expect(profile.layers[0].nodeId).toBe(1);
+      expect(profile.layers[0].polylines).toEqual([
+        {
+          points: [
+            { x: 0, y: -0.5 },
+            { x: 0, y: 0.5 },
+          ],
+          closed: false,
+        },
+      ]);
+    });
+
+    it('reads the mesh data of the crossed nodes one at a time', async () => {
+      const model = mockCuttingManager.viewer.model;
+      const getNodeMeshData = model.getNodeMeshData.getMockImplementation()!;
+      let reading = 0;
+      let maxReading = 0;
+      model.getNodesBounding.mockImplementation(async () => boundings[1]);
+      model.getNodeMeshData.mockImplementation(async (nodeId: number) => {
+        maxReading = Math.max(maxReading, ++reading);
+        await new Promise((resolve) => setTimeout(resolve));
+        reading--;
+        return getNodeMeshData(nodeId);
+      });
+
+      const profile = JSON.parse(await service.exportSectionProfile(0, 0, 'json'));
+
+      expect(model.getNodeMeshData).toHaveBeenCalledTimes(2);
+      expect(maxReading).toBe(1);
+      expect(profile.layers).toHaveLength(2);
+    });
+
+    it('names the SVG groups and DXF layers after the node ids', async () => {
+      const svg = await service.exportSectionProfile(0, 0, 'svg');
+      const dxf = await service.exportSectionProfile(0, 0, 'dxf');
+
+      expect(svg).toContain('<g id="node-1" data-node-id="1">');
+      expect(svg).toContain('<polyline points="0,0.5 0,-0.5"/>');
+      expect(dxf).toContain('POLYLINE\n8\n1\n');
+      expect(dxf.endsWith('EOF\n')).toBe(true);
+    });
+
+    it('throws for invalid indices and formats', async () => {
+      await expect(service.exportSectionProfile(9, 0, 'svg')).rejects.toThrow(
+        'No cutting section at index 9',
+      );
+      await expect(service.exportSectionProfile(0, 9, 'svg')).rejects.toThrow(
+        'No cutting plane at index 9 in section 0',
+      );
+      await expect(
+        service.exportSectionProfile(0, 0, 'pdf' as unknown as SectionProfileFormat),
+      ).rejects.toThrow('Unsupported section profile format pdf');
+    });
+  });
+
+  describe('section presets', () => {
+    beforeEach(() => {
+      service.cuttingManager = mockCuttingManager;
+    });
+
+    it('saves a section and applies it to another section', async () => {
+      const presetsSpy = vi.fn();
+      const sectionsSpy = vi.fn();
+      service.addEventListener('hoops-cutting-presets-change', presetsSpy);
+      service.addEventListener('hoops-cutting-sections-change', sectionsSpy);
+
+      service.saveSectionPreset('Two planes', 0);
+      expect(service.listSectionPresets()).toEqual(['Two planes']);
+      expect(presetsSpy).toHaveBeenCalledTimes(1);
+
+      await service.applySectionPreset('Two planes', 1);
+
+      const planes = service.getCuttingPlanes(1);
+      expect(planes).toHaveLength(2);
+      expect(planes[1].color).toEqual({ r: 11, g: 21, b: 31 });
+      expect(planes[1].opacity).toBe(0.5);
+      expect(service.getCuttingSection(1)?.active).toBe(true);
+      expect(sectionsSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the presets when the cutting manager changes', () => {
+      service.saveSectionPreset('Two planes', 0);
+      service.cuttingManager = createMockCuttingManager();
+      expect(service.listSectionPresets()).toEqual(['Two planes']);
+    });
+
+    it('undoes the application of a preset as a single operation', async () => {
+      const undoService = new UndoService();
+      registerService(undoService);
+      service.saveSectionPreset('Two planes', 0);
+
+      await service.applySectionPreset('Two planes', 1);
+      expect(undoService.getUndoLabel()).toBe('Apply section preset');
+
+      await undoService.undo();
+      expect(service.getCuttingPlaneCount(1)).toBe(1);
+      unregisterService('UndoService');
+    });
+
+    it('exports, imports and deletes the presets', () => {
+      service.saveSectionPreset('Two planes', 0);
+      service.saveSectionPreset('One plane', 1);
+      const exported = JSON.parse(JSON.stringify(service.exportSectionPresets()));
+
+      const other = new CuttingService();
+      const spy = vi.fn();
+      other.addEventListener('hoops-cutting-presets-change', spy);
+      other.importSectionPresets(exported);
+
+      expect(other.listSectionPresets()).toEqual(['Two planes', 'One plane']);
+      expect(other.exportSectionPresets()).toEqual(exported);
+      expect(() => other.importSectionPresets([{ name: 'Invalid' }])).toThrow(
+        'Invalid section presets object',
+      );
+
+      other.deleteSectionPreset('Two planes');
+      other.deleteSectionPreset('Unknown');
+      expect(other.listSectionPresets()).toEqual(['One plane']);
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('throws for unknown presets and empty names', async () => {
+      await expect(service.applySectionPreset('Unknown', 0)).rejects.toThrow(
+        'No section preset named Unknown',
+      );
+      expect(() => service.saveSectionPreset(' ', 0)).toThrow('Section preset name is empty');
+      expect(() => service.saveSectionPreset('Missing', 5)).toThrow(
+        'No cutting section at index 5',
+      );
+    });
+  });
+
   describe('callback map events', () => {
     it('binds and unbinds callbacks on manager reassignment', () => {
       // initial set
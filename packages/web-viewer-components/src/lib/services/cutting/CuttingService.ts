@@ -1,20 +1,74 @@
 import { IColor, Box, Color, Point3, Plane } from '@ts3d-hoops/common';
 
-import { CallbackMap, core } from '@ts3d-hoops/web-viewer';
+import {
+  CallbackMap,
+  core,
+  HandleEventType,
+  NodeId,
+  NodeType,
+  OperatorId,
+} from '@ts3d-hoops/web-viewer';
+
+import { tryGetService } from '../serviceRegistry';
+import type { IUndoService } from '../undo';
 
 import {
   CuttingPlane,
+  CuttingPlaneSweepOptions,
+  CuttingPlaneSweepState,
   CuttingServiceConfiguration,
   ICuttingService,
   isCuttingServiceConfiguration,
+  isSectionPreset,
   Section,
+  SectionBoxFace,
+  SectionBoxHandle,
+  SectionPreset,
+  SectionProfileFormat,
+  SectionProfileFormats,
   SelectedFace,
 } from './types';
 import {
   convertCuttingSections,
   convertHwvCuttingPlaneToCuttingPlane,
   convertHwvSectionToSection,
+  createSectionBoxCuttingPlanes,
+  fromCuttingPlaneData,
+  getPlaneDistanceRange,
+  getSectionBoxFromPlanes,
+  toCuttingPlaneData,
 } from './utils';
+import { createSectionProfile, formatSectionProfile } from './profile';
+
+/**
+ * A cutting plane moving through the model, see `CuttingService.animatePlane`.
+ */
+type PlaneSweep = {
+  sectionIndex: number;
+  planeIndex: number;
+  from: number;
+  to: number;
+  durationMs: number;
+  loop: boolean;
+  /** The progress of the current pass, from 0 at `from` to 1 at `to`. */
+  progress: number;
+  state: Exclude<CuttingPlaneSweepState, 'stopped'>;
+  /** The handle of the requested animation frame, if any. */
+  frame?: number;
+  /** The time of the previous frame, undefined until the first frame after playing. */
+  lastTime?: number;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * The color of the section box handle moving a face along each axis.
+ */
+const sectionBoxHandleColors = {
+  x: Color.red(),
+  y: Color.green(),
+  z: Color.blue(),
+};
 
 /**
  * Utility function to find the index of a specific cutting section in the cutting manager.
@@ -134,6 +188,9 @@ function generatePlaneVertices(plane: Plane, boundingBox: Box): Point3[] {
  * - Capping geometry configuration
  * - Event dispatching for UI synchronization
  * - Face selection integration for plane creation
+ * - Section boxes keeping the inside of an axis-aligned box, with a viewport handle per face
+ * - Named section presets, kept when the cutting manager changes
+ * - Cutting plane sweeps through the model, driven by requestAnimationFrame
  *
  * @fires hoops-cutting-sections-change - When cutting sections are loaded or changed
  * @fires hoops-cutting-section-added - When a new cutting section is added
@@ -147,6 +204,10 @@ function generatePlaneVertices(plane: Plane, boundingBox: Box): Point3[] {
  * @fires hoops-capping-line-color-changed - When capping line color changes
  * @fires hoops-cutting-face-selection-change - When face selection changes
  * @fires hoops-cutting-service-reset - When the service is reset with a new cutting manager
+ * @fires hoops-cutting-presets-change - When a section preset is saved, deleted or imported
+ * @fires hoops-cutting-plane-animation-change - When a plane sweep is played, paused or stopped
+ * @fires hoops-cutting-section-box-handle-change - When the handle of a section box is shown or
+ * removed
  *
  * @example
  * ```typescript
@@ -190,10 +251,21 @@ export default class CuttingService extends EventTarget implements ICuttingServi
   private _modelBounding?: Box;
   /** The currently selected face for creating cutting planes. */
   private selectedFace?: SelectedFace | undefined;
+  /** The currently selected nodes for creating section boxes. */
+  private selectedNodeIds: NodeId[] = [];
 
   /** Tracks which cutting sections have hidden reference geometry. */
   private sectionHideReferenceGeometry: boolean[] = [];
 
+  /** The saved section presets by name. */
+  private sectionPresets = new Map<string, SectionPreset>();
+
+  /** The cutting plane sweep playing or paused, if any. */
+  private planeSweep?: PlaneSweep;
+
+  /** The face of a section box having the handle of the viewport, if any. */
+  private sectionBoxHandle?: SectionBoxHandle;
+
   /** Callback map for HOOPS Web Viewer events. */
   private callbackMap: CallbackMap;
 
@@ -270,7 +342,7 @@ export default class CuttingService extends EventTarget implements ICuttingServi
           }),
         );
       },
-      cuttingPlaneDragEnd: (section: core.ICuttingSection, planeIndex: number) => {
+      cuttingPlaneDragEnd: async (section: core.ICuttingSection, planeIndex: number) => {
         if (!this._cuttingManager) {
           return;
         }
@@ -286,6 +358,36 @@ export default class CuttingService extends EventTarget implements ICuttingServi
             },
           ),
         );
+
+        // Dragging a face of a section box resizes the adjacent faces
+        const box = this.getSectionBox(sectionIndex);
+        if (box) {
+          await this.applySectionBox(section, box);
+          await this.updateSectionBoxHandle(sectionIndex, box);
+          this.dispatchSectionsChange();
+        }
+      },
+      handleEventEnd: async (_eventType: HandleEventType, nodeIds: NodeId[]) => {
+        // The handles of the nodes, shown from the context menu, move the nodes instead
+        const handle = this.sectionBoxHandle;
+        if (!handle || nodeIds.length > 0) {
+          return;
+        }
+
+        const position = this.getHandleOperator()?.getPosition();
+        const box = this.getSectionBox(handle.sectionIndex);
+        if (!position || !box) {
+          return;
+        }
+
+        // The face stops at the opposite face of the box
+        const axis = handle.face[0] as 'x' | 'y' | 'z';
+        if (handle.face.endsWith('min')) {
+          box.min[axis] = Math.min(position[axis], box.max[axis]);
+        } else {
+          box.max[axis] = Math.max(position[axis], box.min[axis]);
+        }
+        await this.setSectionBox(handle.sectionIndex, box);
       },
       visibilityChanged: async () => {
         if (!this._cuttingManager) {
@@ -296,7 +398,10 @@ export default class CuttingService extends EventTarget implements ICuttingServi
         this.setModelBounding(bounding);
       },
       selectionArray: () => {
-        const selection = this._cuttingManager?.viewer.selectionManager.getLast();
+        const selectionManager = this._cuttingManager?.viewer.selectionManager;
+        this.selectedNodeIds = selectionManager?.getResults().map((item) => item.getNodeId()) ?? [];
+
+        const selection = selectionManager?.getLast();
         if (!selection) {
           // Ensure previously stored selected face is cleared when selection is removed
           this.selectedFace = undefined;
@@ -374,6 +479,9 @@ export default class CuttingService extends EventTarget implements ICuttingServi
       this.unbind();
     }
 
+    this.stopPlaneAnimation();
+    this.sectionBoxHandle = undefined;
+
     this._cuttingManager = cuttingManager;
     this.dispatchEvent(
       new CustomEvent('hoops-cutting-service-reset', { bubbles: true, composed: true }),
@@ -395,6 +503,15 @@ export default class CuttingService extends EventTarget implements ICuttingServi
     return this.selectedFace;
   }
 
+  /**
+   * Gets the currently selected nodes for creating section boxes.
+   *
+   * @returns The ids of the selected nodes, empty if nothing is selected
+   */
+  public getSelectedNodeIds(): NodeId[] {
+    return this.selectedNodeIds;
+  }
+
   /**
    * Gets the current model bounding box.
    *
@@ -586,6 +703,7 @@ export default class CuttingService extends EventTarget implements ICuttingServi
     }
 
     await hwvSection.clear();
+    await this.onCuttingPlanesRemoved(sectionIndex);
     this.dispatchEvent(
       new CustomEvent<{ sectionIndex: number }>('hoops-cutting-section-change', {
         bubbles: true,
@@ -746,6 +864,7 @@ export default class CuttingService extends EventTarget implements ICuttingServi
 
   /**
    * Adds a cutting plane to a cutting section.
+   * The addition is recorded in the UndoService when it is registered.
    *
    * @param sectionIndex - The index of the cutting section to add the plane to
    * @param cuttingPlane - The CuttingPlane object containing plane definition and visual properties
@@ -795,10 +914,19 @@ export default class CuttingService extends EventTarget implements ICuttingServi
     if (!hwvSection.isActive()) {
       this.setCuttingSectionState(sectionIndex, true);
     }
+
+    const planeIndex = hwvSection.getCuttingPlanes().length - 1;
+    tryGetService<IUndoService>('UndoService')?.record({
+      label: 'Add cutting plane',
+      undo: () => this.removeCuttingPlane(sectionIndex, planeIndex),
+      redo: () => this.addCuttingPlane(sectionIndex, cuttingPlane),
+    });
   }
 
   /**
    * Removes a cutting plane from a cutting section.
+   * The removal is recorded in the UndoService when it is registered, undoing it adds the plane
+   * back at the same index.
    *
    * @param sectionIndex - The index of the cutting section containing the plane
    * @param planeIndex - The index of the cutting plane to remove
@@ -821,7 +949,9 @@ export default class CuttingService extends EventTarget implements ICuttingServi
       throw new Error(`No cutting plane at index ${planeIndex} in section ${sectionIndex}`);
     }
 
+    const cuttingPlane = convertHwvCuttingPlaneToCuttingPlane(hwvPlanes[planeIndex]);
     await hwvSection.removePlane(planeIndex);
+    await this.onCuttingPlanesRemoved(sectionIndex, planeIndex);
     this.dispatchEvent(
       new CustomEvent<{ sectionIndex: number; planeIndex: number }>('hoops-cutting-plane-removed', {
         bubbles: true,
@@ -829,6 +959,34 @@ export default class CuttingService extends EventTarget implements ICuttingServi
         detail: { sectionIndex, planeIndex },
       }),
     );
+
+    tryGetService<IUndoService>('UndoService')?.record({
+      label: 'Remove cutting plane',
+      undo: () => this.insertCuttingPlane(sectionIndex, planeIndex, cuttingPlane),
+      redo: () => this.removeCuttingPlane(sectionIndex, planeIndex),
+    });
+  }
+
+  /**
+   * Adds a cutting plane at a given index, the planes that follow it are removed and added back.
+   *
+   * @param sectionIndex - The index of the cutting section to add the plane to
+   * @param planeIndex - The index the plane is added at
+   * @param cuttingPlane - The cutting plane to add
+   */
+  private async insertCuttingPlane(
+    sectionIndex: number,
+    planeIndex: number,
+    cuttingPlane: CuttingPlane,
+  ): Promise<void> {
+    const followingPlanes = this.getCuttingPlanes(sectionIndex).slice(planeIndex);
+    for (let index = followingPlanes.length - 1; index >= 0; --index) {
+      await this.removeCuttingPlane(sectionIndex, planeIndex + index);
+    }
+
+    for (const plane of [cuttingPlane, ...followingPlanes]) {
+      await this.addCuttingPlane(sectionIndex, plane);
+    }
   }
 
   /**
@@ -1083,6 +1241,778 @@ export default class CuttingService extends EventTarget implements ICuttingServi
     );
   }
 
+  /**
+   * Gets the range of the `d` coefficient of a cutting plane where it crosses the model bounding
+   * box, the range of its sweeps.
+   *
+   * @param sectionIndex - The index of the cutting section containing the plane
+   * @param planeIndex - The index of the cutting plane
+   * @returns The range, or undefined if the plane is not found
+   */
+  getPlaneSweepRange(
+    sectionIndex: number,
+    planeIndex: number,
+  ): { min: number; max: number } | undefined {
+    const cuttingPlane = this.getCuttingPlane(sectionIndex, planeIndex);
+    return cuttingPlane && getPlaneDistanceRange(cuttingPlane.plane, this.getModelBounding());
+  }
+
+  /**
+   * Moves a cutting plane along its normal through the model, one step per animation frame.
+   * Only one plane is animated at a time, the previous sweep is stopped. The steps are not
+   * recorded in the UndoService.
+   *
+   * @param sectionIndex - The index of the cutting section containing the plane
+   * @param planeIndex - The index of the cutting plane to move
+   * @param options - The range, duration and looping of the sweep
+   * @returns Promise that resolves when the sweep ends or is stopped, and rejects if the plane
+   * cannot be moved anymore
+   * @throws Error if cutting manager is not set, section index is invalid, or plane index is invalid
+   *
+   * @fires hoops-cutting-plane-animation-change - When the sweep starts and ends
+   * @fires hoops-cutting-plane-change - On each step of the sweep
+   *
+   * @example
+   * ```typescript
+   * // Sweep the plane through the whole model in 3 seconds, until stopped
+   * service.animatePlane(0, 0, { durationMs: 3000, loop: true });
+   *
+   * // Later
+   * service.stopPlaneAnimation();
+   * ```
+   */
+  async animatePlane(
+    sectionIndex: number,
+    planeIndex: number,
+    options: CuttingPlaneSweepOptions = {},
+  ): Promise<void> {
+    if (!this._cuttingManager) {
+      throw new Error('Cutting manager not set');
+    }
+
+    if (!this._cuttingManager.getCuttingSection(sectionIndex)) {
+      throw new Error(`No cutting section at index ${sectionIndex}`);
+    }
+
+    const range = this.getPlaneSweepRange(sectionIndex, planeIndex);
+    if (!range) {
+      throw new Error(`No cutting plane at index ${planeIndex} in section ${sectionIndex}`);
+    }
+
+    this.stopPlaneAnimation();
+
+    const clamp = (d: number) => Math.min(Math.max(d, range.min), range.max);
+    await new Promise<void>((resolve, reject) => {
+      this.planeSweep = {
+        sectionIndex,
+        planeIndex,
+        from: clamp(options.from ?? range.min),
+        to: clamp(options.to ?? range.max),
+        durationMs: Math.max(options.durationMs ?? 5000, 0),
+        loop: !!options.loop,
+        progress: 0,
+        state: 'paused',
+        resolve,
+        reject,
+      };
+      this.resumePlaneAnimation();
+    });
+  }
+
+  /**
+   * Gets the state of the sweep of a cutting plane.
+   *
+   * @param sectionIndex - The index of the cutting section containing the plane
+   * @param planeIndex - The index of the cutting plane
+   * @returns The state of the sweep, 'stopped' if the plane is not animated
+   */
+  getPlaneAnimationState(sectionIndex: number, planeIndex: number): CuttingPlaneSweepState {
+    const sweep = this.planeSweep;
+    return sweep && sweep.sectionIndex === sectionIndex && sweep.planeIndex === planeIndex
+      ? sweep.state
+      : 'stopped';
+  }
+
+  /**
+   * Pauses the current sweep, the plane stays where it is.
+   *
+   * @fires hoops-cutting-plane-animation-change - When the sweep is paused
+   */
+  pausePlaneAnimation(): void {
+    const sweep = this.planeSweep;
+    if (!sweep || sweep.state !== 'playing') {
+      return;
+    }
+
+    if (sweep.frame !== undefined) {
+      cancelAnimationFrame(sweep.frame);
+      sweep.frame = undefined;
+    }
+    sweep.state = 'paused';
+    this.dispatchPlaneAnimationChange(sweep, 'paused');
+  }
+
+  /**
+   * Resumes the paused sweep from where it was paused.
+   *
+   * @fires hoops-cutting-plane-animation-change - When the sweep is resumed
+   */
+  resumePlaneAnimation(): void {
+    const sweep = this.planeSweep;
+    if (!sweep || sweep.state !== 'paused') {
+      return;
+    }
+
+    sweep.state = 'playing';
+    sweep.lastTime = undefined;
+    sweep.frame = requestAnimationFrame((time) => this.stepPlaneSweep(sweep, time));
+    this.dispatchPlaneAnimationChange(sweep, 'playing');
+  }
+
+  /**
+   * Stops the current sweep, the plane stays where it is.
+   *
+   * @fires hoops-cutting-plane-animation-change - When the sweep is stopped
+   */
+  stopPlaneAnimation(): void {
+    this.endPlaneSweep();
+  }
+
+  /**
+   * Moves the plane of a sweep to its position at the time of a frame, and requests the next
+   * frame once the plane is moved.
+   *
+   * @param sweep - The sweep to step, nothing is done if it is not playing anymore
+   * @param time - The time of the frame, in milliseconds
+   */
+  private async stepPlaneSweep(sweep: PlaneSweep, time: number): Promise<void> {
+    sweep.frame = undefined;
+    if (this.planeSweep !== sweep || sweep.state !== 'playing') {
+      return;
+    }
+
+    const elapsed = sweep.lastTime === undefined ? 0 : time - sweep.lastTime;
+    sweep.lastTime = time;
+    sweep.progress = sweep.durationMs > 0 ? sweep.progress + elapsed / sweep.durationMs : 1;
+    const ended = sweep.progress >= 1 && !sweep.loop;
+    if (sweep.progress >= 1) {
+      sweep.progress = sweep.loop ? sweep.progress % 1 : 1;
+    }
+
+    try {
+      const cuttingPlane = this.getCuttingPlane(sweep.sectionIndex, sweep.planeIndex);
+      if (!cuttingPlane) {
+        throw new Error(
+          `No cutting plane at index ${sweep.planeIndex} in section ${sweep.sectionIndex}`,
+        );
+      }
+
+      cuttingPlane.plane.d = sweep.from + (sweep.to - sweep.from) * sweep.progress;
+      // The reference geometry is regenerated at the new position of the plane
+      await this.updateCuttingPlane(sweep.sectionIndex, sweep.planeIndex, {
+        plane: cuttingPlane.plane,
+        referenceGeometry: cuttingPlane.referenceGeometry,
+      });
+    } catch (error) {
+      this.endPlaneSweep(sweep, error);
+      return;
+    }
+
+    if (ended) {
+      this.endPlaneSweep(sweep);
+    } else if (this.planeSweep === sweep && sweep.state === 'playing') {
+      sweep.frame = requestAnimationFrame((frameTime) => this.stepPlaneSweep(sweep, frameTime));
+    }
+  }
+
+  /**
+   * Ends a sweep, settling the promise returned by `animatePlane`.
+   *
+   * @param sweep - The sweep to end, the current one by default
+   * @param error - The error ending the sweep, if any
+   */
+  private endPlaneSweep(sweep = this.planeSweep, error?: unknown): void {
+    if (!sweep || this.planeSweep !== sweep) {
+      return;
+    }
+
+    if (sweep.frame !== undefined) {
+      cancelAnimationFrame(sweep.frame);
+    }
+    this.planeSweep = undefined;
+    this.dispatchPlaneAnimationChange(sweep, 'stopped');
+
+    if (error === undefined) {
+      sweep.resolve();
+    } else {
+      sweep.reject(error);
+    }
+  }
+
+  /**
+   * Keeps the sweep on its plane when planes of its section are removed: the sweep ends when its
+   * plane is removed, and follows its plane when a plane before it is removed.
+   * The handle of a section box is removed with the faces of the box.
+   *
+   * @param sectionIndex - The index of the section the planes are removed from
+   * @param planeIndex - The index of the removed plane, all the planes of the section by default
+   */
+  private async onCuttingPlanesRemoved(sectionIndex: number, planeIndex?: number): Promise<void> {
+    if (this.sectionBoxHandle?.sectionIndex === sectionIndex) {
+      await this.hideSectionBoxHandle();
+    }
+
+    const sweep = this.planeSweep;
+    if (!sweep || sweep.sectionIndex !== sectionIndex) {
+      return;
+    }
+
+    if (planeIndex === undefined || planeIndex === sweep.planeIndex) {
+      this.endPlaneSweep(sweep);
+    } else if (planeIndex < sweep.planeIndex) {
+      this.dispatchPlaneAnimationChange(sweep, 'stopped');
+      sweep.planeIndex -= 1;
+      this.dispatchPlaneAnimationChange(sweep, sweep.state);
+    }
+  }
+
+  /**
+   * Notifies the components controlling a plane that the state of its sweep changed.
+   */
+  private dispatchPlaneAnimationChange(sweep: PlaneSweep, state: CuttingPlaneSweepState): void {
+    this.dispatchEvent(
+      new CustomEvent<{ sectionIndex: number; planeIndex: number; state: CuttingPlaneSweepState }>(
+        'hoops-cutting-plane-animation-change',
+        {
+          bubbles: true,
+          composed: true,
+          detail: { sectionIndex: sweep.sectionIndex, planeIndex: sweep.planeIndex, state },
+        },
+      ),
+    );
+  }
+
+  /**
+   * Replaces the cutting planes of a section with a section box.
+   * The replacement is recorded in the UndoService as a single operation when it is registered.
+   *
+   * @param sectionIndex - The index of the cutting section to fill
+   * @param target - The box to keep, or the nodes to keep the bounding box of
+   * @param padding - The distance added around the box on each side, in model units
+   * @throws Error if cutting manager is not set, section index is invalid, or no node is given
+   *
+   * @fires hoops-cutting-sections-change - When the section box is created
+   *
+   * @example
+   * ```typescript
+   * // Keep the selected nodes, with a margin of 10 units
+   * await service.createSectionBox(0, service.getSelectedNodeIds(), 10);
+   *
+   * // Keep the whole model
+   * await service.createSectionBox(0, service.getModelBounding());
+   * ```
+   */
+  async createSectionBox(sectionIndex: number, target: Box | NodeId[], padding = 0): Promise<void> {
+    if (!this._cuttingManager) {
+      throw new Error('Cutting manager not set');
+    }
+
+    const hwvSection = this._cuttingManager.getCuttingSection(sectionIndex);
+    if (!hwvSection) {
+      throw new Error(`No cutting section at index ${sectionIndex}`);
+    }
+
+    let bounding: Box;
+    if (Array.isArray(target)) {
+      if (target.length === 0) {
+        throw new Error('No node to create a section box around');
+      }
+      bounding = await this._cuttingManager.viewer.model.getNodesBounding(target);
+    } else {
+      bounding = target;
+    }
+
+    const margin = new Point3(padding, padding, padding);
+    const box = new Box(Point3.subtract(bounding.min, margin), Point3.add(bounding.max, margin));
+    const cuttingPlanes = createSectionBoxCuttingPlanes(
+      box,
+      !!this.sectionHideReferenceGeometry[sectionIndex],
+    );
+
+    const replacePlanes = async () => {
+      for (let planeIndex = hwvSection.getCount() - 1; planeIndex >= 0; --planeIndex) {
+        await this.removeCuttingPlane(sectionIndex, planeIndex);
+      }
+      for (const cuttingPlane of cuttingPlanes) {
+        await this.addCuttingPlane(sectionIndex, cuttingPlane);
+      }
+    };
+
+    const undoService = tryGetService<IUndoService>('UndoService');
+    await (undoService
+      ? undoService.transaction('Create section box', replacePlanes)
+      : replacePlanes());
+    this.dispatchSectionsChange();
+  }
+
+  /**
+   * Gets the section box of a cutting section.
+   *
+   * @param sectionIndex - The index of the cutting section
+   * @returns The box kept by the section, or undefined if the section is not a section box
+   */
+  getSectionBox(sectionIndex: number): Box | undefined {
+    const hwvSection = this._cuttingManager?.getCuttingSection(sectionIndex);
+    if (!hwvSection) {
+      return undefined;
+    }
+
+    return getSectionBoxFromPlanes(
+      hwvSection.getCuttingPlanes().map((cuttingPlane) => cuttingPlane.plane),
+    );
+  }
+
+  /**
+   * Moves the faces of a section box, the faces keep their colors and visibility.
+   * The change is recorded in the UndoService when it is registered.
+   *
+   * @param sectionIndex - The index of the cutting section
+   * @param box - The new box kept by the section
+   * @throws Error if cutting manager is not set, section index is invalid, or the section is not
+   * a section box
+   *
+   * @fires hoops-cutting-sections-change - When the section box is resized
+   *
+   * @example
+   * ```typescript
+   * // Move the top face down
+   * const box = service.getSectionBox(0)!;
+   * box.max.z -= 5;
+   * await service.setSectionBox(0, box);
+   * ```
+   */
+  async setSectionBox(sectionIndex: number, box: Box): Promise<void> {
+    if (!this._cuttingManager) {
+      throw new Error('Cutting manager not set');
+    }
+
+    const hwvSection = this._cuttingManager.getCuttingSection(sectionIndex);
+    if (!hwvSection) {
+      throw new Error(`No cutting section at index ${sectionIndex}`);
+    }
+
+    const previousBox = this.getSectionBox(sectionIndex);
+    if (!previousBox) {
+      throw new Error(`Cutting section at index ${sectionIndex} is not a section box`);
+    }
+
+    await this.applySectionBox(hwvSection, box);
+    await this.updateSectionBoxHandle(sectionIndex, box);
+    this.dispatchSectionsChange();
+
+    tryGetService<IUndoService>('UndoService')?.record({
+      label: 'Resize section box',
+      undo: () => this.setSectionBox(sectionIndex, previousBox),
+      redo: () => this.setSectionBox(sectionIndex, box),
+    });
+  }
+
+  /**
+   * Shows a translation handle in the viewport on a face of a section box, dragging the handle
+   * moves the face along its axis and is recorded like `setSectionBox`.
+   * Only one face has a handle at a time, the previous handle and the handles of the nodes are
+   * removed.
+   *
+   * @param sectionIndex - The index of the cutting section
+   * @param face - The face to move with the handle
+   * @throws Error if cutting manager is not set or the section is not a section box
+   *
+   * @fires hoops-cutting-section-box-handle-change - When the handle is shown
+   *
+   * @example
+   * ```typescript
+   * // Drag the top face of the box in the viewport
+   * await service.showSectionBoxHandle(0, 'z-max');
+   * ```
+   */
+  async showSectionBoxHandle(sectionIndex: number, face: SectionBoxFace): Promise<void> {
+    if (!this._cuttingManager) {
+      throw new Error('Cutting manager not set');
+    }
+
+    const box = this.getSectionBox(sectionIndex);
+    if (!box) {
+      throw new Error(`Cutting section at index ${sectionIndex} is not a section box`);
+    }
+
+    this.sectionBoxHandle = { sectionIndex, face };
+    await this.updateSectionBoxHandle(sectionIndex, box);
+    this.dispatchSectionBoxHandleChange();
+  }
+
+  /**
+   * Removes the handle of the section box from the viewport, along with the handles of the nodes.
+   *
+   * @fires hoops-cutting-section-box-handle-change - When the handle is removed
+   */
+  async hideSectionBoxHandle(): Promise<void> {
+    if (!this.sectionBoxHandle) {
+      return;
+    }
+
+    this.sectionBoxHandle = undefined;
+    await this.getHandleOperator()?.removeHandles();
+    this.dispatchSectionBoxHandleChange();
+  }
+
+  /**
+   * Gets the face of a section box having the handle of the viewport.
+   *
+   * @returns The section and face of the handle, or undefined if no handle is shown
+   */
+  getSectionBoxHandle(): SectionBoxHandle | undefined {
+    return this.sectionBoxHandle && { ...this.sectionBoxHandle };
+  }
+
+  /**
+   * Gets the handle operator of the viewer.
+   */
+  private getHandleOperator() {
+    return this._cuttingManager?.viewer.operatorManager.getOperator(OperatorId.Handle);
+  }
+
+  /**
+   * Moves the handle of the viewport to the center of its face when its section box changes.
+   *
+   * @param sectionIndex - The index of the cutting section of the box
+   * @param box - The box kept by the section
+   */
+  private async updateSectionBoxHandle(sectionIndex: number, box: Box): Promise<void> {
+    const handleOperator = this.getHandleOperator();
+    if (this.sectionBoxHandle?.sectionIndex !== sectionIndex || !handleOperator) {
+      return;
+    }
+
+    const { face } = this.sectionBoxHandle;
+    const axis = face[0] as 'x' | 'y' | 'z';
+    const isMin = face.endsWith('min');
+    const position = box.center();
+    position[axis] = (isMin ? box.min : box.max)[axis];
+    const direction = new Point3(0, 0, 0);
+    direction[axis] = isMin ? -1 : 1;
+
+    await handleOperator.removeHandles();
+    handleOperator.addAxisTranslationHandle(position, direction, sectionBoxHandleColors[axis]);
+  }
+
+  /**
+   * Notifies the components that the handle of the section box was shown or removed.
+   */
+  private dispatchSectionBoxHandleChange(): void {
+    this.dispatchEvent(
+      new CustomEvent<{ handle?: SectionBoxHandle }>('hoops-cutting-section-box-handle-change', {
+        bubbles: true,
+        composed: true,
+        detail: { handle: this.getSectionBoxHandle() },
+      }),
+    );
+  }
+
+  /**
+   * Moves the planes of a section box to the faces of a box, updating the reference geometry of
+   * the visible faces.
+   *
+   * @param hwvSection - The cutting section of the section box
+   * @param box - The box kept by the section
+   */
+  private async applySectionBox(hwvSection: core.ICuttingSection, box: Box): Promise<void> {
+    const hwvPlanes = hwvSection.getCuttingPlanes();
+    await Promise.all(
+      createSectionBoxCuttingPlanes(box).map((cuttingPlane, planeIndex) =>
+        hwvSection.setPlane(
+          planeIndex,
+          cuttingPlane.plane,
+          hwvPlanes[planeIndex].referenceGeometry ? cuttingPlane.referenceGeometry ?? null : null,
+          hwvPlanes[planeIndex],
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Exports the profile of the model cut by a cutting plane, the intersection of the visible
+   * meshes with the plane as closed polylines per node, in the 2D coordinates of the plane.
+   *
+   * Only the body instances whose bounding box the plane crosses are fetched, the other planes
+   * of the section are ignored.
+   *
+   * @param sectionIndex - The index of the cutting section containing the plane
+   * @param planeIndex - The index of the cutting plane
+   * @param format - `svg` or `dxf` with a group or layer per node, `json` for the `SectionProfile`
+   * @returns Promise that resolves with the content of the file
+   * @throws Error if cutting manager is not set, section index is invalid, plane index is invalid,
+   * or format is not supported
+   *
+   * @example
+   * ```typescript
+   * const svg = await service.exportSectionProfile(0, 0, 'svg');
+   * downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'section-profile.svg');
+   * ```
+   */
+  async exportSectionProfile(
+    sectionIndex: number,
+    planeIndex: number,
+    format: SectionProfileFormat,
+  ): Promise<string> {
+    if (!this._cuttingManager) {
+      throw new Error('Cutting manager not set');
+    }
+
+    if (!this._cuttingManager.getCuttingSection(sectionIndex)) {
+      throw new Error(`No cutting section at index ${sectionIndex}`);
+    }
+
+    const cuttingPlane = this.getCuttingPlane(sectionIndex, planeIndex);
+    if (!cuttingPlane) {
+      throw new Error(`No cutting plane at index ${planeIndex} in section ${sectionIndex}`);
+    }
+
+    if (!SectionProfileFormats.includes(format)) {
+      throw new Error(`Unsupported section profile format ${format}`);
+    }
+
+    const { plane } = cuttingPlane;
+    const model = this._cuttingManager.viewer.model;
+    const nodeIds: NodeId[] = [];
+    const pending = [model.getAbsoluteRootNode()];
+    while (pending.length > 0) {
+      const nodeId = pending.pop()!;
+      if (!model.getNodeVisibility(nodeId)) {
+        continue;
+      }
+
+      if (model.getNodeType(nodeId) === NodeType.BodyInstance) {
+        nodeIds.push(nodeId);
+      }
+      pending.push(...model.getNodeChildren(nodeId));
+    }
+
+    // The layers follow the order of the model tree, the nodes are read one at a time so that
+    // the mesh data of a single node is held at once
+    const trianglesByNode = new Map<NodeId, Point3[]>();
+    for (const nodeId of nodeIds) {
+      const range = getPlaneDistanceRange(plane, await model.getNodesBounding([nodeId]));
+      if (plane.d < range.min || plane.d > range.max) {
+        continue;
+      }
+
+      const meshData = await model.getNodeMeshData(nodeId);
+      const matrix = model.getNodeNetMatrix(nodeId);
+      const positions: Point3[] = [];
+      const iterator = meshData.faces.iterate();
+      while (!iterator.done()) {
+        const [x, y, z] = iterator.next().position;
+        positions.push(matrix.transform(new Point3(x, y, z)));
+      }
+      trianglesByNode.set(nodeId, positions);
+    }
+
+    return formatSectionProfile(
+      createSectionProfile(plane, this.getModelBounding(), trianglesByNode),
+      format,
+    );
+  }
+
+  /**
+   * Saves the cutting planes and state of a section as a preset, replacing the preset with the
+   * same name. The presets are kept when the cutting manager changes.
+   *
+   * @param name - The name of the preset
+   * @param sectionIndex - The index of the cutting section to save
+   * @throws Error if cutting manager is not set, section index is invalid, or name is empty
+   *
+   * @fires hoops-cutting-presets-change - When the preset is saved
+   *
+   * @example
+   * ```typescript
+   * service.saveSectionPreset('Front half', 0);
+   * // Later, or on another model
+   * await service.applySectionPreset('Front half', 0);
+   * ```
+   */
+  saveSectionPreset(name: string, sectionIndex: number): void {
+    if (!this._cuttingManager) {
+      throw new Error('Cutting manager not set');
+    }
+
+    const section = this.getCuttingSection(sectionIndex);
+    if (!section) {
+      throw new Error(`No cutting section at index ${sectionIndex}`);
+    }
+
+    if (!name.trim()) {
+      throw new Error('Section preset name is empty');
+    }
+
+    this.sectionPresets.set(name, {
+      name,
+      section: {
+        cuttingPlanes: section.cuttingPlanes.map(toCuttingPlaneData),
+        active: section.active,
+        hideReferenceGeometry: section.hideReferenceGeometry,
+      },
+    });
+    this.dispatchPresetsChange();
+  }
+
+  /**
+   * Replaces the cutting planes and state of a section with the ones of a preset.
+   * The replacement is recorded in the UndoService as a single operation when it is registered.
+   *
+   * @param name - The name of the preset to apply
+   * @param sectionIndex - The index of the cutting section to apply the preset to
+   * @throws Error if cutting manager is not set, section index is invalid, or there is no preset
+   * with this name
+   *
+   * @fires hoops-cutting-sections-change - When the preset is applied
+   */
+  async applySectionPreset(name: string, sectionIndex: number): Promise<void> {
+    if (!this._cuttingManager) {
+      throw new Error('Cutting manager not set');
+    }
+
+    const hwvSection = this._cuttingManager.getCuttingSection(sectionIndex);
+    if (!hwvSection) {
+      throw new Error(`No cutting section at index ${sectionIndex}`);
+    }
+
+    const preset = this.sectionPresets.get(name);
+    if (!preset) {
+      throw new Error(`No section preset named ${name}`);
+    }
+
+    const { section } = preset;
+    const replacePlanes = async () => {
+      for (let planeIndex = hwvSection.getCount() - 1; planeIndex >= 0; --planeIndex) {
+        await this.removeCuttingPlane(sectionIndex, planeIndex);
+      }
+      // The planes keep their own reference geometry, the flag of the section is only restored
+      this.sectionHideReferenceGeometry[sectionIndex] = !!section.hideReferenceGeometry;
+      for (const cuttingPlane of section.cuttingPlanes) {
+        await this.addCuttingPlane(sectionIndex, fromCuttingPlaneData(cuttingPlane));
+      }
+      if (section.cuttingPlanes.length > 0) {
+        await this.setCuttingSectionState(sectionIndex, section.active);
+      }
+    };
+
+    const undoService = tryGetService<IUndoService>('UndoService');
+    await (undoService
+      ? undoService.transaction('Apply section preset', replacePlanes)
+      : replacePlanes());
+    this.dispatchSectionsChange();
+  }
+
+  /**
+   * Lists the names of the saved presets, in the order they were first saved.
+   *
+   * @returns The names of the presets
+   */
+  listSectionPresets(): string[] {
+    return [...this.sectionPresets.keys()];
+  }
+
+  /**
+   * Deletes a preset, does nothing if there is no preset with this name.
+   *
+   * @param name - The name of the preset to delete
+   *
+   * @fires hoops-cutting-presets-change - When the preset is deleted
+   */
+  deleteSectionPreset(name: string): void {
+    if (this.sectionPresets.delete(name)) {
+      this.dispatchPresetsChange();
+    }
+  }
+
+  /**
+   * Exports the saved presets, to store them outside of the viewer.
+   *
+   * @returns Copies of the presets, JSON serializable
+   *
+   * @example
+   * ```typescript
+   * localStorage.setItem('cutting-presets', JSON.stringify(service.exportSectionPresets()));
+   * ```
+   */
+  exportSectionPresets(): SectionPreset[] {
+    return JSON.parse(JSON.stringify([...this.sectionPresets.values()]));
+  }
+
+  /**
+   * Imports presets, replacing the presets with the same names.
+   *
+   * @param presets - The presets to import, as returned by `exportSectionPresets`
+   * @throws Error if presets is not an array of valid presets
+   *
+   * @fires hoops-cutting-presets-change - When the presets are imported
+   *
+   * @example
+   * ```typescript
+   * service.importSectionPresets(JSON.parse(localStorage.getItem('cutting-presets') ?? '[]'));
+   * ```
+   */
+  importSectionPresets(presets: unknown): void {
+    if (!Array.isArray(presets) || !presets.every(isSectionPreset)) {
+      throw new Error('Invalid section presets object');
+    }
+
+    for (const preset of JSON.parse(JSON.stringify(presets)) as SectionPreset[]) {
+      this.sectionPresets.set(preset.name, preset);
+    }
+    this.dispatchPresetsChange();
+  }
+
+  /**
+   * Notifies the components listing the presets that they changed.
+   */
+  private dispatchPresetsChange(): void {
+    this.dispatchEvent(
+      new CustomEvent('hoops-cutting-presets-change', {
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  /**
+   * Notifies the components listing the cutting sections that the planes of a section changed.
+   */
+  private dispatchSectionsChange(): void {
+    this.dispatchEvent(
+      new CustomEvent('hoops-cutting-sections-change', {
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  /**
+   * Gets the current cutting service configuration.
+   *
+   * This is the counterpart of `resetConfiguration`, the returned object can be
+   * stored and applied later to restore the capping settings.
+   *
+   * @returns Promise that resolves with the current configuration
+   */
+  public async getConfiguration(): Promise<CuttingServiceConfiguration> {
+    return {
+      cappingGeometryVisibility: this.getCappingGeometryVisibility(),
+      cappingFaceColor: this.getCappingFaceColor(),
+      cappingLineColor: this.getCappingLineColor(),
+    };
+  }
+
   /**
    * Resets the cutting service configuration to default values or provided configuration.
    *
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { Box, Plane, Point3 } from '@ts3d-hoops/common';
+import { chainSegments, createSectionProfile, formatSectionProfile } from './profile';
+
+/**
+ * The triangles of the faces of a cube centered on the origin, three vertices per triangle.
+ */
+function createCubeTriangles(size: number): Point3[] {
+  const corner = (index: number) =>
+    new Point3(index & 1 ? size : -size, index & 2 ? size : -size, index & 4 ? size : -size);
+  const faces = [
+    [0, 2, 6, 4],
+    [1, 5, 7, 3],
+    [0, 4, 5, 1],
+    [2, 3, 7, 6],
+    [0, 1, 3, 2],
+    [4, 6, 7, 5],
+  ];
+  return faces.flatMap(([a, b, c, d]) => [a, b, c, a, c, d].map(corner));
+}
+
+describe('chainSegments', () => {
+  it('should join the segments in any order and direction', () => {
+    const polylines = chainSegments(
+      [
+        [
+          { x: 1, y: 0 },
+          { x: 2, y: 0 },
+        ],
+        [
+          { x: 1, y: 0 },
+          { x: 0, y: 0 },
+        ],
+        [
+          { x: 2, y: 0 },
+          { x: 2, y: 1 },
+        ],
+        [
+          { x: 5, y: 5 },
+          { x: 5, y: 5 },
+        ],
+      ],
+      1e-9,
+    );
+
+    expect(polylines).toEqual([
+      {
+        points: [
+          { x: 0, y: 0 },
+          { x: 1, y: 0 },
+          { x: 2, y: 0 },
+          { x: 2, y: 1 },
+        ],
+        closed: false,
+      },
+    ]);
+  });
+
+  it('should close the loops without repeating their first point', () => {
+    const polylines = chainSegments(
+      [
+        [
+          { x: 0, y: 0 },
+          { x: 1, y: 0 },
+        ],
+        [
+          { x: 0, y: 1 },
+          { x: 0, y: 1e-12 },
+        ],
+        [
+          { x: 1, y: 0 },
+          { x: 0, y: 1 },
+        ],
+      ],
+      1e-9,
+    );
+
+    expect(polylines).toHaveLength(1);
+    expect(polylines[0].closed).toBe(true);
+    expect(polylines[0].points).toHaveLength(3);
+  });
+});
+
+describe('createSectionProfile', () => {
+  it('should produce a closed polyline around a cube', () => {
+    const plane = Plane.createFromCoefficients(0, 0, 2, -1);
+    const bounding = new Box(new Point3(-1, -1, -1), new Point3(1, 1, 1));
+    const profile = createSectionProfile(
+      plane,
+      bounding,
+      new Map([
+        [7, createCubeTriangles(1)],
+        [8, createCubeTriangles(0.25)],
+      ]),
+    );
+
+    // The plane z = 0.5 misses the small cube
+    expect(profile.origin).toEqual({ x: 0, y: 0, z: 0.5 });
+    expect(profile.layers.map(({ nodeId }) => nodeId)).toEqual([7]);
+
+    const [polyline] = profile.layers[0].polylines;
+    expect(profile.layers[0].polylines).toHaveLength(1);
+    expect(polyline.closed).toBe(true);
+    // The two triangles of each side of the cube give a point at its corners and its middle
+    expect(polyline.points).toHaveLength(8);
+    for (const { x, y } of polyline.points) {
+      expect(Math.max(Math.abs(x), Math.abs(y))).toBeCloseTo(1);
+    }
+  });
+});
+
+describe('formatSectionProfile', () => {
+  const profile = {
+    origin: { x: 0, y: 0, z: 0 },
+    xAxis: { x: 1, y: 0, z: 0 },
+    yAxis: { x: 0, y: 1, z: 0 },
+    layers: [
+      {
+        nodeId: 4,
+        polylines: [
+          {
+            points: [
+              { x: 0, y: 0 },
+              { x: 2, y: 0 },
+              { x: 2, y: 1.0000000001 },
+            ],
+            closed: true,
+          },
+        ],
+      },
+    ],
+  };
+
+  it('should write a SVG group per node with the y axis up', () => {
+    const svg = formatSectionProfile(profile, 'svg');
+
+    expect(svg).toContain('viewBox="0 -1 2 1"');
+    expect(svg).toContain('<g id="node-4" data-node-id="4">');
+    expect(svg).toContain('<polygon points="0,0 2,0 2,-1"/>');
+  });
+
+  it('should write the SVG of a profile with more points than the arguments of a call', () => {
+    const points = Array.from({ length: 200000 }, (_, index) => ({ x: index / 1000, y: 1 }));
+    const svg = formatSectionProfile(
+      { ...profile, layers: [{ nodeId: 5, polylines: [{ points, closed: false }] }] },
+      'svg',
+    );
+
+    expect(svg).toContain('viewBox="0 -1 199.999 0"');
+  });
+
+  it('should write a DXF polyline per polyline on the layer of its node', () => {
+    const lines = formatSectionProfile(profile, 'dxf').split('\n');
+
+    expect(lines.slice(0, 4)).toEqual(['0', 'SECTION', '2', 'ENTITIES']);
+    expect(lines.slice(4, 12)).toEqual(['0', 'POLYLINE', '8', '4', '66', '1', '70', '1']);
+    expect(lines.filter((line) => line === 'VERTEX')).toHaveLength(3);
+    expect(lines.slice(-4)).toEqual(['ENDSEC', '0', 'EOF', '']);
+  });
+
+  it('should write the profile as JSON', () => {
+    expect(JSON.parse(formatSectionProfile(profile, 'json'))).toEqual(profile);
+  });
+});
@@ -0,0 +1,298 @@
+import { Box, Plane, Point3 } from '@ts3d-hoops/common';
+import type { NodeId } from '@ts3d-hoops/web-viewer';
+import { SectionProfile, SectionProfileFormat, SectionProfilePolyline } from './types';
+
+type Point2 = { x: number; y: number };
+
+/**
+ * Gets the unit axes of the 2D coordinates of a plane, chosen as for the reference geometry of
+ * the cutting planes.
+ *
+ * @param normal - The unit normal of the plane
+ * @returns The x and y axes, so that x, y and the normal are a direct base
+ */
+function getPlaneAxes(normal: Point3): [Point3, Point3] {
+  let u: Point3;
+  if (Math.abs(normal.x) < Math.abs(normal.y) && Math.abs(normal.x) < Math.abs(normal.z)) {
+    u = new Point3(1, 0, 0);
+  } else if (Math.abs(normal.y) < Math.abs(normal.z)) {
+    u = new Point3(0, 1, 0);
+  } else {
+    u = new Point3(0, 0, 1);
+  }
+
+  u = Point3.subtract(u, Point3.scale(normal, Point3.dot(u, normal))).normalize();
+  return [u, Point3.cross(normal, u).normalize()];
+}
+
+/**
+ * Intersects triangles with a plane.
+ *
+ * The vertices on the plane count as in front of it, so that a triangle crossing the plane has
+ * exactly two edges crossing it. The crossing point of an edge is always interpolated from its
+ * vertex in front of the plane, so that the triangles sharing the edge share the point.
+ *
+ * @param plane - The plane, its normal need not be a unit vector
+ * @param positions - The vertices of the triangles, three per triangle
+ * @returns The segments where the triangles cross the plane
+ */
+export function intersectTriangles(plane: Plane, positions: Point3[]): [Point3, Point3][] {
+  const segments: [Point3, Point3][] = [];
+  const distances = positions.map((position) => Point3.dot(plane.normal, position) + plane.d);
+
+  for (let index = 0; index + 2 < positions.length; index += 3) {
+    const crossings: Point3[] = [];
+    for (const [a, b] of [
+      [index, index + 1],
+      [index + 1, index + 2],
+      [index + 2, index],
+    ]) {
+      if (distances[a] >= 0 === distances[b] >= 0) {
+        continue;
+      }
+
+      const [front, back] = distances[a] >= 0 ? [a, b] : [b, a];
+      const t = distances[front] / (distances[front] - distances[back]);
+      crossings.push(
+        Point3.add(
+          positions[front],
+          Point3.scale(Point3.subtract(positions[back], positions[front]), t),
+        ),
+      );
+    }
+
+    if (crossings.length === 2) {
+      segments.push([crossings[0], crossings[1]]);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Chains segments into polylines, the segments sharing an end point within the tolerance are
+ * joined.
+ *
+ * @param segments - The segments to chain, in any order and direction
+ * @param tolerance - The distance under which two end points are the same point
+ * @returns The polylines, closed when their chain loops back to its first point
+ */
+export function chainSegments(
+  segments: [Point2, Point2][],
+  tolerance: number,
+): SectionProfilePolyline[] {
+  const keyOf = ({ x, y }: Point2) => `${Math.round(x / tolerance)},${Math.round(y / tolerance)}`;
+
+  const segmentKeys: [string, string][] = [];
+  const segmentsByKey = new Map<string, number[]>();
+  for (const [index, [a, b]] of segments.entries()) {
+    const keys: [string, string] = [keyOf(a), keyOf(b)];
+    segmentKeys.push(keys);
+    if (keys[0] === keys[1]) {
+      continue;
+    }
+
+    for (const key of keys) {
+      const indices = segmentsByKey.get(key) ?? [];
+      indices.push(index);
+      segmentsByKey.set(key, indices);
+    }
+  }
+
+  const used = new Set<number>();
+  // Takes an unused segment ending at a key, returns the key and point of its other end
+  const follow = (key: string): [string, Point2] | undefined => {
+    const index = segmentsByKey.get(key)?.find((current) => !used.has(current));
+    if (index === undefined) {
+      return undefined;
+    }
+
+    used.add(index);
+    const end = segmentKeys[index][0] === key ? 1 : 0;
+    return [segmentKeys[index][end], segments[index][end]];
+  };
+
+  const polylines: SectionProfilePolyline[] = [];
+  for (const [index, [a, b]] of segments.entries()) {
+    const [firstKey, secondKey] = segmentKeys[index];
+    if (used.has(index) || firstKey === secondKey) {
+      continue;
+    }
+
+    used.add(index);
+    const points = [a, b];
+    let lastKey = secondKey;
+    let closed = false;
+    for (let next = follow(lastKey); next; next = follow(lastKey)) {
+      if (next[0] === firstKey) {
+        closed = true;
+        break;
+      }
+
+      lastKey = next[0];
+      points.push(next[1]);
+    }
+
+    if (!closed) {
+      for (let previous = follow(firstKey); previous; previous = follow(previous[0])) {
+        points.unshift(previous[1]);
+      }
+    }
+
+    polylines.push({ points, closed });
+  }
+
+  return polylines;
+}
+
+/**
+ * Creates the profile of meshes cut by a plane.
+ *
+ * @param plane - The cutting plane, its normal need not be a unit vector
+ * @param bounding - The model bounding box, its center projected on the plane is the origin of
+ * the profile and its size scales the tolerance joining the segments
+ * @param trianglesByNode - The vertices of the triangles of each node in model coordinates,
+ * three per triangle
+ * @returns The profile, with a layer per node crossed by the plane
+ *
+ * @example
+ * ```typescript
+ * const plane = Plane.createFromCoefficients(0, 0, 1, 0);
+ * const profile = createSectionProfile(plane, bounding, new Map([[12, positions]]));
+ * console.log(profile.layers[0].polylines[0].closed);
+ * ```
+ */
+export function createSectionProfile(
+  plane: Plane,
+  bounding: Box,
+  trianglesByNode: Map<NodeId, Point3[]>,
+): SectionProfile {
+  const normal = plane.normal.copy().normalize();
+  const [xAxis, yAxis] = getPlaneAxes(normal);
+  const center = bounding.center();
+  const origin = Point3.subtract(
+    center,
+    Point3.scale(normal, Point3.dot(normal, center) + plane.d / plane.normal.length()),
+  );
+  const tolerance = Math.max(bounding.extents().length(), 1) * 1e-9;
+
+  const toPlane = (point: Point3): Point2 => {
+    const offset = Point3.subtract(point, origin);
+    return { x: Point3.dot(offset, xAxis), y: Point3.dot(offset, yAxis) };
+  };
+
+  const layers: SectionProfile['layers'] = [];
+  for (const [nodeId, positions] of trianglesByNode) {
+    const segments = intersectTriangles(plane, positions).map(([a, b]): [Point2, Point2] => [
+      toPlane(a),
+      toPlane(b),
+    ]);
+    const polylines = chainSegments(segments, tolerance);
+    if (polylines.length > 0) {
+      layers.push({ nodeId, polylines });
+    }
+  }
+
+  return {
+    origin: { x: origin.x, y: origin.y, z: origin.z },
+    xAxis: { x: xAxis.x, y: xAxis.y, z: xAxis.z },
+    yAxis: { x: yAxis.x, y: yAxis.y, z: yAxis.z },
+    layers,
+  };
+}
+
+/**
+ * Formats a coordinate for the SVG and DXF files, without the rounding noise of the
+ * intersections.
+ */
+function formatCoordinate(value: number): string {
+  return String(Number(value.toFixed(6)) + 0);
+}
+
+function sectionProfileToSvg(profile: SectionProfile): string {
+  // The bounds are computed in a loop, spreading the points would overflow the call stack
+  let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const { polylines } of profile.layers) {
+    for (const { points } of polylines) {
+      for (const { x, y } of points) {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  // The y axis of SVG points down
+  const viewBox =
+    minX <= maxX
+      ? [minX, -maxY, maxX - minX, maxY - minY].map(formatCoordinate).join(' ')
+      : '0 0 0 0';
+  const strokeWidth = formatCoordinate(Math.max(maxX - minX, maxY - minY, 0) / 1000);
+
+  const groups = profile.layers.map(({ nodeId, polylines }) => {
+    const elements = polylines.map(({ points, closed }) => {
+      const coordinates = points
+        .map(({ x, y }) => `${formatCoordinate(x)},${formatCoordinate(-y)}`)
+        .join(' ');
+      return `    <${closed ? 'polygon' : 'polyline'} points="${coordinates}"/>`;
+    });
+    return [`  <g id="node-${nodeId}" data-node-id="${nodeId}">`, ...elements, '  </g>'].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" fill="none" stroke="black" stroke-width="${strokeWidth}">`,
+    ...groups,
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Writes the profile as the ENTITIES section of an AutoCAD R12 DXF file, a POLYLINE per
+ * polyline on a layer named after its node id.
+ */
+function sectionProfileToDxf(profile: SectionProfile): string {
+  const pairs: [number, string][] = [
+    [0, 'SECTION'],
+    [2, 'ENTITIES'],
+  ];
+
+  for (const { nodeId, polylines } of profile.layers) {
+    const layer = String(nodeId);
+    for (const { points, closed } of polylines) {
+      pairs.push([0, 'POLYLINE'], [8, layer], [66, '1'], [70, closed ? '1' : '0']);
+      pairs.push([10, '0'], [20, '0'], [30, '0']);
+      for (const { x, y } of points) {
+        pairs.push([0, 'VERTEX'], [8, layer], [10, formatCoordinate(x)]);
+        pairs.push([20, formatCoordinate(y)], [30, '0']);
+      }
+      pairs.push([0, 'SEQEND'], [8, layer]);
+    }
+  }
+
+  pairs.push([0, 'ENDSEC'], [0, 'EOF']);
+  return pairs.map(([code, value]) => `${code}\n${value}`).join('\n') + '\n';
+}
+
+/**
+ * Writes a section profile in a file format.
+ *
+ * @param profile - The profile to write
+ * @param format - `svg` with a group per node, `dxf` with a layer per node, or `json`
+ * @returns The content of the file
+ */
+export function formatSectionProfile(
+  profile: SectionProfile,
+  format: SectionProfileFormat,
+): string {
+  switch (format) {
+    case 'svg':
+      return sectionProfileToSvg(profile);
+    case 'dxf':
+      return sectionProfileToDxf(profile);
+    case 'json':
+      return JSON.stringify(profile, null, 2);
+  }
+}
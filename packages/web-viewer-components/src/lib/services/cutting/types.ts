@@ -1,5 +1,6 @@
 import { Box, IColor, Plane, Point3 } from '@ts3d-hoops/common';
-import { IResettableConfigurationService, IService } from '../types';
+import type { NodeId } from '@ts3d-hoops/web-viewer';
+import { IConfigurableService, IService } from '../types';
 
 /**
  * Represents a selected face in the 3D model for cutting plane creation.
@@ -77,6 +78,226 @@ export type Section = {
   hideReferenceGeometry?: boolean;
 };
 
+/**
+ * The faces of a section box, in the order of the cutting planes of its section.
+ *
+ * A section box is a cutting section made of six axis-aligned planes, one per face of the box,
+ * each cutting what lies beyond its face so that only the inside of the box remains visible.
+ */
+export const SectionBoxFaces = ['x-min', 'x-max', 'y-min', 'y-max', 'z-min', 'z-max'] as const;
+
+/**
+ * A face of a section box.
+ */
+export type SectionBoxFace = (typeof SectionBoxFaces)[number];
+
+/**
+ * The face of a section box having the translation handle of the viewport, as dispatched with
+ * the `hoops-cutting-section-box-handle-change` event.
+ */
+export type SectionBoxHandle = {
+  /** The index of the cutting section of the section box. */
+  sectionIndex: number;
+  /** The face moved by the handle. */
+  face: SectionBoxFace;
+};
+
+/**
+ * The options of a cutting plane sweep, moving a plane along its normal through the model.
+ *
+ * The positions are the `d` coefficients of the plane, they are clamped to the range where the
+ * plane crosses the model bounding box.
+ *
+ * @example
+ * ```typescript
+ * const options: CuttingPlaneSweepOptions = { durationMs: 3000, loop: true };
+ * ```
+ */
+export type CuttingPlaneSweepOptions = {
+  /** The `d` of the plane at the start of the sweep, the start of the range by default. */
+  from?: number;
+  /** The `d` of the plane at the end of the sweep, the end of the range by default. */
+  to?: number;
+  /** The duration of a sweep from `from` to `to`, in milliseconds, 5000 by default. */
+  durationMs?: number;
+  /** Whether the sweep restarts from `from` when it reaches `to` until it is stopped. */
+  loop?: boolean;
+};
+
+/**
+ * The state of a cutting plane sweep, as dispatched with the
+ * `hoops-cutting-plane-animation-change` event.
+ */
+export type CuttingPlaneSweepState = 'playing' | 'paused' | 'stopped';
+
+/**
+ * A JSON friendly representation of a cutting plane, as saved in a section preset.
+ */
+export type CuttingPlaneData = {
+  /** The normal vector of the plane. */
+  normal: { x: number; y: number; z: number };
+  /** The distance of the plane from the origin along its normal. */
+  d: number;
+  /** Optional 3D vertices defining the visual representation of the plane. */
+  referenceGeometry?: { x: number; y: number; z: number }[];
+  /** Optional face color of the plane (RGB values 0-1). */
+  color?: IColor;
+  /** Optional line color of the plane (RGB values 0-1). */
+  lineColor?: IColor;
+  /** Optional opacity of the plane (0-1). */
+  opacity?: number;
+  /** Optional flag to hide the plane's reference geometry. */
+  hideReferenceGeometry?: boolean;
+};
+
+/**
+ * A named cutting section setup that can be applied to any section, and exported as JSON.
+ *
+ * @example
+ * ```typescript
+ * const preset: SectionPreset = {
+ *   name: 'Front half',
+ *   section: {
+ *     cuttingPlanes: [{ normal: { x: 0, y: 1, z: 0 }, d: 0, opacity: 0.5 }],
+ *     active: true,
+ *     hideReferenceGeometry: false,
+ *   },
+ * };
+ * ```
+ */
+export type SectionPreset = {
+  /** The name of the preset, unique among the presets of the service. */
+  name: string;
+  /** The cutting planes and state of the section. */
+  section: {
+    cuttingPlanes: CuttingPlaneData[];
+    active: boolean;
+    hideReferenceGeometry?: boolean;
+  };
+};
+
+/**
+ * The formats of the section profile export.
+ */
+export const SectionProfileFormats = ['svg', 'dxf', 'json'] as const;
+
+/**
+ * A format of the section profile export, `svg` and `dxf` for drawing tools, `json` for the
+ * `SectionProfile` object.
+ */
+export type SectionProfileFormat = (typeof SectionProfileFormats)[number];
+
+/**
+ * A polyline of a section profile, in the 2D coordinates of the plane.
+ */
+export type SectionProfilePolyline = {
+  /** The vertices of the polyline, the first one is not repeated at the end of closed ones. */
+  points: { x: number; y: number }[];
+  /** Whether the polyline is a closed loop. */
+  closed: boolean;
+};
+
+/**
+ * The profile of a model cut by a cutting plane, the intersection of its visible meshes with the
+ * plane, in the 2D coordinates of the plane.
+ *
+ * A point `{ x, y }` of the profile is at `origin + x * xAxis + y * yAxis` in the model.
+ *
+ * @example
+ * ```typescript
+ * const profile: SectionProfile = JSON.parse(await service.exportSectionProfile(0, 0, 'json'));
+ * for (const { nodeId, polylines } of profile.layers) {
+ *   console.log(`Node ${nodeId}: ${polylines.length} polylines`);
+ * }
+ * ```
+ */
+export type SectionProfile = {
+  /** The origin of the plane coordinates, the model bounding box center projected on the plane. */
+  origin: { x: number; y: number; z: number };
+  /** The unit vector of the x axis of the plane coordinates. */
+  xAxis: { x: number; y: number; z: number };
+  /** The unit vector of the y axis of the plane coordinates. */
+  yAxis: { x: number; y: number; z: number };
+  /** The polylines of each node crossed by the plane. */
+  layers: { nodeId: NodeId; polylines: SectionProfilePolyline[] }[];
+};
+
+function isPoint3Data(obj: unknown): obj is { x: number; y: number; z: number } {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const value = obj as { x: number; y: number; z: number };
+  return typeof value.x === 'number' && typeof value.y === 'number' && typeof value.z === 'number';
+}
+
+function isColorData(obj: unknown): obj is IColor {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const value = obj as IColor;
+  return typeof value.r === 'number' && typeof value.g === 'number' && typeof value.b === 'number';
+}
+
+/**
+ * Type guard function to validate CuttingPlaneData objects.
+ *
+ * @param obj - The object to validate
+ * @returns True if the object is a valid CuttingPlaneData, false otherwise
+ */
+export function isCuttingPlaneData(obj: unknown): obj is CuttingPlaneData {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const value = obj as CuttingPlaneData;
+  return (
+    isPoint3Data(value.normal) &&
+    typeof value.d === 'number' &&
+    (value.referenceGeometry === undefined ||
+      (Array.isArray(value.referenceGeometry) && value.referenceGeometry.every(isPoint3Data))) &&
+    (value.color === undefined || isColorData(value.color)) &&
+    (value.lineColor === undefined || isColorData(value.lineColor)) &&
+    (value.opacity === undefined || typeof value.opacity === 'number') &&
+    (value.hideReferenceGeometry === undefined || typeof value.hideReferenceGeometry === 'boolean')
+  );
+}
+
+/**
+ * Type guard function to validate SectionPreset objects.
+ *
+ * @param obj - The object to validate
+ * @returns True if the object is a valid SectionPreset, false otherwise
+ *
+ * @example
+ * ```typescript
+ * const presets: unknown = JSON.parse(localStorage.getItem('cutting-presets') ?? '[]');
+ * if (Array.isArray(presets) && presets.every(isSectionPreset)) {
+ *   service.importSectionPresets(presets);
+ * }
+ * ```
+ */
+export function isSectionPreset(obj: unknown): obj is SectionPreset {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const value = obj as SectionPreset;
+  if (typeof value.name !== 'string' || typeof value.section !== 'object' || !value.section) {
+    return false;
+  }
+
+  const section = value.section;
+  return (
+    Array.isArray(section.cuttingPlanes) &&
+    section.cuttingPlanes.every(isCuttingPlaneData) &&
+    typeof section.active === 'boolean' &&
+    (section.hideReferenceGeometry === undefined ||
+      typeof section.hideReferenceGeometry === 'boolean')
+  );
+}
+
 /**
  * Configuration object for the cutting service settings.
  *
@@ -136,7 +357,7 @@ export function isCuttingServiceConfiguration(obj: unknown): obj is CuttingServi
 /**
  * Service interface for managing cutting operations in 3D models.
  *
- * Extends the base IService and IResettableConfigurationService interfaces
+ * Extends the base IService and IConfigurableService interfaces
  * to provide comprehensive cutting plane and section management capabilities.
  *
  * This interface defines methods for:
@@ -147,7 +368,7 @@ export function isCuttingServiceConfiguration(obj: unknown): obj is CuttingServi
  * - Handling face selections for plane creation
  *
  * @interface ICuttingService
- * @extends IService, IResettableConfigurationService
+ * @extends IService, IConfigurableService
  *
  * @example
  * ```typescript
@@ -156,7 +377,7 @@ export function isCuttingServiceConfiguration(obj: unknown): obj is CuttingServi
  * }
  * ```
  */
-export interface ICuttingService extends IService, IResettableConfigurationService {
+export interface ICuttingService extends IService, IConfigurableService {
   /**
    * Gets the current capping geometry visibility state.
    *
@@ -223,6 +444,13 @@ export interface ICuttingService extends IService, IResettableConfigurationServi
    */
   getSelectedFace(): SelectedFace | undefined;
 
+  /**
+   * Gets the currently selected nodes, to create a section box around them.
+   *
+   * @returns The ids of the selected nodes
+   */
+  getSelectedNodeIds(): NodeId[];
+
   /**
    * Gets the total number of cutting sections.
    *
@@ -362,6 +590,172 @@ export interface ICuttingService extends IService, IResettableConfigurationServi
    */
   setCuttingPlaneOpacity(sectionIndex: number, planeIndex: number, opacity: number): void;
 
+  /**
+   * Replaces the cutting planes of a section with a section box.
+   *
+   * @param sectionIndex - The index of the cutting section to fill
+   * @param target - The box to keep, or the nodes to keep the bounding box of
+   * @param padding - The distance added around the box on each side, in model units
+   */
+  createSectionBox(sectionIndex: number, target: Box | NodeId[], padding?: number): Promise<void>;
+
+  /**
+   * Gets the section box of a cutting section.
+   *
+   * @param sectionIndex - The index of the cutting section
+   * @returns The box kept by the section, or undefined if the section is not a section box
+   */
+  getSectionBox(sectionIndex: number): Box | undefined;
+
+  /**
+   * Moves the faces of a section box.
+   *
+   * @param sectionIndex - The index of the cutting section
+   * @param box - The new box kept by the section
+   */
+  setSectionBox(sectionIndex: number, box: Box): Promise<void>;
+
+  /**
+   * Shows a translation handle in the viewport on a face of a section box, dragging the handle
+   * moves the face along its axis. Only one face has a handle at a time.
+   *
+   * @param sectionIndex - The index of the cutting section
+   * @param face - The face to move with the handle
+   */
+  showSectionBoxHandle(sectionIndex: number, face: SectionBoxFace): Promise<void>;
+
+  /**
+   * Removes the handle of the section box from the viewport.
+   */
+  hideSectionBoxHandle(): Promise<void>;
+
+  /**
+   * Gets the face of a section box having the handle of the viewport.
+   *
+   * @returns The section and face of the handle, or undefined if no handle is shown
+   */
+  getSectionBoxHandle(): SectionBoxHandle | undefined;
+
+  /**
+   * Gets the range of the `d` coefficient of a cutting plane where it crosses the model bounding
+   * box, the range of its sweeps.
+   *
+   * @param sectionIndex - The index of the cutting section containing the plane
+   * @param planeIndex - The index of the cutting plane
+   * @returns The range, or undefined if the plane is not found
+   */
+  getPlaneSweepRange(
+    sectionIndex: number,
+    planeIndex: number,
+  ): { min: number; max: number } | undefined;
+
+  /**
+   * Moves a cutting plane along its normal through the model, one step per animation frame.
+   * Only one plane is animated at a time, the previous sweep is stopped.
+   *
+   * @param sectionIndex - The index of the cutting section containing the plane
+   * @param planeIndex - The index of the cutting plane to move
+   * @param options - The range, duration and looping of the sweep
+   * @returns Promise that resolves when the sweep ends or is stopped
+   */
+  animatePlane(
+    sectionIndex: number,
+    planeIndex: number,
+    options?: CuttingPlaneSweepOptions,
+  ): Promise<void>;
+
+  /**
+   * Gets the state of the sweep of a cutting plane.
+   *
+   * @param sectionIndex - The index of the cutting section containing the plane
+   * @param planeIndex - The index of the cutting plane
+   * @returns The state of the sweep, 'stopped' if the plane is not animated
+   */
+  getPlaneAnimationState(sectionIndex: number, planeIndex: number): CuttingPlaneSweepState;
+
+  /**
+   * Pauses the current sweep, the plane stays where it is.
+   */
+  pausePlaneAnimation(): void;
+
+  /**
+   * Resumes the paused sweep from where it was paused.
+   */
+  resumePlaneAnimation(): void;
+
+  /**
+   * Stops the current sweep, the plane stays where it is.
+   */
+  stopPlaneAnimation(): void;
+
+  /**
+   * Exports the profile of the model cut by a cutting plane, the intersection of the visible
+   * meshes with the plane as closed polylines per node, in the 2D coordinates of the plane.
+   *
+   * @param sectionIndex - The index of the cutting section containing the plane
+   * @param planeIndex - The index of the cutting plane
+   * @param format - `svg` or `dxf` with a group or layer per node, `json` for the `SectionProfile`
+   * @returns Promise that resolves with the content of the file
+   */
+  exportSectionProfile(
+    sectionIndex: number,
+    planeIndex: number,
+    format: SectionProfileFormat,
+  ): Promise<string>;
+
+  /**
+   * Saves the cutting planes and state of a section as a preset, replacing the preset with the
+   * same name.
+   *
+   * @param name - The name of the preset
+   * @param sectionIndex - The index of the cutting section to save
+   */
+  saveSectionPreset(name: string, sectionIndex: number): void;
+
+  /**
+   * Replaces the cutting planes and state of a section with the ones of a preset.
+   *
+   * @param name - The name of the preset to apply
+   * @param sectionIndex - The index of the cutting section to apply the preset to
+   * @returns Promise that resolves when the preset is applied
+   */
+  applySectionPreset(name: string, sectionIndex: number): Promise<void>;
+
+  /**
+   * Lists the names of the saved presets, in the order they were saved.
+   *
+   * @returns The names of the presets
+   */
+  listSectionPresets(): string[];
+
+  /**
+   * Deletes a preset, does nothing if there is no preset with this name.
+   *
+   * @param name - The name of the preset to delete
+   */
+  deleteSectionPreset(name: string): void;
+
+  /**
+   * Exports the saved presets.
+   *
+   * @returns The presets, JSON serializable
+   */
+  exportSectionPresets(): SectionPreset[];
+
+  /**
+   * Imports presets, replacing the presets with the same names.
+   *
+   * @param presets - The presets to import, validated with `isSectionPreset`
+   */
+  importSectionPresets(presets: unknown): void;
+
+  /**
+   * Gets the current cutting service configuration.
+   *
+   * @returns Promise that resolves with the configuration, in the format accepted by resetConfiguration
+   */
+  getConfiguration(): Promise<CuttingServiceConfiguration>;
+
   /**
    * Resets the cutting service configuration to default values or provided configuration.
    *
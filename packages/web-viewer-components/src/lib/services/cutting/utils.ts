@@ -6,7 +6,9 @@ import {
   get3dBaseFromVector,
   sortVerticesCounterClockwise,
 } from '@ts3d-hoops/common';
-import { CuttingPlane, Section } from './types';
+import { CuttingPlane, CuttingPlaneData, Section, SectionBoxFaces } from './types';
+
+const axes = ['x', 'y', 'z'] as const;
 
 /**
  * Converts a HOOPS Web Viewer cutting plane to the service layer cutting plane type.
@@ -98,6 +100,76 @@ export function convertCuttingSections(
   });
 }
 
+/**
+ * Computes the range of the `d` coefficient of a plane where it crosses a box, keeping its
+ * normal.
+ *
+ * @param plane - The plane, its normal need not be a unit vector
+ * @param box - The box to cross
+ * @returns The smallest and greatest `d` of the planes touching the box
+ *
+ * @example
+ * ```typescript
+ * const plane = Plane.createFromCoefficients(1, 0, 0, 0);
+ * const box = new Box(new Point3(-5, 0, 0), new Point3(10, 1, 1));
+ * getPlaneDistanceRange(plane, box); // { min: -10, max: 5 }
+ * ```
+ */
+export function getPlaneDistanceRange(plane: Plane, box: Box): { min: number; max: number } {
+  // The plane is `normal . p + d = 0`, the box corner reaching the furthest along the normal
+  // has the smallest d
+  const { normal } = plane;
+  let min = 0;
+  let max = 0;
+  for (const axis of axes) {
+    const extremes = [normal[axis] * box.min[axis], normal[axis] * box.max[axis]];
+    min -= Math.max(...extremes);
+    max -= Math.min(...extremes);
+  }
+
+  return { min, max };
+}
+
+/**
+ * Converts a cutting plane to its JSON friendly representation, as saved in a section preset.
+ *
+ * @param cuttingPlane - The cutting plane to convert
+ * @returns A copy of the plane data without class instances
+ */
+export function toCuttingPlaneData(cuttingPlane: CuttingPlane): CuttingPlaneData {
+  const { normal, d } = cuttingPlane.plane;
+  return {
+    normal: { x: normal.x, y: normal.y, z: normal.z },
+    d,
+    referenceGeometry: cuttingPlane.referenceGeometry?.map(({ x, y, z }) => ({ x, y, z })),
+    color: cuttingPlane.color && { ...cuttingPlane.color },
+    lineColor: cuttingPlane.lineColor && { ...cuttingPlane.lineColor },
+    opacity: cuttingPlane.opacity,
+    hideReferenceGeometry: cuttingPlane.hideReferenceGeometry,
+  };
+}
+
+/**
+ * Converts the JSON friendly representation of a cutting plane back to a cutting plane.
+ *
+ * @param data - The plane data, as saved in a section preset
+ * @returns A new cutting plane
+ */
+export function fromCuttingPlaneData(data: CuttingPlaneData): CuttingPlane {
+  const plane = new Plane();
+  plane.normal.set(data.normal.x, data.normal.y, data.normal.z);
+  plane.d = data.d;
+
+  return {
+    plane,
+    referenceGeometry: data.referenceGeometry?.map(({ x, y, z }) => new Point3(x, y, z)),
+    color: data.color && { ...data.color },
+    lineColor: data.lineColor && { ...data.lineColor },
+    opacity: data.opacity,
+    hideReferenceGeometry: data.hideReferenceGeometry,
+  };
+}
+
 /**
  * Generates reference geometry vertices for a cutting plane based on face selection.
  *
@@ -172,3 +244,105 @@ export function getPlaneCenter(plane: Plane, bounding: Box) {
   const offset = Point3.scale(normal, -plane.d / plane.normal.length());
   return Point3.add(offset, center);
 }
+
+/**
+ * Gets the normal of a face of a section box, pointing out of the box.
+ *
+ * @param faceIndex - The index of the face in `SectionBoxFaces`
+ * @returns The unit normal of the face
+ */
+function getSectionBoxFaceNormal(faceIndex: number): Point3 {
+  const normal = new Point3(0, 0, 0);
+  normal[axes[Math.floor(faceIndex / 2)]] = faceIndex % 2 === 0 ? -1 : 1;
+  return normal;
+}
+
+/**
+ * Generates the reference geometry of a face of a section box, the rectangle of the face.
+ *
+ * @param box - The box kept by the section
+ * @param faceIndex - The index of the face in `SectionBoxFaces`
+ * @returns Array of the 4 corners of the face
+ */
+export function getSectionBoxFaceGeometry(box: Box, faceIndex: number): Point3[] {
+  const axis = axes[Math.floor(faceIndex / 2)];
+  const value = (faceIndex % 2 === 0 ? box.min : box.max)[axis];
+  const [u, v] = axes.filter((current) => current !== axis);
+  return [
+    [box.min[u], box.min[v]],
+    [box.max[u], box.min[v]],
+    [box.max[u], box.max[v]],
+    [box.min[u], box.max[v]],
+  ].map(([uValue, vValue]) => {
+    const corner = new Point3(0, 0, 0);
+    corner[axis] = value;
+    corner[u] = uValue;
+    corner[v] = vValue;
+    return corner;
+  });
+}
+
+/**
+ * Creates the cutting planes of a section box, one per face in the order of `SectionBoxFaces`.
+ *
+ * Each plane faces out of the box, so that it cuts what lies beyond its face.
+ *
+ * @param box - The box kept by the section
+ * @param hideReferenceGeometry - Whether the faces of the box are hidden
+ * @returns Array of the 6 cutting planes of the section box
+ *
+ * @example
+ * ```typescript
+ * const box = new Box(new Point3(0, 0, 0), new Point3(10, 10, 10));
+ * for (const cuttingPlane of createSectionBoxCuttingPlanes(box)) {
+ *   await service.addCuttingPlane(0, cuttingPlane);
+ * }
+ * ```
+ */
+export function createSectionBoxCuttingPlanes(
+  box: Box,
+  hideReferenceGeometry = false,
+): CuttingPlane[] {
+  return SectionBoxFaces.map((_, faceIndex) => ({
+    plane: Plane.createFromPointAndNormal(
+      faceIndex % 2 === 0 ? box.min : box.max,
+      getSectionBoxFaceNormal(faceIndex),
+    ),
+    referenceGeometry: hideReferenceGeometry
+      ? undefined
+      : getSectionBoxFaceGeometry(box, faceIndex),
+  }));
+}
+
+/**
+ * Gets the box kept by the cutting planes of a section box.
+ *
+ * @param planes - The planes of a cutting section
+ * @returns The box, or undefined if the planes are not the faces of a section box
+ *
+ * @remarks
+ * The planes must follow the order of `SectionBoxFaces`, as the planes created by
+ * `createSectionBoxCuttingPlanes` do. Their normals need not be unit vectors.
+ */
+export function getSectionBoxFromPlanes(planes: Plane[]): Box | undefined {
+  if (planes.length !== SectionBoxFaces.length) {
+    return undefined;
+  }
+
+  const min = new Point3(0, 0, 0);
+  const max = new Point3(0, 0, 0);
+  for (const [faceIndex, plane] of planes.entries()) {
+    const normal = getSectionBoxFaceNormal(faceIndex);
+    const length = plane.normal.length();
+    if (length === 0 || Math.abs(Point3.dot(plane.normal, normal) - length) > length * 1e-6) {
+      return undefined;
+    }
+
+    // The plane is `length * normal . p + d = 0` with a normal along the axis of the face,
+    // adding 0 turns the -0 of the faces through the origin into 0
+    const axis = axes[Math.floor(faceIndex / 2)];
+    (faceIndex % 2 === 0 ? min : max)[axis] = (-plane.d / length) * normal[axis] + 0;
+  }
+
+  return new Box(min, max);
+}
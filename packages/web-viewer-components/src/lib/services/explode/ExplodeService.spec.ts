@@ -1,6 +1,7 @@
 import ExplodeService from './ExplodeService';
-import { core, NodeId, IPoint3 } from '@ts3d-hoops/web-viewer';
-import { vi, describe, expect, it, beforeEach } from 'vitest';
+import { Box, Point3 } from '@ts3d-hoops/common';
+import { core, NodeId, IPoint3, NodeType } from '@ts3d-hoops/web-viewer';
+import { vi, describe, expect, it, beforeEach, afterEach } from 'vitest';
 
 const mockExplodeManager = {
   start: vi.fn(() => Promise.resolve()),
@@ -162,4 +163,220 @@ describe('ExplodeService', () => {
       expect(result).toBe(true);
     });
   });
+
+  describe('explosions computed by the service', () => {
+    const identity = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+    const createMatrix = (m: number[]) => ({ m, copy: () => createMatrix([...m]) });
+
+    // Assembly 1 holds the parts 2 and 3 and is scaled twice, the part 4 is at the root
+    const children: Record<NodeId, NodeId[]> = { 0: [1, 4], 1: [2, 3], 2: [12], 3: [13], 4: [14] };
+    const parents: Record<NodeId, NodeId> = { 1: 0, 2: 1, 3: 1, 4: 0, 12: 2, 13: 3, 14: 4 };
+    const centers: Record<NodeId, Point3> = {
+      1: new Point3(2, 0, 0),
+      2: new Point3(2, 1, 0),
+      3: new Point3(2, -1, 0),
+      4: new Point3(-1, 0, 1),
+    };
+    const center: IPoint3 = { x: 0, y: 0, z: 0 };
+
+    let model: Record<string, ReturnType<typeof vi.fn>>;
+
+    /** Gets the translation of the last matrix set to each node. */
+    const getTranslations = () =>
+      new Map(
+        model.setNodeMatrix.mock.calls.map(([nodeId, matrix]) => [
+          nodeId,
+          (matrix as { m: number[] }).m.slice(12, 15),
+        ]),
+      );
+
+    beforeEach(() => {
+      mockExplodeManager.getActive.mockReturnValue(false);
+      model = {
+        getAbsoluteRootNode: vi.fn(() => 0),
+        getNodeChildren: vi.fn((nodeId: NodeId) => children[nodeId] ?? []),
+        getNodeParent: vi.fn((nodeId: NodeId) => parents[nodeId] ?? null),
+        getNodeType: vi.fn((nodeId: NodeId) =>
+          nodeId >= 10 ? NodeType.BodyInstance : NodeType.PartInstance,
+        ),
+        getNodesBounding: vi.fn(
+          async ([nodeId]: NodeId[]) => new Box(centers[nodeId], centers[nodeId]),
+        ),
+        getNodeMatrix: vi.fn(() => createMatrix([...identity])),
+        getNodeNetMatrix: vi.fn((nodeId: NodeId) =>
+          createMatrix(nodeId === 1 ? [2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 1] : identity),
+        ),
+        setNodeMatrix: vi.fn(() => Promise.resolve()),
+      };
+      service.webViewer = {
+        explodeManager: mockExplodeManager,
+        model,
+      } as unknown as core.IWebViewer;
+    });
+
+    it('should move the parts away from the center in the coordinates of their parent', async () => {
+      await service.start(undefined, center, {});
+      await service.setMagnitude(0.5);
+
+      expect(mockExplodeManager.start).not.toHaveBeenCalled();
+      expect(mockExplodeManager.setMagnitude).not.toHaveBeenCalled();
+      expect(service.getActive()).toBe(true);
+      expect(service.getMagnitude()).toBe(0.5);
+      expect(service.getMode()).toBe('radial');
+      expect(getTranslations()).toEqual(
+        new Map([
+          [2, [0.5, 0.25, 0]],
+          [3, [0.5, -0.25, 0]],
+          [4, [-0.5, 0, 0.5]],
+        ]),
+      );
+    });
+
+    it('should explode assemblies with more nodes than the arguments of a call', async () => {
+      const partIds = Array.from({ length: 150000 }, (_, index) => 100 + index);
+      model.getNodeChildren.mockImplementation((nodeId: NodeId) => (nodeId === 0 ? partIds : []));
+      model.getNodeParent.mockImplementation((nodeId: NodeId) => (nodeId === 0 ? null : 0));
+      model.getNodesBounding.mockImplementation(
+        async ([nodeId]: NodeId[]) => new Box(new Point3(nodeId, 0, 0), new Point3(nodeId, 0, 0)),
+      );
+
+      await service.start(undefined, center, { mode: 'hierarchical' });
+      await service.setMagnitude(0.5);
+
+      expect(service.getMagnitude()).toBe(0.5);
+      expect(service.getLevelCount()).toBe(1);
+    });
+
+    it('should lock the parts along the axis or the vector of their group', async () => {
+      await service.start(undefined, center, {
+        mode: 'axial',
+        axis: 'x',
+        groups: [{ nodeIds: [1], vector: { x: 0, y: 2, z: 0 } }],
+      });
+      await service.setMagnitude(1);
+
+      expect(getTranslations()).toEqual(
+        new Map([
+          [2, [0, 0.5, 0]],
+          [3, [0, -0.5, 0]],
+          [4, [-1, 0, 0]],
+        ]),
+      );
+    });
+
+    it('should move the nodes away from their parent level by level', async () => {
+      await service.start(undefined, center, { mode: 'hierarchical' });
+      await service.setMagnitude(1);
+
+      expect(service.getLevelCount()).toBe(2);
+      expect(getTranslations()).toEqual(
+        new Map([
+          [1, [2, 0, 0]],
+          [2, [0, 0.5, 0]],
+          [3, [0, -0.5, 0]],
+          [4, [-1, 0, 1]],
+        ]),
+      );
+    });
+
+    it('should restore the matrices of the nodes when stopped', async () => {
+      await service.start(undefined, center, {});
+      await service.setMagnitude(1);
+      model.setNodeMatrix.mockClear();
+
+      await service.stop();
+
+      expect(service.getActive()).toBe(false);
+      expect(mockExplodeManager.stop).not.toHaveBeenCalled();
+      expect(getTranslations()).toEqual(
+        new Map([
+          [2, [0, 0, 0]],
+          [3, [0, 0, 0]],
+          [4, [0, 0, 0]],
+        ]),
+      );
+    });
+
+    describe('playSequence', () => {
+      let frames: FrameRequestCallback[];
+
+      /** Runs the requested animation frames, and lets the node updates settle. */
+      const runFrame = async (time: number) => {
+        frames.splice(0).forEach((callback) => callback(time));
+        await new Promise((resolve) => setTimeout(resolve));
+      };
+
+      beforeEach(() => {
+        frames = [];
+        vi.stubGlobal(
+          'requestAnimationFrame',
+          vi.fn((callback: FrameRequestCallback) => frames.push(callback)),
+        );
+        vi.stubGlobal('cancelAnimationFrame', vi.fn());
+      });
+
+      afterEach(() => {
+        vi.unstubAllGlobals();
+      });
+
+      it('should play the stages one after the other', async () => {
+        const progress = vi.fn();
+        const ended = vi.fn();
+        service.addEventListener('hoops-explode-sequence-progress', (event) =>
+          progress((event as CustomEvent).detail),
+        );
+        service.addEventListener('hoops-explode-sequence-end', ended);
+        await service.start(undefined, center, { mode: 'hierarchical' });
+
+        const played = service.playSequence(
+          [
+            { level: 0, to: 1 },
+            { level: 1, to: 2 },
+          ],
+          2000,
+        );
+        await vi.waitFor(() => expect(frames).toHaveLength(1));
+        expect(service.isSequencePlaying()).toBe(true);
+
+        await runFrame(0);
+        await runFrame(500);
+        expect(progress).toHaveBeenLastCalledWith({
+          stageIndex: 0,
+          stageProgress: 0.5,
+          progress: 0.25,
+        });
+        expect(getTranslations().get(1)).toEqual([1, 0, 0]);
+        expect(getTranslations().get(2)).toEqual([0, 0, 0]);
+
+        await runFrame(1500);
+        expect(progress).toHaveBeenLastCalledWith({
+          stageIndex: 1,
+          stageProgress: 0.5,
+          progress: 0.75,
+        });
+        expect(getTranslations().get(1)).toEqual([2, 0, 0]);
+        expect(getTranslations().get(2)).toEqual([0, 0.5, 0]);
+
+        await runFrame(2500);
+        await played;
+        expect(getTranslations().get(2)).toEqual([0, 1, 0]);
+        expect(service.getMagnitude()).toBe(2);
+        expect(service.isSequencePlaying()).toBe(false);
+        expect(ended).toHaveBeenCalledOnce();
+        expect(frames).toHaveLength(0);
+      });
+
+      it('should start a radial explosion and stop when asked', async () => {
+        const played = service.playSequence([{ from: 0, to: 1 }], 1000);
+        await vi.waitFor(() => expect(frames).toHaveLength(1));
+        expect(service.getMode()).toBe('radial');
+
+        service.stopSequence();
+        await played;
+
+        expect(service.isSequencePlaying()).toBe(false);
+        expect(service.getActive()).toBe(true);
+      });
+    });
+  });
 });
@@ -1,11 +1,63 @@
-import { IPoint3, core, Point3 } from '@ts3d-hoops/web-viewer';
-import { IExplodeService } from './types';
+import { IPoint3, core, Matrix, NodeId, NodeType, Point3 } from '@ts3d-hoops/web-viewer';
+import {
+  ExplodeMode,
+  ExplodeOptions,
+  ExplodeSequenceProgress,
+  ExplodeStage,
+  IExplodeService,
+} from './types';
+import { getExplodeDisplacement, getExplodeVector, toParentDirection } from './utils';
+
+/**
+ * A node moved by an explosion computed by the service, see `ExplodeService.start`.
+ */
+type ExplodedNode = {
+  nodeId: NodeId;
+  /** The depth of the node in the assembly tree, 0 for the exploded roots. */
+  level: number;
+  /** The exploded ancestors of the node, from its parent up. */
+  ancestors: NodeId[];
+  /** The local matrix of the node before the explosion. */
+  matrix: Matrix;
+  /** The translation added to the local matrix at magnitude 1. */
+  displacement: Point3;
+  magnitude: number;
+};
+
+/**
+ * An explosion sequence playing, see `ExplodeService.playSequence`.
+ */
+type ExplodeSequence = {
+  stages: ExplodeStage[];
+  durationMs: number;
+  /** The time spent playing the sequence, in milliseconds. */
+  elapsed: number;
+  stageIndex: number;
+  /** The nodes moved by the current stage. */
+  stageNodes: ExplodedNode[];
+  /** The magnitudes of the nodes at the start of the current stage. */
+  startMagnitudes: Map<NodeId, number>;
+  /** The handle of the requested animation frame, if any. */
+  frame?: number;
+  /** The time of the previous frame, undefined until the first frame. */
+  lastTime?: number;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+};
 
 export default class ExplodeService extends EventTarget implements IExplodeService {
   public readonly serviceName = 'ExplodeService' as const;
 
   private _webviewer?: core.IWebViewer;
 
+  /**
+   * The explosion computed by the service, undefined when the explode manager of the viewer
+   * explodes the model or when nothing is exploded.
+   */
+  private explosion?: { mode: ExplodeMode; nodes: ExplodedNode[] };
+
+  private sequence?: ExplodeSequence;
+
   public get webViewer(): core.IWebViewer | undefined {
     return this._webviewer;
   }
@@ -21,8 +73,11 @@ export default class ExplodeService extends EventTarget implements IExplodeServi
 
   /**
    * Resets the explode service, clearing any active operations.
+   * The nodes moved by the service are left where they are, as the model may have changed.
    */
   public reset(): void {
+    this.stopSequence();
+    this.explosion = undefined;
     this.dispatchEvent(
       new CustomEvent('hoops-explode-service-reset', { bubbles: true, composed: true }),
     );
@@ -30,27 +85,62 @@ export default class ExplodeService extends EventTarget implements IExplodeServi
 
   /**
    * Starts an explode operation. This will cancel any currently active explode operation.
+   *
+   * Without options, the explode manager of the viewer explodes the model radially. With options,
+   * the service computes the explosion itself, moving the nodes with their local matrix, so that
+   * the nodes can be exploded along an axis, level by level of the assembly tree, or along the
+   * vector of their group, and so that sequences can be played.
+   *
    * @param nodeIds an array of node Ids for the parts that should be exploded. If this parameter is omitted or is an empty array, the entire model will be considered for explosion.
    * @param explosionVector the vector to use for the center of the explosion.
+   * @param options the mode, axis and groups of an explosion computed by the service.
    * @returns a promise that resolves when this operation is complete.
+   *
+   * @example
+   * ```typescript
+   * // Explode the model along the z axis, the wheels sideways
+   * await explodeService.start(undefined, center, {
+   *   mode: 'axial',
+   *   axis: 'z',
+   *   groups: [{ nodeIds: wheelIds, vector: 'x' }],
+   * });
+   * await explodeService.setMagnitude(1);
+   * ```
    */
-  public async start(nodeIds?: number[], explosionVector?: IPoint3): Promise<void> {
+  public async start(
+    nodeIds?: number[],
+    explosionVector?: IPoint3,
+    options?: ExplodeOptions,
+  ): Promise<void> {
     if (!this._webviewer) {
       return Promise.reject(new Error('Webviewer not set'));
     }
 
-    await this._webviewer.explodeManager.start(
-      nodeIds,
-      explosionVector
-        ? new Point3(explosionVector.x, explosionVector.y, explosionVector.z)
-        : undefined,
-    );
+    this.stopSequence();
+    await this.restoreExplosion();
+
+    if (options) {
+      if (this._webviewer.explodeManager.getActive()) {
+        await this._webviewer.explodeManager.stop();
+      }
+      this.explosion = {
+        mode: options.mode ?? 'radial',
+        nodes: await this.createExplodedNodes(nodeIds, explosionVector, options),
+      };
+    } else {
+      await this._webviewer.explodeManager.start(
+        nodeIds,
+        explosionVector
+          ? new Point3(explosionVector.x, explosionVector.y, explosionVector.z)
+          : undefined,
+      );
+    }
 
     this.dispatchEvent(
       new CustomEvent('hoops-explode-started', {
         bubbles: true,
         composed: true,
-        detail: { nodeIds, explosionVector },
+        detail: { nodeIds, explosionVector, options },
       }),
     );
   }
@@ -66,7 +156,14 @@ export default class ExplodeService extends EventTarget implements IExplodeServi
       return Promise.reject(new Error('Webviewer not set'));
     }
 
-    await this._webviewer.explodeManager.setMagnitude(magnitude);
+    if (this.explosion) {
+      for (const node of this.explosion.nodes) {
+        node.magnitude = magnitude;
+      }
+      await this.applyExplosion();
+    } else {
+      await this._webviewer.explodeManager.setMagnitude(magnitude);
+    }
 
     this.dispatchEvent(
       new CustomEvent('hoops-explode-magnitude-changed', {
@@ -86,7 +183,12 @@ export default class ExplodeService extends EventTarget implements IExplodeServi
       return Promise.reject(new Error('Webviewer not set'));
     }
 
-    await this._webviewer.explodeManager.stop();
+    this.stopSequence();
+    if (this.explosion) {
+      await this.restoreExplosion();
+    } else {
+      await this._webviewer.explodeManager.stop();
+    }
 
     this.dispatchEvent(
       new CustomEvent('hoops-explode-stopped', {
@@ -105,6 +207,10 @@ export default class ExplodeService extends EventTarget implements IExplodeServi
       return 0;
     }
 
+    if (this.explosion) {
+      return this.explosion.nodes.reduce((max, { magnitude }) => Math.max(max, magnitude), 0);
+    }
+
     return this._webviewer.explodeManager.getMagnitude();
   }
 
@@ -117,6 +223,323 @@ export default class ExplodeService extends EventTarget implements IExplodeServi
       return false;
     }
 
-    return this._webviewer.explodeManager.getActive();
+    return !!this.explosion || this._webviewer.explodeManager.getActive();
+  }
+
+  /**
+   * Gets the mode of the active explosion, `radial` when the explode manager explodes the model.
+   * @returns the mode of the explosion.
+   */
+  public getMode(): ExplodeMode {
+    return this.explosion?.mode ?? 'radial';
+  }
+
+  /**
+   * Gets the number of levels of the assembly tree moved by the explosion computed by the service,
+   * to play a sequence exploding them one by one.
+   * @returns the number of levels, 0 if the service does not compute the active explosion.
+   */
+  public getLevelCount(): number {
+    return this.explosion
+      ? this.explosion.nodes.reduce((max, { level }) => Math.max(max, level), -1) + 1
+      : 0;
+  }
+
+  /**
+   * Plays an explosion sequence, the stages one after the other, each one in an equal share of
+   * the duration. When the service does not compute the active explosion, a radial explosion of
+   * the model is started first. This will stop the sequence playing, if any.
+   * @param stages the stages of the sequence, moving some of the nodes from a magnitude to another.
+   * @param duration the duration of the sequence, in milliseconds.
+   * @returns a promise that resolves when the sequence ends or is stopped, and rejects if the nodes cannot be moved.
+   *
+   * @fires hoops-explode-sequence-progress - On each step of the sequence
+   * @fires hoops-explode-sequence-end - When the sequence ends or is stopped
+   *
+   * @example
+   * ```typescript
+   * await explodeService.start(undefined, center, { mode: 'hierarchical' });
+   * const stages = [...Array(explodeService.getLevelCount()).keys()].map((level) => ({ level, to: 1 }));
+   * await explodeService.playSequence(stages, 4000);
+   * ```
+   */
+  public async playSequence(stages: ExplodeStage[], duration: number): Promise<void> {
+    if (!this._webviewer) {
+      return Promise.reject(new Error('Webviewer not set'));
+    }
+
+    this.stopSequence();
+    if (!this.explosion) {
+      await this.start(undefined, undefined, {});
+    }
+
+    if (stages.length === 0) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const sequence: ExplodeSequence = {
+        stages,
+        durationMs: Math.max(duration, 0),
+        elapsed: 0,
+        stageIndex: 0,
+        stageNodes: [],
+        startMagnitudes: new Map(),
+        resolve,
+        reject,
+      };
+      this.sequence = sequence;
+      this.startStage(sequence);
+      sequence.frame = requestAnimationFrame((time) => this.stepSequence(sequence, time));
+    });
+  }
+
+  /**
+   * Stops the sequence playing, the nodes stay where they are.
+   *
+   * @fires hoops-explode-sequence-end - When a sequence was playing
+   */
+  public stopSequence(): void {
+    this.endSequence();
+  }
+
+  /**
+   * Indicates whether an explosion sequence is playing.
+   * @returns boolean value indicating if a sequence is playing.
+   */
+  public isSequencePlaying(): boolean {
+    return !!this.sequence;
+  }
+
+  /**
+   * Computes the nodes moved by an explosion and their displacement at magnitude 1.
+   *
+   * The radial and axial explosions move the parts, the nodes without children other than
+   * bodies. The hierarchical explosions move every node below the roots away from its parent,
+   * the descendants of a node following it.
+   */
+  private async createExplodedNodes(
+    nodeIds: NodeId[] | undefined,
+    explosionVector: IPoint3 | undefined,
+    options: ExplodeOptions,
+  ): Promise<ExplodedNode[]> {
+    const model = this._webviewer!.model;
+    const hierarchical = options.mode === 'hierarchical';
+    const roots = nodeIds?.length ? nodeIds : model.getNodeChildren(model.getAbsoluteRootNode());
+    if (roots.length === 0) {
+      return [];
+    }
+
+    const center = explosionVector
+      ? new Point3(explosionVector.x, explosionVector.y, explosionVector.z)
+      : (await model.getNodesBounding(roots)).center();
+    const axis = options.mode === 'axial' ? getExplodeVector(options.axis ?? 'z') : undefined;
+    const groupVectors = new Map<NodeId, Point3>();
+    for (const group of options.groups ?? []) {
+      for (const nodeId of group.nodeIds) {
+        groupVectors.set(nodeId, getExplodeVector(group.vector));
+      }
+    }
+
+    type Entry = { nodeId: NodeId; level: number; ancestors: NodeId[]; lock?: Point3 };
+    const entries: Entry[] = [];
+    const pending: Entry[] = roots.map((nodeId) => ({
+      nodeId,
+      level: 0,
+      ancestors: [],
+      lock: groupVectors.get(nodeId) ?? axis,
+    }));
+    while (pending.length > 0) {
+      const entry = pending.pop()!;
+      const children = model
+        .getNodeChildren(entry.nodeId)
+        .filter((child) => model.getNodeType(child) !== NodeType.BodyInstance);
+      if (hierarchical || children.length === 0) {
+        entries.push(entry);
+      }
+
+      const ancestors = hierarchical ? [entry.nodeId, ...entry.ancestors] : entry.ancestors;
+      pending.push(
+        ...children.map((nodeId) => ({
+          nodeId,
+          level: entry.level + 1,
+          ancestors,
+          lock: groupVectors.get(nodeId) ?? entry.lock,
+        })),
+      );
+    }
+
+    const centers = new Map<NodeId, Point3>();
+    await Promise.all(
+      entries.map(async ({ nodeId }) => {
+        centers.set(nodeId, (await model.getNodesBounding([nodeId])).center());
+      }),
+    );
+
+    return entries.map(({ nodeId, level, ancestors, lock }) => {
+      const reference = ancestors.length > 0 ? centers.get(ancestors[0])! : center;
+      const displacement = getExplodeDisplacement(centers.get(nodeId)!, reference, lock);
+      const parent = model.getNodeParent(nodeId);
+      return {
+        nodeId,
+        level,
+        ancestors,
+        matrix: model.getNodeMatrix(nodeId).copy(),
+        displacement:
+          parent === null
+            ? displacement
+            : toParentDirection([...model.getNodeNetMatrix(parent).m], displacement),
+        magnitude: 0,
+      };
+    });
+  }
+
+  /**
+   * Moves the nodes of the explosion computed by the service to their magnitude.
+   */
+  private async applyExplosion(): Promise<void> {
+    const model = this._webviewer?.model;
+    if (!model || !this.explosion) {
+      return;
+    }
+
+    await Promise.all(
+      this.explosion.nodes.map(({ nodeId, matrix, displacement, magnitude }) => {
+        const exploded = matrix.copy();
+        exploded.m[12] += displacement.x * magnitude;
+        exploded.m[13] += displacement.y * magnitude;
+        exploded.m[14] += displacement.z * magnitude;
+        return model.setNodeMatrix(nodeId, exploded);
+      }),
+    );
+  }
+
+  /**
+   * Moves the nodes of the explosion computed by the service back to their matrix before the
+   * explosion, and forgets the explosion.
+   */
+  private async restoreExplosion(): Promise<void> {
+    const explosion = this.explosion;
+    this.explosion = undefined;
+    const model = this._webviewer?.model;
+    if (!model || !explosion) {
+      return;
+    }
+
+    await Promise.all(
+      explosion.nodes.map(({ nodeId, matrix }) => model.setNodeMatrix(nodeId, matrix)),
+    );
+  }
+
+  /**
+   * Selects the nodes of the current stage of a sequence and keeps their starting magnitudes.
+   */
+  private startStage(sequence: ExplodeSequence): void {
+    const stage = sequence.stages[sequence.stageIndex];
+    const nodes = this.explosion?.nodes ?? [];
+    const stageNodeIds = stage.nodeIds && new Set(stage.nodeIds);
+    sequence.stageNodes = nodes.filter(
+      ({ nodeId, level, ancestors }) =>
+        (stage.level === undefined || level === stage.level) &&
+        (!stageNodeIds ||
+          stageNodeIds.has(nodeId) ||
+          ancestors.some((ancestor) => stageNodeIds.has(ancestor))),
+    );
+    sequence.startMagnitudes = new Map(nodes.map(({ nodeId, magnitude }) => [nodeId, magnitude]));
+  }
+
+  /**
+   * Sets the magnitudes of the nodes of the current stage of a sequence.
+   * @param progress the progress of the stage, from 0 to 1.
+   */
+  private setStageMagnitudes(sequence: ExplodeSequence, progress: number): void {
+    const stage = sequence.stages[sequence.stageIndex];
+    for (const node of sequence.stageNodes) {
+      const from = stage.from ?? sequence.startMagnitudes.get(node.nodeId) ?? 0;
+      node.magnitude = from + (stage.to - from) * progress;
+    }
+  }
+
+  /**
+   * Moves the nodes of a sequence to their magnitudes at the time of a frame, and requests the
+   * next frame once the nodes are moved.
+   * @param sequence the sequence to step, nothing is done if it is not playing anymore.
+   * @param time the time of the frame, in milliseconds.
+   */
+  private async stepSequence(sequence: ExplodeSequence, time: number): Promise<void> {
+    sequence.frame = undefined;
+    if (this.sequence !== sequence) {
+      return;
+    }
+
+    sequence.elapsed += sequence.lastTime === undefined ? 0 : time - sequence.lastTime;
+    sequence.lastTime = time;
+
+    // The position of the sequence in stages, 1.5 in the middle of the second stage
+    const stageCount = sequence.stages.length;
+    const stageDuration = sequence.durationMs / stageCount;
+    const position = stageDuration > 0 ? sequence.elapsed / stageDuration : stageCount;
+    while (sequence.stageIndex < stageCount - 1 && position >= sequence.stageIndex + 1) {
+      this.setStageMagnitudes(sequence, 1);
+      sequence.stageIndex++;
+      this.startStage(sequence);
+    }
+
+    const stageProgress = Math.min(position - sequence.stageIndex, 1);
+    this.setStageMagnitudes(sequence, stageProgress);
+
+    try {
+      await this.applyExplosion();
+    } catch (error) {
+      this.endSequence(sequence, error);
+      return;
+    }
+
+    if (this.sequence !== sequence) {
+      return;
+    }
+
+    this.dispatchEvent(
+      new CustomEvent<ExplodeSequenceProgress>('hoops-explode-sequence-progress', {
+        bubbles: true,
+        composed: true,
+        detail: {
+          stageIndex: sequence.stageIndex,
+          stageProgress,
+          progress: Math.min(position / stageCount, 1),
+        },
+      }),
+    );
+
+    if (position >= stageCount) {
+      this.endSequence(sequence);
+    } else {
+      sequence.frame = requestAnimationFrame((frameTime) => this.stepSequence(sequence, frameTime));
+    }
+  }
+
+  /**
+   * Ends a sequence, settling the promise returned by `playSequence`.
+   * @param sequence the sequence to end, the current one by default.
+   * @param error the error ending the sequence, if any.
+   */
+  private endSequence(sequence = this.sequence, error?: unknown): void {
+    if (!sequence || this.sequence !== sequence) {
+      return;
+    }
+
+    if (sequence.frame !== undefined) {
+      cancelAnimationFrame(sequence.frame);
+    }
+    this.sequence = undefined;
+    this.dispatchEvent(
+      new CustomEvent('hoops-explode-sequence-end', { bubbles: true, composed: true }),
+    );
+
+    if (error === undefined) {
+      sequence.resolve();
+    } else {
+      sequence.reject(error);
+    }
   }
 }
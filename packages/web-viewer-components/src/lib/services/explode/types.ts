@@ -1,6 +1,94 @@
-import { IPoint3 } from '@ts3d-hoops/web-viewer';
+import { IPoint3, NodeId } from '@ts3d-hoops/web-viewer';
 import { IService } from '../types';
 
+/**
+ * The modes of an explosion.
+ */
+export const ExplodeModes = ['radial', 'axial', 'hierarchical'] as const;
+
+/**
+ * The mode of an explosion:
+ * - `radial` moves the parts away from the explosion center
+ * - `axial` moves the parts away from the explosion center along an axis only
+ * - `hierarchical` moves each node of the assembly tree away from its parent, level by level
+ */
+export type ExplodeMode = (typeof ExplodeModes)[number];
+
+/**
+ * An axis of the model, to lock the explosion of nodes along it.
+ */
+export type ExplodeAxis = 'x' | 'y' | 'z';
+
+/**
+ * Nodes exploded along their own direction.
+ *
+ * @example
+ * ```typescript
+ * // The wheels move sideways, whatever the mode of the explosion
+ * const group: ExplodeGroup = { nodeIds: [12, 13], vector: 'x' };
+ * ```
+ */
+export type ExplodeGroup = {
+  /** The nodes of the group, their descendants belong to the group too. */
+  nodeIds: NodeId[];
+  /** The axis, or the vector, the nodes of the group are exploded along. */
+  vector: ExplodeAxis | IPoint3;
+};
+
+/**
+ * The options of an explosion computed by the `ExplodeService` instead of the explode manager
+ * of the viewer.
+ *
+ * @example
+ * ```typescript
+ * await explodeService.start(undefined, center, { mode: 'axial', axis: 'z' });
+ * ```
+ */
+export type ExplodeOptions = {
+  /** The mode of the explosion, `radial` by default. */
+  mode?: ExplodeMode;
+  /** The axis of an `axial` explosion, `z` by default. */
+  axis?: ExplodeAxis;
+  /** The groups of nodes exploded along their own direction. */
+  groups?: ExplodeGroup[];
+};
+
+/**
+ * A stage of an explosion sequence, moving some of the exploded nodes from a magnitude to another.
+ *
+ * @example
+ * ```typescript
+ * // Explode the first level of the assembly, then the second one
+ * const stages: ExplodeStage[] = [
+ *   { level: 0, to: 1 },
+ *   { level: 1, to: 0.5 },
+ * ];
+ * ```
+ */
+export type ExplodeStage = {
+  /** The nodes moved by the stage, their exploded descendants are moved too. */
+  nodeIds?: NodeId[];
+  /** The level of the nodes moved by the stage in the assembly tree, 0 for the exploded roots. */
+  level?: number;
+  /** The magnitude of the nodes at the start of the stage, their current magnitude by default. */
+  from?: number;
+  /** The magnitude of the nodes at the end of the stage. */
+  to: number;
+};
+
+/**
+ * The progress of an explosion sequence, as dispatched with the
+ * `hoops-explode-sequence-progress` event.
+ */
+export type ExplodeSequenceProgress = {
+  /** The index of the current stage. */
+  stageIndex: number;
+  /** The progress of the current stage, from 0 to 1. */
+  stageProgress: number;
+  /** The progress of the whole sequence, from 0 to 1. */
+  progress: number;
+};
+
 /**
  * @interface IExplodeService
  * @extends IService
@@ -11,9 +99,14 @@ import { IService } from '../types';
  */
 export interface IExplodeService extends IService {
   reset(): void;
-  start(nodeIds?: number[], explosionVector?: IPoint3): Promise<void>;
+  start(nodeIds?: number[], explosionVector?: IPoint3, options?: ExplodeOptions): Promise<void>;
   setMagnitude(magnitude: number): Promise<void>;
   stop(): Promise<void>;
   getMagnitude(): number;
   getActive(): boolean;
+  getMode(): ExplodeMode;
+  getLevelCount(): number;
+  playSequence(stages: ExplodeStage[], duration: number): Promise<void>;
+  stopSequence(): void;
+  isSequencePlaying(): boolean;
 }
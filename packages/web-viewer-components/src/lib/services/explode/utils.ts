@@ -0,0 +1,69 @@
+import { IPoint3 } from '@ts3d-hoops/web-viewer';
+import { Point3 } from '@ts3d-hoops/common';
+import { ExplodeAxis } from './types';
+
+/**
+ * Gets the unit vector of an axis, or normalizes a vector.
+ *
+ * @param vector - The axis or the vector
+ * @returns The unit vector, the zero vector if the vector is zero
+ */
+export function getExplodeVector(vector: ExplodeAxis | IPoint3): Point3 {
+  if (typeof vector === 'string') {
+    return new Point3(vector === 'x' ? 1 : 0, vector === 'y' ? 1 : 0, vector === 'z' ? 1 : 0);
+  }
+
+  const result = new Point3(vector.x, vector.y, vector.z);
+  return result.length() > 0 ? result.normalize() : result;
+}
+
+/**
+ * Computes the displacement of a node at magnitude 1, so that the distance between its exploded
+ * center and the reference point is twice the distance between its center and the reference.
+ *
+ * @param center - The center of the node
+ * @param reference - The point the node moves away from
+ * @param lock - The unit vector the displacement is locked along, if any
+ * @returns The displacement of the node, in model coordinates
+ *
+ * @example
+ * ```typescript
+ * const displacement = getExplodeDisplacement(new Point3(2, 1, 0), new Point3(0, 0, 0), getExplodeVector('x'));
+ * // displacement is (2, 0, 0)
+ * ```
+ */
+export function getExplodeDisplacement(center: Point3, reference: Point3, lock?: Point3): Point3 {
+  const displacement = Point3.subtract(center, reference);
+  return lock ? Point3.scale(lock, Point3.dot(displacement, lock)) : displacement;
+}
+
+/**
+ * Converts a direction in model coordinates to the coordinates of a node, as used by the
+ * translation of its local matrix, solving the linear part of the net matrix of its parent.
+ *
+ * @param parentNetMatrix - The net matrix of the parent, as a column-major array of 16 values
+ * @param direction - The direction in model coordinates
+ * @returns The direction in the coordinates of the parent, the direction itself if the parent
+ * matrix cannot be inverted
+ */
+export function toParentDirection(parentNetMatrix: number[], direction: Point3): Point3 {
+  const m = parentNetMatrix;
+  const columns = [
+    new Point3(m[0], m[1], m[2]),
+    new Point3(m[4], m[5], m[6]),
+    new Point3(m[8], m[9], m[10]),
+  ];
+  const determinant = (a: Point3, b: Point3, c: Point3) => Point3.dot(a, Point3.cross(b, c));
+
+  const det = determinant(columns[0], columns[1], columns[2]);
+  if (Math.abs(det) < 1e-12) {
+    return direction.copy();
+  }
+
+  // Cramer's rule
+  return new Point3(
+    determinant(direction, columns[1], columns[2]) / det,
+    determinant(columns[0], direction, columns[2]) / det,
+    determinant(columns[0], columns[1], direction) / det,
+  );
+}
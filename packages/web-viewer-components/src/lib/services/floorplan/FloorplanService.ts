@@ -2,6 +2,7 @@ import {
   type IFloorplanService,
   type OrientationName,
   type AutoActivationModeName,
+  type FloorplanServiceConfiguration,
   isFloorplanServiceConfiguration,
 } from './types';
 import { FloorplanOrientation, Floorplan, Color } from '@ts3d-hoops/web-viewer';
@@ -371,6 +372,28 @@ export class FloorplanService extends EventTarget implements IFloorplanService {
     );
   }
 
+  /**
+   * Gets the current floorplan configuration, the counterpart of `resetConfiguration`.
+   * @returns a promise that resolves with the current configuration.
+   */
+  async getConfiguration(): Promise<FloorplanServiceConfiguration> {
+    return {
+      floorplanActive: this.isActive(),
+      trackCamera: this.isTrackCameraEnabled(),
+      orientation: this.getOrientation(),
+      autoActivationMode: this.getAutoActivationMode(),
+      overlayFeetPerPixel: this.getOverlayFeetPerPixel(),
+      overlayZoomLevel: this.getOverlayZoomLevel(),
+      overlayBackgroundOpacity: this.getOverlayBackgroundOpacity(),
+      overlayBorderOpacity: this.getOverlayBorderOpacity(),
+      overlayAvatarOpacity: this.getOverlayAvatarOpacity(),
+      floorplanBackgroundColor: this.getFloorplanBackgroundColor(),
+      floorplanBorderColor: this.getFloorplanBorderColor(),
+      floorplanAvatarColor: this.getFloorplanAvatarColor(),
+      floorplanAvatarOutlineColor: this.getFloorplanAvatarOutlineColor(),
+    };
+  }
+
   async resetConfiguration(obj?: object): Promise<void> {
     const config = obj ?? FloorplanService.DefaultConfig;
 
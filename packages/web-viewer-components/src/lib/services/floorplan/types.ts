@@ -1,4 +1,4 @@
-import { IResettableConfigurationService, IService } from '../types';
+import { IConfigurableService, IService } from '../types';
 
 export const OrientationNames = ['North Up', 'Avatar Up'] as const;
 export type OrientationName = (typeof OrientationNames)[number];
@@ -58,7 +58,7 @@ export function isFloorplanServiceConfiguration(
   );
 }
 
-export interface IFloorplanService extends IService, IResettableConfigurationService {
+export interface IFloorplanService extends IService, IConfigurableService {
   isActive(): boolean;
   setActive(active: boolean): Promise<void>;
 
@@ -98,6 +98,7 @@ export interface IFloorplanService extends IService, IResettableConfigurationSer
   getFloorplanAvatarOutlineColor(): string;
   setFloorplanAvatarOutlineColor(color: string): Promise<void>;
 
+  getConfiguration(): Promise<FloorplanServiceConfiguration>;
   resetConfiguration(obj?: object): Promise<void>;
   reset(): Promise<void>;
 }
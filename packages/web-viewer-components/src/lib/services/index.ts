@@ -13,6 +13,13 @@ export * from './spacemouse';
 export * from './walk-operator';
 export * from './view';
 export * from './material';
+export * from './snapshot';
+export * from './session-state';
+export * from './configuration-persistence';
+export * from './undo';
+export * from './shortcut';
+export * from './bcf';
+export * from './markup';
 
 export { default as CuttingService } from './cutting';
 export { default as CameraService } from './camera';
@@ -26,5 +33,11 @@ export { default as SpaceMouseService } from './spacemouse';
 export { default as WalkOperatorService } from './walk-operator';
 export { default as ViewService } from './view';
 export { default as MaterialService } from './material';
+export { default as SnapshotService } from './snapshot';
+export { default as SessionStateService } from './session-state';
+export { default as UndoService } from './undo';
+export { default as ShortcutService } from './shortcut';
+export { default as BcfService } from './bcf';
+export { default as MarkupService } from './markup';
 
 export * from './serviceRegistry';
@@ -0,0 +1,263 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Point3 } from '@ts3d-hoops/web-viewer';
+
+import { registerService, unregisterService } from '../serviceRegistry';
+import { createToolMeasureMarkup, MeasureRadiusMarkup } from '../measurement';
+import MarkupService from './MarkupService';
+import { isMarkupDocument, MarkupDocument } from './types';
+
+function createWebViewer() {
+  const redlineItem = {
+    uniqueId: 'redline-1',
+    getClassName: () => 'Communicator.Markup.Redline.RedlineCircle',
+  };
+  const markupView = {
+    getUniqueId: () => 'view-1',
+    getName: () => 'Review 1',
+    getCamera: () => ({ toJson: () => ({ position: { x: 0, y: -10, z: 0 } }) }),
+    getMarkup: () => [redlineItem],
+    toJson: () => ({ uniqueId: 'view-1', markup: [{ uniqueId: 'redline-1' }] }),
+  };
+  const noteText = {
+    uniqueId: 'note-1',
+    getText: () => 'Missing beam',
+    getPartId: () => 12,
+    getPosition: () => ({ x: 1, y: 2, z: 3 }),
+    toJson: () => ({ uniqueId: 'note-1', text: 'Missing beam' }),
+    remove: vi.fn(async () => undefined),
+  };
+  const measurement = {
+    uniqueId: 'measurement-1',
+    getClassName: () => 'Communicator.Markup.Measure.MeasurePointPointDistanceMarkup',
+    getName: () => 'Point to point',
+    toJson: () => ({ uniqueId: 'measurement-1' }),
+  };
+
+  return {
+    view: {},
+    markupManager: {
+      getMarkupViewKeys: vi.fn(() => ['view-1']),
+      getMarkupView: (key: string) => (key === 'view-1' ? markupView : undefined),
+      deleteMarkupView: vi.fn(() => true),
+      loadMarkupData: vi.fn(async () => true),
+    },
+    noteTextManager: {
+      getNoteTextList: vi.fn(() => [noteText]),
+    },
+    measureManager: {
+      getAllMeasurements: vi.fn(() => [measurement]),
+      removeAllMeasurements: vi.fn(),
+    },
+    noteText,
+  };
+}
+
+describe('MarkupService', () => {
+  let service: MarkupService;
+  let webViewer: ReturnType<typeof createWebViewer>;
+
+  beforeEach(() => {
+    service = new MarkupService();
+    webViewer = createWebViewer();
+    service.webViewer = webViewer as any;
+  });
+
+  it('should export the redline views, note texts and measurements', () => {
+    const listener = vi.fn();
+    service.addEventListener('hoops-markups-exported', listener);
+
+    const document = service.exportMarkups();
+
+    expect(service.serviceName).toBe('MarkupService');
+    expect(isMarkupDocument(JSON.parse(JSON.stringify(document)))).toBe(true);
+    expect(document).toMatchObject({
+      version: 1,
+      redlineViews: [
+        {
+          id: 'view-1',
+          name: 'Review 1',
+          camera: { position: { x: 0, y: -10, z: 0 } },
+          items: [{ id: 'redline-1', type: 'Communicator.Markup.Redline.RedlineCircle' }],
+        },
+      ],
+      noteTexts: [
+        { id: 'note-1', text: 'Missing beam', nodeId: 12, position: { x: 1, y: 2, z: 3 } },
+      ],
+      measurements: [
+        {
+          id: 'measurement-1',
+          type: 'Communicator.Markup.Measure.MeasurePointPointDistanceMarkup',
+          name: 'Point to point',
+        },
+      ],
+    });
+    expect(listener.mock.calls[0][0].detail).toBe(document);
+  });
+
+  it('should merge the markups that are not in the viewer yet', async () => {
+    const document = service.exportMarkups();
+    const imported: MarkupDocument = {
+      ...document,
+      redlineViews: [...document.redlineViews, { ...document.redlineViews[0], id: 'view-2' }],
+    };
+    const redlineService = { serviceName: 'RedlineService', reset: vi.fn() };
+    registerService(redlineService as any);
+
+    await service.importMarkups(imported);
+    unregisterService('RedlineService');
+
+    expect(webViewer.markupManager.loadMarkupData).toHaveBeenCalledWith({
+      views: [document.redlineViews[0].data],
+      notes: [],
+      measurement: [],
+    });
+    expect(webViewer.markupManager.deleteMarkupView).not.toHaveBeenCalled();
+    expect(redlineService.reset).toHaveBeenCalled();
+  });
+
+  it('should replace the markups of the viewer', async () => {
+    const document = service.exportMarkups();
+    const undoService = { serviceName: 'UndoService', clear: vi.fn() };
+    registerService(undoService as any);
+    const listener = vi.fn();
+    service.addEventListener('hoops-markups-imported', listener);
+    webViewer.markupManager.deleteMarkupView.mockImplementation(() => {
+      webViewer.markupManager.getMarkupViewKeys.mockReturnValue([]);
+      return true;
+    });
+    webViewer.noteText.remove.mockImplementation(async () => {
+      webViewer.noteTextManager.getNoteTextList.mockReturnValue([]);
+    });
+    webViewer.measureManager.removeAllMeasurements.mockImplementation(() => {
+      webViewer.measureManager.getAllMeasurements.mockReturnValue([]);
+    });
+
+    await service.importMarkups(document, { mode: 'replace' });
+    unregisterService('UndoService');
+
+    expect(webViewer.markupManager.deleteMarkupView).toHaveBeenCalledWith('view-1');
+    expect(webViewer.noteText.remove).toHaveBeenCalledWith(webViewer.view);
+    expect(webViewer.markupManager.loadMarkupData).toHaveBeenCalledWith({
+      views: [document.redlineViews[0].data],
+      notes: [document.noteTexts[0].data],
+      measurement: [document.measurements[0].data],
+    });
+    expect(undoService.clear).toHaveBeenCalled();
+    expect(listener.mock.calls[0][0].detail).toEqual({ document, mode: 'replace' });
+  });
+
+  it('should export and import the hidden redline items', async () => {
+    const markupItem = { id: 'redline-1', type: 'Communicator.Markup.Redline.RedlineCircle' };
+    const redlineService = {
+      serviceName: 'RedlineService',
+      getHiddenRedlineItems: vi.fn(() => [{ markupViewId: 'view-1', markupItem }]),
+      includeHiddenRedlineItems: vi.fn((callback: () => unknown) => callback()),
+      setRedlineItemsVisibility: vi.fn(),
+      reset: vi.fn(),
+    };
+    registerService(redlineService as any);
+
+    const document = service.exportMarkups();
+    webViewer.markupManager.deleteMarkupView.mockImplementation(() => {
+      webViewer.markupManager.getMarkupViewKeys.mockReturnValue([]);
+      return true;
+    });
+    await service.importMarkups(JSON.parse(JSON.stringify(document)), { mode: 'replace' });
+    unregisterService('RedlineService');
+
+    expect(redlineService.includeHiddenRedlineItems).toHaveBeenCalled();
+    expect(document.redlineViews[0].hiddenItemIds).toEqual(['redline-1']);
+    expect(redlineService.setRedlineItemsVisibility).toHaveBeenCalledWith(
+      [{ markupViewId: 'view-1', markupItem }],
+      false,
+    );
+  });
+
+  it('should restore the measurements of the tools through the MeasurementService', async () => {
+    const radius = Object.assign(
+      new MeasureRadiusMarkup(
+        webViewer as any,
+        [12],
+        [new Point3(0, 0, 0), new Point3(5, 0, 0)],
+        5,
+        'Radius',
+      ),
+      { uniqueId: 'measurement-2' },
+    );
+    radius.setMeasurementText('R 5.00 mm · Ø 10.00 mm');
+    const [measurement] = webViewer.measureManager.getAllMeasurements();
+    webViewer.measureManager.getAllMeasurements.mockReturnValue([measurement, radius as any]);
+    const document = JSON.parse(JSON.stringify(service.exportMarkups()));
+    webViewer.measureManager.removeAllMeasurements.mockImplementation(() => {
+      webViewer.measureManager.getAllMeasurements.mockReturnValue([]);
+    });
+    const measurementService = {
+      serviceName: 'MeasurementService',
+      restoreMeasurement: vi.fn((data) => createToolMeasureMarkup(webViewer as any, data)),
+    };
+    registerService(measurementService as any);
+
+    await service.importMarkups(document, { mode: 'replace' });
+    unregisterService('MeasurementService');
+
+    expect(webViewer.markupManager.loadMarkupData).toHaveBeenCalledWith(
+      expect.objectContaining({ measurement: [{ uniqueId: 'measurement-1' }] }),
+    );
+    expect(measurementService.restoreMeasurement).toHaveBeenCalledTimes(1);
+    const restored = measurementService.restoreMeasurement.mock.results[0].value;
+    expect(restored).toBeInstanceOf(MeasureRadiusMarkup);
+    expect(restored.toJson()).toEqual(radius.toJson());
+  });
+
+  it('should export and import the review data of the note texts', async () => {
+    const review = {
+      status: 'resolved' as const,
+      assignee: 'jane@example.com',
+      comments: [
+        {
+          id: 'comment-1',
+          author: 'john@example.com',
+          timestamp: '2026-01-05T10:00:00.000Z',
+          message: 'Beam added',
+        },
+      ],
+    };
+    const noteTextService = {
+      serviceName: 'NoteTextService',
+      getNoteText: vi.fn((id: string) => ({ id, ...review })),
+      setNoteTextReview: vi.fn(),
+      reset: vi.fn(),
+    };
+    registerService(noteTextService as any);
+
+    const document = service.exportMarkups();
+    expect(document.noteTexts[0]).toMatchObject(review);
+    expect(isMarkupDocument(JSON.parse(JSON.stringify(document)))).toBe(true);
+    expect(
+      isMarkupDocument({ ...document, noteTexts: [{ ...document.noteTexts[0], status: 'done' }] }),
+    ).toBe(false);
+
+    webViewer.noteTextManager.getNoteTextList.mockReturnValue([]);
+    await service.importMarkups(document);
+    unregisterService('NoteTextService');
+
+    expect(noteTextService.setNoteTextReview).toHaveBeenCalledWith('note-1', review);
+    expect(noteTextService.reset).toHaveBeenCalled();
+  });
+
+  it('should reject the invalid documents', async () => {
+    const document = service.exportMarkups();
+
+    await expect(service.importMarkups({ ...document, version: 2 })).rejects.toThrow(
+      'Invalid markup document object',
+    );
+    expect(
+      isMarkupDocument({ ...document, noteTexts: [{ ...document.noteTexts[0], position: {} }] }),
+    ).toBe(false);
+    expect(isMarkupDocument(null)).toBe(false);
+    expect(webViewer.markupManager.loadMarkupData).not.toHaveBeenCalled();
+
+    service.webViewer = undefined;
+    expect(() => service.exportMarkups()).toThrow('WebViewer is not set');
+  });
+});
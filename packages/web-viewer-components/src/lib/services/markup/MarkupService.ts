@@ -0,0 +1,252 @@
+import { core } from '@ts3d-hoops/web-viewer';
+import { tryGetService } from '../serviceRegistry';
+import {
+  type IMeasurementService,
+  isToolMeasureMarkupData,
+  type ToolMeasureMarkupData,
+} from '../measurement/types';
+import type { INoteTextService } from '../notetext';
+import type { IRedlineService } from '../redline';
+import type { IUndoService } from '../undo';
+import {
+  IMarkupService,
+  isMarkupDocument,
+  MarkupDocument,
+  MarkupDocumentVersion,
+  MarkupImportOptions,
+} from './types';
+
+/**
+ * Service class exporting and importing the markups of the web viewer as a portable document.
+ *
+ * The document holds the redline views with their camera, the note texts with the node and
+ * position they are anchored to and their review data, and the measurements. It is a versioned
+ * JSON serializable object that can be validated with `isMarkupDocument`.
+ *
+ * @fires hoops-markups-exported - When the markups have been exported
+ * @fires hoops-markups-imported - When a document has been imported
+ * @fires hoops-markup-service-reset - When the service is reset with a new web viewer
+ *
+ * @example
+ * ```typescript
+ * const markupService = getService<IMarkupService>('MarkupService');
+ *
+ * const document = markupService.exportMarkups();
+ * await fetch('/api/models/42/markups', { method: 'PUT', body: JSON.stringify(document) });
+ *
+ * const response = await fetch('/api/models/42/markups');
+ * await markupService.importMarkups(await response.json(), { mode: 'replace' });
+ * ```
+ */
+export default class MarkupService extends EventTarget implements IMarkupService {
+  public readonly serviceName = 'MarkupService' as const;
+
+  private _webViewer?: core.IWebViewer;
+
+  get webViewer(): core.IWebViewer | undefined {
+    return this._webViewer;
+  }
+
+  set webViewer(webViewer: core.IWebViewer | undefined) {
+    if (this._webViewer === webViewer) {
+      return;
+    }
+
+    this._webViewer = webViewer;
+    this.reset();
+  }
+
+  /**
+   * Exports the redline views, note texts and measurements of the viewer.
+   * @returns a JSON serializable document.
+   */
+  public exportMarkups(): MarkupDocument {
+    if (!this._webViewer) {
+      throw new Error('WebViewer is not set');
+    }
+
+    const { markupManager, noteTextManager, measureManager } = this._webViewer;
+    const noteTextService = tryGetService<INoteTextService>('NoteTextService');
+    const redlineService = tryGetService<IRedlineService>('RedlineService');
+    const hiddenItems = redlineService?.getHiddenRedlineItems() ?? [];
+
+    const exportRedlineViews = () =>
+      markupManager.getMarkupViewKeys().flatMap((key) => {
+        const view = markupManager.getMarkupView(key);
+        if (!view) {
+          return [];
+        }
+
+        const hiddenItemIds = hiddenItems
+          .filter(({ markupViewId }) => markupViewId === key)
+          .map(({ markupItem }) => markupItem.id);
+        return [
+          {
+            id: view.getUniqueId(),
+            name: view.getName(),
+            camera: view.getCamera().toJson(),
+            items: view.getMarkup().map((item) => ({
+              id: item.uniqueId,
+              type: item.getClassName(),
+            })),
+            ...(hiddenItemIds.length && { hiddenItemIds }),
+            data: view.toJson(),
+          },
+        ];
+      });
+
+    const document: MarkupDocument = {
+      version: MarkupDocumentVersion,
+      exportedAt: new Date().toISOString(),
+      // The hidden redline items are kept out of their views by the RedlineService
+      redlineViews: redlineService
+        ? redlineService.includeHiddenRedlineItems(exportRedlineViews)
+        : exportRedlineViews(),
+      noteTexts: noteTextManager.getNoteTextList().map((noteText) => {
+        const position = noteText.getPosition();
+        const review = noteTextService?.getNoteText(noteText.uniqueId);
+        return {
+          id: noteText.uniqueId,
+          text: noteText.getText(),
+          nodeId: noteText.getPartId(),
+          position: { x: position.x, y: position.y, z: position.z },
+          ...(review && {
+            status: review.status,
+            assignee: review.assignee,
+            comments: review.comments,
+          }),
+          data: noteText.toJson(),
+        };
+      }),
+      measurements: measureManager.getAllMeasurements().map((measurement) => ({
+        id: measurement.uniqueId,
+        type: measurement.getClassName(),
+        name: measurement.getName(),
+        data: measurement.toJson(),
+      })),
+    };
+
+    this.dispatchEvent(
+      new CustomEvent('hoops-markups-exported', {
+        bubbles: true,
+        composed: true,
+        detail: document,
+      }),
+    );
+
+    return document;
+  }
+
+  /**
+   * Imports the markups of a document.
+   * In `merge` mode, the default, the markups of the viewer are kept and the items of the document
+   * already in the viewer are skipped. In `replace` mode the markups of the viewer are removed
+   * first and the undo history is cleared.
+   * @param document the document to import.
+   * @param options the import mode.
+   * @returns a promise that resolves when the markups are loaded.
+   */
+  public async importMarkups(document: unknown, options: MarkupImportOptions = {}): Promise<void> {
+    if (!this._webViewer) {
+      throw new Error('WebViewer is not set');
+    }
+
+    if (!isMarkupDocument(document)) {
+      throw new Error('Invalid markup document object');
+    }
+
+    const mode = options.mode ?? 'merge';
+    const { view, markupManager, noteTextManager, measureManager } = this._webViewer;
+
+    if (mode === 'replace') {
+      for (const key of markupManager.getMarkupViewKeys()) {
+        markupManager.deleteMarkupView(key);
+      }
+      await Promise.all(noteTextManager.getNoteTextList().map((noteText) => noteText.remove(view)));
+      measureManager.removeAllMeasurements();
+    }
+
+    const viewIds = new Set(markupManager.getMarkupViewKeys());
+    const noteTextIds = new Set(noteTextManager.getNoteTextList().map((note) => note.uniqueId));
+    const measurementIds = new Set(
+      measureManager.getAllMeasurements().map((measurement) => measurement.uniqueId),
+    );
+
+    const redlineViews = document.redlineViews.filter(
+      (redlineView) => !viewIds.has(redlineView.id),
+    );
+    const noteTexts = document.noteTexts.filter((noteText) => !noteTextIds.has(noteText.id));
+    const measurements = document.measurements
+      .filter((measurement) => !measurementIds.has(measurement.id))
+      .map((measurement) => measurement.data);
+    await markupManager.loadMarkupData({
+      views: redlineViews.map((redlineView) => redlineView.data),
+      notes: noteTexts.map((noteText) => noteText.data),
+      measurement: measurements.filter((data) => !isToolMeasureMarkupData(data)),
+    });
+    this.restoreToolMeasurements(measurements.filter(isToolMeasureMarkupData));
+
+    const noteTextService = tryGetService<INoteTextService>('NoteTextService');
+    for (const { id, status, assignee, comments } of noteTexts) {
+      // The review data is kept by the service rather than by the notes of the viewer
+      if ((status || assignee || comments) && noteTextService?.getNoteText(id)) {
+        noteTextService.setNoteTextReview(id, {
+          status: status ?? 'open',
+          assignee,
+          comments: comments ?? [],
+        });
+      }
+    }
+
+    const redlineService = tryGetService<IRedlineService>('RedlineService');
+    const hiddenItems = redlineViews.flatMap(({ id, items, hiddenItemIds }) =>
+      items
+        .filter((item) => hiddenItemIds?.includes(item.id))
+        .map((markupItem) => ({ markupViewId: id, markupItem })),
+    );
+    if (hiddenItems.length) {
+      redlineService?.setRedlineItemsVisibility(hiddenItems, false);
+    }
+
+    redlineService?.reset();
+    noteTextService?.reset();
+    if (mode === 'replace') {
+      // The removed markups cannot be restored by the operations of the history anymore
+      tryGetService<IUndoService>('UndoService')?.clear();
+    }
+
+    this.dispatchEvent(
+      new CustomEvent('hoops-markups-imported', {
+        bubbles: true,
+        composed: true,
+        detail: { document, mode },
+      }),
+    );
+  }
+
+  /**
+   * Restores the measurements of the measurement tools, the markup manager of the viewer does not
+   * know their classes.
+   */
+  private restoreToolMeasurements(measurements: ToolMeasureMarkupData[]): void {
+    if (measurements.length === 0) {
+      return;
+    }
+
+    const measurementService = tryGetService<IMeasurementService>('MeasurementService');
+    if (!measurementService) {
+      console.warn(
+        `Cannot restore ${measurements.length} measurements of the measurement tools: the MeasurementService is not registered`,
+      );
+      return;
+    }
+
+    measurements.forEach((data) => measurementService.restoreMeasurement(data));
+  }
+
+  reset(): void {
+    this.dispatchEvent(
+      new CustomEvent('hoops-markup-service-reset', { bubbles: true, composed: true }),
+    );
+  }
+}
@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { InMemoryMarkupSyncChannel } from './adapters';
+import MarkupSync from './MarkupSync';
+import { MarkupSyncAdapter, MarkupSyncChange } from './types';
+
+function createChange(patch: Partial<MarkupSyncChange> = {}): MarkupSyncChange {
+  return {
+    id: 'change-1',
+    scope: 'redline-view',
+    markupId: 'view-1',
+    origin: 'remote',
+    timestamp: 1000,
+    data: { uniqueId: 'view-1' },
+    ...patch,
+  };
+}
+
+/**
+ * An adapter letting the tests deliver the changes themselves.
+ */
+function createAdapter() {
+  let receive: (change: MarkupSyncChange) => void = () => undefined;
+  const adapter = {
+    connect: vi.fn((callback: (change: MarkupSyncChange) => void) => {
+      receive = callback;
+    }),
+    push: vi.fn((_change: MarkupSyncChange) => undefined),
+    disconnect: vi.fn(),
+  } satisfies MarkupSyncAdapter;
+
+  return { adapter, receive: (change: unknown) => receive(change as MarkupSyncChange) };
+}
+
+describe('MarkupSync', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should push the changed markups only', async () => {
+    const sync = new MarkupSync('redline-view', vi.fn());
+    const { adapter } = createAdapter();
+
+    sync.push('view-1', { uniqueId: 'view-1' });
+    expect(adapter.push).not.toHaveBeenCalled();
+
+    await sync.setAdapter(adapter);
+    sync.push('view-1', { uniqueId: 'view-1' });
+    sync.push('view-1', { uniqueId: 'view-1' });
+    sync.push('view-1', null);
+
+    expect(adapter.push).toHaveBeenCalledTimes(2);
+    const [created, removed] = adapter.push.mock.calls.map(([change]) => change);
+    expect(created).toEqual(
+      expect.objectContaining({
+        scope: 'redline-view',
+        markupId: 'view-1',
+        origin: sync.origin,
+        data: { uniqueId: 'view-1' },
+      }),
+    );
+    expect(removed.data).toBeNull();
+    expect(removed.timestamp).toBeGreaterThan(created.timestamp);
+  });
+
+  it('should apply the received changes once, the last change winning', async () => {
+    const apply = vi.fn(async (_change: MarkupSyncChange) => undefined);
+    const sync = new MarkupSync('redline-view', apply);
+    const { adapter, receive } = createAdapter();
+    await sync.setAdapter(adapter);
+
+    const newer = createChange({ id: 'change-2', timestamp: 2000 });
+    receive(newer);
+    receive(newer);
+    receive(createChange());
+    // The ties are broken by the origin
+    receive(createChange({ id: 'change-3', timestamp: 2000, origin: 'another-remote' }));
+
+    await vi.waitFor(() => expect(apply).toHaveBeenCalledWith(newer));
+    await Promise.resolve();
+    expect(apply).toHaveBeenCalledTimes(1);
+
+    // The local changes are more recent than the applied ones
+    sync.push('view-1', { uniqueId: 'view-1', name: 'Local' });
+    expect(adapter.push.mock.calls[0][0].timestamp).toBeGreaterThan(2000);
+  });
+
+  it('should ignore the invalid, foreign and own changes', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const apply = vi.fn(async () => undefined);
+    const sync = new MarkupSync('redline-view', apply);
+    const { adapter, receive } = createAdapter();
+    await sync.setAdapter(adapter);
+
+    receive({ id: 'change-1', scope: 'redline-view' });
+    receive(createChange({ scope: 'note-text' }));
+    receive(createChange({ origin: sync.origin }));
+    await Promise.resolve();
+
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    expect(apply).not.toHaveBeenCalled();
+  });
+
+  it('should not push back the changes made while applying a received change', async () => {
+    const sync: MarkupSync = new MarkupSync('redline-view', async (change) =>
+      sync.push(change.markupId, change.data),
+    );
+    const { adapter, receive } = createAdapter();
+    await sync.setAdapter(adapter);
+
+    receive(createChange());
+    await vi.waitFor(() => expect(adapter.push).not.toHaveBeenCalled());
+  });
+
+  it('should push the changes of the other markups while applying a received change', async () => {
+    let release: () => void = () => undefined;
+    const apply = vi.fn(() => new Promise<void>((resolve) => (release = resolve)));
+    const sync = new MarkupSync('redline-view', apply);
+    const { adapter, receive } = createAdapter();
+    await sync.setAdapter(adapter);
+
+    receive(createChange());
+    await vi.waitFor(() => expect(apply).toHaveBeenCalledOnce());
+    sync.push('view-2', { uniqueId: 'view-2' });
+    sync.push('view-1', { uniqueId: 'view-1', name: 'Echo' });
+    release();
+
+    expect(adapter.push).toHaveBeenCalledTimes(1);
+    expect(adapter.push.mock.calls[0][0].markupId).toBe('view-2');
+  });
+
+  it('should log the changes failing to apply and keep applying the next ones', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const apply = vi
+      .fn(async (_change: MarkupSyncChange) => undefined)
+      .mockRejectedValueOnce(new Error('Invalid view'));
+    const sync = new MarkupSync('redline-view', apply);
+    const { adapter, receive } = createAdapter();
+    await sync.setAdapter(adapter);
+
+    receive(createChange());
+    receive(createChange({ id: 'change-2', markupId: 'view-2' }));
+
+    await vi.waitFor(() => expect(apply).toHaveBeenCalledTimes(2));
+    expect(errorSpy).toHaveBeenCalledWith('Failed to apply the markup change:', expect.any(Error));
+  });
+
+  it('should disconnect the previous adapter and keep the origin of the viewer', async () => {
+    const sync = new MarkupSync('redline-view', vi.fn());
+    const first = createAdapter().adapter;
+    const second = createAdapter().adapter;
+
+    expect(sync.origin).toBeUndefined();
+    await sync.setAdapter(first);
+    const origin = sync.origin;
+    await sync.setAdapter(second);
+    expect(sync.connected).toBe(true);
+    expect(origin).toEqual(expect.any(String));
+    expect(sync.origin).toBe(origin);
+    await sync.setAdapter(undefined);
+
+    expect(sync.connected).toBe(false);
+    expect(first.disconnect).toHaveBeenCalledTimes(1);
+    expect(second.connect).toHaveBeenCalledTimes(1);
+    expect(second.disconnect).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('InMemoryMarkupSyncChannel', () => {
+  it('should deliver serialized copies of the changes to the other adapters', () => {
+    const channel = new InMemoryMarkupSyncChannel();
+    const sender = channel.createAdapter();
+    const receiver = channel.createAdapter();
+    const disconnected = channel.createAdapter();
+    const sent = vi.fn();
+    const received = vi.fn();
+    const ignored = vi.fn();
+    sender.connect(sent);
+    receiver.connect(received);
+    disconnected.connect(ignored);
+    disconnected.disconnect();
+
+    const change = createChange();
+    sender.push(change);
+
+    expect(sent).not.toHaveBeenCalled();
+    expect(ignored).not.toHaveBeenCalled();
+    expect(received).toHaveBeenCalledWith(change);
+    expect(received.mock.calls[0][0]).not.toBe(change);
+    expect(channel.changes).toEqual([change]);
+  });
+});
@@ -0,0 +1,166 @@
+import { createUuid, Uuid } from '@ts3d-hoops/web-viewer';
+import { isMarkupSyncChange, MarkupSyncAdapter, MarkupSyncChange, MarkupSyncScope } from './types';
+
+type MarkupVersion = {
+  timestamp: number;
+  origin: string;
+};
+
+/**
+ * Synchronizes the markups of a service with the other viewers through a `MarkupSyncAdapter`.
+ *
+ * The service pushes the markups it changes, and applies the changes received from the other
+ * viewers with the `apply` function. The last change of a markup wins: a received change is
+ * ignored when the markup has a more recent version, so applying the changes is idempotent.
+ * The changes of a markup pushed while a received change of that markup is applied are ignored,
+ * they are its echo; the changes of the other markups are still pushed.
+ */
+export default class MarkupSync {
+  private _origin?: string;
+
+  private adapter?: MarkupSyncAdapter;
+
+  /**
+   * The version of each markup, from the last change applied or pushed.
+   */
+  private versions = new Map<Uuid, MarkupVersion>();
+
+  /**
+   * The serialized markups of the last changes, to skip the changes that change nothing.
+   */
+  private snapshots = new Map<Uuid, string>();
+
+  /**
+   * The last timestamp, the timestamps of the pushed changes are greater than the ones of the
+   * received changes even if the clock of this viewer is late.
+   */
+  private clock = 0;
+
+  /**
+   * The markups whose received change is being applied.
+   */
+  private applying = new Set<Uuid>();
+
+  /**
+   * The received changes are applied one at a time, in the order they are received.
+   */
+  private queue = Promise.resolve();
+
+  /**
+   * @param scope the kind of markups synchronized.
+   * @param apply the function applying a received change to the viewer.
+   */
+  constructor(
+    private readonly scope: MarkupSyncScope,
+    private readonly apply: (change: MarkupSyncChange) => Promise<void>,
+  ) {}
+
+  /**
+   * The id of this viewer in the changes, created when the first adapter is connected.
+   */
+  public get origin(): string | undefined {
+    return this._origin;
+  }
+
+  /**
+   * Whether an adapter is connected, the markups need not be serialized otherwise.
+   */
+  public get connected(): boolean {
+    return this.adapter !== undefined;
+  }
+
+  /**
+   * Disconnects the current adapter and connects the new one.
+   *
+   * @param adapter the new adapter, undefined to stop the synchronization.
+   */
+  public async setAdapter(adapter: MarkupSyncAdapter | undefined): Promise<void> {
+    const previous = this.adapter;
+    this.adapter = undefined;
+    await previous?.disconnect();
+
+    if (adapter) {
+      this._origin ??= createUuid();
+      await adapter.connect((change) => this.receive(change));
+      this.adapter = adapter;
+    }
+  }
+
+  /**
+   * Sends the state of a markup to the other viewers.
+   *
+   * @param markupId the id of the markup.
+   * @param data the serialized markup, null if it has been removed.
+   */
+  public push(markupId: Uuid, data: object | null): void {
+    if (!this.adapter || this.applying.has(markupId)) {
+      return;
+    }
+
+    const snapshot = JSON.stringify(data);
+    if (this.snapshots.get(markupId) === snapshot) {
+      return;
+    }
+
+    this.clock = Math.max(this.clock + 1, Date.now());
+    const change: MarkupSyncChange = {
+      id: createUuid(),
+      scope: this.scope,
+      markupId,
+      origin: this._origin!,
+      timestamp: this.clock,
+      data,
+    };
+    this.record(change, snapshot);
+
+    Promise.resolve(this.adapter.push(change)).catch((error) => {
+      console.error('Failed to push the markup change:', error);
+    });
+  }
+
+  private receive(change: unknown): void {
+    if (!isMarkupSyncChange(change)) {
+      console.warn('Invalid markup change received', change);
+      return;
+    }
+
+    if (change.scope !== this.scope || change.origin === this.origin) {
+      return;
+    }
+
+    this.queue = this.queue.then(async () => {
+      if (!this.isNewer(change)) {
+        return;
+      }
+
+      this.record(change, JSON.stringify(change.data));
+      this.clock = Math.max(this.clock, change.timestamp);
+      this.applying.add(change.markupId);
+      try {
+        await this.apply(change);
+      } catch (error) {
+        console.error('Failed to apply the markup change:', error);
+      } finally {
+        this.applying.delete(change.markupId);
+      }
+    });
+  }
+
+  /**
+   * Whether a change is more recent than the version of its markup, the ties are broken by the
+   * origin so that all the viewers keep the same change.
+   */
+  private isNewer(change: MarkupSyncChange): boolean {
+    const version = this.versions.get(change.markupId);
+    return (
+      !version ||
+      change.timestamp > version.timestamp ||
+      (change.timestamp === version.timestamp && change.origin > version.origin)
+    );
+  }
+
+  private record(change: MarkupSyncChange, snapshot: string): void {
+    this.versions.set(change.markupId, { timestamp: change.timestamp, origin: change.origin });
+    this.snapshots.set(change.markupId, snapshot);
+  }
+}
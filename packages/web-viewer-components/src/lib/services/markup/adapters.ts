@@ -0,0 +1,103 @@
+import { MarkupSyncAdapter, MarkupSyncChange } from './types';
+
+/**
+ * Synchronizes the markups between the tabs of a browser displaying the same model.
+ *
+ * @example
+ * ```typescript
+ * await redlineService.setSyncAdapter(new BroadcastChannelMarkupSyncAdapter('model-42'));
+ * await noteTextService.setSyncAdapter(new BroadcastChannelMarkupSyncAdapter('model-42'));
+ * ```
+ */
+export class BroadcastChannelMarkupSyncAdapter implements MarkupSyncAdapter {
+  private channel?: BroadcastChannel;
+
+  /**
+   * @param channelName the name of the channel, the tabs sharing a name share their markups.
+   */
+  constructor(public readonly channelName = 'hoops-markups') {}
+
+  connect(receive: (change: MarkupSyncChange) => void): void {
+    this.disconnect();
+    this.channel = new BroadcastChannel(this.channelName);
+    this.channel.onmessage = (event: MessageEvent<MarkupSyncChange>) => receive(event.data);
+  }
+
+  push(change: MarkupSyncChange): void {
+    if (!this.channel) {
+      throw new Error('BroadcastChannelMarkupSyncAdapter is not connected');
+    }
+
+    this.channel.postMessage(change);
+  }
+
+  disconnect(): void {
+    this.channel?.close();
+    this.channel = undefined;
+  }
+}
+
+/**
+ * Delivers the changes pushed by the adapters it creates to the other ones, as a backend would.
+ * It keeps the changes it delivers.
+ */
+export class InMemoryMarkupSyncChannel {
+  /**
+   * The changes pushed to the channel, in order.
+   */
+  public readonly changes: MarkupSyncChange[] = [];
+
+  private receivers = new Map<InMemoryMarkupSyncAdapter, (change: MarkupSyncChange) => void>();
+
+  createAdapter(): InMemoryMarkupSyncAdapter {
+    return new InMemoryMarkupSyncAdapter(this);
+  }
+
+  /** @internal */
+  connect(adapter: InMemoryMarkupSyncAdapter, receive: (change: MarkupSyncChange) => void) {
+    this.receivers.set(adapter, receive);
+  }
+
+  /** @internal */
+  disconnect(adapter: InMemoryMarkupSyncAdapter) {
+    this.receivers.delete(adapter);
+  }
+
+  /** @internal */
+  deliver(sender: InMemoryMarkupSyncAdapter, change: MarkupSyncChange) {
+    this.changes.push(change);
+    for (const [adapter, receive] of this.receivers) {
+      if (adapter !== sender) {
+        // The changes are serialized on the way, as with a real transport
+        receive(JSON.parse(JSON.stringify(change)));
+      }
+    }
+  }
+}
+
+/**
+ * Synchronizes the markups through an `InMemoryMarkupSyncChannel`, to test the synchronization
+ * of several services without a backend.
+ *
+ * @example
+ * ```typescript
+ * const channel = new InMemoryMarkupSyncChannel();
+ * await firstRedlineService.setSyncAdapter(channel.createAdapter());
+ * await secondRedlineService.setSyncAdapter(channel.createAdapter());
+ * ```
+ */
+export class InMemoryMarkupSyncAdapter implements MarkupSyncAdapter {
+  constructor(private readonly channel: InMemoryMarkupSyncChannel) {}
+
+  connect(receive: (change: MarkupSyncChange) => void): void {
+    this.channel.connect(this, receive);
+  }
+
+  push(change: MarkupSyncChange): void {
+    this.channel.deliver(this, change);
+  }
+
+  disconnect(): void {
+    this.channel.disconnect(this);
+  }
+}
@@ -1 +1,5 @@
+export { default } from './MarkupService';
+export * from './MarkupService';
 export * from './types';
+export * from './utils';
+export * from './adapters';
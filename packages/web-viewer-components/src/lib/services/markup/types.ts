@@ -1,4 +1,11 @@
-import { Uuid } from '@ts3d-hoops/web-viewer';
+import { NodeId, Uuid } from '@ts3d-hoops/web-viewer';
+import { IService } from '../types';
+import {
+  type NoteTextComment,
+  type NoteTextReview,
+  type NoteTextStatus,
+  NoteTextStatuses,
+} from '../notetext/types';
 
 export interface MarkupItemData {
   id: Uuid;
@@ -9,3 +16,335 @@ export interface MarkupViewData {
   id: Uuid;
   items: MarkupItemData[];
 }
+
+export const MarkupItemKinds = ['circle', 'rectangle', 'polyline', 'text', 'note'] as const;
+
+/**
+ * The kind of a markup item: the redline shapes, the redline texts and the note texts.
+ */
+export type MarkupItemKind = (typeof MarkupItemKinds)[number];
+
+/**
+ * The criteria of the markup queries, the items match all the criteria set.
+ */
+export type MarkupItemQuery = {
+  /** The kinds of the matching items, all the kinds by default. */
+  kinds?: MarkupItemKind[];
+  /** A text contained in the matching items, ignoring the case. */
+  text?: string;
+};
+
+/**
+ * The version of the markup document schema produced by `exportMarkups`.
+ * It is incremented whenever the schema changes in a way that is not backward compatible.
+ */
+export const MarkupDocumentVersion = 1 as const;
+
+/**
+ * A JSON friendly representation of a 3D point.
+ */
+export type MarkupDocumentPoint3 = {
+  x: number;
+  y: number;
+  z: number;
+};
+
+/**
+ * A redline view with its camera and its items.
+ */
+export type MarkupDocumentRedlineView = {
+  id: Uuid;
+  name: string;
+  /** The camera of the view, as serialized by `Camera.toJson`. */
+  camera: object;
+  items: MarkupItemData[];
+  /** The ids of the items hidden when the markups were exported. */
+  hiddenItemIds?: Uuid[];
+  /** The view, as serialized by the markup manager of the web viewer. */
+  data: object;
+};
+
+/**
+ * A note text with the node and the position it is anchored to, and its review data.
+ */
+export type MarkupDocumentNoteText = {
+  id: Uuid;
+  text: string;
+  nodeId: NodeId;
+  position: MarkupDocumentPoint3;
+  /** The review status of the note, open when not set. */
+  status?: NoteTextStatus;
+  assignee?: string;
+  comments?: NoteTextComment[];
+  /** The note, as serialized by the markup manager of the web viewer. */
+  data: object;
+};
+
+/**
+ * A measurement, `MeasureMarkup` item of the measure manager.
+ */
+export type MarkupDocumentMeasurement = {
+  id: Uuid;
+  type: string;
+  name: string;
+  /** The measurement, as serialized by the markup manager of the web viewer. */
+  data: object;
+};
+
+/**
+ * The markups of a model that can be stored as JSON, alongside the model, and imported later.
+ *
+ * The descriptive properties of the items can be read without the viewer, the items are
+ * restored from their `data`.
+ */
+export type MarkupDocument = {
+  version: typeof MarkupDocumentVersion;
+  /** The date of the export, in ISO 8601 format. */
+  exportedAt: string;
+  redlineViews: MarkupDocumentRedlineView[];
+  noteTexts: MarkupDocumentNoteText[];
+  measurements: MarkupDocumentMeasurement[];
+};
+
+/**
+ * How `importMarkups` treats the markups already in the viewer:
+ * - `merge` keeps them and skips the imported items with the same id
+ * - `replace` removes them before importing the document
+ */
+export type MarkupImportMode = 'merge' | 'replace';
+
+export type MarkupImportOptions = {
+  mode?: MarkupImportMode;
+};
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isArrayOf<T>(value: unknown, guard: (value: unknown) => value is T): value is T[] {
+  return Array.isArray(value) && value.every(guard);
+}
+
+export function isMarkupDocumentPoint3(obj: unknown): obj is MarkupDocumentPoint3 {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as MarkupDocumentPoint3;
+  return isNumber(value.x) && isNumber(value.y) && isNumber(value.z);
+}
+
+export function isMarkupItemData(obj: unknown): obj is MarkupItemData {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as MarkupItemData;
+  return isString(value.id) && isString(value.type);
+}
+
+export function isMarkupDocumentRedlineView(obj: unknown): obj is MarkupDocumentRedlineView {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as MarkupDocumentRedlineView;
+  return (
+    isString(value.id) &&
+    isString(value.name) &&
+    isObject(value.camera) &&
+    isArrayOf(value.items, isMarkupItemData) &&
+    (value.hiddenItemIds === undefined || isArrayOf(value.hiddenItemIds, isString)) &&
+    isObject(value.data)
+  );
+}
+
+export function isNoteTextComment(obj: unknown): obj is NoteTextComment {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as NoteTextComment;
+  return (
+    isString(value.id) &&
+    isString(value.author) &&
+    isString(value.timestamp) &&
+    isString(value.message)
+  );
+}
+
+export function isNoteTextReview(obj: unknown): obj is NoteTextReview {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as NoteTextReview;
+  return (
+    NoteTextStatuses.includes(value.status) &&
+    (value.assignee === undefined || isString(value.assignee)) &&
+    isArrayOf(value.comments, isNoteTextComment)
+  );
+}
+
+export function isMarkupDocumentNoteText(obj: unknown): obj is MarkupDocumentNoteText {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as MarkupDocumentNoteText;
+  return (
+    isString(value.id) &&
+    isString(value.text) &&
+    isNumber(value.nodeId) &&
+    isMarkupDocumentPoint3(value.position) &&
+    (value.status === undefined || NoteTextStatuses.includes(value.status)) &&
+    (value.assignee === undefined || isString(value.assignee)) &&
+    (value.comments === undefined || isArrayOf(value.comments, isNoteTextComment)) &&
+    isObject(value.data)
+  );
+}
+
+export function isMarkupDocumentMeasurement(obj: unknown): obj is MarkupDocumentMeasurement {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as MarkupDocumentMeasurement;
+  return isString(value.id) && isString(value.type) && isString(value.name) && isObject(value.data);
+}
+
+/**
+ * Type guard function to validate MarkupDocument objects.
+ *
+ * Checks the schema version and the structure of every item, so that a document loaded from a
+ * backend can be safely imported.
+ *
+ * @param obj - The object to validate
+ * @returns True if the object is a valid MarkupDocument, false otherwise
+ *
+ * @example
+ * ```typescript
+ * const document: unknown = await response.json();
+ *
+ * if (isMarkupDocument(document)) {
+ *   await markupService.importMarkups(document, { mode: 'replace' });
+ * }
+ * ```
+ */
+export function isMarkupDocument(obj: unknown): obj is MarkupDocument {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as MarkupDocument;
+  return (
+    value.version === MarkupDocumentVersion &&
+    isString(value.exportedAt) &&
+    isArrayOf(value.redlineViews, isMarkupDocumentRedlineView) &&
+    isArrayOf(value.noteTexts, isMarkupDocumentNoteText) &&
+    isArrayOf(value.measurements, isMarkupDocumentMeasurement)
+  );
+}
+
+/**
+ * The markups synchronized between the viewers: the redline views with their items, and the note
+ * texts with their review data.
+ */
+export type MarkupSyncScope = 'redline-view' | 'note-text';
+
+/**
+ * A change of a markup, sent to the other viewers by a `MarkupSyncAdapter`.
+ *
+ * The changes hold the whole markup rather than the edit, the last change of a markup wins, so
+ * that a change can be received several times or out of order.
+ */
+export type MarkupSyncChange = {
+  /** A unique id of the change. */
+  id: string;
+  scope: MarkupSyncScope;
+  /** The id of the changed redline view or note text. */
+  markupId: Uuid;
+  /** The id of the viewer the change comes from. */
+  origin: string;
+  /** The time of the change, in milliseconds, to order the changes of a markup. */
+  timestamp: number;
+  /** The serialized markup, null when it has been removed. */
+  data: object | null;
+};
+
+/**
+ * The transport of the markup changes between the viewers, e.g. a WebSocket to a backend
+ * broadcasting the changes to the viewers of a model.
+ *
+ * An adapter is connected to a single service.
+ *
+ * @interface MarkupSyncAdapter
+ */
+export interface MarkupSyncAdapter {
+  /**
+   * Starts receiving the changes of the other viewers.
+   *
+   * @param receive - The function to call with each received change
+   */
+  connect(receive: (change: MarkupSyncChange) => void): void | Promise<void>;
+
+  /**
+   * Sends a local change to the other viewers.
+   *
+   * @param change - The change, a JSON serializable object
+   */
+  push(change: MarkupSyncChange): void | Promise<void>;
+
+  /**
+   * Stops sending and receiving the changes.
+   */
+  disconnect(): void | Promise<void>;
+}
+
+export function isMarkupSyncChange(obj: unknown): obj is MarkupSyncChange {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as MarkupSyncChange;
+  return (
+    isString(value.id) &&
+    (value.scope === 'redline-view' || value.scope === 'note-text') &&
+    isString(value.markupId) &&
+    isString(value.origin) &&
+    isNumber(value.timestamp) &&
+    (value.data === null || isObject(value.data))
+  );
+}
+
+/**
+ * Service interface to share the markups of a model between users.
+ *
+ * @interface IMarkupService
+ * @extends IService
+ */
+export interface IMarkupService extends IService {
+  /**
+   * Exports the redline views, note texts and measurements of the viewer.
+   *
+   * @returns A JSON serializable document
+   */
+  exportMarkups(): MarkupDocument;
+
+  /**
+   * Imports the markups of a document.
+   *
+   * @param document - The document to import, validated with `isMarkupDocument`
+   * @param options - Whether the markups of the viewer are kept, the default, or replaced
+   * @returns A promise that resolves when the markups are loaded
+   */
+  importMarkups(document: unknown, options?: MarkupImportOptions): Promise<void>;
+}
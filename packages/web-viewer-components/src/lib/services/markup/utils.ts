@@ -0,0 +1,33 @@
+import { MarkupItemKind, MarkupItemQuery } from './types';
+
+/**
+ * Whether a markup item matches the criteria of a query.
+ *
+ * @param kind the kind of the item.
+ * @param text the text of the item, if it has one.
+ * @param query the criteria to match.
+ * @returns true if the item matches all the criteria set.
+ */
+export function matchesMarkupItemQuery(
+  kind: MarkupItemKind | undefined,
+  text: string | undefined,
+  query: MarkupItemQuery,
+): boolean {
+  if (query.kinds && (!kind || !query.kinds.includes(kind))) {
+    return false;
+  }
+
+  const search = query.text?.trim().toLowerCase();
+  if (search && !text?.toLowerCase().includes(search)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Whether a query filters the markup items, a query without criteria matches every item.
+ */
+export function isMarkupItemQueryFiltering(query: MarkupItemQuery): boolean {
+  return query.kinds !== undefined || !!query.text?.trim();
+}
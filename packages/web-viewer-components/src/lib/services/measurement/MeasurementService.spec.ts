@@ -1,6 +1,10 @@
-import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, Mock } from 'vitest';
 import MeasurementService from './MeasurementService';
-import { Color, MeasureManager } from '@ts3d-hoops/web-viewer';
+import { registerService, unregisterService } from '../serviceRegistry';
+import UndoService from '../undo';
+import { MeasureAreaVolumeMarkup, MeasureRadiusMarkup } from './markups';
+import { isToolMeasureMarkupData } from './types';
+import { Color, MeasureManager, OperatorId, Point2, Point3 } from '@ts3d-hoops/web-viewer';
 import { Operators } from '@ts3d-hoops/web-viewer';
 
 type MeasureMarkup = Operators.Markup.Measure.MeasureMarkup;
@@ -9,12 +13,20 @@ describe('MeasurementService', () => {
   let measurementService: MeasurementService;
   let mockMeasureManager: MeasureManager & { _capturedCallbacks?: Record<string, Function> };
   let mockMeasurement: MeasureMarkup;
+  let viewElement: HTMLElement;
+
+  const click = (x: number, y: number, releaseX = x) => {
+    viewElement.dispatchEvent(new MouseEvent('pointerdown', { clientX: x, clientY: y }));
+    viewElement.dispatchEvent(new MouseEvent('pointerup', { clientX: releaseX, clientY: y }));
+  };
 
   /**
    * Set up common test fixtures before each test
    * Creates mock objects for MeasureManager and MeasureMarkup
    */
   beforeEach(() => {
+    viewElement = document.createElement('div');
+
     // Create a mock MeasureManager with essential methods for testing
     // We use a _capturedCallbacks property to store the callbacks for testing
     mockMeasureManager = {
@@ -23,8 +35,12 @@ describe('MeasurementService', () => {
           // Store callbacks for later testing
           mockMeasureManager._capturedCallbacks = callbacks;
         }),
+        getViewElement: vi.fn(() => viewElement),
+        registerCustomOperator: vi.fn(() => 100),
+        unregisterCustomOperator: vi.fn(),
       },
       removeMeasurement: vi.fn(),
+      addMeasurement: vi.fn(),
       getAllMeasurements: vi.fn().mockReturnValue([]),
       getMeasurementColor: vi.fn().mockReturnValue(Color.black()),
       setMeasurementColor: vi.fn(),
@@ -171,6 +187,21 @@ describe('MeasurementService', () => {
       expect(mockMeasureManager.removeMeasurement).toHaveBeenCalledOnce();
       expect(mockMeasureManager.removeMeasurement).toHaveBeenCalledWith(mockMeasurement);
     });
+
+    it('should add the measurement back when the removal is undone', async () => {
+      const undoService = new UndoService();
+      registerService(undoService);
+
+      measurementService.removeMeasurement(mockMeasurement);
+      await undoService.undo();
+
+      expect(mockMeasureManager.addMeasurement).toHaveBeenCalledWith(mockMeasurement);
+
+      await undoService.redo();
+
+      expect(mockMeasureManager.removeMeasurement).toHaveBeenCalledTimes(2);
+      unregisterService('UndoService');
+    });
   });
 
   describe('get measurements', () => {
@@ -251,6 +282,8 @@ describe('MeasurementService', () => {
       const secondMockManager = {
         viewer: {
           setCallbacks: vi.fn(),
+          getViewElement: vi.fn(() => document.createElement('div')),
+          registerCustomOperator: vi.fn(() => 200),
         },
         removeMeasurement: vi.fn(),
         getAllMeasurements: vi.fn().mockReturnValue([]),
@@ -368,4 +401,383 @@ describe('MeasurementService', () => {
       );
     });
   });
+
+  describe('unit configuration', () => {
+    let measurement: MeasureMarkup;
+
+    beforeEach(() => {
+      measurement = Object.assign(
+        Object.create(Operators.Markup.Measure.MeasurePointPointDistanceMarkup.prototype),
+        {
+          getMeasurementValue: vi.fn().mockReturnValue(25.4),
+          getMeasurementText: vi.fn().mockReturnValue('25.40 mm'),
+          setMeasurementText: vi.fn(),
+        },
+      );
+      Object.assign(mockMeasureManager.viewer, {
+        model: {
+          getAbsoluteRootNode: () => 0,
+          getNodeUnitMultiplier: () => 1,
+        },
+        markupManager: { refreshMarkup: vi.fn() },
+      });
+      mockMeasureManager.getAllMeasurements = vi.fn().mockReturnValue([measurement]);
+      mockMeasureManager.removeAllMeasurements = vi.fn();
+      measurementService = new MeasurementService(mockMeasureManager);
+    });
+
+    it('should relabel the measurements when the units change', () => {
+      const listener = vi.fn();
+      measurementService.addEventListener('hoops-measurement-units-changed', listener);
+
+      measurementService.setUnitConfiguration({
+        unitSystem: 'imperial',
+        unit: 'in',
+        precision: 'fractional',
+      });
+
+      expect(measurement.setMeasurementText).toHaveBeenLastCalledWith('1 in');
+      expect(listener.mock.calls[0][0].detail).toMatchObject({
+        unitSystem: 'imperial',
+        unit: 'in',
+      });
+
+      measurementService.setUnitConfiguration({ unitSystem: 'model' });
+      expect(measurement.setMeasurementText).toHaveBeenLastCalledWith('25.40 mm');
+    });
+
+    it('should label the created measurements', () => {
+      measurementService.setUnitConfiguration({ unitSystem: 'metric', unit: 'cm', decimals: 1 });
+      vi.mocked(measurement.setMeasurementText).mockClear();
+
+      mockMeasureManager._capturedCallbacks!.measurementCreated(measurement);
+
+      expect(measurement.setMeasurementText).toHaveBeenCalledWith('2.5 cm');
+    });
+
+    it('should reject the units of another unit system', () => {
+      expect(() =>
+        measurementService.setUnitConfiguration({ unitSystem: 'imperial', unit: 'mm' }),
+      ).toThrow('Unit mm is not a imperial unit');
+      expect(() => measurementService.setUnitConfiguration({ decimals: -1 })).toThrow(
+        'Invalid measurement unit configuration',
+      );
+      expect(measurementService.getUnitConfiguration().unitSystem).toBe('model');
+    });
+
+    it('should save and restore the unit configuration', async () => {
+      mockMeasureManager.getMeasurementColor = vi.fn().mockReturnValue(Color.black());
+      measurementService.setUnitConfiguration({ unitSystem: 'metric', unit: 'm' });
+
+      const configuration = await measurementService.getConfiguration();
+      expect(configuration).toMatchObject({ color: '#000000', unitSystem: 'metric', unit: 'm' });
+
+      await measurementService.resetConfiguration({ color: '#000000' });
+      expect(measurementService.getUnitConfiguration()).toMatchObject({
+        unitSystem: 'model',
+        unit: 'mm',
+      });
+
+      await measurementService.resetConfiguration(configuration);
+      expect(measurementService.getUnitConfiguration().unit).toBe('m');
+    });
+  });
+
+  describe('measurement report', () => {
+    let measurement: MeasureMarkup;
+    let angle: MeasureMarkup;
+    let operatorIds: number[];
+
+    beforeEach(() => {
+      measurement = Object.assign(
+        Object.create(Operators.Markup.Measure.MeasurePointPointDistanceMarkup.prototype),
+        {
+          getName: () => 'Point to point',
+          getMeasurementValue: () => 25.4,
+          getMeasurementText: () => '25.40 mm',
+          setMeasurementText: vi.fn(),
+        },
+      );
+      angle = Object.assign(
+        Object.create(Operators.Markup.Measure.MeasureFaceFaceAngleMarkup.prototype),
+        {
+          getName: () => 'Angle',
+          getMeasurementValue: () => 90,
+          getMeasurementText: () => '90.00°',
+          setMeasurementText: vi.fn(),
+        },
+      );
+      operatorIds = [OperatorId.Navigate, OperatorId.MeasurePointPointDistance];
+      Object.assign(mockMeasureManager.viewer, {
+        model: {
+          getAbsoluteRootNode: () => 0,
+          getNodeUnitMultiplier: () => 1,
+          getNodeName: (nodeId: number) => `Part ${nodeId}`,
+        },
+        markupManager: { refreshMarkup: vi.fn() },
+        view: {
+          operatorManager: { indexOf: (id: number) => operatorIds.indexOf(id) },
+          pickFromPoint: vi.fn(async (position: Point2) => ({
+            getNodeId: () => (position.x < 50 ? 4 : 7),
+          })),
+        },
+      });
+      mockMeasureManager.getAllMeasurements = vi.fn().mockReturnValue([measurement, angle]);
+      measurementService = new MeasurementService(mockMeasureManager);
+    });
+
+    it('should record the nodes picked to create the measurements', async () => {
+      click(10, 10);
+      click(80, 10);
+      mockMeasureManager._capturedCallbacks!.measurementCreated(measurement);
+
+      operatorIds = [OperatorId.Navigate];
+      click(10, 10);
+      mockMeasureManager._capturedCallbacks!.measurementCreated(angle);
+      await new Promise((resolve) => setTimeout(resolve));
+
+      const report = measurementService.getMeasurementReport();
+      expect(report.measurements).toEqual([
+        {
+          type: 'point-point',
+          name: 'Point to point',
+          value: 25.4,
+          unit: 'mm',
+          text: '25.40 mm',
+          nodeIds: [4, 7],
+          nodeNames: ['Part 4', 'Part 7'],
+          timestamp: expect.any(String),
+        },
+        expect.objectContaining({ type: 'face-face-angle', value: 90, unit: 'deg', nodeIds: [] }),
+      ]);
+    });
+
+    it('should not record the nodes of the drags and of the abandoned measurements', async () => {
+      // A camera drag
+      click(10, 10, 80);
+      // A measurement abandoned for another measurement operator
+      click(10, 10);
+      operatorIds = [OperatorId.Navigate, OperatorId.MeasureFaceFaceAngle];
+      click(80, 10);
+      click(80, 10);
+      mockMeasureManager._capturedCallbacks!.measurementCreated(angle);
+      await new Promise((resolve) => setTimeout(resolve));
+
+      const [, angleEntry] = measurementService.getMeasurementReport().measurements;
+      expect(angleEntry.nodeIds).toEqual([7]);
+      expect(mockMeasureManager.viewer.view.pickFromPoint).toHaveBeenCalledTimes(3);
+    });
+
+    it('should report the values in the configured units', () => {
+      measurementService.setUnitConfiguration({ unitSystem: 'imperial', unit: 'ft-in' });
+      measurementService.setUnitConfiguration({ angleUnit: 'rad' });
+
+      const [length, angleEntry] = measurementService.getMeasurementReport().measurements;
+      expect(length).toMatchObject({ value: 1, unit: 'in', text: `0' 1.00"` });
+      expect(angleEntry.value).toBeCloseTo(Math.PI / 2);
+      expect(angleEntry.unit).toBe('rad');
+    });
+
+    it('should export the report as CSV and JSON', () => {
+      const csv = measurementService.exportMeasurements('csv').split('\r\n');
+      expect(csv).toHaveLength(3);
+      expect(csv[0]).toBe('type,name,value,unit,text,nodeIds,nodeNames,timestamp');
+      expect(csv[1]).toMatch(/^point-point,Point to point,25.4,mm,25.40 mm,,,/);
+
+      const json = JSON.parse(measurementService.exportMeasurements('json'));
+      expect(json.measurements).toHaveLength(2);
+      expect(json.measurements[1]).toMatchObject({ type: 'face-face-angle', text: '90.00°' });
+    });
+  });
+
+  describe('measurement tools', () => {
+    beforeEach(() => {
+      Object.assign(mockMeasureManager.viewer, {
+        model: {
+          getAbsoluteRootNode: () => 0,
+          getNodeUnitMultiplier: () => 10,
+        },
+        markupManager: { refreshMarkup: vi.fn() },
+      });
+      let operatorId = 100;
+      vi.mocked(mockMeasureManager.viewer.registerCustomOperator).mockImplementation(
+        () => operatorId++,
+      );
+      measurementService = new MeasurementService(mockMeasureManager);
+    });
+
+    it('should register the operators of the tools in the viewer', () => {
+      expect(mockMeasureManager.viewer.registerCustomOperator).toHaveBeenCalledTimes(4);
+      expect(measurementService.getMeasurementToolOperator('radius')).toBe(100);
+      expect(measurementService.getMeasurementToolOperator('area-volume')).toBe(103);
+
+      measurementService.measureManager = {
+        ...mockMeasureManager,
+        viewer: { ...mockMeasureManager.viewer, registerCustomOperator: vi.fn(() => 200) },
+      } as unknown as MeasureManager;
+
+      expect(mockMeasureManager.viewer.unregisterCustomOperator).toHaveBeenCalledTimes(4);
+      expect(mockMeasureManager.viewer.unregisterCustomOperator).toHaveBeenCalledWith(103);
+      expect(measurementService.getMeasurementToolOperator('radius')).toBe(200);
+    });
+
+    it('should label the measurements of the tools', () => {
+      const viewer = mockMeasureManager.viewer;
+      const radius = new MeasureRadiusMarkup(viewer, [4], [new Point3(), new Point3()], 2.5, 'R');
+      const areaVolume = new MeasureAreaVolumeMarkup(viewer, 4, new Point3(), 3, 2);
+
+      mockMeasureManager._capturedCallbacks!.measurementCreated(radius);
+
+      expect(radius.getMeasurementText()).toBe('R 25.00 mm · Ø 50.00 mm');
+      expect(measurementService.formatMeasurement(areaVolume)).toBe('A 300.00 mm² · V 2000.00 mm³');
+
+      measurementService.setUnitConfiguration({ unitSystem: 'metric', unit: 'cm', decimals: 1 });
+      expect(measurementService.formatMeasurement(areaVolume)).toBe('A 3.0 cm² · V 2.0 cm³');
+    });
+
+    it('should report the nodes and values of the measurements of the tools', () => {
+      const viewer = mockMeasureManager.viewer;
+      const areaVolume = new MeasureAreaVolumeMarkup(viewer, 4, new Point3(), 3, 2);
+      Object.assign(viewer.model, { getNodeName: () => 'Bracket' });
+      mockMeasureManager.getAllMeasurements = vi.fn().mockReturnValue([areaVolume]);
+
+      mockMeasureManager._capturedCallbacks!.measurementCreated(areaVolume);
+
+      expect(measurementService.getMeasurementReport().measurements[0]).toMatchObject({
+        type: 'area-volume',
+        name: 'Area and Volume',
+        value: 300,
+        unit: 'mm²',
+        nodeIds: [4],
+        nodeNames: ['Bracket'],
+      });
+    });
+
+    it('should restore the measurements of the tools from their JSON data', () => {
+      const viewer = mockMeasureManager.viewer;
+      const areaVolume = new MeasureAreaVolumeMarkup(viewer, 4, new Point3(1, 2, 3), 3, 2);
+      areaVolume.setName('Bracket');
+      areaVolume.setMeasurementText('A 300.00 mm² · V 2000.00 mm³');
+      const data = JSON.parse(JSON.stringify(areaVolume.toJson()));
+
+      expect(isToolMeasureMarkupData(data)).toBe(true);
+      expect(isToolMeasureMarkupData({ ...data, anchors: [{ x: 1 }] })).toBe(false);
+
+      const restored = measurementService.restoreMeasurement(data);
+
+      expect(restored).toBeInstanceOf(MeasureAreaVolumeMarkup);
+      expect(restored.toJson()).toEqual(data);
+      expect(mockMeasureManager.addMeasurement).toHaveBeenCalledWith(restored);
+      expect(() =>
+        measurementService.restoreMeasurement({
+          ...data,
+          className: 'Hoops.Markup.Measure.Unknown',
+        }),
+      ).toThrow('Unknown measurement class: Hoops.Markup.Measure.Unknown');
+    });
+  });
+
+  describe('measurement actions', () => {
+    let measurement: MeasureMarkup;
+    let undoService: UndoService;
+    let fitNodes: Mock;
+
+    beforeEach(() => {
+      let visible = true;
+      let name = 'Point to point';
+      measurement = Object.assign(
+        Object.create(Operators.Markup.Measure.MeasurePointPointDistanceMarkup.prototype),
+        {
+          getVisibility: () => visible,
+          setVisibility: vi.fn((value: boolean) => (visible = value)),
+          getName: () => name,
+          setName: vi.fn((value: string) => (name = value)),
+          getMeasurementText: () => '10.00 mm',
+          setMeasurementText: vi.fn(),
+        },
+      );
+      fitNodes = vi.fn(async () => undefined);
+      Object.assign(mockMeasureManager.viewer, {
+        markupManager: { refreshMarkup: vi.fn() },
+        view: { fitNodes, fitWorld: vi.fn(async () => undefined) },
+      });
+      measurementService = new MeasurementService(mockMeasureManager);
+      undoService = new UndoService();
+      registerService(undoService);
+    });
+
+    afterEach(() => {
+      unregisterService('UndoService');
+    });
+
+    it('should hide and show a measurement with undo', async () => {
+      const listener = vi.fn();
+      measurementService.addEventListener('hoops-measurement-visibility-changed', listener);
+
+      measurementService.setMeasurementVisibility(measurement, false);
+
+      expect(measurementService.getMeasurementVisibility(measurement)).toBe(false);
+      expect(listener.mock.calls[0][0].detail).toEqual({ measurement, visible: false });
+      expect(mockMeasureManager.viewer.markupManager.refreshMarkup).toHaveBeenCalled();
+
+      await undoService.undo();
+      expect(measurementService.getMeasurementVisibility(measurement)).toBe(true);
+    });
+
+    it('should label a measurement and restore its name', async () => {
+      const listener = vi.fn();
+      measurementService.addEventListener('hoops-measurement-renamed', listener);
+
+      measurementService.setMeasurementName(measurement, '  Flange gap ');
+
+      expect(measurementService.getMeasurementName(measurement)).toBe('Flange gap');
+      expect(measurement.getName()).toBe('Flange gap');
+      expect(listener.mock.calls[0][0].detail).toEqual({ measurement, name: 'Flange gap' });
+
+      measurementService.setMeasurementName(measurement, '');
+      expect(measurementService.getMeasurementName(measurement)).toBeUndefined();
+      expect(measurement.getName()).toBe('Point to point');
+
+      await undoService.undo();
+      expect(measurementService.getMeasurementName(measurement)).toBe('Flange gap');
+    });
+
+    it('should fit the camera to the nodes of a measurement and show it', async () => {
+      Object.assign(mockMeasureManager.viewer.view, {
+        operatorManager: { indexOf: () => 0 },
+        pickFromPoint: vi.fn(async () => ({ getNodeId: () => 4 })),
+      });
+      click(0, 0);
+      mockMeasureManager._capturedCallbacks!.measurementCreated(measurement);
+      await new Promise((resolve) => setTimeout(resolve));
+      measurementService.setMeasurementVisibility(measurement, false);
+      const listener = vi.fn();
+      measurementService.addEventListener('hoops-measurement-focused', listener);
+
+      await measurementService.focusMeasurement(measurement, 0);
+
+      expect(fitNodes).toHaveBeenCalledWith([4], 0);
+      expect(measurementService.getMeasurementVisibility(measurement)).toBe(true);
+      expect(listener).toHaveBeenCalledOnce();
+    });
+
+    it('should fit the camera to the anchors of the measurements of the tools', async () => {
+      const fitBounding = vi.fn(async (_box: unknown) => undefined);
+      Object.assign(mockMeasureManager.viewer.view, { fitBounding });
+      const radius = new MeasureRadiusMarkup(
+        mockMeasureManager.viewer,
+        [4],
+        [new Point3(0, 0, 0), new Point3(5, 0, 0)],
+        5,
+        'Radius',
+      );
+
+      await measurementService.focusMeasurement(radius);
+
+      expect(fitBounding.mock.calls[0][0]).toMatchObject({
+        min: { x: 0, y: 0, z: 0 },
+        max: { x: 5, y: 0, z: 0 },
+      });
+    });
+  });
 });
@@ -1,9 +1,60 @@
-import { CallbackMap, Color, MeasureManager } from '@ts3d-hoops/web-viewer';
-import { IMeasurementService, isMeasurementServiceConfiguration } from './types';
+import {
+  CallbackMap,
+  Color,
+  DefaultTransitionDuration,
+  MeasureManager,
+  NodeId,
+  OperatorId,
+  PickConfig,
+  Point2,
+  SelectionMask,
+} from '@ts3d-hoops/web-viewer';
+import {
+  ImperialLengthUnits,
+  IMeasurementService,
+  isMeasurementServiceConfiguration,
+  MeasurementExportFormat,
+  MeasurementReport,
+  MeasurementReportEntry,
+  MeasurementServiceConfiguration,
+  MeasurementTool,
+  MeasurementUnitConfiguration,
+  MetricLengthUnits,
+  ToolMeasureMarkupData,
+} from './types';
+import {
+  convertLength,
+  formatAngle,
+  formatLength,
+  formatPower,
+  getMeasurementType,
+  getUnitName,
+  measurementReportToCsv,
+} from './utils';
+import { createToolMeasureMarkup, MeasureAreaVolumeMarkup, ToolMeasureMarkup } from './markups';
+import { ClickTolerance, createMeasurementToolOperators } from './operators';
 import { Operators } from '@ts3d-hoops/web-viewer';
+import { tryGetService } from '../serviceRegistry';
+import type { IUndoService } from '../undo';
 
 type MeasureMarkup = Operators.Markup.Measure.MeasureMarkup;
 
+/**
+ * The operators creating measurements, the nodes they pick are recorded with the measurements.
+ */
+const MeasurementOperators: OperatorId[] = [
+  OperatorId.MeasurePointPointDistance,
+  OperatorId.MeasureFaceFaceDistance,
+  OperatorId.MeasureFaceFaceAngle,
+  OperatorId.MeasureEdgeLength,
+];
+
+/**
+ * The most clicks a measurement operator takes to create a measurement, the placement of its
+ * label included. The older picks come from measurements that were not completed.
+ */
+const MaxMeasurementClicks = 3;
+
 export default class MeasurementService extends EventTarget implements IMeasurementService {
   public readonly serviceName = 'MeasurementService' as const;
 
@@ -11,16 +62,82 @@ export default class MeasurementService extends EventTarget implements IMeasurem
 
   private callbackMap: CallbackMap = {};
 
-  public static readonly DefaultConfig = {
+  public static readonly DefaultConfig: MeasurementServiceConfiguration &
+    MeasurementUnitConfiguration = {
     color: '#000000',
+    unitSystem: 'model',
+    unit: 'mm',
+    precision: 'decimal',
+    decimals: 2,
+    fractionDenominator: 16,
+    angleUnit: 'deg',
   };
 
+  private unitConfiguration: MeasurementUnitConfiguration = {
+    unitSystem: MeasurementService.DefaultConfig.unitSystem,
+    unit: MeasurementService.DefaultConfig.unit,
+    precision: MeasurementService.DefaultConfig.precision,
+    decimals: MeasurementService.DefaultConfig.decimals,
+    fractionDenominator: MeasurementService.DefaultConfig.fractionDenominator,
+    angleUnit: MeasurementService.DefaultConfig.angleUnit,
+  };
+
+  /**
+   * The labels of the measurements as created by the viewer, to display them again when switching
+   * back to the model unit system.
+   */
+  private modelTexts = new WeakMap<MeasureMarkup, string>();
+
+  /**
+   * The nodes picked to create the measurements and their creation date.
+   */
+  private measurementDetails = new WeakMap<
+    MeasureMarkup,
+    { nodeIds: NodeId[]; timestamp: string }
+  >();
+
+  /**
+   * The nodes picked by the measurement operator since the last measurement was created.
+   */
+  private pendingNodePicks: Promise<NodeId | null>[] = [];
+
+  /**
+   * The measurement operator the pending nodes were picked with.
+   */
+  private pendingNodePicksOperator?: OperatorId;
+
+  /**
+   * The position of the last press of the left button, to tell the clicks from the drags.
+   */
+  private pressPosition?: Point2;
+
+  /**
+   * The operators of the measurement tools, registered in the viewer of the measure manager.
+   */
+  private toolOperators: Partial<Record<MeasurementTool, OperatorId>> = {};
+
+  /**
+   * The labels given to the measurements by the users.
+   */
+  private measurementNames = new WeakMap<MeasureMarkup, string>();
+
+  /**
+   * The names of the labelled measurements before they were labelled, to restore them.
+   */
+  private defaultNames = new WeakMap<MeasureMarkup, string>();
+
   constructor(measureManager?: MeasureManager) {
     super();
     this._measureManager = measureManager;
 
     this.callbackMap = {
-      measurementCreated: this.callbackToEvent('hoops-measurement-updated').bind(this),
+      measurementCreated: (measurement?: MeasureMarkup) => {
+        if (measurement) {
+          this.recordMeasurementDetails(measurement);
+          this.applyMeasurementText(measurement);
+        }
+        this.callbackToEvent('hoops-measurement-updated')();
+      },
       measurementDeleted: this.callbackToEvent('hoops-measurement-updated').bind(this),
     };
     if (this._measureManager) {
@@ -47,8 +164,17 @@ export default class MeasurementService extends EventTarget implements IMeasurem
 
   private unbind() {
     if (this._measureManager) {
+      const viewer = this._measureManager.viewer;
       // Clear callbacks by setting empty callbacks
-      this._measureManager.viewer.setCallbacks({});
+      viewer.setCallbacks({});
+      const viewElement = viewer.getViewElement();
+      viewElement.removeEventListener('pointerdown', this.onPointerDown, { capture: true });
+      viewElement.removeEventListener('pointerup', this.onPointerUp, { capture: true });
+      this.clearPendingNodePicks();
+      Object.values(this.toolOperators).forEach((operatorId) =>
+        viewer.unregisterCustomOperator(operatorId),
+      );
+      this.toolOperators = {};
     }
   }
 
@@ -57,11 +183,262 @@ export default class MeasurementService extends EventTarget implements IMeasurem
       throw new Error('MarkupManager is not set');
     }
 
-    this._measureManager.viewer.setCallbacks(this.callbackMap);
+    const viewer = this._measureManager.viewer;
+    viewer.setCallbacks(this.callbackMap);
+    // Listen during the capture phase to pick the nodes before the operators handle the event
+    const viewElement = viewer.getViewElement();
+    viewElement.addEventListener('pointerdown', this.onPointerDown, { capture: true });
+    viewElement.addEventListener('pointerup', this.onPointerUp, { capture: true });
+
+    const operators = createMeasurementToolOperators(viewer);
+    for (const [tool, operator] of Object.entries(operators)) {
+      this.toolOperators[tool as MeasurementTool] = viewer.registerCustomOperator(operator);
+    }
+  }
+
+  /**
+   * Gets the operator of a measurement tool, to activate it as the tool operator of the viewer.
+   * @param tool the measurement tool.
+   * @returns the id of the operator, undefined if the measure manager is not set.
+   */
+  getMeasurementToolOperator(tool: MeasurementTool): OperatorId | undefined {
+    return this.toolOperators[tool];
+  }
+
+  /**
+   * Restores a measurement of the measurement tools from the data written by its `toJson`, the
+   * markup manager of the viewer cannot load it.
+   * @param data the data of the measurement.
+   * @returns the measurement, added to the measure manager.
+   */
+  restoreMeasurement(data: ToolMeasureMarkupData): MeasureMarkup {
+    if (!this._measureManager) {
+      throw new Error('MeasureManager is not set');
+    }
+
+    const measurement = createToolMeasureMarkup(this._measureManager.viewer, data);
+    this._measureManager.addMeasurement(measurement);
+    return measurement;
+  }
+
+  private onPointerDown = (event: PointerEvent): void => {
+    this.pressPosition = event.button === 0 ? new Point2(event.clientX, event.clientY) : undefined;
+  };
+
+  /**
+   * Picks the node under the pointer when a measurement operator is active and the left button
+   * is clicked, the drags moving the camera are ignored.
+   */
+  private onPointerUp = (event: PointerEvent): void => {
+    const viewer = this._measureManager?.viewer;
+    const pressPosition = this.pressPosition;
+    this.pressPosition = undefined;
+    if (!viewer) {
+      return;
+    }
+
+    const operatorId = MeasurementOperators.find(
+      (id) => viewer.view.operatorManager.indexOf(id) !== -1,
+    );
+    if (operatorId !== this.pendingNodePicksOperator) {
+      // The measurement started with another operator has been abandoned
+      this.clearPendingNodePicks();
+      this.pendingNodePicksOperator = operatorId;
+    }
+
+    const releasePosition = new Point2(event.clientX, event.clientY);
+    if (
+      operatorId === undefined ||
+      event.button !== 0 ||
+      !pressPosition ||
+      Point2.distance(pressPosition, releasePosition) > ClickTolerance
+    ) {
+      return;
+    }
+
+    const rect = viewer.getViewElement().getBoundingClientRect();
+    const position = new Point2(event.clientX - rect.left, event.clientY - rect.top);
+    this.pendingNodePicks.push(
+      viewer.view
+        .pickFromPoint(position, new PickConfig(SelectionMask.All))
+        .then((selection) => selection.getNodeId())
+        .catch(() => null),
+    );
+    this.pendingNodePicks = this.pendingNodePicks.slice(-MaxMeasurementClicks);
+  };
+
+  private clearPendingNodePicks(): void {
+    this.pendingNodePicks = [];
+    this.pendingNodePicksOperator = undefined;
+  }
+
+  /**
+   * Associates a created measurement with its creation date and the nodes picked to create it.
+   * @param measurement the created measurement.
+   */
+  private recordMeasurementDetails(measurement: MeasureMarkup): void {
+    // The measurements restored by the undo history keep their details
+    if (this.measurementDetails.has(measurement)) {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    if (measurement instanceof ToolMeasureMarkup) {
+      this.measurementDetails.set(measurement, { nodeIds: measurement.nodeIds, timestamp });
+      return;
+    }
+
+    const details = { nodeIds: [] as NodeId[], timestamp };
+    this.measurementDetails.set(measurement, details);
+
+    const picks = this.pendingNodePicks;
+    this.pendingNodePicks = [];
+    Promise.all(picks).then((nodeIds) => {
+      details.nodeIds = [...new Set(nodeIds.filter((nodeId): nodeId is NodeId => nodeId !== null))];
+    });
   }
 
+  /**
+   * Removes a measurement, the removal is recorded in the UndoService when it is registered.
+   * @param measurement the measurement to remove.
+   */
   removeMeasurement(measurement: MeasureMarkup): void {
-    this._measureManager?.removeMeasurement(measurement);
+    const measureManager = this._measureManager;
+    if (!measureManager) {
+      return;
+    }
+
+    measureManager.removeMeasurement(measurement);
+    tryGetService<IUndoService>('UndoService')?.record({
+      label: 'Remove measurement',
+      undo: () => measureManager.addMeasurement(measurement),
+      redo: () => measureManager.removeMeasurement(measurement),
+    });
+  }
+
+  getMeasurementVisibility(measurement: MeasureMarkup): boolean {
+    return measurement.getVisibility();
+  }
+
+  /**
+   * Shows or hides a measurement, the change is recorded in the UndoService when it is registered.
+   * @param measurement the measurement to show or hide.
+   * @param visible whether the measurement is displayed.
+   */
+  setMeasurementVisibility(measurement: MeasureMarkup, visible: boolean): void {
+    const previous = measurement.getVisibility();
+    if (previous === visible) {
+      return;
+    }
+
+    this.applyMeasurementVisibility(measurement, visible);
+    tryGetService<IUndoService>('UndoService')?.record({
+      label: visible ? 'Show measurement' : 'Hide measurement',
+      undo: () => this.applyMeasurementVisibility(measurement, previous),
+      redo: () => this.applyMeasurementVisibility(measurement, visible),
+    });
+  }
+
+  private applyMeasurementVisibility(measurement: MeasureMarkup, visible: boolean): void {
+    measurement.setVisibility(visible);
+    this._measureManager?.viewer.markupManager.refreshMarkup();
+
+    this.dispatchEvent(
+      new CustomEvent('hoops-measurement-visibility-changed', {
+        bubbles: true,
+        composed: true,
+        detail: { measurement, visible },
+      }),
+    );
+    this.callbackToEvent('hoops-measurement-updated')();
+  }
+
+  /**
+   * Gets the label given to a measurement with `setMeasurementName`.
+   * @param measurement the measurement.
+   * @returns the label of the measurement, undefined if it has not been named.
+   */
+  getMeasurementName(measurement: MeasureMarkup): string | undefined {
+    return this.measurementNames.get(measurement);
+  }
+
+  /**
+   * Labels a measurement, the change is recorded in the UndoService when it is registered.
+   * @param measurement the measurement to label.
+   * @param name the label, an empty label removes it.
+   */
+  setMeasurementName(measurement: MeasureMarkup, name: string): void {
+    const previous = this.measurementNames.get(measurement) ?? '';
+    const trimmedName = name.trim();
+    if (previous === trimmedName) {
+      return;
+    }
+
+    this.applyMeasurementName(measurement, trimmedName);
+    tryGetService<IUndoService>('UndoService')?.record({
+      label: 'Rename measurement',
+      undo: () => this.applyMeasurementName(measurement, previous),
+      redo: () => this.applyMeasurementName(measurement, trimmedName),
+    });
+  }
+
+  private applyMeasurementName(measurement: MeasureMarkup, name: string): void {
+    if (!this.defaultNames.has(measurement)) {
+      this.defaultNames.set(measurement, measurement.getName());
+    }
+
+    if (name) {
+      this.measurementNames.set(measurement, name);
+    } else {
+      this.measurementNames.delete(measurement);
+    }
+    measurement.setName(name || (this.defaultNames.get(measurement) ?? ''));
+
+    this.dispatchEvent(
+      new CustomEvent('hoops-measurement-renamed', {
+        bubbles: true,
+        composed: true,
+        detail: { measurement, name },
+      }),
+    );
+    this.callbackToEvent('hoops-measurement-updated')();
+  }
+
+  /**
+   * Moves the camera to fit a measurement, the measurement is shown if it is hidden.
+   * The measurements of the viewer operators are fitted through the nodes picked to create them,
+   * the whole model is fitted when they are unknown.
+   * @param measurement the measurement to focus.
+   * @param duration the duration of the camera transition in milliseconds.
+   * @returns a promise that resolves when the camera transition is done.
+   */
+  async focusMeasurement(
+    measurement: MeasureMarkup,
+    duration = DefaultTransitionDuration,
+  ): Promise<void> {
+    if (!this._measureManager) {
+      throw new Error('MeasureManager is not set');
+    }
+
+    this.setMeasurementVisibility(measurement, true);
+
+    const view = this._measureManager.viewer.view;
+    const nodeIds = this.measurementDetails.get(measurement)?.nodeIds ?? [];
+    if (measurement instanceof ToolMeasureMarkup) {
+      await view.fitBounding(measurement.getBounding(), duration);
+    } else if (nodeIds.length > 0) {
+      await view.fitNodes(nodeIds, duration);
+    } else {
+      await view.fitWorld(duration);
+    }
+
+    this.dispatchEvent(
+      new CustomEvent('hoops-measurement-focused', {
+        bubbles: true,
+        composed: true,
+        detail: { measurement },
+      }),
+    );
   }
 
   get measurements(): MeasureMarkup[] {
@@ -111,6 +488,176 @@ export default class MeasurementService extends EventTarget implements IMeasurem
     );
   }
 
+  getUnitConfiguration(): MeasurementUnitConfiguration {
+    return { ...this.unitConfiguration };
+  }
+
+  /**
+   * Changes the units of the measurement labels and relabels the existing measurements.
+   * @param configuration the properties to change, the others are left unchanged.
+   */
+  setUnitConfiguration(configuration: Partial<MeasurementUnitConfiguration>): void {
+    const unitConfiguration = { ...this.unitConfiguration, ...configuration };
+    if (!isMeasurementServiceConfiguration({ color: '', ...unitConfiguration })) {
+      throw new Error('Invalid measurement unit configuration');
+    }
+
+    const units: readonly string[] =
+      unitConfiguration.unitSystem === 'imperial' ? ImperialLengthUnits : MetricLengthUnits;
+    if (unitConfiguration.unitSystem !== 'model' && !units.includes(unitConfiguration.unit)) {
+      throw new Error(
+        `Unit ${unitConfiguration.unit} is not a ${unitConfiguration.unitSystem} unit`,
+      );
+    }
+
+    this.unitConfiguration = unitConfiguration;
+    this.measurements.forEach((measurement) => this.applyMeasurementText(measurement));
+
+    this.dispatchEvent(
+      new CustomEvent('hoops-measurement-units-changed', {
+        bubbles: true,
+        composed: true,
+        detail: this.getUnitConfiguration(),
+      }),
+    );
+    this.callbackToEvent('hoops-measurement-updated')();
+  }
+
+  /**
+   * Formats the value of a measurement with the unit configuration.
+   * @param measurement the measurement to format.
+   * @returns the label of the measurement.
+   */
+  formatMeasurement(measurement: MeasureMarkup): string {
+    if (measurement instanceof Operators.Markup.Measure.MeasureFaceFaceAngleMarkup) {
+      return formatAngle(measurement.getMeasurementValue(), this.unitConfiguration);
+    }
+
+    if (measurement instanceof ToolMeasureMarkup) {
+      return this.formatToolMeasurement(measurement);
+    }
+
+    if (this.unitConfiguration.unitSystem === 'model' || !this._measureManager) {
+      return this.modelTexts.get(measurement) ?? measurement.getMeasurementText();
+    }
+
+    return formatLength(this.getMillimeters(measurement), this.unitConfiguration);
+  }
+
+  /**
+   * Formats the measurements of the measurement tools, the viewer does not label them in model
+   * units so they are labelled in millimeters in the `model` unit system.
+   */
+  private formatToolMeasurement(measurement: ToolMeasureMarkup): string {
+    const configuration: MeasurementUnitConfiguration =
+      this.unitConfiguration.unitSystem === 'model'
+        ? { ...this.unitConfiguration, unit: 'mm', precision: 'decimal' }
+        : this.unitConfiguration;
+
+    if (measurement instanceof MeasureAreaVolumeMarkup) {
+      const area = formatPower(this.getMillimeters(measurement, 2), 2, configuration);
+      const volume = formatPower(
+        measurement.volume * this.getUnitMultiplier() ** 3,
+        3,
+        configuration,
+      );
+      return `A ${area} · V ${volume}`;
+    }
+
+    const length = this.getMillimeters(measurement);
+    if (measurement.tool === 'radius') {
+      return `R ${formatLength(length, configuration)} · Ø ${formatLength(
+        2 * length,
+        configuration,
+      )}`;
+    }
+
+    return formatLength(length, configuration);
+  }
+
+  /**
+   * The number of millimeters of a model unit.
+   */
+  private getUnitMultiplier(): number {
+    const model = this._measureManager?.viewer.model;
+    return model ? model.getNodeUnitMultiplier(model.getAbsoluteRootNode()) : 1;
+  }
+
+  /**
+   * Converts the value of a measurement, in model units, to millimeters.
+   * @param dimension 1 for a length, 2 for an area.
+   */
+  private getMillimeters(measurement: MeasureMarkup, dimension = 1): number {
+    return measurement.getMeasurementValue() * this.getUnitMultiplier() ** dimension;
+  }
+
+  /**
+   * Describes the measurements with their value in the unit configuration of the service.
+   * @returns the report of the measurements.
+   */
+  getMeasurementReport(): MeasurementReport {
+    const exportedAt = new Date().toISOString();
+    const model = this._measureManager?.viewer.model;
+    const { unitSystem, unit, angleUnit } = this.unitConfiguration;
+
+    return {
+      exportedAt,
+      measurements: this.measurements.map((measurement): MeasurementReportEntry => {
+        const type = getMeasurementType(measurement);
+        let value = measurement.getMeasurementValue();
+        let valueUnit: string = angleUnit;
+        if (type === 'face-face-angle') {
+          value = angleUnit === 'rad' ? (value * Math.PI) / 180 : value;
+        } else {
+          const dimension = type === 'area-volume' ? 2 : 1;
+          const reportUnit = unitSystem === 'model' ? 'mm' : unit;
+          value = convertLength(this.getMillimeters(measurement, dimension), reportUnit, dimension);
+          valueUnit = getUnitName(reportUnit, dimension);
+        }
+
+        const details = this.measurementDetails.get(measurement);
+        const nodeIds = details?.nodeIds ?? [];
+        return {
+          type,
+          name: measurement.getName(),
+          value,
+          unit: valueUnit,
+          text: this.formatMeasurement(measurement),
+          nodeIds,
+          nodeNames: nodeIds.map((nodeId) => model?.getNodeName(nodeId) ?? ''),
+          timestamp: details?.timestamp ?? exportedAt,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Exports the report of the measurements, to hand them to an inspection report.
+   * @param format `csv` for one measurement per row, `json` for the `MeasurementReport` object.
+   * @returns the content of the report.
+   */
+  exportMeasurements(format: MeasurementExportFormat): string {
+    const report = this.getMeasurementReport();
+    return format === 'csv' ? measurementReportToCsv(report) : JSON.stringify(report, null, 2);
+  }
+
+  /**
+   * Sets the label of a measurement from the unit configuration.
+   * @param measurement the measurement to label.
+   */
+  private applyMeasurementText(measurement: MeasureMarkup): void {
+    if (!this.modelTexts.has(measurement)) {
+      this.modelTexts.set(measurement, measurement.getMeasurementText());
+    }
+
+    measurement.setMeasurementText(this.formatMeasurement(measurement));
+    this._measureManager?.viewer.markupManager.refreshMarkup();
+  }
+
+  async getConfiguration(): Promise<MeasurementServiceConfiguration> {
+    return { color: this.getMeasurementColor(), ...this.getUnitConfiguration() };
+  }
+
   async resetConfiguration(obj?: object): Promise<void> {
     if (!this._measureManager) {
       throw new Error('MeasureManager is not set');
@@ -125,6 +672,16 @@ export default class MeasurementService extends EventTarget implements IMeasurem
     this._measureManager.removeAllMeasurements();
     this.setMeasurementColor(config.color);
 
+    const defaults = MeasurementService.DefaultConfig;
+    this.setUnitConfiguration({
+      unitSystem: config.unitSystem ?? defaults.unitSystem,
+      unit: config.unit ?? defaults.unit,
+      precision: config.precision ?? defaults.precision,
+      decimals: config.decimals ?? defaults.decimals,
+      fractionDenominator: config.fractionDenominator ?? defaults.fractionDenominator,
+      angleUnit: config.angleUnit ?? defaults.angleUnit,
+    });
+
     this.dispatchEvent(
       new CustomEvent('hoops-measurement-reset', {
         bubbles: true,
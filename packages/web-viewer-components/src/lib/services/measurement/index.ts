@@ -1,2 +1,4 @@
 export * from './types';
 export * from './MeasurementService';
+export * from './utils';
+export * from './markups';
@@ -0,0 +1,233 @@
+import { Box, Markup, NodeId, Operators, Point2, Point3, WebViewer } from '@ts3d-hoops/web-viewer';
+import type { MeasurementTool, ToolMeasureMarkupData } from './types';
+
+/**
+ * Base class of the measurements created by the measurement tools of the MeasurementService.
+ *
+ * The value of the measurement is computed by its tool when it is created. The measurement is
+ * drawn as a polyline through its anchors, in world coordinates, labelled at the last anchor.
+ */
+export abstract class ToolMeasureMarkup extends Operators.Markup.Measure.MeasureMarkup {
+  abstract readonly tool: MeasurementTool;
+
+  private text = '';
+
+  private visible = true;
+
+  private textBox?: Markup.Shapes.TextBox;
+
+  /**
+   * @param viewer the viewer displaying the measurement.
+   * @param nodeIds the nodes picked to create the measurement.
+   * @param anchors the points the measurement is drawn through, in world coordinates.
+   * @param value the value of the measurement, in model units.
+   * @param name the name of the measurement.
+   */
+  constructor(
+    protected readonly viewer: WebViewer,
+    readonly nodeIds: NodeId[],
+    protected readonly anchors: Point3[],
+    private readonly value: number,
+    name: string,
+  ) {
+    super(viewer);
+    this.setName(name);
+  }
+
+  getMeasurementValue(): number {
+    return this.value;
+  }
+
+  getMeasurementText(): string {
+    return this.text;
+  }
+
+  setMeasurementText(text: string): void {
+    this.text = text;
+  }
+
+  getVisibility(): boolean {
+    return this.visible;
+  }
+
+  setVisibility(visible: boolean): void {
+    this.visible = visible;
+  }
+
+  /**
+   * The bounding box of the anchors, to fit the camera to the measurement.
+   */
+  getBounding(): Box {
+    const bounding = Box.invalid();
+    this.anchors.forEach((anchor) => bounding.addPoint(anchor));
+    return bounding;
+  }
+
+  draw(): void {
+    this.textBox = undefined;
+    if (!this.visible) {
+      return;
+    }
+
+    const renderer = this.viewer.markupManager.getRenderer();
+    const color = this.viewer.measureManager.getMeasurementColor();
+    const points = this.anchors.map((anchor) =>
+      Point2.fromPoint3(this.viewer.view.projectPoint(anchor)),
+    );
+
+    for (let i = 1; i < points.length; i++) {
+      const line = new Markup.Shapes.Line(points[i - 1], points[i]);
+      line.setStrokeColor(color);
+      renderer.drawLine(line);
+    }
+
+    this.textBox = new Markup.Shapes.TextBox();
+    this.textBox.setTextString(this.text);
+    this.textBox.setPosition(points[points.length - 1]);
+    renderer.drawTextBox(this.textBox);
+  }
+
+  hit(point: Point2): boolean {
+    if (!this.textBox) {
+      return false;
+    }
+
+    const position = this.textBox.getPosition();
+    const size = this.viewer.markupManager.getRenderer().measureTextBox(this.textBox);
+    return (
+      point.x >= position.x &&
+      point.x <= position.x + size.x &&
+      point.y >= position.y &&
+      point.y <= position.y + size.y
+    );
+  }
+
+  toJson() {
+    return {
+      className: this.getClassName(),
+      name: this.getName(),
+      nodeIds: this.nodeIds,
+      anchors: this.anchors.map((anchor) => anchor.toJson()),
+      value: this.value,
+      text: this.text,
+    };
+  }
+}
+
+/**
+ * The radius of a circular edge or of a cylindrical face, drawn from the center to the picked
+ * point.
+ */
+export class MeasureRadiusMarkup extends ToolMeasureMarkup {
+  readonly tool = 'radius';
+
+  getClassName(): string {
+    return 'Hoops.Markup.Measure.MeasureRadiusMarkup';
+  }
+}
+
+/**
+ * The distance from a point to a planar face, drawn from the point to its projection on the plane.
+ */
+export class MeasurePointPlaneDistanceMarkup extends ToolMeasureMarkup {
+  readonly tool = 'point-plane-distance';
+
+  getClassName(): string {
+    return 'Hoops.Markup.Measure.MeasurePointPlaneDistanceMarkup';
+  }
+}
+
+/**
+ * The minimum clearance between two bodies, drawn between their closest points.
+ */
+export class MeasureBodyBodyDistanceMarkup extends ToolMeasureMarkup {
+  readonly tool = 'body-body-distance';
+
+  getClassName(): string {
+    return 'Hoops.Markup.Measure.MeasureBodyBodyDistanceMarkup';
+  }
+}
+
+/**
+ * The surface area of a part, its measurement value, and its volume, labelled at the picked point.
+ */
+export class MeasureAreaVolumeMarkup extends ToolMeasureMarkup {
+  readonly tool = 'area-volume';
+
+  /**
+   * @param viewer the viewer displaying the measurement.
+   * @param nodeId the measured part.
+   * @param anchor the picked point.
+   * @param area the surface area of the part, in square model units.
+   * @param volume the volume of the part, in cubic model units.
+   */
+  constructor(
+    viewer: WebViewer,
+    nodeId: NodeId,
+    anchor: Point3,
+    area: number,
+    readonly volume: number,
+  ) {
+    super(viewer, [nodeId], [anchor], area, 'Area and Volume');
+  }
+
+  getClassName(): string {
+    return 'Hoops.Markup.Measure.MeasureAreaVolumeMarkup';
+  }
+
+  toJson() {
+    return { ...super.toJson(), volume: this.volume };
+  }
+}
+
+type ToolMeasureMarkupFactory = (
+  viewer: WebViewer,
+  data: ToolMeasureMarkupData,
+  anchors: Point3[],
+) => ToolMeasureMarkup;
+
+const ToolMeasureMarkupFactories = new Map<string, ToolMeasureMarkupFactory>([
+  [
+    'Hoops.Markup.Measure.MeasureRadiusMarkup',
+    (viewer, { nodeIds, value, name }, anchors) =>
+      new MeasureRadiusMarkup(viewer, nodeIds, anchors, value, name),
+  ],
+  [
+    'Hoops.Markup.Measure.MeasurePointPlaneDistanceMarkup',
+    (viewer, { nodeIds, value, name }, anchors) =>
+      new MeasurePointPlaneDistanceMarkup(viewer, nodeIds, anchors, value, name),
+  ],
+  [
+    'Hoops.Markup.Measure.MeasureBodyBodyDistanceMarkup',
+    (viewer, { nodeIds, value, name }, anchors) =>
+      new MeasureBodyBodyDistanceMarkup(viewer, nodeIds, anchors, value, name),
+  ],
+  [
+    'Hoops.Markup.Measure.MeasureAreaVolumeMarkup',
+    (viewer, { nodeIds, value, volume }, anchors) =>
+      new MeasureAreaVolumeMarkup(viewer, nodeIds[0], anchors[0], value, volume ?? 0),
+  ],
+]);
+
+/**
+ * Creates a measurement of the measurement tools from the data written by its `toJson`.
+ * @param viewer the viewer displaying the measurement.
+ * @param data the data of the measurement.
+ * @returns the measurement, with its name and its label.
+ * @throws if the class of the measurement is not a class of the measurement tools.
+ */
+export function createToolMeasureMarkup(
+  viewer: WebViewer,
+  data: ToolMeasureMarkupData,
+): ToolMeasureMarkup {
+  const factory = ToolMeasureMarkupFactories.get(data.className);
+  if (!factory) {
+    throw new Error(`Unknown measurement class: ${data.className}`);
+  }
+
+  const anchors = data.anchors.map(({ x, y, z }) => new Point3(x, y, z));
+  const measurement = factory(viewer, data, anchors);
+  measurement.setName(data.name);
+  measurement.setMeasurementText(data.text);
+  return measurement;
+}
@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Button, Point2, Point3, SubentityProperties } from '@ts3d-hoops/web-viewer';
+
+import {
+  MeasureBodyBodyDistanceMarkup,
+  MeasurePointPlaneDistanceMarkup,
+  MeasureRadiusMarkup,
+} from './markups';
+import { createMeasurementToolOperators } from './operators';
+
+type Pick = {
+  nodeId: number;
+  position: Point3;
+  face?: { getNormal(): Point3; getPosition(): Point3; getCadFaceIndex(): number };
+  line?: { getLineId(): number };
+};
+
+function createSelection({ nodeId, position, face, line }: Pick) {
+  return {
+    isNodeSelection: () => true,
+    isFaceSelection: () => face !== undefined,
+    getNodeId: () => nodeId,
+    getPosition: () => position,
+    getFaceEntity: () => face ?? null,
+    getLineEntity: () => line ?? null,
+  };
+}
+
+function createMouseEvent(x: number, y: number, button = Button.Left) {
+  return { getPosition: () => new Point2(x, y), getButton: () => button };
+}
+
+describe('measurement tool operators', () => {
+  let picks: Pick[];
+  let viewer: ReturnType<typeof createViewer>;
+
+  function createViewer() {
+    return {
+      view: {
+        pickFromPoint: vi.fn(async () => createSelection(picks.shift()!)),
+      },
+      model: {
+        getNodeNetMatrix: () => ({ transform: (point: Point3) => point.copy() }),
+        getEdgeProperty: vi.fn(),
+        getFaceProperty: vi.fn(),
+        computeMinimumBodyBodyDistance: vi.fn(async () => ({
+          distance: 4,
+          pos1: new Point3(0, 0, 0),
+          pos2: new Point3(4, 0, 0),
+        })),
+      },
+      measureManager: { addMeasurement: vi.fn() },
+    };
+  }
+
+  async function click(operator: ReturnType<typeof createMeasurementToolOperators>['radius']) {
+    operator.onMouseDown!(createMouseEvent(10, 10) as never);
+    await operator.onMouseUp!(createMouseEvent(11, 10) as never);
+  }
+
+  beforeEach(() => {
+    picks = [];
+    viewer = createViewer();
+  });
+
+  it('should measure the distance from a point to a planar face', async () => {
+    const operator = createMeasurementToolOperators(viewer as never)['point-plane-distance'];
+    picks = [
+      { nodeId: 2, position: new Point3(0, 0, 0) },
+      {
+        nodeId: 3,
+        position: new Point3(0, 0, 0),
+        face: {
+          getNormal: () => new Point3(0, 0, 2),
+          getPosition: () => new Point3(0, 0, 1),
+          getCadFaceIndex: () => 0,
+        },
+      },
+      { nodeId: 5, position: new Point3(1, 1, -2) },
+    ];
+
+    // The first pick is not a face and is ignored
+    await click(operator);
+    await click(operator);
+    expect(viewer.measureManager.addMeasurement).not.toHaveBeenCalled();
+    await click(operator);
+
+    const [measurement] = viewer.measureManager.addMeasurement.mock.calls[0];
+    expect(measurement).toBeInstanceOf(MeasurePointPlaneDistanceMarkup);
+    expect(measurement.getMeasurementValue()).toBe(3);
+    expect(measurement.nodeIds).toEqual([3, 5]);
+    expect(measurement.getName()).toBe('Point to Plane');
+  });
+
+  it('should measure the minimum clearance between two bodies', async () => {
+    const operator = createMeasurementToolOperators(viewer as never)['body-body-distance'];
+    picks = [
+      { nodeId: 2, position: new Point3() },
+      { nodeId: 7, position: new Point3() },
+    ];
+
+    await click(operator);
+    await click(operator);
+
+    expect(viewer.model.computeMinimumBodyBodyDistance).toHaveBeenCalledWith(2, 7);
+    const [measurement] = viewer.measureManager.addMeasurement.mock.calls[0];
+    expect(measurement).toBeInstanceOf(MeasureBodyBodyDistanceMarkup);
+    expect(measurement.getMeasurementValue()).toBe(4);
+  });
+
+  it('should measure the radius of a circular edge', async () => {
+    const operator = createMeasurementToolOperators(viewer as never).radius;
+    viewer.model.getEdgeProperty.mockResolvedValue(
+      new SubentityProperties.CircleElement(5, new Point3(0, 0, 0), new Point3(0, 0, 1)),
+    );
+    picks = [{ nodeId: 2, position: new Point3(5, 0, 0), line: { getLineId: () => 8 } }];
+
+    await click(operator);
+
+    expect(viewer.model.getEdgeProperty).toHaveBeenCalledWith(2, 8);
+    const [measurement] = viewer.measureManager.addMeasurement.mock.calls[0];
+    expect(measurement).toBeInstanceOf(MeasureRadiusMarkup);
+    expect(measurement.getMeasurementValue()).toBe(5);
+    expect(measurement.toJson().anchors).toEqual([
+      { x: 0, y: 0, z: 0 },
+      { x: 5, y: 0, z: 0 },
+    ]);
+  });
+
+  it('should scale the radius by the net matrix of the node', async () => {
+    const operator = createMeasurementToolOperators(viewer as never).radius;
+    viewer.model.getNodeNetMatrix = () => ({
+      transform: (point: Point3) => Point3.scale(point, 2),
+    });
+    viewer.model.getFaceProperty.mockResolvedValue(
+      new SubentityProperties.CylinderElement(5, new Point3(0, 0, 0), new Point3(0, 0, 1)),
+    );
+    picks = [
+      {
+        nodeId: 2,
+        position: new Point3(10, 0, 4),
+        face: {
+          getNormal: () => new Point3(1, 0, 0),
+          getPosition: () => new Point3(10, 0, 4),
+          getCadFaceIndex: () => 3,
+        },
+      },
+    ];
+
+    await click(operator);
+
+    const [measurement] = viewer.measureManager.addMeasurement.mock.calls[0];
+    expect(measurement.getMeasurementValue()).toBe(10);
+    expect(measurement.toJson().anchors).toEqual([
+      { x: 0, y: 0, z: 4 },
+      { x: 10, y: 0, z: 4 },
+    ]);
+  });
+
+  it('should ignore the camera drags and the geometry that cannot be measured', async () => {
+    const operators = createMeasurementToolOperators(viewer as never);
+    operators.radius.onMouseDown!(createMouseEvent(10, 10) as never);
+    await operators.radius.onMouseUp!(createMouseEvent(40, 10) as never);
+    expect(viewer.view.pickFromPoint).not.toHaveBeenCalled();
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    viewer.model.getEdgeProperty.mockResolvedValue(null);
+    picks = [{ nodeId: 2, position: new Point3(), line: { getLineId: () => 8 } }];
+    await click(operators.radius);
+
+    expect(warn).toHaveBeenCalled();
+    expect(viewer.measureManager.addMeasurement).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,284 @@
+import {
+  Button,
+  Event,
+  Matrix,
+  Operator,
+  PickConfig,
+  Plane,
+  Point2,
+  Point3,
+  Selection,
+  SelectionMask,
+  SubentityProperties,
+  WebViewer,
+} from '@ts3d-hoops/web-viewer';
+import {
+  MeasureAreaVolumeMarkup,
+  MeasureBodyBodyDistanceMarkup,
+  MeasurePointPlaneDistanceMarkup,
+  MeasureRadiusMarkup,
+  ToolMeasureMarkup,
+} from './markups';
+import type { MeasurementTool } from './types';
+
+type PickedItem = Selection.NodeSelectionItem;
+
+/**
+ * The distance in pixels the pointer may move between press and release for a click, a longer
+ * move is a camera drag.
+ */
+export const ClickTolerance = 3;
+
+/**
+ * Base class of the measurement tools: it collects a number of picks and creates the measurement
+ * from them. The measurement is added to the measure manager of the viewer, which lists it and
+ * notifies its creation.
+ */
+abstract class PickMeasureOperator implements Operator {
+  private picks: PickedItem[] = [];
+
+  private pressPosition?: Point2;
+
+  /**
+   * @param viewer the viewer the measurements are created in.
+   * @param pickMask the kind of entities picked.
+   * @param pickCount the number of picks of a measurement.
+   */
+  constructor(
+    protected readonly viewer: WebViewer,
+    private readonly pickMask: SelectionMask,
+    private readonly pickCount: number,
+  ) {}
+
+  onMouseDown(event: Event.MouseInputEvent): void {
+    this.pressPosition = event.getPosition().copy();
+  }
+
+  async onMouseUp(event: Event.MouseInputEvent): Promise<void> {
+    const pressPosition = this.pressPosition;
+    this.pressPosition = undefined;
+    if (
+      event.getButton() !== Button.Left ||
+      !pressPosition ||
+      Point2.distance(pressPosition, event.getPosition()) > ClickTolerance
+    ) {
+      return;
+    }
+
+    const pick = await this.viewer.view.pickFromPoint(
+      event.getPosition(),
+      new PickConfig(this.pickMask),
+    );
+    if (!pick.isNodeSelection() || !this.acceptsPick(pick, this.picks.length)) {
+      return;
+    }
+
+    this.picks.push(pick);
+    if (this.picks.length < this.pickCount) {
+      return;
+    }
+
+    const picks = this.picks;
+    this.picks = [];
+    try {
+      const measurement = await this.createMeasurement(picks);
+      if (measurement) {
+        this.viewer.measureManager.addMeasurement(measurement);
+      }
+    } catch (error) {
+      console.error('Failed to create the measurement:', error);
+    }
+  }
+
+  onDeactivate(): void {
+    this.picks = [];
+    this.pressPosition = undefined;
+  }
+
+  /**
+   * Whether a pick can be used as the pick of the given index, the picks of the wrong kind of
+   * entity are ignored.
+   */
+  protected acceptsPick(_pick: PickedItem, _index: number): boolean {
+    return true;
+  }
+
+  /**
+   * Computes the measurement of the picks.
+   * @returns the measurement, or null when the picked geometry cannot be measured.
+   */
+  protected abstract createMeasurement(picks: PickedItem[]): Promise<ToolMeasureMarkup | null>;
+}
+
+/**
+ * Transforms a direction of the local coordinates of a node to world coordinates.
+ */
+function transformDirection(matrix: Matrix, origin: Point3, direction: Point3): Point3 {
+  return Point3.subtract(
+    matrix.transform(Point3.add(origin, direction)),
+    matrix.transform(origin),
+  ).normalize();
+}
+
+/**
+ * Transforms the radius of a circle of a node by the scale of its net matrix.
+ * @param matrix the net matrix of the node.
+ * @param origin the center of the circle, in the coordinates of the node.
+ * @param normal the normal of the circle, in the coordinates of the node.
+ * @param radius the radius of the circle, in the coordinates of the node.
+ * @returns the radius in world coordinates.
+ */
+function transformRadius(matrix: Matrix, origin: Point3, normal: Point3, radius: number): number {
+  const unitNormal = normal.copy().normalize();
+  const other = Math.abs(unitNormal.x) < 0.9 ? new Point3(1, 0, 0) : new Point3(0, 1, 0);
+  const radial = Point3.cross(unitNormal, other).normalize();
+  return (
+    Point3.subtract(
+      matrix.transform(Point3.add(origin, radial)),
+      matrix.transform(origin),
+    ).length() * radius
+  );
+}
+
+/**
+ * Measures the radius of a circular edge or of a cylindrical face.
+ */
+class RadiusOperator extends PickMeasureOperator {
+  constructor(viewer: WebViewer) {
+    super(viewer, SelectionMask.Face | SelectionMask.Line, 1);
+  }
+
+  protected async createMeasurement([pick]: PickedItem[]): Promise<ToolMeasureMarkup | null> {
+    const nodeId = pick.getNodeId();
+    const model = this.viewer.model;
+    const lineEntity = pick.getLineEntity();
+    const faceEntity = pick.getFaceEntity();
+
+    const property = lineEntity
+      ? await model.getEdgeProperty(nodeId, lineEntity.getLineId())
+      : faceEntity
+        ? await model.getFaceProperty(nodeId, faceEntity.getCadFaceIndex())
+        : null;
+    if (
+      !(property instanceof SubentityProperties.CircleElement) &&
+      !(property instanceof SubentityProperties.CylinderElement)
+    ) {
+      console.warn('Cannot measure the radius: the picked geometry is not circular');
+      return null;
+    }
+
+    // The center is the projection of the picked point on the axis of the circle or cylinder
+    const matrix = model.getNodeNetMatrix(nodeId);
+    const origin = matrix.transform(property.origin);
+    const axis = transformDirection(matrix, property.origin, property.normal);
+    const position = pick.getPosition();
+    const center = Point3.add(
+      origin,
+      Point3.scale(axis, Point3.dot(Point3.subtract(position, origin), axis)),
+    );
+
+    return new MeasureRadiusMarkup(
+      this.viewer,
+      [nodeId],
+      [center, position],
+      transformRadius(matrix, property.origin, property.normal, property.radius),
+      'Radius',
+    );
+  }
+}
+
+/**
+ * Measures the distance from a point to a planar face, the face is picked first.
+ */
+class PointPlaneDistanceOperator extends PickMeasureOperator {
+  constructor(viewer: WebViewer) {
+    super(viewer, SelectionMask.All, 2);
+  }
+
+  protected acceptsPick(pick: PickedItem, index: number): boolean {
+    return index > 0 || pick.isFaceSelection();
+  }
+
+  protected async createMeasurement([
+    facePick,
+    pointPick,
+  ]: PickedItem[]): Promise<ToolMeasureMarkup | null> {
+    const face = facePick.getFaceEntity();
+    const normal = face.getNormal().copy().normalize();
+    const plane = Plane.createFromPointAndNormal(face.getPosition(), normal);
+    const point = pointPick.getPosition();
+    const signedDistance = plane.distanceToPoint(point);
+    const projection = Point3.subtract(point, Point3.scale(normal, signedDistance));
+
+    return new MeasurePointPlaneDistanceMarkup(
+      this.viewer,
+      [facePick.getNodeId(), pointPick.getNodeId()],
+      [point, projection],
+      Math.abs(signedDistance),
+      'Point to Plane',
+    );
+  }
+}
+
+/**
+ * Measures the minimum clearance between two bodies.
+ */
+class BodyBodyDistanceOperator extends PickMeasureOperator {
+  constructor(viewer: WebViewer) {
+    super(viewer, SelectionMask.Face, 2);
+  }
+
+  protected async createMeasurement(picks: PickedItem[]): Promise<ToolMeasureMarkup | null> {
+    const [firstNodeId, secondNodeId] = picks.map((pick) => pick.getNodeId());
+    const clearance = await this.viewer.model.computeMinimumBodyBodyDistance(
+      firstNodeId,
+      secondNodeId,
+    );
+
+    return new MeasureBodyBodyDistanceMarkup(
+      this.viewer,
+      [firstNodeId, secondNodeId],
+      [clearance.pos1, clearance.pos2],
+      clearance.distance,
+      'Minimum Clearance',
+    );
+  }
+}
+
+/**
+ * Measures the surface area and the volume of a part.
+ */
+class AreaVolumeOperator extends PickMeasureOperator {
+  constructor(viewer: WebViewer) {
+    super(viewer, SelectionMask.Face, 1);
+  }
+
+  protected async createMeasurement([pick]: PickedItem[]): Promise<ToolMeasureMarkup | null> {
+    const nodeId = pick.getNodeId();
+    const properties = await this.viewer.model.getPhysicalProperties(nodeId);
+
+    return new MeasureAreaVolumeMarkup(
+      this.viewer,
+      nodeId,
+      pick.getPosition(),
+      properties.surfaceArea,
+      properties.volume,
+    );
+  }
+}
+
+/**
+ * Creates the operators of the measurement tools.
+ * @param viewer the viewer the measurements are created in.
+ * @returns the operator of each tool, to register in the viewer.
+ */
+export function createMeasurementToolOperators(
+  viewer: WebViewer,
+): Record<MeasurementTool, Operator> {
+  return {
+    radius: new RadiusOperator(viewer),
+    'point-plane-distance': new PointPlaneDistanceOperator(viewer),
+    'body-body-distance': new BodyBodyDistanceOperator(viewer),
+    'area-volume': new AreaVolumeOperator(viewer),
+  };
+}
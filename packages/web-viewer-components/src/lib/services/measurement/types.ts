@@ -1,11 +1,84 @@
-import { Operators } from '@ts3d-hoops/web-viewer';
-import { IResettableConfigurationService, IService } from '../types';
+import { IPoint3, NodeId, OperatorId, Operators } from '@ts3d-hoops/web-viewer';
+import { IConfigurableService, IService } from '../types';
 
 type MeasureMarkup = Operators.Markup.Measure.MeasureMarkup;
 
+/**
+ * The unit system of the measurement labels:
+ * - `metric` and `imperial` convert the lengths to the configured unit
+ * - `model` keeps the lengths in the unit of the model, as labelled by the viewer
+ */
+export type MeasurementUnitSystem = 'metric' | 'imperial' | 'model';
+
+export const MetricLengthUnits = ['mm', 'cm', 'm'] as const;
+export const ImperialLengthUnits = ['in', 'ft', 'ft-in'] as const;
+
+/**
+ * The unit the lengths are displayed in, `ft-in` displays them in feet and inches.
+ */
+export type MeasurementLengthUnit =
+  | (typeof MetricLengthUnits)[number]
+  | (typeof ImperialLengthUnits)[number];
+
+export type MeasurementAngleUnit = 'deg' | 'rad';
+
+/**
+ * Whether the lengths are displayed with decimals or with fractions, as 3 1/4 in.
+ * The angles are always displayed with decimals.
+ */
+export type MeasurementPrecision = 'decimal' | 'fractional';
+
+export type MeasurementUnitConfiguration = {
+  unitSystem: MeasurementUnitSystem;
+  /** The length unit, it must belong to the unit system and is ignored by the `model` system. */
+  unit: MeasurementLengthUnit;
+  precision: MeasurementPrecision;
+  /** The number of decimals of the decimal lengths and of the angles. */
+  decimals: number;
+  /** The denominator of the fractional lengths, a power of two such as 16 for 1/16. */
+  fractionDenominator: number;
+  angleUnit: MeasurementAngleUnit;
+};
+
+/**
+ * The configuration of the measurement service.
+ * The unit properties are optional to keep accepting the configurations saved before they were
+ * introduced, the missing ones are reset to their default value.
+ */
 export type MeasurementServiceConfiguration = {
   color: string;
-};
+} & Partial<MeasurementUnitConfiguration>;
+
+function isOptional<T>(value: unknown, guard: (value: unknown) => value is T): boolean {
+  return typeof value === 'undefined' || guard(value);
+}
+
+export function isMeasurementUnitSystem(value: unknown): value is MeasurementUnitSystem {
+  return value === 'metric' || value === 'imperial' || value === 'model';
+}
+
+export function isMeasurementLengthUnit(value: unknown): value is MeasurementLengthUnit {
+  return (
+    (MetricLengthUnits as readonly unknown[]).includes(value) ||
+    (ImperialLengthUnits as readonly unknown[]).includes(value)
+  );
+}
+
+export function isMeasurementAngleUnit(value: unknown): value is MeasurementAngleUnit {
+  return value === 'deg' || value === 'rad';
+}
+
+export function isMeasurementPrecision(value: unknown): value is MeasurementPrecision {
+  return value === 'decimal' || value === 'fractional';
+}
+
+function isDecimals(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 10;
+}
+
+function isFractionDenominator(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 256;
+}
 
 export function isMeasurementServiceConfiguration(
   obj: unknown,
@@ -15,13 +88,136 @@ export function isMeasurementServiceConfiguration(
   }
 
   const value = obj as MeasurementServiceConfiguration;
-  return typeof value.color === 'string';
+  return (
+    typeof value.color === 'string' &&
+    isOptional(value.unitSystem, isMeasurementUnitSystem) &&
+    isOptional(value.unit, isMeasurementLengthUnit) &&
+    isOptional(value.precision, isMeasurementPrecision) &&
+    isOptional(value.decimals, isDecimals) &&
+    isOptional(value.fractionDenominator, isFractionDenominator) &&
+    isOptional(value.angleUnit, isMeasurementAngleUnit)
+  );
+}
+
+/**
+ * The measurement tools provided by the measurement service in addition to the measurement
+ * operators of the viewer:
+ * - `radius` measures the radius and diameter of a circular edge or a cylindrical face
+ * - `point-plane-distance` measures the distance from a point to a planar face
+ * - `body-body-distance` measures the minimum clearance between two bodies
+ * - `area-volume` measures the surface area and the volume of a part
+ */
+export const MeasurementTools = [
+  'radius',
+  'point-plane-distance',
+  'body-body-distance',
+  'area-volume',
+] as const;
+
+export type MeasurementTool = (typeof MeasurementTools)[number];
+
+/**
+ * The kind of a measurement, as written in the measurement reports.
+ */
+export type MeasurementType =
+  | 'point-point'
+  | 'face-face-distance'
+  | 'face-face-angle'
+  | 'straight-edge-length'
+  | 'circle-edge-length'
+  | MeasurementTool
+  | 'other';
+
+export type MeasurementExportFormat = 'csv' | 'json';
+
+/**
+ * A measurement of a report, with its value converted to the unit configuration of the service.
+ * The lengths of the `model` unit system are reported in millimeters.
+ * The value of the `area-volume` measurements is the surface area, the volume is in the text.
+ */
+export type MeasurementReportEntry = {
+  type: MeasurementType;
+  name: string;
+  value: number;
+  unit: string;
+  /** The label of the measurement. */
+  text: string;
+  /** The nodes picked to create the measurement, when it was created in this session. */
+  nodeIds: NodeId[];
+  nodeNames: string[];
+  /** The creation date of the measurement in ISO 8601 format, the export date if unknown. */
+  timestamp: string;
+};
+
+export type MeasurementReport = {
+  exportedAt: string;
+  measurements: MeasurementReportEntry[];
+};
+
+/**
+ * The data of a measurement of the measurement tools, as written by its `toJson`.
+ * The markup manager of the viewer does not know their classes, they are restored by the
+ * measurement service instead.
+ */
+export type ToolMeasureMarkupData = {
+  className: string;
+  name: string;
+  nodeIds: NodeId[];
+  /** The points the measurement is drawn through, in world coordinates. */
+  anchors: IPoint3[];
+  value: number;
+  text: string;
+  /** The volume of the part, for the `area-volume` measurements only. */
+  volume?: number;
+};
+
+function isPoint3Data(obj: unknown): obj is IPoint3 {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const value = obj as IPoint3;
+  return typeof value.x === 'number' && typeof value.y === 'number' && typeof value.z === 'number';
+}
+
+export function isToolMeasureMarkupData(obj: unknown): obj is ToolMeasureMarkupData {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const value = obj as ToolMeasureMarkupData;
+  return (
+    typeof value.className === 'string' &&
+    value.className.startsWith('Hoops.Markup.Measure.') &&
+    typeof value.name === 'string' &&
+    Array.isArray(value.nodeIds) &&
+    value.nodeIds.every((nodeId) => typeof nodeId === 'number') &&
+    Array.isArray(value.anchors) &&
+    value.anchors.length > 0 &&
+    value.anchors.every(isPoint3Data) &&
+    typeof value.value === 'number' &&
+    typeof value.text === 'string' &&
+    isOptional(value.volume, (volume): volume is number => typeof volume === 'number')
+  );
 }
 
-export interface IMeasurementService extends IService, IResettableConfigurationService {
+export interface IMeasurementService extends IService, IConfigurableService {
   measurements: MeasureMarkup[];
   removeMeasurement(measurement: MeasureMarkup): void;
+  getMeasurementVisibility(measurement: MeasureMarkup): boolean;
+  setMeasurementVisibility(measurement: MeasureMarkup, visible: boolean): void;
+  getMeasurementName(measurement: MeasureMarkup): string | undefined;
+  setMeasurementName(measurement: MeasureMarkup, name: string): void;
+  focusMeasurement(measurement: MeasureMarkup, duration?: number): Promise<void>;
   getMeasurementColor(): string;
   setMeasurementColor(color: string): void;
+  getUnitConfiguration(): MeasurementUnitConfiguration;
+  setUnitConfiguration(configuration: Partial<MeasurementUnitConfiguration>): void;
+  formatMeasurement(measurement: MeasureMarkup): string;
+  getMeasurementReport(): MeasurementReport;
+  exportMeasurements(format: MeasurementExportFormat): string;
+  getMeasurementToolOperator(tool: MeasurementTool): OperatorId | undefined;
+  restoreMeasurement(data: ToolMeasureMarkupData): MeasureMarkup;
+  getConfiguration(): Promise<MeasurementServiceConfiguration>;
   resetConfiguration(obj?: object): Promise<void>;
 }
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import MeasurementService from './MeasurementService';
+import { MeasurementUnitConfiguration } from './types';
+import { formatAngle, formatLength, measurementReportToCsv } from './utils';
+
+const configuration = (
+  overrides: Partial<MeasurementUnitConfiguration>,
+): MeasurementUnitConfiguration => ({ ...MeasurementService.DefaultConfig, ...overrides });
+
+describe('formatLength', () => {
+  it('should format the metric lengths with decimals', () => {
+    expect(formatLength(1234.567, configuration({ unitSystem: 'metric', unit: 'mm' }))).toBe(
+      '1234.57 mm',
+    );
+    expect(
+      formatLength(1234.567, configuration({ unitSystem: 'metric', unit: 'm', decimals: 3 })),
+    ).toBe('1.235 m');
+  });
+
+  it('should format the imperial lengths with reduced fractions', () => {
+    const imperial = configuration({
+      unitSystem: 'imperial',
+      unit: 'in',
+      precision: 'fractional',
+      fractionDenominator: 16,
+    });
+
+    expect(formatLength(3.25 * 25.4, imperial)).toBe('3 1/4 in');
+    expect(formatLength(0.5 * 25.4, imperial)).toBe('1/2 in');
+    expect(formatLength(2 * 25.4, imperial)).toBe('2 in');
+  });
+
+  it('should format the lengths in feet and inches', () => {
+    const feetInches = configuration({
+      unitSystem: 'imperial',
+      unit: 'ft-in',
+      precision: 'fractional',
+      fractionDenominator: 8,
+    });
+
+    expect(formatLength((5 * 12 + 3.5) * 25.4, feetInches)).toBe(`5' 3 1/2"`);
+    expect(formatLength(11.999 * 25.4, feetInches)).toBe(`1' 0"`);
+    expect(formatLength(14 * 25.4, { ...feetInches, precision: 'decimal', decimals: 1 })).toBe(
+      `1' 2.0"`,
+    );
+  });
+});
+
+describe('formatAngle', () => {
+  it('should format the angles in degrees or radians', () => {
+    expect(formatAngle(90, configuration({}))).toBe('90.00°');
+    expect(formatAngle(90, configuration({ angleUnit: 'rad', decimals: 3 }))).toBe('1.571 rad');
+  });
+});
+
+describe('measurementReportToCsv', () => {
+  it('should write one quoted row per measurement', () => {
+    const csv = measurementReportToCsv({
+      exportedAt: '2026-01-01T00:00:00.000Z',
+      measurements: [
+        {
+          type: 'point-point',
+          name: 'Flange, "A"',
+          value: 12.5,
+          unit: 'mm',
+          text: '12.50 mm',
+          nodeIds: [4, 7],
+          nodeNames: ['Bolt', 'Nut'],
+          timestamp: '2026-01-01T00:00:00.000Z',
+        },
+      ],
+    });
+
+    expect(csv.split('\r\n')).toEqual([
+      'type,name,value,unit,text,nodeIds,nodeNames,timestamp',
+      'point-point,"Flange, ""A""",12.5,mm,12.50 mm,4;7,Bolt;Nut,2026-01-01T00:00:00.000Z',
+    ]);
+  });
+});
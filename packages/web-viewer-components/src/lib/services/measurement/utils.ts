@@ -0,0 +1,196 @@
+import { Operators } from '@ts3d-hoops/web-viewer';
+import {
+  MeasurementLengthUnit,
+  MeasurementReport,
+  MeasurementType,
+  MeasurementUnitConfiguration,
+} from './types';
+import { ToolMeasureMarkup } from './markups';
+
+const MillimetersPerUnit: Record<MeasurementLengthUnit, number> = {
+  mm: 1,
+  cm: 10,
+  m: 1000,
+  in: 25.4,
+  ft: 304.8,
+  'ft-in': 304.8,
+};
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+/**
+ * Formats a positive number of steps of `1 / denominator` as a whole number and a reduced
+ * fraction, as `3 1/4`.
+ */
+function formatFraction(steps: number, denominator: number): string {
+  const whole = Math.floor(steps / denominator);
+  const numerator = steps - whole * denominator;
+  if (numerator === 0) {
+    return `${whole}`;
+  }
+
+  const divisor = greatestCommonDivisor(numerator, denominator);
+  const fraction = `${numerator / divisor}/${denominator / divisor}`;
+  return whole === 0 ? fraction : `${whole} ${fraction}`;
+}
+
+/**
+ * Rounds a positive value to the precision of the configuration.
+ *
+ * @returns the number of steps of the rounded value and the size of a step.
+ */
+function roundToPrecision(
+  value: number,
+  configuration: MeasurementUnitConfiguration,
+): [number, number] {
+  const step =
+    configuration.precision === 'fractional'
+      ? 1 / configuration.fractionDenominator
+      : 10 ** -configuration.decimals;
+  return [Math.round(value / step), step];
+}
+
+function formatSteps(steps: number, step: number, configuration: MeasurementUnitConfiguration) {
+  return configuration.precision === 'fractional'
+    ? formatFraction(steps, configuration.fractionDenominator)
+    : (steps * step).toFixed(configuration.decimals);
+}
+
+/**
+ * Formats a length in the unit and with the precision of the configuration.
+ *
+ * @param millimeters the length, in millimeters.
+ * @param configuration the unit configuration of the measurements.
+ * @returns the formatted length, as `12.50 mm`, `3 1/4 in` or `5' 3 1/2"`.
+ */
+export function formatLength(
+  millimeters: number,
+  configuration: MeasurementUnitConfiguration,
+): string {
+  const sign = millimeters < 0 ? '-' : '';
+
+  if (configuration.unit === 'ft-in') {
+    // Round the inches first so that 11.999" is displayed as 1' 0" rather than 0' 12"
+    const [steps, step] = roundToPrecision(Math.abs(millimeters) / 25.4, configuration);
+    const stepsPerFoot = Math.round(12 / step);
+    const feet = Math.floor(steps / stepsPerFoot);
+    const inches = formatSteps(steps - feet * stepsPerFoot, step, configuration);
+    return `${sign}${feet}' ${inches}"`;
+  }
+
+  const value = Math.abs(millimeters) / MillimetersPerUnit[configuration.unit];
+  const [steps, step] = roundToPrecision(value, configuration);
+  return `${sign}${formatSteps(steps, step, configuration)} ${configuration.unit}`;
+}
+
+/**
+ * Formats an angle in the angle unit of the configuration.
+ *
+ * @param degrees the angle, in degrees.
+ * @param configuration the unit configuration of the measurements.
+ * @returns the formatted angle, as `90.00°` or `1.57 rad`.
+ */
+export function formatAngle(degrees: number, configuration: MeasurementUnitConfiguration): string {
+  if (configuration.angleUnit === 'rad') {
+    return `${((degrees * Math.PI) / 180).toFixed(configuration.decimals)} rad`;
+  }
+
+  return `${degrees.toFixed(configuration.decimals)}°`;
+}
+
+/**
+ * Converts a length, an area or a volume from millimeters, the `ft-in` values are converted to
+ * inches.
+ *
+ * @param millimeters the value, in millimeters, square or cubic millimeters.
+ * @param unit the target unit.
+ * @param dimension 1 for a length, 2 for an area and 3 for a volume.
+ * @returns the value in the target unit.
+ */
+export function convertLength(
+  millimeters: number,
+  unit: MeasurementLengthUnit,
+  dimension = 1,
+): number {
+  return millimeters / MillimetersPerUnit[unit === 'ft-in' ? 'in' : unit] ** dimension;
+}
+
+/**
+ * The name of the unit of the converted values, `ft-in` is converted to inches.
+ */
+export function getUnitName(unit: MeasurementLengthUnit, dimension = 1): string {
+  const name = unit === 'ft-in' ? 'in' : unit;
+  return dimension === 3 ? `${name}³` : dimension === 2 ? `${name}²` : name;
+}
+
+/**
+ * Formats an area or a volume in the unit of the configuration, always with decimals.
+ *
+ * @param millimeters the value, in square or cubic millimeters.
+ * @param dimension 2 for an area and 3 for a volume.
+ * @param configuration the unit configuration of the measurements.
+ * @returns the formatted value, as `12.50 mm²`.
+ */
+export function formatPower(
+  millimeters: number,
+  dimension: 2 | 3,
+  configuration: MeasurementUnitConfiguration,
+): string {
+  const value = convertLength(millimeters, configuration.unit, dimension);
+  return `${value.toFixed(configuration.decimals)} ${getUnitName(configuration.unit, dimension)}`;
+}
+
+export function getMeasurementType(
+  measurement: Operators.Markup.Measure.MeasureMarkup,
+): MeasurementType {
+  const Measure = Operators.Markup.Measure;
+  if (measurement instanceof ToolMeasureMarkup) {
+    return measurement.tool;
+  } else if (measurement instanceof Measure.MeasurePointPointDistanceMarkup) {
+    return 'point-point';
+  } else if (measurement instanceof Measure.MeasureFaceFaceDistanceMarkup) {
+    return 'face-face-distance';
+  } else if (measurement instanceof Measure.MeasureFaceFaceAngleMarkup) {
+    return 'face-face-angle';
+  } else if (measurement instanceof Measure.MeasureStraightEdgeLengthMarkup) {
+    return 'straight-edge-length';
+  } else if (measurement instanceof Measure.MeasureCircleEdgeLengthMarkup) {
+    return 'circle-edge-length';
+  }
+  return 'other';
+}
+
+const ReportColumns = [
+  'type',
+  'name',
+  'value',
+  'unit',
+  'text',
+  'nodeIds',
+  'nodeNames',
+  'timestamp',
+] as const;
+
+function toCsvField(value: string | number): string {
+  const text = `${value}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes a measurement report as CSV, one measurement per row.
+ * The node ids and names of a measurement are separated by semicolons.
+ *
+ * @param report the report to write.
+ * @returns the CSV text, with a header row.
+ */
+export function measurementReportToCsv(report: MeasurementReport): string {
+  const rows = report.measurements.map((entry) =>
+    ReportColumns.map((column) => {
+      const value = entry[column];
+      return toCsvField(Array.isArray(value) ? value.join(';') : value);
+    }).join(','),
+  );
+  return [ReportColumns.join(','), ...rows].join('\r\n');
+}
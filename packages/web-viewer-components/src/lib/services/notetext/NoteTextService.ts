@@ -1,7 +1,39 @@
-import { CallbackMap, Operators, Uuid } from '@ts3d-hoops/web-viewer';
-import { INoteTextService, NoteTextItemData } from './types';
+import { Color } from '@ts3d-hoops/common';
+import { CallbackMap, createUuid, NodeId, Operators, Uuid } from '@ts3d-hoops/web-viewer';
+import { isNoteTextReview, MarkupItemQuery, MarkupSyncAdapter, MarkupSyncChange } from '../markup';
+import MarkupSync from '../markup/MarkupSync';
+import { matchesMarkupItemQuery } from '../markup/utils';
+import { tryGetService } from '../serviceRegistry';
+import type { IUndoService } from '../undo';
+import {
+  INoteTextService,
+  NoteTextComment,
+  NoteTextItemData,
+  NoteTextNodeGroup,
+  NoteTextPatch,
+  NoteTextReview,
+  NoteTextStatus,
+  NoteTextStatuses,
+} from './types';
 import { formatNoteTextItem } from './utils';
 
+/**
+ * The data of a note text sent to the other viewers.
+ */
+type NoteTextSyncData = {
+  note: object;
+  review: NoteTextReview;
+};
+
+function isNoteTextSyncData(obj: unknown): obj is NoteTextSyncData {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const value = obj as NoteTextSyncData;
+  return typeof value.note === 'object' && value.note !== null && isNoteTextReview(value.review);
+}
+
 export default class NoteTextService extends EventTarget implements INoteTextService {
   public readonly serviceName = 'NoteTextService' as const;
 
@@ -9,6 +41,17 @@ export default class NoteTextService extends EventTarget implements INoteTextSer
 
   private callbackMap: CallbackMap;
 
+  /**
+   * The review data of the note texts by id, kept when a note is removed so that it is restored
+   * along with the note.
+   */
+  private reviews = new Map<Uuid, NoteTextReview>();
+
+  /**
+   * Synchronizes the note texts with the other viewers, see `setSyncAdapter`.
+   */
+  private sync = new MarkupSync('note-text', (change) => this.applySyncChange(change));
+
   constructor(noteTextManager?: Operators.NoteTextManager) {
     super();
 
@@ -38,7 +81,7 @@ export default class NoteTextService extends EventTarget implements INoteTextSer
       throw new Error('Cannot get note texts: NoteTextManager not initialized');
     }
 
-    return this._noteTextManager.getNoteTextList().map(formatNoteTextItem);
+    return this._noteTextManager.getNoteTextList().map((noteText) => this.formatNoteText(noteText));
   }
 
   public getNoteText(uniqueId: Uuid): NoteTextItemData | undefined {
@@ -49,7 +92,7 @@ export default class NoteTextService extends EventTarget implements INoteTextSer
     const noteText = this._noteTextManager
       .getNoteTextList()
       .find((noteText) => noteText.uniqueId === uniqueId);
-    return noteText ? formatNoteTextItem(noteText) : undefined;
+    return noteText ? this.formatNoteText(noteText) : undefined;
   }
 
   public getNoteTextKeys(): Uuid[] {
@@ -75,7 +118,10 @@ export default class NoteTextService extends EventTarget implements INoteTextSer
     }
 
     await noteText.restore();
-    this._noteTextManager.viewer.markupManager.selectMarkup(noteText, this._noteTextManager.viewer.view);
+    this._noteTextManager.viewer.markupManager.selectMarkup(
+      noteText,
+      this._noteTextManager.viewer.view,
+    );
     return true;
   }
 
@@ -95,7 +141,38 @@ export default class NoteTextService extends EventTarget implements INoteTextSer
     }
 
     const note = this._noteTextManager.getActiveItem();
-    return note ? formatNoteTextItem(note) : undefined;
+    return note ? this.formatNoteText(note) : undefined;
+  }
+
+  /**
+   * Changes the text or the color of a note.
+   *
+   * @param uniqueId the id of the note.
+   * @param patch the changes to apply, the unset properties are left unchanged.
+   * @returns the data of the updated note.
+   */
+  updateNoteText(uniqueId: Uuid, patch: NoteTextPatch): NoteTextItemData {
+    if (!this._noteTextManager) {
+      throw new Error('Cannot update note text: NoteTextManager not initialized');
+    }
+
+    const noteText = this._noteTextManager
+      .getNoteTextList()
+      .find((noteText) => noteText.uniqueId === uniqueId);
+    if (!noteText) {
+      throw new Error(`Note text with id ${uniqueId} not found`);
+    }
+
+    if (patch.text !== undefined) {
+      noteText.setText(patch.text);
+    }
+    if (patch.color) {
+      noteText.setColor(new Color(patch.color.r, patch.color.g, patch.color.b));
+    }
+    this._noteTextManager.viewer.markupManager.refreshMarkup();
+
+    this.noteTextUpdated(noteText);
+    return this.formatNoteText(noteText);
   }
 
   async removeNoteText(item: NoteTextItemData): Promise<void> {
@@ -111,13 +188,304 @@ export default class NoteTextService extends EventTarget implements INoteTextSer
       return;
     }
 
-    return noteText.remove(this.noteTextManager?.viewer.view ?? null);
+    // Keep the data of the note to restore it if the removal is undone, its review is kept too
+    const data = noteText.toJson();
+    await noteText.remove(this._noteTextManager.viewer.view);
+
+    tryGetService<IUndoService>('UndoService')?.record({
+      label: 'Remove note',
+      undo: () => this.restoreNoteText(data),
+      redo: () => this.removeNoteText(item),
+    });
+  }
+
+  /**
+   * Removes several note texts, as a single operation of the undo history.
+   *
+   * @param items the note texts to remove.
+   */
+  async removeNoteTexts(items: NoteTextItemData[]): Promise<void> {
+    const removeItems = async () => {
+      for (const item of items) {
+        await this.removeNoteText(item);
+      }
+    };
+
+    const undoService = tryGetService<IUndoService>('UndoService');
+    await (undoService ? undoService.transaction('Remove notes', removeItems) : removeItems());
+  }
+
+  /**
+   * Adds back a removed note text from its data.
+   *
+   * @param data the note text, as serialized before its removal.
+   */
+  private async restoreNoteText(data: object): Promise<void> {
+    if (!this._noteTextManager) {
+      throw new Error('NoteTextManager is not set');
+    }
+
+    await this._noteTextManager.viewer.markupManager.loadMarkupData({ notes: [data] });
+    this.reset();
+  }
+
+  /**
+   * Lists the note texts matching a query.
+   *
+   * @param query the criteria of the note texts.
+   * @returns the matching note texts.
+   */
+  findNoteTexts(query: MarkupItemQuery): NoteTextItemData[] {
+    if (!this._noteTextManager) {
+      throw new Error('Cannot find note texts: NoteTextManager not initialized');
+    }
+
+    return this._noteTextManager
+      .getNoteTextList()
+      .filter((noteText) => matchesMarkupItemQuery('note', noteText.getText(), query))
+      .map((noteText) => this.formatNoteText(noteText));
+  }
+
+  /**
+   * Groups the note texts matching a query by the node they are attached to.
+   *
+   * @param query the criteria of the note texts, all the note texts by default.
+   * @returns a group per node, in the order of their first note text.
+   */
+  groupNoteTextsByNode(query: MarkupItemQuery = {}): NoteTextNodeGroup[] {
+    if (!this._noteTextManager) {
+      throw new Error('Cannot group note texts: NoteTextManager not initialized');
+    }
+
+    const model = this._noteTextManager.viewer.model;
+    const groups = new Map<NodeId, NoteTextNodeGroup>();
+    for (const noteText of this._noteTextManager.getNoteTextList()) {
+      if (!matchesMarkupItemQuery('note', noteText.getText(), query)) {
+        continue;
+      }
+
+      const nodeId = noteText.getPartId();
+      let group = groups.get(nodeId);
+      if (!group) {
+        group = { nodeId, name: model.getNodeName(nodeId) ?? `${nodeId}`, items: [] };
+        groups.set(nodeId, group);
+      }
+      group.items.push(this.formatNoteText(noteText));
+    }
+
+    return [...groups.values()];
+  }
+
+  getNoteTextVisibility(uniqueId: Uuid): boolean {
+    return this.findNoteText(uniqueId).getVisibility();
+  }
+
+  /**
+   * Shows or hides note texts.
+   *
+   * @param uniqueIds the ids of the note texts.
+   * @param visible whether the note texts are shown.
+   */
+  setNoteTextsVisibility(uniqueIds: Uuid[], visible: boolean): void {
+    const changedIds = uniqueIds.filter((id) => this.getNoteTextVisibility(id) !== visible);
+    if (!changedIds.length) {
+      return;
+    }
+
+    this.applyNoteTextsVisibility(changedIds, visible);
+
+    tryGetService<IUndoService>('UndoService')?.record({
+      label: visible ? 'Show notes' : 'Hide notes',
+      undo: () => this.applyNoteTextsVisibility(changedIds, !visible),
+      redo: () => this.applyNoteTextsVisibility(changedIds, visible),
+    });
+  }
+
+  private applyNoteTextsVisibility(uniqueIds: Uuid[], visible: boolean): void {
+    // The note texts notify their visibility change through the viewer callbacks
+    for (const id of uniqueIds) {
+      const noteText = this.findNoteText(id);
+      if (visible) {
+        noteText.show();
+      } else {
+        noteText.hide();
+      }
+    }
+    this._noteTextManager?.viewer.markupManager.refreshMarkup();
+  }
+
+  /**
+   * Changes the review status of a note.
+   *
+   * @param uniqueId the id of the note.
+   * @param status the new status.
+   * @returns the data of the updated note.
+   */
+  setNoteTextStatus(uniqueId: Uuid, status: NoteTextStatus): NoteTextItemData {
+    if (!NoteTextStatuses.includes(status)) {
+      throw new Error(`Invalid note text status: ${status}`);
+    }
+
+    const noteText = this.findNoteText(uniqueId);
+    this.getReview(uniqueId).status = status;
+    return this.dispatchReviewChanged('hoops-note-text-status-changed', noteText);
+  }
+
+  /**
+   * Assigns a note to someone, usually an email address, or removes its assignee.
+   *
+   * @param uniqueId the id of the note.
+   * @param assignee the new assignee, undefined to remove the assignee.
+   * @returns the data of the updated note.
+   */
+  setNoteTextAssignee(uniqueId: Uuid, assignee: string | undefined): NoteTextItemData {
+    const noteText = this.findNoteText(uniqueId);
+    this.getReview(uniqueId).assignee = assignee?.trim() || undefined;
+    return this.dispatchReviewChanged('hoops-note-text-assignee-changed', noteText);
+  }
+
+  /**
+   * Adds a message to the discussion thread of a note.
+   *
+   * @param uniqueId the id of the note.
+   * @param author the author of the message, usually an email address.
+   * @param message the message.
+   * @returns the created comment.
+   */
+  addNoteTextComment(uniqueId: Uuid, author: string, message: string): NoteTextComment {
+    const noteText = this.findNoteText(uniqueId);
+    if (!message.trim()) {
+      throw new Error('Cannot add note text comment: the message is empty');
+    }
+
+    const comment: NoteTextComment = {
+      id: createUuid(),
+      author,
+      timestamp: new Date().toISOString(),
+      message,
+    };
+    this.getReview(uniqueId).comments.push(comment);
+    this.dispatchReviewChanged('hoops-note-text-comment-added', noteText);
+    return { ...comment };
+  }
+
+  /**
+   * Edits a message of the discussion thread of a note, its timestamp is updated.
+   *
+   * @param uniqueId the id of the note.
+   * @param commentId the id of the comment.
+   * @param message the new message.
+   * @returns the updated comment.
+   */
+  updateNoteTextComment(uniqueId: Uuid, commentId: string, message: string): NoteTextComment {
+    const noteText = this.findNoteText(uniqueId);
+    if (!message.trim()) {
+      throw new Error('Cannot update note text comment: the message is empty');
+    }
+
+    const comment = this.findComment(uniqueId, commentId);
+    Object.assign(comment, { message, timestamp: new Date().toISOString() });
+    this.dispatchReviewChanged('hoops-note-text-comment-updated', noteText);
+    return { ...comment };
+  }
+
+  /**
+   * Removes a message from the discussion thread of a note.
+   *
+   * @param uniqueId the id of the note.
+   * @param commentId the id of the comment.
+   */
+  removeNoteTextComment(uniqueId: Uuid, commentId: string): void {
+    const noteText = this.findNoteText(uniqueId);
+    const comments = this.getReview(uniqueId).comments;
+    comments.splice(comments.indexOf(this.findComment(uniqueId, commentId)), 1);
+    this.dispatchReviewChanged('hoops-note-text-comment-removed', noteText);
+  }
+
+  /**
+   * Replaces the review data of a note, to restore it from a markup document.
+   *
+   * @param uniqueId the id of the note.
+   * @param review the status, the assignee and the discussion thread of the note.
+   * @returns the data of the updated note.
+   */
+  setNoteTextReview(uniqueId: Uuid, review: NoteTextReview): NoteTextItemData {
+    if (!NoteTextStatuses.includes(review.status)) {
+      throw new Error(`Invalid note text status: ${review.status}`);
+    }
+
+    const noteText = this.findNoteText(uniqueId);
+    this.reviews.set(uniqueId, {
+      status: review.status,
+      assignee: review.assignee,
+      comments: review.comments.map((comment) => ({ ...comment })),
+    });
+    return this.dispatchReviewChanged('hoops-note-text-review-changed', noteText);
+  }
+
+  private getReview(uniqueId: Uuid): NoteTextReview {
+    let review = this.reviews.get(uniqueId);
+    if (!review) {
+      review = { status: 'open', comments: [] };
+      this.reviews.set(uniqueId, review);
+    }
+
+    return review;
+  }
+
+  private findComment(uniqueId: Uuid, commentId: string): NoteTextComment {
+    const comment = this.reviews.get(uniqueId)?.comments.find(({ id }) => id === commentId);
+    if (!comment) {
+      throw new Error(`Comment with id ${commentId} not found in note text ${uniqueId}`);
+    }
+
+    return comment;
+  }
+
+  /**
+   * Notifies a change of the review data of a note, along with `hoops-note-text-updated` for the
+   * lists of notes.
+   */
+  private dispatchReviewChanged(
+    type: string,
+    noteText: Operators.Markup.Note.NoteText,
+  ): NoteTextItemData {
+    const noteTextData = this.formatNoteText(noteText);
+    this.dispatchEvent(
+      new CustomEvent<NoteTextItemData>(type, {
+        detail: noteTextData,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+    this.noteTextUpdated(noteText);
+    return noteTextData;
+  }
+
+  private formatNoteText(noteText: Operators.Markup.Note.NoteText): NoteTextItemData {
+    return formatNoteTextItem(noteText, this.reviews.get(noteText.uniqueId));
+  }
+
+  private findNoteText(uniqueId: Uuid): Operators.Markup.Note.NoteText {
+    if (!this._noteTextManager) {
+      throw new Error('NoteTextManager is not set');
+    }
+
+    const noteText = this._noteTextManager
+      .getNoteTextList()
+      .find((noteText) => noteText.uniqueId === uniqueId);
+    if (!noteText) {
+      throw new Error(`Note text with id ${uniqueId} not found`);
+    }
+
+    return noteText;
   }
 
   private noteTextCreated(noteText: Operators.Markup.Note.NoteText): void {
+    this.pushNoteText(noteText);
     this.dispatchEvent(
       new CustomEvent<NoteTextItemData>('hoops-note-text-created', {
-        detail: formatNoteTextItem(noteText),
+        detail: this.formatNoteText(noteText),
         bubbles: true,
         composed: true,
       }),
@@ -125,9 +493,10 @@ export default class NoteTextService extends EventTarget implements INoteTextSer
   }
 
   private noteTextDeleted(noteText: Operators.Markup.Note.NoteText): void {
+    this.sync.push(noteText.uniqueId, null);
     this.dispatchEvent(
       new CustomEvent<NoteTextItemData>('hoops-note-text-deleted', {
-        detail: formatNoteTextItem(noteText),
+        detail: this.formatNoteText(noteText),
         bubbles: true,
         composed: true,
       }),
@@ -135,9 +504,10 @@ export default class NoteTextService extends EventTarget implements INoteTextSer
   }
 
   private noteTextUpdated(noteText: Operators.Markup.Note.NoteText): void {
+    this.pushNoteText(noteText);
     this.dispatchEvent(
       new CustomEvent<NoteTextItemData>('hoops-note-text-updated', {
-        detail: formatNoteTextItem(noteText),
+        detail: this.formatNoteText(noteText),
         bubbles: true,
         composed: true,
       }),
@@ -147,7 +517,7 @@ export default class NoteTextService extends EventTarget implements INoteTextSer
   private noteTextHidden(noteText: Operators.Markup.Note.NoteText): void {
     this.dispatchEvent(
       new CustomEvent<NoteTextItemData>('hoops-note-text-hidden', {
-        detail: formatNoteTextItem(noteText),
+        detail: this.formatNoteText(noteText),
         bubbles: true,
         composed: true,
       }),
@@ -157,13 +527,66 @@ export default class NoteTextService extends EventTarget implements INoteTextSer
   private noteTextShown(noteText: Operators.Markup.Note.NoteText): void {
     this.dispatchEvent(
       new CustomEvent<NoteTextItemData>('hoops-note-text-shown', {
-        detail: formatNoteTextItem(noteText),
+        detail: this.formatNoteText(noteText),
         bubbles: true,
         composed: true,
       }),
     );
   }
 
+  /**
+   * Synchronizes the note texts and their review data with the other viewers through an adapter.
+   * The notes changed by this service are pushed to the adapter, and the notes changed remotely
+   * replace the local ones, the last change of a note wins.
+   *
+   * @param adapter the adapter to synchronize through, undefined to stop the synchronization.
+   */
+  public setSyncAdapter(adapter: MarkupSyncAdapter | undefined): Promise<void> {
+    return this.sync.setAdapter(adapter);
+  }
+
+  private pushNoteText(noteText: Operators.Markup.Note.NoteText): void {
+    if (!this.sync.connected) {
+      return;
+    }
+
+    const data: NoteTextSyncData = {
+      note: noteText.toJson(),
+      review: this.getReview(noteText.uniqueId),
+    };
+    this.sync.push(noteText.uniqueId, data);
+  }
+
+  /**
+   * Replaces a note with its remote state.
+   */
+  private async applySyncChange(change: MarkupSyncChange): Promise<void> {
+    if (!this._noteTextManager) {
+      throw new Error('NoteTextManager is not set');
+    }
+
+    if (change.data && !isNoteTextSyncData(change.data)) {
+      console.warn('Invalid note text change received', change);
+      return;
+    }
+
+    const viewer = this._noteTextManager.viewer;
+    const noteText = this._noteTextManager
+      .getNoteTextList()
+      .find((noteText) => noteText.uniqueId === change.markupId);
+    if (noteText) {
+      await noteText.remove(viewer.view);
+    }
+
+    if (change.data) {
+      const { note, review } = change.data;
+      this.reviews.set(change.markupId, review);
+      await viewer.markupManager.loadMarkupData({ notes: [note] });
+    }
+
+    this.reset();
+  }
+
   private bind(): void {
     if (!this._noteTextManager) {
       throw new Error('NoteTextManager is not set');
@@ -193,6 +616,8 @@ export default class NoteTextService extends EventTarget implements INoteTextSer
     }
 
     this._noteTextManager = value;
+    // The reviews belong to the notes of the previous model
+    this.reviews.clear();
     this.bind();
     this.dispatchEvent(
       new CustomEvent('hoops-note-text-manager-reset', { bubbles: true, composed: true }),
@@ -1,16 +1,62 @@
-import { Uuid } from '@ts3d-hoops/web-viewer';
-import { MarkupItemData } from '../markup';
+import { IColor } from '@ts3d-hoops/common';
+import { NodeId, Uuid } from '@ts3d-hoops/web-viewer';
+import { MarkupItemData, MarkupItemQuery, MarkupSyncAdapter } from '../markup';
 import { IService } from '../types';
 
 const NoteTextItemTypes = ['Communicator.Markup.Note.NoteText'] as const;
 
 export type NoteTextItemType = (typeof NoteTextItemTypes)[number];
 
-export interface NoteTextItemData extends MarkupItemData {
+export const NoteTextStatuses = ['open', 'resolved', 'closed'] as const;
+
+/**
+ * The review status of a note text, the notes are open when created.
+ */
+export type NoteTextStatus = (typeof NoteTextStatuses)[number];
+
+/**
+ * A message of the discussion thread of a note text.
+ */
+export type NoteTextComment = {
+  id: string;
+  author: string;
+  /** The date of the comment, or of its last edit, in ISO 8601 format. */
+  timestamp: string;
+  message: string;
+};
+
+/**
+ * The review data of a note text: its status, its assignee and its discussion thread.
+ */
+export type NoteTextReview = {
+  status: NoteTextStatus;
+  assignee?: string;
+  comments: NoteTextComment[];
+};
+
+export interface NoteTextItemData extends MarkupItemData, NoteTextReview {
   type: NoteTextItemType | (string & {});
   text: string;
 }
 
+/**
+ * The changes applied by `updateNoteText`, the unset properties are left unchanged.
+ */
+export type NoteTextPatch = {
+  text?: string;
+  color?: IColor;
+};
+
+/**
+ * The note texts attached to a node.
+ */
+export type NoteTextNodeGroup = {
+  nodeId: NodeId;
+  /** The name of the node, its id when it has no name. */
+  name: string;
+  items: NoteTextItemData[];
+};
+
 export interface INoteTextService extends IService {
   getNoteTexts(): NoteTextItemData[];
   getNoteText(uniqueId: Uuid): NoteTextItemData | undefined;
@@ -18,6 +64,19 @@ export interface INoteTextService extends IService {
   getActiveNoteTextKey(): Uuid | undefined;
   setActiveNoteText(uniqueId: Uuid): Promise<boolean>;
   getActiveNoteText(): NoteTextItemData | undefined;
+  updateNoteText(uniqueId: Uuid, patch: NoteTextPatch): NoteTextItemData;
   removeNoteText(item: NoteTextItemData): Promise<void>;
+  findNoteTexts(query: MarkupItemQuery): NoteTextItemData[];
+  groupNoteTextsByNode(query?: MarkupItemQuery): NoteTextNodeGroup[];
+  getNoteTextVisibility(uniqueId: Uuid): boolean;
+  setNoteTextsVisibility(uniqueIds: Uuid[], visible: boolean): void;
+  removeNoteTexts(items: NoteTextItemData[]): Promise<void>;
+  setNoteTextStatus(uniqueId: Uuid, status: NoteTextStatus): NoteTextItemData;
+  setNoteTextAssignee(uniqueId: Uuid, assignee: string | undefined): NoteTextItemData;
+  addNoteTextComment(uniqueId: Uuid, author: string, message: string): NoteTextComment;
+  updateNoteTextComment(uniqueId: Uuid, commentId: string, message: string): NoteTextComment;
+  removeNoteTextComment(uniqueId: Uuid, commentId: string): void;
+  setNoteTextReview(uniqueId: Uuid, review: NoteTextReview): NoteTextItemData;
+  setSyncAdapter(adapter: MarkupSyncAdapter | undefined): Promise<void>;
   reset(): void;
 }
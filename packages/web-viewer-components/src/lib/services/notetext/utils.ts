@@ -1,11 +1,17 @@
 import { Operators } from '@ts3d-hoops/web-viewer';
-import { NoteTextItemData } from './types';
+import { NoteTextItemData, NoteTextReview } from './types';
 
-export function formatNoteTextItem(markup: Operators.Markup.Note.NoteText): NoteTextItemData {
+export function formatNoteTextItem(
+  markup: Operators.Markup.Note.NoteText,
+  review: NoteTextReview = { status: 'open', comments: [] },
+): NoteTextItemData {
   return {
     id: markup.uniqueId,
     type: markup.getClassName(),
     text: markup.getText(),
+    status: review.status,
+    assignee: review.assignee,
+    comments: review.comments.map((comment) => ({ ...comment })),
   };
 }
 
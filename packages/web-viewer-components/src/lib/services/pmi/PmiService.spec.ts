@@ -106,6 +106,18 @@ describe('PmiService', () => {
     });
   });
 
+  describe('getConfiguration', () => {
+    it('should return the default configuration when no viewer is set', async () => {
+      expect(await service.getConfiguration()).toEqual(PmiService.DefaultConfig);
+    });
+
+    it('should return the configuration of the viewer', async () => {
+      service.viewer = mockViewer as any;
+
+      expect(await service.getConfiguration()).toEqual({ color: '#123456', isColorOverride: true });
+    });
+  });
+
   describe('resetConfiguration', () => {
     it('should throw error for invalid configuration object', async () => {
       await expect(service.resetConfiguration({ invalid: true })).rejects.toThrow(
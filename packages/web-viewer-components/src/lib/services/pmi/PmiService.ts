@@ -1,5 +1,5 @@
 import { CallbackMap, Color, core, NodeId } from '@ts3d-hoops/web-viewer';
-import { IPmiService, isPmiServiceConfiguration } from './types';
+import { IPmiService, isPmiServiceConfiguration, PmiServiceConfiguration } from './types';
 
 export default class PmiService extends EventTarget implements IPmiService {
   public readonly serviceName = 'PmiService' as const;
@@ -27,6 +27,13 @@ export default class PmiService extends EventTarget implements IPmiService {
     this._viewer.setCallbacks(this.callbackMap);
   }
 
+  public async getConfiguration(): Promise<PmiServiceConfiguration> {
+    return {
+      color: this.getPmiColor(),
+      isColorOverride: this.getPmiColorOverride(),
+    };
+  }
+
   public async resetConfiguration(obj?: object): Promise<void> {
     const config = obj ?? PmiService.DefaultConfig;
 
@@ -1,5 +1,5 @@
 import { NodeId } from '@ts3d-hoops/web-viewer';
-import { IResettableConfigurationService, IService } from '../types';
+import { IConfigurableService, IService } from '../types';
 
 export type PmiServiceConfiguration = {
   color: string;
@@ -16,12 +16,13 @@ export function isPmiServiceConfiguration(obj: unknown): obj is PmiServiceConfig
   return typeof value.color === 'string' && typeof value.isColorOverride === 'boolean';
 }
 
-export interface IPmiService extends IService, IResettableConfigurationService {
+export interface IPmiService extends IService, IConfigurableService {
   getPmiColor(): string;
   setPmiColor(color: string): void;
 
   getPmiColorOverride(): boolean;
   setPmiColorOverride(enableOverride: boolean, rootId?: NodeId): Promise<void>;
 
+  getConfiguration(): Promise<PmiServiceConfiguration>;
   resetConfiguration(obj?: object): Promise<void>;
 }
@@ -2,12 +2,53 @@ import RedlineService from './RedlineService';
 import { MarkupManager, Markup } from '@ts3d-hoops/web-viewer';
 import { formatRedlineView } from './utils';
 import { vi, describe, expect, it, beforeEach } from 'vitest';
-
-vi.mock('./utils', () => ({
-  formatRedlineItem: vi.fn((item) => ({ ...item, formatted: true })),
+import { registerService, unregisterService } from '../serviceRegistry';
+import UndoService from '../undo';
+import { InMemoryMarkupSyncChannel } from '../markup/adapters';
+import { Point3 } from '@ts3d-hoops/common';
+
+vi.mock('./utils', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  formatRedlineItem: vi.fn((item) => ({ ...item, id: item.uniqueId, formatted: true })),
   formatRedlineView: vi.fn((view) => ({ ...view, formatted: true })),
 }));
 
+vi.mock('@ts3d-hoops/web-viewer', async (importOriginal) => {
+  let count = 0;
+  class RedlineItem {
+    uniqueId = `redline-${++count}`;
+    properties: Record<string, unknown> = { color: { r: 255, g: 0, b: 0 }, lineWidth: 1 };
+    constructor(public viewer: unknown) {}
+    getClassName = () => `Communicator.Markup.Redline.${this.constructor.name}`;
+    setStrokeColor = (color: unknown) => (this.properties.color = color);
+    getStrokeColor = () => this.properties.color;
+    setLineWidth = (lineWidth: number) => (this.properties.lineWidth = lineWidth);
+    getLineWidth = () => this.properties.lineWidth;
+  }
+  class RedlineCircle extends RedlineItem {
+    setCenter = (center: unknown) => (this.properties.center = center);
+    setRadius = (radius: number) => (this.properties.radius = radius);
+  }
+  class RedlineRectangle extends RedlineItem {
+    setPosition = (position: unknown) => (this.properties.position = position);
+    setSize = (size: unknown) => (this.properties.size = size);
+  }
+  class RedlinePolyline extends RedlineItem {
+    properties: Record<string, unknown> = { points: [] };
+    addPoint = (point: unknown) => (this.properties.points as unknown[]).push(point);
+  }
+  class RedlineText extends RedlineItem {
+    setPosition = (position: unknown) => (this.properties.position = position);
+    setText = (text: string) => (this.properties.text = text);
+    getText = () => this.properties.text;
+  }
+
+  return {
+    ...(await importOriginal<object>()),
+    Markup: { Redline: { RedlineCircle, RedlineRectangle, RedlinePolyline, RedlineText } },
+  };
+});
+
 const mockMarkupItem = { uniqueId: 'item-1' } as unknown as Markup.MarkupItem;
 const mockMarkupView = {
   getMarkup: vi.fn(() => [mockMarkupItem]),
@@ -15,6 +56,7 @@ const mockMarkupView = {
   removeMarkup: vi.fn(() => {
     return true;
   }),
+  addMarkupItem: vi.fn(),
 } as any;
 
 const mockMarkupManager = {
@@ -217,6 +259,21 @@ describe('RedlineService', () => {
     expect(mockMarkupView.removeMarkup).toHaveBeenCalledWith({ uniqueId: 'item-1' });
   });
 
+  it('should add the redline item back when the removal is undone', async () => {
+    const service = new RedlineService(mockMarkupManager);
+    const undoService = new UndoService();
+    registerService(undoService);
+    const listener = vi.fn();
+    service.addEventListener('hoops-redline-created', listener);
+
+    await service.removeRedlineItem('view-1', { id: 'item-1', type: 'test' });
+    await undoService.undo();
+
+    expect(mockMarkupView.addMarkupItem).toHaveBeenCalledWith(mockMarkupItem);
+    expect(listener).toHaveBeenCalledOnce();
+    unregisterService('UndoService');
+  });
+
   it('should throw if trying to remove redline item if view not found', async () => {
     const service = new RedlineService({
       ...mockMarkupManager,
@@ -237,4 +294,278 @@ describe('RedlineService', () => {
       service.removeRedlineItem('view-1', { id: 'item-1', type: 'test' }),
     ).rejects.toThrow('MarkupManager is not set');
   });
+
+  describe('editing', () => {
+    let items: any[];
+    let view: any;
+    let markupManager: any;
+    let service: RedlineService;
+
+    beforeEach(() => {
+      items = [];
+      view = {
+        getUniqueId: () => 'view-2',
+        getMarkup: () => items,
+        addMarkupItem: vi.fn((item) => items.push(item)),
+        removeMarkup: vi.fn((item) => items.splice(items.indexOf(item), 1)),
+        setCamera: vi.fn(),
+        toJson: () => ({ uniqueId: 'view-2', markup: items.map((item) => item.uniqueId) }),
+      };
+      markupManager = {
+        ...mockMarkupManager,
+        getMarkupViewKeys: () => ['view-2'],
+        getMarkupView: (key: string) => (key === 'view-2' ? view : undefined),
+        createMarkupView: vi.fn(() => 'view-2'),
+        refreshMarkup: vi.fn(),
+      };
+      service = new RedlineService(markupManager);
+    });
+
+    it('should create a redline view with the given camera', () => {
+      const listener = vi.fn();
+      service.addEventListener('hoops-redline-view-created', listener);
+      const camera = {} as any;
+
+      expect(service.createRedlineView(camera)).toBe('view-2');
+      expect(view.setCamera).toHaveBeenCalledWith(camera);
+      expect(listener.mock.calls[0][0].detail).toEqual({ markupViewId: 'view-2' });
+    });
+
+    it('should add styled redline items and dispatch hoops-redline-created', () => {
+      const listener = vi.fn();
+      service.addEventListener('hoops-redline-created', listener);
+
+      const circle = service.addRedlineCircle(
+        'view-2',
+        { center: new Point3(1, 2, 3), radius: 5 },
+        { color: { r: 0, g: 0, b: 255 }, lineWidth: 3 },
+      );
+      service.addRedlineRectangle('view-2', {
+        position: new Point3(0, 0, 0),
+        size: new Point3(2, 1, 0),
+      });
+      service.addRedlinePolyline('view-2', { points: [new Point3(0, 0, 0), new Point3(1, 1, 0)] });
+      service.addRedlineText('view-2', { position: new Point3(0, 0, 0), text: 'Check' });
+
+      expect(items).toHaveLength(4);
+      expect(circle.id).toBe(items[0].uniqueId);
+      expect(items[0].properties).toMatchObject({
+        center: { x: 1, y: 2, z: 3 },
+        radius: 5,
+        color: { r: 0, g: 0, b: 255 },
+        lineWidth: 3,
+      });
+      expect(items[1].properties.size).toEqual({ x: 2, y: 1, z: 0 });
+      expect(items[2].properties.points).toHaveLength(2);
+      expect(items[3].properties.text).toBe('Check');
+      expect(listener).toHaveBeenCalledTimes(4);
+      expect(listener.mock.calls[0][0].detail.markupViewId).toBe('view-2');
+      expect(markupManager.refreshMarkup).toHaveBeenCalled();
+    });
+
+    it('should reject the invalid redline items', () => {
+      expect(() => service.addRedlinePolyline('view-2', { points: [new Point3(0, 0, 0)] })).toThrow(
+        'A redline polyline needs at least two points',
+      );
+      expect(() =>
+        service.addRedlineCircle('view-3', { center: new Point3(0, 0, 0), radius: 1 }),
+      ).toThrow('Redline view with ID view-3 not found');
+
+      const circle = service.addRedlineCircle('view-2', {
+        center: new Point3(0, 0, 0),
+        radius: 1,
+      });
+      expect(() => service.updateRedlineItem('view-2', circle.id, { text: 'Text' })).toThrow(
+        `Redline item with ID ${circle.id} is not a text`,
+      );
+      expect(() => service.updateRedlineItem('view-2', 'unknown', { lineWidth: 2 })).toThrow(
+        'Redline item with ID unknown not found in view view-2',
+      );
+    });
+
+    it('should update redline items and undo the changes', async () => {
+      const undoService = new UndoService();
+      registerService(undoService);
+      const listener = vi.fn();
+      service.addEventListener('hoops-redline-updated', listener);
+
+      const text = service.addRedlineText('view-2', {
+        position: new Point3(0, 0, 0),
+        text: 'Check',
+      });
+      service.updateRedlineItem('view-2', text.id, {
+        text: 'Checked',
+        color: { r: 0, g: 128, b: 0 },
+      });
+
+      expect(items[0].properties).toMatchObject({ text: 'Checked', color: { r: 0, g: 128, b: 0 } });
+      expect(listener.mock.calls[0][0].detail.markupViewId).toBe('view-2');
+
+      await undoService.undo();
+      expect(items[0].properties).toMatchObject({ text: 'Check', color: { r: 255, g: 0, b: 0 } });
+
+      await undoService.undo();
+      expect(items).toHaveLength(0);
+
+      await undoService.redo();
+      expect(items).toHaveLength(1);
+      unregisterService('UndoService');
+    });
+
+    it('should find the redline items by kind, text and view', () => {
+      const circle = service.addRedlineCircle('view-2', {
+        center: new Point3(0, 0, 0),
+        radius: 1,
+      });
+      const text = service.addRedlineText('view-2', {
+        position: new Point3(0, 0, 0),
+        text: 'Check the Weld',
+      });
+
+      expect(service.findRedlineViews({})[0].items.map((item) => item.id)).toEqual([
+        circle.id,
+        text.id,
+      ]);
+      expect(service.findRedlineViews({ kinds: ['circle'] })[0].items).toEqual([
+        expect.objectContaining({ id: circle.id }),
+      ]);
+      expect(service.findRedlineViews({ text: ' weld' })[0].items).toEqual([
+        expect.objectContaining({ id: text.id }),
+      ]);
+      expect(service.findRedlineViews({ kinds: ['note'] })).toEqual([]);
+      // The active view of the markup manager is view-1
+      expect(service.findRedlineViews({ activeViewOnly: true })).toEqual([]);
+    });
+
+    it('should hide and remove several redline items as single operations', async () => {
+      const undoService = new UndoService();
+      registerService(undoService);
+      const listener = vi.fn();
+      service.addEventListener('hoops-redline-visibility-changed', listener);
+      const references = [
+        service.addRedlineCircle('view-2', { center: new Point3(0, 0, 0), radius: 1 }),
+        service.addRedlineText('view-2', { position: new Point3(0, 0, 0), text: 'Check' }),
+      ].map((markupItem) => ({ markupViewId: 'view-2', markupItem }));
+
+      service.setRedlineItemsVisibility(references, false);
+
+      expect(service.getRedlineItemVisibility('view-2', references[0].markupItem.id)).toBe(false);
+      // The hidden items are kept out of the view, yet still listed and serialized
+      expect(items).toHaveLength(0);
+      expect(service.findRedlineViews({})[0].items).toHaveLength(2);
+      expect(service.getHiddenRedlineItems()).toEqual(references);
+      expect(service.includeHiddenRedlineItems(() => view.toJson()).markup).toHaveLength(2);
+      expect(items).toHaveLength(0);
+      expect(listener.mock.calls[0][0].detail).toEqual({ items: references, visible: false });
+
+      await undoService.undo();
+      expect(service.getRedlineItemVisibility('view-2', references[1].markupItem.id)).toBe(true);
+      expect(items).toHaveLength(2);
+      expect(service.getHiddenRedlineItems()).toEqual([]);
+
+      // Keep an item so that the view is not removed with the others
+      service.addRedlinePolyline('view-2', { points: [new Point3(0, 0, 0), new Point3(1, 1, 0)] });
+      await service.removeRedlineItems(references);
+      expect(items).toHaveLength(1);
+      expect(undoService.getUndoLabel()).toBe('Remove redlines');
+
+      await undoService.undo();
+      expect(items).toHaveLength(3);
+      unregisterService('UndoService');
+    });
+
+    it('should keep a hidden redline item hidden when its removal is undone', async () => {
+      const undoService = new UndoService();
+      registerService(undoService);
+      service.addRedlinePolyline('view-2', { points: [new Point3(0, 0, 0), new Point3(1, 1, 0)] });
+      const reference = {
+        markupViewId: 'view-2',
+        markupItem: service.addRedlineCircle('view-2', { center: new Point3(0, 0, 0), radius: 1 }),
+      };
+      service.setRedlineItemsVisibility([reference], false);
+
+      await service.removeRedlineItem('view-2', reference.markupItem);
+      expect(service.findRedlineViews({})[0].items).toHaveLength(1);
+      expect(service.getHiddenRedlineItems()).toEqual([]);
+
+      await undoService.undo();
+      expect(items).toHaveLength(1);
+      expect(service.getRedlineItemVisibility('view-2', reference.markupItem.id)).toBe(false);
+      unregisterService('UndoService');
+    });
+
+    it('should restore the view of its last redline item when the removal is undone', async () => {
+      const undoService = new UndoService();
+      registerService(undoService);
+      let removed = false;
+      markupManager.getMarkupView = (key: string) =>
+        key === 'view-2' && !removed ? view : undefined;
+      markupManager.deleteMarkupView = vi.fn(() => (removed = true));
+      markupManager.loadMarkupData = vi.fn(async () => {
+        removed = false;
+        items.length = 0;
+      });
+      const circle = service.addRedlineCircle('view-2', {
+        center: new Point3(0, 0, 0),
+        radius: 1,
+      });
+
+      await service.removeRedlineItem('view-2', circle);
+      expect(markupManager.deleteMarkupView).toHaveBeenCalledWith('view-2');
+
+      await undoService.undo();
+      expect(markupManager.loadMarkupData).toHaveBeenCalledWith({
+        views: [{ uniqueId: 'view-2', markup: [] }],
+      });
+      expect(items.map((item) => item.uniqueId)).toEqual([circle.id]);
+
+      await undoService.redo();
+      expect(removed).toBe(true);
+
+      await undoService.undo();
+      expect(items.map((item) => item.uniqueId)).toEqual([circle.id]);
+      unregisterService('UndoService');
+    });
+
+    it('should synchronize the redline views with another service', async () => {
+      const remoteViews = new Map<string, object>();
+      const remoteMarkupManager = {
+        ...mockMarkupManager,
+        getMarkupView: (key: string) => remoteViews.get(key),
+        deleteMarkupView: vi.fn((key: string) => remoteViews.delete(key)),
+        loadMarkupData: vi.fn(async ({ views }: { views: { uniqueId: string }[] }) => {
+          views.forEach((data) => remoteViews.set(data.uniqueId, data));
+        }),
+      };
+      const remoteService = new RedlineService(remoteMarkupManager as any);
+      const channel = new InMemoryMarkupSyncChannel();
+      await service.setSyncAdapter(channel.createAdapter());
+      await remoteService.setSyncAdapter(channel.createAdapter());
+
+      const circle = service.addRedlineCircle('view-2', {
+        center: new Point3(0, 0, 0),
+        radius: 1,
+      });
+      await vi.waitFor(() =>
+        expect(remoteViews.get('view-2')).toEqual({ uniqueId: 'view-2', markup: [circle.id] }),
+      );
+
+      const text = service.addRedlineText('view-2', {
+        position: new Point3(0, 0, 0),
+        text: 'Check',
+      });
+      await service.removeRedlineItem('view-2', circle);
+      await vi.waitFor(() =>
+        expect(remoteViews.get('view-2')).toEqual({ uniqueId: 'view-2', markup: [text.id] }),
+      );
+      // The changes applied remotely are not sent back
+      expect(channel.changes.map((change) => change.data)).toEqual([
+        { uniqueId: 'view-2', markup: [circle.id] },
+        { uniqueId: 'view-2', markup: [circle.id, text.id] },
+        { uniqueId: 'view-2', markup: [text.id] },
+      ]);
+
+      await service.setSyncAdapter(undefined);
+    });
+  });
 });
@@ -1,6 +1,30 @@
-import { CallbackMap, Markup, MarkupManager, Uuid } from '@ts3d-hoops/web-viewer';
-import { IRedlineService, RedlineItemData, RedlineViewData } from './types';
-import { formatRedlineItem, formatRedlineView } from './utils';
+import { Color } from '@ts3d-hoops/common';
+import { Camera, CallbackMap, Markup, MarkupManager, Uuid } from '@ts3d-hoops/web-viewer';
+import {
+  IRedlineService,
+  RedlineCircleGeometry,
+  RedlineItemData,
+  RedlineItemPatch,
+  RedlineItemReference,
+  RedlinePolylineGeometry,
+  RedlineRectangleGeometry,
+  RedlineStyle,
+  RedlineTextGeometry,
+  RedlineViewData,
+  RedlineViewQuery,
+} from './types';
+import { formatRedlineItem, formatRedlineView, getRedlineItemKind } from './utils';
+import MarkupSync from '../markup/MarkupSync';
+import { MarkupSyncAdapter, MarkupSyncChange } from '../markup/types';
+import { isMarkupItemQueryFiltering, matchesMarkupItemQuery } from '../markup/utils';
+import { tryGetService } from '../serviceRegistry';
+import type { IUndoService } from '../undo';
+
+type RedlineMarkupItem =
+  | Markup.Redline.RedlineCircle
+  | Markup.Redline.RedlineRectangle
+  | Markup.Redline.RedlinePolyline
+  | Markup.Redline.RedlineText;
 
 export default class RedlineService extends EventTarget implements IRedlineService {
   public readonly serviceName = 'RedlineService' as const;
@@ -9,6 +33,17 @@ export default class RedlineService extends EventTarget implements IRedlineServi
 
   private callbackMap: CallbackMap;
 
+  /**
+   * The items hidden with `setRedlineItemsVisibility`, by view. They are kept out of their view
+   * so that the markup manager neither draws nor picks them.
+   */
+  private hiddenItems = new Map<Uuid, Markup.MarkupItem[]>();
+
+  /**
+   * Synchronizes the redline views with the other viewers, see `setSyncAdapter`.
+   */
+  private sync = new MarkupSync('redline-view', (change) => this.applySyncChange(change));
+
   constructor(markupManager?: MarkupManager) {
     super();
     this._markupManager = markupManager;
@@ -42,8 +77,9 @@ export default class RedlineService extends EventTarget implements IRedlineServi
       console.warn('Markup view not found for the created redline', markupItemData);
       return;
     }
-    
+
     this._markupManager.selectMarkup(markup, this._markupManager.viewer.view);
+    this.pushRedlineView(markupViewId);
 
     this.dispatchEvent(
       new CustomEvent<{
@@ -74,6 +110,7 @@ export default class RedlineService extends EventTarget implements IRedlineServi
       return;
     }
 
+    this.pushRedlineView(markupViewId);
     this.dispatchEvent(
       new CustomEvent<{
         markupViewId: Uuid;
@@ -94,6 +131,8 @@ export default class RedlineService extends EventTarget implements IRedlineServi
       throw new Error('MarkupManager is not set');
     }
 
+    this.hiddenItems.delete(view.getUniqueId());
+    this.sync.push(view.getUniqueId(), null);
     this.dispatchEvent(
       new CustomEvent<{
         markupViewId: Uuid;
@@ -136,6 +175,7 @@ export default class RedlineService extends EventTarget implements IRedlineServi
     }
 
     this._markupManager = value;
+    this.hiddenItems.clear();
     this.bind();
     this.dispatchEvent(
       new CustomEvent('hoops-redline-service-reset', { bubbles: true, composed: true }),
@@ -155,7 +195,10 @@ export default class RedlineService extends EventTarget implements IRedlineServi
   public getRedlineViews(): RedlineViewData[] {
     return (
       this._markupManager?.getMarkupViewKeys().map((key) => {
-        return formatRedlineView(this._markupManager!.getMarkupView(key)!);
+        return formatRedlineView(
+          this._markupManager!.getMarkupView(key)!,
+          this.getHiddenItems(key),
+        );
       }) || []
     );
   }
@@ -166,7 +209,7 @@ export default class RedlineService extends EventTarget implements IRedlineServi
       return undefined;
     }
 
-    return formatRedlineView(view);
+    return formatRedlineView(view, this.getHiddenItems(uniqueId));
   }
 
   public getActiveViewKey(): Uuid | undefined {
@@ -209,15 +252,437 @@ export default class RedlineService extends EventTarget implements IRedlineServi
     }
 
     const view = this._markupManager?.getMarkupView(activeViewKey);
-    return formatRedlineView(view!);
+    return formatRedlineView(view!, this.getHiddenItems(activeViewKey));
+  }
+
+  /**
+   * Creates an empty redline view.
+   *
+   * @param camera the camera of the view, the current camera of the viewer by default.
+   * @returns the id of the created view.
+   */
+  public createRedlineView(camera?: Camera): Uuid {
+    if (!this._markupManager) {
+      throw new Error('MarkupManager is not set');
+    }
+
+    const viewId = this._markupManager.createMarkupView();
+    if (camera) {
+      this._markupManager.getMarkupView(viewId)?.setCamera(camera);
+    }
+    this.pushRedlineView(viewId);
+
+    this.dispatchEvent(
+      new CustomEvent<{ markupViewId: Uuid }>('hoops-redline-view-created', {
+        detail: {
+          markupViewId: viewId,
+        },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+
+    return viewId;
+  }
+
+  public addRedlineCircle(
+    viewId: Uuid,
+    geometry: RedlineCircleGeometry,
+    style: RedlineStyle = {},
+  ): RedlineItemData {
+    const view = this.findMarkupView(viewId);
+    const circle = new Markup.Redline.RedlineCircle(this._markupManager!.viewer);
+    circle.setCenter(geometry.center.copy());
+    circle.setRadius(geometry.radius);
+    return this.addRedlineItem(view, circle, style);
+  }
+
+  public addRedlineRectangle(
+    viewId: Uuid,
+    geometry: RedlineRectangleGeometry,
+    style: RedlineStyle = {},
+  ): RedlineItemData {
+    const view = this.findMarkupView(viewId);
+    const rectangle = new Markup.Redline.RedlineRectangle(this._markupManager!.viewer);
+    rectangle.setPosition(geometry.position.copy());
+    rectangle.setSize(geometry.size.copy());
+    return this.addRedlineItem(view, rectangle, style);
+  }
+
+  public addRedlinePolyline(
+    viewId: Uuid,
+    geometry: RedlinePolylineGeometry,
+    style: RedlineStyle = {},
+  ): RedlineItemData {
+    if (geometry.points.length < 2) {
+      throw new Error('A redline polyline needs at least two points');
+    }
+
+    const view = this.findMarkupView(viewId);
+    const polyline = new Markup.Redline.RedlinePolyline(this._markupManager!.viewer);
+    for (const point of geometry.points) {
+      polyline.addPoint(point.copy());
+    }
+    return this.addRedlineItem(view, polyline, style);
+  }
+
+  public addRedlineText(
+    viewId: Uuid,
+    geometry: RedlineTextGeometry,
+    style: RedlineStyle = {},
+  ): RedlineItemData {
+    const view = this.findMarkupView(viewId);
+    const text = new Markup.Redline.RedlineText(this._markupManager!.viewer);
+    text.setPosition(geometry.position.copy());
+    text.setText(geometry.text);
+    return this.addRedlineItem(view, text, style);
+  }
+
+  /**
+   * Changes the text or the style of a redline item.
+   *
+   * @param viewId the id of the view containing the item.
+   * @param itemId the id of the item.
+   * @param patch the changes to apply, the unset properties are left unchanged.
+   * @returns the data of the updated item.
+   */
+  public updateRedlineItem(viewId: Uuid, itemId: Uuid, patch: RedlineItemPatch): RedlineItemData {
+    const markupItem = this.findMarkupItem(viewId, itemId);
+    const isText = markupItem instanceof Markup.Redline.RedlineText;
+    if (patch.text !== undefined && !isText) {
+      throw new Error(`Redline item with ID ${itemId} is not a text`);
+    }
+
+    // Keep the replaced values to restore them if the update is undone
+    const previous: RedlineItemPatch = {};
+    if (patch.color !== undefined) {
+      const color = markupItem.getStrokeColor();
+      previous.color = { r: color.r, g: color.g, b: color.b };
+    }
+    if (patch.lineWidth !== undefined) {
+      previous.lineWidth = markupItem.getLineWidth();
+    }
+    if (patch.text !== undefined && isText) {
+      previous.text = markupItem.getText();
+    }
+
+    this.applyRedlinePatch(viewId, markupItem, patch);
+
+    tryGetService<IUndoService>('UndoService')?.record({
+      label: 'Edit redline',
+      undo: () => this.applyRedlinePatch(viewId, markupItem, previous),
+      redo: () => this.applyRedlinePatch(viewId, markupItem, patch),
+    });
+
+    return formatRedlineItem(markupItem);
   }
 
   public async removeRedlineItem(viewId: Uuid, item: RedlineItemData): Promise<void> {
-    /**
-     * This manager only removes the redline items because it is a UI service meant to correspond
-     * to the UI capabilities. To add redline user should use the RedlineOperator.
-     */
+    if (!this._markupManager) {
+      throw new Error('MarkupManager is not set');
+    }
+
+    const view = this._markupManager.getMarkupView(viewId);
+    if (!view) {
+      throw new Error(`Redline view with ID ${viewId} not found`);
+    }
+
+    const markupItem = this.findMarkupItem(viewId, item.id);
+    const hidden = this.isHidden(viewId, markupItem);
+    if (hidden) {
+      this.setHiddenItems(
+        viewId,
+        this.getHiddenItems(viewId).filter((hiddenItem) => hiddenItem !== markupItem),
+      );
+    } else {
+      /*
+        No need to check the return value of removeMarkupItem, as it will only return false if
+        the item is not found in the view, which we already checked above.
+      */
+      view.removeMarkup(markupItem);
+    }
+
+    let viewData: object | undefined;
+    if (view.getMarkup().length === 0 && this.getHiddenItems(viewId).length === 0) {
+      // If the view is empty, remove it, keeping its data to restore it if the removal is undone
+      viewData = view.toJson();
+      this.removeRedlineView(viewId);
+    }
+    this.pushRedlineView(viewId);
+
+    tryGetService<IUndoService>('UndoService')?.record({
+      label: 'Remove redline',
+      undo: async () => {
+        await this.restoreRedlineItem(viewId, markupItem, viewData);
+        if (hidden) {
+          this.applyRedlineItemsVisibility([{ markupViewId: viewId, markupItem: item }], false);
+        }
+      },
+      redo: () => this.removeRedlineItem(viewId, item),
+    });
+  }
+
+  /**
+   * Removes several redline items, as a single operation of the undo history.
+   *
+   * @param items the items to remove and their views.
+   */
+  public async removeRedlineItems(items: RedlineItemReference[]): Promise<void> {
+    const removeItems = async () => {
+      for (const { markupViewId, markupItem } of items) {
+        await this.removeRedlineItem(markupViewId, markupItem);
+      }
+    };
+
+    const undoService = tryGetService<IUndoService>('UndoService');
+    await (undoService ? undoService.transaction('Remove redlines', removeItems) : removeItems());
+  }
 
+  /**
+   * Lists the redline views and their items matching a query.
+   * The views without matching items are left out when the query filters the items.
+   *
+   * @param query the criteria of the items and of the views.
+   * @returns the matching views, with their matching items only.
+   */
+  public findRedlineViews(query: RedlineViewQuery): RedlineViewData[] {
+    if (!this._markupManager) {
+      return [];
+    }
+
+    const activeViewKey = this.getActiveViewKey();
+    const filtering = isMarkupItemQueryFiltering(query);
+    const views: RedlineViewData[] = [];
+    for (const key of this._markupManager.getMarkupViewKeys()) {
+      const view = this._markupManager.getMarkupView(key);
+      if (!view || (query.activeViewOnly && key !== activeViewKey)) {
+        continue;
+      }
+
+      const items = [...view.getMarkup(), ...this.getHiddenItems(key)]
+        .filter((markupItem) =>
+          matchesMarkupItemQuery(
+            getRedlineItemKind(markupItem.getClassName()),
+            markupItem instanceof Markup.Redline.RedlineText ? markupItem.getText() : undefined,
+            query,
+          ),
+        )
+        .map(formatRedlineItem);
+      if (items.length || !filtering) {
+        views.push({ id: view.getUniqueId(), items });
+      }
+    }
+
+    return views;
+  }
+
+  public getRedlineItemVisibility(viewId: Uuid, itemId: Uuid): boolean {
+    return !this.isHidden(viewId, this.findMarkupItem(viewId, itemId));
+  }
+
+  /**
+   * Lists the items hidden with `setRedlineItemsVisibility`, to save their visibility along with
+   * the markup.
+   *
+   * @returns the hidden items and their views.
+   */
+  public getHiddenRedlineItems(): RedlineItemReference[] {
+    return [...this.hiddenItems].flatMap(([markupViewId, items]) =>
+      items.map((item) => ({ markupViewId, markupItem: formatRedlineItem(item) })),
+    );
+  }
+
+  /**
+   * Runs a function with the hidden redline items back in their views, so that the markup it
+   * serializes keeps them. The items are taken out of their views again before it returns, they
+   * are not drawn in between.
+   *
+   * @param callback the function serializing the markup.
+   * @returns the result of the function.
+   */
+  public includeHiddenRedlineItems<T>(callback: () => T): T {
+    const views = [...this.hiddenItems].flatMap(([viewId, items]) => {
+      const view = this._markupManager?.getMarkupView(viewId);
+      return view ? [{ view, items }] : [];
+    });
+
+    views.forEach(({ view, items }) => items.forEach((item) => view.addMarkupItem(item)));
+    try {
+      return callback();
+    } finally {
+      views.forEach(({ view, items }) => items.forEach((item) => view.removeMarkup(item)));
+    }
+  }
+
+  /**
+   * Shows or hides redline items, the hidden items are neither drawn nor selectable.
+   *
+   * @param items the items to show or hide and their views.
+   * @param visible whether the items are shown.
+   */
+  public setRedlineItemsVisibility(items: RedlineItemReference[], visible: boolean): void {
+    const changedItems = items.filter(
+      ({ markupViewId, markupItem }) =>
+        this.getRedlineItemVisibility(markupViewId, markupItem.id) !== visible,
+    );
+    if (!changedItems.length) {
+      return;
+    }
+
+    this.applyRedlineItemsVisibility(changedItems, visible);
+
+    tryGetService<IUndoService>('UndoService')?.record({
+      label: visible ? 'Show redlines' : 'Hide redlines',
+      undo: () => this.applyRedlineItemsVisibility(changedItems, !visible),
+      redo: () => this.applyRedlineItemsVisibility(changedItems, visible),
+    });
+  }
+
+  private applyRedlineItemsVisibility(items: RedlineItemReference[], visible: boolean): void {
+    for (const { markupViewId, markupItem } of items) {
+      const view = this.findMarkupView(markupViewId);
+      const item = this.findMarkupItem(markupViewId, markupItem.id);
+      const hiddenItems = this.getHiddenItems(markupViewId);
+      if (hiddenItems.includes(item) === !visible) {
+        continue;
+      }
+
+      // The markup items have no visibility of their own, the hidden ones are kept out of the view
+      if (visible) {
+        this.setHiddenItems(
+          markupViewId,
+          hiddenItems.filter((hiddenItem) => hiddenItem !== item),
+        );
+        view.addMarkupItem(item);
+      } else {
+        view.removeMarkup(item);
+        this.setHiddenItems(markupViewId, [...hiddenItems, item]);
+      }
+    }
+    this._markupManager?.refreshMarkup();
+
+    this.dispatchEvent(
+      new CustomEvent<{
+        items: RedlineItemReference[];
+        visible: boolean;
+      }>('hoops-redline-visibility-changed', {
+        detail: { items, visible },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  /**
+   * Adds back a removed redline item, along with its view if it has been removed too.
+   *
+   * @param viewId the id of the view the item was removed from.
+   * @param markupItem the removed item.
+   * @param viewData the data of the view, if it has been removed.
+   */
+  private async restoreRedlineItem(
+    viewId: Uuid,
+    markupItem: Markup.MarkupItem,
+    viewData?: object,
+  ): Promise<void> {
+    if (!this._markupManager) {
+      throw new Error('MarkupManager is not set');
+    }
+
+    const view = this._markupManager.getMarkupView(viewId);
+    if (view) {
+      view.addMarkupItem(markupItem);
+      this.redlineCreated(markupItem);
+      return;
+    }
+
+    if (!viewData) {
+      throw new Error(`Redline view with ID ${viewId} not found`);
+    }
+
+    // The data of the view has been taken without the item, add the item itself back so that
+    // the other operations of the history still refer to it
+    await this._markupManager.loadMarkupData({ views: [viewData] });
+    const restoredView = this._markupManager.getMarkupView(viewId);
+    if (!restoredView) {
+      throw new Error(`Failed to restore redline view with ID ${viewId}`);
+    }
+
+    restoredView.addMarkupItem(markupItem);
+    this.pushRedlineView(viewId);
+    this.reset();
+  }
+
+  /**
+   * Styles a new redline item and adds it to a view, as the redline operators do.
+   *
+   * @param view the view to add the item to.
+   * @param markupItem the item to add.
+   * @param style the style of the item.
+   * @returns the data of the added item.
+   */
+  private addRedlineItem(
+    view: Markup.MarkupView,
+    markupItem: RedlineMarkupItem,
+    style: RedlineStyle,
+  ): RedlineItemData {
+    const markupManager = this._markupManager!;
+    this.applyRedlineStyle(markupItem, style);
+    view.addMarkupItem(markupItem);
+    markupManager.refreshMarkup();
+    this.redlineCreated(markupItem);
+
+    const viewId = view.getUniqueId();
+    tryGetService<IUndoService>('UndoService')?.record({
+      label: 'Add redline',
+      undo: () => {
+        view.removeMarkup(markupItem);
+        markupManager.refreshMarkup();
+        this.pushRedlineView(viewId);
+      },
+      redo: () => this.restoreRedlineItem(viewId, markupItem),
+    });
+
+    return formatRedlineItem(markupItem);
+  }
+
+  private applyRedlineStyle(markupItem: RedlineMarkupItem, style: RedlineStyle): void {
+    if (style.color) {
+      markupItem.setStrokeColor(new Color(style.color.r, style.color.g, style.color.b));
+    }
+    if (style.lineWidth !== undefined) {
+      markupItem.setLineWidth(style.lineWidth);
+    }
+  }
+
+  private applyRedlinePatch(
+    viewId: Uuid,
+    markupItem: RedlineMarkupItem,
+    patch: RedlineItemPatch,
+  ): void {
+    this.applyRedlineStyle(markupItem, patch);
+    if (patch.text !== undefined && markupItem instanceof Markup.Redline.RedlineText) {
+      markupItem.setText(patch.text);
+    }
+    this._markupManager?.refreshMarkup();
+    this.pushRedlineView(viewId);
+
+    this.dispatchEvent(
+      new CustomEvent<{
+        markupViewId: Uuid;
+        markup: RedlineItemData;
+      }>('hoops-redline-updated', {
+        detail: {
+          markupViewId: viewId,
+          markup: formatRedlineItem(markupItem),
+        },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private findMarkupView(viewId: Uuid): Markup.MarkupView {
     if (!this._markupManager) {
       throw new Error('MarkupManager is not set');
     }
@@ -227,22 +692,37 @@ export default class RedlineService extends EventTarget implements IRedlineServi
       throw new Error(`Redline view with ID ${viewId} not found`);
     }
 
-    const markupItem = view.getMarkup().find((m) => m.uniqueId === item.id);
+    return view;
+  }
+
+  private findMarkupItem(viewId: Uuid, itemId: Uuid): RedlineMarkupItem {
+    const markupItem = [
+      ...this.findMarkupView(viewId).getMarkup(),
+      ...this.getHiddenItems(viewId),
+    ].find((m) => m.uniqueId === itemId) as RedlineMarkupItem | undefined;
     if (!markupItem) {
-      throw new Error(`Redline item with ID ${item.id} not found in view ${viewId}`);
+      throw new Error(`Redline item with ID ${itemId} not found in view ${viewId}`);
     }
 
-    /*
-      No need to check the return value of removeMarkupItem, as it will only return false if
-      the item is not found in the view, which we already checked above.
-    */
-    view.removeMarkup(markupItem);
-    if (view.getMarkup().length === 0) {
-      // If the view is empty, remove it
-      this.removeRedlineView(viewId);
+    return markupItem;
+  }
+
+  private getHiddenItems(viewId: Uuid): Markup.MarkupItem[] {
+    return this.hiddenItems.get(viewId) ?? [];
+  }
+
+  private setHiddenItems(viewId: Uuid, items: Markup.MarkupItem[]): void {
+    if (items.length) {
+      this.hiddenItems.set(viewId, items);
+    } else {
+      this.hiddenItems.delete(viewId);
     }
   }
 
+  private isHidden(viewId: Uuid, markupItem: Markup.MarkupItem): boolean {
+    return this.getHiddenItems(viewId).includes(markupItem);
+  }
+
   public removeRedlineView(uniqueId: Uuid): void {
     if (!this._markupManager) {
       throw new Error('MarkupManager is not set');
@@ -257,4 +737,54 @@ export default class RedlineService extends EventTarget implements IRedlineServi
       throw new Error(`Failed to remove redline view with ID ${uniqueId}`);
     }
   }
+
+  /**
+   * Synchronizes the redline views with the other viewers through an adapter. The views changed
+   * by this service are pushed to the adapter, and the views changed remotely replace the local
+   * ones, the last change of a view wins.
+   *
+   * @param adapter the adapter to synchronize through, undefined to stop the synchronization.
+   */
+  public setSyncAdapter(adapter: MarkupSyncAdapter | undefined): Promise<void> {
+    return this.sync.setAdapter(adapter);
+  }
+
+  /**
+   * Pushes the current state of a view to the other viewers, null if it has been removed.
+   */
+  private pushRedlineView(viewId: Uuid): void {
+    if (!this.sync.connected) {
+      return;
+    }
+
+    const view = this._markupManager?.getMarkupView(viewId);
+    this.sync.push(viewId, view ? this.includeHiddenRedlineItems(() => view.toJson()) : null);
+  }
+
+  /**
+   * Replaces a view with its remote state, keeping it active if it was.
+   */
+  private async applySyncChange(change: MarkupSyncChange): Promise<void> {
+    if (!this._markupManager) {
+      throw new Error('MarkupManager is not set');
+    }
+
+    const viewId = change.markupId;
+    const wasActive = this.getActiveViewKey() === viewId;
+    if (this._markupManager.getMarkupView(viewId)) {
+      this._markupManager.deleteMarkupView(viewId);
+    }
+
+    if (change.data) {
+      await this._markupManager.loadMarkupData({ views: [change.data] });
+      if (wasActive) {
+        await this._markupManager.activateMarkupViewWithPromise(
+          viewId,
+          this._markupManager.viewer.view,
+        );
+      }
+    }
+
+    this.reset();
+  }
 }
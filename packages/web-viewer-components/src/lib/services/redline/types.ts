@@ -1,6 +1,7 @@
-import { Uuid } from '@ts3d-hoops/web-viewer';
+import { IColor, Point3 } from '@ts3d-hoops/common';
+import { Camera, Uuid } from '@ts3d-hoops/web-viewer';
 import { IService } from '../types';
-import { MarkupItemData, MarkupViewData } from '../markup';
+import { MarkupItemData, MarkupItemQuery, MarkupSyncAdapter, MarkupViewData } from '../markup';
 
 const RedlineItemTypes = [
   'Communicator.Markup.Redline.RedlineCircle',
@@ -19,6 +20,68 @@ export interface RedlineViewData extends MarkupViewData {
   items: RedlineItemData[];
 }
 
+/**
+ * The appearance of a redline item, the unset properties keep the defaults of the viewer.
+ */
+export type RedlineStyle = {
+  color?: IColor;
+  lineWidth?: number;
+};
+
+/**
+ * A circle, in world coordinates.
+ */
+export type RedlineCircleGeometry = {
+  center: Point3;
+  radius: number;
+};
+
+/**
+ * A rectangle from its top left corner and its size, in world coordinates.
+ */
+export type RedlineRectangleGeometry = {
+  position: Point3;
+  size: Point3;
+};
+
+/**
+ * A polyline through at least two points, in world coordinates.
+ */
+export type RedlinePolylineGeometry = {
+  points: Point3[];
+};
+
+/**
+ * A text box anchored at a position in world coordinates.
+ */
+export type RedlineTextGeometry = {
+  position: Point3;
+  text: string;
+};
+
+/**
+ * The changes applied by `updateRedlineItem`, the text can only be set on the text items.
+ */
+export type RedlineItemPatch = RedlineStyle & {
+  text?: string;
+};
+
+/**
+ * The criteria of `findRedlineViews`, the views of the query are restricted to the active view
+ * with `activeViewOnly`.
+ */
+export type RedlineViewQuery = MarkupItemQuery & {
+  activeViewOnly?: boolean;
+};
+
+/**
+ * A redline item and the view it belongs to, to operate on items of several views at once.
+ */
+export type RedlineItemReference = {
+  markupViewId: Uuid;
+  markupItem: RedlineItemData;
+};
+
 export interface IRedlineService extends IService {
   getRedlineViews(): RedlineViewData[];
   getRedlineView(uniqueId: Uuid): RedlineViewData | undefined;
@@ -26,7 +89,36 @@ export interface IRedlineService extends IService {
   getActiveViewKey(): Uuid | undefined;
   setActiveView(uniqueId: Uuid): Promise<boolean>;
   getActiveView(): RedlineViewData | undefined;
+  createRedlineView(camera?: Camera): Uuid;
+  addRedlineCircle(
+    viewId: Uuid,
+    geometry: RedlineCircleGeometry,
+    style?: RedlineStyle,
+  ): RedlineItemData;
+  addRedlineRectangle(
+    viewId: Uuid,
+    geometry: RedlineRectangleGeometry,
+    style?: RedlineStyle,
+  ): RedlineItemData;
+  addRedlinePolyline(
+    viewId: Uuid,
+    geometry: RedlinePolylineGeometry,
+    style?: RedlineStyle,
+  ): RedlineItemData;
+  addRedlineText(
+    viewId: Uuid,
+    geometry: RedlineTextGeometry,
+    style?: RedlineStyle,
+  ): RedlineItemData;
+  updateRedlineItem(viewId: Uuid, itemId: Uuid, patch: RedlineItemPatch): RedlineItemData;
   removeRedlineItem(viewId: Uuid, item: RedlineItemData): Promise<void>;
+  findRedlineViews(query: RedlineViewQuery): RedlineViewData[];
+  getRedlineItemVisibility(viewId: Uuid, itemId: Uuid): boolean;
+  setRedlineItemsVisibility(items: RedlineItemReference[], visible: boolean): void;
+  getHiddenRedlineItems(): RedlineItemReference[];
+  includeHiddenRedlineItems<T>(callback: () => T): T;
+  removeRedlineItems(items: RedlineItemReference[]): Promise<void>;
   removeRedlineView(uniqueId: Uuid): void;
+  setSyncAdapter(adapter: MarkupSyncAdapter | undefined): Promise<void>;
   reset(): void;
 }
@@ -1,4 +1,9 @@
-import { formatRedlineItem, formatRedlineView, formatRedlineIcon } from './utils';
+import {
+  formatRedlineItem,
+  formatRedlineView,
+  formatRedlineIcon,
+  getRedlineItemKind,
+} from './utils';
 import { RedlineItemData, RedlineViewData } from './types';
 import { describe, it, expect, vi } from 'vitest';
 
@@ -89,3 +94,13 @@ describe('formatRedlineIcon', () => {
     warnSpy.mockRestore();
   });
 });
+
+describe('getRedlineItemKind', () => {
+  it('should return the kind of the redline classes', () => {
+    expect(getRedlineItemKind('Communicator.Markup.Redline.RedlineCircle')).toBe('circle');
+    expect(getRedlineItemKind('Communicator.Markup.Redline.RedlineRectangle')).toBe('rectangle');
+    expect(getRedlineItemKind('Communicator.Markup.Redline.RedlinePolyline')).toBe('polyline');
+    expect(getRedlineItemKind('Communicator.Markup.Redline.RedlineText')).toBe('text');
+    expect(getRedlineItemKind('UnknownClass')).toBeUndefined();
+  });
+});
@@ -1,4 +1,5 @@
 import { Markup } from '@ts3d-hoops/web-viewer';
+import { MarkupItemKind } from '../markup';
 import { RedlineItemData, RedlineViewData } from './types';
 
 export function formatRedlineItem(markup: Markup.MarkupItem): RedlineItemData {
@@ -8,10 +9,17 @@ export function formatRedlineItem(markup: Markup.MarkupItem): RedlineItemData {
   };
 }
 
-export function formatRedlineView(view: Markup.MarkupView): RedlineViewData {
+/**
+ * @param view the view to format.
+ * @param hiddenItems the hidden items of the view, kept out of it by the redline service.
+ */
+export function formatRedlineView(
+  view: Markup.MarkupView,
+  hiddenItems: Markup.MarkupItem[] = [],
+): RedlineViewData {
   return {
     id: view.getUniqueId(),
-    items: view.getMarkup().map(formatRedlineItem),
+    items: [...view.getMarkup(), ...hiddenItems].map(formatRedlineItem),
   };
 }
 
@@ -30,3 +38,18 @@ export function formatRedlineIcon(className: string): string {
       return 'undefined';
   }
 }
+
+export function getRedlineItemKind(className: string): MarkupItemKind | undefined {
+  switch (className) {
+    case 'Communicator.Markup.Redline.RedlineCircle':
+      return 'circle';
+    case 'Communicator.Markup.Redline.RedlineRectangle':
+      return 'rectangle';
+    case 'Communicator.Markup.Redline.RedlinePolyline':
+      return 'polyline';
+    case 'Communicator.Markup.Redline.RedlineText':
+      return 'text';
+    default:
+      return undefined;
+  }
+}
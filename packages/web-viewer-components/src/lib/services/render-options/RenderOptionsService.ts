@@ -585,6 +585,34 @@ export default class RenderOptionsService extends EventTarget implements IRender
     );
   }
 
+  /**
+   * Gets the current render options, the counterpart of `resetConfiguration`.
+   * @returns a promise that resolves with the current configuration.
+   */
+  public async getConfiguration(): Promise<RenderOptionsServiceConfiguration> {
+    return {
+      minimumFramerate: await this.getMinimumFramerate(),
+      hiddenLineOpacity: this.getHiddenLineOpacity(),
+      showBackfaces: this.getShowBackfaces(),
+      ambientOcclusionEnabled: this.getAmbientOcclusionEnabled(),
+      ambientOcclusionRadius: this.getAmbientOcclusionRadius(),
+      antiAliasingEnabled: this.getAntiAliasingEnabled(),
+      bloomEnabled: this.getBloomEnabled(),
+      bloomIntensity: this.getBloomIntensity(),
+      bloomThreshold: this.getBloomThreshold(),
+      silhouetteEnabled: this.getSilhouetteEnabled(),
+      reflectionEnabled: this.getReflectionEnabled(),
+      shadowEnabled: this.getShadowEnabled(),
+      shadowInteractive: this.getShadowInteractive(),
+      shadowBlurSamples: this.getShadowBlurSamples(),
+      splatRenderingEnabled: this.getSplatRenderingEnabled(),
+      splatRenderingSize: this.getSplatRenderingSize(),
+      splatRenderingPointSizeUnit: this.getSplatRenderingPointSizeUnit(),
+      eyeDomeLightingEnabled: await this.getEyeDomeLightingEnabled(),
+      backgroundColor: this.getBackgroundColor(),
+    };
+  }
+
   public async resetConfiguration(obj?: object): Promise<void> {
     const config = obj ?? { ...RenderOptionsService.DefaultConfig };
 
@@ -1,4 +1,4 @@
-import { IResettableConfigurationService, IService } from '../types';
+import { IConfigurableService, IService } from '../types';
 
 export const PointSizeUnitValues = [
   'Screen Pixels',
@@ -97,7 +97,7 @@ export function isRenderOptionsServiceConfiguration(
   );
 }
 
-export interface IRenderOptionsService extends IService, IResettableConfigurationService {
+export interface IRenderOptionsService extends IService, IConfigurableService {
   getMinimumFramerate(): Promise<number>;
   setMinimumFramerate(value: number): Promise<void>;
 
@@ -153,5 +153,6 @@ export interface IRenderOptionsService extends IService, IResettableConfiguratio
 
   getBackgroundColor(): VerticalGradient;
   setBackgroundColor(color: VerticalGradient): Promise<void>;
+  getConfiguration(): Promise<RenderOptionsServiceConfiguration>;
   resetConfiguration(obj?: object): Promise<void>;
 }
@@ -1,5 +1,9 @@
 import { Color, core, OperatorId, SelectionMask } from '@ts3d-hoops/web-viewer';
-import { ISelectionService, isSelectionServiceConfiguration } from './types';
+import {
+  ISelectionService,
+  isSelectionServiceConfiguration,
+  SelectionServiceConfiguration,
+} from './types';
 
 export default class SelectionService extends EventTarget implements ISelectionService {
   public readonly serviceName = 'SelectionService' as const;
@@ -160,6 +164,19 @@ export default class SelectionService extends EventTarget implements ISelectionS
     );
   }
 
+  /**
+   * Gets the current selection configuration, the counterpart of `resetConfiguration`.
+   * @returns a promise that resolves with the current configuration.
+   */
+  public async getConfiguration(): Promise<SelectionServiceConfiguration> {
+    return {
+      faceLineSelectionEnabled: this.getEnableFaceLineSelection(),
+      honorsSceneVisibility: this.getHonorsSceneVisibility(),
+      bodyColor: this.getBodyColor(),
+      faceAndLineColor: this.getFaceAndLineColor(),
+    };
+  }
+
   public async resetConfiguration(obj?: object): Promise<void> {
     const config = obj ?? SelectionService.DefaultConfiguration;
 
@@ -1,4 +1,4 @@
-import { IResettableConfigurationService, IService } from '../types';
+import { IConfigurableService, IService } from '../types';
 
 export type SelectionServiceConfiguration = {
   faceLineSelectionEnabled: boolean;
@@ -31,7 +31,7 @@ export function isSelectionServiceConfiguration(
  *
  * Provides methods to interface the selection manager.
  */
-export interface ISelectionService extends IService, IResettableConfigurationService {
+export interface ISelectionService extends IService, IConfigurableService {
   getEnableFaceLineSelection(): boolean;
   setEnableFaceLineSelection(enableFaceLineSelection: boolean): Promise<void>;
   getHonorsSceneVisibility(): boolean;
@@ -41,5 +41,6 @@ export interface ISelectionService extends IService, IResettableConfigurationSer
   getFaceAndLineColor(): string;
   setFaceAndLineColor(color: string): Promise<void>;
 
+  getConfiguration(): Promise<SelectionServiceConfiguration>;
   resetConfiguration(obj?: object): Promise<void>;
 }
@@ -49,6 +49,12 @@ describe('serviceRegistry', () => {
       'FloorplanService',
       'WalkOperatorService',
       'MaterialService',
+      'SnapshotService',
+      'SessionStateService',
+      'UndoService',
+      'ShortcutService',
+      'BcfService',
+      'MarkupService',
     ]);
   });
 
@@ -0,0 +1,346 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { Color, core } from '@ts3d-hoops/web-viewer';
+import { registerService, unregisterService } from '../serviceRegistry';
+import SessionStateService from './SessionStateService';
+import { isSessionState, SessionState, SessionStateVersion } from './types';
+
+const createMockWebViewer = () => {
+  const children: Record<number, number[]> = { 0: [1, 2], 1: [], 2: [] };
+  const markupViewKeys: string[] = [];
+  return {
+    view: {
+      getCamera: vi.fn(() => ({ toJson: () => ({ position: { x: 1, y: 2, z: 3 } }) })),
+      setCamera: vi.fn(),
+      getDrawModeName: vi.fn(() => 'Shaded'),
+      setDrawMode: vi.fn(),
+    },
+    model: {
+      getAbsoluteRootNode: vi.fn(() => 0),
+      getNodeChildren: vi.fn((nodeId: number) => children[nodeId] ?? []),
+      getVisibilityState: vi.fn(() =>
+        Promise.resolve({ defaultVisibility: true, visibilityExceptions: new Set([2]) }),
+      ),
+      getNodeColorMap: vi.fn(() => Promise.resolve(new Map([[1, new Color(1, 0, 0)]]))),
+      getNodesOpacity: vi.fn((nodeIds: number[]) =>
+        Promise.resolve(nodeIds.map((nodeId) => (nodeId === 1 ? 0.5 : null))),
+      ),
+      getActiveCadConfiguration: vi.fn(() => null),
+      activateCadConfiguration: vi.fn(() => Promise.resolve()),
+      resetNodesVisibility: vi.fn(() => Promise.resolve()),
+      setNodesVisibility: vi.fn(() => Promise.resolve()),
+      unsetNodesFaceColor: vi.fn(),
+      setNodesFaceColor: vi.fn(),
+      resetNodesOpacity: vi.fn(),
+      setNodesOpacity: vi.fn(),
+    },
+    markupManager: {
+      exportMarkup: vi.fn(() => ({ views: [] })),
+      loadMarkupData: vi.fn((data: { views?: { uniqueId: string }[] }) => {
+        markupViewKeys.push(...(data.views ?? []).map((view) => view.uniqueId));
+        return Promise.resolve(true);
+      }),
+      getMarkupViewKeys: vi.fn(() => [...markupViewKeys]),
+      deleteMarkupView: vi.fn((key: string) => {
+        markupViewKeys.splice(markupViewKeys.indexOf(key), 1);
+      }),
+    },
+    noteTextManager: {
+      getNoteTextList: vi.fn(() => [] as { remove: () => Promise<void> }[]),
+    },
+    measureManager: {
+      removeAllMeasurements: vi.fn(),
+    },
+  };
+};
+
+const createMockExplodeService = () => ({
+  serviceName: 'ExplodeService',
+  addEventListener: vi.fn(),
+  removeEventListener: vi.fn(),
+  dispatchEvent: vi.fn(),
+  getActive: vi.fn(() => true),
+  getMagnitude: vi.fn(() => 0.5),
+  start: vi.fn(() => Promise.resolve()),
+  stop: vi.fn(() => Promise.resolve()),
+  setMagnitude: vi.fn(() => Promise.resolve()),
+});
+
+describe('SessionStateService', () => {
+  let service: SessionStateService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new SessionStateService();
+  });
+
+  it('should initialize with correct service name', () => {
+    expect(service.serviceName).toBe('SessionStateService');
+  });
+
+  it('should dispatch reset event when webViewer changes', () => {
+    const listener = vi.fn();
+    service.addEventListener('hoops-session-state-service-reset', listener);
+    service.webViewer = createMockWebViewer() as unknown as core.IWebViewer;
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it('should reject when webViewer is not set', async () => {
+    await expect(service.captureState()).rejects.toThrow('WebViewer is not set');
+    await expect(service.applyState({ version: SessionStateVersion })).rejects.toThrow(
+      'WebViewer is not set',
+    );
+  });
+
+  describe('captureState', () => {
+    it('should capture the viewer state as a valid session state', async () => {
+      service.webViewer = createMockWebViewer() as unknown as core.IWebViewer;
+
+      const state = await service.captureState();
+
+      expect(isSessionState(state)).toBe(true);
+      expect(state).toMatchObject({
+        version: SessionStateVersion,
+        camera: { position: { x: 1, y: 2, z: 3 } },
+        drawMode: 'Shaded',
+        nodes: {
+          defaultVisibility: true,
+          visibilityExceptions: [2],
+          faceColors: [{ nodeId: 1, color: { r: 1, g: 0, b: 0 } }],
+          opacities: [{ nodeId: 1, opacity: 0.5 }],
+        },
+        activeCadConfigurationId: null,
+        markup: { data: { views: [] } },
+      });
+    });
+
+    it('should read the opacity of the leaves only, in batches', async () => {
+      const webViewer = createMockWebViewer();
+      const leafIds = Array.from({ length: 2500 }, (_, index) => 10 + index);
+      webViewer.model.getNodeChildren.mockImplementation((nodeId: number) =>
+        nodeId === 0 ? [1] : nodeId === 1 ? leafIds : [],
+      );
+      service.webViewer = webViewer as unknown as core.IWebViewer;
+
+      await service.captureState();
+
+      const batches = webViewer.model.getNodesOpacity.mock.calls.map(([nodeIds]) => nodeIds);
+      expect(batches.map((nodeIds) => nodeIds.length)).toEqual([1000, 1000, 500]);
+      expect(batches.flat().sort((a, b) => a - b)).toEqual(leafIds);
+    });
+
+    it('should capture the state of the registered services', async () => {
+      const explodeService = createMockExplodeService();
+      registerService(explodeService);
+      service.webViewer = createMockWebViewer() as unknown as core.IWebViewer;
+
+      const state = await service.captureState();
+
+      expect(state.explode).toEqual({ active: true, magnitude: 0.5 });
+      unregisterService('ExplodeService');
+    });
+
+    it('should dispatch hoops-session-state-captured with the state', async () => {
+      service.webViewer = createMockWebViewer() as unknown as core.IWebViewer;
+      const listener = vi.fn();
+      service.addEventListener('hoops-session-state-captured', listener);
+
+      const state = await service.captureState();
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ detail: state }));
+    });
+  });
+
+  describe('applyState', () => {
+    let mock: ReturnType<typeof createMockWebViewer>;
+
+    beforeEach(() => {
+      mock = createMockWebViewer();
+      service.webViewer = mock as unknown as core.IWebViewer;
+    });
+
+    it('should throw if the state is invalid', async () => {
+      await expect(service.applyState({ version: 0 })).rejects.toThrow(
+        'Invalid session state object',
+      );
+      await expect(
+        service.applyState({ version: SessionStateVersion, explode: { active: 'yes' } }),
+      ).rejects.toThrow('Invalid session state object');
+    });
+
+    it('should apply the camera, draw mode and node overrides', async () => {
+      const state: SessionState = {
+        version: SessionStateVersion,
+        camera: { position: { x: 1, y: 2, z: 3 } },
+        drawMode: 'HiddenLine',
+        nodes: {
+          defaultVisibility: false,
+          visibilityExceptions: [1],
+          faceColors: [{ nodeId: 2, color: { r: 0, g: 1, b: 0 } }],
+          opacities: [{ nodeId: 1, opacity: 0.25 }],
+        },
+      };
+
+      await service.applyState(state);
+
+      expect(mock.view.setCamera).toHaveBeenCalledOnce();
+      expect(mock.view.setDrawMode).toHaveBeenCalledWith('HiddenLine');
+      expect(mock.model.setNodesVisibility).toHaveBeenNthCalledWith(1, [0], false);
+      expect(mock.model.setNodesVisibility).toHaveBeenNthCalledWith(2, [1], true);
+      expect(mock.model.setNodesFaceColor).toHaveBeenCalledWith([2], new Color(0, 1, 0));
+      expect(mock.model.setNodesOpacity).toHaveBeenCalledWith([1], 0.25);
+    });
+
+    it('should leave the properties missing from the state unchanged', async () => {
+      await service.applyState({ version: SessionStateVersion });
+
+      expect(mock.view.setCamera).not.toHaveBeenCalled();
+      expect(mock.view.setDrawMode).not.toHaveBeenCalled();
+      expect(mock.model.resetNodesVisibility).not.toHaveBeenCalled();
+      expect(mock.markupManager.loadMarkupData).not.toHaveBeenCalled();
+    });
+
+    it('should apply the explode state through the ExplodeService', async () => {
+      const explodeService = createMockExplodeService();
+      registerService(explodeService);
+
+      await service.applyState({
+        version: SessionStateVersion,
+        explode: { active: true, magnitude: 0.75 },
+      });
+
+      expect(explodeService.start).toHaveBeenCalledOnce();
+      expect(explodeService.setMagnitude).toHaveBeenCalledWith(0.75);
+      unregisterService('ExplodeService');
+    });
+
+    it('should load the markup data', async () => {
+      await service.applyState({ version: SessionStateVersion, markup: { data: { views: [] } } });
+
+      expect(mock.markupManager.loadMarkupData).toHaveBeenCalledWith({ views: [] });
+    });
+
+    it('should restore the measurements of the tools through the MeasurementService', async () => {
+      const measurementService = { serviceName: 'MeasurementService', restoreMeasurement: vi.fn() };
+      registerService(measurementService as any);
+      const radius = {
+        className: 'Hoops.Markup.Measure.MeasureRadiusMarkup',
+        name: 'Radius',
+        nodeIds: [1],
+        anchors: [
+          { x: 0, y: 0, z: 0 },
+          { x: 5, y: 0, z: 0 },
+        ],
+        value: 5,
+        text: 'R 5.00 mm · Ø 10.00 mm',
+      };
+      const distance = { className: 'Communicator.Markup.Measure.MeasurePointPointDistanceMarkup' };
+
+      await service.applyState({
+        version: SessionStateVersion,
+        markup: { data: { views: [], measurement: [distance, radius] } },
+      });
+      unregisterService('MeasurementService');
+
+      expect(mock.markupManager.loadMarkupData).toHaveBeenCalledWith({
+        views: [],
+        measurement: [distance],
+      });
+      expect(measurementService.restoreMeasurement).toHaveBeenCalledWith(radius);
+    });
+
+    it('should capture and apply the hidden redline items', async () => {
+      const hiddenRedlineItems = [
+        {
+          markupViewId: 'view-1',
+          markupItem: { id: 'redline-1', type: 'Communicator.Markup.Redline.RedlineCircle' },
+        },
+      ];
+      const redlineService = {
+        serviceName: 'RedlineService',
+        getActiveViewKey: vi.fn(() => undefined),
+        getHiddenRedlineItems: vi.fn(() => hiddenRedlineItems),
+        includeHiddenRedlineItems: vi.fn((callback: () => unknown) => callback()),
+        setRedlineItemsVisibility: vi.fn(),
+      };
+      registerService(redlineService as any);
+
+      const state = await service.captureState();
+      await service.applyState(state);
+      unregisterService('RedlineService');
+
+      expect(redlineService.includeHiddenRedlineItems).toHaveBeenCalled();
+      expect(state.markup?.hiddenRedlineItems).toEqual(hiddenRedlineItems);
+      expect(redlineService.setRedlineItemsVisibility).toHaveBeenCalledWith(
+        hiddenRedlineItems,
+        false,
+      );
+    });
+
+    it('should capture and apply the review data of the note texts', async () => {
+      const review = {
+        status: 'resolved' as const,
+        assignee: 'jane@example.com',
+        comments: [
+          {
+            id: 'comment-1',
+            author: 'john@example.com',
+            timestamp: '2024-05-02T10:00:00.000Z',
+            message: 'Fixed',
+          },
+        ],
+      };
+      const noteTextService = {
+        serviceName: 'NoteTextService',
+        getNoteTexts: vi.fn(() => [
+          { id: 'note-1', type: 'Communicator.Markup.Note.NoteText', text: 'Check', ...review },
+        ]),
+        getNoteText: vi.fn((id: string) => (id === 'note-1' ? {} : undefined)),
+        setNoteTextReview: vi.fn(),
+      };
+      registerService(noteTextService as any);
+
+      const state = await service.captureState();
+      state.markup!.noteTextReviews!.push({ noteTextId: 'note-2', status: 'open', comments: [] });
+      await service.applyState(state);
+      unregisterService('NoteTextService');
+
+      expect(isSessionState(state)).toBe(true);
+      expect(state.markup?.noteTextReviews?.[0]).toEqual({ noteTextId: 'note-1', ...review });
+      expect(noteTextService.setNoteTextReview).toHaveBeenCalledOnce();
+      expect(noteTextService.setNoteTextReview).toHaveBeenCalledWith('note-1', review);
+      expect(
+        isSessionState({
+          ...state,
+          markup: { ...state.markup, noteTextReviews: [{ noteTextId: 'note-1', status: 'done' }] },
+        }),
+      ).toBe(false);
+    });
+
+    it('should replace the markup of the viewer when applied twice', async () => {
+      const remove = vi.fn(() => Promise.resolve());
+      mock.noteTextManager.getNoteTextList.mockReturnValue([{ remove }]);
+      const state: SessionState = {
+        version: SessionStateVersion,
+        markup: { data: { views: [{ uniqueId: 'view-1' }] } },
+      };
+
+      await service.applyState(state);
+      await service.applyState(state);
+
+      expect(mock.markupManager.deleteMarkupView).toHaveBeenCalledOnce();
+      expect(mock.markupManager.getMarkupViewKeys()).toEqual(['view-1']);
+      expect(remove).toHaveBeenCalledTimes(2);
+      expect(mock.measureManager.removeAllMeasurements).toHaveBeenCalledTimes(2);
+    });
+
+    it('should dispatch hoops-session-state-applied', async () => {
+      const listener = vi.fn();
+      service.addEventListener('hoops-session-state-applied', listener);
+
+      await service.applyState({ version: SessionStateVersion, drawMode: 'Shaded' });
+
+      expect(listener).toHaveBeenCalledOnce();
+    });
+  });
+});
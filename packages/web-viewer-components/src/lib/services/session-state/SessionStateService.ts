@@ -0,0 +1,438 @@
+import { Plane, Point3 } from '@ts3d-hoops/common';
+import { Camera, Color, core, ElementType, NodeId } from '@ts3d-hoops/web-viewer';
+import { tryGetService } from '../serviceRegistry';
+import type { CuttingPlane, ICuttingService } from '../cutting';
+import type { IExplodeService } from '../explode';
+import { type IMeasurementService, isToolMeasureMarkupData } from '../measurement/types';
+import type { INoteTextService } from '../notetext';
+import type { IRedlineService } from '../redline';
+import type { ISheetService } from '../sheet';
+import type { IUndoService } from '../undo';
+import {
+  ISessionStateService,
+  isSessionState,
+  SessionCuttingPlane,
+  SessionCuttingSection,
+  SessionNodeState,
+  SessionNoteTextReview,
+  SessionPoint3,
+  SessionState,
+  SessionStateVersion,
+} from './types';
+
+/**
+ * The number of nodes whose opacity is read at once, so that capturing the state of a large
+ * assembly does not send the whole model in a single request.
+ */
+const OpacityBatchSize = 1000;
+
+function toSessionPoint3(point: SessionPoint3): SessionPoint3 {
+  return { x: point.x, y: point.y, z: point.z };
+}
+
+function toSessionCuttingPlane(cuttingPlane: CuttingPlane): SessionCuttingPlane {
+  return {
+    normal: toSessionPoint3(cuttingPlane.plane.normal),
+    d: cuttingPlane.plane.d,
+    referenceGeometry: cuttingPlane.referenceGeometry?.map(toSessionPoint3),
+    color: cuttingPlane.color && { ...cuttingPlane.color },
+    lineColor: cuttingPlane.lineColor && { ...cuttingPlane.lineColor },
+    opacity: cuttingPlane.opacity,
+    hideReferenceGeometry: cuttingPlane.hideReferenceGeometry,
+  };
+}
+
+function toCuttingPlane(cuttingPlane: SessionCuttingPlane): CuttingPlane {
+  const plane = new Plane();
+  plane.normal.assign(cuttingPlane.normal);
+  plane.d = cuttingPlane.d;
+
+  return {
+    plane,
+    referenceGeometry: cuttingPlane.referenceGeometry?.map(
+      (point) => new Point3(point.x, point.y, point.z),
+    ),
+    color: cuttingPlane.color,
+    lineColor: cuttingPlane.lineColor,
+    opacity: cuttingPlane.opacity,
+    hideReferenceGeometry: cuttingPlane.hideReferenceGeometry,
+  };
+}
+
+/**
+ * Service class saving and restoring the state of a review session.
+ *
+ * The state aggregates the camera, the draw mode, the node visibility, colors and opacity, the
+ * active CAD configuration and the markup of the web viewer, along with the state of the
+ * registered CuttingService, ExplodeService, SheetService and RedlineService.
+ * It is a versioned JSON serializable object that can be validated with `isSessionState`.
+ *
+ * @fires hoops-session-state-captured - When a state has been captured
+ * @fires hoops-session-state-applied - When a state has been applied
+ * @fires hoops-session-state-service-reset - When the service is reset with a new web viewer
+ *
+ * @example
+ * ```typescript
+ * const sessionStateService = getService<ISessionStateService>('SessionStateService');
+ *
+ * const state = await sessionStateService.captureState();
+ * await fetch('/api/sessions/42', { method: 'PUT', body: JSON.stringify(state) });
+ *
+ * const response = await fetch('/api/sessions/42');
+ * await sessionStateService.applyState(await response.json());
+ * ```
+ */
+export default class SessionStateService extends EventTarget implements ISessionStateService {
+  public readonly serviceName = 'SessionStateService' as const;
+
+  private _webViewer?: core.IWebViewer;
+
+  get webViewer(): core.IWebViewer | undefined {
+    return this._webViewer;
+  }
+
+  set webViewer(webViewer: core.IWebViewer | undefined) {
+    if (this._webViewer === webViewer) {
+      return;
+    }
+
+    this._webViewer = webViewer;
+    this.reset();
+  }
+
+  /**
+   * Captures the current state of the viewer and of the registered services.
+   * @returns a promise that resolves with a JSON serializable state.
+   */
+  public async captureState(): Promise<SessionState> {
+    if (!this._webViewer) {
+      throw new Error('WebViewer is not set');
+    }
+
+    const { view, model, markupManager } = this._webViewer;
+    const redlineService = tryGetService<IRedlineService>('RedlineService');
+    const state: SessionState = {
+      version: SessionStateVersion,
+      camera: view.getCamera().toJson(),
+      drawMode: view.getDrawModeName(),
+      nodes: await this.captureNodeState(),
+      activeCadConfigurationId: model.getActiveCadConfiguration(),
+      // The hidden redline items are kept out of their views by the RedlineService
+      markup: {
+        data: redlineService
+          ? redlineService.includeHiddenRedlineItems(() => markupManager.exportMarkup())
+          : markupManager.exportMarkup(),
+      },
+    };
+
+    const cuttingService = tryGetService<ICuttingService>('CuttingService');
+    if (cuttingService) {
+      state.cuttingSections = cuttingService.getCuttingSections().map(
+        (section): SessionCuttingSection => ({
+          cuttingPlanes: section.cuttingPlanes.map(toSessionCuttingPlane),
+          active: section.active,
+          hideReferenceGeometry: section.hideReferenceGeometry,
+        }),
+      );
+    }
+
+    const explodeService = tryGetService<IExplodeService>('ExplodeService');
+    if (explodeService) {
+      state.explode = {
+        active: explodeService.getActive(),
+        magnitude: explodeService.getMagnitude(),
+      };
+    }
+
+    const sheetService = tryGetService<ISheetService>('SheetService');
+    if (sheetService) {
+      state.activeSheetId = sheetService.getActiveSheetId();
+    }
+
+    if (redlineService) {
+      state.markup!.activeRedlineViewId = redlineService.getActiveViewKey();
+      state.markup!.hiddenRedlineItems = redlineService.getHiddenRedlineItems();
+    }
+
+    const noteTextService = tryGetService<INoteTextService>('NoteTextService');
+    if (noteTextService) {
+      state.markup!.noteTextReviews = noteTextService
+        .getNoteTexts()
+        .map(({ id, status, assignee, comments }) => ({
+          noteTextId: id,
+          status,
+          assignee,
+          comments,
+        }));
+    }
+
+    // Round trip through JSON to drop undefined values and any class instance left in the state
+    const serializedState = JSON.parse(JSON.stringify(state)) as SessionState;
+    this.dispatchEvent(
+      new CustomEvent('hoops-session-state-captured', {
+        bubbles: true,
+        composed: true,
+        detail: serializedState,
+      }),
+    );
+
+    return serializedState;
+  }
+
+  /**
+   * Applies a previously captured state.
+   * The properties missing from the state are left unchanged. The markup of the state replaces
+   * the markup currently in the viewer. The undo history is cleared.
+   * @param state the state to apply.
+   * @returns a promise that resolves when the state is applied.
+   */
+  public async applyState(state: unknown): Promise<void> {
+    if (!this._webViewer) {
+      throw new Error('WebViewer is not set');
+    }
+
+    if (!isSessionState(state)) {
+      throw new Error('Invalid session state object');
+    }
+
+    const { view, model } = this._webViewer;
+
+    // The active sheet and CAD configuration change the visible nodes, apply them first
+    if (state.activeSheetId !== undefined && state.activeSheetId !== null) {
+      await tryGetService<ISheetService>('SheetService')?.setActiveSheetId(state.activeSheetId);
+    }
+
+    if (state.activeCadConfigurationId !== undefined && state.activeCadConfigurationId !== null) {
+      await model.activateCadConfiguration(state.activeCadConfigurationId);
+    }
+
+    if (state.nodes) {
+      await this.applyNodeState(state.nodes);
+    }
+
+    if (state.cuttingSections) {
+      await this.applyCuttingSections(state.cuttingSections);
+    }
+
+    const explodeService = tryGetService<IExplodeService>('ExplodeService');
+    if (state.explode && explodeService) {
+      if (state.explode.active) {
+        await explodeService.start();
+        await explodeService.setMagnitude(state.explode.magnitude);
+      } else if (explodeService.getActive()) {
+        await explodeService.stop();
+      }
+    }
+
+    if (state.markup) {
+      await this.clearMarkup();
+      await this.loadMarkup(state.markup.data);
+      const redlineService = tryGetService<IRedlineService>('RedlineService');
+      if (state.markup.activeRedlineViewId) {
+        await redlineService?.setActiveView(state.markup.activeRedlineViewId);
+      }
+      if (state.markup.hiddenRedlineItems?.length) {
+        redlineService?.setRedlineItemsVisibility(state.markup.hiddenRedlineItems, false);
+      }
+      this.applyNoteTextReviews(state.markup.noteTextReviews ?? []);
+    }
+
+    if (state.drawMode) {
+      view.setDrawMode(state.drawMode);
+    }
+
+    // The camera is applied last since activating a redline view moves it
+    if (state.camera) {
+      view.setCamera(Camera.fromJson(state.camera));
+    }
+
+    // The operations done while applying the state are not meant to be undone one by one
+    tryGetService<IUndoService>('UndoService')?.clear();
+
+    this.dispatchEvent(
+      new CustomEvent('hoops-session-state-applied', {
+        bubbles: true,
+        composed: true,
+        detail: state,
+      }),
+    );
+  }
+
+  reset(): void {
+    this.dispatchEvent(
+      new CustomEvent('hoops-session-state-service-reset', { bubbles: true, composed: true }),
+    );
+  }
+
+  /**
+   * Removes the redline views, note texts and measurements of the viewer, so that applying the
+   * same state twice does not duplicate them.
+   */
+  private async clearMarkup(): Promise<void> {
+    const { view, markupManager, noteTextManager, measureManager } = this._webViewer!;
+
+    for (const key of markupManager.getMarkupViewKeys()) {
+      markupManager.deleteMarkupView(key);
+    }
+    await Promise.all(noteTextManager.getNoteTextList().map((noteText) => noteText.remove(view)));
+    measureManager.removeAllMeasurements();
+  }
+
+  /**
+   * Loads the markup of a state, the measurements of the measurement tools are restored by the
+   * MeasurementService since the markup manager of the viewer does not know their classes.
+   */
+  private async loadMarkup(data: object): Promise<void> {
+    const { measurement, ...markupData } = data as { measurement?: unknown };
+    if (!Array.isArray(measurement)) {
+      await this._webViewer!.markupManager.loadMarkupData(data);
+      return;
+    }
+
+    await this._webViewer!.markupManager.loadMarkupData({
+      ...markupData,
+      measurement: measurement.filter((item) => !isToolMeasureMarkupData(item)),
+    });
+
+    const toolMeasurements = measurement.filter(isToolMeasureMarkupData);
+    const measurementService = tryGetService<IMeasurementService>('MeasurementService');
+    if (toolMeasurements.length > 0 && !measurementService) {
+      console.warn(
+        `Cannot restore ${toolMeasurements.length} measurements of the measurement tools: the MeasurementService is not registered`,
+      );
+    }
+    toolMeasurements.forEach((item) => measurementService?.restoreMeasurement(item));
+  }
+
+  /**
+   * Restores the review data of the loaded note texts.
+   */
+  private applyNoteTextReviews(reviews: SessionNoteTextReview[]): void {
+    const noteTextService = tryGetService<INoteTextService>('NoteTextService');
+    if (!noteTextService) {
+      return;
+    }
+
+    for (const { noteTextId, ...review } of reviews) {
+      if (noteTextService.getNoteText(noteTextId)) {
+        noteTextService.setNoteTextReview(noteTextId, review);
+      }
+    }
+  }
+
+  /**
+   * Collects the visibility, face color and opacity overrides of the model nodes.
+   */
+  private async captureNodeState(): Promise<SessionNodeState> {
+    const model = this._webViewer!.model;
+    const rootId = model.getAbsoluteRootNode();
+
+    const visibilityState = await model.getVisibilityState(rootId);
+    const colorMap: Map<NodeId, Color> = await model.getNodeColorMap(rootId, ElementType.Faces);
+
+    // The opacity overrides are held by the leaves, the assemblies only derive theirs from them
+    const leafIds = this.getLeafNodeIds(rootId);
+    const opacities: SessionNodeState['opacities'] = [];
+    for (let start = 0; start < leafIds.length; start += OpacityBatchSize) {
+      const nodeIds = leafIds.slice(start, start + OpacityBatchSize);
+      const batchOpacities = await model.getNodesOpacity(nodeIds);
+      nodeIds.forEach((nodeId, index) => {
+        const opacity = batchOpacities[index];
+        if (opacity !== null && opacity !== undefined) {
+          opacities.push({ nodeId, opacity });
+        }
+      });
+    }
+
+    return {
+      defaultVisibility: visibilityState.defaultVisibility,
+      visibilityExceptions: [...visibilityState.visibilityExceptions],
+      faceColors: [...colorMap].map(([nodeId, color]) => ({
+        nodeId,
+        color: { r: color.r, g: color.g, b: color.b },
+      })),
+      opacities,
+    };
+  }
+
+  /**
+   * Resets the model nodes and applies the visibility, face color and opacity overrides.
+   */
+  private async applyNodeState(nodeState: SessionNodeState): Promise<void> {
+    const model = this._webViewer!.model;
+    const rootId = model.getAbsoluteRootNode();
+
+    await model.resetNodesVisibility();
+    model.unsetNodesFaceColor([rootId]);
+    model.resetNodesOpacity([rootId]);
+
+    await model.setNodesVisibility([rootId], nodeState.defaultVisibility);
+    if (nodeState.visibilityExceptions.length > 0) {
+      await model.setNodesVisibility(nodeState.visibilityExceptions, !nodeState.defaultVisibility);
+    }
+
+    for (const { nodeId, color } of nodeState.faceColors) {
+      model.setNodesFaceColor([nodeId], new Color(color.r, color.g, color.b));
+    }
+
+    for (const { nodeId, opacity } of nodeState.opacities) {
+      model.setNodesOpacity([nodeId], opacity);
+    }
+  }
+
+  /**
+   * Replaces the planes of each cutting section with the ones of the state.
+   */
+  private async applyCuttingSections(sections: SessionCuttingSection[]): Promise<void> {
+    const cuttingService = tryGetService<ICuttingService>('CuttingService');
+    if (!cuttingService) {
+      return;
+    }
+
+    const sectionCount = Math.min(sections.length, cuttingService.getCuttingSectionCount());
+    for (
+      let sectionIndex = 0;
+      sectionIndex < cuttingService.getCuttingSectionCount();
+      ++sectionIndex
+    ) {
+      await cuttingService.clearCuttingSection(sectionIndex);
+    }
+
+    for (let sectionIndex = 0; sectionIndex < sectionCount; ++sectionIndex) {
+      const section = sections[sectionIndex];
+      for (const cuttingPlane of section.cuttingPlanes) {
+        await cuttingService.addCuttingPlane(sectionIndex, toCuttingPlane(cuttingPlane));
+      }
+
+      if (section.cuttingPlanes.length > 0) {
+        await cuttingService.setCuttingSectionState(sectionIndex, section.active);
+        await cuttingService.setCuttingSectionGeometryVisibility(
+          sectionIndex,
+          !section.hideReferenceGeometry,
+        );
+      }
+    }
+  }
+
+  /**
+   * Lists the ids of the leaves under a node, the node itself if it has no children.
+   */
+  private getLeafNodeIds(rootId: NodeId): NodeId[] {
+    const model = this._webViewer!.model;
+    const nodeIds: NodeId[] = [];
+    const pending = [rootId];
+
+    while (pending.length > 0) {
+      const nodeId = pending.pop()!;
+      const children = model.getNodeChildren(nodeId);
+      if (children.length === 0) {
+        nodeIds.push(nodeId);
+      }
+      for (const child of children) {
+        pending.push(child);
+      }
+    }
+
+    return nodeIds;
+  }
+}
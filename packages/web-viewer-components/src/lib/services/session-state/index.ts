@@ -0,0 +1,3 @@
+export { default } from './SessionStateService';
+export * from './SessionStateService';
+export * from './types';
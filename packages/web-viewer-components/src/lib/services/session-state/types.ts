@@ -0,0 +1,323 @@
+import { IColor } from '@ts3d-hoops/common';
+import { DrawModeName, NodeId, SheetId, Uuid } from '@ts3d-hoops/web-viewer';
+import { isNoteTextReview } from '../markup/types';
+import type { NoteTextReview } from '../notetext/types';
+import type { RedlineItemReference } from '../redline';
+import { IService } from '../types';
+
+/**
+ * The version of the session state schema produced by `captureState`.
+ * It is incremented whenever the schema changes in a way that is not backward compatible.
+ */
+export const SessionStateVersion = 1 as const;
+
+/**
+ * A JSON friendly representation of a 3D point or vector.
+ */
+export type SessionPoint3 = {
+  x: number;
+  y: number;
+  z: number;
+};
+
+/**
+ * A JSON friendly representation of a cutting plane.
+ */
+export type SessionCuttingPlane = {
+  /** The normal vector of the plane. */
+  normal: SessionPoint3;
+  /** The distance of the plane from the origin along its normal. */
+  d: number;
+  /** Optional 3D vertices defining the visual representation of the plane. */
+  referenceGeometry?: SessionPoint3[];
+  /** Optional face color of the plane (RGB values 0-1). */
+  color?: IColor;
+  /** Optional line color of the plane (RGB values 0-1). */
+  lineColor?: IColor;
+  /** Optional opacity of the plane (0-1). */
+  opacity?: number;
+  /** Optional flag to hide the plane's reference geometry. */
+  hideReferenceGeometry?: boolean;
+};
+
+/**
+ * A JSON friendly representation of a cutting section.
+ */
+export type SessionCuttingSection = {
+  cuttingPlanes: SessionCuttingPlane[];
+  active: boolean;
+  hideReferenceGeometry?: boolean;
+};
+
+/**
+ * The explode state of the model.
+ */
+export type SessionExplodeState = {
+  active: boolean;
+  magnitude: number;
+};
+
+/**
+ * The visibility, color and opacity overrides applied to the model nodes.
+ *
+ * Visibility is stored as a default visibility and the list of nodes that do not follow it.
+ */
+export type SessionNodeState = {
+  defaultVisibility: boolean;
+  visibilityExceptions: NodeId[];
+  faceColors: { nodeId: NodeId; color: IColor }[];
+  opacities: { nodeId: NodeId; opacity: number }[];
+};
+
+/**
+ * The markup of the session, as exported by the markup manager of the web viewer.
+ */
+export type SessionMarkupState = {
+  /** The serialized redline views, note texts and measurements. */
+  data: object;
+  /** The id of the redline view active when the state was captured. */
+  activeRedlineViewId?: Uuid;
+  /** The redline items hidden when the state was captured. */
+  hiddenRedlineItems?: RedlineItemReference[];
+  /** The review data of the note texts, kept by the NoteTextService rather than by the notes. */
+  noteTextReviews?: SessionNoteTextReview[];
+};
+
+/**
+ * The review status, assignee and discussion thread of a note text.
+ */
+export type SessionNoteTextReview = NoteTextReview & {
+  noteTextId: Uuid;
+};
+
+/**
+ * A snapshot of the viewer state that can be stored as JSON and applied later.
+ *
+ * Every property but `version` is optional: the properties that are not captured, because the
+ * corresponding service is not registered for example, are left unchanged when applying the state.
+ *
+ * @example
+ * ```typescript
+ * const state: SessionState = {
+ *   version: 1,
+ *   drawMode: 'HiddenLine',
+ *   explode: { active: true, magnitude: 0.5 },
+ * };
+ * ```
+ */
+export type SessionState = {
+  version: typeof SessionStateVersion;
+  /** The camera, as serialized by `Camera.toJson`. */
+  camera?: object;
+  drawMode?: DrawModeName;
+  cuttingSections?: SessionCuttingSection[];
+  explode?: SessionExplodeState;
+  nodes?: SessionNodeState;
+  activeSheetId?: SheetId | null;
+  activeCadConfigurationId?: NodeId | null;
+  markup?: SessionMarkupState;
+};
+
+function isOptional<T>(value: unknown, guard: (value: unknown) => value is T): boolean {
+  return typeof value === 'undefined' || guard(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function isIdOrNull(value: unknown): value is number | null {
+  return value === null || isNumber(value);
+}
+
+export function isSessionPoint3(obj: unknown): obj is SessionPoint3 {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as SessionPoint3;
+  return isNumber(value.x) && isNumber(value.y) && isNumber(value.z);
+}
+
+export function isSessionColor(obj: unknown): obj is IColor {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as IColor;
+  return isNumber(value.r) && isNumber(value.g) && isNumber(value.b);
+}
+
+export function isSessionCuttingPlane(obj: unknown): obj is SessionCuttingPlane {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as SessionCuttingPlane;
+  return (
+    isSessionPoint3(value.normal) &&
+    isNumber(value.d) &&
+    (typeof value.referenceGeometry === 'undefined' ||
+      (Array.isArray(value.referenceGeometry) && value.referenceGeometry.every(isSessionPoint3))) &&
+    isOptional(value.color, isSessionColor) &&
+    isOptional(value.lineColor, isSessionColor) &&
+    isOptional(value.opacity, isNumber) &&
+    isOptional(value.hideReferenceGeometry, isBoolean)
+  );
+}
+
+export function isSessionCuttingSection(obj: unknown): obj is SessionCuttingSection {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as SessionCuttingSection;
+  return (
+    Array.isArray(value.cuttingPlanes) &&
+    value.cuttingPlanes.every(isSessionCuttingPlane) &&
+    isBoolean(value.active) &&
+    isOptional(value.hideReferenceGeometry, isBoolean)
+  );
+}
+
+export function isSessionExplodeState(obj: unknown): obj is SessionExplodeState {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as SessionExplodeState;
+  return isBoolean(value.active) && isNumber(value.magnitude);
+}
+
+export function isSessionNodeState(obj: unknown): obj is SessionNodeState {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as SessionNodeState;
+  return (
+    isBoolean(value.defaultVisibility) &&
+    Array.isArray(value.visibilityExceptions) &&
+    value.visibilityExceptions.every(isNumber) &&
+    Array.isArray(value.faceColors) &&
+    value.faceColors.every(
+      (entry) => isObject(entry) && isNumber(entry.nodeId) && isSessionColor(entry.color),
+    ) &&
+    Array.isArray(value.opacities) &&
+    value.opacities.every(
+      (entry) => isObject(entry) && isNumber(entry.nodeId) && isNumber(entry.opacity),
+    )
+  );
+}
+
+function isRedlineItemReference(obj: unknown): obj is RedlineItemReference {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as RedlineItemReference;
+  return (
+    typeof value.markupViewId === 'string' &&
+    isObject(value.markupItem) &&
+    typeof value.markupItem.id === 'string' &&
+    typeof value.markupItem.type === 'string'
+  );
+}
+
+export function isSessionNoteTextReview(obj: unknown): obj is SessionNoteTextReview {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as SessionNoteTextReview;
+  return typeof value.noteTextId === 'string' && isNoteTextReview(value);
+}
+
+export function isSessionMarkupState(obj: unknown): obj is SessionMarkupState {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as SessionMarkupState;
+  return (
+    isObject(value.data) &&
+    (typeof value.activeRedlineViewId === 'undefined' ||
+      typeof value.activeRedlineViewId === 'string') &&
+    (typeof value.hiddenRedlineItems === 'undefined' ||
+      (Array.isArray(value.hiddenRedlineItems) &&
+        value.hiddenRedlineItems.every(isRedlineItemReference))) &&
+    (typeof value.noteTextReviews === 'undefined' ||
+      (Array.isArray(value.noteTextReviews) &&
+        value.noteTextReviews.every(isSessionNoteTextReview)))
+  );
+}
+
+/**
+ * Type guard function to validate SessionState objects.
+ *
+ * Checks the schema version and the structure of every captured property, so that a state
+ * loaded from a backend can be safely applied.
+ *
+ * @param obj - The object to validate
+ * @returns True if the object is a valid SessionState, false otherwise
+ *
+ * @example
+ * ```typescript
+ * const state: unknown = await response.json();
+ *
+ * if (isSessionState(state)) {
+ *   await sessionStateService.applyState(state);
+ * }
+ * ```
+ */
+export function isSessionState(obj: unknown): obj is SessionState {
+  if (!isObject(obj)) {
+    return false;
+  }
+
+  const value = obj as SessionState;
+  return (
+    value.version === SessionStateVersion &&
+    isOptional(value.camera, isObject) &&
+    (typeof value.drawMode === 'undefined' || typeof value.drawMode === 'string') &&
+    (typeof value.cuttingSections === 'undefined' ||
+      (Array.isArray(value.cuttingSections) &&
+        value.cuttingSections.every(isSessionCuttingSection))) &&
+    isOptional(value.explode, isSessionExplodeState) &&
+    isOptional(value.nodes, isSessionNodeState) &&
+    isOptional(value.activeSheetId, isIdOrNull) &&
+    isOptional(value.activeCadConfigurationId, isIdOrNull) &&
+    isOptional(value.markup, isSessionMarkupState)
+  );
+}
+
+/**
+ * Service interface to save and restore the state of a review session.
+ *
+ * @interface ISessionStateService
+ * @extends IService
+ */
+export interface ISessionStateService extends IService {
+  /**
+   * Captures the current state of the viewer and of the registered services.
+   *
+   * @returns A promise that resolves with a JSON serializable state
+   */
+  captureState(): Promise<SessionState>;
+
+  /**
+   * Applies a previously captured state.
+   *
+   * @param state - The state to apply, validated with `isSessionState`
+   * @returns A promise that resolves when the state is applied
+   */
+  applyState(state: unknown): Promise<void>;
+}
@@ -11,6 +11,8 @@ describe('SheetService', () => {
     setSheetColors: Mock;
     getBackgroundSheetEnabled: Mock;
     setBackgroundSheetEnabled: Mock;
+    getActiveSheetId: Mock;
+    setActiveSheetId: Mock;
   };
 
   beforeEach(() => {
@@ -22,6 +24,8 @@ describe('SheetService', () => {
       setSheetColors: vi.fn(() => Promise.resolve()),
       getBackgroundSheetEnabled: vi.fn(() => true),
       setBackgroundSheetEnabled: vi.fn(() => Promise.resolve()),
+      getActiveSheetId: vi.fn(() => 12),
+      setActiveSheetId: vi.fn(() => Promise.resolve()),
     };
   });
 
@@ -51,6 +55,12 @@ describe('SheetService', () => {
         'SheetManager is not set',
       );
     });
+    it('should return null for getActiveSheetId', () => {
+      expect(service.getActiveSheetId()).toBeNull();
+    });
+    it('should throw when setActiveSheetId is called', async () => {
+      await expect(service.setActiveSheetId(12)).rejects.toThrow('SheetManager is not set');
+    });
   });
 
   describe('delegation to sheetManager', () => {
@@ -85,6 +95,14 @@ describe('SheetService', () => {
       await service.setBackgroundSheetEnabled(false);
       expect(mockSheetManager.setBackgroundSheetEnabled).toHaveBeenCalledWith(false);
     });
+    it('should delegate getActiveSheetId to sheetManager', () => {
+      expect(service.getActiveSheetId()).toBe(12);
+      expect(mockSheetManager.getActiveSheetId).toHaveBeenCalled();
+    });
+    it('should delegate setActiveSheetId to sheetManager', async () => {
+      await service.setActiveSheetId(7);
+      expect(mockSheetManager.setActiveSheetId).toHaveBeenCalledWith(7);
+    });
   });
 
   describe('event dispatching', () => {
@@ -116,6 +134,13 @@ describe('SheetService', () => {
       await service.setBackgroundSheetEnabled(true);
       expect(listener).toHaveBeenCalledWith(expect.objectContaining({ detail: true }));
     });
+    it('should dispatch hoops-active-sheet-changed when setActiveSheetId is called', async () => {
+      service.sheetManager = mockSheetManager as unknown as SheetManager;
+      const listener = vi.fn();
+      service.addEventListener('hoops-active-sheet-changed', listener);
+      await service.setActiveSheetId(7);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ detail: 7 }));
+    });
   });
 
   describe('resetConfiguration', () => {
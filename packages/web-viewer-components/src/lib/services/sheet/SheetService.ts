@@ -1,4 +1,4 @@
-import { Color, SheetManager } from '@ts3d-hoops/web-viewer';
+import { Color, SheetId, SheetManager } from '@ts3d-hoops/web-viewer';
 import { ISheetService, isSheetServiceConfiguration, SheetServiceConfiguration } from './types';
 
 export default class SheetService extends EventTarget implements ISheetService {
@@ -98,6 +98,36 @@ export default class SheetService extends EventTarget implements ISheetService {
     );
   }
 
+  getActiveSheetId(): SheetId | null {
+    if (!this.sheetManager) {
+      return null;
+    }
+    return this.sheetManager.getActiveSheetId();
+  }
+
+  async setActiveSheetId(sheetId: SheetId): Promise<void> {
+    if (!this.sheetManager) {
+      throw new Error('SheetManager is not set');
+    }
+    await this.sheetManager.setActiveSheetId(sheetId);
+    this.dispatchEvent(
+      new CustomEvent('hoops-active-sheet-changed', {
+        detail: sheetId,
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  async getConfiguration(): Promise<SheetServiceConfiguration> {
+    return {
+      backgroundColor: this.getSheetBackgroundColor(),
+      sheetColor: this.getSheetColor(),
+      sheetShadowColor: this.getSheetShadowColor(),
+      backgroundSheetEnabled: this.getBackgroundSheetEnabled(),
+    };
+  }
+
   async resetConfiguration(obj?: object): Promise<void> {
     const config = obj ?? SheetService.DefaultConfiguration;
     if (!this.sheetManager) {
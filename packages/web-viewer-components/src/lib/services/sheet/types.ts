@@ -1,4 +1,5 @@
-import { IResettableConfigurationService, IService } from '../types';
+import { SheetId } from '@ts3d-hoops/web-viewer';
+import { IConfigurableService, IService } from '../types';
 
 export type SheetServiceConfiguration = {
   backgroundColor: string;
@@ -21,7 +22,7 @@ export function isSheetServiceConfiguration(obj: unknown): obj is SheetServiceCo
   );
 }
 
-export interface ISheetService extends IService, IResettableConfigurationService {
+export interface ISheetService extends IService, IConfigurableService {
   getSheetBackgroundColor(): string;
   getSheetColor(): string;
   getSheetShadowColor(): string;
@@ -32,5 +33,8 @@ export interface ISheetService extends IService, IResettableConfigurationService
   ): Promise<void>;
   getBackgroundSheetEnabled(): boolean;
   setBackgroundSheetEnabled(enabled: boolean): Promise<void>;
+  getActiveSheetId(): SheetId | null;
+  setActiveSheetId(sheetId: SheetId): Promise<void>;
+  getConfiguration(): Promise<SheetServiceConfiguration>;
   resetConfiguration(obj?: object): Promise<void>;
 }
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import ShortcutService from './ShortcutService';
+import { getEventChord, normalizeChord } from './utils';
+
+const pressKey = (target: EventTarget, init: KeyboardEventInit) => {
+  const event = new KeyboardEvent('keydown', {
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    ...init,
+  });
+  target.dispatchEvent(event);
+  return event;
+};
+
+describe('ShortcutService', () => {
+  let service: ShortcutService;
+  let viewerElement: HTMLElement;
+
+  beforeEach(() => {
+    service = new ShortcutService();
+    viewerElement = document.createElement('div');
+    document.body.appendChild(viewerElement);
+    service.viewerElement = viewerElement;
+    service.connect();
+  });
+
+  afterEach(() => {
+    service.disconnect();
+    viewerElement.remove();
+  });
+
+  it('should initialize with correct service name and the default keymap', async () => {
+    expect(service.serviceName).toBe('ShortcutService');
+    expect(await service.getConfiguration()).toEqual(ShortcutService.DefaultConfig);
+  });
+
+  it('should normalize the chords', () => {
+    expect(normalizeChord('shift+ctrl+h')).toBe('Ctrl+Shift+H');
+    expect(normalizeChord('Cmd + Option + escape')).toBe('Alt+Meta+Escape');
+    expect(normalizeChord('')).toBe('');
+    expect(() => normalizeChord('Hyper+H')).toThrow('Invalid shortcut chord: Hyper+H');
+    expect(
+      getEventChord(new KeyboardEvent('keydown', { key: '!', code: 'Digit1', shiftKey: true })),
+    ).toBe('Shift+1');
+    expect(getEventChord(new KeyboardEvent('keydown', { key: 'Control', ctrlKey: true }))).toBe('');
+  });
+
+  it('should execute the action bound to the pressed chord with its argument', async () => {
+    const setDrawMode = vi.fn();
+    const listener = vi.fn();
+    service.registerAction('setDrawMode', setDrawMode);
+    service.addEventListener('hoops-shortcut-executed', listener);
+
+    const event = pressKey(viewerElement, { key: '¡', code: 'Digit1', altKey: true });
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(setDrawMode).toHaveBeenCalledWith('Wireframe');
+    await vi.waitFor(() => expect(listener).toHaveBeenCalledOnce());
+    expect(listener.mock.calls[0][0].detail).toEqual({ action: 'setDrawMode:Wireframe' });
+  });
+
+  it('should only execute the viewer scoped actions for the events of the viewer', () => {
+    const home = vi.fn();
+    service.registerAction('home', home);
+
+    pressKey(document.body, { key: 'h', code: 'KeyH' });
+    expect(home).not.toHaveBeenCalled();
+
+    service.setBinding({ action: 'home', chord: 'h', scope: 'global' });
+    pressKey(document.body, { key: 'h', code: 'KeyH' });
+    expect(home).toHaveBeenCalledOnce();
+  });
+
+  it('should ignore the events of the text fields and the unregistered actions', () => {
+    const home = vi.fn();
+    const input = document.createElement('input');
+    viewerElement.appendChild(input);
+
+    expect(pressKey(viewerElement, { key: 'h', code: 'KeyH' }).defaultPrevented).toBe(false);
+
+    service.registerAction('home', home);
+    pressKey(input, { key: 'h', code: 'KeyH' });
+    expect(home).not.toHaveBeenCalled();
+  });
+
+  it('should only listen to the keyboard events while connected', () => {
+    const home = vi.fn();
+    service.registerAction('home', home);
+
+    service.connect();
+    pressKey(viewerElement, { key: 'h', code: 'KeyH' });
+    expect(home).toHaveBeenCalledOnce();
+
+    service.disconnect();
+    pressKey(viewerElement, { key: 'h', code: 'KeyH' });
+    expect(home).toHaveBeenCalledOnce();
+  });
+
+  it('should unbind the chord from the other actions when rebinding', () => {
+    const listener = vi.fn();
+    service.addEventListener('hoops-shortcut-bindings-changed', listener);
+
+    service.setBinding({ action: 'fitWorld', chord: 'h', scope: 'viewer', label: 'Fit' });
+
+    expect(service.getBinding('fitWorld')?.chord).toBe('H');
+    expect(service.getBinding('home')?.chord).toBe('');
+    expect(listener).toHaveBeenCalledOnce();
+    expect(() => service.setBinding({ action: 'home', chord: 'Ctrl+', scope: 'viewer' })).toThrow(
+      'Invalid shortcut chord',
+    );
+  });
+
+  it('should return false when executing an action without handler', async () => {
+    expect(await service.execute('toggleExplode')).toBe(false);
+  });
+
+  it('should reset the configuration', async () => {
+    const bindings = [{ action: 'home', chord: 'Ctrl+H', scope: 'global' as const }];
+
+    await service.resetConfiguration({ bindings });
+    expect(service.getBindings()).toEqual(bindings);
+
+    await service.resetConfiguration();
+    expect(service.getBindings()).toEqual(ShortcutService.DefaultConfig.bindings);
+
+    await expect(service.resetConfiguration({ bindings: [{ action: 'home' }] })).rejects.toThrow(
+      'Invalid configuration object',
+    );
+  });
+});
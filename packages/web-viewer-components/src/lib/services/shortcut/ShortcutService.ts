@@ -0,0 +1,233 @@
+import {
+  isShortcutServiceConfiguration,
+  IShortcutService,
+  ShortcutActionHandler,
+  ShortcutBinding,
+  ShortcutExecutedDetail,
+  ShortcutServiceConfiguration,
+} from './types';
+import { getEventChord, isTextEditingEvent, normalizeChord, splitAction } from './utils';
+
+/**
+ * Service class owning the keyboard shortcuts of the viewer.
+ *
+ * The keymap binds action ids to key chords, an action id being the name of an action optionally
+ * followed by an argument, e.g. "setDrawMode:Wireframe" or "toggleCuttingSection:0". The handlers
+ * of the actions are registered separately, the context manager registers the built-in actions
+ * when its web viewer is set:
+ * - `setDrawMode:<DrawModeName>`, `home`, `fitWorld`, `isolateSelection` and `showAll`
+ * - `undo` and `redo`, through the UndoService
+ * - `toggleExplode` and `toggleCuttingSection:<section index>`
+ * - `activateTool:<OperatorId name>`, `activateTool:None` deactivating the current tool
+ *
+ * The `viewer` scoped shortcuts only apply to the keyboard events coming from the viewer element
+ * while the `global` ones apply to the whole page. The events coming from a text field are ignored.
+ * The keyboard events are only listened to between `connect` and `disconnect`, the context manager
+ * connects the service while it has a web viewer.
+ *
+ * @fires hoops-shortcut-bindings-changed - When a binding is set or removed
+ * @fires hoops-shortcut-executed - When an action is executed, includes the action id
+ *
+ * @example
+ * ```typescript
+ * const shortcutService = getService<IShortcutService>('ShortcutService');
+ *
+ * shortcutService.registerAction('copyNodeId', () => copySelectedNodeId());
+ * shortcutService.setBinding({ action: 'copyNodeId', chord: 'Ctrl+Shift+C', scope: 'global' });
+ * shortcutService.setBinding({ action: 'setDrawMode:XRay', chord: 'X', scope: 'viewer' });
+ * ```
+ */
+export default class ShortcutService extends EventTarget implements IShortcutService {
+  public readonly serviceName = 'ShortcutService' as const;
+
+  public static readonly DefaultConfig: ShortcutServiceConfiguration = {
+    bindings: [
+      { action: 'undo', chord: 'Ctrl+Z', scope: 'global', label: 'Undo' },
+      { action: 'redo', chord: 'Ctrl+Y', scope: 'global', label: 'Redo' },
+      { action: 'home', chord: 'H', scope: 'viewer', label: 'Home' },
+      { action: 'fitWorld', chord: 'Shift+F', scope: 'viewer', label: 'Fit' },
+      { action: 'isolateSelection', chord: 'I', scope: 'viewer', label: 'Isolate selection' },
+      { action: 'showAll', chord: 'Shift+I', scope: 'viewer', label: 'Show all' },
+      { action: 'toggleExplode', chord: 'Shift+E', scope: 'viewer', label: 'Toggle explode' },
+      {
+        action: 'setDrawMode:Wireframe',
+        chord: 'Alt+1',
+        scope: 'viewer',
+        label: 'Wireframe',
+      },
+      { action: 'setDrawMode:Shaded', chord: 'Alt+2', scope: 'viewer', label: 'Shaded' },
+      {
+        action: 'setDrawMode:WireframeOnShaded',
+        chord: 'Alt+3',
+        scope: 'viewer',
+        label: 'Wireframe on shaded',
+      },
+      { action: 'setDrawMode:HiddenLine', chord: 'Alt+4', scope: 'viewer', label: 'Hidden line' },
+      { action: 'setDrawMode:XRay', chord: 'Alt+5', scope: 'viewer', label: 'XRay' },
+      {
+        action: 'toggleCuttingSection:0',
+        chord: 'Alt+Shift+1',
+        scope: 'viewer',
+        label: 'Toggle cutting section 1',
+      },
+      {
+        action: 'toggleCuttingSection:1',
+        chord: 'Alt+Shift+2',
+        scope: 'viewer',
+        label: 'Toggle cutting section 2',
+      },
+      {
+        action: 'activateTool:MeasurePointPointDistance',
+        chord: 'M',
+        scope: 'viewer',
+        label: 'Measure distance',
+      },
+      { action: 'activateTool:None', chord: 'Escape', scope: 'viewer', label: 'Deactivate tool' },
+    ],
+  };
+
+  private bindings = new Map<string, ShortcutBinding>();
+  private actions = new Map<string, ShortcutActionHandler>();
+
+  public viewerElement?: HTMLElement;
+  public enabled = true;
+
+  private connected = false;
+
+  constructor() {
+    super();
+    this.setBindings(ShortcutService.DefaultConfig.bindings);
+  }
+
+  public connect(): void {
+    if (this.connected) {
+      return;
+    }
+
+    window.addEventListener('keydown', this.handleKeyDown);
+    this.connected = true;
+  }
+
+  public disconnect(): void {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    this.connected = false;
+  }
+
+  public getBindings(): ShortcutBinding[] {
+    return [...this.bindings.values()].map((binding) => ({ ...binding }));
+  }
+
+  public getBinding(action: string): ShortcutBinding | undefined {
+    const binding = this.bindings.get(action);
+    return binding ? { ...binding } : undefined;
+  }
+
+  public setBinding(binding: ShortcutBinding): void {
+    this.addBinding(binding);
+    this.dispatchBindingsChanged();
+  }
+
+  public removeBinding(action: string): boolean {
+    const removed = this.bindings.delete(action);
+    if (removed) {
+      this.dispatchBindingsChanged();
+    }
+    return removed;
+  }
+
+  public registerAction(name: string, handler: ShortcutActionHandler): void {
+    this.actions.set(name, handler);
+  }
+
+  public unregisterAction(name: string): void {
+    this.actions.delete(name);
+  }
+
+  public async execute(action: string): Promise<boolean> {
+    const [name, argument] = splitAction(action);
+    const handler = this.actions.get(name);
+    if (!handler) {
+      return false;
+    }
+
+    await handler(argument);
+    this.dispatchEvent(
+      new CustomEvent<ShortcutExecutedDetail>('hoops-shortcut-executed', {
+        bubbles: true,
+        composed: true,
+        detail: { action },
+      }),
+    );
+    return true;
+  }
+
+  public async getConfiguration(): Promise<ShortcutServiceConfiguration> {
+    return { bindings: this.getBindings() };
+  }
+
+  public async resetConfiguration(obj?: object): Promise<void> {
+    const config = obj ?? ShortcutService.DefaultConfig;
+    if (!isShortcutServiceConfiguration(config)) {
+      throw new Error('Invalid configuration object');
+    }
+
+    this.setBindings(config.bindings);
+    this.dispatchBindingsChanged();
+  }
+
+  private setBindings(bindings: ShortcutBinding[]): void {
+    this.bindings.clear();
+    for (const binding of bindings) {
+      this.addBinding(binding);
+    }
+  }
+
+  /**
+   * Adds a binding, unbinding its chord from the other actions.
+   */
+  private addBinding(binding: ShortcutBinding): void {
+    const chord = normalizeChord(binding.chord);
+    if (chord) {
+      for (const other of this.bindings.values()) {
+        if (other.chord === chord && other.action !== binding.action) {
+          other.chord = '';
+        }
+      }
+    }
+
+    this.bindings.set(binding.action, { ...binding, chord });
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (!this.enabled || event.defaultPrevented || isTextEditingEvent(event)) {
+      return;
+    }
+
+    const chord = getEventChord(event);
+    const binding = chord
+      ? [...this.bindings.values()].find((binding) => binding.chord === chord)
+      : undefined;
+    if (
+      !binding ||
+      !this.actions.has(splitAction(binding.action)[0]) ||
+      (binding.scope === 'viewer' &&
+        (!this.viewerElement || !event.composedPath().includes(this.viewerElement)))
+    ) {
+      return;
+    }
+
+    event.preventDefault();
+    this.execute(binding.action).catch((error) =>
+      console.error(`Failed to execute the shortcut action ${binding.action}:`, error),
+    );
+  };
+
+  private dispatchBindingsChanged(): void {
+    this.dispatchEvent(
+      new CustomEvent('hoops-shortcut-bindings-changed', {
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+}
@@ -0,0 +1,4 @@
+export { default } from './ShortcutService';
+export * from './ShortcutService';
+export * from './types';
+export * from './utils';
@@ -0,0 +1,156 @@
+import { IConfigurableService, IService } from '../types';
+
+/**
+ * Where a shortcut is active:
+ * - `viewer`: only when the keyboard event comes from the viewer, i.e. when it has the focus
+ * - `global`: anywhere in the page
+ *
+ * In both cases the shortcuts are ignored while a text field has the focus.
+ */
+export type ShortcutScope = 'viewer' | 'global';
+
+/**
+ * Binds an action to a key chord.
+ *
+ * @interface ShortcutBinding
+ */
+export interface ShortcutBinding {
+  /**
+   * The id of the action, its name optionally followed by a colon and an argument,
+   * e.g. "home" or "setDrawMode:Wireframe".
+   */
+  action: string;
+
+  /**
+   * The key chord, the modifiers followed by the key and separated by "+", e.g. "Ctrl+Shift+H".
+   * An empty chord leaves the action unbound.
+   */
+  chord: string;
+
+  scope: ShortcutScope;
+
+  /**
+   * A human readable description of the action, e.g. "Wireframe draw mode".
+   */
+  label?: string;
+}
+
+/**
+ * Performs an action, receives the argument of the action id if any.
+ */
+export type ShortcutActionHandler = (argument?: string) => void | Promise<void>;
+
+/**
+ * The detail of the `hoops-shortcut-executed` event.
+ */
+export type ShortcutExecutedDetail = {
+  action: string;
+};
+
+export type ShortcutServiceConfiguration = {
+  bindings: ShortcutBinding[];
+};
+
+export function isShortcutServiceConfiguration(obj: unknown): obj is ShortcutServiceConfiguration {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const config = obj as ShortcutServiceConfiguration;
+  return (
+    Array.isArray(config.bindings) &&
+    config.bindings.every(
+      (binding) =>
+        typeof binding === 'object' &&
+        binding !== null &&
+        typeof binding.action === 'string' &&
+        typeof binding.chord === 'string' &&
+        (binding.scope === 'viewer' || binding.scope === 'global') &&
+        (binding.label === undefined || typeof binding.label === 'string'),
+    )
+  );
+}
+
+/**
+ * Interface for the shortcut service, owning the keymap binding the actions to key chords and
+ * performing the actions when their chord is pressed.
+ *
+ * @interface IShortcutService
+ * @extends IService
+ * @extends IConfigurableService
+ */
+export interface IShortcutService extends IService, IConfigurableService {
+  /**
+   * The element the `viewer` scoped shortcuts are listened to on.
+   */
+  viewerElement?: HTMLElement;
+
+  /**
+   * Whether the shortcuts are listened to.
+   */
+  enabled: boolean;
+
+  /**
+   * Starts listening to the keyboard events of the page, does nothing if already listening.
+   */
+  connect(): void;
+
+  /**
+   * Stops listening to the keyboard events of the page.
+   */
+  disconnect(): void;
+
+  /**
+   * Lists the bindings of the keymap, including the unbound actions.
+   */
+  getBindings(): ShortcutBinding[];
+
+  /**
+   * Gets the binding of an action.
+   *
+   * @param action - The id of the action
+   */
+  getBinding(action: string): ShortcutBinding | undefined;
+
+  /**
+   * Adds or replaces the binding of an action.
+   * The chord is normalized and unbound from any other action using it.
+   *
+   * @param binding - The binding to set
+   * @throws {Error} If the chord is not valid
+   */
+  setBinding(binding: ShortcutBinding): void;
+
+  /**
+   * Removes the binding of an action from the keymap.
+   *
+   * @param action - The id of the action
+   * @returns True if the action had a binding
+   */
+  removeBinding(action: string): boolean;
+
+  /**
+   * Registers the handler of an action, replacing the previous one if any.
+   *
+   * @param name - The name of the action, without argument, e.g. "setDrawMode"
+   * @param handler - The function performing the action
+   */
+  registerAction(name: string, handler: ShortcutActionHandler): void;
+
+  /**
+   * Unregisters the handler of an action.
+   *
+   * @param name - The name of the action
+   */
+  unregisterAction(name: string): void;
+
+  /**
+   * Performs an action.
+   *
+   * @param action - The id of the action, e.g. "toggleCuttingSection:0"
+   * @returns A promise that resolves with false if no handler is registered for the action
+   */
+  execute(action: string): Promise<boolean>;
+
+  getConfiguration(): Promise<ShortcutServiceConfiguration>;
+}
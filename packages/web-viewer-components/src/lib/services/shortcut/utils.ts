@@ -0,0 +1,98 @@
+const ModifierAliases: Record<string, string> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift',
+  meta: 'Meta',
+  cmd: 'Meta',
+  command: 'Meta',
+};
+
+const ModifierOrder = ['Ctrl', 'Alt', 'Shift', 'Meta'];
+
+const ModifierKeys = ['Control', 'Alt', 'Shift', 'Meta', 'AltGraph', 'CapsLock'];
+
+function normalizeKey(key: string): string {
+  if (key === ' ' || key.toLowerCase() === 'space') {
+    return 'Space';
+  }
+
+  return key.length === 1 ? key.toUpperCase() : key[0].toUpperCase() + key.slice(1);
+}
+
+/**
+ * Normalizes a key chord so that chords can be compared, e.g. "shift+ctrl+h" becomes
+ * "Ctrl+Shift+H". The modifiers are sorted and single character keys are upper cased.
+ *
+ * @param chord - The chord to normalize, an empty chord stays empty
+ * @returns {string} The normalized chord
+ * @throws {Error} If the chord has no key or an unknown modifier
+ */
+export function normalizeChord(chord: string): string {
+  if (chord.trim() === '') {
+    return '';
+  }
+
+  const parts = chord.split('+').map((part) => part.trim());
+  const key = parts.pop();
+  const modifiers = parts.map((part) => ModifierAliases[part.toLowerCase()]);
+  if (!key || modifiers.some((modifier) => modifier === undefined)) {
+    throw new Error(`Invalid shortcut chord: ${chord}`);
+  }
+
+  return [
+    ...ModifierOrder.filter((modifier) => modifiers.includes(modifier)),
+    normalizeKey(key),
+  ].join('+');
+}
+
+/**
+ * Gets the normalized chord of a keyboard event.
+ * Letters and digits are read from the physical key, so that the chord does not depend on the
+ * modifiers, e.g. Shift+1 is not read as "!".
+ *
+ * @param event - The keyboard event
+ * @returns {string} The chord, or an empty string if only a modifier key is pressed
+ */
+export function getEventChord(event: KeyboardEvent): string {
+  if (ModifierKeys.includes(event.key)) {
+    return '';
+  }
+
+  const code = /^(?:Key|Digit)(\w)$/.exec(event.code ?? '');
+  const modifiers = [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.shiftKey && 'Shift',
+    event.metaKey && 'Meta',
+  ].filter(Boolean);
+
+  return [...modifiers, normalizeKey(code ? code[1] : event.key)].join('+');
+}
+
+/**
+ * Whether a keyboard event targets an element editing text, which handles its keys on its own.
+ *
+ * @param event - The keyboard event
+ * @returns {boolean} True if the event comes from a text field
+ */
+export function isTextEditingEvent(event: KeyboardEvent): boolean {
+  const target = event.composedPath()[0];
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
+
+/**
+ * Splits an action id into the name and the argument of the action,
+ * e.g. "setDrawMode:Wireframe" gives "setDrawMode" and "Wireframe".
+ *
+ * @param action - The id of the action
+ * @returns {[string, string | undefined]} The name and the argument of the action
+ */
+export function splitAction(action: string): [string, string | undefined] {
+  const index = action.indexOf(':');
+  return index < 0 ? [action, undefined] : [action.slice(0, index), action.slice(index + 1)];
+}
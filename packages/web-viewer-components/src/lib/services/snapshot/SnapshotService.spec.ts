@@ -0,0 +1,171 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+
+import { Color, core } from '@ts3d-hoops/web-viewer';
+import SnapshotService from './SnapshotService';
+import { downloadBlob, imageToBlob } from './utils';
+
+vi.mock(import('./utils'), async (importOriginal) => {
+  const actual = await importOriginal();
+  return {
+    ...actual,
+    imageToBlob: vi.fn(() => Promise.resolve(new Blob(['snapshot'], { type: 'image/png' }))),
+    downloadBlob: vi.fn(),
+  };
+});
+
+const createMockWebViewer = () => {
+  const background = { top: new Color(1, 2, 3), bottom: new Color(4, 5, 6) };
+  return {
+    takeSnapshot: vi.fn(() => Promise.resolve(document.createElement('img'))),
+    view: {
+      getBackgroundColor: vi.fn(() => background),
+      setBackgroundColor: vi.fn(() => Promise.resolve()),
+    },
+    background,
+  };
+};
+
+describe('SnapshotService', () => {
+  let service: SnapshotService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new SnapshotService();
+  });
+
+  it('should initialize with correct service name and default configuration', () => {
+    expect(service.serviceName).toBe('SnapshotService');
+    expect(service.getSnapshotConfiguration()).toEqual(SnapshotService.DefaultConfig);
+  });
+
+  it('should dispatch reset event when webViewer changes', () => {
+    const listener = vi.fn();
+    service.addEventListener('hoops-snapshot-service-reset', listener);
+    service.webViewer = createMockWebViewer() as unknown as core.IWebViewer;
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it('should reject when webViewer is not set', async () => {
+    await expect(service.takeSnapshot()).rejects.toThrow('WebViewer is not set');
+  });
+
+  describe('takeSnapshot', () => {
+    it('should keep the viewer background by default', async () => {
+      const mock = createMockWebViewer();
+      service.webViewer = mock as unknown as core.IWebViewer;
+
+      const blob = await service.takeSnapshot();
+
+      expect(blob).toBeInstanceOf(Blob);
+      expect(mock.takeSnapshot).toHaveBeenCalledOnce();
+      expect(mock.view.setBackgroundColor).not.toHaveBeenCalled();
+      expect(imageToBlob).toHaveBeenCalledWith(expect.anything(), 'image/png', 0.92, undefined);
+    });
+
+    it('should clear and restore the background for transparent snapshots', async () => {
+      const mock = createMockWebViewer();
+      service.webViewer = mock as unknown as core.IWebViewer;
+
+      await service.takeSnapshot({ background: 'transparent', format: 'webp', quality: 0.5 });
+
+      expect(mock.view.setBackgroundColor).toHaveBeenNthCalledWith(1, null, null);
+      expect(mock.view.setBackgroundColor).toHaveBeenNthCalledWith(
+        2,
+        mock.background.top,
+        mock.background.bottom,
+      );
+      expect(imageToBlob).toHaveBeenCalledWith(expect.anything(), 'image/webp', 0.5, undefined);
+    });
+
+    it('should restore the background when the capture fails', async () => {
+      const mock = createMockWebViewer();
+      mock.takeSnapshot.mockRejectedValueOnce(new Error('capture failed'));
+      service.webViewer = mock as unknown as core.IWebViewer;
+
+      await expect(service.takeSnapshot({ background: 'transparent' })).rejects.toThrow(
+        'capture failed',
+      );
+      expect(mock.view.setBackgroundColor).toHaveBeenLastCalledWith(
+        mock.background.top,
+        mock.background.bottom,
+      );
+    });
+
+    it('should fill solid backgrounds with the configured color', async () => {
+      const mock = createMockWebViewer();
+      service.webViewer = mock as unknown as core.IWebViewer;
+
+      await service.takeSnapshot({
+        background: 'solid',
+        backgroundColor: '#ff0000',
+        format: 'jpeg',
+      });
+
+      expect(imageToBlob).toHaveBeenCalledWith(expect.anything(), 'image/jpeg', 0.92, '#ff0000');
+    });
+
+    it('should dispatch hoops-snapshot-taken with the blob', async () => {
+      service.webViewer = createMockWebViewer() as unknown as core.IWebViewer;
+      const listener = vi.fn();
+      service.addEventListener('hoops-snapshot-taken', listener);
+
+      const blob = await service.takeSnapshot();
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          detail: expect.objectContaining({ blob }),
+        }),
+      );
+    });
+
+    it('should reject invalid options', async () => {
+      service.webViewer = createMockWebViewer() as unknown as core.IWebViewer;
+      await expect(service.takeSnapshot({ format: 'gif' as any })).rejects.toThrow(
+        'Invalid snapshot configuration object',
+      );
+    });
+  });
+
+  describe('downloadSnapshot', () => {
+    it('should download the snapshot with an extension matching the format', async () => {
+      service.webViewer = createMockWebViewer() as unknown as core.IWebViewer;
+
+      const blob = await service.downloadSnapshot({ format: 'jpeg', filename: 'review' });
+
+      expect(downloadBlob).toHaveBeenCalledWith(blob, 'review.jpg');
+    });
+  });
+
+  describe('configuration', () => {
+    it('should update the configuration and dispatch an event', () => {
+      const listener = vi.fn();
+      service.addEventListener('hoops-snapshot-configuration-changed', listener);
+
+      service.setSnapshotConfiguration({ width: 800, height: 600 });
+
+      expect(service.getSnapshotConfiguration()).toMatchObject({ width: 800, height: 600 });
+      expect(listener).toHaveBeenCalledOnce();
+    });
+
+    it('should throw if the configuration is invalid', () => {
+      expect(() => service.setSnapshotConfiguration({ width: -1 })).toThrow(
+        'Invalid snapshot configuration object',
+      );
+      expect(() => service.setSnapshotConfiguration({ quality: 2 })).toThrow(
+        'Invalid snapshot configuration object',
+      );
+    });
+
+    it('should reset to default when no config is provided', async () => {
+      service.setSnapshotConfiguration({ format: 'webp' });
+      await service.resetConfiguration();
+      expect(service.getSnapshotConfiguration()).toEqual(SnapshotService.DefaultConfig);
+    });
+
+    it('should throw if the argument is not a valid config', async () => {
+      await expect(service.resetConfiguration({})).rejects.toThrow(
+        'Invalid snapshot configuration object',
+      );
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { core, SnapshotConfig } from '@ts3d-hoops/web-viewer';
+import {
+  ISnapshotService,
+  isSnapshotServiceConfiguration,
+  SnapshotOptions,
+  SnapshotServiceConfiguration,
+} from './types';
+import { downloadBlob, imageToBlob, toFileExtension, toMimeType } from './utils';
+
+/**
+ * Service class capturing images of the web viewer.
+ *
+ * Snapshots are rendered by the web viewer, composited over the requested background and
+ * encoded as PNG, JPEG or WebP. The result is returned as a Blob so it can either be uploaded by
+ * the host application or downloaded through `downloadSnapshot`.
+ *
+ * @fires hoops-snapshot-configuration-changed - When the default snapshot options change
+ * @fires hoops-snapshot-taken - When a snapshot has been captured, with the Blob and the options used
+ * @fires hoops-snapshot-service-reset - When the service is reset with a new web viewer
+ *
+ * @example
+ * ```typescript
+ * const snapshotService = getService<ISnapshotService>('SnapshotService');
+ * const blob = await snapshotService.takeSnapshot({
+ *   width: 1920,
+ *   height: 1080,
+ *   background: 'transparent',
+ *   format: 'png',
+ * });
+ * await fetch('/api/snapshots', { method: 'POST', body: blob });
+ * ```
+ */
+export default class SnapshotService extends EventTarget implements ISnapshotService {
+  public readonly serviceName = 'SnapshotService' as const;
+
+  private _webViewer?: core.IWebViewer;
+
+  private _configuration: SnapshotServiceConfiguration;
+
+  public static readonly DefaultConfig: SnapshotServiceConfiguration = {
+    background: 'current',
+    backgroundColor: '#ffffff',
+    format: 'png',
+    quality: 0.92,
+    filename: 'hwv-screenshot',
+  };
+
+  constructor() {
+    super();
+    this._configuration = { ...SnapshotService.DefaultConfig };
+  }
+
+  get webViewer(): core.IWebViewer | undefined {
+    return this._webViewer;
+  }
+
+  set webViewer(webViewer: core.IWebViewer | undefined) {
+    if (this._webViewer === webViewer) {
+      return;
+    }
+
+    this._webViewer = webViewer;
+    this.reset();
+  }
+
+  /**
+   * Gets the options used when a snapshot is taken without overrides.
+   * @returns a copy of the current snapshot configuration.
+   */
+  public getSnapshotConfiguration(): SnapshotServiceConfiguration {
+    return { ...this._configuration };
+  }
+
+  /**
+   * Updates the options used when a snapshot is taken without overrides.
+   * @param options the options to update, omitted options are left unchanged.
+   */
+  public setSnapshotConfiguration(options: SnapshotOptions): void {
+    const configuration = { ...this._configuration, ...options };
+    if (!isSnapshotServiceConfiguration(configuration)) {
+      throw new Error('Invalid snapshot configuration object');
+    }
+
+    this._configuration = configuration;
+    this.dispatchEvent(
+      new CustomEvent('hoops-snapshot-configuration-changed', {
+        bubbles: true,
+        composed: true,
+        detail: this.getSnapshotConfiguration(),
+      }),
+    );
+  }
+
+  /**
+   * Captures the current view of the web viewer.
+   * @param options overrides of the snapshot configuration for this capture only.
+   * @returns a promise that resolves with the encoded image.
+   */
+  public async takeSnapshot(options?: SnapshotOptions): Promise<Blob> {
+    if (!this._webViewer) {
+      throw new Error('WebViewer is not set');
+    }
+
+    const config = { ...this._configuration, ...options };
+    if (!isSnapshotServiceConfiguration(config)) {
+      throw new Error('Invalid snapshot configuration object');
+    }
+
+    const image = await this.captureImage(config);
+    const blob = await imageToBlob(
+      image,
+      toMimeType(config.format),
+      config.quality,
+      this.getFillColor(config),
+    );
+
+    this.dispatchEvent(
+      new CustomEvent('hoops-snapshot-taken', {
+        bubbles: true,
+        composed: true,
+        detail: { blob, configuration: config },
+      }),
+    );
+
+    return blob;
+  }
+
+  /**
+   * Captures the current view of the web viewer and downloads it.
+   * The file extension is derived from the snapshot format.
+   * @param options overrides of the snapshot configuration for this capture only.
+   * @returns a promise that resolves with the downloaded image.
+   */
+  public async downloadSnapshot(options?: SnapshotOptions): Promise<Blob> {
+    const blob = await this.takeSnapshot(options);
+    const config = { ...this._configuration, ...options };
+    downloadBlob(blob, `${config.filename}.${toFileExtension(config.format)}`);
+    return blob;
+  }
+
+  async getConfiguration(): Promise<SnapshotServiceConfiguration> {
+    return this.getSnapshotConfiguration();
+  }
+
+  async resetConfiguration(obj?: object): Promise<void> {
+    const config = obj ?? SnapshotService.DefaultConfig;
+    if (!isSnapshotServiceConfiguration(config)) {
+      throw new Error('Invalid snapshot configuration object');
+    }
+
+    this._configuration = { ...config };
+    this.dispatchEvent(
+      new CustomEvent('hoops-snapshot-configuration-changed', {
+        bubbles: true,
+        composed: true,
+        detail: this.getSnapshotConfiguration(),
+      }),
+    );
+  }
+
+  reset(): void {
+    this.dispatchEvent(
+      new CustomEvent('hoops-snapshot-service-reset', { bubbles: true, composed: true }),
+    );
+  }
+
+  /**
+   * Renders the snapshot, clearing the viewer background for the capture when the configuration
+   * does not keep the current one. The viewer background is restored afterward.
+   */
+  private async captureImage(config: SnapshotServiceConfiguration): Promise<HTMLImageElement> {
+    const webViewer = this._webViewer!;
+    const snapshotConfig = new SnapshotConfig(config.width, config.height);
+
+    if (config.background === 'current') {
+      return webViewer.takeSnapshot(snapshotConfig);
+    }
+
+    const { top, bottom } = webViewer.view.getBackgroundColor();
+    await webViewer.view.setBackgroundColor(null, null);
+    try {
+      return await webViewer.takeSnapshot(snapshotConfig);
+    } finally {
+      await webViewer.view.setBackgroundColor(top, bottom);
+    }
+  }
+
+  /**
+   * JPEG has no alpha channel, transparent pixels are rendered white instead of black.
+   */
+  private getFillColor(config: SnapshotServiceConfiguration): string | undefined {
+    if (config.background === 'solid') {
+      return config.backgroundColor;
+    }
+
+    if (config.background === 'transparent' && config.format === 'jpeg') {
+      return '#ffffff';
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,4 @@
+export { default } from './SnapshotService';
+export * from './SnapshotService';
+export * from './types';
+export * from './utils';
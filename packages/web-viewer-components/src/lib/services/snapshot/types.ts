@@ -0,0 +1,75 @@
+import { IConfigurableService, IService } from '../types';
+
+export const SnapshotFormatValues = ['png', 'jpeg', 'webp'] as const;
+export type SnapshotFormat = (typeof SnapshotFormatValues)[number];
+
+//! 'transparent' clears the background, 'current' keeps the viewer background (gradient included)
+//! and 'solid' fills the background with `backgroundColor`
+export const SnapshotBackgroundValues = ['transparent', 'current', 'solid'] as const;
+export type SnapshotBackground = (typeof SnapshotBackgroundValues)[number];
+
+export type SnapshotServiceConfiguration = {
+  //! undefined to use the canvas size
+  width?: number;
+  height?: number;
+
+  background: SnapshotBackground;
+  //! rgb color as hexadecimal string, used when background is 'solid'
+  backgroundColor: string;
+
+  format: SnapshotFormat;
+  //! between 0 and 1, only used by lossy formats (jpeg and webp)
+  quality: number;
+
+  filename: string;
+};
+
+export type SnapshotOptions = Partial<SnapshotServiceConfiguration>;
+
+export function isSnapshotFormat(value: unknown): value is SnapshotFormat {
+  return SnapshotFormatValues.includes(value as SnapshotFormat);
+}
+
+export function isSnapshotBackground(value: unknown): value is SnapshotBackground {
+  return SnapshotBackgroundValues.includes(value as SnapshotBackground);
+}
+
+function isOptionalDimension(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && value > 0);
+}
+
+export function isSnapshotServiceConfiguration(obj: unknown): obj is SnapshotServiceConfiguration {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const value = obj as SnapshotServiceConfiguration;
+  return (
+    isOptionalDimension(value.width) &&
+    isOptionalDimension(value.height) &&
+    isSnapshotBackground(value.background) &&
+    typeof value.backgroundColor === 'string' &&
+    isSnapshotFormat(value.format) &&
+    typeof value.quality === 'number' &&
+    value.quality >= 0 &&
+    value.quality <= 1 &&
+    typeof value.filename === 'string'
+  );
+}
+
+/**
+ * @interface ISnapshotService
+ * @extends IService
+ *
+ * Service interface for capturing images of the web viewer.
+ *
+ * Snapshots are returned as a Blob so they can be uploaded or downloaded by the host application.
+ */
+export interface ISnapshotService extends IService, IConfigurableService {
+  getSnapshotConfiguration(): SnapshotServiceConfiguration;
+  setSnapshotConfiguration(options: SnapshotOptions): void;
+  takeSnapshot(options?: SnapshotOptions): Promise<Blob>;
+  downloadSnapshot(options?: SnapshotOptions): Promise<Blob>;
+  getConfiguration(): Promise<SnapshotServiceConfiguration>;
+  resetConfiguration(obj?: object): Promise<void>;
+}
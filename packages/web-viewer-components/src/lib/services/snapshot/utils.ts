@@ -0,0 +1,94 @@
+import { SnapshotFormat } from './types';
+
+export function toMimeType(format: SnapshotFormat): string {
+  switch (format) {
+    case 'png':
+      return 'image/png';
+    case 'jpeg':
+      return 'image/jpeg';
+    case 'webp':
+      return 'image/webp';
+    default:
+      throw new Error(`Unknown snapshot format: ${format}`);
+  }
+}
+
+export function toFileExtension(format: SnapshotFormat): string {
+  return format === 'jpeg' ? 'jpg' : format;
+}
+
+/**
+ * Waits for an image element to be decoded.
+ *
+ * @param image - The image returned by the web viewer snapshot
+ * @returns a promise that resolves once the image can be drawn
+ */
+function waitForImage(image: HTMLImageElement): Promise<void> {
+  if (image.complete && image.naturalWidth > 0) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    image.addEventListener('load', () => resolve(), { once: true });
+    image.addEventListener('error', () => reject(new Error('Failed to load snapshot image')), {
+      once: true,
+    });
+  });
+}
+
+/**
+ * Encodes an image element into a Blob of the requested type.
+ *
+ * @param image - The image to encode
+ * @param mimeType - The output mime type
+ * @param quality - The quality used by lossy formats, between 0 and 1
+ * @param fillColor - An optional color painted behind the image, as a CSS color string
+ * @returns a promise that resolves with the encoded image
+ */
+export async function imageToBlob(
+  image: HTMLImageElement,
+  mimeType: string,
+  quality: number,
+  fillColor?: string,
+): Promise<Blob> {
+  await waitForImage(image);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth || image.width;
+  canvas.height = image.naturalHeight || image.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Cannot create a 2D context to encode the snapshot');
+  }
+
+  if (fillColor) {
+    context.fillStyle = fillColor;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(image, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode the snapshot'))),
+      mimeType,
+      quality,
+    );
+  });
+}
+
+/**
+ * Triggers a browser download of a Blob.
+ *
+ * @param blob - The content to download
+ * @param filename - The name of the downloaded file
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const downloadLink = document.createElement('a');
+  downloadLink.href = url;
+  downloadLink.download = filename;
+  downloadLink.click();
+  // Revoking synchronously may cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url));
+}
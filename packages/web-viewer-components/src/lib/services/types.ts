@@ -28,6 +28,12 @@ export const ServiceNames = [
   'FloorplanService',
   'WalkOperatorService',
   'MaterialService',
+  'SnapshotService',
+  'SessionStateService',
+  'UndoService',
+  'ShortcutService',
+  'BcfService',
+  'MarkupService',
 ] as const; // Add other service names as needed
 
 export type ServiceName = (typeof ServiceNames)[number] | (string & {}); // Extend with other service names as needed (the `string & {}` trick allows for string literals while still being a valid type and supporting auto completion)
@@ -59,4 +65,20 @@ export function isResettableConfigurationService(
   );
 }
 
+/**
+ * A service whose configuration can be read back, in the format accepted by
+ * `resetConfiguration`, so that it can be persisted and restored later.
+ */
+export interface IConfigurableService extends IResettableConfigurationService {
+  getConfiguration(): Promise<object>;
+}
+
+export function isConfigurableService(obj: unknown): obj is IConfigurableService & IService {
+  return (
+    isResettableConfigurationService(obj) &&
+    'getConfiguration' in obj &&
+    typeof (obj as IConfigurableService).getConfiguration === 'function'
+  );
+}
+
 export type ServiceRegistry = { [K in ServiceName]?: IService };
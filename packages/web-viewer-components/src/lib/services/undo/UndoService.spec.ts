@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { CallbackMap, core } from '@ts3d-hoops/web-viewer';
+import UndoService from './UndoService';
+import { UndoCommand } from './types';
+
+const createCommand = (label: string, calls: string[] = []): UndoCommand => ({
+  label,
+  undo: vi.fn(() => {
+    calls.push(`undo ${label}`);
+  }),
+  redo: vi.fn(() => {
+    calls.push(`redo ${label}`);
+  }),
+});
+
+describe('UndoService', () => {
+  let service: UndoService;
+
+  beforeEach(() => {
+    service = new UndoService();
+  });
+
+  it('should initialize with correct service name and an empty history', () => {
+    expect(service.serviceName).toBe('UndoService');
+    expect(service.canUndo()).toBe(false);
+    expect(service.canRedo()).toBe(false);
+    expect(service.maxDepth).toBe(UndoService.DefaultMaxDepth);
+  });
+
+  it('should perform and record the executed commands', async () => {
+    const command = createCommand('Hide');
+
+    await service.execute(command);
+
+    expect(command.redo).toHaveBeenCalledOnce();
+    expect(service.canUndo()).toBe(true);
+    expect(service.getUndoLabel()).toBe('Hide');
+  });
+
+  it('should undo and redo the recorded commands', async () => {
+    const calls: string[] = [];
+    service.record(createCommand('Hide', calls));
+    service.record(createCommand('Set color', calls));
+
+    expect(await service.undo()).toBe(true);
+    expect(await service.undo()).toBe(true);
+    expect(await service.undo()).toBe(false);
+    expect(service.getRedoLabel()).toBe('Hide');
+
+    expect(await service.redo()).toBe(true);
+    expect(calls).toEqual(['undo Set color', 'undo Hide', 'redo Hide']);
+    expect(service.getUndoLabel()).toBe('Hide');
+    expect(service.getRedoLabel()).toBe('Set color');
+  });
+
+  it('should clear the commands to redo when a command is recorded', async () => {
+    service.record(createCommand('Hide'));
+    await service.undo();
+
+    service.record(createCommand('Transparent'));
+
+    expect(service.canRedo()).toBe(false);
+  });
+
+  it('should ignore the commands recorded while undoing', async () => {
+    const command = createCommand('Remove cutting plane');
+    command.undo = vi.fn(() => service.record(createCommand('Add cutting plane')));
+    service.record(command);
+
+    await service.undo();
+
+    expect(service.canUndo()).toBe(false);
+    expect(service.getRedoLabel()).toBe('Remove cutting plane');
+  });
+
+  it('should drop the oldest commands beyond the maximum depth', async () => {
+    service.maxDepth = 2;
+    service.record(createCommand('1'));
+    service.record(createCommand('2'));
+    service.record(createCommand('3'));
+
+    await service.undo();
+    await service.undo();
+
+    expect(service.canUndo()).toBe(false);
+    expect(service.getRedoLabel()).toBe('2');
+    expect(() => (service.maxDepth = 0)).toThrow('maxDepth must be a positive integer');
+  });
+
+  it('should drop a command that fails to undo', async () => {
+    const command = createCommand('Hide');
+    command.undo = vi.fn(() => Promise.reject(new Error('Failed')));
+    service.record(command);
+
+    await expect(service.undo()).rejects.toThrow('Failed');
+
+    expect(service.canUndo()).toBe(false);
+    expect(service.canRedo()).toBe(false);
+  });
+
+  describe('transactions', () => {
+    it('should undo and redo the commands of a transaction at once', async () => {
+      const calls: string[] = [];
+      service.beginTransaction('Hide and recolor');
+      service.record(createCommand('Hide', calls));
+      service.beginTransaction('Nested');
+      service.record(createCommand('Set color', calls));
+      service.commitTransaction();
+
+      expect(service.canUndo()).toBe(false);
+      service.commitTransaction();
+
+      expect(service.getUndoLabel()).toBe('Hide and recolor');
+      await service.undo();
+      await service.redo();
+      expect(calls).toEqual(['undo Set color', 'undo Hide', 'redo Hide', 'redo Set color']);
+      expect(() => service.commitTransaction()).toThrow('No transaction in progress');
+    });
+
+    it('should roll back the transaction when the callback throws', async () => {
+      const calls: string[] = [];
+
+      await expect(
+        service.transaction('Isolate', async () => {
+          await service.execute(createCommand('Hide', calls));
+          throw new Error('Failed');
+        }),
+      ).rejects.toThrow('Failed');
+
+      expect(calls).toEqual(['redo Hide', 'undo Hide']);
+      expect(service.canUndo()).toBe(false);
+    });
+
+    it('should return the result of the callback', async () => {
+      const result = await service.transaction('Hide', async () => {
+        service.record(createCommand('Hide'));
+        return 42;
+      });
+
+      expect(result).toBe(42);
+      expect(service.getUndoLabel()).toBe('Hide');
+    });
+  });
+
+  it('should dispatch hoops-undo-stack-changed with the undo and redo state', async () => {
+    const listener = vi.fn();
+    service.addEventListener('hoops-undo-stack-changed', listener);
+
+    service.record(createCommand('Hide'));
+    await service.undo();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1][0].detail).toEqual({
+      canUndo: false,
+      canRedo: true,
+      undoLabel: undefined,
+      redoLabel: 'Hide',
+    });
+  });
+
+  it('should clear the history when the model is switched', () => {
+    let callbacks: CallbackMap = {};
+    service.webViewer = {
+      setCallbacks: vi.fn((callbackMap: CallbackMap) => {
+        callbacks = callbackMap;
+      }),
+      unsetCallbacks: vi.fn(),
+    } as unknown as core.IWebViewer;
+    service.record(createCommand('Hide'));
+
+    callbacks.modelSwitched?.(false, []);
+
+    expect(service.canUndo()).toBe(false);
+  });
+});
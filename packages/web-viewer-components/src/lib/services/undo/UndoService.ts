@@ -0,0 +1,292 @@
+import { CallbackMap, core } from '@ts3d-hoops/web-viewer';
+import { IUndoService, UndoCommand, UndoStackState } from './types';
+
+type Transaction = {
+  label: string;
+  commands: UndoCommand[];
+};
+
+/**
+ * Creates a command undoing its commands in reverse order and redoing them in order.
+ */
+function createGroupCommand(label: string, commands: UndoCommand[]): UndoCommand {
+  return {
+    label,
+    undo: async () => {
+      for (let index = commands.length - 1; index >= 0; --index) {
+        await commands[index].undo();
+      }
+    },
+    redo: async () => {
+      for (const command of commands) {
+        await command.redo();
+      }
+    },
+  };
+}
+
+/**
+ * Service class keeping the history of the reversible operations done on the viewer.
+ *
+ * The components and services record a command for each operation they perform, e.g. hiding
+ * nodes from the context menu or removing a cutting plane, which can then be undone and redone.
+ * The commands recorded while an operation is undone or redone are ignored, so that the services
+ * can record their operations unconditionally. Undo and redo requests are run one at a time, in
+ * the order they are made, and a command that fails to undo or redo is dropped from the history.
+ * The history is cleared when the web viewer changes or switches to another model.
+ *
+ * @fires hoops-undo-stack-changed - When the history changes, includes the undo and redo state
+ *
+ * @example
+ * ```typescript
+ * const undoService = getService<IUndoService>('UndoService');
+ *
+ * await undoService.execute({
+ *   label: 'Hide',
+ *   undo: () => model.setNodesVisibility(nodeIds, true),
+ *   redo: () => model.setNodesVisibility(nodeIds, false),
+ * });
+ *
+ * await undoService.transaction('Hide and recolor', async () => {
+ *   await undoService.execute(hideCommand);
+ *   await undoService.execute(colorCommand);
+ * });
+ *
+ * await undoService.undo();
+ * ```
+ */
+export default class UndoService extends EventTarget implements IUndoService {
+  public readonly serviceName = 'UndoService' as const;
+
+  /**
+   * The default maximum number of operations kept in the history.
+   */
+  public static readonly DefaultMaxDepth = 100;
+
+  private undoStack: UndoCommand[] = [];
+  private redoStack: UndoCommand[] = [];
+  private transactions: Transaction[] = [];
+  private _maxDepth = UndoService.DefaultMaxDepth;
+  private _applying = false;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private _webViewer?: core.IWebViewer;
+  private callbackMap: CallbackMap = {
+    modelSwitched: () => this.clear(),
+  };
+
+  get webViewer(): core.IWebViewer | undefined {
+    return this._webViewer;
+  }
+
+  set webViewer(webViewer: core.IWebViewer | undefined) {
+    if (this._webViewer === webViewer) {
+      return;
+    }
+
+    this._webViewer?.unsetCallbacks(this.callbackMap);
+    this._webViewer = webViewer;
+    this._webViewer?.setCallbacks(this.callbackMap);
+    this.clear();
+  }
+
+  get maxDepth(): number {
+    return this._maxDepth;
+  }
+
+  set maxDepth(maxDepth: number) {
+    if (!Number.isInteger(maxDepth) || maxDepth < 1) {
+      throw new Error('maxDepth must be a positive integer');
+    }
+
+    this._maxDepth = maxDepth;
+    if (this.undoStack.length > maxDepth) {
+      this.undoStack.splice(0, this.undoStack.length - maxDepth);
+      this.dispatchStackChanged();
+    }
+  }
+
+  get applying(): boolean {
+    return this._applying;
+  }
+
+  public async execute(command: UndoCommand): Promise<void> {
+    await command.redo();
+    this.record(command);
+  }
+
+  public record(command: UndoCommand): void {
+    if (this._applying) {
+      return;
+    }
+
+    const transaction = this.transactions.at(-1);
+    if (transaction) {
+      transaction.commands.push(command);
+      return;
+    }
+
+    this.undoStack.push(command);
+    if (this.undoStack.length > this._maxDepth) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.dispatchStackChanged();
+  }
+
+  public undo(): Promise<boolean> {
+    return this.enqueue(async () => {
+      if (!this.canUndo()) {
+        return false;
+      }
+
+      const command = this.undoStack.pop()!;
+      try {
+        await this.apply(() => command.undo());
+        this.redoStack.push(command);
+      } finally {
+        this.dispatchStackChanged();
+      }
+
+      return true;
+    });
+  }
+
+  public redo(): Promise<boolean> {
+    return this.enqueue(async () => {
+      if (!this.canRedo()) {
+        return false;
+      }
+
+      const command = this.redoStack.pop()!;
+      try {
+        await this.apply(() => command.redo());
+        this.undoStack.push(command);
+      } finally {
+        this.dispatchStackChanged();
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * Whether an operation can be undone. Nothing can be undone while a transaction is in progress.
+   */
+  public canUndo(): boolean {
+    return this.transactions.length === 0 && this.undoStack.length > 0;
+  }
+
+  /**
+   * Whether an operation can be redone. Nothing can be redone while a transaction is in progress.
+   */
+  public canRedo(): boolean {
+    return this.transactions.length === 0 && this.redoStack.length > 0;
+  }
+
+  public getUndoLabel(): string | undefined {
+    return this.undoStack.at(-1)?.label;
+  }
+
+  public getRedoLabel(): string | undefined {
+    return this.redoStack.at(-1)?.label;
+  }
+
+  public beginTransaction(label: string): void {
+    this.transactions.push({ label, commands: [] });
+    if (this.transactions.length === 1) {
+      this.dispatchStackChanged();
+    }
+  }
+
+  public commitTransaction(): void {
+    const transaction = this.transactions.pop();
+    if (!transaction) {
+      throw new Error('No transaction in progress');
+    }
+
+    const parent = this.transactions.at(-1);
+    if (parent) {
+      parent.commands.push(...transaction.commands);
+    } else if (transaction.commands.length > 0) {
+      this.record(createGroupCommand(transaction.label, transaction.commands));
+    } else {
+      this.dispatchStackChanged();
+    }
+  }
+
+  public async rollbackTransaction(): Promise<void> {
+    const transaction = this.transactions.pop();
+    if (!transaction) {
+      throw new Error('No transaction in progress');
+    }
+
+    try {
+      await this.apply(() => createGroupCommand(transaction.label, transaction.commands).undo());
+    } finally {
+      if (this.transactions.length === 0) {
+        this.dispatchStackChanged();
+      }
+    }
+  }
+
+  public async transaction<T>(label: string, callback: () => T | Promise<T>): Promise<T> {
+    this.beginTransaction(label);
+
+    let result: T;
+    try {
+      result = await callback();
+    } catch (error) {
+      await this.rollbackTransaction();
+      throw error;
+    }
+
+    this.commitTransaction();
+    return result;
+  }
+
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    for (const transaction of this.transactions) {
+      transaction.commands = [];
+    }
+    this.dispatchStackChanged();
+  }
+
+  /**
+   * Runs an undo or redo, ignoring the commands recorded meanwhile.
+   */
+  private async apply(operation: () => void | Promise<void>): Promise<void> {
+    this._applying = true;
+    try {
+      await operation();
+    } finally {
+      this._applying = false;
+    }
+  }
+
+  /**
+   * Runs an operation once the previous ones are done, whether they succeeded or not.
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private dispatchStackChanged(): void {
+    this.dispatchEvent(
+      new CustomEvent<UndoStackState>('hoops-undo-stack-changed', {
+        bubbles: true,
+        composed: true,
+        detail: {
+          canUndo: this.canUndo(),
+          canRedo: this.canRedo(),
+          undoLabel: this.getUndoLabel(),
+          redoLabel: this.getRedoLabel(),
+        },
+      }),
+    );
+  }
+}
@@ -0,0 +1,3 @@
+export { default } from './UndoService';
+export * from './UndoService';
+export * from './types';
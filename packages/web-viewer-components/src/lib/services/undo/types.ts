@@ -0,0 +1,122 @@
+import { IService } from '../types';
+
+/**
+ * A reversible operation stored in the history of the UndoService.
+ *
+ * @interface UndoCommand
+ */
+export interface UndoCommand {
+  /**
+   * A short description of the operation, e.g. "Hide" or "Remove cutting plane".
+   */
+  label: string;
+
+  /**
+   * Reverts the operation.
+   */
+  undo(): void | Promise<void>;
+
+  /**
+   * Performs the operation again after it has been reverted.
+   */
+  redo(): void | Promise<void>;
+}
+
+/**
+ * The state of the history, sent with the `hoops-undo-stack-changed` event.
+ */
+export type UndoStackState = {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+};
+
+/**
+ * Interface for the undo service, keeping the history of the reversible operations done through
+ * the components and services.
+ *
+ * @interface IUndoService
+ * @extends IService
+ */
+export interface IUndoService extends IService {
+  /**
+   * The maximum number of operations kept in the history, the oldest ones are dropped first.
+   */
+  maxDepth: number;
+
+  /**
+   * Whether an operation is being undone or redone.
+   * The commands recorded meanwhile are ignored.
+   */
+  readonly applying: boolean;
+
+  /**
+   * Performs the operation and records it in the history.
+   *
+   * @param command - The operation to perform, its `redo` method is called to perform it
+   * @returns A promise that resolves when the operation is performed
+   */
+  execute(command: UndoCommand): Promise<void>;
+
+  /**
+   * Records an operation that has already been performed.
+   * Recording an operation clears the operations that can be redone.
+   *
+   * @param command - The performed operation
+   */
+  record(command: UndoCommand): void;
+
+  /**
+   * Reverts the last operation of the history.
+   *
+   * @returns A promise that resolves with false if there was nothing to undo
+   */
+  undo(): Promise<boolean>;
+
+  /**
+   * Performs again the last reverted operation.
+   *
+   * @returns A promise that resolves with false if there was nothing to redo
+   */
+  redo(): Promise<boolean>;
+
+  canUndo(): boolean;
+  canRedo(): boolean;
+  getUndoLabel(): string | undefined;
+  getRedoLabel(): string | undefined;
+
+  /**
+   * Starts grouping the recorded operations so that they are undone and redone at once.
+   * Transactions can be nested, the group is recorded when the outermost one is committed.
+   *
+   * @param label - The description of the group
+   */
+  beginTransaction(label: string): void;
+
+  /**
+   * Ends the current transaction, recording its operations as a single one.
+   */
+  commitTransaction(): void;
+
+  /**
+   * Ends the current transaction, reverting the operations recorded since it began.
+   *
+   * @returns A promise that resolves when the operations are reverted
+   */
+  rollbackTransaction(): Promise<void>;
+
+  /**
+   * Runs a function in a transaction, the transaction is rolled back if the function throws.
+   *
+   * @param label - The description of the group
+   * @param callback - The function performing the operations
+   * @returns A promise that resolves with the result of the function
+   */
+  transaction<T>(label: string, callback: () => T | Promise<T>): Promise<T>;
+
+  /**
+   * Empties the history.
+   */
+  clear(): void;
+}
@@ -1,5 +1,9 @@
 import { core } from '@ts3d-hoops/web-viewer';
-import { isViewServiceConfiguration, type IViewService } from './types';
+import {
+  isViewServiceConfiguration,
+  type IViewService,
+  type ViewServiceConfiguration,
+} from './types';
 
 export class ViewService extends EventTarget implements IViewService {
   public readonly serviceName = 'ViewService' as const;
@@ -91,6 +95,13 @@ export class ViewService extends EventTarget implements IViewService {
     this.dispatchEvent(new CustomEvent('hoops-view-service-reset'));
   }
 
+  async getConfiguration(): Promise<ViewServiceConfiguration> {
+    return {
+      axisTriadVisible: this.isAxisTriadVisible(),
+      navCubeVisible: this.isNavCubeVisible(),
+    };
+  }
+
   async resetConfiguration(obj?: object): Promise<void> {
     const config = obj ?? ViewService.DefaultConfiguration;
     if (!isViewServiceConfiguration(config)) {
@@ -1,4 +1,4 @@
-import { IResettableConfigurationService, IService } from '../types';
+import { IConfigurableService, IService } from '../types';
 
 export type ViewServiceConfiguration = {
   axisTriadVisible: boolean;
@@ -16,10 +16,11 @@ export function isViewServiceConfiguration(obj: unknown): obj is ViewServiceConf
   );
 }
 
-export interface IViewService extends IService, IResettableConfigurationService {
+export interface IViewService extends IService, IConfigurableService {
   isAxisTriadVisible(): boolean;
   setAxisTriadVisible(visible: boolean): void;
   isNavCubeVisible(): boolean;
   setNavCubeVisible(visible: boolean): void;
   reset(): void;
+  getConfiguration(): Promise<ViewServiceConfiguration>;
 }
@@ -1,5 +1,10 @@
 import { CallbackMap, Operators, WalkMode } from '@ts3d-hoops/web-viewer';
-import { isWalkOperatorServiceConfiguration, IWalkOperatorService, WalkModeName } from './types';
+import {
+  isWalkOperatorServiceConfiguration,
+  IWalkOperatorService,
+  WalkModeName,
+  WalkOperatorServiceConfiguration,
+} from './types';
 import { stringToWalkMode, walkModeToString } from './utils';
 
 export class WalkOperatorService extends EventTarget implements IWalkOperatorService {
@@ -343,6 +348,23 @@ export class WalkOperatorService extends EventTarget implements IWalkOperatorSer
     );
   }
 
+  /**
+   * Gets the current walk configuration, the counterpart of `resetConfiguration`.
+   * @returns a promise that resolves with the current configuration.
+   */
+  async getConfiguration(): Promise<WalkOperatorServiceConfiguration> {
+    return {
+      walkMode: this.getWalkMode(),
+      rotationSpeed: this.getRotationSpeed(),
+      walkSpeed: this.getWalkSpeed(),
+      elevationSpeed: this.getElevationSpeed(),
+      fieldOfView: this.getFieldOfView(),
+      mouseLookEnabled: this.isMouseLookEnabled(),
+      mouseLookSpeed: this.getMouseLookSpeed(),
+      collisionDetectionEnabled: this.isCollisionDetectionEnabled(),
+    };
+  }
+
   async resetConfiguration(obj?: object): Promise<void> {
     if (!this._walkModeOperator || !this._mouseWalkOperator || !this._keyboardWalkOperator) {
       throw new Error('Walk Operators are not initialized');
@@ -1,4 +1,4 @@
-import { IResettableConfigurationService, IService } from '../types';
+import { IConfigurableService, IService } from '../types';
 
 export const WalkModeNames = ['Mouse', 'Keyboard'] as const;
 export type WalkModeName = (typeof WalkModeNames)[number];
@@ -47,7 +47,7 @@ export function isWalkOperatorServiceConfiguration(
   );
 }
 
-export interface IWalkOperatorService extends IService, IResettableConfigurationService {
+export interface IWalkOperatorService extends IService, IConfigurableService {
   getWalkMode(): WalkModeName;
   setWalkMode(mode: WalkModeName): Promise<void>;
   getRotationSpeed(): number;
@@ -66,5 +66,6 @@ export interface IWalkOperatorService extends IService, IResettableConfiguration
   setCollisionDetectionEnabled(enabled: boolean): Promise<void>;
 
   reset(): void;
+  getConfiguration(): Promise<WalkOperatorServiceConfiguration>;
   resetConfiguration(obj?: object): Promise<void>;
 }
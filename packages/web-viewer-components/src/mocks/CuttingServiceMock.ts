@@ -1,9 +1,24 @@
-import { getPlaneCenter } from '../lib/services/cutting/utils';
+import {
+  createSectionBoxCuttingPlanes,
+  fromCuttingPlaneData,
+  getPlaneCenter,
+  getPlaneDistanceRange,
+  getSectionBoxFromPlanes,
+  toCuttingPlaneData,
+} from '../lib/services/cutting/utils';
+import { createSectionProfile, formatSectionProfile } from '../lib/services/cutting/profile';
 import CuttingService from '../lib/services/cutting/CuttingService';
 import {
   CuttingPlane,
+  CuttingPlaneSweepOptions,
+  CuttingPlaneSweepState,
   CuttingServiceConfiguration,
   ICuttingService,
+  isSectionPreset,
+  SectionBoxFace,
+  SectionBoxHandle,
+  SectionPreset,
+  SectionProfileFormat,
   SelectedFace,
 } from '../lib/services/cutting/types';
 import { Section } from '../lib/services/cutting/types';
@@ -14,6 +29,28 @@ import {
   Plane,
   Point3,
 } from '@ts3d-hoops/common';
+import { NodeId } from '@ts3d-hoops/web-viewer';
+
+/**
+ * Gets the triangles of the faces of a box, three vertices per triangle.
+ */
+function getBoxTriangles(box: Box): Point3[] {
+  const corner = (index: number) =>
+    new Point3(
+      index & 1 ? box.max.x : box.min.x,
+      index & 2 ? box.max.y : box.min.y,
+      index & 4 ? box.max.z : box.min.z,
+    );
+  const faces = [
+    [0, 2, 6, 4],
+    [1, 5, 7, 3],
+    [0, 4, 5, 1],
+    [2, 3, 7, 6],
+    [0, 1, 3, 2],
+    [4, 6, 7, 5],
+  ];
+  return faces.flatMap(([a, b, c, d]) => [a, b, c, a, c, d].map(corner));
+}
 
 const defaultCuttingSections: Section[] = [
   {
@@ -65,6 +102,15 @@ export class CuttingServiceMock extends EventTarget implements ICuttingService {
   private configuration: CuttingServiceConfiguration;
   private modelBounding: Box = new Box(new Point3(0, 0, 0), new Point3(1, 1, 1));
   private selectedFace: SelectedFace | undefined;
+  private selectedNodeIds: NodeId[] = [];
+  private sectionPresets = new Map<string, SectionPreset>();
+  private planeSweep?: {
+    sectionIndex: number;
+    planeIndex: number;
+    state: CuttingPlaneSweepState;
+    resolve: () => void;
+  };
+  private sectionBoxHandle?: SectionBoxHandle;
 
   public fn: (...args: any[]) => any;
 
@@ -77,6 +123,7 @@ export class CuttingServiceMock extends EventTarget implements ICuttingService {
   public getModelBounding: () => Box;
   public setModelBounding: (modelBounding: Box) => void;
   public getSelectedFace: () => SelectedFace | undefined;
+  public getSelectedNodeIds: () => NodeId[];
   public getCuttingSectionCount: () => number;
   public getCuttingSections: () => Section[];
   public getCuttingSection: (index: number) => Section | undefined;
@@ -96,6 +143,7 @@ export class CuttingServiceMock extends EventTarget implements ICuttingService {
     planeIndex: number,
     cuttingPlane: Partial<CuttingPlane>,
   ) => Promise<void>;
+  public getConfiguration: () => Promise<CuttingServiceConfiguration>;
   public resetConfiguration: (obj?: object) => Promise<void>;
   public setCuttingPlaneColor: (sectionIndex: number, planeIndex: number, color: IColor) => void;
   public setCuttingPlaneLineColor: (
@@ -113,6 +161,43 @@ export class CuttingServiceMock extends EventTarget implements ICuttingService {
     planeIndex: number,
     visible: boolean,
   ) => Promise<void>;
+  public createSectionBox: (
+    sectionIndex: number,
+    target: Box | NodeId[],
+    padding?: number,
+  ) => Promise<void>;
+  public getSectionBox: (sectionIndex: number) => Box | undefined;
+  public setSectionBox: (sectionIndex: number, box: Box) => Promise<void>;
+  public showSectionBoxHandle: (sectionIndex: number, face: SectionBoxFace) => Promise<void>;
+  public hideSectionBoxHandle: () => Promise<void>;
+  public getSectionBoxHandle: () => SectionBoxHandle | undefined;
+  public getPlaneSweepRange: (
+    sectionIndex: number,
+    planeIndex: number,
+  ) => { min: number; max: number } | undefined;
+  public animatePlane: (
+    sectionIndex: number,
+    planeIndex: number,
+    options?: CuttingPlaneSweepOptions,
+  ) => Promise<void>;
+  public getPlaneAnimationState: (
+    sectionIndex: number,
+    planeIndex: number,
+  ) => CuttingPlaneSweepState;
+  public pausePlaneAnimation: () => void;
+  public resumePlaneAnimation: () => void;
+  public stopPlaneAnimation: () => void;
+  public saveSectionPreset: (name: string, sectionIndex: number) => void;
+  public applySectionPreset: (name: string, sectionIndex: number) => Promise<void>;
+  public listSectionPresets: () => string[];
+  public deleteSectionPreset: (name: string) => void;
+  public exportSectionPresets: () => SectionPreset[];
+  public importSectionPresets: (presets: unknown) => void;
+  public exportSectionProfile: (
+    sectionIndex: number,
+    planeIndex: number,
+    format: SectionProfileFormat,
+  ) => Promise<string>;
 
   constructor(fn: (...args: any[]) => any) {
     super();
@@ -179,6 +264,7 @@ export class CuttingServiceMock extends EventTarget implements ICuttingService {
     this.setModelBounding = fn((value: Box) => (this.modelBounding = value));
 
     this.getSelectedFace = fn(() => this.selectedFace);
+    this.getSelectedNodeIds = fn(() => this.selectedNodeIds);
 
     this.getCuttingSectionCount = fn(() => this.cuttingSections.length);
     this.getCuttingSections = fn(() => this.cuttingSections);
@@ -431,6 +517,224 @@ export class CuttingServiceMock extends EventTarget implements ICuttingService {
       },
     );
 
+    const dispatchSectionsChange = () =>
+      this.dispatchEvent(
+        new CustomEvent('hoops-cutting-sections-change', { bubbles: true, composed: true }),
+      );
+
+    this.createSectionBox = fn(
+      async (sectionIndex: number, target: Box | NodeId[], padding = 0) => {
+        const section = ensureSection(sectionIndex);
+        // There is no model in the mock, the nodes are bounded by the model bounding
+        const bounding = Array.isArray(target) ? this.modelBounding : target;
+        const margin = new Point3(padding, padding, padding);
+        section.cuttingPlanes = createSectionBoxCuttingPlanes(
+          new Box(Point3.subtract(bounding.min, margin), Point3.add(bounding.max, margin)),
+          section.hideReferenceGeometry,
+        );
+        section.active = true;
+        this.dispatchEvent(
+          new CustomEvent<{ sectionIndex: number }>('hoops-cutting-plane-added', {
+            bubbles: true,
+            composed: true,
+            detail: { sectionIndex },
+          }),
+        );
+        dispatchSectionsChange();
+      },
+    );
+
+    this.getSectionBox = fn((sectionIndex: number) => {
+      const section = this.cuttingSections[sectionIndex];
+      return section
+        ? getSectionBoxFromPlanes(section.cuttingPlanes.map((cuttingPlane) => cuttingPlane.plane))
+        : undefined;
+    });
+
+    this.setSectionBox = fn(async (sectionIndex: number, box: Box) => {
+      const section = ensureSection(sectionIndex);
+      if (!this.getSectionBox(sectionIndex)) {
+        throw new Error(`Cutting section at index ${sectionIndex} is not a section box`);
+      }
+      section.cuttingPlanes = createSectionBoxCuttingPlanes(box).map((cuttingPlane, index) => ({
+        ...section.cuttingPlanes[index],
+        plane: cuttingPlane.plane,
+        referenceGeometry: section.cuttingPlanes[index].referenceGeometry
+          ? cuttingPlane.referenceGeometry
+          : undefined,
+      }));
+      dispatchSectionsChange();
+    });
+
+    // There is no viewport in the mock, the handle is only a state
+    const dispatchSectionBoxHandleChange = () =>
+      this.dispatchEvent(
+        new CustomEvent('hoops-cutting-section-box-handle-change', {
+          bubbles: true,
+          composed: true,
+          detail: { handle: this.getSectionBoxHandle() },
+        }),
+      );
+
+    this.showSectionBoxHandle = fn(async (sectionIndex: number, face: SectionBoxFace) => {
+      if (!this.getSectionBox(sectionIndex)) {
+        throw new Error(`Cutting section at index ${sectionIndex} is not a section box`);
+      }
+      this.sectionBoxHandle = { sectionIndex, face };
+      dispatchSectionBoxHandleChange();
+    });
+
+    this.hideSectionBoxHandle = fn(async () => {
+      if (this.sectionBoxHandle) {
+        this.sectionBoxHandle = undefined;
+        dispatchSectionBoxHandleChange();
+      }
+    });
+
+    this.getSectionBoxHandle = fn(() => this.sectionBoxHandle && { ...this.sectionBoxHandle });
+
+    // The sweeps of the mock do not move the planes, they only go through the states
+    const setPlaneSweepState = (state: CuttingPlaneSweepState) => {
+      const sweep = this.planeSweep;
+      if (!sweep) {
+        return;
+      }
+      sweep.state = state;
+      if (state === 'stopped') {
+        this.planeSweep = undefined;
+        sweep.resolve();
+      }
+      this.dispatchEvent(
+        new CustomEvent('hoops-cutting-plane-animation-change', {
+          bubbles: true,
+          composed: true,
+          detail: { sectionIndex: sweep.sectionIndex, planeIndex: sweep.planeIndex, state },
+        }),
+      );
+    };
+
+    this.getPlaneSweepRange = fn((sectionIndex: number, planeIndex: number) => {
+      const cuttingPlane = this.getCuttingPlane(sectionIndex, planeIndex);
+      return cuttingPlane && getPlaneDistanceRange(cuttingPlane.plane, this.modelBounding);
+    });
+
+    this.animatePlane = fn(async (sectionIndex: number, planeIndex: number) => {
+      if (!this.getCuttingPlane(sectionIndex, planeIndex)) {
+        throw new Error(`No cutting plane at index ${planeIndex} in section ${sectionIndex}`);
+      }
+      setPlaneSweepState('stopped');
+      await new Promise<void>((resolve) => {
+        this.planeSweep = { sectionIndex, planeIndex, state: 'paused', resolve };
+        setPlaneSweepState('playing');
+      });
+    });
+
+    this.getPlaneAnimationState = fn((sectionIndex: number, planeIndex: number) =>
+      this.planeSweep?.sectionIndex === sectionIndex && this.planeSweep.planeIndex === planeIndex
+        ? this.planeSweep.state
+        : 'stopped',
+    );
+
+    this.pausePlaneAnimation = fn(() => {
+      if (this.planeSweep?.state === 'playing') {
+        setPlaneSweepState('paused');
+      }
+    });
+
+    this.resumePlaneAnimation = fn(() => {
+      if (this.planeSweep?.state === 'paused') {
+        setPlaneSweepState('playing');
+      }
+    });
+
+    this.stopPlaneAnimation = fn(() => setPlaneSweepState('stopped'));
+
+    const dispatchPresetsChange = () =>
+      this.dispatchEvent(
+        new CustomEvent('hoops-cutting-presets-change', { bubbles: true, composed: true }),
+      );
+
+    this.saveSectionPreset = fn((name: string, sectionIndex: number) => {
+      const section = ensureSection(sectionIndex);
+      if (!name.trim()) {
+        throw new Error('Section preset name is empty');
+      }
+      this.sectionPresets.set(name, {
+        name,
+        section: {
+          cuttingPlanes: section.cuttingPlanes.map(toCuttingPlaneData),
+          active: section.active,
+          hideReferenceGeometry: section.hideReferenceGeometry,
+        },
+      });
+      dispatchPresetsChange();
+    });
+
+    this.applySectionPreset = fn(async (name: string, sectionIndex: number) => {
+      const section = ensureSection(sectionIndex);
+      const preset = this.sectionPresets.get(name);
+      if (!preset) {
+        throw new Error(`No section preset named ${name}`);
+      }
+      section.cuttingPlanes = preset.section.cuttingPlanes.map(fromCuttingPlaneData);
+      section.active = preset.section.cuttingPlanes.length > 0 && preset.section.active;
+      section.hideReferenceGeometry = !!preset.section.hideReferenceGeometry;
+      this.dispatchEvent(
+        new CustomEvent<{ sectionIndex: number }>('hoops-cutting-section-change', {
+          bubbles: true,
+          composed: true,
+          detail: { sectionIndex },
+        }),
+      );
+      dispatchSectionsChange();
+    });
+
+    this.listSectionPresets = fn(() => [...this.sectionPresets.keys()]);
+
+    this.deleteSectionPreset = fn((name: string) => {
+      if (this.sectionPresets.delete(name)) {
+        dispatchPresetsChange();
+      }
+    });
+
+    this.exportSectionPresets = fn(() =>
+      JSON.parse(JSON.stringify([...this.sectionPresets.values()])),
+    );
+
+    this.importSectionPresets = fn((presets: unknown) => {
+      if (!Array.isArray(presets) || !presets.every(isSectionPreset)) {
+        throw new Error('Invalid section presets object');
+      }
+      for (const preset of JSON.parse(JSON.stringify(presets)) as SectionPreset[]) {
+        this.sectionPresets.set(preset.name, preset);
+      }
+      dispatchPresetsChange();
+    });
+
+    this.exportSectionProfile = fn(
+      async (sectionIndex: number, planeIndex: number, format: SectionProfileFormat) => {
+        const cuttingPlane = this.getCuttingPlane(sectionIndex, planeIndex);
+        if (!cuttingPlane) {
+          throw new Error(`No cutting plane at index ${planeIndex} in section ${sectionIndex}`);
+        }
+        // The model of the mock is its bounding box, as a single node
+        return formatSectionProfile(
+          createSectionProfile(
+            cuttingPlane.plane,
+            this.modelBounding,
+            new Map([[0, getBoxTriangles(this.modelBounding)]]),
+          ),
+          format,
+        );
+      },
+    );
+
+    this.getConfiguration = fn(
+      async (): Promise<CuttingServiceConfiguration> => ({
+        ...this.configuration,
+      }),
+    );
+
     this.resetConfiguration = fn(async (obj?: object): Promise<void> => {
       const config = obj ?? CuttingService.DefaultConfig;
       // Simple validation mirroring isCuttingServiceConfiguration
@@ -493,6 +797,17 @@ export class CuttingServiceMock extends EventTarget implements ICuttingService {
     );
   }
 
+  // Utility to simulate node selection changes for consumers
+  public simulateNodeSelection(nodeIds: NodeId[]): void {
+    this.selectedNodeIds = nodeIds;
+    this.dispatchEvent(
+      new CustomEvent('hoops-cutting-face-selection-change', {
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
   public reset() {
     this.cuttingSections = this.restoreCuttingSections(
       JSON.parse(JSON.stringify(defaultCuttingSections)),
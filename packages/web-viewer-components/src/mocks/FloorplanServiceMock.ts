@@ -2,6 +2,7 @@ import {
   IFloorplanService,
   OrientationName,
   AutoActivationModeName,
+  FloorplanServiceConfiguration,
 } from '../lib/services/floorplan/types';
 
 export class FloorplanServiceMock extends EventTarget implements IFloorplanService {
@@ -63,6 +64,7 @@ export class FloorplanServiceMock extends EventTarget implements IFloorplanServi
   public setFloorplanAvatarOutlineColor: (color: string) => Promise<void>;
 
   public reset: () => Promise<void>;
+  public getConfiguration: () => Promise<FloorplanServiceConfiguration>;
   public resetConfiguration: (obj?: object) => Promise<void>;
 
   constructor(fn: (...args: any[]) => any) {
@@ -213,6 +215,24 @@ export class FloorplanServiceMock extends EventTarget implements IFloorplanServi
       this.dispatchEvent(new CustomEvent('hoops-floorplan-reset', {}));
     });
 
+    this.getConfiguration = fn(
+      async (): Promise<FloorplanServiceConfiguration> => ({
+        floorplanActive: this.active,
+        trackCamera: this.trackCamera,
+        orientation: this.orientation,
+        autoActivationMode: this.autoActivation,
+        overlayFeetPerPixel: this.feetPerPixel,
+        overlayZoomLevel: this.zoomLevel,
+        overlayBackgroundOpacity: this.backgroundOpacity,
+        overlayBorderOpacity: this.borderOpacity,
+        overlayAvatarOpacity: this.avatarOpacity,
+        floorplanBackgroundColor: this.backgroundColor,
+        floorplanBorderColor: this.borderColor,
+        floorplanAvatarColor: this.avatarColor,
+        floorplanAvatarOutlineColor: this.avatarOutlineColor,
+      }),
+    );
+
     this.resetConfiguration = fn();
   }
 }
@@ -1,4 +1,15 @@
-import { IRedlineService, RedlineItemData, RedlineViewData, ServiceName } from '../lib/services';
+import {
+  getRedlineItemKind,
+  IRedlineService,
+  isMarkupItemQueryFiltering,
+  MarkupSyncAdapter,
+  matchesMarkupItemQuery,
+  RedlineItemData,
+  RedlineItemReference,
+  RedlineViewData,
+  RedlineViewQuery,
+  ServiceName,
+} from '../lib/services';
 import { Uuid } from '@ts3d-hoops/web-viewer';
 
 export const redlineViewMap: Record<string, RedlineViewData> = {
@@ -29,6 +40,8 @@ export class RedlineServiceMock extends EventTarget implements IRedlineService {
 
   public viewMap: Record<string, RedlineViewData> = JSON.parse(JSON.stringify(redlineViewMap));
 
+  public hiddenItemIds = new Set<Uuid>();
+
   public fn: (...args: any[]) => any;
 
   public getRedlineViews: () => RedlineViewData[];
@@ -75,6 +88,7 @@ export class RedlineServiceMock extends EventTarget implements IRedlineService {
 
     this.reset = fn((): void => {
       this.activeViewKey = undefined;
+      this.hiddenItemIds.clear();
       this.viewMap = JSON.parse(JSON.stringify(redlineViewMap)); // Reset to initial state
       this.dispatchEvent(
         new CustomEvent('hoops-redline-service-reset', { bubbles: true, composed: true }),
@@ -106,6 +120,116 @@ export class RedlineServiceMock extends EventTarget implements IRedlineService {
     });
   }
 
+  createRedlineView(): Uuid {
+    const view: RedlineViewData = { id: `view-${Object.keys(this.viewMap).length + 1}`, items: [] };
+    this.viewMap[view.id] = view;
+    this.dispatchEvent(
+      new CustomEvent<{ markupViewId: Uuid }>('hoops-redline-view-created', {
+        detail: { markupViewId: view.id },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+    return view.id;
+  }
+
+  addRedlineCircle(viewId: Uuid): RedlineItemData {
+    return this.createRedline(viewId, 'Communicator.Markup.Redline.RedlineCircle');
+  }
+
+  addRedlineRectangle(viewId: Uuid): RedlineItemData {
+    return this.createRedline(viewId, 'Communicator.Markup.Redline.RedlineRectangle');
+  }
+
+  addRedlinePolyline(viewId: Uuid): RedlineItemData {
+    return this.createRedline(viewId, 'Communicator.Markup.Redline.RedlinePolyline');
+  }
+
+  addRedlineText(viewId: Uuid): RedlineItemData {
+    return this.createRedline(viewId, 'Communicator.Markup.Redline.RedlineText');
+  }
+
+  updateRedlineItem(viewId: Uuid, itemId: Uuid): RedlineItemData {
+    const markup = this.viewMap[viewId]?.items.find((item) => item.id === itemId);
+    if (!markup) {
+      throw new Error(`Redline item with ID ${itemId} not found in view ${viewId}`);
+    }
+
+    this.dispatchEvent(
+      new CustomEvent<{
+        markupViewId: Uuid;
+        markup: RedlineItemData;
+      }>('hoops-redline-updated', {
+        detail: { markupViewId: viewId, markup },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+    return markup;
+  }
+
+  private createRedline(viewId: Uuid, type: RedlineItemData['type']): RedlineItemData {
+    const markup: RedlineItemData = { id: `markup-${Date.now()}`, type };
+    this.fireRedlineCreatedEvent({ markupViewId: viewId, markup });
+    return markup;
+  }
+
+  findRedlineViews(query: RedlineViewQuery): RedlineViewData[] {
+    const filtering = isMarkupItemQueryFiltering(query);
+    return Object.values(this.viewMap)
+      .filter((view) => !query.activeViewOnly || view.id === this.activeViewKey)
+      .map((view) => ({
+        id: view.id,
+        items: view.items.filter((item) =>
+          matchesMarkupItemQuery(getRedlineItemKind(item.type), undefined, query),
+        ),
+      }))
+      .filter((view) => view.items.length || !filtering);
+  }
+
+  getRedlineItemVisibility(_viewId: Uuid, itemId: Uuid): boolean {
+    return !this.hiddenItemIds.has(itemId);
+  }
+
+  setRedlineItemsVisibility(items: RedlineItemReference[], visible: boolean): void {
+    for (const { markupItem } of items) {
+      if (visible) {
+        this.hiddenItemIds.delete(markupItem.id);
+      } else {
+        this.hiddenItemIds.add(markupItem.id);
+      }
+    }
+    this.dispatchEvent(
+      new CustomEvent('hoops-redline-visibility-changed', {
+        detail: { items, visible },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  getHiddenRedlineItems(): RedlineItemReference[] {
+    return Object.values(redlineViewMap).flatMap((view) =>
+      view.items
+        .filter((item) => this.hiddenItemIds.has(item.id))
+        .map((markupItem) => ({ markupViewId: view.id, markupItem })),
+    );
+  }
+
+  includeHiddenRedlineItems<T>(callback: () => T): T {
+    return callback();
+  }
+
+  async removeRedlineItems(items: RedlineItemReference[]): Promise<void> {
+    for (const { markupViewId, markupItem } of items) {
+      await this.removeRedlineItem(markupViewId, markupItem);
+    }
+  }
+
+  async setSyncAdapter(_adapter: MarkupSyncAdapter | undefined): Promise<void> {
+    // No synchronization in the mock
+  }
+
   removeRedlineView(uniqueId: Uuid): void {
     if (this.viewMap[uniqueId]) {
       delete this.viewMap[uniqueId];
@@ -1,4 +1,4 @@
-import { IViewService } from '../lib/services/view/types';
+import { IViewService, ViewServiceConfiguration } from '../lib/services/view/types';
 
 export class ViewServiceMock extends EventTarget implements IViewService {
   public readonly serviceName = 'ViewService' as const;
@@ -13,6 +13,7 @@ export class ViewServiceMock extends EventTarget implements IViewService {
   public isNavCubeVisible: () => boolean;
   public setNavCubeVisible: (visible: boolean) => void;
   public reset: () => void;
+  public getConfiguration: () => Promise<ViewServiceConfiguration>;
   public resetConfiguration: (obj?: object) => Promise<void>;
 
   constructor(fn: (...args: any[]) => any) {
@@ -54,6 +55,13 @@ export class ViewServiceMock extends EventTarget implements IViewService {
       this.dispatchEvent(new CustomEvent('hoops-view-reset'));
     });
 
+    this.getConfiguration = fn(
+      async (): Promise<ViewServiceConfiguration> => ({
+        axisTriadVisible: this.axisTriadEnabled,
+        navCubeVisible: this.navCubeEnabled,
+      }),
+    );
+
     this.resetConfiguration = fn();
   }
 }
@@ -1,4 +1,8 @@
-import { IWalkOperatorService, WalkModeName } from '../lib/services/walk-operator/types';
+import {
+  IWalkOperatorService,
+  WalkModeName,
+  WalkOperatorServiceConfiguration,
+} from '../lib/services/walk-operator/types';
 
 export class WalkOperatorServiceMock extends EventTarget implements IWalkOperatorService {
   public readonly serviceName = 'WalkOperatorService' as const;
@@ -31,6 +35,7 @@ export class WalkOperatorServiceMock extends EventTarget implements IWalkOperato
   public getMouseLookSpeed: () => number;
   public setMouseLookSpeed: (speed: number) => void;
   public reset: () => void;
+  public getConfiguration: () => Promise<WalkOperatorServiceConfiguration>;
   public resetConfiguration: (obj?: object) => Promise<void>;
 
   constructor(fn: (...args: any[]) => any) {
@@ -177,6 +182,19 @@ export class WalkOperatorServiceMock extends EventTarget implements IWalkOperato
       );
     });
 
+    this.getConfiguration = fn(
+      async (): Promise<WalkOperatorServiceConfiguration> => ({
+        walkMode: this.walkMode,
+        rotationSpeed: this.rotationSpeed,
+        walkSpeed: this.walkSpeed,
+        elevationSpeed: this.elevationSpeed,
+        fieldOfView: this.fieldOfView,
+        mouseLookEnabled: this.mouseLookEnabled,
+        mouseLookSpeed: this.mouseLookSpeed,
+        collisionDetectionEnabled: this.collisionDetectionEnabled,
+      }),
+    );
+
     this.resetConfiguration = fn();
   }
 }